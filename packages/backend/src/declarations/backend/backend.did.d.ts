@@ -31,11 +31,83 @@ export interface Attachment {
   'uploadedAt' : bigint,
   'uploadedBy' : UserId,
 }
+export interface AttachmentUploadRequest {
+  'fileKey' : Uint8Array | number[],
+  'fileSizeBytes' : bigint,
+  'fileName' : string,
+  'fileType' : AttachmentType,
+  'chunkCount' : bigint,
+  'queryId' : QueryId,
+  'thumbnail' : [] | [Uint8Array | number[]],
+  'mimeType' : string,
+}
 export type AttachmentType = { 'prescription' : null } |
   { 'lab_result' : null } |
   { 'document' : null } |
   { 'image' : null } |
   { 'medical_record' : null };
+export interface AuditActor {
+  'principal' : string,
+  'userId' : [] | [UserId],
+  'name' : string,
+  'role' : [] | [UserRole],
+}
+export type AuditAction = { 'ai_processing' : null } |
+  { 'update' : null } |
+  { 'view' : null } |
+  { 'export' : null };
+export interface PhiAuditEvent {
+  'id' : string,
+  'resourceKind' : AuditResourceKind,
+  'action' : AuditAction,
+  'resourceId' : string,
+  'patientId' : PatientId,
+  'accessedBy' : AuditActor,
+  'timestamp' : bigint,
+  'reason' : string,
+}
+export interface AuditFilter {
+  'action' : [] | [AuditAction],
+  'resourceKind' : [] | [AuditResourceKind],
+  'toTime' : [] | [bigint],
+  'patientId' : [] | [PatientId],
+  'limit' : [] | [bigint],
+  'actorId' : [] | [string],
+  'fromTime' : [] | [bigint],
+}
+export type AuditResourceKind = { 'patient_record' : null } |
+  { 'attachment' : null } |
+  { 'prescription' : null } |
+  { 'medical_query' : null };
+export type ConsentDecision = { 'revoked' : null } |
+  { 'accepted' : null };
+export interface ConsentDocument {
+  'title' : string,
+  'body' : string,
+  'kind' : ConsentKind,
+  'publishedAt' : bigint,
+  'version' : bigint,
+  'required' : boolean,
+}
+export type ConsentKind = { 'hipaa_notice' : null } |
+  { 'treatment' : null } |
+  { 'ai_processing' : null } |
+  { 'data_processing' : null };
+export interface ConsentRecord {
+  'id' : string,
+  'decision' : ConsentDecision,
+  'kind' : ConsentKind,
+  'signedBy' : string,
+  'patientId' : PatientId,
+  'recordedAt' : bigint,
+  'documentVersion' : bigint,
+  'signerName' : string,
+}
+export interface ConsentStatus {
+  'latest' : [] | [ConsentRecord],
+  'document' : ConsentDocument,
+  'needsReconsent' : boolean,
+}
 export type BloodType = { 'B_negative' : null } |
   { 'AB_positive' : null } |
   { 'O_positive' : null } |
@@ -73,10 +145,56 @@ export interface EmergencyContact {
   'address' : [] | [string],
   'phoneNumber' : string,
 }
+export interface EscalationEvent {
+  'queryId' : QueryId,
+  'step' : EscalationStep,
+  'level' : bigint,
+  'message' : string,
+  'notifiedDoctorIds' : Array<DoctorId>,
+  'timestamp' : bigint,
+}
+export interface EscalationPolicy {
+  'enabled' : boolean,
+  'urgencies' : Array<string>,
+  'raiseLevelAfterMinutes' : bigint,
+  'notifyOnCallAfterMinutes' : bigint,
+  'patientGuidanceAfterMinutes' : bigint,
+  'patientGuidance' : string,
+}
+export type EscalationStep = { 'level_raised' : null } |
+  { 'on_call_notified' : null } |
+  { 'patient_guidance_sent' : null } |
+  { 'claimed' : null };
+export interface FeedbackTask {
+  'id' : string,
+  'status' : FeedbackTaskStatus,
+  'patientId' : PatientId,
+  'doctorId' : DoctorId,
+  'createdAt' : bigint,
+  'queryId' : QueryId,
+  'comment' : string,
+  'resolvedAt' : [] | [bigint],
+  'rating' : bigint,
+  'resolutionNote' : string,
+}
+export type FeedbackTaskStatus = { 'resolved' : null } |
+  { 'open' : null };
 export type Gender = { 'other' : null } |
   { 'female' : null } |
   { 'male' : null } |
   { 'prefer_not_to_say' : null };
+export type GlucoseEntryKind = { 'hba1c' : null } |
+  { 'glucose' : null } |
+  { 'insulin' : null };
+export interface GlucoseLogEntry {
+  'id' : string,
+  'value' : number,
+  'kind' : GlucoseEntryKind,
+  'mealContext' : [] | [MealContext],
+  'notes' : [] | [string],
+  'insulinType' : [] | [string],
+  'recordedAt' : bigint,
+}
 export interface HealthcareMetrics {
   'averagePatientSatisfaction' : number,
   'averageDoctorResponseTime' : number,
@@ -99,6 +217,32 @@ export interface InsuranceInfo {
   'policyNumber' : string,
   'effectiveDate' : bigint,
 }
+export interface InteractionFlag {
+  'ruleId' : string,
+  'summary' : string,
+  'severity' : InteractionSeverity,
+}
+export interface InteractionOverride {
+  'justification' : string,
+  'flags' : Array<InteractionFlag>,
+}
+export type InteractionSeverity = { 'major' : null } |
+  { 'minor' : null } |
+  { 'contraindicated' : null } |
+  { 'moderate' : null };
+export interface LinkCode {
+  'expiresAt' : bigint,
+  'userId' : UserId,
+  'code' : string,
+  'role' : UserRole,
+  'issuedAt' : bigint,
+  'issuedBy' : string,
+}
+export type MealContext = { 'post_meal' : null } |
+  { 'other' : null } |
+  { 'bedtime' : null } |
+  { 'fasting' : null } |
+  { 'pre_meal' : null };
 export interface MedicalHistory {
   'surgeries' : Array<string>,
   'lastUpdated' : bigint,
@@ -119,6 +263,13 @@ export interface MedicalQuery {
   'aiDraftResponse' : [] | [string],
   'response' : [] | [string],
 }
+export interface MedicalResponse {
+  'content' : string,
+  'urgency' : string,
+  'timestamp' : bigint,
+  'safetyScore' : bigint,
+  'requiresReview' : boolean,
+}
 export interface Patient {
   'id' : PatientId,
   'name' : string,
@@ -162,7 +313,46 @@ export interface PatientData {
   'lastName' : string,
   'firstName' : string,
 }
+export interface PatientEngagement {
+  'activeLast30Days' : bigint,
+  'answeredQueries' : bigint,
+  'patientsWithQueries' : bigint,
+  'returningPatients' : bigint,
+  'registeredPatients' : bigint,
+  'ratedAnswers' : bigint,
+}
 export type PatientId = string;
+export interface PrescribedMedication {
+  'duration' : string,
+  'dosage' : string,
+  'name' : string,
+  'instructions' : string,
+  'frequency' : string,
+}
+export interface Prescription {
+  'id' : string,
+  'doctorName' : string,
+  'patientId' : PatientId,
+  'doctorId' : DoctorId,
+  'queryId' : QueryId,
+  'notes' : string,
+  'refillOf' : [] | [string],
+  'issuedAt' : bigint,
+  'signedBy' : string,
+  'interactionOverride' : [] | [InteractionOverride],
+  'medications' : Array<PrescribedMedication>,
+}
+export interface PrincipalLink {
+  'userId' : UserId,
+  'role' : UserRole,
+  'linkedAt' : bigint,
+}
+export interface PlatformAnalytics {
+  'doctorsBySpecialty' : Array<[string, bigint]>,
+  'stats' : PlatformStats,
+  'activity' : Array<QueryActivity>,
+  'engagement' : PatientEngagement,
+}
 export interface PlatformStats {
   'patientSatisfactionAverage' : number,
   'queriesLastMonth' : bigint,
@@ -196,6 +386,19 @@ export interface PlatformStats {
   'reportingPeriod' : string,
   'activePatients' : bigint,
 }
+export interface QueryActivity {
+  'resolvedAt' : [] | [bigint],
+  'createdAt' : bigint,
+  'specialty' : string,
+}
+export interface QueryAttachment {
+  'complete' : boolean,
+  'attachment' : Attachment,
+  'chunkCount' : bigint,
+  'queryId' : QueryId,
+  'thumbnail' : [] | [Uint8Array | number[]],
+  'mimeType' : string,
+}
 export type QueryCategory = { 'second_opinion' : null } |
   { 'medication_question' : null } |
   { 'other' : string } |
@@ -238,6 +441,15 @@ export interface QueryData {
   'resolvedAt' : [] | [bigint],
   'followUpDate' : [] | [bigint],
 }
+export interface QueryFeedback {
+  'patientId' : PatientId,
+  'doctorId' : DoctorId,
+  'submittedAt' : bigint,
+  'queryId' : QueryId,
+  'comment' : string,
+  'specialty' : string,
+  'rating' : bigint,
+}
 export type QueryId = string;
 export type QueryPriority = { 'low' : null } |
   { 'emergency' : null } |
@@ -262,10 +474,86 @@ export type QueryStatus = { 'resolved' : null } |
   { 'escalated' : null } |
   { 'awaiting_patient_response' : null } |
   { 'in_review' : null };
+export interface QueryThread {
+  'status' : QueryStatus,
+  'patientMessages' : Array<QueryResponse>,
+  'queryId' : QueryId,
+  'responses' : Array<QueryResponse>,
+  'internalNotes' : Array<QueryResponse>,
+}
+export interface RatingRollup {
+  'bySpecialty' : Array<RatingSummary>,
+  'overall' : RatingSummary,
+  'byDoctor' : Array<RatingSummary>,
+}
+export interface RatingSummary {
+  'key' : string,
+  'lowRatingCount' : bigint,
+  'averageRating' : number,
+  'name' : string,
+  'ratingCount' : bigint,
+}
+export interface ResponseTemplate {
+  'id' : string,
+  'ownerName' : string,
+  'content' : string,
+  'usageCount' : bigint,
+  'name' : string,
+  'createdAt' : bigint,
+  'lastUsedAt' : [] | [bigint],
+  'updatedAt' : bigint,
+  'isShared' : boolean,
+  'category' : [] | [QueryCategory],
+  'version' : bigint,
+  'ownerId' : DoctorId,
+  'previousVersions' : Array<TemplateVersion>,
+}
+export interface ResponseTemplateInput {
+  'content' : string,
+  'name' : string,
+  'isShared' : boolean,
+  'category' : [] | [QueryCategory],
+}
 export type Result = { 'ok' : null } |
   { 'err' : string };
 export type Result_1 = { 'ok' : QueryId } |
   { 'err' : string };
+export type Result_10 = { 'ok' : FeedbackTask } |
+  { 'err' : string };
+export type Result_11 = { 'ok' : PlatformAnalytics } |
+  { 'err' : string };
+export type Result_12 = { 'ok' : Array<PhiAuditEvent> } |
+  { 'err' : string };
+export type Result_13 = { 'ok' : ConsentDocument } |
+  { 'err' : string };
+export type Result_14 = { 'ok' : Array<ConsentStatus> } |
+  { 'err' : string };
+export type Result_15 = { 'ok' : Array<ConsentRecord> } |
+  { 'err' : string };
+export type Result_16 = { 'ok' : ConsentRecord } |
+  { 'err' : string };
+export type Result_17 = { 'ok' : LinkCode } |
+  { 'err' : string };
+export type Result_18 = { 'ok' : MedicalResponse } |
+  { 'err' : string };
+export type Result_19 = { 'ok' : boolean } |
+  { 'err' : string };
+export type Result_2 = { 'ok' : PrincipalLink } |
+  { 'err' : string };
+export type Result_3 = { 'ok' : QueryThread } |
+  { 'err' : string };
+export type Result_4 = { 'ok' : QueryAttachment } |
+  { 'err' : string };
+export type Result_5 = { 'ok' : Array<QueryAttachment> } |
+  { 'err' : string };
+export type Result_6 = { 'ok' : Uint8Array | number[] } |
+  { 'err' : string };
+export type Result_7 = { 'ok' : Prescription } |
+  { 'err' : string };
+export type Result_8 = { 'ok' : ResponseTemplate } |
+  { 'err' : string };
+export type Result_9 = { 'ok' : QueryFeedback } |
+  { 'err' : string };
 export interface SearchCriteria {
   'status' : [] | [QueryStatus],
   'doctorId' : [] | [DoctorId],
@@ -303,7 +591,27 @@ export interface SystemStats {
   'totalDoctors' : bigint,
   'completedQueries' : bigint,
 }
+export interface TemplateVersion {
+  'content' : string,
+  'name' : string,
+  'editedAt' : bigint,
+  'category' : [] | [QueryCategory],
+  'version' : bigint,
+}
+export interface TriageAssessment {
+  'escalationLevel' : bigint,
+  'priority' : QueryPriority,
+  'queryId' : QueryId,
+  'requiresHumanReview' : boolean,
+  'safetyScore' : bigint,
+  'source' : string,
+  'urgency' : string,
+}
 export type UserId = string;
+export type UserRole = { 'admin' : null } |
+  { 'patient' : null } |
+  { 'compliance_officer' : null } |
+  { 'doctor' : null };
 export interface VitalSigns {
   'weight' : [] | [number],
   'height' : [] | [number],
@@ -315,35 +623,144 @@ export interface VitalSigns {
   'bloodPressureDiastolic' : [] | [bigint],
   'bloodPressureSystolic' : [] | [bigint],
 }
+export interface VitalSigns__1 {
+  'temperature' : [] | [number],
+  'bloodGlucose' : [] | [number],
+  'heartRate' : [] | [bigint],
+  'bloodPressure' : [] | [string],
+}
 export interface _SERVICE {
+  'addGlucoseLogEntry' : ActorMethod<[PatientId, GlucoseLogEntry], Result>,
+  'addInternalNote' : ActorMethod<[QueryId, DoctorId, string], Result_3>,
   'assignPatientToDoctor' : ActorMethod<[PatientId, DoctorId], Result>,
-  'createEnhancedPatient' : ActorMethod<[PatientData], PatientId>,
+  'beginAttachmentUpload' : ActorMethod<[AttachmentUploadRequest], Result_4>,
+  'claimBridgeTicket' : ActorMethod<[string], Result>,
+  'createEnhancedPatient' : ActorMethod<[PatientData], ApiResult_1>,
+  'createResponseTemplate' : ActorMethod<
+    [DoctorId, ResponseTemplateInput],
+    Result_8
+  >,
+  'deleteGlucoseLogEntry' : ActorMethod<[PatientId, string], Result>,
+  'deleteResponseTemplate' : ActorMethod<[DoctorId, string], Result>,
   'findPatientByEmail' : ActorMethod<[string], [] | [Patient]>,
+  'finishAttachmentUpload' : ActorMethod<[string], Result_4>,
+  'getAiProcessingAllowed' : ActorMethod<[PatientId], Result_19>,
   'getAllDoctors' : ActorMethod<[], Array<Doctor>>,
+  'getAttachmentChunk' : ActorMethod<[string, bigint], Result_6>,
+  'getAttachmentKey' : ActorMethod<[string], Result_6>,
+  'getConsentDocuments' : ActorMethod<[], Array<ConsentDocument>>,
+  'getConsentHistory' : ActorMethod<[PatientId], Result_15>,
+  'getConsentStatus' : ActorMethod<[PatientId], Result_14>,
   'getDoctor' : ActorMethod<[DoctorId], [] | [Doctor]>,
+  'getDoctorFeedback' : ActorMethod<[DoctorId], Array<QueryFeedback>>,
   'getDoctorPatients' : ActorMethod<[DoctorId], Array<Patient>>,
   'getDoctorQueries' : ActorMethod<[DoctorId], Array<MedicalQuery>>,
+  'getDoctorThread' : ActorMethod<[QueryId, DoctorId], Result_3>,
   'getEnhancedPatient' : ActorMethod<[PatientId], [] | [PatientData]>,
+  'getEnhancedQuery' : ActorMethod<[QueryId], [] | [QueryData]>,
+  'getEscalationAlerts' : ActorMethod<[DoctorId], Array<EscalationEvent>>,
+  'getEscalationPolicy' : ActorMethod<[], EscalationPolicy>,
+  'getEscalationTimeline' : ActorMethod<[QueryId], Array<EscalationEvent>>,
+  'getFeedbackTasks' : ActorMethod<[DoctorId], Array<FeedbackTask>>,
+  'getGlucoseLog' : ActorMethod<
+    [PatientId, [] | [bigint], [] | [bigint]],
+    Array<GlucoseLogEntry>
+  >,
   'getPatient' : ActorMethod<[PatientId], [] | [Patient]>,
+  'getPatientAuditTrail' : ActorMethod<[PatientId], Result_12>,
+  'getPatientFeedback' : ActorMethod<[PatientId], Array<QueryFeedback>>,
+  'getPatientPrescriptions' : ActorMethod<[PatientId], Array<Prescription>>,
   'getPatientQueries' : ActorMethod<[PatientId], Array<MedicalQuery>>,
   'getPatientQueriesEnhanced' : ActorMethod<
     [PatientId, [] | [SearchCriteria]],
     SearchResult
   >,
+  'getPatientThread' : ActorMethod<[QueryId, PatientId], Result_3>,
   'getPendingQueries' : ActorMethod<[], Array<MedicalQuery>>,
+  'getPlatformAnalytics' : ActorMethod<[], Result_11>,
   'getPlatformStats' : ActorMethod<[], PlatformStats>,
+  'getPreferredLanguage' : ActorMethod<[PatientId], string>,
   'getQuery' : ActorMethod<[QueryId], [] | [MedicalQuery]>,
+  'getQueryAttachments' : ActorMethod<[QueryId], Result_5>,
+  'getQueryFeedback' : ActorMethod<[QueryId], [] | [QueryFeedback]>,
+  'getQueryPrescription' : ActorMethod<[QueryId], [] | [Prescription]>,
+  'getRatingRollup' : ActorMethod<[], RatingRollup>,
+  'getRefillPrescription' : ActorMethod<[QueryId], [] | [Prescription]>,
+  'getResponseTemplates' : ActorMethod<[DoctorId], Array<ResponseTemplate>>,
   'getStats' : ActorMethod<[], SystemStats>,
+  'getTriageAssessments' : ActorMethod<[DoctorId], Array<TriageAssessment>>,
   'getUnassignedPatients' : ActorMethod<[], Array<Patient>>,
+  'getVitalSignsHistory' : ActorMethod<
+    [PatientId, [] | [bigint], [] | [bigint]],
+    Array<VitalSigns>
+  >,
+  'grantAdmin' : ActorMethod<[Principal], Result_2>,
+  'grantComplianceOfficer' : ActorMethod<[Principal], Result_2>,
   'healthCheck' : ActorMethod<[], string>,
+  'issueLinkCode' : ActorMethod<[UserRole, string], Result_17>,
+  'linkPrincipal' : ActorMethod<[UserRole, string, string], Result_2>,
+  'markThreadRead' : ActorMethod<[QueryId, PatientId], Result>,
+  'processMedicalQuery' : ActorMethod<
+    [string, string, [] | [VitalSigns__1]],
+    Result_18
+  >,
+  'publishConsentDocument' : ActorMethod<
+    [ConsentKind, string, string, boolean],
+    Result_13
+  >,
+  'recordConsent' : ActorMethod<
+    [PatientId, ConsentKind, bigint, ConsentDecision],
+    Result_16
+  >,
+  'recordPatientExport' : ActorMethod<[PatientId, string], Result>,
+  'recordTemplateUse' : ActorMethod<[DoctorId, string], Result>,
+  'recordVitalSigns' : ActorMethod<[PatientId, VitalSigns], Result>,
   'registerDoctor' : ActorMethod<[string, string], DoctorId>,
   'registerPatient' : ActorMethod<[string, string, string], PatientId>,
+  'requestPrescriptionRefill' : ActorMethod<[string, PatientId], Result_1>,
+  'resolveFeedbackTask' : ActorMethod<[DoctorId, string, string], Result_10>,
   'respondToQuery' : ActorMethod<[QueryId, DoctorId, string], Result>,
-  'submitQuery' : ActorMethod<[PatientId, string, string], Result_1>,
-  'submitQueryEnhanced' : ActorMethod<[QueryData], ApiResult_1>,
+  'respondWithPrescription' : ActorMethod<
+    [
+      QueryId,
+      DoctorId,
+      string,
+      Array<PrescribedMedication>,
+      string,
+      [] | [string],
+      [] | [InteractionOverride],
+    ],
+    Result_7
+  >,
+  'searchAuditEvents' : ActorMethod<[AuditFilter], Result_12>,
+  'sendDoctorMessage' : ActorMethod<
+    [QueryId, DoctorId, string, boolean],
+    Result_3
+  >,
+  'sendPatientMessage' : ActorMethod<[QueryId, PatientId, string], Result_3>,
+  'setEscalationPolicy' : ActorMethod<[EscalationPolicy], Result>,
+  'setPreferredLanguage' : ActorMethod<[PatientId, string], Result>,
+  'submitQueryEnhanced' : ActorMethod<[QueryData, string], ApiResult_1>,
+  'submitQueryFeedback' : ActorMethod<
+    [QueryId, PatientId, bigint, string],
+    Result_9
+  >,
+  'submitQueryIdempotent' : ActorMethod<
+    [PatientId, string, string, string],
+    Result_1
+  >,
   'takeQuery' : ActorMethod<[QueryId, DoctorId], Result>,
   'unassignPatient' : ActorMethod<[PatientId, DoctorId], Result>,
   'updatePatient' : ActorMethod<[PatientId, PatientData], ApiResult>,
+  'updateResponseTemplate' : ActorMethod<
+    [DoctorId, string, ResponseTemplateInput],
+    Result_8
+  >,
+  'uploadAttachmentChunk' : ActorMethod<
+    [string, bigint, Uint8Array | number[]],
+    Result
+  >,
+  'whoami' : ActorMethod<[], [] | [PrincipalLink]>,
 }
 export declare const idlFactory: IDL.InterfaceFactory;
 export declare const init: (args: { IDL: typeof IDL }) => IDL.Type[];
@@ -1,5 +1,26 @@
 export const idlFactory = ({ IDL }) => {
   const PatientId = IDL.Text;
+  const GlucoseEntryKind = IDL.Variant({
+    'hba1c' : IDL.Null,
+    'glucose' : IDL.Null,
+    'insulin' : IDL.Null,
+  });
+  const MealContext = IDL.Variant({
+    'post_meal' : IDL.Null,
+    'other' : IDL.Null,
+    'bedtime' : IDL.Null,
+    'fasting' : IDL.Null,
+    'pre_meal' : IDL.Null,
+  });
+  const GlucoseLogEntry = IDL.Record({
+    'id' : IDL.Text,
+    'value' : IDL.Float64,
+    'kind' : GlucoseEntryKind,
+    'mealContext' : IDL.Opt(MealContext),
+    'notes' : IDL.Opt(IDL.Text),
+    'insulinType' : IDL.Opt(IDL.Text),
+    'recordedAt' : IDL.Int,
+  });
   const DoctorId = IDL.Text;
   const Result = IDL.Variant({ 'ok' : IDL.Null, 'err' : IDL.Text });
   const InsuranceId = IDL.Text;
@@ -166,6 +187,37 @@ export const idlFactory = ({ IDL }) => {
     'high' : IDL.Null,
     'urgent' : IDL.Null,
   });
+  const TriageAssessment = IDL.Record({
+    'queryId' : QueryId,
+    'safetyScore' : IDL.Nat,
+    'urgency' : IDL.Text,
+    'priority' : QueryPriority,
+    'escalationLevel' : IDL.Nat,
+    'requiresHumanReview' : IDL.Bool,
+    'source' : IDL.Text,
+  });
+  const EscalationStep = IDL.Variant({
+    'level_raised' : IDL.Null,
+    'on_call_notified' : IDL.Null,
+    'patient_guidance_sent' : IDL.Null,
+    'claimed' : IDL.Null,
+  });
+  const EscalationEvent = IDL.Record({
+    'queryId' : QueryId,
+    'step' : EscalationStep,
+    'level' : IDL.Nat,
+    'message' : IDL.Text,
+    'notifiedDoctorIds' : IDL.Vec(DoctorId),
+    'timestamp' : IDL.Int,
+  });
+  const EscalationPolicy = IDL.Record({
+    'enabled' : IDL.Bool,
+    'urgencies' : IDL.Vec(IDL.Text),
+    'raiseLevelAfterMinutes' : IDL.Nat,
+    'notifyOnCallAfterMinutes' : IDL.Nat,
+    'patientGuidanceAfterMinutes' : IDL.Nat,
+    'patientGuidance' : IDL.Text,
+  });
   const SearchCriteria = IDL.Record({
     'status' : IDL.Opt(QueryStatus),
     'doctorId' : IDL.Opt(DoctorId),
@@ -196,6 +248,16 @@ export const idlFactory = ({ IDL }) => {
     'image' : IDL.Null,
     'medical_record' : IDL.Null,
   });
+  const AttachmentUploadRequest = IDL.Record({
+    'fileKey' : IDL.Vec(IDL.Nat8),
+    'fileSizeBytes' : IDL.Nat,
+    'fileName' : IDL.Text,
+    'fileType' : AttachmentType,
+    'chunkCount' : IDL.Nat,
+    'queryId' : QueryId,
+    'thumbnail' : IDL.Opt(IDL.Vec(IDL.Nat8)),
+    'mimeType' : IDL.Text,
+  });
   const Attachment = IDL.Record({
     'id' : IDL.Text,
     'isEncrypted' : IDL.Bool,
@@ -206,6 +268,20 @@ export const idlFactory = ({ IDL }) => {
     'uploadedAt' : IDL.Int,
     'uploadedBy' : UserId,
   });
+  const QueryAttachment = IDL.Record({
+    'complete' : IDL.Bool,
+    'attachment' : Attachment,
+    'chunkCount' : IDL.Nat,
+    'queryId' : QueryId,
+    'thumbnail' : IDL.Opt(IDL.Vec(IDL.Nat8)),
+    'mimeType' : IDL.Text,
+  });
+  const Result_4 = IDL.Variant({ 'ok' : QueryAttachment, 'err' : IDL.Text });
+  const Result_5 = IDL.Variant({
+    'ok' : IDL.Vec(QueryAttachment),
+    'err' : IDL.Text,
+  });
+  const Result_6 = IDL.Variant({ 'ok' : IDL.Vec(IDL.Nat8), 'err' : IDL.Text });
   const QueryResponse = IDL.Record({
     'id' : IDL.Text,
     'readByPatient' : IDL.Bool,
@@ -216,6 +292,14 @@ export const idlFactory = ({ IDL }) => {
     'responderId' : UserId,
     'attachments' : IDL.Vec(Attachment),
   });
+  const QueryThread = IDL.Record({
+    'status' : QueryStatus,
+    'patientMessages' : IDL.Vec(QueryResponse),
+    'queryId' : QueryId,
+    'responses' : IDL.Vec(QueryResponse),
+    'internalNotes' : IDL.Vec(QueryResponse),
+  });
+  const Result_3 = IDL.Variant({ 'ok' : QueryThread, 'err' : IDL.Text });
   const QueryData = IDL.Record({
     'id' : QueryId,
     'status' : QueryStatus,
@@ -313,7 +397,248 @@ export const idlFactory = ({ IDL }) => {
     'totalDoctors' : IDL.Nat,
     'completedQueries' : IDL.Nat,
   });
+  const UserRole = IDL.Variant({
+    'admin' : IDL.Null,
+    'patient' : IDL.Null,
+    'compliance_officer' : IDL.Null,
+    'doctor' : IDL.Null,
+  });
+  const PrincipalLink = IDL.Record({
+    'userId' : UserId,
+    'role' : UserRole,
+    'linkedAt' : IDL.Int,
+  });
+  const Result_2 = IDL.Variant({ 'ok' : PrincipalLink, 'err' : IDL.Text });
+  const LinkCode = IDL.Record({
+    'expiresAt' : IDL.Int,
+    'userId' : UserId,
+    'code' : IDL.Text,
+    'role' : UserRole,
+    'issuedAt' : IDL.Int,
+    'issuedBy' : IDL.Text,
+  });
+  const Result_17 = IDL.Variant({ 'ok' : LinkCode, 'err' : IDL.Text });
+  const VitalSigns__1 = IDL.Record({
+    'temperature' : IDL.Opt(IDL.Float64),
+    'bloodGlucose' : IDL.Opt(IDL.Float64),
+    'heartRate' : IDL.Opt(IDL.Nat),
+    'bloodPressure' : IDL.Opt(IDL.Text),
+  });
+  const MedicalResponse = IDL.Record({
+    'content' : IDL.Text,
+    'urgency' : IDL.Text,
+    'timestamp' : IDL.Int,
+    'safetyScore' : IDL.Nat,
+    'requiresReview' : IDL.Bool,
+  });
+  const Result_18 = IDL.Variant({ 'ok' : MedicalResponse, 'err' : IDL.Text });
+  const Result_19 = IDL.Variant({ 'ok' : IDL.Bool, 'err' : IDL.Text });
   const Result_1 = IDL.Variant({ 'ok' : QueryId, 'err' : IDL.Text });
+  const PrescribedMedication = IDL.Record({
+    'duration' : IDL.Text,
+    'dosage' : IDL.Text,
+    'name' : IDL.Text,
+    'instructions' : IDL.Text,
+    'frequency' : IDL.Text,
+  });
+  const InteractionSeverity = IDL.Variant({
+    'major' : IDL.Null,
+    'minor' : IDL.Null,
+    'contraindicated' : IDL.Null,
+    'moderate' : IDL.Null,
+  });
+  const InteractionFlag = IDL.Record({
+    'ruleId' : IDL.Text,
+    'summary' : IDL.Text,
+    'severity' : InteractionSeverity,
+  });
+  const InteractionOverride = IDL.Record({
+    'justification' : IDL.Text,
+    'flags' : IDL.Vec(InteractionFlag),
+  });
+  const Prescription = IDL.Record({
+    'id' : IDL.Text,
+    'doctorName' : IDL.Text,
+    'patientId' : PatientId,
+    'doctorId' : DoctorId,
+    'queryId' : QueryId,
+    'notes' : IDL.Text,
+    'refillOf' : IDL.Opt(IDL.Text),
+    'issuedAt' : IDL.Int,
+    'signedBy' : IDL.Text,
+    'interactionOverride' : IDL.Opt(InteractionOverride),
+    'medications' : IDL.Vec(PrescribedMedication),
+  });
+  const Result_7 = IDL.Variant({ 'ok' : Prescription, 'err' : IDL.Text });
+  const ResponseTemplateInput = IDL.Record({
+    'content' : IDL.Text,
+    'name' : IDL.Text,
+    'isShared' : IDL.Bool,
+    'category' : IDL.Opt(QueryCategory),
+  });
+  const TemplateVersion = IDL.Record({
+    'content' : IDL.Text,
+    'name' : IDL.Text,
+    'editedAt' : IDL.Int,
+    'category' : IDL.Opt(QueryCategory),
+    'version' : IDL.Nat,
+  });
+  const ResponseTemplate = IDL.Record({
+    'id' : IDL.Text,
+    'ownerName' : IDL.Text,
+    'content' : IDL.Text,
+    'usageCount' : IDL.Nat,
+    'name' : IDL.Text,
+    'createdAt' : IDL.Int,
+    'lastUsedAt' : IDL.Opt(IDL.Int),
+    'updatedAt' : IDL.Int,
+    'isShared' : IDL.Bool,
+    'category' : IDL.Opt(QueryCategory),
+    'version' : IDL.Nat,
+    'ownerId' : DoctorId,
+    'previousVersions' : IDL.Vec(TemplateVersion),
+  });
+  const Result_8 = IDL.Variant({ 'ok' : ResponseTemplate, 'err' : IDL.Text });
+  const QueryFeedback = IDL.Record({
+    'patientId' : PatientId,
+    'doctorId' : DoctorId,
+    'submittedAt' : IDL.Int,
+    'queryId' : QueryId,
+    'comment' : IDL.Text,
+    'specialty' : IDL.Text,
+    'rating' : IDL.Nat,
+  });
+  const Result_9 = IDL.Variant({ 'ok' : QueryFeedback, 'err' : IDL.Text });
+  const FeedbackTaskStatus = IDL.Variant({
+    'resolved' : IDL.Null,
+    'open' : IDL.Null,
+  });
+  const FeedbackTask = IDL.Record({
+    'id' : IDL.Text,
+    'status' : FeedbackTaskStatus,
+    'patientId' : PatientId,
+    'doctorId' : DoctorId,
+    'createdAt' : IDL.Int,
+    'queryId' : QueryId,
+    'comment' : IDL.Text,
+    'resolvedAt' : IDL.Opt(IDL.Int),
+    'rating' : IDL.Nat,
+    'resolutionNote' : IDL.Text,
+  });
+  const Result_10 = IDL.Variant({ 'ok' : FeedbackTask, 'err' : IDL.Text });
+  const RatingSummary = IDL.Record({
+    'key' : IDL.Text,
+    'lowRatingCount' : IDL.Nat,
+    'averageRating' : IDL.Float64,
+    'name' : IDL.Text,
+    'ratingCount' : IDL.Nat,
+  });
+  const RatingRollup = IDL.Record({
+    'bySpecialty' : IDL.Vec(RatingSummary),
+    'overall' : RatingSummary,
+    'byDoctor' : IDL.Vec(RatingSummary),
+  });
+  const QueryActivity = IDL.Record({
+    'resolvedAt' : IDL.Opt(IDL.Int),
+    'createdAt' : IDL.Int,
+    'specialty' : IDL.Text,
+  });
+  const PatientEngagement = IDL.Record({
+    'activeLast30Days' : IDL.Nat,
+    'answeredQueries' : IDL.Nat,
+    'patientsWithQueries' : IDL.Nat,
+    'returningPatients' : IDL.Nat,
+    'registeredPatients' : IDL.Nat,
+    'ratedAnswers' : IDL.Nat,
+  });
+  const PlatformAnalytics = IDL.Record({
+    'doctorsBySpecialty' : IDL.Vec(IDL.Tuple(IDL.Text, IDL.Nat)),
+    'stats' : PlatformStats,
+    'activity' : IDL.Vec(QueryActivity),
+    'engagement' : PatientEngagement,
+  });
+  const Result_11 = IDL.Variant({ 'ok' : PlatformAnalytics, 'err' : IDL.Text });
+  const AuditResourceKind = IDL.Variant({
+    'patient_record' : IDL.Null,
+    'attachment' : IDL.Null,
+    'prescription' : IDL.Null,
+    'medical_query' : IDL.Null,
+  });
+  const AuditAction = IDL.Variant({
+    'ai_processing' : IDL.Null,
+    'update' : IDL.Null,
+    'view' : IDL.Null,
+    'export' : IDL.Null,
+  });
+  const AuditActor = IDL.Record({
+    'principal' : IDL.Text,
+    'userId' : IDL.Opt(UserId),
+    'name' : IDL.Text,
+    'role' : IDL.Opt(UserRole),
+  });
+  const PhiAuditEvent = IDL.Record({
+    'id' : IDL.Text,
+    'resourceKind' : AuditResourceKind,
+    'action' : AuditAction,
+    'resourceId' : IDL.Text,
+    'patientId' : PatientId,
+    'accessedBy' : AuditActor,
+    'timestamp' : IDL.Int,
+    'reason' : IDL.Text,
+  });
+  const Result_12 = IDL.Variant({ 'ok' : IDL.Vec(PhiAuditEvent), 'err' : IDL.Text });
+  const AuditFilter = IDL.Record({
+    'action' : IDL.Opt(AuditAction),
+    'resourceKind' : IDL.Opt(AuditResourceKind),
+    'toTime' : IDL.Opt(IDL.Int),
+    'patientId' : IDL.Opt(PatientId),
+    'limit' : IDL.Opt(IDL.Nat),
+    'actorId' : IDL.Opt(IDL.Text),
+    'fromTime' : IDL.Opt(IDL.Int),
+  });
+  const ConsentKind = IDL.Variant({
+    'hipaa_notice' : IDL.Null,
+    'treatment' : IDL.Null,
+    'ai_processing' : IDL.Null,
+    'data_processing' : IDL.Null,
+  });
+  const ConsentDocument = IDL.Record({
+    'title' : IDL.Text,
+    'body' : IDL.Text,
+    'kind' : ConsentKind,
+    'publishedAt' : IDL.Int,
+    'version' : IDL.Nat,
+    'required' : IDL.Bool,
+  });
+  const ConsentDecision = IDL.Variant({
+    'revoked' : IDL.Null,
+    'accepted' : IDL.Null,
+  });
+  const ConsentRecord = IDL.Record({
+    'id' : IDL.Text,
+    'decision' : ConsentDecision,
+    'kind' : ConsentKind,
+    'signedBy' : IDL.Text,
+    'patientId' : PatientId,
+    'recordedAt' : IDL.Int,
+    'documentVersion' : IDL.Nat,
+    'signerName' : IDL.Text,
+  });
+  const Result_15 = IDL.Variant({
+    'ok' : IDL.Vec(ConsentRecord),
+    'err' : IDL.Text,
+  });
+  const ConsentStatus = IDL.Record({
+    'latest' : IDL.Opt(ConsentRecord),
+    'document' : ConsentDocument,
+    'needsReconsent' : IDL.Bool,
+  });
+  const Result_14 = IDL.Variant({
+    'ok' : IDL.Vec(ConsentStatus),
+    'err' : IDL.Text,
+  });
+  const Result_13 = IDL.Variant({ 'ok' : ConsentDocument, 'err' : IDL.Text });
+  const Result_16 = IDL.Variant({ 'ok' : ConsentRecord, 'err' : IDL.Text });
   const ApiError = IDL.Record({
     'code' : IDL.Text,
     'message' : IDL.Text,
@@ -323,51 +648,222 @@ export const idlFactory = ({ IDL }) => {
   const ApiResult_1 = IDL.Variant({ 'ok' : QueryId, 'err' : ApiError });
   const ApiResult = IDL.Variant({ 'ok' : IDL.Null, 'err' : ApiError });
   return IDL.Service({
+    'addGlucoseLogEntry' : IDL.Func([PatientId, GlucoseLogEntry], [Result], []),
+    'addInternalNote' : IDL.Func([QueryId, DoctorId, IDL.Text], [Result_3], []),
     'assignPatientToDoctor' : IDL.Func([PatientId, DoctorId], [Result], []),
-    'createEnhancedPatient' : IDL.Func([PatientData], [PatientId], []),
+    'beginAttachmentUpload' : IDL.Func(
+        [AttachmentUploadRequest],
+        [Result_4],
+        [],
+      ),
+    'claimBridgeTicket' : IDL.Func([IDL.Text], [Result], []),
+    'createEnhancedPatient' : IDL.Func([PatientData], [ApiResult_1], []),
+    'createResponseTemplate' : IDL.Func(
+        [DoctorId, ResponseTemplateInput],
+        [Result_8],
+        [],
+      ),
+    'deleteGlucoseLogEntry' : IDL.Func([PatientId, IDL.Text], [Result], []),
+    'deleteResponseTemplate' : IDL.Func([DoctorId, IDL.Text], [Result], []),
     'findPatientByEmail' : IDL.Func([IDL.Text], [IDL.Opt(Patient)], ['query']),
+    'finishAttachmentUpload' : IDL.Func([IDL.Text], [Result_4], []),
+    'getAiProcessingAllowed' : IDL.Func([PatientId], [Result_19], ['query']),
     'getAllDoctors' : IDL.Func([], [IDL.Vec(Doctor)], ['query']),
+    'getAttachmentChunk' : IDL.Func(
+        [IDL.Text, IDL.Nat],
+        [Result_6],
+        ['query'],
+      ),
+    'getAttachmentKey' : IDL.Func([IDL.Text], [Result_6], ['query']),
+    'getConsentDocuments' : IDL.Func([], [IDL.Vec(ConsentDocument)], ['query']),
+    'getConsentHistory' : IDL.Func([PatientId], [Result_15], ['query']),
+    'getConsentStatus' : IDL.Func([PatientId], [Result_14], ['query']),
     'getDoctor' : IDL.Func([DoctorId], [IDL.Opt(Doctor)], ['query']),
+    'getDoctorFeedback' : IDL.Func(
+        [DoctorId],
+        [IDL.Vec(QueryFeedback)],
+        ['query'],
+      ),
     'getDoctorPatients' : IDL.Func([DoctorId], [IDL.Vec(Patient)], ['query']),
-    'getDoctorQueries' : IDL.Func(
+    'getDoctorQueries' : IDL.Func([DoctorId], [IDL.Vec(MedicalQuery)], []),
+    'getDoctorThread' : IDL.Func([QueryId, DoctorId], [Result_3], []),
+    'getEnhancedPatient' : IDL.Func([PatientId], [IDL.Opt(PatientData)], []),
+    'getEnhancedQuery' : IDL.Func([QueryId], [IDL.Opt(QueryData)], []),
+    'getEscalationAlerts' : IDL.Func(
         [DoctorId],
-        [IDL.Vec(MedicalQuery)],
+        [IDL.Vec(EscalationEvent)],
         ['query'],
       ),
-    'getEnhancedPatient' : IDL.Func(
-        [PatientId],
-        [IDL.Opt(PatientData)],
+    'getEscalationPolicy' : IDL.Func([], [EscalationPolicy], ['query']),
+    'getEscalationTimeline' : IDL.Func(
+        [QueryId],
+        [IDL.Vec(EscalationEvent)],
+        ['query'],
+      ),
+    'getFeedbackTasks' : IDL.Func(
+        [DoctorId],
+        [IDL.Vec(FeedbackTask)],
+        ['query'],
+      ),
+    'getGlucoseLog' : IDL.Func(
+        [PatientId, IDL.Opt(IDL.Int), IDL.Opt(IDL.Int)],
+        [IDL.Vec(GlucoseLogEntry)],
         ['query'],
       ),
     'getPatient' : IDL.Func([PatientId], [IDL.Opt(Patient)], ['query']),
-    'getPatientQueries' : IDL.Func(
+    'getPatientAuditTrail' : IDL.Func([PatientId], [Result_12], ['query']),
+    'getPatientFeedback' : IDL.Func(
+        [PatientId],
+        [IDL.Vec(QueryFeedback)],
+        ['query'],
+      ),
+    'getPatientPrescriptions' : IDL.Func(
         [PatientId],
-        [IDL.Vec(MedicalQuery)],
+        [IDL.Vec(Prescription)],
         ['query'],
       ),
+    'getPatientQueries' : IDL.Func([PatientId], [IDL.Vec(MedicalQuery)], []),
     'getPatientQueriesEnhanced' : IDL.Func(
         [PatientId, IDL.Opt(SearchCriteria)],
         [SearchResult],
-        ['query'],
+        [],
       ),
+    'getPatientThread' : IDL.Func([QueryId, PatientId], [Result_3], []),
     'getPendingQueries' : IDL.Func([], [IDL.Vec(MedicalQuery)], ['query']),
+    'getPlatformAnalytics' : IDL.Func([], [Result_11], ['query']),
     'getPlatformStats' : IDL.Func([], [PlatformStats], ['query']),
-    'getQuery' : IDL.Func([QueryId], [IDL.Opt(MedicalQuery)], ['query']),
+    'getPreferredLanguage' : IDL.Func([PatientId], [IDL.Text], ['query']),
+    'getQuery' : IDL.Func([QueryId], [IDL.Opt(MedicalQuery)], []),
+    'getQueryAttachments' : IDL.Func([QueryId], [Result_5], ['query']),
+    'getQueryFeedback' : IDL.Func(
+        [QueryId],
+        [IDL.Opt(QueryFeedback)],
+        ['query'],
+      ),
+    'getQueryPrescription' : IDL.Func(
+        [QueryId],
+        [IDL.Opt(Prescription)],
+        ['query'],
+      ),
+    'getRatingRollup' : IDL.Func([], [RatingRollup], ['query']),
+    'getRefillPrescription' : IDL.Func(
+        [QueryId],
+        [IDL.Opt(Prescription)],
+        ['query'],
+      ),
+    'getResponseTemplates' : IDL.Func(
+        [DoctorId],
+        [IDL.Vec(ResponseTemplate)],
+        ['query'],
+      ),
     'getStats' : IDL.Func([], [SystemStats], ['query']),
+    'getTriageAssessments' : IDL.Func(
+        [DoctorId],
+        [IDL.Vec(TriageAssessment)],
+        ['query'],
+      ),
     'getUnassignedPatients' : IDL.Func([], [IDL.Vec(Patient)], ['query']),
+    'getVitalSignsHistory' : IDL.Func(
+        [PatientId, IDL.Opt(IDL.Int), IDL.Opt(IDL.Int)],
+        [IDL.Vec(VitalSigns)],
+        ['query'],
+      ),
+    'grantAdmin' : IDL.Func([IDL.Principal], [Result_2], []),
+    'grantComplianceOfficer' : IDL.Func([IDL.Principal], [Result_2], []),
     'healthCheck' : IDL.Func([], [IDL.Text], ['query']),
+    'issueLinkCode' : IDL.Func([UserRole, IDL.Text], [Result_17], []),
+    'linkPrincipal' : IDL.Func([UserRole, IDL.Text, IDL.Text], [Result_2], []),
+    'markThreadRead' : IDL.Func([QueryId, PatientId], [Result], []),
+    'processMedicalQuery' : IDL.Func(
+        [IDL.Text, IDL.Text, IDL.Opt(VitalSigns__1)],
+        [Result_18],
+        [],
+      ),
+    'publishConsentDocument' : IDL.Func(
+        [ConsentKind, IDL.Text, IDL.Text, IDL.Bool],
+        [Result_13],
+        [],
+      ),
+    'recordConsent' : IDL.Func(
+        [PatientId, ConsentKind, IDL.Nat, ConsentDecision],
+        [Result_16],
+        [],
+      ),
+    'recordPatientExport' : IDL.Func([PatientId, IDL.Text], [Result], []),
+    'recordTemplateUse' : IDL.Func([DoctorId, IDL.Text], [Result], []),
+    'recordVitalSigns' : IDL.Func([PatientId, VitalSigns], [Result], []),
     'registerDoctor' : IDL.Func([IDL.Text, IDL.Text], [DoctorId], []),
     'registerPatient' : IDL.Func(
         [IDL.Text, IDL.Text, IDL.Text],
         [PatientId],
         [],
       ),
+    'requestPrescriptionRefill' : IDL.Func(
+        [IDL.Text, PatientId],
+        [Result_1],
+        [],
+      ),
+    'resolveFeedbackTask' : IDL.Func(
+        [DoctorId, IDL.Text, IDL.Text],
+        [Result_10],
+        [],
+      ),
     'respondToQuery' : IDL.Func([QueryId, DoctorId, IDL.Text], [Result], []),
-    'submitQuery' : IDL.Func([PatientId, IDL.Text, IDL.Text], [Result_1], []),
-    'submitQueryEnhanced' : IDL.Func([QueryData], [ApiResult_1], []),
+    'respondWithPrescription' : IDL.Func(
+        [
+          QueryId,
+          DoctorId,
+          IDL.Text,
+          IDL.Vec(PrescribedMedication),
+          IDL.Text,
+          IDL.Opt(IDL.Text),
+          IDL.Opt(InteractionOverride),
+        ],
+        [Result_7],
+        [],
+      ),
+    'searchAuditEvents' : IDL.Func([AuditFilter], [Result_12], ['query']),
+    'sendDoctorMessage' : IDL.Func(
+        [QueryId, DoctorId, IDL.Text, IDL.Bool],
+        [Result_3],
+        [],
+      ),
+    'sendPatientMessage' : IDL.Func(
+        [QueryId, PatientId, IDL.Text],
+        [Result_3],
+        [],
+      ),
+    'setEscalationPolicy' : IDL.Func([EscalationPolicy], [Result], []),
+    'setPreferredLanguage' : IDL.Func([PatientId, IDL.Text], [Result], []),
+    'submitQueryEnhanced' : IDL.Func(
+        [QueryData, IDL.Text],
+        [ApiResult_1],
+        [],
+      ),
+    'submitQueryFeedback' : IDL.Func(
+        [QueryId, PatientId, IDL.Nat, IDL.Text],
+        [Result_9],
+        [],
+      ),
+    'submitQueryIdempotent' : IDL.Func(
+        [PatientId, IDL.Text, IDL.Text, IDL.Text],
+        [Result_1],
+        [],
+      ),
     'takeQuery' : IDL.Func([QueryId, DoctorId], [Result], []),
     'unassignPatient' : IDL.Func([PatientId, DoctorId], [Result], []),
     'updatePatient' : IDL.Func([PatientId, PatientData], [ApiResult], []),
+    'updateResponseTemplate' : IDL.Func(
+        [DoctorId, IDL.Text, ResponseTemplateInput],
+        [Result_8],
+        [],
+      ),
+    'uploadAttachmentChunk' : IDL.Func(
+        [IDL.Text, IDL.Nat, IDL.Vec(IDL.Nat8)],
+        [Result],
+        [],
+      ),
+    'whoami' : IDL.Func([], [IDL.Opt(PrincipalLink)], ['query']),
   });
 };
 export const init = ({ IDL }) => { return []; };
@@ -1,21 +1,35 @@
 // TrustCareConnect Frontend - Main App Component
 import React, { useState, useEffect } from 'react';
 import { BrowserRouter as Router, Routes, Route, Navigate, Link, useLocation } from 'react-router-dom';
-import { Patient, Doctor } from './types';
 import { UI_MESSAGES } from './constants';
 import MessageDisplay from './components/common/MessageDisplay';
 import ErrorBoundary from './components/ErrorBoundary';
+import MobileNavigation from './components/MobileNavigation';
+import { PatientRoute, DoctorRoute, AdminRoute, ComplianceRoute, AuthenticatedRoute } from './components/ProtectedRoute';
+import { AuthProvider, useAuth } from './contexts/AuthContext';
+import { useTranslation } from './contexts/LanguageContext';
+import LanguageSwitcher from './components/common/LanguageSwitcher';
 import HomePage from './pages/HomePage';
+import AboutPage from './pages/AboutPage';
+import LoginPage from './pages/LoginPage';
+import SettingsPage from './pages/SettingsPage';
 import PatientPortal from './pages/PatientPortal';
 import DoctorPortal from './pages/DoctorPortal';
+import AnalyticsPage from './pages/AnalyticsPage';
+import AuditExplorerPage from './pages/AuditExplorerPage';
+import ConsentDocumentsPage from './pages/ConsentDocumentsPage';
+import AccountLinksPage from './pages/AccountLinksPage';
 import icpService from './services/icpService';
 import './styles/App.css';
 
 // Navigation component that uses React Router
 const Navigation: React.FC = () => {
   const location = useLocation();
+  const { isAuthenticated, isAdmin, isComplianceOfficer, logout } = useAuth();
+  const { t } = useTranslation();
   
-  const isActive = (path: string) => location.pathname === path;
+  // Portal links stay highlighted on their nested views
+  const isActive = (path: string) => location.pathname === path || location.pathname.startsWith(`${path}/`);
   
   return (
     <nav className="flex space-x-4">
@@ -27,7 +41,7 @@ const Navigation: React.FC = () => {
             : 'text-gray-700 hover:text-gray-900 hover:bg-gray-100'
         }`}
       >
-        Home
+        {t('nav.home')}
       </Link>
       <Link
         to="/patient"
@@ -37,7 +51,7 @@ const Navigation: React.FC = () => {
             : 'text-gray-700 hover:text-gray-900 hover:bg-gray-100'
         }`}
       >
-        Patient Portal
+        {t('nav.patientPortal')}
       </Link>
       <Link
         to="/doctor"
@@ -47,17 +61,73 @@ const Navigation: React.FC = () => {
             : 'text-gray-700 hover:text-gray-900 hover:bg-gray-100'
         }`}
       >
-        Doctor Portal
+        {t('nav.doctorPortal')}
       </Link>
+      {isAdmin && (
+        <Link
+          to="/admin/analytics"
+          className={`px-3 py-2 rounded-md text-sm font-medium transition-colors ${
+            isActive('/admin') 
+              ? 'text-blue-600 bg-blue-50' 
+              : 'text-gray-700 hover:text-gray-900 hover:bg-gray-100'
+          }`}
+        >
+          {t('nav.analytics')}
+        </Link>
+      )}
+      {(isAdmin || isComplianceOfficer) && (
+        <Link
+          to="/compliance/audit"
+          className={`px-3 py-2 rounded-md text-sm font-medium transition-colors ${
+            isActive('/compliance') 
+              ? 'text-blue-600 bg-blue-50' 
+              : 'text-gray-700 hover:text-gray-900 hover:bg-gray-100'
+          }`}
+        >
+          {t('nav.audit')}
+        </Link>
+      )}
+      {isAuthenticated ? (
+        <button
+          onClick={logout}
+          className="px-3 py-2 rounded-md text-sm font-medium text-gray-700 hover:text-gray-900 hover:bg-gray-100 transition-colors"
+        >
+          {t('common.signOut')}
+        </button>
+      ) : (
+        <Link
+          to="/login"
+          className={`px-3 py-2 rounded-md text-sm font-medium transition-colors ${
+            isActive('/login') 
+              ? 'text-blue-600 bg-blue-50' 
+              : 'text-gray-700 hover:text-gray-900 hover:bg-gray-100'
+          }`}
+        >
+          {t('common.signIn')}
+        </Link>
+      )}
+      <LanguageSwitcher className="self-center" />
     </nav>
   );
 };
 
+// Slide-out menu and bottom tab bar for small screens
+const MobileMenu: React.FC = () => {
+  const { user, userRole, logout } = useAuth();
+
+  return (
+    <MobileNavigation
+      userType={userRole === 'patient' || userRole === 'doctor' ? userRole : null}
+      userName={user?.name}
+      onLogout={logout}
+    />
+  );
+};
+
 function App() {
-  const [currentPatient, setCurrentPatient] = useState<Patient | null>(null);
-  const [currentDoctor, setCurrentDoctor] = useState<Doctor | null>(null);
   const [loading, setLoading] = useState<{[key: string]: boolean}>({});
   const [message, setMessage] = useState('');
+  const { t } = useTranslation();
 
   useEffect(() => {
     // Test backend connection on load
@@ -67,9 +137,9 @@ function App() {
   const testConnection = async () => {
     const result = await icpService.healthCheck();
     if (result.success) {
-      showMessage(`Backend connected: ${result.data}`);
+      showMessage(t('app.backendConnected', { status: result.data }));
     } else {
-      showMessage(UI_MESSAGES.ERROR.BACKEND_CONNECTION_FAILED);
+      showMessage(t(UI_MESSAGES.ERROR.BACKEND_CONNECTION_FAILED));
     }
   };
 
@@ -87,9 +157,11 @@ function App() {
 
   return (
     <ErrorBoundary>
+      <AuthProvider>
       <Router>
         <div className="app min-h-screen bg-gray-50">
-          <header className="bg-white shadow-sm border-b">
+          <MobileMenu />
+          <header className="hidden lg:block bg-white shadow-sm border-b">
           <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
             <div className="flex justify-between items-center h-16">
               <div className="flex items-center">
@@ -119,34 +191,84 @@ function App() {
                 <HomePage />
               } 
             />
+            <Route path="/about" element={<AboutPage />} />
+            <Route path="/login" element={<LoginPage showMessage={showMessage} />} />
+            {/* Role-specific sign-in links from the mobile menu */}
+            <Route path="/patient/login" element={<Navigate to="/login?role=patient" replace />} />
+            <Route path="/doctor/login" element={<Navigate to="/login?role=doctor" replace />} />
+            {/* Signed in but not yet linked to a patient or doctor account */}
+            <Route path="/register" element={<LoginPage showMessage={showMessage} />} />
+            <Route
+              path="/settings"
+              element={
+                <AuthenticatedRoute>
+                  <SettingsPage showMessage={showMessage} />
+                </AuthenticatedRoute>
+              }
+            />
+            {/* Each portal declares its own nested views (see pages/PatientPortal, pages/DoctorPortal) */}
             <Route 
-              path="/patient" 
+              path="/patient/*" 
               element={
-                <PatientPortal
-                  currentUser={currentPatient}
-                  setCurrentUser={setCurrentPatient}
-                  showMessage={showMessage}
-                  loading={loading.patient || false}
-                  setLoading={(isLoading) => setLoadingState('patient', isLoading)}
-                />
+                <PatientRoute>
+                  <PatientPortal
+                    showMessage={showMessage}
+                    loading={loading.patient || false}
+                    setLoading={(isLoading) => setLoadingState('patient', isLoading)}
+                  />
+                </PatientRoute>
               } 
             />
             <Route 
-              path="/doctor" 
+              path="/doctor/*" 
               element={
-                <DoctorPortal
-                  currentUser={currentDoctor}
-                  setCurrentUser={setCurrentDoctor}
-                  showMessage={showMessage}
-                  loading={loading.doctor || false}
-                  setLoading={(isLoading) => setLoadingState('doctor', isLoading)}
-                />
+                <DoctorRoute>
+                  <DoctorPortal
+                    showMessage={showMessage}
+                    loading={loading.doctor || false}
+                    setLoading={(isLoading) => setLoadingState('doctor', isLoading)}
+                  />
+                </DoctorRoute>
               } 
             />
+            <Route
+              path="/admin/analytics"
+              element={
+                <AdminRoute>
+                  <AnalyticsPage showMessage={showMessage} />
+                </AdminRoute>
+              }
+            />
+            <Route
+              path="/admin/consents"
+              element={
+                <AdminRoute>
+                  <ConsentDocumentsPage showMessage={showMessage} />
+                </AdminRoute>
+              }
+            />
+            <Route
+              path="/admin/account-links"
+              element={
+                <AdminRoute>
+                  <AccountLinksPage showMessage={showMessage} />
+                </AdminRoute>
+              }
+            />
+            <Route
+              path="/compliance/audit"
+              element={
+                <ComplianceRoute>
+                  <AuditExplorerPage showMessage={showMessage} />
+                </ComplianceRoute>
+              }
+            />
+            <Route path="*" element={<Navigate to="/home" replace />} />
           </Routes>
         </main>
         </div>
       </Router>
+      </AuthProvider>
     </ErrorBoundary>
   );
 }
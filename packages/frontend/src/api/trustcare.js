@@ -2,6 +2,43 @@
 // High-level interface for all TrustCareConnect backend operations
 
 import icpApiService from '../services/api.js';
+import {
+  patientDataFromCandid,
+  patientDataToCandid,
+  queryDataFromCandid,
+  queryDataToCandid,
+  searchCriteriaToCandid,
+  searchResultFromCandid,
+  msToNs,
+  toOpt,
+  vitalSignsFromCandid,
+  vitalSignsToCandid,
+  glucoseLogEntryFromCandid,
+  glucoseLogEntryToCandid,
+  triageAssessmentFromCandid,
+  escalationEventFromCandid,
+  escalationPolicyFromCandid,
+  escalationPolicyToCandid,
+  queryThreadFromCandid,
+  queryAttachmentFromCandid,
+  blobToBytes,
+  prescriptionFromCandid,
+  interactionOverrideToCandid,
+  responseTemplateFromCandid,
+  responseTemplateInputToCandid,
+  queryFeedbackFromCandid,
+  feedbackTaskFromCandid,
+  ratingRollupFromCandid
+} from '../services/candidAdapter';
+import {
+  appendDraftVersion,
+  emptyDraftHistory,
+  latestDraft,
+  legacyDraftStorageKey,
+  parseDraftHistory,
+  toDraftHistory
+} from '../utils/draftHistory';
+import { cacheOperations } from '../utils/cache';
 
 /**
  * TrustCareConnect API Class
@@ -83,6 +120,51 @@ class TrustCareAPI {
     }
   }
 
+  /**
+   * Retrieve the full patient record by ID
+   * @param {string} patientId - Patient's unique identifier
+   * @returns {Promise<{success: boolean, data?: import('../types').PatientData | null, error?: string}>}
+   */
+  async getEnhancedPatient(patientId) {
+    try {
+      this.log(`Getting enhanced patient: ${patientId}`);
+      const result = await this.service.callCanisterMethod('getEnhancedPatient', [patientId]);
+      const response = this.service.handleMotokoOption(result, 'get enhanced patient');
+      return this.mapResponseData(response, patientDataFromCandid);
+    } catch (error) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Create a patient from a full patient record
+   * @param {import('../types').PatientData} patient - Patient record
+   */
+  async createEnhancedPatient(patient) {
+    try {
+      this.log(`Creating enhanced patient: ${patient.firstName} ${patient.lastName}`);
+      const result = await this.service.callCanisterMethod('createEnhancedPatient', [patientDataToCandid(patient)]);
+      return this.service.handleMotokoResult(result, 'create enhanced patient');
+    } catch (error) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Replace a patient's full record
+   * @param {string} patientId - Patient's unique identifier
+   * @param {import('../types').PatientData} patient - Updated patient record
+   */
+  async updatePatient(patientId, patient) {
+    try {
+      this.log(`Updating patient: ${patientId}`);
+      const result = await this.service.callCanisterMethod('updatePatient', [patientId, patientDataToCandid(patient)]);
+      return this.service.handleMotokoResult(result, 'update patient');
+    } catch (error) {
+      return { success: false, error: error.message };
+    }
+  }
+
   /**
    * Find patient by email address
    * @param {string} email - Patient's email address
@@ -205,18 +287,60 @@ class TrustCareAPI {
   // =======================
 
   /**
-   * Submit a new medical query from a patient
+   * Submit a query that is safe to retry: the canister returns the existing
+   * query ID when it has already seen this idempotency key for the patient
    * @param {string} patientId - Patient's unique identifier
    * @param {string} title - Query title/summary
    * @param {string} description - Detailed query description
+   * @param {string} idempotencyKey - Client-generated key, stable across retries
    */
-  async submitQuery(patientId, title, description) {
+  async submitQueryIdempotent(patientId, title, description, idempotencyKey) {
     try {
-      this.log(`Submitting query for patient ${patientId}: ${title}`);
-      const result = await this.service.callCanisterMethod('submitQuery', [patientId, title, description], {
+      this.log(`Submitting query ${idempotencyKey} for patient ${patientId}: ${title}`);
+      const result = await this.service.callCanisterMethod(
+        'submitQueryIdempotent',
+        [patientId, title, description, idempotencyKey],
+        { timeout: 60000 } // Extended timeout for AI processing
+      );
+      return this.service.handleMotokoResult(result, 'submit query');
+    } catch (error) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Submit a fully specified query (category, priority, attachments); like
+   * submitQueryIdempotent, repeats with the same key return the existing query ID
+   * @param {import('../types').QueryData} query - Query record
+   * @param {string} idempotencyKey - Client-generated key, stable across retries
+   */
+  async submitQueryEnhanced(query, idempotencyKey) {
+    try {
+      this.log(`Submitting enhanced query ${idempotencyKey} for patient ${query.patientId}: ${query.title}`);
+      const result = await this.service.callCanisterMethod('submitQueryEnhanced', [queryDataToCandid(query), idempotencyKey], {
         timeout: 60000 // Extended timeout for AI processing
       });
-      return this.service.handleMotokoResult(result, 'submit query');
+      return this.service.handleMotokoResult(result, 'submit enhanced query');
+    } catch (error) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Search a patient's queries with filters and paging
+   * @param {string} patientId - Patient's unique identifier
+   * @param {import('../types').QuerySearchCriteria} [criteria] - Optional filters
+   * @returns {Promise<{success: boolean, data?: import('../types').QuerySearchResult, error?: string}>}
+   */
+  async getPatientQueriesEnhanced(patientId, criteria) {
+    try {
+      this.log(`Searching queries for patient: ${patientId}`);
+      const result = await this.service.callCanisterMethod('getPatientQueriesEnhanced', [
+        patientId,
+        criteria ? [searchCriteriaToCandid(criteria)] : []
+      ]);
+      const response = this.service.handleMotokoResult(result, 'get enhanced patient queries');
+      return this.mapResponseData(response, searchResultFromCandid);
     } catch (error) {
       return { success: false, error: error.message };
     }
@@ -225,6 +349,7 @@ class TrustCareAPI {
   /**
    * Retrieve a specific query by ID
    * @param {string} queryId - Query's unique identifier
+   * @returns {Promise<{success: boolean, data?: import('../types').MedicalQuery | null, error?: string}>}
    */
   async getQuery(queryId) {
     try {
@@ -236,6 +361,22 @@ class TrustCareAPI {
     }
   }
 
+  /**
+   * Retrieve an enhanced query, including its structured AI analysis
+   * @param {string} queryId - Query's unique identifier
+   * @returns {Promise<{success: boolean, data?: import('../types').QueryData | null, error?: string}>}
+   */
+  async getEnhancedQuery(queryId) {
+    try {
+      this.log(`Getting enhanced query: ${queryId}`);
+      const result = await this.service.callCanisterMethod('getEnhancedQuery', [queryId]);
+      const response = this.service.handleMotokoOption(result, 'get enhanced query');
+      return this.mapResponseData(response, queryDataFromCandid);
+    } catch (error) {
+      return { success: false, error: error.message };
+    }
+  }
+
   /**
    * Get all queries submitted by a specific patient
    * @param {string} patientId - Patient's unique identifier
@@ -308,6 +449,432 @@ class TrustCareAPI {
     }
   }
 
+  /**
+   * Get safety score, urgency and priority for each of a doctor's pending queries
+   * @param {string} doctorId - Doctor's unique identifier
+   * @returns {Promise<{success: boolean, data?: import('../types').TriageAssessment[], error?: string}>}
+   */
+  async getTriageAssessments(doctorId) {
+    try {
+      this.log(`Getting triage assessments for doctor: ${doctorId}`);
+      const result = await this.service.callCanisterMethod('getTriageAssessments', [doctorId]);
+      const response = this.service.handleMotokoResult(result, 'get triage assessments');
+      return this.mapResponseData(response, assessments => assessments.map(triageAssessmentFromCandid));
+    } catch (error) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  // =======================
+  // CONVERSATION
+  // =======================
+
+  /**
+   * Get a query's conversation, including doctor-only internal notes
+   * @param {string} queryId - Query's unique identifier
+   * @param {string} doctorId - Doctor's unique identifier
+   * @returns {Promise<{success: boolean, data?: import('../types').QueryThread, error?: string}>}
+   */
+  async getDoctorThread(queryId, doctorId) {
+    try {
+      this.log(`Getting conversation for query: ${queryId}`);
+      const result = await this.service.callCanisterMethod('getDoctorThread', [queryId, doctorId]);
+      const response = this.service.handleMotokoResult(result, 'get conversation');
+      return this.mapResponseData(response, queryThreadFromCandid);
+    } catch (error) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Send the patient a message; a clarifying question waits for their reply
+   * @param {string} queryId - Query's unique identifier
+   * @param {string} doctorId - Doctor's unique identifier
+   * @param {string} text - Message text
+   * @param {boolean} awaitPatientReply - Put the query on hold until the patient answers
+   * @returns {Promise<{success: boolean, data?: import('../types').QueryThread, error?: string}>}
+   */
+  async sendDoctorMessage(queryId, doctorId, text, awaitPatientReply = false) {
+    try {
+      this.log(`Doctor ${doctorId} messaging on query ${queryId}`);
+      const result = await this.service.callCanisterMethod('sendDoctorMessage', [queryId, doctorId, text, awaitPatientReply]);
+      const response = this.service.handleMotokoResult(result, 'send message');
+      return this.mapResponseData(response, queryThreadFromCandid);
+    } catch (error) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Add a doctor-only note that the patient never sees
+   * @param {string} queryId - Query's unique identifier
+   * @param {string} doctorId - Doctor's unique identifier
+   * @param {string} text - Note text
+   * @returns {Promise<{success: boolean, data?: import('../types').QueryThread, error?: string}>}
+   */
+  async addInternalNote(queryId, doctorId, text) {
+    try {
+      this.log(`Doctor ${doctorId} adding internal note on query ${queryId}`);
+      const result = await this.service.callCanisterMethod('addInternalNote', [queryId, doctorId, text]);
+      const response = this.service.handleMotokoResult(result, 'add internal note');
+      return this.mapResponseData(response, queryThreadFromCandid);
+    } catch (error) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  // =======================
+  // ESCALATION
+  // =======================
+
+  /**
+   * Get the escalation steps taken for a query, oldest first
+   * @param {string} queryId - Query's unique identifier
+   * @returns {Promise<{success: boolean, data?: import('../types').EscalationEvent[], error?: string}>}
+   */
+  async getEscalationTimeline(queryId) {
+    try {
+      this.log(`Getting escalation timeline for query: ${queryId}`);
+      const result = await this.service.callCanisterMethod('getEscalationTimeline', [queryId]);
+      const response = this.service.handleMotokoResult(result, 'get escalation timeline');
+      return this.mapResponseData(response, events => events.map(escalationEventFromCandid));
+    } catch (error) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Get on-call alerts sent to a doctor for queries still waiting to be taken
+   * @param {string} doctorId - Doctor's unique identifier
+   * @returns {Promise<{success: boolean, data?: import('../types').EscalationEvent[], error?: string}>}
+   */
+  async getEscalationAlerts(doctorId) {
+    try {
+      this.log(`Getting escalation alerts for doctor: ${doctorId}`);
+      const result = await this.service.callCanisterMethod('getEscalationAlerts', [doctorId]);
+      const response = this.service.handleMotokoResult(result, 'get escalation alerts');
+      return this.mapResponseData(response, events => events.map(escalationEventFromCandid));
+    } catch (error) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Get the escalation policy
+   * @returns {Promise<{success: boolean, data?: import('../types').EscalationPolicy, error?: string}>}
+   */
+  async getEscalationPolicy() {
+    try {
+      const result = await this.service.callCanisterMethod('getEscalationPolicy');
+      const response = this.service.handleMotokoResult(result, 'get escalation policy');
+      return this.mapResponseData(response, escalationPolicyFromCandid);
+    } catch (error) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Replace the escalation policy
+   * @param {import('../types').EscalationPolicy} policy - Waiting-time thresholds and patient guidance
+   */
+  async setEscalationPolicy(policy) {
+    try {
+      this.log('Updating escalation policy');
+      const result = await this.service.callCanisterMethod('setEscalationPolicy', [escalationPolicyToCandid(policy)]);
+      return this.service.handleMotokoResult(result, 'set escalation policy');
+    } catch (error) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  // =======================
+  // ATTACHMENTS
+  // =======================
+
+  /**
+   * Get the attachments on a query that the signed-in doctor may open
+   * @param {string} queryId - Query's unique identifier
+   * @returns {Promise<{success: boolean, data?: import('../types').QueryAttachment[], error?: string}>}
+   */
+  async getQueryAttachments(queryId) {
+    try {
+      this.log(`Getting attachments for query: ${queryId}`);
+      const result = await this.service.callCanisterMethod('getQueryAttachments', [queryId]);
+      const response = this.service.handleMotokoResult(result, 'get attachments');
+      return this.mapResponseData(response, attachments => attachments.map(queryAttachmentFromCandid));
+    } catch (error) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Get an attachment's decryption key; only released to the query's assigned doctor and patient
+   * @param {string} attachmentId - Attachment's unique identifier
+   * @returns {Promise<{success: boolean, data?: Uint8Array, error?: string}>}
+   */
+  async getAttachmentKey(attachmentId) {
+    try {
+      const result = await this.service.callCanisterMethod('getAttachmentKey', [attachmentId]);
+      const response = this.service.handleMotokoResult(result, 'get file key');
+      return this.mapResponseData(response, blobToBytes);
+    } catch (error) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Get one encrypted chunk of an attachment
+   * @param {string} attachmentId - Attachment's unique identifier
+   * @param {number} index - Zero-based chunk index
+   * @returns {Promise<{success: boolean, data?: Uint8Array, error?: string}>}
+   */
+  async getAttachmentChunk(attachmentId, index) {
+    try {
+      const result = await this.service.callCanisterMethod('getAttachmentChunk', [attachmentId, BigInt(index)]);
+      const response = this.service.handleMotokoResult(result, 'download file');
+      return this.mapResponseData(response, blobToBytes);
+    } catch (error) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  // =======================
+  // PRESCRIPTIONS
+  // =======================
+
+  /**
+   * Resolve a query with a response and a structured prescription, signed by the doctor's principal
+   * @param {string} queryId - Query's unique identifier
+   * @param {string} doctorId - Doctor's unique identifier
+   * @param {string} response - Final response text
+   * @param {{medications: import('../types').PrescribedMedication[], notes: string, refillOf?: string, interactionOverride?: import('../types').InteractionOverride}} prescription - Prescription content and any overridden interaction warnings
+   * @returns {Promise<{success: boolean, data?: import('../types').Prescription, error?: string}>}
+   */
+  async respondWithPrescription(queryId, doctorId, response, prescription) {
+    try {
+      this.log(`Submitting response with prescription for query ${queryId}`);
+      const result = await this.service.callCanisterMethod('respondWithPrescription', [
+        queryId,
+        doctorId,
+        response,
+        prescription.medications,
+        prescription.notes,
+        toOpt(prescription.refillOf),
+        prescription.interactionOverride ? [interactionOverrideToCandid(prescription.interactionOverride)] : []
+      ]);
+      const mapped = this.mapResponseData(this.service.handleMotokoResult(result, 'issue prescription'), prescriptionFromCandid);
+      if (mapped.success) {
+        this.clearDraftHistory(queryId, doctorId);
+      }
+      return mapped;
+    } catch (error) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Get the prescription issued with a query's response, if any
+   * @param {string} queryId - Query's unique identifier
+   * @returns {Promise<{success: boolean, data?: import('../types').Prescription | null, error?: string}>}
+   */
+  async getQueryPrescription(queryId) {
+    try {
+      const result = await this.service.callCanisterMethod('getQueryPrescription', [queryId]);
+      const response = this.service.handleMotokoOption(result, 'get prescription');
+      return this.mapResponseData(response, prescriptionFromCandid);
+    } catch (error) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Get a patient's prescriptions, newest first
+   * @param {string} patientId - Patient's unique identifier
+   * @returns {Promise<{success: boolean, data?: import('../types').Prescription[], error?: string}>}
+   */
+  async getPatientPrescriptions(patientId) {
+    try {
+      this.log(`Getting prescriptions for patient: ${patientId}`);
+      const result = await this.service.callCanisterMethod('getPatientPrescriptions', [patientId]);
+      const response = this.service.handleMotokoResult(result, 'get prescriptions');
+      return this.mapResponseData(response, prescriptions => prescriptions.map(prescriptionFromCandid));
+    } catch (error) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Get the prescription a refill-request query asks to renew, to pre-fill the prescription builder
+   * @param {string} queryId - Query's unique identifier
+   * @returns {Promise<{success: boolean, data?: import('../types').Prescription | null, error?: string}>}
+   */
+  async getRefillPrescription(queryId) {
+    try {
+      const result = await this.service.callCanisterMethod('getRefillPrescription', [queryId]);
+      const response = this.service.handleMotokoOption(result, 'get refill prescription');
+      return this.mapResponseData(response, prescriptionFromCandid);
+    } catch (error) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  // =======================
+  // RESPONSE TEMPLATES
+  // =======================
+
+  /**
+   * Get the doctor's own templates plus those shared by colleagues, most used first
+   * @param {string} doctorId - Doctor's unique identifier
+   * @returns {Promise<{success: boolean, data?: import('../types').ResponseTemplate[], error?: string}>}
+   */
+  async getResponseTemplates(doctorId) {
+    try {
+      this.log(`Getting response templates for doctor: ${doctorId}`);
+      const result = await this.service.callCanisterMethod('getResponseTemplates', [doctorId]);
+      const response = this.service.handleMotokoResult(result, 'get response templates');
+      return this.mapResponseData(response, templates => templates.map(responseTemplateFromCandid));
+    } catch (error) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Create a response template owned by the doctor
+   * @param {string} doctorId - Doctor's unique identifier
+   * @param {import('../types').ResponseTemplateInput} input - Template name, content, category and sharing
+   * @returns {Promise<{success: boolean, data?: import('../types').ResponseTemplate, error?: string}>}
+   */
+  async createResponseTemplate(doctorId, input) {
+    try {
+      this.log(`Creating response template "${input.name}"`);
+      const result = await this.service.callCanisterMethod('createResponseTemplate', [
+        doctorId,
+        responseTemplateInputToCandid(input)
+      ]);
+      return this.mapResponseData(this.service.handleMotokoResult(result, 'create template'), responseTemplateFromCandid);
+    } catch (error) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Save a new version of one of the doctor's templates; the canister keeps the previous versions
+   * @param {string} doctorId - Doctor's unique identifier
+   * @param {string} templateId - Template's unique identifier
+   * @param {import('../types').ResponseTemplateInput} input - Updated name, content, category and sharing
+   * @returns {Promise<{success: boolean, data?: import('../types').ResponseTemplate, error?: string}>}
+   */
+  async updateResponseTemplate(doctorId, templateId, input) {
+    try {
+      this.log(`Updating response template ${templateId}`);
+      const result = await this.service.callCanisterMethod('updateResponseTemplate', [
+        doctorId,
+        templateId,
+        responseTemplateInputToCandid(input)
+      ]);
+      return this.mapResponseData(this.service.handleMotokoResult(result, 'update template'), responseTemplateFromCandid);
+    } catch (error) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Delete one of the doctor's templates
+   * @param {string} doctorId - Doctor's unique identifier
+   * @param {string} templateId - Template's unique identifier
+   * @returns {Promise<{success: boolean, error?: string}>}
+   */
+  async deleteResponseTemplate(doctorId, templateId) {
+    try {
+      this.log(`Deleting response template ${templateId}`);
+      const result = await this.service.callCanisterMethod('deleteResponseTemplate', [doctorId, templateId]);
+      return this.service.handleMotokoResult(result, 'delete template');
+    } catch (error) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Count a template as used in a response, for the usage statistics and suggestions
+   * @param {string} doctorId - Doctor's unique identifier
+   * @param {string} templateId - Template's unique identifier
+   * @returns {Promise<{success: boolean, error?: string}>}
+   */
+  async recordTemplateUse(doctorId, templateId) {
+    try {
+      const result = await this.service.callCanisterMethod('recordTemplateUse', [doctorId, templateId]);
+      return this.service.handleMotokoResult(result, 'record template use');
+    } catch (error) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  // =======================
+  // PATIENT FEEDBACK
+  // =======================
+
+  /**
+   * Get the ratings patients have given a doctor's answers, newest first
+   * @param {string} doctorId - Doctor's unique identifier
+   * @returns {Promise<{success: boolean, data?: import('../types').QueryFeedback[], error?: string}>}
+   */
+  async getDoctorFeedback(doctorId) {
+    try {
+      this.log(`Getting patient feedback for doctor: ${doctorId}`);
+      const result = await this.service.callCanisterMethod('getDoctorFeedback', [doctorId]);
+      const response = this.service.handleMotokoResult(result, 'get feedback');
+      return this.mapResponseData(response, feedback => feedback.map(queryFeedbackFromCandid));
+    } catch (error) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Get the platform's average ratings, overall, per doctor and per specialty
+   * @returns {Promise<{success: boolean, data?: import('../types').RatingRollup, error?: string}>}
+   */
+  async getRatingRollup() {
+    try {
+      const result = await this.service.callCanisterMethod('getRatingRollup', []);
+      const response = this.service.handleMotokoResult(result, 'get rating rollup');
+      return this.mapResponseData(response, ratingRollupFromCandid);
+    } catch (error) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Get the follow-up tasks low ratings opened for a doctor, open tasks first
+   * @param {string} doctorId - Doctor's unique identifier
+   * @returns {Promise<{success: boolean, data?: import('../types').FeedbackTask[], error?: string}>}
+   */
+  async getFeedbackTasks(doctorId) {
+    try {
+      const result = await this.service.callCanisterMethod('getFeedbackTasks', [doctorId]);
+      const response = this.service.handleMotokoResult(result, 'get feedback tasks');
+      return this.mapResponseData(response, tasks => tasks.map(feedbackTaskFromCandid));
+    } catch (error) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Close a follow-up task with a note on how the doctor followed up
+   * @param {string} doctorId - Doctor's unique identifier
+   * @param {string} taskId - Task's unique identifier
+   * @param {string} note - How the doctor followed up with the patient
+   * @returns {Promise<{success: boolean, data?: import('../types').FeedbackTask, error?: string}>}
+   */
+  async resolveFeedbackTask(doctorId, taskId, note) {
+    try {
+      this.log(`Resolving feedback task ${taskId}`);
+      const result = await this.service.callCanisterMethod('resolveFeedbackTask', [doctorId, taskId, note]);
+      return this.mapResponseData(this.service.handleMotokoResult(result, 'resolve feedback task'), feedbackTaskFromCandid);
+    } catch (error) {
+      return { success: false, error: error.message };
+    }
+  }
+
   // =======================
   // BATCH OPERATIONS
   // =======================
@@ -383,34 +950,30 @@ class TrustCareAPI {
   // =======================
 
   /**
-   * Get response templates for doctors
+   * Save draft response for a query as a new version
+   * @param {string} queryId - Query's unique identifier
+   * @param {string} doctorId - Doctor's unique identifier
+   * @param {string} draftText - Draft response text
+   * @param {Object} [options] - Where the draft came from
+   * @param {import('../types').DraftSource} [options.source] - 'doctor' (default) or 'ai_regenerated'
+   * @param {string} [options.instructions] - Instructions used to regenerate the draft
+   * @returns {Promise<{success: boolean, data?: import('../types').DraftHistory, message?: string, error?: string}>}
    */
-  async getResponseTemplates() {
+  async saveDraftResponse(queryId, doctorId, draftText, options = {}) {
     try {
-      this.log('Getting response templates');
-      // Mock templates for now - can be enhanced to fetch from backend
+      this.log(`Saving draft response for query ${queryId}`);
+      const history = await this.loadDraftHistory(queryId, doctorId);
+      const updated = appendDraftVersion(history, draftText, options.source, options.instructions);
+
+      if (updated === history) {
+        return { success: true, data: history, message: 'No changes since the last saved draft' };
+      }
+
+      await cacheOperations.drafts.set(queryId, doctorId, updated);
       return {
         success: true,
-        data: [
-          {
-            id: 'general',
-            name: 'General Response',
-            content: 'Thank you for your query. Based on your symptoms...',
-            category: 'general'
-          },
-          {
-            id: 'urgent',
-            name: 'Urgent Care',
-            content: 'I recommend immediate medical attention for your symptoms...',
-            category: 'urgent'
-          },
-          {
-            id: 'followup',
-            name: 'Follow-up Required',
-            content: 'Please schedule a follow-up appointment to discuss...',
-            category: 'follow-up'
-          }
-        ]
+        data: updated,
+        message: `Draft saved as version ${latestDraft(updated).version}`
       };
     } catch (error) {
       return { success: false, error: error.message };
@@ -418,28 +981,54 @@ class TrustCareAPI {
   }
 
   /**
-   * Save draft response for a query
+   * Get all saved draft versions for a query, oldest first
    * @param {string} queryId - Query's unique identifier
    * @param {string} doctorId - Doctor's unique identifier
-   * @param {string} draftText - Draft response text
+   * @returns {Promise<{success: boolean, data?: import('../types').DraftHistory, error?: string}>}
    */
-  async saveDraftResponse(queryId, doctorId, draftText) {
+  async getDraftHistory(queryId, doctorId) {
     try {
-      this.log(`Saving draft response for query ${queryId}`);
-      // For now, store in localStorage - can be enhanced to save to backend
-      const draftKey = `draft_${queryId}_${doctorId}`;
-      localStorage.setItem(draftKey, JSON.stringify({
-        queryId,
-        doctorId,
-        draftText,
-        savedAt: new Date().toISOString()
-      }));
-      return { success: true, message: 'Draft saved successfully' };
+      return { success: true, data: await this.loadDraftHistory(queryId, doctorId) };
     } catch (error) {
       return { success: false, error: error.message };
     }
   }
 
+  /**
+   * Read a draft history from the encrypted cache, moving any plaintext history
+   * left in localStorage by earlier versions into it
+   * @param {string} queryId - Query's unique identifier
+   * @param {string} doctorId - Doctor's unique identifier
+   * @returns {Promise<import('../types').DraftHistory>}
+   */
+  async loadDraftHistory(queryId, doctorId) {
+    const stored = await cacheOperations.drafts.get(queryId, doctorId);
+    if (stored) {
+      return toDraftHistory(stored, queryId, doctorId);
+    }
+
+    const legacyKey = legacyDraftStorageKey(queryId, doctorId);
+    const legacy = localStorage.getItem(legacyKey);
+    if (!legacy) {
+      return emptyDraftHistory(queryId, doctorId);
+    }
+
+    const history = parseDraftHistory(legacy, queryId, doctorId);
+    await cacheOperations.drafts.set(queryId, doctorId, history);
+    localStorage.removeItem(legacyKey);
+    return history;
+  }
+
+  /**
+   * Discard a query's saved drafts once the response has been sent
+   * @param {string} queryId - Query's unique identifier
+   * @param {string} doctorId - Doctor's unique identifier
+   */
+  clearDraftHistory(queryId, doctorId) {
+    cacheOperations.drafts.remove(queryId, doctorId);
+    localStorage.removeItem(legacyDraftStorageKey(queryId, doctorId));
+  }
+
   /**
    * Submit doctor response to a query
    * @param {string} queryId - Query's unique identifier
@@ -451,8 +1040,7 @@ class TrustCareAPI {
       this.log(`Submitting doctor response for query ${queryId}`);
       const result = await this.service.callCanisterMethod('respondToQuery', [queryId, doctorId, response]);
       // Clear any saved draft
-      const draftKey = `draft_${queryId}_${doctorId}`;
-      localStorage.removeItem(draftKey);
+      this.clearDraftHistory(queryId, doctorId);
       return this.service.handleMotokoResult(result, 'submit doctor response');
     } catch (error) {
       return { success: false, error: error.message };
@@ -501,15 +1089,93 @@ class TrustCareAPI {
   }
 
   /**
-   * Add vital signs for a patient
+   * Add a vital signs reading to a patient's history
    * @param {string} patientId - Patient's unique identifier
-   * @param {object} vitalSigns - Vital signs data
+   * @param {import('../types').VitalSigns} vitalSigns - Vital signs reading
    */
   async addVitalSigns(patientId, vitalSigns) {
     try {
       this.log(`Adding vital signs for patient: ${patientId}`);
-      // For now, simulate success - can be enhanced to save to backend
-      return { success: true, message: 'Vital signs added successfully' };
+      const result = await this.service.callCanisterMethod('recordVitalSigns', [
+        patientId,
+        vitalSignsToCandid(vitalSigns)
+      ]);
+      return this.service.handleMotokoResult(result, 'add vital signs');
+    } catch (error) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Get a patient's vital signs history, oldest reading first
+   * @param {string} patientId - Patient's unique identifier
+   * @param {{from?: number, to?: number}} [range] - Optional epoch-ms bounds (inclusive)
+   * @returns {Promise<{success: boolean, data?: import('../types').VitalSigns[], error?: string}>}
+   */
+  async getVitalSignsHistory(patientId, range = {}) {
+    try {
+      this.log(`Getting vital signs history for patient: ${patientId}`);
+      const result = await this.service.callCanisterMethod('getVitalSignsHistory', [
+        patientId,
+        toOpt(range.from === undefined ? undefined : msToNs(range.from)),
+        toOpt(range.to === undefined ? undefined : msToNs(range.to))
+      ]);
+      const response = this.service.handleMotokoResult(result, 'get vital signs history');
+      return this.mapResponseData(response, readings => readings.map(vitalSignsFromCandid));
+    } catch (error) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Add a glucose reading, insulin dose or HbA1c result to a patient's log
+   * @param {string} patientId - Patient's unique identifier
+   * @param {import('../types').GlucoseLogEntry} entry - Log entry with a client-generated ID
+   */
+  async addGlucoseLogEntry(patientId, entry) {
+    try {
+      this.log(`Adding ${entry.kind} log entry for patient: ${patientId}`);
+      const result = await this.service.callCanisterMethod('addGlucoseLogEntry', [
+        patientId,
+        glucoseLogEntryToCandid(entry)
+      ]);
+      return this.service.handleMotokoResult(result, 'add glucose log entry');
+    } catch (error) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Remove an entry from a patient's glucose log
+   * @param {string} patientId - Patient's unique identifier
+   * @param {string} entryId - Log entry ID
+   */
+  async deleteGlucoseLogEntry(patientId, entryId) {
+    try {
+      this.log(`Deleting glucose log entry ${entryId} for patient: ${patientId}`);
+      const result = await this.service.callCanisterMethod('deleteGlucoseLogEntry', [patientId, entryId]);
+      return this.service.handleMotokoResult(result, 'delete glucose log entry');
+    } catch (error) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Get a patient's glucose log, oldest entry first
+   * @param {string} patientId - Patient's unique identifier
+   * @param {{from?: number, to?: number}} [range] - Optional epoch-ms bounds (inclusive)
+   * @returns {Promise<{success: boolean, data?: import('../types').GlucoseLogEntry[], error?: string}>}
+   */
+  async getGlucoseLog(patientId, range = {}) {
+    try {
+      this.log(`Getting glucose log for patient: ${patientId}`);
+      const result = await this.service.callCanisterMethod('getGlucoseLog', [
+        patientId,
+        toOpt(range.from === undefined ? undefined : msToNs(range.from)),
+        toOpt(range.to === undefined ? undefined : msToNs(range.to))
+      ]);
+      const response = this.service.handleMotokoResult(result, 'get glucose log');
+      return this.mapResponseData(response, entries => entries.map(glucoseLogEntryFromCandid));
     } catch (error) {
       return { success: false, error: error.message };
     }
@@ -545,6 +1211,50 @@ class TrustCareAPI {
     }
   }
 
+  /**
+   * Log that the patient downloaded their record; the export itself is assembled client-side
+   * @param {string} patientId - Patient's unique identifier
+   * @param {string} format - Export format, shown in the access history
+   * @returns {Promise<{success: boolean, error?: string}>}
+   */
+  async recordPatientExport(patientId, format) {
+    try {
+      this.log(`Recording ${format} export for patient: ${patientId}`);
+      const result = await this.service.callCanisterMethod('recordPatientExport', [patientId, format]);
+      return this.service.handleMotokoResult(result, 'record patient export');
+    } catch (error) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Get the language the patient reads in, so replies and AI drafts can be written in it
+   * @param {string} patientId - Patient's unique identifier
+   * @returns {Promise<{success: boolean, data?: import('../types').Language, error?: string}>}
+   */
+  async getPreferredLanguage(patientId) {
+    try {
+      const result = await this.service.callCanisterMethod('getPreferredLanguage', [patientId]);
+      return this.service.handleMotokoResult(result, 'get preferred language');
+    } catch (error) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Check whether the patient allows AI-drafted responses
+   * @param {string} patientId - Patient's unique identifier
+   * @returns {Promise<{success: boolean, data?: boolean, error?: string}>}
+   */
+  async getAiProcessingAllowed(patientId) {
+    try {
+      const result = await this.service.callCanisterMethod('getAiProcessingAllowed', [patientId]);
+      return this.service.handleMotokoResult(result, 'get AI processing consent');
+    } catch (error) {
+      return { success: false, error: error.message };
+    }
+  }
+
   /**
    * Get all queries in the system
    */
@@ -562,6 +1272,18 @@ class TrustCareAPI {
   // UTILITY METHODS
   // =======================
 
+  /**
+   * Convert the raw Candid payload of a successful response
+   * @param {object} response - Result of handleMotokoResult/handleMotokoOption
+   * @param {Function} mapper - Candid to domain type converter
+   */
+  mapResponseData(response, mapper) {
+    if (!response.success || response.data === null || response.data === undefined) {
+      return response;
+    }
+    return { ...response, data: mapper(response.data) };
+  }
+
   /**
    * Test connection with comprehensive diagnostics
    */
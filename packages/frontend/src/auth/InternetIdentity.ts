@@ -0,0 +1,160 @@
+// Internet Identity Authentication
+// Wraps @dfinity/auth-client: sign-in, session expiry and the identity used for canister calls
+import { AuthClient } from '@dfinity/auth-client';
+import type { Identity } from '@dfinity/agent';
+import { DelegationIdentity, isDelegationValid } from '@dfinity/identity';
+
+const II_CANISTER_ID = process.env.REACT_APP_INTERNET_IDENTITY_CANISTER_ID || 'rdmx6-jaaaa-aaaaa-aaadq-cai';
+
+const IDENTITY_PROVIDER = process.env.REACT_APP_INTERNET_IDENTITY_URL || (
+  process.env.NODE_ENV === 'development'
+    ? `http://${II_CANISTER_ID}.localhost:4943`
+    : 'https://identity.ic0.app'
+);
+
+// Delegations are issued for a working day; idle sessions end after 30 minutes
+const SESSION_TTL_MS = 8 * 60 * 60 * 1000;
+const IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+// setTimeout overflows above ~24.8 days
+const MAX_TIMER_MS = 2147483647;
+
+export type SessionExpiredReason = 'expired' | 'idle';
+
+type SessionExpiredListener = (reason: SessionExpiredReason) => void;
+
+class InternetIdentityAuth {
+  private client: AuthClient | null = null;
+  private identity: Identity | null = null;
+  private expiryTimer: ReturnType<typeof setTimeout> | null = null;
+  private listeners = new Set<SessionExpiredListener>();
+
+  async init(): Promise<AuthClient> {
+    if (!this.client) {
+      this.client = await AuthClient.create({
+        idleOptions: {
+          idleTimeout: IDLE_TIMEOUT_MS,
+          // We clear the session ourselves instead of the default logout-and-reload
+          disableDefaultIdleCallback: true,
+          onIdle: () => this.expire('idle')
+        }
+      });
+    }
+    return this.client;
+  }
+
+  async isAuthenticated(): Promise<boolean> {
+    const client = await this.init();
+    if (!(await client.isAuthenticated())) {
+      this.clearSession();
+      return false;
+    }
+
+    if (!this.hasValidDelegation(client.getIdentity())) {
+      await this.expire('expired');
+      return false;
+    }
+
+    this.startSession(client.getIdentity());
+    return true;
+  }
+
+  login(): Promise<boolean> {
+    return this.init().then(client => new Promise<boolean>((resolve, reject) => {
+      client.login({
+        identityProvider: IDENTITY_PROVIDER,
+        maxTimeToLive: BigInt(SESSION_TTL_MS) * BigInt(1000000),
+        onSuccess: () => {
+          this.startSession(client.getIdentity());
+          resolve(true);
+        },
+        onError: (error?: string) => {
+          if (error === 'UserInterrupt') {
+            resolve(false);
+          } else {
+            reject(new Error(error || 'Internet Identity login failed'));
+          }
+        }
+      });
+    }));
+  }
+
+  async logout(): Promise<void> {
+    const client = await this.init();
+    this.clearSession();
+    await client.logout();
+  }
+
+  // Re-check the stored delegation, e.g. when the tab regains focus
+  async refresh(): Promise<boolean> {
+    return this.isAuthenticated();
+  }
+
+  getIdentity(): Identity | null {
+    return this.identity;
+  }
+
+  getPrincipal(): string | null {
+    return this.identity ? this.identity.getPrincipal().toText() : null;
+  }
+
+  // Epoch milliseconds at which the current delegation stops being accepted
+  getSessionExpiry(): number | null {
+    if (!(this.identity instanceof DelegationIdentity)) return null;
+
+    const expirations = this.identity.getDelegation().delegations
+      .map(signed => Number(signed.delegation.expiration / BigInt(1000000)));
+    return expirations.length > 0 ? Math.min(...expirations) : null;
+  }
+
+  onSessionExpired(listener: SessionExpiredListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private hasValidDelegation(identity: Identity): boolean {
+    if (!(identity instanceof DelegationIdentity)) return false;
+    return isDelegationValid(identity.getDelegation());
+  }
+
+  private startSession(identity: Identity): void {
+    this.identity = identity;
+    this.clearExpiryTimer();
+
+    const expiresAt = this.getSessionExpiry();
+    if (expiresAt !== null) {
+      const delay = Math.min(Math.max(expiresAt - Date.now(), 0), MAX_TIMER_MS);
+      this.expiryTimer = setTimeout(() => this.expire('expired'), delay);
+    }
+  }
+
+  private clearSession(): void {
+    this.identity = null;
+    this.clearExpiryTimer();
+  }
+
+  private clearExpiryTimer(): void {
+    if (this.expiryTimer) {
+      clearTimeout(this.expiryTimer);
+      this.expiryTimer = null;
+    }
+  }
+
+  private async expire(reason: SessionExpiredReason): Promise<void> {
+    if (!this.identity && reason === 'idle') return;
+
+    this.clearSession();
+    try {
+      await this.client?.logout();
+    } catch (error) {
+      console.error('Failed to clear expired session:', error);
+    }
+    this.listeners.forEach(listener => listener(reason));
+  }
+}
+
+// Export singleton instance
+const internetIdentityAuth = new InternetIdentityAuth();
+export default internetIdentityAuth;
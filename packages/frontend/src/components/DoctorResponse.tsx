@@ -1,10 +1,29 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import ReactQuill from 'react-quill';
 import 'react-quill/dist/quill.snow.css';
-import { MedicalQuery, Doctor, ComponentProps } from '../types';
+import { MedicalQuery, Doctor, ComponentProps, PrescribedMedication, Prescription } from '../types';
 import Button from './common/Button';
 import LoadingSpinner from './common/LoadingSpinner';
+import PrescriptionView from './common/PrescriptionView';
+import InteractionWarnings from './doctor/InteractionWarnings';
+import TemplatePicker from './doctor/TemplatePicker';
 import trustCareAPI from '../api/trustcare';
+import { useInteractionContext } from '../hooks/useInteractionContext';
+import {
+  MIN_OVERRIDE_JUSTIFICATION,
+  checkDraftText,
+  checkPrescription,
+  loadInteractionRules,
+  requiresOverride,
+  warningToFlag
+} from '../utils/drugInteractions';
+import {
+  emptyMedication,
+  isMedicationComplete,
+  medicationsForRefill,
+  prescribedMedications
+} from '../utils/prescription';
+import { templateTextToHtml } from '../utils/responseTemplates';
 
 interface DoctorResponseProps extends ComponentProps {
   query: MedicalQuery;
@@ -15,24 +34,12 @@ interface DoctorResponseProps extends ComponentProps {
   mode?: 'respond' | 'review' | 'edit';
 }
 
-interface ResponseTemplate {
-  id: string;
-  name: string;
-  content: string;
-  category: string;
-}
-
 interface ResponseData {
   content: string;
   diagnosis: string;
   recommendations: string[];
-  medications: Array<{
-    name: string;
-    dosage: string;
-    frequency: string;
-    duration: string;
-    instructions: string;
-  }>;
+  medications: PrescribedMedication[];
+  prescriptionNotes: string;
   followUp: string;
   urgency: 'low' | 'medium' | 'high' | 'immediate';
   requiresInPersonVisit: boolean;
@@ -57,6 +64,7 @@ const DoctorResponse: React.FC<DoctorResponseProps> = ({
     diagnosis: '',
     recommendations: [''],
     medications: [],
+    prescriptionNotes: '',
     followUp: '',
     urgency: 'medium',
     requiresInPersonVisit: false,
@@ -66,17 +74,36 @@ const DoctorResponse: React.FC<DoctorResponseProps> = ({
   });
 
   const [currentStep, setCurrentStep] = useState(0);
-  const [templates, setTemplates] = useState<ResponseTemplate[]>([]);
-  const [selectedTemplate, setSelectedTemplate] = useState<string>('');
   const [wordCount, setWordCount] = useState(0);
   const [isValidating, setIsValidating] = useState(false);
   const [validationErrors, setValidationErrors] = useState<string[]>([]);
   const [showPreview, setShowPreview] = useState(false);
   const [autoSaveStatus, setAutoSaveStatus] = useState<'saved' | 'saving' | 'error' | null>(null);
+  const [refillSource, setRefillSource] = useState<Prescription | null>(null);
+  const [issuedPrescription, setIssuedPrescription] = useState<Prescription | null>(null);
+  const [overrideJustification, setOverrideJustification] = useState('');
+  const [interactionRules] = useState(loadInteractionRules);
+  const interactionContext = useInteractionContext(query.patientId);
 
   const quillRef = useRef<ReactQuill>(null);
   const autoSaveTimer = useRef<NodeJS.Timeout>();
 
+  const interactionWarnings = useMemo(
+    () => interactionContext
+      ? checkPrescription(prescribedMedications(responseData.medications).map(m => m.name), interactionContext, interactionRules)
+      : [],
+    [responseData.medications, interactionContext, interactionRules]
+  );
+
+  const draftWarnings = useMemo(
+    () => interactionContext && query.aiDraftResponse
+      ? checkDraftText(query.aiDraftResponse, interactionContext, interactionRules)
+      : [],
+    [query.aiDraftResponse, interactionContext, interactionRules]
+  );
+
+  const needsOverride = requiresOverride(interactionWarnings);
+
   const steps = [
     'Clinical Assessment',
     'Treatment Plan', 
@@ -108,10 +135,22 @@ const DoctorResponse: React.FC<DoctorResponseProps> = ({
     'blockquote', 'code-block', 'link', 'align'
   ];
 
-  // Load templates on component mount
+  // A refill request starts from the prescription it renews
   useEffect(() => {
-    loadResponseTemplates();
-  }, []);
+    let cancelled = false;
+    trustCareAPI.getRefillPrescription(query.id).then(result => {
+      if (cancelled || !result.success || !result.data) return;
+      const previous = result.data;
+      setRefillSource(previous);
+      setResponseData(prev => ({
+        ...prev,
+        medications: prev.medications.length > 0 ? prev.medications : medicationsForRefill(previous)
+      }));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [query.id]);
 
   // Auto-save functionality
   useEffect(() => {
@@ -142,17 +181,6 @@ const DoctorResponse: React.FC<DoctorResponseProps> = ({
     }
   }, [responseData.content]);
 
-  const loadResponseTemplates = async () => {
-    try {
-      const result = await trustCareAPI.getResponseTemplates();
-      if (result.success && result.data) {
-        setTemplates(result.data);
-      }
-    } catch (error) {
-      console.error('Error loading templates:', error);
-    }
-  };
-
   const autoSaveResponse = async () => {
     if (!responseData.content.trim()) return;
 
@@ -167,15 +195,12 @@ const DoctorResponse: React.FC<DoctorResponseProps> = ({
     }
   };
 
-  const handleTemplateSelect = (templateId: string) => {
-    const template = templates.find(t => t.id === templateId);
-    if (template) {
-      setResponseData(prev => ({
-        ...prev,
-        content: prev.content + '\n\n' + template.content
-      }));
-    }
-    setSelectedTemplate('');
+  // Templates arrive as filled plain text; the editor holds HTML
+  const handleTemplateInsert = (text: string) => {
+    setResponseData(prev => ({
+      ...prev,
+      content: prev.content + templateTextToHtml(text)
+    }));
   };
 
   const addRecommendation = () => {
@@ -202,17 +227,11 @@ const DoctorResponse: React.FC<DoctorResponseProps> = ({
   const addMedication = () => {
     setResponseData(prev => ({
       ...prev,
-      medications: [...prev.medications, {
-        name: '',
-        dosage: '',
-        frequency: '',
-        duration: '',
-        instructions: ''
-      }]
+      medications: [...prev.medications, emptyMedication()]
     }));
   };
 
-  const updateMedication = (index: number, field: string, value: string) => {
+  const updateMedication = (index: number, field: keyof PrescribedMedication, value: string) => {
     setResponseData(prev => ({
       ...prev,
       medications: prev.medications.map((med, i) => 
@@ -265,6 +284,20 @@ const DoctorResponse: React.FC<DoctorResponseProps> = ({
       errors.push('Patient instructions are required');
     }
 
+    prescribedMedications(responseData.medications).forEach((medication, index) => {
+      if (!isMedicationComplete(medication)) {
+        errors.push(`Medication ${index + 1} needs a name, dosage and frequency`);
+      }
+    });
+
+    if (responseData.medications.length > 0 && !interactionContext) {
+      errors.push('Still checking the medications against the patient record - try again in a moment');
+    }
+
+    if (needsOverride && overrideJustification.trim().length < MIN_OVERRIDE_JUSTIFICATION) {
+      errors.push('Explain why you are prescribing despite the interaction warnings');
+    }
+
     setValidationErrors(errors);
     return errors.length === 0;
   };
@@ -287,7 +320,7 @@ const DoctorResponse: React.FC<DoctorResponseProps> = ({
         content: responseData.content,
         clinicalAssessment: responseData.diagnosis,
         recommendations: responseData.recommendations.filter(rec => rec.trim()),
-        medications: responseData.medications.filter(med => med.name.trim()),
+        medications: prescribedMedications(responseData.medications),
         followUpInstructions: responseData.followUp,
         urgencyLevel: responseData.urgency,
         requiresInPersonVisit: responseData.requiresInPersonVisit,
@@ -298,10 +331,25 @@ const DoctorResponse: React.FC<DoctorResponseProps> = ({
         wordCount
       };
 
-      const result = await trustCareAPI.submitDoctorResponse(query.id, doctor.id, responseData.content);
+      // Medications go out as a signed prescription alongside the response
+      const result = completeResponse.medications.length > 0
+        ? await trustCareAPI.respondWithPrescription(query.id, doctor.id, responseData.content, {
+            medications: completeResponse.medications,
+            notes: responseData.prescriptionNotes.trim(),
+            refillOf: refillSource ? refillSource.id : undefined,
+            interactionOverride: needsOverride
+              ? { flags: interactionWarnings.map(warningToFlag), justification: overrideJustification.trim() }
+              : undefined
+          })
+        : await trustCareAPI.submitDoctorResponse(query.id, doctor.id, responseData.content);
 
       if (result.success) {
-        showMessage?.('✅ Response submitted successfully! The patient has been notified.', 'success');
+        if (completeResponse.medications.length > 0) {
+          setIssuedPrescription(result.data || null);
+          showMessage?.('✅ Response submitted and prescription issued. The patient has been notified.', 'success');
+        } else {
+          showMessage?.('✅ Response submitted successfully! The patient has been notified.', 'success');
+        }
         onResponseSubmitted?.(query.id, responseData.content);
       } else {
         showMessage?.(result.error || 'Failed to submit response', 'error');
@@ -406,6 +454,12 @@ const DoctorResponse: React.FC<DoctorResponseProps> = ({
               <label className="block text-sm font-medium text-gray-700 mb-3">
                 Prescribed Medications
               </label>
+              {refillSource && (
+                <div className="bg-blue-50 border border-blue-200 rounded-lg p-3 mb-4 text-sm text-blue-800">
+                  🔁 Refill request: pre-filled from prescription {refillSource.id} by Dr. {refillSource.doctorName}.
+                  Adjust doses before issuing the renewal.
+                </div>
+              )}
               {responseData.medications.map((medication, index) => (
                 <div key={index} className="border border-gray-200 rounded-lg p-4 mb-4">
                   <div className="flex justify-between items-center mb-3">
@@ -464,6 +518,24 @@ const DoctorResponse: React.FC<DoctorResponseProps> = ({
               >
                 Add Medication
               </Button>
+              {responseData.medications.length > 0 && (
+                <div className="mt-3">
+                  {interactionContext ? (
+                    <InteractionWarnings warnings={interactionWarnings} />
+                  ) : (
+                    <p className="text-xs text-gray-500">Checking against the patient's medications and allergies...</p>
+                  )}
+                </div>
+              )}
+              {responseData.medications.length > 0 && (
+                <textarea
+                  value={responseData.prescriptionNotes}
+                  onChange={(e) => setResponseData(prev => ({ ...prev, prescriptionNotes: e.target.value }))}
+                  placeholder="Notes printed on the prescription (e.g., no substitution)..."
+                  className="w-full mt-3 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  rows={2}
+                />
+              )}
             </div>
 
             {/* Additional Tests */}
@@ -555,6 +627,15 @@ const DoctorResponse: React.FC<DoctorResponseProps> = ({
         );
 
       case 3: // Review & Submit
+        if (issuedPrescription) {
+          return (
+            <div className="space-y-4">
+              <p className="text-sm text-green-700">✅ Prescription issued and signed with your Internet Identity.</p>
+              <PrescriptionView prescription={issuedPrescription} patientName={query.patientId} showInteractionOverride />
+            </div>
+          );
+        }
+
         return (
           <div className="space-y-6">
             {validationErrors.length > 0 && (
@@ -589,7 +670,7 @@ const DoctorResponse: React.FC<DoctorResponseProps> = ({
                   <strong>Recommendations:</strong> {responseData.recommendations.filter(r => r.trim()).length}
                 </div>
                 <div>
-                  <strong>Medications:</strong> {responseData.medications.filter(m => m.name.trim()).length}
+                  <strong>Medications:</strong> {prescribedMedications(responseData.medications).length}
                 </div>
                 <div>
                   <strong>Additional Tests:</strong> {responseData.additionalTests.length}
@@ -600,6 +681,46 @@ const DoctorResponse: React.FC<DoctorResponseProps> = ({
               </div>
             </div>
 
+            {prescribedMedications(responseData.medications).length > 0 && (
+              <div className="border border-blue-200 rounded-lg p-4 bg-blue-50">
+                <h4 className="font-semibold text-gray-800 mb-2">
+                  Prescription{refillSource ? ` (renews ${refillSource.id})` : ''}
+                </h4>
+                <ul className="text-sm text-gray-700 space-y-1">
+                  {prescribedMedications(responseData.medications).map((medication, index) => (
+                    <li key={index}>
+                      <strong>{medication.name}</strong> {medication.dosage}, {medication.frequency}
+                      {medication.duration && `, ${medication.duration}`}
+                      {medication.instructions && ` - ${medication.instructions}`}
+                    </li>
+                  ))}
+                </ul>
+                <p className="text-xs text-gray-500 mt-2">
+                  Submitting signs this prescription with your Internet Identity. The patient sees it as a medication card.
+                </p>
+              </div>
+            )}
+
+            {interactionWarnings.length > 0 && (
+              <div className="space-y-2">
+                <InteractionWarnings warnings={interactionWarnings} />
+                {needsOverride && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Override justification <span className="text-red-500">*</span>
+                    </label>
+                    <textarea
+                      value={overrideJustification}
+                      onChange={(e) => setOverrideJustification(e.target.value)}
+                      className="w-full px-3 py-2 border border-orange-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-400"
+                      rows={2}
+                      placeholder="Why is this prescription appropriate despite the warnings? Stored with the prescription."
+                    />
+                  </div>
+                )}
+              </div>
+            )}
+
             <div>
               <div className="flex justify-between items-center mb-3">
                 <h4 className="font-semibold text-gray-800">Response Preview</h4>
@@ -701,6 +822,11 @@ const DoctorResponse: React.FC<DoctorResponseProps> = ({
               <p className="mt-1 text-gray-700 bg-blue-50 p-3 rounded italic">
                 {query.aiDraftResponse}
               </p>
+              {draftWarnings.length > 0 && (
+                <div className="mt-2">
+                  <InteractionWarnings warnings={draftWarnings} title="The AI draft suggests drugs that conflict with this patient's record" />
+                </div>
+              )}
             </div>
           )}
         </div>
@@ -711,20 +837,8 @@ const DoctorResponse: React.FC<DoctorResponseProps> = ({
         {currentStep === 0 && (
           <div className="mb-6">
             {/* Template Selection */}
-            <div className="flex items-center space-x-4 mb-6">
-              <label className="text-sm font-medium text-gray-700">Use Template:</label>
-              <select
-                value={selectedTemplate}
-                onChange={(e) => handleTemplateSelect(e.target.value)}
-                className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-              >
-                <option value="">Select a template</option>
-                {templates.map((template) => (
-                  <option key={template.id} value={template.id}>
-                    {template.name} ({template.category})
-                  </option>
-                ))}
-              </select>
+            <div className="mb-6">
+              <TemplatePicker query={query} doctor={doctor} onInsert={handleTemplateInsert} />
             </div>
 
             {/* Rich Text Editor */}
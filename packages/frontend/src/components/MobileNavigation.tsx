@@ -1,6 +1,8 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { useNavigate, useLocation } from 'react-router-dom';
 import Button from './common/Button';
+import LanguageSwitcher from './common/LanguageSwitcher';
+import { useTranslation } from '../contexts/LanguageContext';
 
 interface NavigationItem {
   id: string;
@@ -32,19 +34,20 @@ const MobileNavigation: React.FC<MobileNavigationProps> = ({
   const location = useLocation();
   const menuRef = useRef<HTMLDivElement>(null);
   const overlayRef = useRef<HTMLDivElement>(null);
+  const { t } = useTranslation();
 
   // Navigation items based on user type
   const getNavigationItems = (): NavigationItem[] => {
     const commonItems: NavigationItem[] = [
       {
         id: 'home',
-        label: 'Home',
-        path: '/',
+        label: t('nav.home'),
+        path: '/home',
         icon: '🏠'
       },
       {
         id: 'about',
-        label: 'About',
+        label: t('nav.about'),
         path: '/about',
         icon: 'ℹ️'
       }
@@ -53,28 +56,28 @@ const MobileNavigation: React.FC<MobileNavigationProps> = ({
     const patientItems: NavigationItem[] = [
       {
         id: 'dashboard',
-        label: 'Dashboard',
+        label: t('nav.dashboard'),
         path: '/patient',
         icon: '📊',
         restricted: 'patient'
       },
       {
         id: 'new-query',
-        label: 'New Query',
+        label: t('nav.newQuery'),
         path: '/patient/new-query',
         icon: '➕',
         restricted: 'patient'
       },
       {
         id: 'queries',
-        label: 'My Queries',
+        label: t('nav.myQueries'),
         path: '/patient/queries',
         icon: '📋',
         restricted: 'patient'
       },
       {
         id: 'profile',
-        label: 'Profile',
+        label: t('nav.profile'),
         path: '/patient/profile',
         icon: '👤',
         restricted: 'patient'
@@ -84,21 +87,21 @@ const MobileNavigation: React.FC<MobileNavigationProps> = ({
     const doctorItems: NavigationItem[] = [
       {
         id: 'dashboard',
-        label: 'Dashboard',
+        label: t('nav.dashboard'),
         path: '/doctor',
         icon: '🩺',
         restricted: 'doctor'
       },
       {
         id: 'patients',
-        label: 'My Patients',
+        label: t('nav.myPatients'),
         path: '/doctor/patients',
         icon: '👥',
         restricted: 'doctor'
       },
       {
         id: 'incoming',
-        label: 'Incoming Queries',
+        label: t('nav.incomingQueries'),
         path: '/doctor/incoming',
         icon: '📥',
         badge: notificationCount,
@@ -106,7 +109,7 @@ const MobileNavigation: React.FC<MobileNavigationProps> = ({
       },
       {
         id: 'assignments',
-        label: 'Patient Assignments',
+        label: t('nav.patientAssignments'),
         path: '/doctor/assignments',
         icon: '📋',
         restricted: 'doctor'
@@ -122,13 +125,13 @@ const MobileNavigation: React.FC<MobileNavigationProps> = ({
         ...commonItems,
         {
           id: 'login-patient',
-          label: 'Patient Login',
+          label: t('nav.patientLogin'),
           path: '/patient/login',
           icon: '👤'
         },
         {
           id: 'login-doctor',
-          label: 'Doctor Login',
+          label: t('nav.doctorLogin'),
           path: '/doctor/login',
           icon: '🩺'
         }
@@ -184,8 +187,9 @@ const MobileNavigation: React.FC<MobileNavigationProps> = ({
   };
 
   const isActivePath = (path: string): boolean => {
-    if (path === '/') {
-      return location.pathname === '/';
+    // Portal dashboards are only active on their own page, not on nested views
+    if (path === '/patient' || path === '/doctor') {
+      return location.pathname === path;
     }
     return location.pathname.startsWith(path);
   };
@@ -223,7 +227,7 @@ const MobileNavigation: React.FC<MobileNavigationProps> = ({
             <button
               onClick={() => setIsOpen(!isOpen)}
               className="p-2 text-gray-600 hover:text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-inset rounded"
-              aria-label="Open menu"
+              aria-label={t('nav.openMenu')}
             >
               <div className="w-6 h-6 relative">
                 <span className={`absolute block w-full h-0.5 bg-current transform transition duration-300 ease-in-out ${
@@ -318,6 +322,10 @@ const MobileNavigation: React.FC<MobileNavigationProps> = ({
 
           {/* Footer Actions */}
           <div className="border-t border-gray-200 p-4 space-y-3">
+            <label className="flex items-center justify-between text-sm text-gray-600">
+              <span>🌐 {t('language.label')}</span>
+              <LanguageSwitcher />
+            </label>
             {userType ? (
               <>
                 <Button
@@ -326,7 +334,7 @@ const MobileNavigation: React.FC<MobileNavigationProps> = ({
                   className="w-full justify-start"
                 >
                   <span className="mr-2">⚙️</span>
-                  Settings
+                  {t('common.settings')}
                 </Button>
                 <Button
                   onClick={handleLogout}
@@ -334,7 +342,7 @@ const MobileNavigation: React.FC<MobileNavigationProps> = ({
                   className="w-full justify-start text-red-600 hover:text-red-700"
                 >
                   <span className="mr-2">🚪</span>
-                  Logout
+                  {t('common.logout')}
                 </Button>
               </>
             ) : (
@@ -344,14 +352,14 @@ const MobileNavigation: React.FC<MobileNavigationProps> = ({
                   variant="primary"
                   className="w-full"
                 >
-                  Patient Login
+                  {t('nav.patientLogin')}
                 </Button>
                 <Button
                   onClick={() => handleNavigation('/doctor/login')}
                   variant="secondary"
                   className="w-full"
                 >
-                  Doctor Login
+                  {t('nav.doctorLogin')}
                 </Button>
               </div>
             )}
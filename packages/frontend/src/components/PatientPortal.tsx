@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { createActor } from '../declarations/backend';
+import { createActor } from 'declarations/backend';
 
 interface Patient {
   id: string;
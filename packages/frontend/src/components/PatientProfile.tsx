@@ -1,9 +1,12 @@
 import React, { useState, useEffect } from 'react';
-import { Patient, ComponentProps } from '../types';
+import { Patient, ComponentProps, VitalSigns } from '../types';
 import LoadingSpinner from './common/LoadingSpinner';
 import Button from './common/Button';
 import FormField from './common/FormField';
+import VitalSignsTrends from './common/VitalSignsTrends';
 import trustCareAPI from '../api/trustcare';
+import { buildPatientBundle, downloadFhirBundle } from '../utils/fhir';
+import { validateFhirBundle } from '../utils/fhirValidation';
 
 interface PatientProfileProps extends ComponentProps {
   patient: Patient;
@@ -11,17 +14,8 @@ interface PatientProfileProps extends ComponentProps {
   isEditable?: boolean;
 }
 
-interface VitalSigns {
-  bloodPressureSystolic: string;
-  bloodPressureDiastolic: string;
-  heartRate: string;
-  temperature: string;
-  respiratoryRate: string;
-  oxygenSaturation: string;
-  weight: string;
-  height: string;
-  recordedAt: number;
-}
+// Vital signs form input, one string per metric field
+type VitalSignsForm = Partial<Record<Exclude<keyof VitalSigns, 'recordedAt' | 'recordedBy'>, string>>;
 
 interface MedicalHistory {
   id: string;
@@ -57,7 +51,6 @@ interface ExtendedPatientData extends Patient {
   };
   allergies?: string[];
   bloodType?: string;
-  vitalSigns?: VitalSigns[];
   medicalHistory?: MedicalHistory[];
   medications?: Medication[];
 }
@@ -74,9 +67,11 @@ const PatientProfile: React.FC<PatientProfileProps> = ({
   const [activeTab, setActiveTab] = useState<'profile' | 'vitals' | 'history' | 'medications'>('profile');
   const [patientData, setPatientData] = useState<ExtendedPatientData>(patient);
   const [formData, setFormData] = useState<Partial<ExtendedPatientData>>({});
-  const [newVitalSigns, setNewVitalSigns] = useState<Partial<VitalSigns>>({});
+  const [newVitalSigns, setNewVitalSigns] = useState<VitalSignsForm>({});
+  const [vitalsVersion, setVitalsVersion] = useState(0);
   const [newMedication, setNewMedication] = useState<Partial<Medication>>({});
   const [newHistoryItem, setNewHistoryItem] = useState<Partial<MedicalHistory>>({});
+  const [exporting, setExporting] = useState(false);
 
   useEffect(() => {
     loadPatientData();
@@ -134,19 +129,22 @@ const PatientProfile: React.FC<PatientProfileProps> = ({
       return;
     }
 
+    const vitalSignsData: VitalSigns = { recordedAt: Date.now() };
+    for (const [field, value] of Object.entries(newVitalSigns) as [keyof VitalSignsForm, string | undefined][]) {
+      if (!value || !value.trim()) continue;
+      const number = Number(value);
+      if (isNaN(number) || number <= 0) {
+        showMessage?.('Vital signs must be positive numbers', 'error');
+        return;
+      }
+      vitalSignsData[field] = number;
+    }
+
     setLoading?.(true);
     try {
-      const vitalSignsData = {
-        ...newVitalSigns,
-        recordedAt: Date.now()
-      };
-      
       const result = await trustCareAPI.addVitalSigns(patient.id, vitalSignsData);
       if (result.success) {
-        setPatientData(prev => ({
-          ...prev,
-          vitalSigns: [vitalSignsData as VitalSigns, ...(prev.vitalSigns || [])]
-        }));
+        setVitalsVersion(version => version + 1);
         setNewVitalSigns({});
         showMessage?.('Vital signs recorded successfully', 'success');
       } else {
@@ -227,9 +225,44 @@ const PatientProfile: React.FC<PatientProfileProps> = ({
     }
   };
 
-  const formatDate = (timestamp: number | string) => {
-    if (typeof timestamp === 'string') return timestamp;
-    return new Date(timestamp).toLocaleDateString();
+  const handleExportFhir = async () => {
+    setExporting(true);
+    try {
+      const [recordResult, vitalsResult, queriesResult] = await Promise.all([
+        trustCareAPI.getEnhancedPatient(patient.id),
+        trustCareAPI.getVitalSignsHistory(patient.id),
+        trustCareAPI.getPatientQueriesEnhanced(patient.id)
+      ]);
+      if (!recordResult.success || !recordResult.data) {
+        showMessage?.(recordResult.error || 'Your full record is not available for export yet', 'error');
+        return;
+      }
+
+      const bundle = buildPatientBundle({
+        patient: recordResult.data,
+        vitals: vitalsResult.success ? vitalsResult.data || [] : [],
+        queries: queriesResult.success && queriesResult.data ? queriesResult.data.results : []
+      });
+      const issues = validateFhirBundle(bundle);
+      if (issues.length > 0) {
+        console.error('FHIR export failed validation:', issues);
+        showMessage?.(`The export failed FHIR validation: ${issues[0].message}`, 'error');
+        return;
+      }
+
+      downloadFhirBundle(`trustcare-record-${patient.id}-${bundle.timestamp.slice(0, 10)}.json`, bundle);
+      trustCareAPI.recordPatientExport(patient.id, 'FHIR R4 JSON bundle');
+      if (!vitalsResult.success || !queriesResult.success) {
+        showMessage?.('Record downloaded, but vital signs or doctor responses could not be included', 'warning');
+      } else {
+        showMessage?.('Record downloaded as a FHIR JSON bundle', 'success');
+      }
+    } catch (error) {
+      console.error('Error exporting record:', error);
+      showMessage?.('Failed to export your record', 'error');
+    } finally {
+      setExporting(false);
+    }
   };
 
   if (loading && !patientData) {
@@ -250,6 +283,9 @@ const PatientProfile: React.FC<PatientProfileProps> = ({
           </div>
           {isEditable && (
             <div className="flex space-x-2">
+              <Button onClick={handleExportFhir} loading={exporting} variant="secondary">
+                Download my record (FHIR JSON bundle)
+              </Button>
               <Button
                 onClick={handleEditToggle}
                 className={isEditing ? 'bg-gray-500 hover:bg-gray-600' : 'bg-blue-600 hover:bg-blue-700'}
@@ -395,11 +431,32 @@ const PatientProfile: React.FC<PatientProfileProps> = ({
                     placeholder="72"
                   />
                   <FormField
-                    label="Temperature (°F)"
+                    label="Temperature (°C)"
                     name="temperature"
                     value={newVitalSigns.temperature || ''}
                     onChange={(e) => setNewVitalSigns(prev => ({ ...prev, temperature: e.target.value }))}
-                    placeholder="98.6"
+                    placeholder="36.8"
+                  />
+                  <FormField
+                    label="SpO2 (%)"
+                    name="oxygenSaturation"
+                    value={newVitalSigns.oxygenSaturation || ''}
+                    onChange={(e) => setNewVitalSigns(prev => ({ ...prev, oxygenSaturation: e.target.value }))}
+                    placeholder="98"
+                  />
+                  <FormField
+                    label="Weight (kg)"
+                    name="weight"
+                    value={newVitalSigns.weight || ''}
+                    onChange={(e) => setNewVitalSigns(prev => ({ ...prev, weight: e.target.value }))}
+                    placeholder="70"
+                  />
+                  <FormField
+                    label="Height (cm)"
+                    name="height"
+                    value={newVitalSigns.height || ''}
+                    onChange={(e) => setNewVitalSigns(prev => ({ ...prev, height: e.target.value }))}
+                    placeholder="170"
                   />
                 </div>
                 <Button onClick={handleAddVitalSigns} className="mt-4 bg-green-600 hover:bg-green-700">
@@ -407,43 +464,13 @@ const PatientProfile: React.FC<PatientProfileProps> = ({
                 </Button>
               </div>
 
-              {/* Vital Signs History */}
-              <div className="space-y-4">
-                <h3 className="font-semibold text-gray-800">Vital Signs History</h3>
-                {patientData.vitalSigns?.length ? (
-                  patientData.vitalSigns.map((vitals, index) => (
-                    <div key={index} className="bg-white border rounded-lg p-4">
-                      <div className="flex justify-between items-center mb-3">
-                        <h4 className="font-medium">Recorded {formatDate(vitals.recordedAt)}</h4>
-                      </div>
-                      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
-                        <div>
-                          <span className="text-gray-600">Blood Pressure:</span>
-                          <div className="font-medium">{vitals.bloodPressureSystolic}/{vitals.bloodPressureDiastolic} mmHg</div>
-                        </div>
-                        <div>
-                          <span className="text-gray-600">Heart Rate:</span>
-                          <div className="font-medium">{vitals.heartRate} bpm</div>
-                        </div>
-                        {vitals.temperature && (
-                          <div>
-                            <span className="text-gray-600">Temperature:</span>
-                            <div className="font-medium">{vitals.temperature}°F</div>
-                          </div>
-                        )}
-                        {vitals.weight && (
-                          <div>
-                            <span className="text-gray-600">Weight:</span>
-                            <div className="font-medium">{vitals.weight} lbs</div>
-                          </div>
-                        )}
-                      </div>
-                    </div>
-                  ))
-                ) : (
-                  <p className="text-gray-500">No vital signs recorded yet.</p>
-                )}
-              </div>
+              {/* Vital Signs Trends */}
+              <VitalSignsTrends
+                patientId={patient.id}
+                refreshKey={vitalsVersion}
+                canEditRanges={isEditable}
+                showMessage={showMessage}
+              />
             </div>
           )}
 
@@ -1,10 +1,14 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Formik, Form, Field, FieldArray, ErrorMessage, FormikHelpers } from 'formik';
 import * as Yup from 'yup';
-import { ComponentProps } from '../types';
+import { ComponentProps, ConsentDocument, ConsentKind } from '../types';
 import Button from './common/Button';
 import LoadingSpinner from './common/LoadingSpinner';
-import trustCareAPI from '../api/trustcare';
+import RegistrationImport from './RegistrationImport';
+import icpService from '../services/icpService';
+import { CONSENT_KINDS } from '../services/candidAdapter';
+import { CONSENT_KIND_LABELS, registrationConsentChoices } from '../utils/consent';
+import { PatientRegistrationValues, registrationToPatientData } from '../utils/patientImport';
 
 interface PatientRegistrationProps extends ComponentProps {
   onRegistrationComplete?: (patientId: string) => void;
@@ -12,74 +16,6 @@ interface PatientRegistrationProps extends ComponentProps {
   initialStep?: number;
 }
 
-interface EmergencyContact {
-  name: string;
-  relationship: string;
-  phone: string;
-  email?: string;
-}
-
-interface MedicalCondition {
-  condition: string;
-  diagnosedDate: string;
-  status: 'active' | 'resolved' | 'chronic';
-}
-
-interface Medication {
-  name: string;
-  dosage: string;
-  frequency: string;
-  prescribedBy: string;
-}
-
-interface PatientRegistrationValues {
-  // Personal Information
-  firstName: string;
-  lastName: string;
-  email: string;
-  phone: string;
-  dateOfBirth: string;
-  gender: string;
-  ssn: string;
-  
-  // Address Information
-  street: string;
-  city: string;
-  state: string;
-  zipCode: string;
-  country: string;
-  
-  // Emergency Contacts
-  emergencyContacts: EmergencyContact[];
-  
-  // Insurance Information
-  insuranceProvider: string;
-  insurancePolicyNumber: string;
-  insuranceGroupNumber: string;
-  
-  // Medical Information
-  bloodType: string;
-  height: string;
-  weight: string;
-  allergies: string[];
-  medicalConditions: MedicalCondition[];
-  currentMedications: Medication[];
-  surgicalHistory: string;
-  familyHistory: string;
-  
-  // Lifestyle Information
-  smokingStatus: string;
-  alcoholConsumption: string;
-  exerciseFrequency: string;
-  dietaryRestrictions: string;
-  
-  // Consent and Agreements
-  hipaaConsent: boolean;
-  treatmentConsent: boolean;
-  communicationPreferences: string[];
-  marketingConsent: boolean;
-}
-
 // Multi-step validation schemas
 const personalInfoSchema = Yup.object({
   firstName: Yup.string()
@@ -174,6 +110,14 @@ const medicalInfoSchema = Yup.object({
   )
 });
 
+// Checkbox for each consent document
+const CONSENT_FIELDS: Record<ConsentKind, 'hipaaConsent' | 'treatmentConsent' | 'dataProcessingConsent' | 'aiProcessingConsent'> = {
+  hipaa_notice: 'hipaaConsent',
+  treatment: 'treatmentConsent',
+  data_processing: 'dataProcessingConsent',
+  ai_processing: 'aiProcessingConsent'
+};
+
 const consentSchema = Yup.object({
   hipaaConsent: Yup.boolean()
     .oneOf([true], 'HIPAA consent is required')
@@ -182,6 +126,10 @@ const consentSchema = Yup.object({
   treatmentConsent: Yup.boolean()
     .oneOf([true], 'Treatment consent is required')
     .required('Treatment consent is required'),
+
+  dataProcessingConsent: Yup.boolean()
+    .oneOf([true], 'Data processing consent is required')
+    .required('Data processing consent is required'),
   
   communicationPreferences: Yup.array()
     .of(Yup.string())
@@ -198,6 +146,18 @@ const PatientRegistration: React.FC<PatientRegistrationProps> = ({
 }) => {
   const [currentStep, setCurrentStep] = useState(initialStep);
   const [formData, setFormData] = useState<Partial<PatientRegistrationValues>>({});
+  const [consentDocuments, setConsentDocuments] = useState<ConsentDocument[]>([]);
+
+  // Current consent documents, so the patient signs the versions they actually read
+  useEffect(() => {
+    let cancelled = false;
+    icpService.getConsentDocuments().then(result => {
+      if (!cancelled && result.success) setConsentDocuments(result.data || []);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
 
   const steps = [
     { title: 'Personal Information', schema: personalInfoSchema },
@@ -256,6 +216,8 @@ const PatientRegistration: React.FC<PatientRegistrationProps> = ({
     // Consent and Agreements
     hipaaConsent: false,
     treatmentConsent: false,
+    dataProcessingConsent: false,
+    aiProcessingConsent: false,
     communicationPreferences: [],
     marketingConsent: false,
     
@@ -319,17 +281,38 @@ const PatientRegistration: React.FC<PatientRegistrationProps> = ({
         registrationDate: new Date().toISOString()
       };
 
-      const result = await trustCareAPI.registerPatient(
+      // Registered through icpService so the canister links the signed-in principal
+      const result = await icpService.registerPatient(
         patientData.fullName,
-        Array.isArray(patientData.medicalConditions) 
-          ? patientData.medicalConditions.join(', ') 
-          : (patientData.medicalConditions || ''),
+        patientData.medicalConditions.map(item => item.condition).join(', '),
         patientData.email
       );
       
       if (result.success && result.data) {
+        const patientId = result.data;
+        // The full record backs the profile and FHIR export; stored before consents so their flags sync onto it
+        const record = await icpService.createEnhancedPatient(registrationToPatientData(values, patientId));
+        if (!record.success) {
+          showMessage?.('Your account was created, but some profile details could not be saved. You can add them from your profile.', 'warning');
+        }
+
+        // Without the documents nothing is recorded; the dashboard asks for consent on first visit instead
+        if (consentDocuments.length > 0) {
+          const choices = registrationConsentChoices(consentDocuments, {
+            hipaa_notice: values.hipaaConsent,
+            treatment: values.treatmentConsent,
+            data_processing: values.dataProcessingConsent,
+            ai_processing: values.aiProcessingConsent
+          });
+          const recorded = await Promise.all(choices.map(choice =>
+            icpService.recordConsent(patientId, choice.kind, choice.version, choice.decision)
+          ));
+          if (recorded.some(consent => !consent.success)) {
+            showMessage?.('Some consent choices could not be saved; you will be asked again on your dashboard.', 'warning');
+          }
+        }
         showMessage?.('✅ Registration completed successfully! Welcome to TrustCareConnect.', 'success');
-        onRegistrationComplete?.(result.data.id);
+        onRegistrationComplete?.(result.data);
       } else {
         showMessage?.(result.error || 'Registration failed. Please try again.', 'error');
       }
@@ -916,48 +899,50 @@ const PatientRegistration: React.FC<PatientRegistrationProps> = ({
               </div>
             </div>
 
-            {/* Required Consents */}
+            {/* Consent documents, at their current versions */}
             <div className="border-t pt-6 space-y-6">
-              <h3 className="text-lg font-semibold text-gray-800">Required Consents</h3>
+              <h3 className="text-lg font-semibold text-gray-800">Consents</h3>
               
               <div className="space-y-4">
-                <div className="flex items-start space-x-3">
-                  <Field
-                    type="checkbox"
-                    name="hipaaConsent"
-                    className={`mt-1 h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500 ${
-                      errors.hipaaConsent && touched.hipaaConsent ? 'border-red-500' : ''
-                    }`}
-                  />
-                  <div>
-                    <label className="text-sm text-gray-700">
-                      <span className="text-red-500">*</span> I acknowledge that I have read and understand the 
-                      <a href="/hipaa-notice" target="_blank" className="text-blue-600 hover:underline mx-1">
-                        HIPAA Notice of Privacy Practices
-                      </a>
-                      and consent to the use and disclosure of my health information as described.
-                    </label>
-                    <ErrorMessage name="hipaaConsent" component="div" className="mt-1 text-sm text-red-600" />
-                  </div>
-                </div>
-
-                <div className="flex items-start space-x-3">
-                  <Field
-                    type="checkbox"
-                    name="treatmentConsent"
-                    className={`mt-1 h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500 ${
-                      errors.treatmentConsent && touched.treatmentConsent ? 'border-red-500' : ''
-                    }`}
-                  />
-                  <div>
-                    <label className="text-sm text-gray-700">
-                      <span className="text-red-500">*</span> I consent to receive medical treatment and consultation 
-                      through the TrustCareConnect platform. I understand that this platform provides medical 
-                      guidance but is not a substitute for emergency medical care.
-                    </label>
-                    <ErrorMessage name="treatmentConsent" component="div" className="mt-1 text-sm text-red-600" />
-                  </div>
-                </div>
+                {(consentDocuments.length > 0
+                  ? consentDocuments
+                  : CONSENT_KINDS.map(kind => ({
+                      kind,
+                      version: 0,
+                      title: CONSENT_KIND_LABELS[kind],
+                      body: '',
+                      required: kind !== 'ai_processing',
+                      publishedAt: 0
+                    }))
+                ).map(document => {
+                  const field = CONSENT_FIELDS[document.kind];
+                  return (
+                    <div key={document.kind} className="flex items-start space-x-3">
+                      <Field
+                        type="checkbox"
+                        name={field}
+                        className={`mt-1 h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500 ${
+                          errors[field] && touched[field] ? 'border-red-500' : ''
+                        }`}
+                      />
+                      <div className="flex-1">
+                        <label className="text-sm text-gray-700">
+                          {document.required && <span className="text-red-500">* </span>}
+                          I have read and accept the <span className="font-medium">{document.title}</span>
+                          {document.version > 0 && <span className="text-xs text-gray-500"> (version {document.version})</span>}
+                          {!document.required && <span className="text-gray-500"> (optional, you can revoke it later)</span>}
+                        </label>
+                        {document.body && (
+                          <details className="mt-1 text-sm">
+                            <summary className="cursor-pointer text-blue-600 hover:underline">Read document</summary>
+                            <p className="mt-1 text-gray-600 whitespace-pre-wrap">{document.body}</p>
+                          </details>
+                        )}
+                        <ErrorMessage name={field} component="div" className="mt-1 text-sm text-red-600" />
+                      </div>
+                    </div>
+                  );
+                })}
               </div>
             </div>
 
@@ -1025,6 +1010,8 @@ const PatientRegistration: React.FC<PatientRegistrationProps> = ({
               {steps[currentStep].title}
             </h2>
             
+            <RegistrationImport values={values} onApply={setFormData} showMessage={showMessage} />
+
             {renderStep(values, setFieldValue, errors, touched)}
 
             {/* Navigation buttons */}
@@ -8,6 +8,14 @@ import { Navigate, useLocation } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import LoadingSpinner from './common/LoadingSpinner';
 
+// Where each role lands when it opens a portal it cannot access
+const ROLE_HOME_ROUTES = {
+  patient: '/patient',
+  doctor: '/doctor',
+  admin: '/admin/analytics',
+  compliance_officer: '/compliance/audit'
+};
+
 const ProtectedRoute = ({ 
   children, 
   requireAuth = true, 
@@ -69,6 +77,12 @@ const ProtectedRoute = ({
   // Check role-based access
   if (isAuthenticated && allowedRoles.length > 0) {
     if (!userRole || !allowedRoles.includes(userRole)) {
+      // Send signed-in users with a different role to their own portal
+      const roleHome = ROLE_HOME_ROUTES[userRole];
+      if (roleHome && roleHome !== location.pathname) {
+        return <Navigate to={roleHome} replace />;
+      }
+
       // User doesn't have required role
       if (FallbackComponent) {
         return <FallbackComponent />;
@@ -94,7 +108,6 @@ const ProtectedRoute = ({
               >
                 Go Back
               </button>
-              <Navigate to="/" />
             </div>
           </div>
         </div>
@@ -138,6 +151,13 @@ export const AdminRoute = ({ children, ...props }) => (
   </ProtectedRoute>
 );
 
+// Admins can open the audit explorer as well as compliance officers
+export const ComplianceRoute = ({ children, ...props }) => (
+  <ProtectedRoute allowedRoles={['admin', 'compliance_officer']} {...props}>
+    {children}
+  </ProtectedRoute>
+);
+
 export const AuthenticatedRoute = ({ children, ...props }) => (
   <ProtectedRoute requireAuth={true} {...props}>
     {children}
@@ -4,7 +4,7 @@ import * as Yup from 'yup';
 import { Patient, ComponentProps } from '../types';
 import Button from './common/Button';
 import LoadingSpinner from './common/LoadingSpinner';
-import trustCareAPI from '../api/trustcare';
+import queryOutbox from '../services/queryOutbox';
 
 interface QueryFormProps extends ComponentProps {
   patient: Patient;
@@ -176,7 +176,8 @@ const QueryForm: React.FC<QueryFormProps> = ({
         patientId: patient.id
       };
 
-      const result = await trustCareAPI.submitQuery(
+      // Queued first so the query survives a failed send or a closed tab
+      const queued = await queryOutbox.enqueue(
         patient.id,
         queryData.title,
         `**Category:** ${values.category}
@@ -196,12 +197,16 @@ ${queryData.additionalNotes || 'None'}
 **Patient Consent:** Provided on ${new Date().toLocaleDateString()}`
       );
 
-      if (result.success) {
+      const items = await queryOutbox.flush(patient.id);
+      const sent = items.find(item => item.id === queued.id);
+
+      if (sent && sent.status === 'sent') {
         showMessage?.('✅ Query submitted successfully! Your query has been processed by our AI system and sent to your assigned doctor for review. You will receive notifications as your query progresses.', 'success');
         resetForm();
-        onQuerySubmitted?.(result.data?.id || '');
+        onQuerySubmitted?.(sent.queryId || '');
       } else {
-        showMessage?.(result.error || 'Failed to submit query', 'error');
+        showMessage?.('📤 We could not reach the server, so your query was saved to your outbox on this device. It will be sent automatically when your connection returns.', 'warning');
+        resetForm();
       }
     } catch (error) {
       console.error('Query submission error:', error);
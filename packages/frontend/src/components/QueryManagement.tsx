@@ -1,127 +1,83 @@
-import React, { useState, useEffect, useMemo } from 'react';
-import { MedicalQuery, QueryStatus, ComponentProps } from '../types';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { QueryData, EnhancedQueryStatus, ComponentProps } from '../types';
 import LoadingSpinner from './common/LoadingSpinner';
 import Button from './common/Button';
 import FormField from './common/FormField';
 import trustCareAPI from '../api/trustcare';
+import { QUERY_STATUSES, QUERY_PRIORITIES, QUERY_CATEGORIES } from '../services/candidAdapter';
+import {
+  QueryListFilters,
+  QUERY_PAGE_SIZE,
+  filtersFromSearchParams,
+  filtersToSearchParams,
+  filtersToCriteria,
+  hasActiveFilters
+} from '../utils/querySearchParams';
 
 interface QueryManagementProps extends ComponentProps {
-  patientId?: string;
-  doctorId?: string;
-  onQuerySelect?: (query: MedicalQuery) => void;
+  patientId: string;
+  onQuerySelect?: (query: QueryData) => void;
 }
 
-interface FilterOptions {
-  status: QueryStatus | 'all';
-  dateRange: 'all' | 'today' | 'week' | 'month';
-  sortBy: 'createdAt' | 'updatedAt' | 'title';
-  sortOrder: 'asc' | 'desc';
-}
+const SEARCH_DEBOUNCE_MS = 300;
+
+const humanize = (value: string) =>
+  value.replace(/_/g, ' ').replace(/\b\w/g, letter => letter.toUpperCase());
 
 const QueryManagement: React.FC<QueryManagementProps> = ({
   patientId,
-  doctorId,
   onQuerySelect,
   showMessage,
   loading,
   setLoading
 }) => {
-  const [queries, setQueries] = useState<MedicalQuery[]>([]);
-  const [searchTerm, setSearchTerm] = useState('');
-  const [filters, setFilters] = useState<FilterOptions>({
-    status: 'all',
-    dateRange: 'all',
-    sortBy: 'createdAt',
-    sortOrder: 'desc'
-  });
-  const [currentPage, setCurrentPage] = useState(1);
-  const [itemsPerPage] = useState(10);
-  const [refreshInterval, setRefreshInterval] = useState<NodeJS.Timeout | null>(null);
-
-  // Filtered and sorted queries
-  const filteredQueries = useMemo(() => {
-    let filtered = queries.filter(query => {
-      // Text search
-      if (searchTerm) {
-        const search = searchTerm.toLowerCase();
-        const matchesSearch = 
-          query.title.toLowerCase().includes(search) ||
-          query.description.toLowerCase().includes(search) ||
-          (query.response && query.response.toLowerCase().includes(search));
-        if (!matchesSearch) return false;
-      }
-
-      // Status filter
-      if (filters.status !== 'all' && query.status !== filters.status) {
-        return false;
-      }
-
-      // Date range filter
-      if (filters.dateRange !== 'all') {
-        const now = Date.now();
-        const queryDate = query.createdAt;
-        let cutoff = 0;
-        
-        switch (filters.dateRange) {
-          case 'today':
-            cutoff = now - 24 * 60 * 60 * 1000;
-            break;
-          case 'week':
-            cutoff = now - 7 * 24 * 60 * 60 * 1000;
-            break;
-          case 'month':
-            cutoff = now - 30 * 24 * 60 * 60 * 1000;
-            break;
-        }
-        
-        if (queryDate < cutoff) return false;
-      }
-
-      return true;
-    });
+  const [searchParams, setSearchParams] = useSearchParams();
+  // The URL is the source of truth for filters so views can be bookmarked and shared
+  const filters = useMemo(() => filtersFromSearchParams(searchParams), [searchParams]);
 
-    // Sort queries
-    filtered.sort((a, b) => {
-      let aValue = a[filters.sortBy];
-      let bValue = b[filters.sortBy];
-      
-      if (filters.sortBy === 'title') {
-        aValue = typeof aValue === 'string' ? aValue.toLowerCase() : aValue;
-        bValue = typeof bValue === 'string' ? bValue.toLowerCase() : bValue;
-      }
-      
-      if (filters.sortOrder === 'asc') {
-        return aValue > bValue ? 1 : -1;
-      } else {
-        return aValue < bValue ? 1 : -1;
-      }
-    });
+  const [queries, setQueries] = useState<QueryData[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
+  const [fetching, setFetching] = useState(false);
+  const [searchTerm, setSearchTerm] = useState(filters.searchQuery);
+  const latestRequest = useRef(0);
 
-    return filtered;
-  }, [queries, searchTerm, filters]);
+  const updateFilters = useCallback((changes: Partial<QueryListFilters>) => {
+    // Any filter change starts again from the first page
+    const next = { ...filters, page: 1, ...changes };
+    setSearchParams(filtersToSearchParams(next), { replace: true });
+  }, [filters, setSearchParams]);
 
-  // Paginated queries
-  const paginatedQueries = useMemo(() => {
-    const start = (currentPage - 1) * itemsPerPage;
-    return filteredQueries.slice(start, start + itemsPerPage);
-  }, [filteredQueries, currentPage, itemsPerPage]);
+  // Keep the search box in sync when the URL changes (back/forward navigation)
+  useEffect(() => {
+    setSearchTerm(filters.searchQuery);
+  }, [filters.searchQuery]);
 
-  const totalPages = Math.ceil(filteredQueries.length / itemsPerPage);
+  // Debounce typing before it reaches the URL and the canister
+  useEffect(() => {
+    if (searchTerm.trim() === filters.searchQuery) return;
+    const timer = setTimeout(() => updateFilters({ searchQuery: searchTerm }), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchTerm, filters.searchQuery, updateFilters]);
 
-  const fetchQueries = async () => {
+  const fetchQueries = useCallback(async () => {
+    const requestId = ++latestRequest.current;
+    setFetching(true);
     setLoading?.(true);
     try {
-      let result;
-      if (patientId) {
-        result = await trustCareAPI.getPatientQueries(patientId);
-      } else if (doctorId) {
-        result = await trustCareAPI.getDoctorQueries(doctorId);
-      } else {
-        result = await trustCareAPI.getAllQueries();
-      }
+      const result = await trustCareAPI.getPatientQueriesEnhanced(
+        patientId,
+        filtersToCriteria(filters, patientId)
+      );
+
+      // Ignore responses for filters the user has already moved away from
+      if (requestId !== latestRequest.current) return;
 
       if (result.success && result.data) {
-        setQueries(result.data);
+        setQueries(result.data.results);
+        setTotalCount(result.data.totalCount);
+        setHasMore(result.data.hasMore);
       } else {
         showMessage?.(result.error || 'Failed to load queries', 'error');
       }
@@ -129,37 +85,44 @@ const QueryManagement: React.FC<QueryManagementProps> = ({
       console.error('Error fetching queries:', error);
       showMessage?.('Failed to load queries', 'error');
     } finally {
-      setLoading?.(false);
+      if (requestId === latestRequest.current) {
+        setFetching(false);
+        setLoading?.(false);
+      }
     }
-  };
+  }, [patientId, filters, showMessage, setLoading]);
 
   // Real-time updates
   useEffect(() => {
     fetchQueries();
-    
-    // Set up refresh interval for real-time updates
+
     const interval = setInterval(fetchQueries, 30000); // Refresh every 30 seconds
-    setRefreshInterval(interval);
+    return () => clearInterval(interval);
+  }, [fetchQueries]);
 
-    return () => {
-      if (refreshInterval) clearInterval(refreshInterval);
-      if (interval) clearInterval(interval);
-    };
-  }, [patientId, doctorId]);
+  const totalPages = Math.max(1, Math.ceil(totalCount / QUERY_PAGE_SIZE));
+  const firstShown = totalCount === 0 ? 0 : (filters.page - 1) * QUERY_PAGE_SIZE + 1;
+  const lastShown = (filters.page - 1) * QUERY_PAGE_SIZE + queries.length;
 
-  const handleFilterChange = (key: keyof FilterOptions, value: string) => {
-    setFilters(prev => ({ ...prev, [key]: value }));
-    setCurrentPage(1); // Reset to first page when filtering
+  const goToPage = (page: number) => {
+    updateFilters({ page: Math.min(Math.max(page, 1), totalPages) });
   };
 
-  const getStatusColor = (status: QueryStatus) => {
+  const getStatusColor = (status: EnhancedQueryStatus) => {
     switch (status) {
+      case 'submitted':
       case 'pending':
         return 'bg-yellow-100 text-yellow-800 border-yellow-200';
-      case 'doctor_review':
+      case 'assigned':
+      case 'in_review':
         return 'bg-blue-100 text-blue-800 border-blue-200';
-      case 'completed':
+      case 'awaiting_patient_response':
+        return 'bg-purple-100 text-purple-800 border-purple-200';
+      case 'resolved':
+      case 'closed':
         return 'bg-green-100 text-green-800 border-green-200';
+      case 'escalated':
+        return 'bg-red-100 text-red-800 border-red-200';
       default:
         return 'bg-gray-100 text-gray-800 border-gray-200';
     }
@@ -175,87 +138,120 @@ const QueryManagement: React.FC<QueryManagementProps> = ({
     });
   };
 
-  if (loading && queries.length === 0) {
+  if ((loading || fetching) && queries.length === 0 && totalCount === 0) {
     return <LoadingSpinner message="Loading queries..." />;
   }
 
+  const selectClassName =
+    'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500';
+
   return (
     <div className="space-y-6">
       {/* Header */}
       <div className="flex justify-between items-center">
         <h2 className="text-2xl font-bold text-gray-800">Query Management</h2>
-        <Button onClick={fetchQueries} className="bg-blue-600 hover:bg-blue-700">
+        <Button onClick={fetchQueries} disabled={fetching} className="bg-blue-600 hover:bg-blue-700">
           Refresh
         </Button>
       </div>
 
       {/* Search and Filters */}
       <div className="bg-white p-4 rounded-lg shadow-sm border">
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 mb-4">
           <FormField
             label="Search"
             name="search"
             value={searchTerm}
             onChange={(e) => setSearchTerm(e.target.value)}
-            placeholder="Search queries..."
+            placeholder="Search titles, descriptions and responses..."
           />
-          
+
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">Status</label>
             <select
               value={filters.status}
-              onChange={(e) => handleFilterChange('status', e.target.value)}
-              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              onChange={(e) => updateFilters({ status: e.target.value as QueryListFilters['status'] })}
+              className={selectClassName}
             >
               <option value="all">All Status</option>
-              <option value="pending">Pending</option>
-              <option value="doctor_review">Doctor Review</option>
-              <option value="completed">Completed</option>
+              {QUERY_STATUSES.map(status => (
+                <option key={status} value={status}>{humanize(status)}</option>
+              ))}
             </select>
           </div>
 
           <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">Date Range</label>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Priority</label>
             <select
-              value={filters.dateRange}
-              onChange={(e) => handleFilterChange('dateRange', e.target.value)}
-              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              value={filters.priority}
+              onChange={(e) => updateFilters({ priority: e.target.value as QueryListFilters['priority'] })}
+              className={selectClassName}
             >
-              <option value="all">All Time</option>
-              <option value="today">Today</option>
-              <option value="week">This Week</option>
-              <option value="month">This Month</option>
+              <option value="all">All Priorities</option>
+              {QUERY_PRIORITIES.map(priority => (
+                <option key={priority} value={priority}>{humanize(priority)}</option>
+              ))}
             </select>
           </div>
 
           <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">Sort By</label>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Category</label>
             <select
-              value={`${filters.sortBy}-${filters.sortOrder}`}
-              onChange={(e) => {
-                const [sortBy, sortOrder] = e.target.value.split('-');
-                setFilters(prev => ({ ...prev, sortBy: sortBy as any, sortOrder: sortOrder as any }));
-              }}
-              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              value={filters.category}
+              onChange={(e) => updateFilters({ category: e.target.value as QueryListFilters['category'] })}
+              className={selectClassName}
             >
-              <option value="createdAt-desc">Newest First</option>
-              <option value="createdAt-asc">Oldest First</option>
-              <option value="updatedAt-desc">Recently Updated</option>
-              <option value="title-asc">Title A-Z</option>
-              <option value="title-desc">Title Z-A</option>
+              <option value="all">All Categories</option>
+              {QUERY_CATEGORIES.map(category => (
+                <option key={category} value={category}>{humanize(category)}</option>
+              ))}
             </select>
           </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">From</label>
+            <input
+              type="date"
+              value={filters.dateFrom}
+              max={filters.dateTo || undefined}
+              onChange={(e) => updateFilters({ dateFrom: e.target.value })}
+              className={selectClassName}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">To</label>
+            <input
+              type="date"
+              value={filters.dateTo}
+              min={filters.dateFrom || undefined}
+              onChange={(e) => updateFilters({ dateTo: e.target.value })}
+              className={selectClassName}
+            />
+          </div>
         </div>
 
-        <div className="text-sm text-gray-600">
-          Showing {paginatedQueries.length} of {filteredQueries.length} queries
+        <div className="flex justify-between items-center text-sm text-gray-600">
+          <span>
+            {totalCount > 0
+              ? `Showing ${firstShown}–${lastShown} of ${totalCount} queries`
+              : 'No matching queries'}
+          </span>
+          {hasActiveFilters(filters) && (
+            <button
+              onClick={() => setSearchParams(new URLSearchParams(), { replace: true })}
+              className="text-blue-600 hover:text-blue-800 font-medium"
+            >
+              Clear filters
+            </button>
+          )}
         </div>
       </div>
 
       {/* Query List */}
-      <div className="space-y-4">
-        {paginatedQueries.length > 0 ? (
-          paginatedQueries.map((query) => (
+      <div className={`space-y-4 ${fetching ? 'opacity-60' : ''}`}>
+        {queries.length > 0 ? (
+          queries.map((query) => (
             <div
               key={query.id}
               className="bg-white border rounded-lg p-6 hover:shadow-md transition-shadow cursor-pointer"
@@ -266,7 +262,7 @@ const QueryManagement: React.FC<QueryManagementProps> = ({
                   {query.title}
                 </h3>
                 <span className={`px-3 py-1 rounded-full text-xs font-medium border ${getStatusColor(query.status)}`}>
-                  {query.status.replace('_', ' ').toUpperCase()}
+                  {humanize(query.status).toUpperCase()}
                 </span>
               </div>
 
@@ -280,8 +276,9 @@ const QueryManagement: React.FC<QueryManagementProps> = ({
                   {query.updatedAt !== query.createdAt && (
                     <span>Updated: {formatDate(query.updatedAt)}</span>
                   )}
+                  <span>Priority: {humanize(query.priority)}</span>
                 </div>
-                {query.response && (
+                {query.responses.length > 0 && (
                   <div className="text-green-600 font-medium">
                     ✓ Response Available
                   </div>
@@ -293,7 +290,7 @@ const QueryManagement: React.FC<QueryManagementProps> = ({
           <div className="text-center py-12">
             <div className="text-gray-400 text-lg mb-2">No queries found</div>
             <p className="text-gray-500">
-              {searchTerm || filters.status !== 'all' || filters.dateRange !== 'all'
+              {hasActiveFilters(filters)
                 ? 'Try adjusting your search or filters'
                 : 'No queries have been submitted yet'}
             </p>
@@ -302,35 +299,23 @@ const QueryManagement: React.FC<QueryManagementProps> = ({
       </div>
 
       {/* Pagination */}
-      {totalPages > 1 && (
-        <div className="flex justify-center items-center space-x-2">
+      {(filters.page > 1 || hasMore) && (
+        <div className="flex justify-center items-center space-x-4">
           <Button
-            onClick={() => setCurrentPage(prev => Math.max(prev - 1, 1))}
-            disabled={currentPage === 1}
+            onClick={() => goToPage(filters.page - 1)}
+            disabled={filters.page === 1 || fetching}
             className="px-3 py-1 text-sm"
           >
             Previous
           </Button>
-          
-          <div className="flex space-x-1">
-            {Array.from({ length: totalPages }, (_, i) => i + 1).map((page) => (
-              <button
-                key={page}
-                onClick={() => setCurrentPage(page)}
-                className={`px-3 py-1 text-sm rounded ${
-                  currentPage === page
-                    ? 'bg-blue-600 text-white'
-                    : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
-                }`}
-              >
-                {page}
-              </button>
-            ))}
-          </div>
+
+          <span className="text-sm text-gray-600">
+            Page {filters.page} of {totalPages}
+          </span>
 
           <Button
-            onClick={() => setCurrentPage(prev => Math.min(prev + 1, totalPages))}
-            disabled={currentPage === totalPages}
+            onClick={() => goToPage(filters.page + 1)}
+            disabled={!hasMore || fetching}
             className="px-3 py-1 text-sm"
           >
             Next
@@ -341,4 +326,4 @@ const QueryManagement: React.FC<QueryManagementProps> = ({
   );
 };
 
-export default QueryManagement;
\ No newline at end of file
+export default QueryManagement;
@@ -0,0 +1,204 @@
+// Registration Import Component - Reads a FHIR bundle or clinic CSV row and reviews it field by field before filling the form
+import React, { useState } from 'react';
+import { BaseComponentProps } from '../types';
+import Button from './common/Button';
+import {
+  ImportFieldStatus,
+  ImportableField,
+  PatientRegistrationValues,
+  RegistrationImport as ParsedImport,
+  applyImport,
+  parseRegistrationImport,
+  reviewImport
+} from '../utils/patientImport';
+
+interface RegistrationImportProps extends BaseComponentProps {
+  values: PatientRegistrationValues;
+  onApply: (values: PatientRegistrationValues) => void;
+}
+
+const readText = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsText(file);
+  });
+
+const STATUS_STYLES: Record<ImportFieldStatus, { row: string; badge: string; label: string }> = {
+  new: { row: '', badge: 'bg-green-100 text-green-800', label: 'New' },
+  same: { row: 'text-gray-500', badge: 'bg-gray-100 text-gray-600', label: 'Matches' },
+  conflict: { row: 'bg-amber-50', badge: 'bg-amber-100 text-amber-800', label: 'Conflict' }
+};
+
+const RegistrationImport: React.FC<RegistrationImportProps> = ({ values, onApply, showMessage }) => {
+  const [open, setOpen] = useState(false);
+  const [fileName, setFileName] = useState('');
+  const [parsed, setParsed] = useState<ParsedImport | null>(null);
+  const [accepted, setAccepted] = useState<Partial<Record<ImportableField, boolean>>>({});
+
+  const review = parsed ? reviewImport(values, parsed.values) : [];
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const result = parseRegistrationImport(file.name, await readText(file));
+      // Conflicts keep what is already on the form until the patient opts in
+      const defaults: Partial<Record<ImportableField, boolean>> = {};
+      reviewImport(values, result.values).forEach(row => {
+        defaults[row.field] = row.status === 'new';
+      });
+      setFileName(file.name);
+      setParsed(result);
+      setAccepted(defaults);
+    } catch (error) {
+      showMessage?.(error instanceof Error ? error.message : 'The file could not be read', 'error');
+    }
+  };
+
+  const reset = () => {
+    setParsed(null);
+    setAccepted({});
+    setFileName('');
+  };
+
+  const handleApply = () => {
+    if (!parsed) return;
+    const fields = review.filter(row => accepted[row.field]).map(row => row.field);
+    onApply(applyImport(values, parsed.values, fields));
+    showMessage?.(`Filled ${fields.length} field${fields.length === 1 ? '' : 's'} from ${fileName}. Please check each step before submitting.`, 'success');
+    reset();
+    setOpen(false);
+  };
+
+  if (!open) {
+    return (
+      <div className="mb-6 flex items-center justify-between bg-blue-50 border border-blue-200 rounded-lg p-4 text-sm">
+        <span className="text-blue-800">Have an existing record? Import it instead of typing everything.</span>
+        <Button type="button" size="small" variant="secondary" onClick={() => setOpen(true)}>
+          Import Record
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mb-6 border border-blue-200 rounded-lg p-4 space-y-4">
+      <div>
+        <h3 className="font-semibold text-gray-800">Import an Existing Record</h3>
+        <p className="text-sm text-gray-600">
+          Choose a FHIR JSON bundle (Patient and Condition resources) or a clinic CSV export with a header row.
+          Nothing is saved until you complete registration.
+        </p>
+      </div>
+
+      {!parsed ? (
+        <div className="flex items-center gap-3">
+          <input
+            type="file"
+            accept=".json,.csv,application/json,application/fhir+json,text/csv"
+            onChange={(e) => {
+              handleFile(e.target.files ? e.target.files[0] : undefined);
+              e.target.value = '';
+            }}
+            className="text-sm"
+          />
+          <Button type="button" size="small" variant="secondary" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+        </div>
+      ) : (
+        <>
+          <p className="text-sm text-gray-700">
+            Review what <span className="font-medium">{fileName}</span> would fill in. Conflicting values keep what you
+            already entered unless you tick them.
+          </p>
+
+          {parsed.warnings.length > 0 && (
+            <ul className="bg-yellow-50 border border-yellow-200 rounded-md p-3 text-sm text-yellow-800 list-disc list-inside">
+              {parsed.warnings.map(warning => <li key={warning}>{warning}</li>)}
+            </ul>
+          )}
+
+          {review.length === 0 ? (
+            <p className="text-sm text-gray-500">No registration fields were found in this file.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b">
+                    <th className="py-2 pr-3">Use</th>
+                    <th className="py-2 pr-3">Field</th>
+                    <th className="py-2 pr-3">On the form</th>
+                    <th className="py-2 pr-3">Imported</th>
+                    <th className="py-2"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {review.map(row => {
+                    const style = STATUS_STYLES[row.status];
+                    return (
+                      <tr key={row.field} className={`border-b ${style.row}`}>
+                        <td className="py-2 pr-3">
+                          <input
+                            type="checkbox"
+                            checked={!!accepted[row.field]}
+                            disabled={row.status === 'same'}
+                            onChange={(e) => setAccepted({ ...accepted, [row.field]: e.target.checked })}
+                            aria-label={`Use imported ${row.label}`}
+                          />
+                        </td>
+                        <td className="py-2 pr-3 font-medium">{row.label}</td>
+                        <td className="py-2 pr-3">{row.current || <span className="text-gray-400">Empty</span>}</td>
+                        <td className="py-2 pr-3">{row.imported}</td>
+                        <td className="py-2">
+                          <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${style.badge}`}>{style.label}</span>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {parsed.unmapped.length > 0 && (
+            <div className="text-sm">
+              <p className="font-medium text-gray-700">Not imported ({parsed.unmapped.length})</p>
+              <p className="text-gray-500 mb-1">The form has no place for these. Add anything important in the later steps.</p>
+              <ul className="list-disc list-inside text-gray-600">
+                {parsed.unmapped.map((item, index) => (
+                  <li key={index}>
+                    <span className="font-mono text-xs">{item.source}</span>: {item.value}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <Button type="button" size="small" onClick={handleApply} disabled={!review.some(row => accepted[row.field])}>
+              Fill In Form
+            </Button>
+            <Button type="button" size="small" variant="secondary" onClick={reset}>
+              Choose Another File
+            </Button>
+            <Button
+              type="button"
+              size="small"
+              variant="secondary"
+              onClick={() => {
+                reset();
+                setOpen(false);
+              }}
+            >
+              Cancel
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default RegistrationImport;
@@ -0,0 +1,151 @@
+// Attachment List Component - Decrypted thumbnails, inline image and PDF previews, and downloads for query attachments
+import React, { useEffect, useState } from 'react';
+import { QueryAttachment } from '../../types';
+import Button from './Button';
+import { formatDate } from '../../utils/formatters';
+import {
+  ATTACHMENT_TYPE_LABELS,
+  AttachmentSource,
+  decryptThumbnail,
+  downloadAttachment,
+  formatFileSize,
+  previewKind
+} from '../../utils/attachments';
+
+interface AttachmentListProps {
+  attachments: QueryAttachment[];
+  source: AttachmentSource;
+  emptyMessage?: string;
+}
+
+interface AttachmentItemProps {
+  item: QueryAttachment;
+  source: AttachmentSource;
+}
+
+const AttachmentItem: React.FC<AttachmentItemProps> = ({ item, source }) => {
+  const [thumbnailUrl, setThumbnailUrl] = useState<string | null>(null);
+  const [fileUrl, setFileUrl] = useState<string | null>(null);
+  const [showPreview, setShowPreview] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const kind = previewKind(item.mimeType);
+
+  useEffect(() => {
+    let cancelled = false;
+    let url: string | null = null;
+    decryptThumbnail(source, item)
+      .then(blob => {
+        if (cancelled || !blob) return;
+        url = URL.createObjectURL(blob);
+        setThumbnailUrl(url);
+      })
+      .catch(() => {
+        // A missing thumbnail only costs the preview image; the file itself is still available
+      });
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [source, item]);
+
+  // Decrypted files only live in memory as object URLs, released when the item goes away
+  useEffect(() => () => {
+    if (fileUrl) URL.revokeObjectURL(fileUrl);
+  }, [fileUrl]);
+
+  const ensureFile = async (): Promise<string | null> => {
+    if (fileUrl) return fileUrl;
+    setLoading(true);
+    setError(null);
+    try {
+      const url = URL.createObjectURL(await downloadAttachment(source, item));
+      setFileUrl(url);
+      return url;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not open this file');
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handlePreview = async () => {
+    if (showPreview) {
+      setShowPreview(false);
+      return;
+    }
+    if (await ensureFile()) setShowPreview(true);
+  };
+
+  const handleDownload = async () => {
+    const url = await ensureFile();
+    if (!url) return;
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = item.attachment.fileName;
+    link.click();
+  };
+
+  return (
+    <li className="border border-gray-200 rounded-lg p-3">
+      <div className="flex items-center gap-3">
+        <div className="w-14 h-14 flex-shrink-0 rounded bg-gray-100 flex items-center justify-center overflow-hidden">
+          {thumbnailUrl ? (
+            <img src={thumbnailUrl} alt="" className="w-full h-full object-cover" />
+          ) : (
+            <span className="text-2xl">{kind === 'pdf' ? '📄' : kind === 'image' ? '🖼️' : '📎'}</span>
+          )}
+        </div>
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-medium text-gray-900 truncate">{item.attachment.fileName}</p>
+          <p className="text-xs text-gray-500">
+            {ATTACHMENT_TYPE_LABELS[item.attachment.fileType]} · {formatFileSize(item.attachment.fileSizeBytes)} ·{' '}
+            {formatDate(new Date(item.attachment.uploadedAt))}
+          </p>
+          <p className="text-xs text-gray-400">🔒 Encrypted - visible to the patient and their assigned doctor only</p>
+        </div>
+        <div className="flex gap-2">
+          {kind && (
+            <Button size="small" variant="secondary" onClick={handlePreview} disabled={loading}>
+              {showPreview ? 'Hide' : 'Preview'}
+            </Button>
+          )}
+          <Button size="small" onClick={handleDownload} loading={loading} disabled={loading}>
+            Download
+          </Button>
+        </div>
+      </div>
+      {error && <p className="text-xs text-red-600 mt-2">{error}</p>}
+      {showPreview && fileUrl && (
+        <div className="mt-3">
+          {kind === 'pdf' ? (
+            <iframe src={fileUrl} title={item.attachment.fileName} className="w-full h-96 border rounded" />
+          ) : (
+            <img src={fileUrl} alt={item.attachment.fileName} className="max-h-96 mx-auto rounded" />
+          )}
+        </div>
+      )}
+    </li>
+  );
+};
+
+const AttachmentList: React.FC<AttachmentListProps> = ({
+  attachments,
+  source,
+  emptyMessage = 'No attachments.'
+}) => {
+  if (attachments.length === 0) {
+    return <p className="text-sm text-gray-500">{emptyMessage}</p>;
+  }
+
+  return (
+    <ul className="space-y-2">
+      {attachments.map(item => (
+        <AttachmentItem key={item.attachment.id} item={item} source={source} />
+      ))}
+    </ul>
+  );
+};
+
+export default AttachmentList;
@@ -0,0 +1,67 @@
+// Conversation Thread Component - Chat-style timeline of a query's messages with read receipts
+import React from 'react';
+import { ThreadAuthor, ThreadEntry } from '../../utils/queryThread';
+import { formatDate } from '../../utils/formatters';
+
+interface ConversationThreadProps {
+  entries: ThreadEntry[];
+  viewer: 'doctor' | 'patient';
+  emptyMessage?: string;
+}
+
+const BUBBLE_CLASSES: Record<ThreadAuthor, string> = {
+  doctor: 'bg-blue-50 border-blue-200 text-blue-900',
+  patient: 'bg-gray-50 border-gray-200 text-gray-900',
+  internal: 'bg-yellow-50 border-yellow-300 border-dashed text-yellow-900'
+};
+
+const AUTHOR_LABELS: Record<ThreadAuthor, string> = {
+  doctor: '👨‍⚕️ Doctor',
+  patient: '👤 Patient',
+  internal: '🔒 Internal note - hidden from patient'
+};
+
+const ConversationThread: React.FC<ConversationThreadProps> = ({
+  entries,
+  viewer,
+  emptyMessage = 'No messages yet.'
+}) => {
+  if (entries.length === 0) {
+    return <p className="text-sm text-gray-500 text-center py-4">{emptyMessage}</p>;
+  }
+
+  return (
+    <ol className="space-y-3">
+      {entries.map(({ author, message }) => {
+        const ownMessage = viewer === 'patient' ? author === 'patient' : author !== 'patient';
+
+        return (
+          <li key={message.id} className={`flex ${ownMessage ? 'justify-end' : 'justify-start'}`}>
+            <div className={`max-w-[80%] border rounded-lg px-3 py-2 ${BUBBLE_CLASSES[author]}`}>
+              <div className="flex items-center gap-2 mb-1 text-xs font-medium">
+                <span>{author === 'patient' && viewer === 'patient' ? '👤 You' : AUTHOR_LABELS[author]}</span>
+                {message.isOfficial && (
+                  <span className="px-1.5 py-0.5 rounded bg-green-100 text-green-800">Final response</span>
+                )}
+              </div>
+              <p className="text-sm whitespace-pre-wrap">{message.responseText}</p>
+              <p className="text-xs text-gray-500 mt-1 text-right">
+                {formatDate(new Date(message.timestamp))}
+                {/* Doctors see whether the patient has read each of their messages */}
+                {viewer === 'doctor' && author === 'doctor' && (
+                  <span className="ml-2">
+                    {message.readByPatient
+                      ? `✓✓ Read${message.readTimestamp ? ` ${formatDate(new Date(message.readTimestamp))}` : ''}`
+                      : '✓ Sent'}
+                  </span>
+                )}
+              </p>
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
+
+export default ConversationThread;
@@ -0,0 +1,38 @@
+// Language Switcher Component - Chooses the UI language from the bundled message catalogues
+import React from 'react';
+import { Language } from '../../types';
+import { LANGUAGES, isLanguage } from '../../utils/i18n';
+import { useTranslation } from '../../contexts/LanguageContext';
+
+interface LanguageSwitcherProps {
+  onChange?: (language: Language) => void;
+  className?: string;
+}
+
+const LanguageSwitcher: React.FC<LanguageSwitcherProps> = ({ onChange, className = '' }) => {
+  const { language, setLanguage, t } = useTranslation();
+
+  const handleChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const selected = e.target.value;
+    if (!isLanguage(selected) || selected === language) return;
+    setLanguage(selected);
+    onChange?.(selected);
+  };
+
+  return (
+    <select
+      value={language}
+      onChange={handleChange}
+      aria-label={t('language.label')}
+      className={`px-2 py-1 border border-gray-300 rounded-md text-sm text-gray-700 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500 ${className}`}
+    >
+      {LANGUAGES.map((option) => (
+        <option key={option.code} value={option.code} lang={option.code}>
+          {option.label}
+        </option>
+      ))}
+    </select>
+  );
+};
+
+export default LanguageSwitcher;
@@ -0,0 +1,108 @@
+// Prescription View Component - Signed prescription with its medications and a printable copy for patients and doctors
+import React, { useEffect, useState } from 'react';
+import { Prescription } from '../../types';
+import Button from './Button';
+import { formatDate } from '../../utils/formatters';
+import { formatFingerprint, prescriptionDocumentHtml, prescriptionFingerprint } from '../../utils/prescription';
+
+interface PrescriptionViewProps {
+  prescription: Prescription;
+  patientName: string;
+  showInteractionOverride?: boolean; // Clinical reasoning for colleagues, not shown to patients
+}
+
+const PrescriptionView: React.FC<PrescriptionViewProps> = ({ prescription, patientName, showInteractionOverride = false }) => {
+  const [fingerprint, setFingerprint] = useState<string | null>(null);
+  const [printError, setPrintError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    prescriptionFingerprint(prescription).then(hash => {
+      if (!cancelled) setFingerprint(hash);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [prescription]);
+
+  // The window must open inside the click handler, so the fingerprint is computed ahead of time
+  const handlePrint = () => {
+    if (!fingerprint) return;
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) {
+      setPrintError('Allow pop-ups for this site to print the prescription');
+      return;
+    }
+    setPrintError(null);
+    printWindow.document.write(prescriptionDocumentHtml(prescription, patientName, fingerprint));
+    printWindow.document.close();
+    printWindow.focus();
+    printWindow.print();
+  };
+
+  return (
+    <div className="border border-blue-200 rounded-lg bg-blue-50 p-4 space-y-3">
+      <div className="flex justify-between items-start gap-4">
+        <div>
+          <h4 className="font-semibold text-gray-900">💊 Prescription {prescription.id}</h4>
+          <p className="text-xs text-gray-600">
+            Dr. {prescription.doctorName} | Issued {formatDate(new Date(prescription.issuedAt))}
+            {prescription.refillOf && <> | Renews {prescription.refillOf}</>}
+          </p>
+        </div>
+        <Button size="small" variant="secondary" onClick={handlePrint} disabled={!fingerprint}>
+          🖨 Print / Save as PDF
+        </Button>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm bg-white rounded">
+          <thead>
+            <tr className="text-left text-xs text-gray-500 uppercase">
+              <th className="px-3 py-2">Medication</th>
+              <th className="px-3 py-2">Dosage</th>
+              <th className="px-3 py-2">Frequency</th>
+              <th className="px-3 py-2">Duration</th>
+              <th className="px-3 py-2">Instructions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {prescription.medications.map((medication, index) => (
+              <tr key={index} className="border-t border-gray-100">
+                <td className="px-3 py-2 font-medium text-gray-900">{medication.name}</td>
+                <td className="px-3 py-2">{medication.dosage}</td>
+                <td className="px-3 py-2">{medication.frequency}</td>
+                <td className="px-3 py-2">{medication.duration || '-'}</td>
+                <td className="px-3 py-2 text-gray-600">{medication.instructions || '-'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {prescription.notes && <p className="text-sm text-gray-700">{prescription.notes}</p>}
+
+      {showInteractionOverride && prescription.interactionOverride && (
+        <div className="text-sm bg-orange-50 border border-orange-200 rounded p-3">
+          <p className="font-medium text-orange-900">⚠️ Prescribed despite interaction warnings</p>
+          <ul className="list-disc list-inside text-xs text-orange-800 mt-1">
+            {prescription.interactionOverride.flags.map((flag, index) => (
+              <li key={index}>{flag.summary}</li>
+            ))}
+          </ul>
+          <p className="text-xs text-gray-700 mt-2">
+            <strong>Justification:</strong> {prescription.interactionOverride.justification}
+          </p>
+        </div>
+      )}
+
+      <p className="text-xs text-gray-500">
+        Signed by <span className="font-mono">{prescription.signedBy}</span>
+        {fingerprint && <> | Fingerprint <span className="font-mono">{formatFingerprint(fingerprint).slice(0, 19)}…</span></>}
+      </p>
+      {printError && <p className="text-xs text-red-600">{printError}</p>}
+    </div>
+  );
+};
+
+export default PrescriptionView;
@@ -0,0 +1,336 @@
+// Vital Signs Trends Component - Per-metric history charts, BMI and normal ranges for one patient
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { BaseComponentProps, NormalRanges, VitalMetric, VitalSigns } from '../../types';
+import Button from './Button';
+import LoadingSpinner from './LoadingSpinner';
+import VitalTrendChart, { VitalChartSeries } from './VitalTrendChart';
+import trustCareAPI from '../../api/trustcare';
+import {
+  DATE_RANGE_PRESETS,
+  DEFAULT_NORMAL_RANGES,
+  DateRange,
+  DateRangePreset,
+  VITAL_METRICS,
+  bmiCategory,
+  buildVitalSeries,
+  dateRangeFromPreset,
+  formatVitalValue,
+  loadNormalRanges,
+  resetNormalRanges,
+  saveNormalRanges,
+  summarizeSeries
+} from '../../utils/vitalTrends';
+
+interface VitalSignsTrendsProps extends BaseComponentProps {
+  patientId: string;
+  compact?: boolean; // Smaller charts for embedding in the doctor's patient view
+  canEditRanges?: boolean;
+  refreshKey?: number; // Change to reload the history, e.g. after recording a reading
+}
+
+interface ChartGroup {
+  title: string;
+  metrics: VitalMetric[];
+}
+
+const CHART_GROUPS: ChartGroup[] = [
+  { title: 'Blood Pressure', metrics: ['bloodPressureSystolic', 'bloodPressureDiastolic'] },
+  { title: 'Heart Rate', metrics: ['heartRate'] },
+  { title: 'Oxygen Saturation', metrics: ['oxygenSaturation'] },
+  { title: 'Temperature', metrics: ['temperature'] },
+  { title: 'Weight', metrics: ['weight'] },
+  { title: 'BMI', metrics: ['bmi'] }
+];
+
+const SERIES_COLORS = ['#2563eb', '#7c3aed'];
+
+const dayStart = (date: string) => new Date(`${date}T00:00:00`).getTime();
+const dayEnd = (date: string) => new Date(`${date}T23:59:59.999`).getTime();
+
+const describeRange = (metric: VitalMetric, ranges: NormalRanges): string => {
+  const { min, max } = ranges[metric];
+  const unit = VITAL_METRICS[metric].unit;
+  if (min !== undefined && max !== undefined) return `${min}–${max} ${unit}`;
+  if (min !== undefined) return `≥ ${min} ${unit}`;
+  if (max !== undefined) return `≤ ${max} ${unit}`;
+  return 'No range set';
+};
+
+const VitalSignsTrends: React.FC<VitalSignsTrendsProps> = ({
+  patientId,
+  compact = false,
+  canEditRanges = true,
+  refreshKey = 0,
+  showMessage
+}) => {
+  const [readings, setReadings] = useState<VitalSigns[]>([]);
+  const [loadingHistory, setLoadingHistory] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [preset, setPreset] = useState<DateRangePreset | 'custom'>('90d');
+  const [customFrom, setCustomFrom] = useState('');
+  const [customTo, setCustomTo] = useState('');
+  const [ranges, setRanges] = useState<NormalRanges>(() => loadNormalRanges(patientId));
+  const [rangeDraft, setRangeDraft] = useState<Record<string, string> | null>(null);
+
+  // The full history is loaded so BMI can use a height recorded before the selected period
+  const loadHistory = useCallback(async () => {
+    setLoadingHistory(true);
+    setError(null);
+    try {
+      const result = await trustCareAPI.getVitalSignsHistory(patientId);
+      if (result.success) {
+        setReadings(result.data || []);
+      } else {
+        setError(result.error || 'Failed to load vital signs history');
+      }
+    } catch (err) {
+      console.error('Error loading vital signs history:', err);
+      setError('Failed to load vital signs history');
+    } finally {
+      setLoadingHistory(false);
+    }
+  }, [patientId]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory, refreshKey]);
+
+  useEffect(() => {
+    setRanges(loadNormalRanges(patientId));
+    setRangeDraft(null);
+  }, [patientId]);
+
+  const dateRange: DateRange = useMemo(() => {
+    if (preset !== 'custom') return dateRangeFromPreset(preset);
+    return {
+      from: customFrom ? dayStart(customFrom) : undefined,
+      to: customTo ? dayEnd(customTo) : undefined
+    };
+  }, [preset, customFrom, customTo]);
+
+  const seriesByMetric = useMemo(() => {
+    const series = {} as Record<VitalMetric, ReturnType<typeof buildVitalSeries>>;
+    (Object.keys(VITAL_METRICS) as VitalMetric[]).forEach(metric => {
+      series[metric] = buildVitalSeries(readings, metric, ranges, dateRange);
+    });
+    return series;
+  }, [readings, ranges, dateRange]);
+
+  const latestBmi = useMemo(() => summarizeSeries(buildVitalSeries(readings, 'bmi', ranges))?.latest, [readings, ranges]);
+
+  const startEditingRanges = () => {
+    const draft: Record<string, string> = {};
+    (Object.keys(ranges) as VitalMetric[]).forEach(metric => {
+      draft[`${metric}.min`] = ranges[metric].min?.toString() ?? '';
+      draft[`${metric}.max`] = ranges[metric].max?.toString() ?? '';
+    });
+    setRangeDraft(draft);
+  };
+
+  const handleSaveRanges = () => {
+    if (!rangeDraft) return;
+
+    const updated = { ...ranges };
+    for (const metric of Object.keys(ranges) as VitalMetric[]) {
+      const min = rangeDraft[`${metric}.min`].trim();
+      const max = rangeDraft[`${metric}.max`].trim();
+      const bounds = { min: min ? Number(min) : undefined, max: max ? Number(max) : undefined };
+
+      if ((bounds.min !== undefined && isNaN(bounds.min)) || (bounds.max !== undefined && isNaN(bounds.max))) {
+        showMessage?.(`${VITAL_METRICS[metric].label}: range limits must be numbers`, 'error');
+        return;
+      }
+      if (bounds.min !== undefined && bounds.max !== undefined && bounds.min > bounds.max) {
+        showMessage?.(`${VITAL_METRICS[metric].label}: minimum is above maximum`, 'error');
+        return;
+      }
+      updated[metric] = bounds;
+    }
+
+    saveNormalRanges(patientId, updated);
+    setRanges(updated);
+    setRangeDraft(null);
+    showMessage?.('Normal ranges updated', 'success');
+  };
+
+  const handleResetRanges = () => {
+    setRanges(resetNormalRanges(patientId));
+    setRangeDraft(null);
+    showMessage?.('Normal ranges reset to defaults', 'info');
+  };
+
+  const renderChartCard = (group: ChartGroup) => {
+    const chartSeries: VitalChartSeries[] = group.metrics.map((metric, index) => ({
+      label: VITAL_METRICS[metric].label,
+      color: SERIES_COLORS[index % SERIES_COLORS.length],
+      points: seriesByMetric[metric],
+      range: ranges[metric]
+    }));
+    const summaries = group.metrics.map(metric => ({ metric, summary: summarizeSeries(seriesByMetric[metric]) }));
+    const outOfRangeCount = summaries.reduce((count, { summary }) => count + (summary?.outOfRangeCount || 0), 0);
+
+    return (
+      <div key={group.title} className="bg-white border rounded-lg p-4">
+        <div className="flex justify-between items-start mb-2">
+          <div>
+            <h4 className="font-medium text-gray-800">{group.title}</h4>
+            <p className="text-xs text-gray-500">
+              Normal: {group.metrics.map(metric => describeRange(metric, ranges)).join(' / ')}
+            </p>
+          </div>
+          <div className="text-right">
+            {summaries.map(({ metric, summary }) => summary && (
+              <div
+                key={metric}
+                className={`text-sm font-semibold ${summary.latest.outOfRange ? 'text-red-600' : 'text-gray-900'}`}
+              >
+                {formatVitalValue(metric, summary.latest.value)}
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <VitalTrendChart series={chartSeries} unit={VITAL_METRICS[group.metrics[0]].unit} height={compact ? 120 : 160} />
+
+        {!compact && summaries.some(({ summary }) => summary) && (
+          <div className="mt-2 text-xs text-gray-600 space-y-1">
+            {summaries.map(({ metric, summary }) => summary && (
+              <div key={metric}>
+                {group.metrics.length > 1 && `${VITAL_METRICS[metric].label}: `}
+                range {formatVitalValue(metric, summary.min)} – {formatVitalValue(metric, summary.max)}, average{' '}
+                {formatVitalValue(metric, summary.average)}
+              </div>
+            ))}
+          </div>
+        )}
+        {outOfRangeCount > 0 && (
+          <p className="mt-2 text-xs font-medium text-red-600">
+            ⚠️ {outOfRangeCount} {outOfRangeCount === 1 ? 'reading' : 'readings'} outside the normal range
+          </p>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap justify-between items-center gap-2">
+        <h3 className="font-semibold text-gray-800">📈 Vital Signs Trends</h3>
+        <div className="flex flex-wrap items-center gap-1">
+          {DATE_RANGE_PRESETS.map(option => (
+            <button
+              key={option.value}
+              onClick={() => setPreset(option.value)}
+              className={`px-2 py-1 rounded text-xs font-medium ${
+                preset === option.value ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+          <button
+            onClick={() => setPreset('custom')}
+            className={`px-2 py-1 rounded text-xs font-medium ${
+              preset === 'custom' ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            Custom
+          </button>
+        </div>
+      </div>
+
+      {preset === 'custom' && (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <label className="text-gray-600" htmlFor={`vitals-from-${patientId}`}>From</label>
+          <input
+            id={`vitals-from-${patientId}`}
+            type="date"
+            value={customFrom}
+            max={customTo || undefined}
+            onChange={(e) => setCustomFrom(e.target.value)}
+            className="px-2 py-1 border border-gray-300 rounded-md"
+          />
+          <label className="text-gray-600" htmlFor={`vitals-to-${patientId}`}>To</label>
+          <input
+            id={`vitals-to-${patientId}`}
+            type="date"
+            value={customTo}
+            min={customFrom || undefined}
+            onChange={(e) => setCustomTo(e.target.value)}
+            className="px-2 py-1 border border-gray-300 rounded-md"
+          />
+        </div>
+      )}
+
+      {loadingHistory ? (
+        <LoadingSpinner size="small" message="Loading vital signs..." className="py-6" />
+      ) : error ? (
+        <div className="text-sm text-red-600">
+          {error}{' '}
+          <button onClick={loadHistory} className="underline">Try again</button>
+        </div>
+      ) : readings.length === 0 ? (
+        <p className="text-gray-500">No vital signs recorded yet.</p>
+      ) : (
+        <>
+          {latestBmi && (
+            <div className={`rounded-lg p-3 text-sm ${latestBmi.outOfRange ? 'bg-yellow-50 text-yellow-800' : 'bg-green-50 text-green-800'}`}>
+              <span className="font-semibold">BMI {latestBmi.value.toFixed(1)}</span> – {bmiCategory(latestBmi.value)}
+              <span className="text-xs ml-2 opacity-75">
+                from weight and height, {new Date(latestBmi.recordedAt).toLocaleDateString()}
+              </span>
+            </div>
+          )}
+
+          <div className={`grid gap-4 ${compact ? 'grid-cols-1 sm:grid-cols-2' : 'grid-cols-1 md:grid-cols-2'}`}>
+            {CHART_GROUPS.map(renderChartCard)}
+          </div>
+        </>
+      )}
+
+      {canEditRanges && (
+        <div className="border-t pt-3">
+          {rangeDraft ? (
+            <div className="space-y-3">
+              <h4 className="font-medium text-gray-800">Normal Ranges</h4>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-sm">
+                {(Object.keys(VITAL_METRICS) as VitalMetric[]).map(metric => (
+                  <div key={metric} className="flex items-center gap-2">
+                    <span className="w-36 text-gray-700">{VITAL_METRICS[metric].label}</span>
+                    <input
+                      aria-label={`${VITAL_METRICS[metric].label} minimum`}
+                      value={rangeDraft[`${metric}.min`]}
+                      onChange={(e) => setRangeDraft(prev => prev && { ...prev, [`${metric}.min`]: e.target.value })}
+                      placeholder={DEFAULT_NORMAL_RANGES[metric].min?.toString() ?? 'min'}
+                      className="w-20 px-2 py-1 border border-gray-300 rounded-md"
+                    />
+                    <span className="text-gray-400">–</span>
+                    <input
+                      aria-label={`${VITAL_METRICS[metric].label} maximum`}
+                      value={rangeDraft[`${metric}.max`]}
+                      onChange={(e) => setRangeDraft(prev => prev && { ...prev, [`${metric}.max`]: e.target.value })}
+                      placeholder={DEFAULT_NORMAL_RANGES[metric].max?.toString() ?? 'max'}
+                      className="w-20 px-2 py-1 border border-gray-300 rounded-md"
+                    />
+                    <span className="text-xs text-gray-500">{VITAL_METRICS[metric].unit}</span>
+                  </div>
+                ))}
+              </div>
+              <div className="flex gap-2">
+                <Button onClick={handleSaveRanges} size="small">Save Ranges</Button>
+                <Button onClick={handleResetRanges} size="small" variant="secondary">Reset to Defaults</Button>
+                <Button onClick={() => setRangeDraft(null)} size="small" variant="secondary">Cancel</Button>
+              </div>
+            </div>
+          ) : (
+            <button onClick={startEditingRanges} className="text-sm text-blue-600 hover:text-blue-800">
+              ⚙️ Adjust normal ranges
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VitalSignsTrends;
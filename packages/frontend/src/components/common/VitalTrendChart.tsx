@@ -0,0 +1,103 @@
+// Vital Trend Chart Component - SVG line chart of one or more vital sign series with normal-range bands
+import React from 'react';
+import { NormalRange, VitalTrendPoint } from '../../types';
+import { formatters } from '../../utils/formatters';
+
+export interface VitalChartSeries {
+  label: string;
+  color: string;
+  points: VitalTrendPoint[];
+  range?: NormalRange;
+}
+
+interface VitalTrendChartProps {
+  series: VitalChartSeries[];
+  unit: string;
+  height?: number;
+}
+
+const WIDTH = 320;
+const PADDING = { top: 10, right: 10, bottom: 20, left: 34 };
+const OUT_OF_RANGE_COLOR = '#dc2626';
+
+const VitalTrendChart: React.FC<VitalTrendChartProps> = ({ series, unit, height = 160 }) => {
+  const allPoints = series.flatMap(s => s.points);
+  if (allPoints.length === 0) {
+    return <p className="text-sm text-gray-500 py-6 text-center">No readings in this period</p>;
+  }
+
+  // Include range bounds in the scale so the normal band is always visible
+  const values = allPoints.map(p => p.value);
+  series.forEach(s => {
+    if (s.range?.min !== undefined) values.push(s.range.min);
+    if (s.range?.max !== undefined) values.push(s.range.max);
+  });
+  const rawMin = Math.min(...values);
+  const rawMax = Math.max(...values);
+  const margin = (rawMax - rawMin) * 0.1 || Math.abs(rawMax) * 0.05 || 1;
+  const yMin = rawMin - margin;
+  const yMax = rawMax + margin;
+
+  const times = allPoints.map(p => p.recordedAt);
+  const tMin = Math.min(...times);
+  const tMax = Math.max(...times);
+
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = height - PADDING.top - PADDING.bottom;
+  const x = (time: number) =>
+    tMax === tMin ? PADDING.left + plotWidth / 2 : PADDING.left + ((time - tMin) / (tMax - tMin)) * plotWidth;
+  const y = (value: number) => PADDING.top + (1 - (value - yMin) / (yMax - yMin)) * plotHeight;
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full" role="img" aria-label={`${series.map(s => s.label).join(' and ')} trend`}>
+      {series.map(s => s.range && (s.range.min !== undefined || s.range.max !== undefined) && (
+        <rect
+          key={`band-${s.label}`}
+          x={PADDING.left}
+          width={plotWidth}
+          y={y(s.range.max ?? yMax)}
+          height={y(s.range.min ?? yMin) - y(s.range.max ?? yMax)}
+          fill={s.color}
+          opacity={0.08}
+        />
+      ))}
+
+      <line x1={PADDING.left} x2={PADDING.left} y1={PADDING.top} y2={PADDING.top + plotHeight} stroke="#d1d5db" />
+      <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={PADDING.top + plotHeight} y2={PADDING.top + plotHeight} stroke="#d1d5db" />
+      <text x={PADDING.left - 4} y={PADDING.top + 8} textAnchor="end" fontSize="9" fill="#6b7280">{Math.round(yMax)}</text>
+      <text x={PADDING.left - 4} y={PADDING.top + plotHeight} textAnchor="end" fontSize="9" fill="#6b7280">{Math.round(yMin)}</text>
+      <text x={PADDING.left} y={height - 4} fontSize="9" fill="#6b7280">{formatters.formatDate(new Date(tMin))}</text>
+      {tMax !== tMin && (
+        <text x={WIDTH - PADDING.right} y={height - 4} textAnchor="end" fontSize="9" fill="#6b7280">
+          {formatters.formatDate(new Date(tMax))}
+        </text>
+      )}
+
+      {series.map(s => (
+        <g key={s.label}>
+          {s.points.length > 1 && (
+            <polyline
+              points={s.points.map(p => `${x(p.recordedAt)},${y(p.value)}`).join(' ')}
+              fill="none"
+              stroke={s.color}
+              strokeWidth={1.5}
+            />
+          )}
+          {s.points.map(p => (
+            <circle
+              key={p.recordedAt}
+              cx={x(p.recordedAt)}
+              cy={y(p.value)}
+              r={p.outOfRange ? 3.5 : 2.5}
+              fill={p.outOfRange ? OUT_OF_RANGE_COLOR : s.color}
+            >
+              <title>{`${s.label}: ${p.value} ${unit} on ${formatters.formatDate(new Date(p.recordedAt))}${p.outOfRange ? ' (outside normal range)' : ''}`}</title>
+            </circle>
+          ))}
+        </g>
+      ))}
+    </svg>
+  );
+};
+
+export default VitalTrendChart;
@@ -0,0 +1,170 @@
+// AI Analysis Panel - Structured view of the canister's AIAnalysis for doctors
+import React, { useState } from 'react';
+import { AIAnalysis, DoctorSpecialty } from '../../types';
+
+interface AIAnalysisPanelProps {
+  analysis: AIAnalysis;
+  onReferToSpecialty?: (specialty: DoctorSpecialty) => void;
+}
+
+type Level = 'low' | 'moderate' | 'high';
+
+const LEVEL_STYLES: Record<Level, { bar: string; badge: string }> = {
+  low: { bar: 'bg-red-500', badge: 'bg-red-100 text-red-800 border-red-200' },
+  moderate: { bar: 'bg-yellow-500', badge: 'bg-yellow-100 text-yellow-800 border-yellow-200' },
+  high: { bar: 'bg-green-500', badge: 'bg-green-100 text-green-800 border-green-200' }
+};
+
+const RISK_STYLES: Record<Level, string> = {
+  low: 'bg-green-50 border-green-200 text-green-800',
+  moderate: 'bg-yellow-50 border-yellow-200 text-yellow-800',
+  high: 'bg-red-50 border-red-200 text-red-800'
+};
+
+// Models report confidence either as 0-1 or as a percentage
+const normalizeConfidence = (confidence: number): number => {
+  if (!isFinite(confidence) || confidence < 0) return 0;
+  const ratio = confidence > 1 ? confidence / 100 : confidence;
+  return Math.min(ratio, 1);
+};
+
+const getConfidenceLevel = (ratio: number): Level => {
+  if (ratio >= 0.8) return 'high';
+  if (ratio >= 0.5) return 'moderate';
+  return 'low';
+};
+
+const getRiskLevel = (riskAssessment: string): Level => {
+  const risk = riskAssessment.toLowerCase();
+  if (/(high|severe|critical|emergency|urgent)/.test(risk)) return 'high';
+  if (/(moderate|medium|elevated)/.test(risk)) return 'moderate';
+  return 'low';
+};
+
+const formatSpecialty = (specialty: DoctorSpecialty): string => {
+  const name = specialty.kind === 'other' ? specialty.label : specialty.kind;
+  return name.replace(/_/g, ' ').replace(/\b\w/g, letter => letter.toUpperCase());
+};
+
+const AIAnalysisPanel: React.FC<AIAnalysisPanelProps> = ({ analysis, onReferToSpecialty }) => {
+  const [completedActions, setCompletedActions] = useState<Set<number>>(new Set());
+
+  const confidence = normalizeConfidence(analysis.confidence);
+  const confidenceLevel = getConfidenceLevel(confidence);
+  const riskLevel = getRiskLevel(analysis.riskAssessment);
+
+  const toggleAction = (index: number) => {
+    const next = new Set(completedActions);
+    if (next.has(index)) {
+      next.delete(index);
+    } else {
+      next.add(index);
+    }
+    setCompletedActions(next);
+  };
+
+  return (
+    <div className="bg-white border rounded-lg p-4 space-y-4">
+      <div className="flex justify-between items-start">
+        <h4 className="font-semibold text-gray-900">🧠 AI Analysis</h4>
+        <span className="text-xs text-gray-500">
+          {analysis.modelVersion} · {new Date(analysis.analysisTimestamp).toLocaleString()}
+        </span>
+      </div>
+
+      {/* Confidence Meter */}
+      <div>
+        <div className="flex justify-between items-center mb-1 text-sm">
+          <span className="font-medium text-gray-700">Confidence</span>
+          <span className={`px-2 py-0.5 rounded-full text-xs font-medium border ${LEVEL_STYLES[confidenceLevel].badge}`}>
+            {Math.round(confidence * 100)}% · {confidenceLevel.toUpperCase()}
+          </span>
+        </div>
+        <div
+          className="w-full h-2 bg-gray-200 rounded-full overflow-hidden"
+          role="meter"
+          aria-valuemin={0}
+          aria-valuemax={100}
+          aria-valuenow={Math.round(confidence * 100)}
+          aria-label="AI confidence"
+        >
+          <div
+            className={`h-full ${LEVEL_STYLES[confidenceLevel].bar}`}
+            style={{ width: `${confidence * 100}%` }}
+          />
+        </div>
+        {confidenceLevel === 'low' && (
+          <p className="text-xs text-red-700 mt-1">
+            Low confidence — verify the draft carefully before sending.
+          </p>
+        )}
+      </div>
+
+      {/* Risk Assessment */}
+      <div className={`border rounded p-3 text-sm ${RISK_STYLES[riskLevel]}`}>
+        <span className="font-medium">Risk assessment: </span>
+        {analysis.riskAssessment || 'Not provided'}
+      </div>
+
+      {/* Flagged Symptoms */}
+      {analysis.flaggedSymptoms.length > 0 && (
+        <div>
+          <h5 className="text-sm font-medium text-gray-700 mb-2">🚩 Flagged Symptoms</h5>
+          <div className="flex flex-wrap gap-2">
+            {analysis.flaggedSymptoms.map(symptom => (
+              <span
+                key={symptom}
+                className="px-2 py-1 rounded-full text-xs font-medium bg-red-50 text-red-700 border border-red-200"
+              >
+                {symptom}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Recommended Actions */}
+      {analysis.recommendedActions.length > 0 && (
+        <div>
+          <h5 className="text-sm font-medium text-gray-700 mb-2">⚡ Recommended Actions</h5>
+          <ul className="space-y-1">
+            {analysis.recommendedActions.map((action, index) => (
+              <li key={index}>
+                <label className="flex items-start gap-2 text-sm text-gray-800 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    className="mt-1"
+                    checked={completedActions.has(index)}
+                    onChange={() => toggleAction(index)}
+                  />
+                  <span className={completedActions.has(index) ? 'line-through text-gray-400' : ''}>
+                    {action}
+                  </span>
+                </label>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Specialty Routing Hint */}
+      {analysis.suggestedSpecialty && (
+        <div className="flex justify-between items-center bg-blue-50 border border-blue-200 rounded p-3 text-sm text-blue-800">
+          <span>
+            👨‍⚕️ Suggested specialty: <strong>{formatSpecialty(analysis.suggestedSpecialty)}</strong>
+          </span>
+          {onReferToSpecialty && (
+            <button
+              onClick={() => onReferToSpecialty(analysis.suggestedSpecialty!)}
+              className="text-blue-600 hover:text-blue-800 font-medium"
+            >
+              Refer →
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AIAnalysisPanel;
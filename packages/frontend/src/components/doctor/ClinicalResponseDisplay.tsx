@@ -1,5 +1,11 @@
 // Clinical Response Display Component - Enhanced UI for Healthcare Providers
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
+import { AIAnalysis, DoctorSpecialty, DraftHistory, DraftVersion } from '../../types';
+import AIAnalysisPanel from './AIAnalysisPanel';
+import DraftVersionsPanel from './DraftVersionsPanel';
+import trustCareAPI from '../../api/trustcare';
+import webSocketService from '../../services/websocket';
+import { latestDraft } from '../../utils/draftHistory';
 import './ClinicalResponseDisplay.css';
 
 interface ClinicalSection {
@@ -11,20 +17,37 @@ interface ClinicalSection {
 
 interface ClinicalResponseProps {
   rawResponse: string;
+  aiAnalysis?: AIAnalysis;
   patientId: string;
   queryId: string;
+  doctorId: string;
+  queryText: string; // Patient's question, sent to the bridge when regenerating
   onEditResponse: (editedResponse: string) => void;
   onApproveResponse: () => void;
   onOrderAction: (action: string) => void;
+  onReferToSpecialty?: (specialty: DoctorSpecialty) => void;
+  showMessage: (message: string, type?: 'success' | 'error' | 'info' | 'warning') => void;
 }
 
+const REGENERATE_PRESETS = [
+  'More conservative',
+  'Simpler language for patient',
+  'More detail on next steps',
+  'Shorter'
+];
+
 const ClinicalResponseDisplay: React.FC<ClinicalResponseProps> = ({
   rawResponse,
+  aiAnalysis,
   patientId,
   queryId,
+  doctorId,
+  queryText,
   onEditResponse,
   onApproveResponse,
-  onOrderAction
+  onOrderAction,
+  onReferToSpecialty,
+  showMessage
 }) => {
   // Ensure rawResponse is properly defined and converted to string
   const safeRawResponse = String(rawResponse || 'No response available');
@@ -32,8 +55,42 @@ const ClinicalResponseDisplay: React.FC<ClinicalResponseProps> = ({
   const [completedActions, setCompletedActions] = useState<Set<string>>(new Set());
   const [editMode, setEditMode] = useState(false);
   const [editedResponse, setEditedResponse] = useState('');
+  const [draftHistory, setDraftHistory] = useState<DraftHistory | null>(null);
+  const [showDrafts, setShowDrafts] = useState(false);
+  const [showRegenerate, setShowRegenerate] = useState(false);
+  const [instructions, setInstructions] = useState('');
+  const [regenerating, setRegenerating] = useState(false);
+  const [aiProcessingAllowed, setAiProcessingAllowed] = useState(true);
+
+  // Restore drafts saved in an earlier session
+  useEffect(() => {
+    let cancelled = false;
+    trustCareAPI.getDraftHistory(queryId, doctorId).then(result => {
+      if (!cancelled && result.success && result.data) {
+        setDraftHistory(result.data);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [queryId, doctorId]);
 
-  // Parse the clinical response into structured sections
+  // Patients who turned off AI-assisted responses are not sent back to the AI for new drafts
+  useEffect(() => {
+    let cancelled = false;
+    trustCareAPI.getAiProcessingAllowed(patientId).then(result => {
+      if (!cancelled && result.success) {
+        setAiProcessingAllowed(result.data !== false);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [patientId]);
+
+  const latestSavedDraft = draftHistory ? latestDraft(draftHistory) : undefined;
+
+  // Parse the clinical response into structured sections (legacy queries without an AIAnalysis)
   const parseClinicalResponse = (response: string): ClinicalSection[] => {
     const sections: ClinicalSection[] = [];
     
@@ -146,7 +203,10 @@ const ClinicalResponseDisplay: React.FC<ClinicalResponseProps> = ({
     return sections;
   };
 
-  const clinicalSections = parseClinicalResponse(safeRawResponse);
+  // Queries with a structured analysis show the draft as-is; headings are only parsed for legacy queries
+  const clinicalSections: ClinicalSection[] = aiAnalysis
+    ? [{ title: 'AI Draft Response', content: safeRawResponse, icon: '🤖', priority: 'medium' }]
+    : parseClinicalResponse(safeRawResponse);
 
   const toggleSection = (sectionTitle: string) => {
     const newCollapsed = new Set(collapsedSections);
@@ -206,19 +266,74 @@ const ClinicalResponseDisplay: React.FC<ClinicalResponseProps> = ({
     setEditMode(false);
   };
 
-  const handleSaveDraft = () => {
-    // Save the current response as draft
-    console.log('Saving draft response for query:', queryId);
-    // TODO: Implement actual draft saving functionality
-    alert('Draft saved successfully! This response has been saved and can be continued later.');
+  const openInEditor = (text: string) => {
+    setEditedResponse(text);
+    setEditMode(true);
   };
 
-  const handleRequestNewResponse = () => {
-    // Request a new AI response
-    console.log('Requesting new AI response for query:', queryId);
-    // TODO: Implement regenerate AI response functionality
-    if (confirm('Are you sure you want to request a new AI response? This will replace the current response.')) {
-      alert('New AI response requested! The system will generate a fresh response based on the patient data.');
+  const handleRestoreDraft = (version: DraftVersion) => {
+    openInEditor(version.text);
+    showMessage(`Draft version ${version.version} restored into the editor`, 'info');
+  };
+
+  const handleSaveDraft = async () => {
+    // Save what the doctor is editing, otherwise snapshot the current draft
+    const draftText = editMode ? editedResponse : (latestSavedDraft?.text ?? safeRawResponse);
+    if (!draftText.trim()) {
+      showMessage('Cannot save an empty draft', 'warning');
+      return;
+    }
+
+    const result = await trustCareAPI.saveDraftResponse(queryId, doctorId, draftText);
+    if (result.success && result.data) {
+      setDraftHistory(result.data);
+      showMessage(result.message || 'Draft saved', 'success');
+    } else {
+      showMessage(`Failed to save draft: ${result.error}`, 'error');
+    }
+  };
+
+  const handleRequestNewResponse = async () => {
+    const trimmedInstructions = instructions.trim();
+    if (!trimmedInstructions) {
+      showMessage('Tell the AI what to change, e.g. "more conservative"', 'warning');
+      return;
+    }
+
+    setRegenerating(true);
+    try {
+      // Drafts are written in the language the patient reads; English if it cannot be looked up
+      const languageResult = await trustCareAPI.getPreferredLanguage(patientId);
+      const regenerated = await webSocketService.regenerateResponse({
+        queryId,
+        patientId,
+        query: queryText,
+        instructions: trimmedInstructions,
+        previousDraft: latestSavedDraft?.text ?? safeRawResponse,
+        context: { language: languageResult.success ? languageResult.data : undefined }
+      });
+
+      // Keep the regenerated text as a draft version so it can be compared and restored
+      const result = await trustCareAPI.saveDraftResponse(queryId, doctorId, regenerated.content, {
+        source: 'ai_regenerated',
+        instructions: trimmedInstructions
+      });
+      if (result.success && result.data) {
+        setDraftHistory(result.data);
+      }
+
+      openInEditor(regenerated.content);
+      setShowRegenerate(false);
+      setInstructions('');
+      showMessage(
+        `New AI draft ready for review (safety score ${regenerated.safetyScore}%, urgency ${regenerated.urgency})`,
+        'success'
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      showMessage(`Could not regenerate the AI response: ${message}`, 'error');
+    } finally {
+      setRegenerating(false);
     }
   };
 
@@ -232,6 +347,32 @@ const ClinicalResponseDisplay: React.FC<ClinicalResponseProps> = ({
         </div>
       </div>
 
+      {/* Saved Draft Banner */}
+      {latestSavedDraft && !editMode && (
+        <div className="flex justify-between items-center bg-blue-50 border border-blue-200 rounded p-3 text-sm text-blue-800">
+          <span>
+            💾 Draft v{latestSavedDraft.version} saved {new Date(latestSavedDraft.savedAt).toLocaleString()}
+          </span>
+          <div className="space-x-3">
+            <button onClick={() => handleRestoreDraft(latestSavedDraft)} className="font-medium hover:text-blue-900">
+              Restore
+            </button>
+            <button onClick={() => setShowDrafts(!showDrafts)} className="font-medium hover:text-blue-900">
+              {showDrafts ? 'Hide history' : 'History & diff'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {showDrafts && draftHistory && (
+        <DraftVersionsPanel history={draftHistory} aiOriginal={safeRawResponse} onRestore={handleRestoreDraft} />
+      )}
+
+      {/* Structured AI Analysis */}
+      {aiAnalysis && (
+        <AIAnalysisPanel analysis={aiAnalysis} onReferToSpecialty={onReferToSpecialty} />
+      )}
+
       {/* Quick Actions Panel */}
       <div className="quick-actions-panel">
         <h4>⚡ Quick Actions</h4>
@@ -349,6 +490,40 @@ const ClinicalResponseDisplay: React.FC<ClinicalResponseProps> = ({
         )}
       </div>
 
+      {/* Regenerate Request */}
+      {showRegenerate && aiProcessingAllowed && (
+        <div className="bg-white border rounded-lg p-4 space-y-3">
+          <h4 className="font-semibold text-gray-900">🔄 Regenerate AI Response</h4>
+          <div className="flex flex-wrap gap-2">
+            {REGENERATE_PRESETS.map(preset => (
+              <button
+                key={preset}
+                onClick={() => setInstructions(preset)}
+                className="px-3 py-1 rounded-full text-xs border border-gray-300 bg-gray-50 hover:bg-gray-100"
+              >
+                {preset}
+              </button>
+            ))}
+          </div>
+          <textarea
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+            value={instructions}
+            onChange={(e) => setInstructions(e.target.value)}
+            placeholder="What should the AI change? e.g. simpler language for patient"
+            rows={2}
+            maxLength={500}
+          />
+          <div className="flex gap-2">
+            <button className="btn-save" onClick={handleRequestNewResponse} disabled={regenerating}>
+              {regenerating ? 'Regenerating...' : 'Regenerate'}
+            </button>
+            <button className="btn-cancel" onClick={() => setShowRegenerate(false)} disabled={regenerating}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Action Buttons */}
       <div className="clinical-actions">
         <button className="btn-approve" onClick={onApproveResponse}>
@@ -357,10 +532,17 @@ const ClinicalResponseDisplay: React.FC<ClinicalResponseProps> = ({
         <button className="btn-save-draft" onClick={handleSaveDraft}>
           💾 Save as Draft
         </button>
-        <button className="btn-reject" onClick={handleRequestNewResponse}>
-          ❌ Request New Response
-        </button>
+        {aiProcessingAllowed && (
+          <button className="btn-reject" onClick={() => setShowRegenerate(true)} disabled={regenerating}>
+            🔄 Request New Response
+          </button>
+        )}
       </div>
+      {!aiProcessingAllowed && (
+        <p className="text-xs text-gray-500">
+          This patient has turned off AI-assisted responses, so new AI drafts cannot be requested.
+        </p>
+      )}
     </div>
   );
 };
@@ -1,15 +1,13 @@
 // Doctor Dashboard Component - Enhanced with Real-Time Updates
 import React, { useState, useEffect, useCallback } from 'react';
+import { NavLink, Outlet, useOutletContext } from 'react-router-dom';
 import { Doctor, Patient, MedicalQuery } from '../../types';
 import Button from '../common/Button';
 import LoadingSpinner from '../common/LoadingSpinner';
-import PatientCard from './PatientCard';
-import QueryCard from './QueryCard';
-import UnassignedPatients from './UnassignedPatients';
-import { formatQueryStatus } from '../../utils/formatters';
 import trustCareAPI from '../../api/trustcare';
 import webSocketService, { useWebSocket } from '../../services/websocket';
 import { useSmartPolling } from '../../hooks/usePolling';
+import { useTranslation } from '../../contexts/LanguageContext';
 
 interface DoctorDashboardProps {
   currentDoctor: Doctor;
@@ -19,6 +17,32 @@ interface DoctorDashboardProps {
   setLoading: (loading: boolean) => void;
 }
 
+export interface DoctorDashboardStats {
+  totalPatients: number;
+  activeQueries: number;
+  completedQueries: number;
+  pendingQueries: number;
+  unassignedCount: number;
+}
+
+// Shared with the routed views rendered inside the dashboard
+export interface DoctorDashboardContext {
+  currentDoctor: Doctor;
+  myPatients: Patient[];
+  unassignedPatients: Patient[];
+  myQueries: MedicalQuery[];
+  patientNameMap: Record<string, string>;
+  stats: DoctorDashboardStats;
+  showMessage: (message: string, type?: 'success' | 'error' | 'info' | 'warning') => void;
+  loading: boolean;
+  setLoading: (loading: boolean) => void;
+  handleAssignPatient: (patientId: string) => Promise<void>;
+  handleUnassignPatient: (patientId: string) => Promise<void>;
+  refreshQueries: () => Promise<void>;
+}
+
+export const useDoctorDashboard = () => useOutletContext<DoctorDashboardContext>();
+
 const DoctorDashboard: React.FC<DoctorDashboardProps> = ({
   currentDoctor,
   onLogout,
@@ -26,13 +50,13 @@ const DoctorDashboard: React.FC<DoctorDashboardProps> = ({
   loading,
   setLoading
 }) => {
-  const [activeTab, setActiveTab] = useState<'overview' | 'patients' | 'queries' | 'incoming' | 'assignments'>('overview');
+  const { t } = useTranslation();
   const [myPatients, setMyPatients] = useState<Patient[]>([]);
   const [unassignedPatients, setUnassignedPatients] = useState<Patient[]>([]);
   const [myQueries, setMyQueries] = useState<MedicalQuery[]>([]);
   const [pendingQueries, setPendingQueries] = useState<MedicalQuery[]>([]);
   const [patientNameMap, setPatientNameMap] = useState<Record<string, string>>({});
-  const [stats, setStats] = useState({
+  const [stats, setStats] = useState<DoctorDashboardStats>({
     totalPatients: 0,
     activeQueries: 0,
     completedQueries: 0,
@@ -106,12 +130,11 @@ const DoctorDashboard: React.FC<DoctorDashboardProps> = ({
   }, [currentDoctor]);
 
   // WebSocket event handlers
+  // Updates carry ids and status only; query details are read from the canister
   const handleQueryCreated = useCallback((data: any) => {
-    // Add new query to the appropriate list
     if (data.query && data.query.doctorId === currentDoctor.id) {
-      setMyQueries(prev => [data.query, ...prev]);
-      setStats(prev => ({ ...prev, activeQueries: prev.activeQueries + 1 }));
-      showMessage(`New query received: ${data.query.title}`, 'info');
+      refreshQueries();
+      showMessage('New query received', 'info');
       setRealtimeUpdates(prev => prev + 1);
     }
   }, [currentDoctor.id, showMessage]);
@@ -125,7 +148,7 @@ const DoctorDashboard: React.FC<DoctorDashboardProps> = ({
       
       // Show notification for status changes
       if (data.previousStatus !== data.newStatus) {
-        showMessage(`Query "${data.query.title}" status updated to ${data.newStatus}`, 'info');
+        showMessage(`Query status updated to ${data.newStatus}`, 'info');
       }
     }
   }, [showMessage]);
@@ -306,7 +329,7 @@ const DoctorDashboard: React.FC<DoctorDashboardProps> = ({
     try {
       const result = await trustCareAPI.assignPatientToDoctor(patientId, currentDoctor.id);
       if (result.success) {
-        showMessage('Patient successfully assigned to your care!', 'success');
+        showMessage(t('messages.success.patientAssigned'), 'success');
         window.location.reload();
       } else {
         showMessage(`Error: ${result.error}`, 'error');
@@ -326,7 +349,7 @@ const DoctorDashboard: React.FC<DoctorDashboardProps> = ({
     try {
       const result = await trustCareAPI.unassignPatient(patientId, currentDoctor.id);
       if (result.success) {
-        showMessage('Patient unassigned successfully.', 'success');
+        showMessage(t('messages.success.patientUnassigned'), 'success');
         window.location.reload();
       } else {
         showMessage(`Error: ${result.error}`, 'error');
@@ -338,213 +361,19 @@ const DoctorDashboard: React.FC<DoctorDashboardProps> = ({
     }
   };
 
-  const renderTabContent = () => {
-    if (dataLoading) {
-      return (
-        <div className="flex justify-center py-8">
-          <LoadingSpinner message="Loading dashboard data..." />
-        </div>
-      );
-    }
-
-    switch (activeTab) {
-      case 'overview':
-        return (
-          <div className="space-y-6">
-            {/* Stats Cards */}
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
-              <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
-                <h3 className="text-sm font-medium text-blue-800">My Patients</h3>
-                <p className="text-2xl font-bold text-blue-900">{stats.totalPatients}</p>
-              </div>
-              <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
-                <h3 className="text-sm font-medium text-yellow-800">Active Queries</h3>
-                <p className="text-2xl font-bold text-yellow-900">{stats.activeQueries}</p>
-              </div>
-              <div className="bg-green-50 border border-green-200 rounded-lg p-4">
-                <h3 className="text-sm font-medium text-green-800">Completed</h3>
-                <p className="text-2xl font-bold text-green-900">{stats.completedQueries}</p>
-              </div>
-              <div className="bg-purple-50 border border-purple-200 rounded-lg p-4">
-                <h3 className="text-sm font-medium text-purple-800">Unassigned</h3>
-                <p className="text-2xl font-bold text-purple-900">{stats.unassignedCount}</p>
-              </div>
-            </div>
-
-            {/* Recent Activity */}
-            <div className="grid lg:grid-cols-2 gap-6">
-              <div className="bg-white border border-gray-200 rounded-lg p-4">
-                <h3 className="text-lg font-semibold text-gray-900 mb-4">Recent Patients</h3>
-                {myPatients.slice(0, 5).map((patient) => (
-                  <div key={patient.id} className="flex justify-between items-center py-2 border-b border-gray-100 last:border-b-0">
-                    <div>
-                      <p className="font-medium text-gray-900">{patient.name}</p>
-                      <p className="text-sm text-gray-500">{patient.condition}</p>
-                    </div>
-                    <span className={`px-2 py-1 rounded-full text-xs font-medium ${
-                      patient.isActive ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'
-                    }`}>
-                      {patient.isActive ? 'Active' : 'Inactive'}
-                    </span>
-                  </div>
-                ))}
-                {myPatients.length === 0 && (
-                  <p className="text-gray-500 text-center py-4">No patients assigned yet</p>
-                )}
-              </div>
-
-              <div className="bg-white border border-gray-200 rounded-lg p-4">
-                <h3 className="text-lg font-semibold text-gray-900 mb-4">Recent Queries</h3>
-                {myQueries.slice(0, 5).map((query) => (
-                  <div key={query.id} className="py-2 border-b border-gray-100 last:border-b-0">
-                    <div className="flex justify-between items-start">
-                      <div className="flex-1">
-                        <p className="font-medium text-gray-900 text-sm">{query.title}</p>
-                        <p className="text-xs text-gray-500 mt-1">Patient: {patientNameMap[query.patientId] || query.patientId}</p>
-                      </div>
-                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${
-                        formatQueryStatus(query.status) === 'Completed' 
-                          ? 'bg-green-100 text-green-800'
-                          : formatQueryStatus(query.status) === 'Under Review'
-                          ? 'bg-blue-100 text-blue-800'
-                          : 'bg-yellow-100 text-yellow-800'
-                      }`}>
-                        {formatQueryStatus(query.status)}
-                      </span>
-                    </div>
-                  </div>
-                ))}
-                {myQueries.length === 0 && (
-                  <p className="text-gray-500 text-center py-4">No queries yet</p>
-                )}
-              </div>
-            </div>
-          </div>
-        );
-
-      case 'patients':
-        return (
-          <div className="space-y-6">
-            <h3 className="text-lg font-semibold text-gray-900">
-              My Patients ({myPatients.length})
-            </h3>
-            {myPatients.length === 0 ? (
-              <div className="text-center py-8">
-                <p className="text-gray-500 mb-4">You don't have any assigned patients yet.</p>
-                <Button
-                  onClick={() => setActiveTab('assignments')}
-                  variant="primary"
-                >
-                  View Available Patients
-                </Button>
-              </div>
-            ) : (
-              <div className="grid gap-4">
-                {myPatients.map((patient) => (
-                  <PatientCard
-                    key={patient.id}
-                    patient={patient}
-                    onUnassign={() => handleUnassignPatient(patient.id)}
-                    loading={loading}
-                  />
-                ))}
-              </div>
-            )}
-          </div>
-        );
-
-      case 'queries':
-        return (
-          <div className="space-y-6">
-            <h3 className="text-lg font-semibold text-gray-900">
-              Medical Queries ({myQueries.length})
-            </h3>
-            {myQueries.length === 0 ? (
-              <p className="text-gray-500 text-center py-8">No queries from your patients yet.</p>
-            ) : (
-              <div className="space-y-4">
-                {myQueries.map((query) => (
-                  <QueryCard
-                    key={query.id}
-                    query={query}
-                    currentDoctor={currentDoctor}
-                    onUpdate={() => window.location.reload()}
-                    showMessage={showMessage}
-                    loading={loading}
-                    setLoading={setLoading}
-                    patientName={patientNameMap[query.patientId]}
-                  />
-                ))}
-              </div>
-            )}
-          </div>
-        );
-
-      case 'incoming':
-        const pendingQueries = myQueries.filter(q => formatQueryStatus(q.status) === 'Pending');
-        return (
-          <div className="space-y-6">
-            <div className="flex justify-between items-center">
-              <h3 className="text-lg font-semibold text-gray-900">
-                🔔 Incoming Queries ({pendingQueries.length})
-              </h3>
-              {pendingQueries.length > 0 && (
-                <div className="flex items-center gap-2 text-sm text-orange-600 bg-orange-50 px-3 py-1 rounded-full">
-                  <span>⚡ Requires Immediate Attention</span>
-                </div>
-              )}
-            </div>
-            
-            {pendingQueries.length === 0 ? (
-              <div className="text-center py-12">
-                <div className="text-4xl mb-4">🎉</div>
-                <p className="text-lg font-medium text-gray-900 mb-2">All caught up!</p>
-                <p className="text-gray-500">No pending queries at the moment.</p>
-              </div>
-            ) : (
-              <div className="space-y-4">
-                <div className="bg-orange-50 border border-orange-200 rounded-lg p-4 mb-4">
-                  <div className="flex items-start">
-                    <span className="text-orange-500 mr-3 mt-0.5">💡</span>
-                    <div>
-                      <p className="text-orange-800 text-sm font-medium">Quick Action Guide:</p>
-                      <p className="text-orange-700 text-sm mt-1">
-                        Click "Start Review" on any query to begin editing the AI-generated response. 
-                        The AI has already analyzed each query and provided a draft response for your review.
-                      </p>
-                    </div>
-                  </div>
-                </div>
-                
-                {pendingQueries.map((query) => (
-                  <QueryCard
-                    key={query.id}
-                    query={query}
-                    currentDoctor={currentDoctor}
-                    onUpdate={() => window.location.reload()}
-                    showMessage={showMessage}
-                    loading={loading}
-                    setLoading={setLoading}
-                    patientName={patientNameMap[query.patientId]}
-                  />
-                ))}
-              </div>
-            )}
-          </div>
-        );
-
-      case 'assignments':
-        return (
-          <UnassignedPatients
-            unassignedPatients={unassignedPatients}
-            onAssign={handleAssignPatient}
-            loading={loading}
-          />
-        );
-
-      default:
-        return null;
-    }
+  const outletContext: DoctorDashboardContext = {
+    currentDoctor,
+    myPatients,
+    unassignedPatients,
+    myQueries,
+    patientNameMap,
+    stats,
+    showMessage,
+    loading,
+    setLoading,
+    handleAssignPatient,
+    handleUnassignPatient,
+    refreshQueries
   };
 
   return (
@@ -555,21 +384,21 @@ const DoctorDashboard: React.FC<DoctorDashboardProps> = ({
           <div>
             <div className="flex items-center gap-3 mb-2">
               <h1 className="text-2xl font-bold text-gray-900">
-                👨‍⚕️ Dr. {currentDoctor.name}
+                {t('doctorDashboard.title', { name: currentDoctor.name })}
               </h1>
               {stats.pendingQueries > 0 && (
                 <div className="flex items-center gap-2 bg-orange-100 text-orange-800 px-3 py-1 rounded-full">
-                  <span className="text-sm font-medium">🔔 {stats.pendingQueries} Pending</span>
+                  <span className="text-sm font-medium">{t('doctorDashboard.pending', { count: stats.pendingQueries })}</span>
                 </div>
               )}
             </div>
             <p className="text-gray-600 mt-1">
-              Specialization: <span className="font-medium">{currentDoctor.specialization}</span>
+              {t('doctorDashboard.specialization')} <span className="font-medium">{currentDoctor.specialization}</span>
             </p>
             <div className="flex items-center space-x-4 text-sm text-gray-500 mt-1">
-              <span>Doctor ID: <span className="font-mono">{currentDoctor.id}</span></span>
+              <span>{t('doctorDashboard.doctorId')} <span className="font-mono">{currentDoctor.id}</span></span>
               {lastRefresh && (
-                <span>Last updated: {lastRefresh.toLocaleTimeString()}</span>
+                <span>{t('common.lastUpdated', { time: lastRefresh })}</span>
               )}
               {/* Connection Status Indicator */}
               <div className="flex items-center space-x-1">
@@ -583,14 +412,14 @@ const DoctorDashboard: React.FC<DoctorDashboardProps> = ({
                   connectionStatus.reconnecting ? 'text-yellow-600' : 
                   'text-red-600'
                 }`}>
-                  {wsConnected ? 'Live' : 
-                   connectionStatus.reconnecting ? 'Reconnecting...' : 
-                   'Offline'}
+                  {wsConnected ? t('common.live') : 
+                   connectionStatus.reconnecting ? t('common.reconnecting') : 
+                   t('common.offline')}
                 </span>
               </div>
               {realtimeUpdates > 0 && (
                 <span className="text-xs text-blue-600">
-                  {realtimeUpdates} real-time updates
+                  {t('doctorDashboard.realtimeUpdates', { count: realtimeUpdates })}
                 </span>
               )}
             </div>
@@ -602,13 +431,13 @@ const DoctorDashboard: React.FC<DoctorDashboardProps> = ({
               size="small"
               disabled={dataLoading}
             >
-              {dataLoading ? 'Refreshing...' : 'Refresh'}
+              {dataLoading ? t('common.refreshing') : t('common.refresh')}
             </Button>
             <Button
               variant="secondary"
               onClick={onLogout}
             >
-              Switch Account
+              {t('doctorDashboard.switchAccount')}
             </Button>
           </div>
         </div>
@@ -622,10 +451,10 @@ const DoctorDashboard: React.FC<DoctorDashboardProps> = ({
               <span className="text-red-500 text-lg">⚠️</span>
             </div>
             <div className="ml-3 flex-1">
-              <h3 className="text-sm font-medium text-red-800">Dashboard Error</h3>
+              <h3 className="text-sm font-medium text-red-800">{t('doctorDashboard.error')}</h3>
               <p className="text-sm text-red-700 mt-1">{error}</p>
               <p className="text-xs text-red-600 mt-1">
-                Some features may not work properly. Please try refreshing the dashboard.
+                {t('doctorDashboard.errorHint')}
               </p>
             </div>
             <Button
@@ -634,7 +463,7 @@ const DoctorDashboard: React.FC<DoctorDashboardProps> = ({
               variant="secondary"
               className="ml-3 text-red-700 border-red-300 hover:bg-red-100"
             >
-              Retry
+              {t('common.retry')}
             </Button>
           </div>
         </div>
@@ -645,38 +474,53 @@ const DoctorDashboard: React.FC<DoctorDashboardProps> = ({
         <div className="border-b border-gray-200">
           <nav className="-mb-px flex space-x-8 px-6">
             {[
-              { id: 'overview', label: '📊 Overview', count: null },
-              { id: 'incoming', label: '📥 Incoming Queries', count: stats.pendingQueries },
-              { id: 'patients', label: '👥 My Patients', count: stats.totalPatients },
-              { id: 'queries', label: '💬 All Queries', count: stats.activeQueries },
-              { id: 'assignments', label: '📋 Assignments', count: stats.unassignedCount }
+              { path: '/doctor', label: t('doctorDashboard.tab.overview'), count: null },
+              { path: '/doctor/incoming', label: t('doctorDashboard.tab.incoming'), count: stats.pendingQueries },
+              { path: '/doctor/patients', label: t('doctorDashboard.tab.patients'), count: stats.totalPatients },
+              { path: '/doctor/queries', label: t('doctorDashboard.tab.queries'), count: stats.activeQueries },
+              { path: '/doctor/assignments', label: t('doctorDashboard.tab.assignments'), count: stats.unassignedCount },
+              { path: '/doctor/interaction-rules', label: t('doctorDashboard.tab.interactionRules'), count: null },
+              { path: '/doctor/templates', label: t('doctorDashboard.tab.templates'), count: null },
+              { path: '/doctor/feedback', label: t('doctorDashboard.tab.feedback'), count: null }
             ].map((tab) => (
-              <button
-                key={tab.id}
-                onClick={() => setActiveTab(tab.id as any)}
-                className={`py-4 px-1 border-b-2 font-medium text-sm whitespace-nowrap ${
-                  activeTab === tab.id
+              <NavLink
+                key={tab.path}
+                to={tab.path}
+                end={tab.path === '/doctor'}
+                className={({ isActive }) => `py-4 px-1 border-b-2 font-medium text-sm whitespace-nowrap ${
+                  isActive
                     ? 'border-blue-500 text-blue-600'
                     : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
                 }`}
               >
-                {tab.label}
-                {tab.count !== null && tab.count > 0 && (
-                  <span className={`ml-2 px-2 py-1 rounded-full text-xs ${
-                    activeTab === tab.id
-                      ? 'bg-blue-100 text-blue-600'
-                      : 'bg-gray-100 text-gray-600'
-                  }`}>
-                    {tab.count}
-                  </span>
+                {({ isActive }) => (
+                  <>
+                    {tab.label}
+                    {tab.count !== null && tab.count > 0 && (
+                      <span className={`ml-2 px-2 py-1 rounded-full text-xs ${
+                        isActive
+                          ? 'bg-blue-100 text-blue-600'
+                          : 'bg-gray-100 text-gray-600'
+                      }`}>
+                        {tab.count}
+                      </span>
+                    )}
+                  </>
                 )}
-              </button>
+              </NavLink>
             ))}
           </nav>
         </div>
 
         <div className="p-6">
-          {renderTabContent()}
+          {/* Active view, addressed by the URL */}
+          {dataLoading ? (
+            <div className="flex justify-center py-8">
+              <LoadingSpinner message={t('doctorDashboard.loading')} />
+            </div>
+          ) : (
+            <Outlet context={outletContext} />
+          )}
         </div>
       </div>
     </div>
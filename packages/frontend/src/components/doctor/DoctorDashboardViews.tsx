@@ -0,0 +1,320 @@
+// Doctor Dashboard Views - Routed views rendered inside the doctor dashboard layout
+import React, { useEffect, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { EscalationEvent, MedicalQuery, Prescription, TriageUrgency } from '../../types';
+import Button from '../common/Button';
+import LoadingSpinner from '../common/LoadingSpinner';
+import PrescriptionView from '../common/PrescriptionView';
+import PatientCard from './PatientCard';
+import QueryCard from './QueryCard';
+import EscalationTimeline from './EscalationTimeline';
+import QueryAttachments from './QueryAttachments';
+import UnassignedPatients from './UnassignedPatients';
+import { useDoctorDashboard } from './DoctorDashboard';
+import { formatDate, formatQueryStatus } from '../../utils/formatters';
+import trustCareAPI from '../../api/trustcare';
+
+export const DoctorOverview: React.FC = () => {
+  const { currentDoctor, myPatients, myQueries, patientNameMap, stats } = useDoctorDashboard();
+  const [alerts, setAlerts] = useState<EscalationEvent[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    trustCareAPI.getEscalationAlerts(currentDoctor.id).then(result => {
+      if (!cancelled && result.success) setAlerts(result.data || []);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [currentDoctor.id, myQueries]);
+
+  return (
+    <div className="space-y-6">
+      {/* On-call escalation alerts */}
+      {alerts.length > 0 && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <h3 className="text-sm font-semibold text-red-800 mb-2">
+            🚨 You are on call for {alerts.length} escalated {alerts.length === 1 ? 'query' : 'queries'}
+          </h3>
+          <ul className="space-y-1">
+            {alerts.map(alert => (
+              <li key={alert.queryId} className="text-sm text-red-700">
+                <Link to={`/doctor/queries/${alert.queryId}`} className="font-medium underline hover:text-red-900">
+                  Query {alert.queryId}
+                </Link>
+                {' '}- still waiting for a doctor, escalated {formatDate(new Date(alert.timestamp))}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Stats Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+        <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+          <h3 className="text-sm font-medium text-blue-800">My Patients</h3>
+          <p className="text-2xl font-bold text-blue-900">{stats.totalPatients}</p>
+        </div>
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+          <h3 className="text-sm font-medium text-yellow-800">Active Queries</h3>
+          <p className="text-2xl font-bold text-yellow-900">{stats.activeQueries}</p>
+        </div>
+        <div className="bg-green-50 border border-green-200 rounded-lg p-4">
+          <h3 className="text-sm font-medium text-green-800">Completed</h3>
+          <p className="text-2xl font-bold text-green-900">{stats.completedQueries}</p>
+        </div>
+        <div className="bg-purple-50 border border-purple-200 rounded-lg p-4">
+          <h3 className="text-sm font-medium text-purple-800">Unassigned</h3>
+          <p className="text-2xl font-bold text-purple-900">{stats.unassignedCount}</p>
+        </div>
+      </div>
+
+      {/* Recent Activity */}
+      <div className="grid lg:grid-cols-2 gap-6">
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">Recent Patients</h3>
+          {myPatients.slice(0, 5).map((patient) => (
+            <div key={patient.id} className="flex justify-between items-center py-2 border-b border-gray-100 last:border-b-0">
+              <div>
+                <p className="font-medium text-gray-900">{patient.name}</p>
+                <p className="text-sm text-gray-500">{patient.condition}</p>
+              </div>
+              <span className={`px-2 py-1 rounded-full text-xs font-medium ${
+                patient.isActive ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'
+              }`}>
+                {patient.isActive ? 'Active' : 'Inactive'}
+              </span>
+            </div>
+          ))}
+          {myPatients.length === 0 && (
+            <p className="text-gray-500 text-center py-4">No patients assigned yet</p>
+          )}
+        </div>
+
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">Recent Queries</h3>
+          {myQueries.slice(0, 5).map((query) => (
+            <div key={query.id} className="py-2 border-b border-gray-100 last:border-b-0">
+              <div className="flex justify-between items-start">
+                <div className="flex-1">
+                  <Link
+                    to={`/doctor/queries/${query.id}`}
+                    className="font-medium text-gray-900 text-sm hover:text-blue-600"
+                  >
+                    {query.title}
+                  </Link>
+                  <p className="text-xs text-gray-500 mt-1">Patient: {patientNameMap[query.patientId] || query.patientId}</p>
+                </div>
+                <span className={`px-2 py-1 rounded-full text-xs font-medium ${
+                  formatQueryStatus(query.status) === 'Completed'
+                    ? 'bg-green-100 text-green-800'
+                    : formatQueryStatus(query.status) === 'Under Review'
+                    ? 'bg-blue-100 text-blue-800'
+                    : 'bg-yellow-100 text-yellow-800'
+                }`}>
+                  {formatQueryStatus(query.status)}
+                </span>
+              </div>
+            </div>
+          ))}
+          {myQueries.length === 0 && (
+            <p className="text-gray-500 text-center py-4">No queries yet</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export const DoctorPatients: React.FC = () => {
+  const { myPatients, handleUnassignPatient, loading, showMessage } = useDoctorDashboard();
+  const navigate = useNavigate();
+
+  return (
+    <div className="space-y-6">
+      <h3 className="text-lg font-semibold text-gray-900">
+        My Patients ({myPatients.length})
+      </h3>
+      {myPatients.length === 0 ? (
+        <div className="text-center py-8">
+          <p className="text-gray-500 mb-4">You don't have any assigned patients yet.</p>
+          <Button
+            onClick={() => navigate('/doctor/assignments')}
+            variant="primary"
+          >
+            View Available Patients
+          </Button>
+        </div>
+      ) : (
+        <div className="grid gap-4">
+          {myPatients.map((patient) => (
+            <PatientCard
+              key={patient.id}
+              patient={patient}
+              onUnassign={() => handleUnassignPatient(patient.id)}
+              loading={loading}
+              showMessage={showMessage}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const DoctorQueries: React.FC = () => {
+  const { myQueries, currentDoctor, patientNameMap, showMessage, loading, setLoading } = useDoctorDashboard();
+
+  return (
+    <div className="space-y-6">
+      <h3 className="text-lg font-semibold text-gray-900">
+        Medical Queries ({myQueries.length})
+      </h3>
+      {myQueries.length === 0 ? (
+        <p className="text-gray-500 text-center py-8">No queries from your patients yet.</p>
+      ) : (
+        <div className="space-y-4">
+          {myQueries.map((query) => (
+            <QueryCard
+              key={query.id}
+              query={query}
+              currentDoctor={currentDoctor}
+              onUpdate={() => window.location.reload()}
+              showMessage={showMessage}
+              loading={loading}
+              setLoading={setLoading}
+              patientName={patientNameMap[query.patientId]}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const DoctorAssignments: React.FC = () => {
+  const { unassignedPatients, handleAssignPatient, loading } = useDoctorDashboard();
+
+  return (
+    <UnassignedPatients
+      unassignedPatients={unassignedPatients}
+      onAssign={handleAssignPatient}
+      loading={loading}
+    />
+  );
+};
+
+export const DoctorQueryDetail: React.FC = () => {
+  const { queryId = '' } = useParams<{ queryId: string }>();
+  const { myQueries, currentDoctor, patientNameMap, showMessage, loading, setLoading } = useDoctorDashboard();
+  const [fetched, setFetched] = useState<MedicalQuery | null>(null);
+  const [lookupDone, setLookupDone] = useState(false);
+  const [urgency, setUrgency] = useState<TriageUrgency | undefined>(undefined);
+  const [prescription, setPrescription] = useState<Prescription | null>(null);
+
+  const listed = myQueries.find(q => q.id === queryId);
+
+  // Shared links usually point at a colleague's query, which isn't in this doctor's list
+  useEffect(() => {
+    if (listed) return;
+
+    let cancelled = false;
+    setLookupDone(false);
+    trustCareAPI.getQuery(queryId).then(result => {
+      if (cancelled) return;
+      setFetched(result.success ? result.data || null : null);
+      setLookupDone(true);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [queryId, listed]);
+
+  const query = listed || fetched;
+  const responded = !!query && !!query.response;
+
+  useEffect(() => {
+    if (!responded) return;
+
+    let cancelled = false;
+    trustCareAPI.getQueryPrescription(queryId).then(result => {
+      if (!cancelled && result.success) setPrescription(result.data || null);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [queryId, responded]);
+
+  // Urgency decides whether a query that hasn't escalated yet is on the escalation path
+  useEffect(() => {
+    if (!listed) return;
+
+    let cancelled = false;
+    trustCareAPI.getTriageAssessments(currentDoctor.id).then(result => {
+      if (cancelled || !result.success) return;
+      const assessment = (result.data || []).find(a => a.queryId === queryId);
+      setUrgency(assessment ? assessment.urgency : undefined);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [currentDoctor.id, queryId, listed]);
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      showMessage('Link copied - share it with a colleague to open this query', 'success');
+    } catch (error) {
+      showMessage('Could not copy the link. Copy it from the address bar instead.', 'warning');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <Link to="/doctor/queries" className="text-sm text-blue-600 hover:text-blue-800">
+          ← Back to All Queries
+        </Link>
+        {query && (
+          <Button size="small" variant="secondary" onClick={handleCopyLink}>
+            🔗 Copy Link
+          </Button>
+        )}
+      </div>
+
+      {query ? (
+        <>
+          <QueryCard
+            query={query}
+            currentDoctor={currentDoctor}
+            onUpdate={() => window.location.reload()}
+            showMessage={showMessage}
+            loading={loading}
+            setLoading={setLoading}
+            patientName={patientNameMap[query.patientId]}
+            defaultShowConversation
+          />
+          {prescription && (
+            <PrescriptionView
+              prescription={prescription}
+              patientName={patientNameMap[query.patientId] || query.patientId}
+              showInteractionOverride
+            />
+          )}
+          <QueryAttachments query={query} currentDoctor={currentDoctor} />
+          <EscalationTimeline query={query} urgency={urgency} />
+        </>
+      ) : !lookupDone ? (
+        <div className="flex justify-center py-8">
+          <LoadingSpinner message="Loading query..." />
+        </div>
+      ) : (
+        <div className="text-center py-12">
+          <div className="text-4xl mb-4">🔍</div>
+          <p className="text-lg font-medium text-gray-900 mb-2">Query not found</p>
+          <p className="text-gray-500">Check the link, or ask the colleague who shared it to copy it again.</p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,86 @@
+// Draft Versions Panel - Saved draft history with a diff against the AI original
+import React, { useMemo, useState } from 'react';
+import { DraftHistory, DraftVersion } from '../../types';
+import { diffWords } from '../../utils/textDiff';
+
+interface DraftVersionsPanelProps {
+  history: DraftHistory;
+  aiOriginal: string;
+  onRestore: (version: DraftVersion) => void;
+}
+
+const SEGMENT_CLASSES = {
+  equal: 'text-gray-800',
+  added: 'bg-green-100 text-green-900',
+  removed: 'bg-red-100 text-red-800 line-through'
+};
+
+const DraftVersionsPanel: React.FC<DraftVersionsPanelProps> = ({ history, aiOriginal, onRestore }) => {
+  const versions = useMemo(() => [...history.versions].reverse(), [history.versions]);
+  const [selectedVersion, setSelectedVersion] = useState<number | null>(null);
+
+  const selected = versions.find(version => version.version === selectedVersion) || versions[0];
+  const segments = useMemo(
+    () => (selected ? diffWords(aiOriginal, selected.text) : []),
+    [aiOriginal, selected]
+  );
+
+  if (!selected) return null;
+
+  return (
+    <div className="bg-white border rounded-lg p-4 space-y-3">
+      <h4 className="font-semibold text-gray-900">🗂️ Saved Drafts</h4>
+
+      <div className="flex flex-wrap gap-2">
+        {versions.map(version => (
+          <button
+            key={version.version}
+            onClick={() => setSelectedVersion(version.version)}
+            className={`px-3 py-1 rounded-md text-xs font-medium border ${
+              version.version === selected.version
+                ? 'bg-blue-50 text-blue-700 border-blue-300'
+                : 'bg-gray-50 text-gray-600 border-gray-300 hover:bg-gray-100'
+            }`}
+            title={new Date(version.savedAt).toLocaleString()}
+          >
+            v{version.version} {version.source === 'ai_regenerated' ? '🤖' : '✏️'}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex justify-between items-center text-xs text-gray-500">
+        <span>
+          Version {selected.version} · {selected.source === 'ai_regenerated' ? 'Regenerated by AI' : 'Saved by doctor'} ·{' '}
+          {new Date(selected.savedAt).toLocaleString()}
+        </span>
+        <button
+          onClick={() => onRestore(selected)}
+          className="text-blue-600 hover:text-blue-800 font-medium"
+        >
+          Restore into editor
+        </button>
+      </div>
+
+      {selected.instructions && (
+        <p className="text-xs text-gray-600 italic">Instructions: “{selected.instructions}”</p>
+      )}
+
+      <div>
+        <div className="flex gap-4 text-xs text-gray-500 mb-1">
+          <span>Compared with the original AI draft:</span>
+          <span className="bg-green-100 text-green-900 px-1 rounded">added</span>
+          <span className="bg-red-100 text-red-800 line-through px-1 rounded">removed</span>
+        </div>
+        <div className="border rounded p-3 text-sm whitespace-pre-wrap max-h-80 overflow-y-auto bg-gray-50">
+          {segments.map((segment, index) => (
+            <span key={index} className={SEGMENT_CLASSES[segment.type]}>
+              {segment.value}
+            </span>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DraftVersionsPanel;
@@ -0,0 +1,87 @@
+// Escalation Timeline Component - Steps taken, and still ahead, while a query waits for a doctor
+import React, { useEffect, useState } from 'react';
+import { EscalationEvent, EscalationPolicy, EscalationStep, MedicalQuery, TriageUrgency } from '../../types';
+import trustCareAPI from '../../api/trustcare';
+import { formatDate, formatQueryStatus } from '../../utils/formatters';
+import { ESCALATION_STEP_LABELS, upcomingEscalations } from '../../utils/escalation';
+import { queryCreatedAtMs } from '../../utils/triage';
+
+interface EscalationTimelineProps {
+  query: MedicalQuery;
+  urgency?: TriageUrgency; // Known for the doctor's own pending queries
+}
+
+const STEP_ICONS: Record<EscalationStep, string> = {
+  level_raised: '⚠️',
+  on_call_notified: '📟',
+  patient_guidance_sent: '🚑',
+  claimed: '✅'
+};
+
+const EscalationTimeline: React.FC<EscalationTimelineProps> = ({ query, urgency }) => {
+  const [events, setEvents] = useState<EscalationEvent[]>([]);
+  const [policy, setPolicy] = useState<EscalationPolicy | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([
+      trustCareAPI.getEscalationTimeline(query.id),
+      trustCareAPI.getEscalationPolicy()
+    ]).then(([timeline, policyResult]) => {
+      if (cancelled) return;
+      setEvents(timeline.success ? timeline.data || [] : []);
+      setPolicy(policyResult.success ? policyResult.data || null : null);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [query.id, query.status]);
+
+  const waiting = formatQueryStatus(query.status) === 'Pending';
+  const upcoming = policy && waiting ? upcomingEscalations(policy, events, queryCreatedAtMs(query), urgency) : [];
+  const now = Date.now();
+
+  if (events.length === 0 && upcoming.length === 0) return null;
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-4">
+      <h4 className="text-md font-semibold text-gray-900 mb-4">🚨 Escalation Timeline</h4>
+      <ol className="relative border-l border-gray-200 ml-2 space-y-4">
+        {events.map((event, index) => (
+          <li key={`${event.step}-${index}`} className="ml-4">
+            <span className="absolute -left-2.5 flex items-center justify-center w-5 h-5 text-xs bg-white">
+              {STEP_ICONS[event.step]}
+            </span>
+            <p className="text-sm font-medium text-gray-900">
+              {ESCALATION_STEP_LABELS[event.step]}
+              {event.step !== 'claimed' && (
+                <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-red-100 text-red-800">Level {event.level}</span>
+              )}
+            </p>
+            <p className="text-xs text-gray-500">{formatDate(new Date(event.timestamp))}</p>
+            <p className="text-sm text-gray-700 mt-1 whitespace-pre-wrap">{event.message}</p>
+            {event.notifiedDoctorIds.length > 0 && (
+              <p className="text-xs text-gray-500 mt-1">Notified: {event.notifiedDoctorIds.join(', ')}</p>
+            )}
+          </li>
+        ))}
+        {upcoming.map(planned => (
+          <li key={planned.step} className="ml-4 opacity-60">
+            <span className="absolute -left-2 w-4 h-4 rounded-full border-2 border-dashed border-gray-300 bg-white" />
+            <p className="text-sm font-medium text-gray-700">
+              {ESCALATION_STEP_LABELS[planned.step]}
+              <span className="ml-2 text-xs text-gray-500">Level {planned.level}</span>
+            </p>
+            <p className="text-xs text-gray-500">
+              {planned.dueAt > now
+                ? `Due ${formatDate(new Date(planned.dueAt))} unless a doctor takes the query`
+                : 'Due now - runs on the next escalation check'}
+            </p>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
+
+export default EscalationTimeline;
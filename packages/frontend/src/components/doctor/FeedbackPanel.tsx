@@ -0,0 +1,248 @@
+// Feedback Panel Component - Patient ratings of the doctor's answers, trends and low-rating follow-ups
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { FeedbackTask, QueryFeedback, RatingRollup, RatingSummary } from '../../types';
+import Button from '../common/Button';
+import LoadingSpinner from '../common/LoadingSpinner';
+import VitalTrendChart from '../common/VitalTrendChart';
+import { RatingStars } from '../patient/QueryRatingPrompt';
+import { useDoctorDashboard } from './DoctorDashboard';
+import trustCareAPI from '../../api/trustcare';
+import { formatters } from '../../utils/formatters';
+import {
+  RATING_LABELS,
+  TrendPeriod,
+  isLowRating,
+  ratingDistribution,
+  ratingTrend,
+  trendChartPoints
+} from '../../utils/feedback';
+
+const RECENT_COMMENTS = 5;
+
+const formatAverage = (summary?: RatingSummary) =>
+  summary && summary.ratingCount > 0 ? summary.averageRating.toFixed(2) : '—';
+
+const FeedbackPanel: React.FC = () => {
+  const { currentDoctor, patientNameMap, showMessage } = useDoctorDashboard();
+  const [feedback, setFeedback] = useState<QueryFeedback[]>([]);
+  const [tasks, setTasks] = useState<FeedbackTask[]>([]);
+  const [rollup, setRollup] = useState<RatingRollup | null>(null);
+  const [loaded, setLoaded] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [period, setPeriod] = useState<TrendPeriod>('week');
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([
+      trustCareAPI.getDoctorFeedback(currentDoctor.id),
+      trustCareAPI.getFeedbackTasks(currentDoctor.id),
+      trustCareAPI.getRatingRollup()
+    ]).then(([feedbackResult, tasksResult, rollupResult]) => {
+      if (cancelled) return;
+      if (feedbackResult.success) setFeedback(feedbackResult.data || []);
+      if (tasksResult.success) setTasks(tasksResult.data || []);
+      if (rollupResult.success) setRollup(rollupResult.data || null);
+      const failed = [feedbackResult, tasksResult, rollupResult].find(result => !result.success);
+      setLoadError(failed ? failed.error || 'Failed to load feedback' : null);
+      setLoaded(true);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [currentDoctor.id]);
+
+  const handleResolve = async (task: FeedbackTask) => {
+    const note = (notes[task.id] || '').trim();
+    if (!note) {
+      showMessage('Add a note on how you followed up', 'warning');
+      return;
+    }
+
+    setResolvingId(task.id);
+    const result = await trustCareAPI.resolveFeedbackTask(currentDoctor.id, task.id, note);
+    setResolvingId(null);
+    if (!result.success || !result.data) {
+      showMessage(result.error || 'Failed to resolve the follow-up', 'error');
+      return;
+    }
+    const resolved = result.data;
+    setTasks(prev => prev.map(existing => (existing.id === resolved.id ? resolved : existing)));
+    showMessage('Follow-up marked as done', 'success');
+  };
+
+  if (!loaded) {
+    return (
+      <div className="flex justify-center py-8">
+        <LoadingSpinner message="Loading feedback..." />
+      </div>
+    );
+  }
+
+  const ownSummary = rollup ? rollup.byDoctor.find(summary => summary.key === currentDoctor.id) : undefined;
+  const specialtySummary = rollup
+    ? rollup.bySpecialty.find(summary => summary.key === currentDoctor.specialization)
+    : undefined;
+  const distribution = ratingDistribution(feedback);
+  const largestBucket = Math.max(1, ...distribution);
+  const openTasks = tasks.filter(task => task.status === 'open');
+  const resolvedTasks = tasks.filter(task => task.status === 'resolved');
+  const comments = feedback.filter(item => item.comment).slice(0, RECENT_COMMENTS);
+  const patientName = (patientId: string) => patientNameMap[patientId] || patientId;
+
+  return (
+    <div className="space-y-6">
+      {loadError && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-sm text-red-700">{loadError}</div>
+      )}
+
+      {/* Averages */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        {[
+          { label: 'Your average', summary: ownSummary, detail: `${feedback.length} ratings` },
+          {
+            label: `${currentDoctor.specialization} average`,
+            summary: specialtySummary,
+            detail: `${specialtySummary ? specialtySummary.ratingCount : 0} ratings`
+          },
+          {
+            label: 'Platform average',
+            summary: rollup ? rollup.overall : undefined,
+            detail: `${rollup ? rollup.overall.ratingCount : 0} ratings`
+          }
+        ].map(card => (
+          <div key={card.label} className="bg-white rounded-lg shadow-md p-6">
+            <p className="text-sm font-medium text-gray-600">{card.label}</p>
+            <p className="text-2xl font-bold text-gray-900">
+              {formatAverage(card.summary)}
+              <span className="text-sm font-normal text-gray-500"> / 5</span>
+            </p>
+            <p className="text-xs text-gray-500">{card.detail}</p>
+          </div>
+        ))}
+      </div>
+
+      {/* Trend and distribution */}
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <div className="flex flex-wrap justify-between items-center gap-4 mb-4">
+          <h3 className="text-lg font-medium text-gray-900">⭐ Rating Trend</h3>
+          <div className="flex gap-2">
+            {(['week', 'month'] as TrendPeriod[]).map(option => (
+              <Button
+                key={option}
+                size="small"
+                variant={period === option ? 'primary' : 'secondary'}
+                onClick={() => setPeriod(option)}
+              >
+                {option === 'week' ? 'Weekly' : 'Monthly'}
+              </Button>
+            ))}
+          </div>
+        </div>
+        <div className="grid md:grid-cols-2 gap-6">
+          <VitalTrendChart
+            series={[{
+              label: 'Average rating',
+              color: '#eab308',
+              points: trendChartPoints(ratingTrend(feedback, period)),
+              range: { min: 3, max: 5 }
+            }]}
+            unit="★"
+          />
+          <div className="space-y-1">
+            {distribution.map((count, index) => ({ stars: index + 1, count })).reverse().map(({ stars, count }) => (
+              <div key={stars} className="flex items-center gap-2 text-sm">
+                <span className="w-24 text-gray-600">{stars}★ {RATING_LABELS[stars]}</span>
+                <div className="flex-1 bg-gray-100 rounded h-3">
+                  <div
+                    className={`h-3 rounded ${isLowRating(stars) ? 'bg-red-400' : 'bg-yellow-400'}`}
+                    style={{ width: `${(count / largestBucket) * 100}%` }}
+                  />
+                </div>
+                <span className="w-8 text-right text-gray-700">{count}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* Follow-ups opened by low ratings */}
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <h3 className="text-lg font-medium text-gray-900 mb-1">📌 Follow-ups</h3>
+        <p className="text-sm text-gray-500 mb-4">
+          Opened automatically when a patient rates an answer {RATING_LABELS[2].toLowerCase()} or lower.
+        </p>
+        {openTasks.length === 0 ? (
+          <p className="text-sm text-gray-500">No open follow-ups.</p>
+        ) : (
+          <div className="space-y-4">
+            {openTasks.map(task => (
+              <div key={task.id} className="border border-red-200 bg-red-50 rounded-lg p-4">
+                <div className="flex flex-wrap items-center gap-3 text-sm">
+                  <RatingStars rating={task.rating} />
+                  <span className="font-medium text-gray-900">{patientName(task.patientId)}</span>
+                  <Link to={`/doctor/queries/${task.queryId}`} className="text-blue-600 hover:text-blue-800">
+                    View query
+                  </Link>
+                  <span className="text-xs text-gray-500">{formatters.formatDate(new Date(task.createdAt))}</span>
+                </div>
+                {task.comment && <p className="text-sm text-gray-700 mt-2 italic">"{task.comment}"</p>}
+                <div className="flex gap-2 mt-3">
+                  <input
+                    value={notes[task.id] || ''}
+                    onChange={(e) => setNotes({ ...notes, [task.id]: e.target.value })}
+                    placeholder="How did you follow up?"
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <Button size="small" loading={resolvingId === task.id} onClick={() => handleResolve(task)}>
+                    Mark Done
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+        {resolvedTasks.length > 0 && (
+          <details className="mt-4 text-sm">
+            <summary className="cursor-pointer text-gray-600">{resolvedTasks.length} resolved</summary>
+            <ul className="mt-2 space-y-2">
+              {resolvedTasks.map(task => (
+                <li key={task.id} className="text-gray-700">
+                  <RatingStars rating={task.rating} /> {patientName(task.patientId)}: {task.resolutionNote}
+                  {task.resolvedAt && (
+                    <span className="text-xs text-gray-500"> ({formatters.formatDate(new Date(task.resolvedAt))})</span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </details>
+        )}
+      </div>
+
+      {/* Recent comments */}
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <h3 className="text-lg font-medium text-gray-900 mb-4">💬 Recent Comments</h3>
+        {comments.length === 0 ? (
+          <p className="text-sm text-gray-500">No comments yet.</p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {comments.map(item => (
+              <li key={item.queryId} className="py-3 text-sm">
+                <div className="flex items-center gap-3">
+                  <RatingStars rating={item.rating} />
+                  <span className="text-gray-900">{patientName(item.patientId)}</span>
+                  <span className="text-xs text-gray-500">{formatters.formatDate(new Date(item.submittedAt))}</span>
+                </div>
+                <p className="text-gray-700 mt-1">{item.comment}</p>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FeedbackPanel;
@@ -0,0 +1,87 @@
+// Glucose Summary Card Component - Two-week glucose overview for a patient's card on the doctor dashboard
+import React, { useEffect, useState } from 'react';
+import { GlucoseLogEntry } from '../../types';
+import trustCareAPI from '../../api/trustcare';
+import { MEAL_CONTEXT_LABELS, summarizeGlucoseLog } from '../../utils/glucoseStats';
+
+interface GlucoseSummaryCardProps {
+  patientId: string;
+  days?: number;
+}
+
+const GlucoseSummaryCard: React.FC<GlucoseSummaryCardProps> = ({ patientId, days = 14 }) => {
+  const [entries, setEntries] = useState<GlucoseLogEntry[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    trustCareAPI.getGlucoseLog(patientId).then(result => {
+      if (!cancelled) setEntries(result.success ? result.data || [] : []);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [patientId]);
+
+  // Patients who don't keep a log get no card
+  if (!entries || entries.length === 0) return null;
+
+  const summary = summarizeGlucoseLog(entries, days);
+  const lowPercent = summary.timeInRange ? summary.timeInRange.low + summary.timeInRange.very_low : 0;
+  const highPercent = summary.timeInRange ? summary.timeInRange.high + summary.timeInRange.very_high : 0;
+
+  return (
+    <div className="mt-3 p-3 bg-gray-50 border border-gray-200 rounded-md text-sm">
+      <div className="flex justify-between items-center mb-2">
+        <span className="font-medium text-gray-800">🩸 Glucose, last {days} days</span>
+        {lowPercent > 0 && (
+          <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+            Lows {lowPercent}%
+          </span>
+        )}
+      </div>
+
+      {summary.readingCount === 0 ? (
+        <p className="text-gray-500">No readings logged in this period.</p>
+      ) : (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+          <div>
+            <p className="text-xs text-gray-500">Average</p>
+            <p className="font-semibold text-gray-900">{summary.averageGlucose} mg/dL</p>
+          </div>
+          <div>
+            <p className="text-xs text-gray-500">Time in range</p>
+            <p className={`font-semibold ${summary.timeInRange!.in_range >= 70 ? 'text-green-700' : 'text-yellow-700'}`}>
+              {summary.timeInRange!.in_range}%
+            </p>
+          </div>
+          <div>
+            <p className="text-xs text-gray-500">Above range</p>
+            <p className="font-semibold text-gray-900">{highPercent}%</p>
+          </div>
+          <div>
+            <p className="text-xs text-gray-500">Est. HbA1c</p>
+            <p className="font-semibold text-gray-900">{summary.estimatedHbA1c?.toFixed(1)}%</p>
+          </div>
+        </div>
+      )}
+
+      <div className="mt-2 text-xs text-gray-600 space-y-0.5">
+        {summary.latestReading && (
+          <p>
+            Latest: {summary.latestReading.value} mg/dL
+            {summary.latestReading.mealContext && ` (${MEAL_CONTEXT_LABELS[summary.latestReading.mealContext].toLowerCase()})`}
+            {' '}on {new Date(summary.latestReading.recordedAt).toLocaleString()}
+          </p>
+        )}
+        {summary.latestHbA1c && (
+          <p>
+            Lab HbA1c: {summary.latestHbA1c.value}% on {new Date(summary.latestHbA1c.recordedAt).toLocaleDateString()}
+          </p>
+        )}
+        {summary.insulinUnitsPerDay !== undefined && <p>Insulin: {summary.insulinUnitsPerDay} units/day</p>}
+      </div>
+    </div>
+  );
+};
+
+export default GlucoseSummaryCard;
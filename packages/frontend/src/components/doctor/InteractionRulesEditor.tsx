@@ -0,0 +1,248 @@
+// Interaction Rules Editor Component - Review and edit the drug interaction ruleset used when prescribing
+import React, { useState } from 'react';
+import { InteractionSeverity } from '../../types';
+import Button from '../common/Button';
+import { SEVERITY_STYLES } from './InteractionWarnings';
+import { useDoctorDashboard } from './DoctorDashboard';
+import { INTERACTION_SEVERITIES } from '../../services/candidAdapter';
+import {
+  INTERACTION_SEVERITY_LABELS,
+  InteractionRule,
+  InteractionRuleKind,
+  loadInteractionRules,
+  resetInteractionRules,
+  saveInteractionRules,
+  validateInteractionRule
+} from '../../utils/drugInteractions';
+
+interface RuleForm {
+  id: string;
+  kind: InteractionRuleKind;
+  severity: InteractionSeverity;
+  drugs: string;
+  interactsWith: string;
+  description: string;
+}
+
+const emptyForm = (): RuleForm => ({
+  id: '',
+  kind: 'drug_drug',
+  severity: 'moderate',
+  drugs: '',
+  interactsWith: '',
+  description: ''
+});
+
+const splitTerms = (text: string) => text.split(',').map(term => term.trim()).filter(term => term);
+
+const KIND_LABELS: Record<InteractionRuleKind, string> = {
+  drug_drug: 'Drug-drug',
+  drug_allergy: 'Drug-allergy'
+};
+
+const InteractionRulesEditor: React.FC = () => {
+  const { showMessage } = useDoctorDashboard();
+  const [rules, setRules] = useState<InteractionRule[]>(loadInteractionRules);
+  const [form, setForm] = useState<RuleForm>(emptyForm);
+  // ID of the rule being edited; null while adding a new one
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [filter, setFilter] = useState('');
+
+  const persist = (next: InteractionRule[]) => {
+    saveInteractionRules(next);
+    setRules(next);
+  };
+
+  const handleEdit = (rule: InteractionRule) => {
+    setEditingId(rule.id);
+    setFormError(null);
+    setForm({
+      id: rule.id,
+      kind: rule.kind,
+      severity: rule.severity,
+      drugs: rule.drugs.join(', '),
+      interactsWith: rule.interactsWith.join(', '),
+      description: rule.description
+    });
+  };
+
+  const handleCancel = () => {
+    setEditingId(null);
+    setFormError(null);
+    setForm(emptyForm());
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const rule: InteractionRule = {
+      id: form.id.trim(),
+      kind: form.kind,
+      severity: form.severity,
+      drugs: splitTerms(form.drugs),
+      interactsWith: splitTerms(form.interactsWith),
+      description: form.description.trim()
+    };
+    const others = rules.filter(existing => existing.id !== editingId);
+    const error = validateInteractionRule(rule, others);
+    if (error) {
+      setFormError(error);
+      return;
+    }
+
+    persist(editingId ? rules.map(existing => (existing.id === editingId ? rule : existing)) : rules.concat([rule]));
+    showMessage(editingId ? `Rule ${rule.id} updated` : `Rule ${rule.id} added`, 'success');
+    handleCancel();
+  };
+
+  const handleDelete = (rule: InteractionRule) => {
+    if (!window.confirm(`Delete the rule ${rule.id}? Prescriptions will no longer be checked against it.`)) return;
+    persist(rules.filter(existing => existing.id !== rule.id));
+    if (editingId === rule.id) handleCancel();
+  };
+
+  const handleReset = () => {
+    if (!window.confirm('Replace your rules with the bundled ruleset? Your edits will be lost.')) return;
+    setRules(resetInteractionRules());
+    handleCancel();
+    showMessage('Interaction rules reset to the bundled ruleset', 'info');
+  };
+
+  const needle = filter.trim().toLowerCase();
+  const visible = needle
+    ? rules.filter(rule =>
+        rule.id.indexOf(needle) !== -1 ||
+        rule.drugs.concat(rule.interactsWith).some(term => term.toLowerCase().indexOf(needle) !== -1)
+      )
+    : rules;
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <div className="flex flex-wrap justify-between items-start gap-4 mb-4">
+          <div>
+            <h3 className="text-lg font-medium text-gray-900">💊 Interaction Rules</h3>
+            <p className="text-sm text-gray-500">
+              Checked against the patient's medications and allergies whenever you prescribe. Rules are saved in this browser.
+            </p>
+          </div>
+          <Button size="small" variant="secondary" onClick={handleReset}>
+            Reset to bundled rules
+          </Button>
+        </div>
+
+        <input
+          type="search"
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          placeholder="Filter by drug or rule ID..."
+          className={`${inputClass} mb-4`}
+        />
+
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500 uppercase border-b">
+                <th className="px-3 py-2">Rule</th>
+                <th className="px-3 py-2">Severity</th>
+                <th className="px-3 py-2">Drugs</th>
+                <th className="px-3 py-2">Interacts with</th>
+                <th className="px-3 py-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {visible.map(rule => (
+                <tr key={rule.id} className="border-b border-gray-100 align-top">
+                  <td className="px-3 py-2">
+                    <p className="font-mono text-xs text-gray-900">{rule.id}</p>
+                    <p className="text-xs text-gray-500">{KIND_LABELS[rule.kind]}</p>
+                    <p className="text-xs text-gray-600 mt-1 max-w-xs">{rule.description}</p>
+                  </td>
+                  <td className="px-3 py-2">
+                    <span className={`px-2 py-0.5 rounded text-xs font-medium ${SEVERITY_STYLES[rule.severity]}`}>
+                      {INTERACTION_SEVERITY_LABELS[rule.severity]}
+                    </span>
+                  </td>
+                  <td className="px-3 py-2 text-gray-700">{rule.drugs.join(', ')}</td>
+                  <td className="px-3 py-2 text-gray-700">{rule.interactsWith.join(', ')}</td>
+                  <td className="px-3 py-2 whitespace-nowrap">
+                    <button type="button" onClick={() => handleEdit(rule)} className="text-blue-600 hover:text-blue-800 text-xs mr-3">
+                      Edit
+                    </button>
+                    <button type="button" onClick={() => handleDelete(rule)} className="text-red-600 hover:text-red-800 text-xs">
+                      Delete
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {visible.length === 0 && <p className="text-sm text-gray-500 py-4 text-center">No rules match.</p>}
+        </div>
+      </div>
+
+      <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-md p-6 space-y-3">
+        <h4 className="font-medium text-gray-900">{editingId ? `Edit ${editingId}` : 'Add a rule'}</h4>
+        <div className="grid md:grid-cols-3 gap-3">
+          <input
+            value={form.id}
+            onChange={(e) => setForm({ ...form, id: e.target.value })}
+            placeholder="Rule ID (e.g., metformin_alcohol)"
+            className={inputClass}
+          />
+          <select
+            value={form.kind}
+            onChange={(e) => setForm({ ...form, kind: e.target.value as InteractionRuleKind })}
+            className={inputClass}
+          >
+            <option value="drug_drug">{KIND_LABELS.drug_drug}</option>
+            <option value="drug_allergy">{KIND_LABELS.drug_allergy}</option>
+          </select>
+          <select
+            value={form.severity}
+            onChange={(e) => setForm({ ...form, severity: e.target.value as InteractionSeverity })}
+            className={inputClass}
+          >
+            {INTERACTION_SEVERITIES.map(severity => (
+              <option key={severity} value={severity}>{INTERACTION_SEVERITY_LABELS[severity]}</option>
+            ))}
+          </select>
+        </div>
+        <input
+          value={form.drugs}
+          onChange={(e) => setForm({ ...form, drugs: e.target.value })}
+          placeholder="Drugs, comma separated"
+          className={inputClass}
+        />
+        <input
+          value={form.interactsWith}
+          onChange={(e) => setForm({ ...form, interactsWith: e.target.value })}
+          placeholder={form.kind === 'drug_allergy' ? 'Allergy terms, comma separated' : 'Interacting drugs, comma separated'}
+          className={inputClass}
+        />
+        <textarea
+          value={form.description}
+          onChange={(e) => setForm({ ...form, description: e.target.value })}
+          placeholder="Risk and advice shown to the prescriber"
+          rows={2}
+          className={inputClass}
+        />
+        {formError && <p className="text-sm text-red-600">{formError}</p>}
+        <div className="flex justify-end gap-2">
+          {editingId && (
+            <Button type="button" size="small" variant="secondary" onClick={handleCancel}>
+              Cancel
+            </Button>
+          )}
+          <Button type="submit" size="small">
+            {editingId ? 'Save Rule' : 'Add Rule'}
+          </Button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default InteractionRulesEditor;
@@ -0,0 +1,43 @@
+// Interaction Warnings Component - Drug-drug and drug-allergy warnings from the doctor's interaction ruleset
+import React from 'react';
+import { InteractionSeverity } from '../../types';
+import {
+  INTERACTION_SEVERITY_LABELS,
+  InteractionWarning,
+  warningSummary
+} from '../../utils/drugInteractions';
+
+interface InteractionWarningsProps {
+  warnings: InteractionWarning[];
+  title?: string;
+}
+
+export const SEVERITY_STYLES: Record<InteractionSeverity, string> = {
+  minor: 'bg-gray-100 text-gray-700',
+  moderate: 'bg-yellow-100 text-yellow-800',
+  major: 'bg-orange-100 text-orange-800',
+  contraindicated: 'bg-red-100 text-red-800'
+};
+
+const InteractionWarnings: React.FC<InteractionWarningsProps> = ({ warnings, title = 'Interaction warnings' }) => {
+  if (warnings.length === 0) return null;
+
+  return (
+    <div className="border border-orange-200 bg-orange-50 rounded-lg p-3" role="alert">
+      <p className="text-sm font-semibold text-orange-900 mb-2">⚠️ {title}</p>
+      <ul className="space-y-2">
+        {warnings.map((warning, index) => (
+          <li key={`${warning.ruleId}_${index}`} className="text-sm">
+            <span className={`mr-2 px-2 py-0.5 rounded text-xs font-medium ${SEVERITY_STYLES[warning.severity]}`}>
+              {INTERACTION_SEVERITY_LABELS[warning.severity]}
+            </span>
+            <span className="font-medium text-gray-900">{warningSummary(warning)}</span>
+            <p className="text-xs text-gray-700 mt-0.5">{warning.description}</p>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default InteractionWarnings;
@@ -1,9 +1,11 @@
 // Patient Card Component for Doctor Dashboard
-import React from 'react';
-import { Patient } from '../../types';
+import React, { useState } from 'react';
+import { BaseComponentProps, Patient } from '../../types';
 import Button from '../common/Button';
+import VitalSignsTrends from '../common/VitalSignsTrends';
+import GlucoseSummaryCard from './GlucoseSummaryCard';
 
-interface PatientCardProps {
+interface PatientCardProps extends BaseComponentProps {
   patient: Patient;
   onUnassign: () => void;
   loading: boolean;
@@ -12,8 +14,11 @@ interface PatientCardProps {
 const PatientCard: React.FC<PatientCardProps> = ({
   patient,
   onUnassign,
-  loading
+  loading,
+  showMessage
 }) => {
+  const [showVitals, setShowVitals] = useState(false);
+
   return (
     <div className="border border-gray-200 rounded-lg p-4 hover:shadow-md transition-shadow">
       <div className="flex justify-between items-start">
@@ -51,9 +56,18 @@ const PatientCard: React.FC<PatientCardProps> = ({
               {patient.isActive ? 'Currently receiving care' : 'Inactive patient'}
             </div>
           </div>
+
+          <GlucoseSummaryCard patientId={patient.id} />
         </div>
 
         <div className="flex flex-col gap-2 ml-4">
+          <Button
+            variant="secondary"
+            size="small"
+            onClick={() => setShowVitals(!showVitals)}
+          >
+            {showVitals ? 'Hide Vitals' : '📈 Vitals'}
+          </Button>
           <Button
             variant="danger"
             size="small"
@@ -64,6 +78,12 @@ const PatientCard: React.FC<PatientCardProps> = ({
           </Button>
         </div>
       </div>
+
+      {showVitals && (
+        <div className="mt-4 pt-4 border-t border-gray-200">
+          <VitalSignsTrends patientId={patient.id} compact showMessage={showMessage} />
+        </div>
+      )}
     </div>
   );
 };
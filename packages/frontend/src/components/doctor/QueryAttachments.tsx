@@ -0,0 +1,52 @@
+// Query Attachments Component - Files the patient attached, readable only by the doctor assigned to the query
+import React, { useEffect, useState } from 'react';
+import { Doctor, MedicalQuery, QueryAttachment } from '../../types';
+import AttachmentList from '../common/AttachmentList';
+import trustCareAPI from '../../api/trustcare';
+
+interface QueryAttachmentsProps {
+  query: MedicalQuery;
+  currentDoctor: Doctor;
+}
+
+const QueryAttachments: React.FC<QueryAttachmentsProps> = ({ query, currentDoctor }) => {
+  const [attachments, setAttachments] = useState<QueryAttachment[]>([]);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const assignedToMe = query.doctorId === currentDoctor.id;
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoadError(null);
+    trustCareAPI.getQueryAttachments(query.id).then(result => {
+      if (cancelled) return;
+      if (result.success) {
+        setAttachments(result.data || []);
+      } else {
+        setLoadError(result.error || 'Unknown error');
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+    // Access moves with the query, so reload when it changes hands
+  }, [query.id, query.doctorId]);
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-4">
+      <h4 className="text-md font-semibold text-gray-900 mb-4">📎 Attachments</h4>
+      {loadError ? (
+        <p className="text-sm text-red-600">Could not load attachments: {loadError}</p>
+      ) : (
+        <AttachmentList
+          attachments={attachments}
+          source={trustCareAPI}
+          emptyMessage={assignedToMe
+            ? 'The patient has not attached any files.'
+            : 'Attachments are only visible to the doctor assigned to this query. Take the query to see them.'}
+        />
+      )}
+    </div>
+  );
+};
+
+export default QueryAttachments;
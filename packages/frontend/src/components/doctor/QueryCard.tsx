@@ -1,12 +1,19 @@
 // Query Card Component for Doctor Dashboard
-import React, { useState } from 'react';
-import { MedicalQuery, Doctor } from '../../types';
+import React, { useState, useEffect, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { MedicalQuery, Doctor, AIAnalysis } from '../../types';
 import Button from '../common/Button';
 import FormField from '../common/FormField';
 import ClinicalResponseDisplay from './ClinicalResponseDisplay';
+import QueryConversation from './QueryConversation';
+import InteractionWarnings from './InteractionWarnings';
+import TemplatePicker from './TemplatePicker';
 import { formatQueryStatus, formatTimestamp } from '../../utils/formatters';
 import { UI_MESSAGES } from '../../constants';
+import { useTranslation } from '../../contexts/LanguageContext';
 import trustCareAPI from '../../api/trustcare';
+import { useInteractionContext } from '../../hooks/useInteractionContext';
+import { checkDraftText, loadInteractionRules, requiresOverride } from '../../utils/drugInteractions';
 
 interface QueryCardProps {
   query: MedicalQuery;
@@ -16,6 +23,7 @@ interface QueryCardProps {
   loading: boolean;
   setLoading: (loading: boolean) => void;
   patientName?: string;
+  defaultShowConversation?: boolean;
 }
 
 const QueryCard: React.FC<QueryCardProps> = ({
@@ -25,19 +33,53 @@ const QueryCard: React.FC<QueryCardProps> = ({
   showMessage,
   loading,
   setLoading,
-  patientName
+  patientName,
+  defaultShowConversation = false
 }) => {
+  const { t } = useTranslation();
   const [responseForm, setResponseForm] = useState({ response: '' });
   const [showResponse, setShowResponse] = useState(false);
+  const [showConversation, setShowConversation] = useState(defaultShowConversation);
+  const [showAnalysis, setShowAnalysis] = useState(false);
+  const [aiAnalysis, setAiAnalysis] = useState<AIAnalysis | null | undefined>(undefined); // undefined until loaded
 
   const status = formatQueryStatus(query.status);
 
+  // Drafts still awaiting a doctor are checked against the patient's medications and allergies
+  const checkDraft = !!query.aiDraftResponse && status !== 'Completed';
+  const interactionContext = useInteractionContext(checkDraft ? query.patientId : null);
+  const draftWarnings = useMemo(
+    () => interactionContext && query.aiDraftResponse
+      ? checkDraftText(query.aiDraftResponse, interactionContext, loadInteractionRules())
+      : [],
+    [query.aiDraftResponse, interactionContext]
+  );
+
+  // Structured analysis only exists for enhanced queries; legacy ones fall back to parsing the draft.
+  // Every read of the query is audited, so it is loaded once, when the doctor first opens it.
+  useEffect(() => {
+    let cancelled = false;
+    if (!showAnalysis || aiAnalysis !== undefined || !query.aiDraftResponse) return;
+
+    trustCareAPI.getEnhancedQuery(query.id)
+      .then(result => {
+        if (!cancelled && result.success) {
+          setAiAnalysis(result.data?.aiAnalysis || null);
+        }
+      })
+      .catch(error => console.error('Error loading AI analysis:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [showAnalysis, aiAnalysis, query.id, query.aiDraftResponse]);
+
   const handleTakeQuery = async () => {
     setLoading(true);
     try {
       const result = await trustCareAPI.takeQuery(query.id, currentDoctor.id);
       if (result.success) {
-        showMessage(UI_MESSAGES.SUCCESS.QUERY_TAKEN, 'success');
+        showMessage(t(UI_MESSAGES.SUCCESS.QUERY_TAKEN), 'success');
         onUpdate();
       } else {
         showMessage(`Error: ${result.error}`, 'error');
@@ -63,7 +105,7 @@ const QueryCard: React.FC<QueryCardProps> = ({
       );
       
       if (result.success) {
-        showMessage(UI_MESSAGES.SUCCESS.RESPONSE_SUBMITTED, 'success');
+        showMessage(t(UI_MESSAGES.SUCCESS.RESPONSE_SUBMITTED), 'success');
         setResponseForm({ response: '' });
         setShowResponse(false);
         onUpdate();
@@ -78,6 +120,10 @@ const QueryCard: React.FC<QueryCardProps> = ({
   };
 
   const handleApproveAndSend = async () => {
+    if (requiresOverride(draftWarnings) &&
+        !window.confirm('The AI draft suggests drugs that conflict with this patient\'s medications or allergies. Send it anyway?')) {
+      return;
+    }
     if (query.aiDraftResponse && query.status === 'doctor_review') {
       // Directly submit the AI draft response
       await handleRespondToQuery(undefined, query.aiDraftResponse);
@@ -125,7 +171,11 @@ const QueryCard: React.FC<QueryCardProps> = ({
       {/* Query Header */}
       <div className="flex justify-between items-start mb-3">
         <div className="flex-1">
-          <h4 className="font-semibold text-gray-900 mb-1">{query.title}</h4>
+          <h4 className="font-semibold text-gray-900 mb-1">
+            <Link to={`/doctor/queries/${query.id}`} className="hover:text-blue-600">
+              {query.title}
+            </Link>
+          </h4>
           <div className="flex flex-wrap items-center gap-4 text-sm text-gray-600">
             <span>Patient: <span className="font-medium text-gray-900">{patientName || query.patientId}</span></span>
             <span>Created: {formatTimestamp(query.createdAt)}</span>
@@ -164,10 +214,31 @@ const QueryCard: React.FC<QueryCardProps> = ({
           {/* Clinical Decision Support Response */}
           {query.aiDraftResponse && (
             <div className="space-y-3">
+              <InteractionWarnings
+                warnings={draftWarnings}
+                title="The AI draft suggests drugs that conflict with this patient's record"
+              />
+              <div>
+                <button
+                  type="button"
+                  onClick={() => setShowAnalysis(!showAnalysis)}
+                  className="flex items-center gap-2 text-sm font-medium text-gray-800 hover:text-blue-600"
+                >
+                  <span>🧠 Structured AI analysis</span>
+                  <span className="text-xs text-gray-500">{showAnalysis ? '▲ Hide' : '▼ Show'}</span>
+                </button>
+                {showAnalysis && aiAnalysis === null && (
+                  <p className="mt-1 text-xs text-gray-500">No structured analysis is available for this query.</p>
+                )}
+              </div>
               <ClinicalResponseDisplay
                 rawResponse={query.aiDraftResponse}
+                aiAnalysis={showAnalysis && aiAnalysis ? aiAnalysis : undefined}
                 patientId={query.patientId}
                 queryId={query.id}
+                doctorId={currentDoctor.id}
+                queryText={`${query.title}\n\n${query.description}`}
+                showMessage={showMessage}
                 onEditResponse={(editedResponse) => {
                   setResponseForm({ response: editedResponse });
                   setShowResponse(true);
@@ -177,6 +248,10 @@ const QueryCard: React.FC<QueryCardProps> = ({
                   console.log(`Clinical action ordered: ${action} for patient ${query.patientId}`);
                   showMessage(`Action "${action}" has been noted in the clinical workflow`, 'info');
                 }}
+                onReferToSpecialty={(specialty) => {
+                  const name = specialty.kind === 'other' ? specialty.label : specialty.kind.replace(/_/g, ' ');
+                  showMessage(`Referral to ${name} has been noted in the clinical workflow`, 'info');
+                }}
               />
               {status === 'Pending' && (
                 <div className="text-xs text-blue-600 italic bg-blue-50 p-2 rounded border">
@@ -232,6 +307,13 @@ const QueryCard: React.FC<QueryCardProps> = ({
                     {responseForm.response.length}/2000 characters
                   </span>
                 </div>
+                <TemplatePicker
+                  query={query}
+                  doctor={currentDoctor}
+                  onInsert={(text) => setResponseForm(prev => ({
+                    response: prev.response.trim() ? `${prev.response}\n\n${text}` : text
+                  }))}
+                />
                 <FormField
                   label="Your Professional Medical Response"
                   type="textarea"
@@ -274,6 +356,23 @@ const QueryCard: React.FC<QueryCardProps> = ({
         </div>
       )}
 
+      {/* Conversation with the patient, plus doctor-only notes */}
+      <div className="mt-4 border-t border-gray-200 pt-4">
+        <button
+          type="button"
+          onClick={() => setShowConversation(!showConversation)}
+          className="flex items-center gap-2 text-sm font-medium text-gray-800 hover:text-blue-600"
+        >
+          <span>💬 Conversation</span>
+          <span className="text-xs text-gray-500">{showConversation ? '▲ Hide' : '▼ Show'}</span>
+        </button>
+        {showConversation && (
+          <div className="mt-3">
+            <QueryConversation queryId={query.id} currentDoctor={currentDoctor} showMessage={showMessage} />
+          </div>
+        )}
+      </div>
+
       {/* Final Response for Completed Queries */}
       {query.response && status === 'Completed' && (
         <div className="mt-4 bg-white/70 border border-green-200 rounded p-3">
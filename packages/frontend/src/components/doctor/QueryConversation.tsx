@@ -0,0 +1,145 @@
+// Query Conversation Component - Doctor's side of a query thread: messages, clarifying questions and internal notes
+import React, { useEffect, useState } from 'react';
+import { Doctor, QueryThread } from '../../types';
+import Button from '../common/Button';
+import ConversationThread from '../common/ConversationThread';
+import LoadingSpinner from '../common/LoadingSpinner';
+import trustCareAPI from '../../api/trustcare';
+import { canDoctorMessage, threadEntries } from '../../utils/queryThread';
+
+interface QueryConversationProps {
+  queryId: string;
+  currentDoctor: Doctor;
+  showMessage: (message: string, type?: 'success' | 'error' | 'info' | 'warning') => void;
+}
+
+type ComposerMode = 'message' | 'question' | 'note';
+
+const COMPOSER_MODES: { mode: ComposerMode; label: string; placeholder: string }[] = [
+  { mode: 'message', label: '💬 Message', placeholder: 'Write a message to the patient...' },
+  { mode: 'question', label: '❓ Ask & wait for reply', placeholder: 'Ask the patient a clarifying question...' },
+  { mode: 'note', label: '🔒 Internal note', placeholder: 'Add a note for colleagues - the patient will not see it...' }
+];
+
+const QueryConversation: React.FC<QueryConversationProps> = ({ queryId, currentDoctor, showMessage }) => {
+  const [thread, setThread] = useState<QueryThread | null>(null);
+  const [mode, setMode] = useState<ComposerMode>('message');
+  const [text, setText] = useState('');
+  const [sending, setSending] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoadError(null);
+    trustCareAPI.getDoctorThread(queryId, currentDoctor.id).then(result => {
+      if (cancelled) return;
+      if (result.success && result.data) {
+        setThread(result.data);
+      } else {
+        setLoadError(result.error || 'Unknown error');
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [queryId, currentDoctor.id]);
+
+  if (loadError) {
+    return <p className="text-sm text-red-600">Could not load the conversation: {loadError}</p>;
+  }
+
+  if (!thread) {
+    return (
+      <div className="flex justify-center py-4">
+        <LoadingSpinner message="Loading conversation..." />
+      </div>
+    );
+  }
+
+  const patientMessagingOpen = canDoctorMessage(thread.status);
+  // Internal notes can be added at any stage; messages to the patient only during review
+  const activeMode = patientMessagingOpen ? mode : 'note';
+  const activeConfig = COMPOSER_MODES.filter(option => option.mode === activeMode)[0];
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = text.trim();
+    if (!trimmed) return;
+
+    setSending(true);
+    try {
+      const result = activeMode === 'note'
+        ? await trustCareAPI.addInternalNote(queryId, currentDoctor.id, trimmed)
+        : await trustCareAPI.sendDoctorMessage(queryId, currentDoctor.id, trimmed, activeMode === 'question');
+      if (result.success && result.data) {
+        setThread(result.data);
+        setText('');
+        if (activeMode === 'question') {
+          showMessage('Question sent - the query is on hold until the patient replies', 'success');
+        }
+      } else {
+        showMessage(`Error: ${result.error}`, 'error');
+      }
+    } catch (error) {
+      showMessage('Failed to send. Please try again.', 'error');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {thread.status === 'awaiting_patient_response' && (
+        <div className="text-sm text-orange-800 bg-orange-50 border border-orange-200 rounded p-2">
+          ⏸ Waiting for the patient to answer your question
+        </div>
+      )}
+
+      <ConversationThread
+        entries={threadEntries(thread, true)}
+        viewer="doctor"
+        emptyMessage="No messages yet. Ask the patient a question, or leave a note for colleagues."
+      />
+
+      <form onSubmit={handleSend} className="space-y-2">
+        <div className="flex flex-wrap gap-2">
+          {COMPOSER_MODES.map(option => (
+            <button
+              key={option.mode}
+              type="button"
+              onClick={() => setMode(option.mode)}
+              disabled={option.mode !== 'note' && !patientMessagingOpen}
+              className={`px-3 py-1 rounded-full text-xs font-medium border ${
+                activeMode === option.mode
+                  ? 'bg-blue-600 text-white border-blue-600'
+                  : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50 disabled:opacity-40 disabled:cursor-not-allowed'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        {!patientMessagingOpen && (
+          <p className="text-xs text-gray-500">Start reviewing the query to message the patient.</p>
+        )}
+        <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder={activeConfig.placeholder}
+          rows={3}
+          maxLength={2000}
+          className={`w-full border rounded-md p-2 text-sm focus:outline-none focus:ring-2 ${
+            activeMode === 'note' ? 'border-yellow-300 bg-yellow-50 focus:ring-yellow-400' : 'border-gray-300 focus:ring-blue-500'
+          }`}
+        />
+        <div className="flex justify-end">
+          <Button type="submit" size="small" loading={sending} disabled={sending || !text.trim()}>
+            {activeMode === 'note' ? 'Add Note' : 'Send'}
+          </Button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default QueryConversation;
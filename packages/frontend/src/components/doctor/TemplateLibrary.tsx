@@ -0,0 +1,461 @@
+// Template Library Component - Create, edit, share and version response templates
+import React, { useEffect, useRef, useState } from 'react';
+import { QueryCategory, QueryCategoryKind, ResponseTemplate, ResponseTemplateInput, TemplateVersion } from '../../types';
+import Button from '../common/Button';
+import LoadingSpinner from '../common/LoadingSpinner';
+import { useDoctorDashboard } from './DoctorDashboard';
+import trustCareAPI from '../../api/trustcare';
+import { QUERY_CATEGORIES } from '../../services/candidAdapter';
+import {
+  AVAILABLE_PLACEHOLDERS,
+  MAX_TEMPLATE_CHARS,
+  STARTER_TEMPLATES,
+  queryCategoryLabel,
+  templatePlaceholders,
+  templateUsageSummary,
+  validateTemplateInput
+} from '../../utils/responseTemplates';
+
+interface TemplateForm {
+  name: string;
+  content: string;
+  categoryKind: QueryCategoryKind | 'other' | '';
+  otherLabel: string;
+  shared: boolean;
+}
+
+const emptyForm = (): TemplateForm => ({ name: '', content: '', categoryKind: '', otherLabel: '', shared: false });
+
+const formFromTemplate = (template: ResponseTemplateInput): TemplateForm => ({
+  name: template.name,
+  content: template.content,
+  categoryKind: template.category ? template.category.kind : '',
+  otherLabel: template.category && template.category.kind === 'other' ? template.category.label : '',
+  shared: template.shared
+});
+
+const formCategory = (form: TemplateForm): QueryCategory | undefined => {
+  if (form.categoryKind === '') return undefined;
+  if (form.categoryKind === 'other') return form.otherLabel.trim() ? { kind: 'other', label: form.otherLabel.trim() } : undefined;
+  return { kind: form.categoryKind };
+};
+
+const inputFromForm = (form: TemplateForm): ResponseTemplateInput => ({
+  name: form.name.trim(),
+  content: form.content,
+  category: formCategory(form),
+  shared: form.shared
+});
+
+type LibraryView = 'mine' | 'shared';
+
+const TemplateLibrary: React.FC = () => {
+  const { currentDoctor, showMessage } = useDoctorDashboard();
+  const [templates, setTemplates] = useState<ResponseTemplate[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [view, setView] = useState<LibraryView>('mine');
+  const [filter, setFilter] = useState('');
+  const [form, setForm] = useState<TemplateForm>(emptyForm);
+  // ID of the template being edited; null while creating a new one
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [historyId, setHistoryId] = useState<string | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const contentRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    trustCareAPI.getResponseTemplates(currentDoctor.id).then(result => {
+      if (cancelled) return;
+      if (result.success) {
+        setTemplates(result.data || []);
+        setLoadError(null);
+      } else {
+        setLoadError(result.error || 'Failed to load templates');
+      }
+      setLoaded(true);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [currentDoctor.id]);
+
+  const replaceTemplate = (updated: ResponseTemplate) =>
+    setTemplates(prev => prev.map(template => (template.id === updated.id ? updated : template)));
+
+  const handleCancel = () => {
+    setEditingId(null);
+    setFormError(null);
+    setForm(emptyForm());
+  };
+
+  const handleEdit = (template: ResponseTemplate) => {
+    setEditingId(template.id);
+    setFormError(null);
+    setForm(formFromTemplate(template));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const input = inputFromForm(form);
+    const error = validateTemplateInput(input);
+    if (error) {
+      setFormError(error);
+      return;
+    }
+
+    setSaving(true);
+    const result = editingId
+      ? await trustCareAPI.updateResponseTemplate(currentDoctor.id, editingId, input)
+      : await trustCareAPI.createResponseTemplate(currentDoctor.id, input);
+    setSaving(false);
+
+    if (!result.success || !result.data) {
+      setFormError(result.error || 'Failed to save the template');
+      return;
+    }
+    const saved = result.data;
+    if (editingId) {
+      replaceTemplate(saved);
+    } else {
+      setTemplates(prev => prev.concat([saved]));
+    }
+    showMessage(editingId ? `Saved version ${saved.version} of "${saved.name}"` : `Template "${saved.name}" created`, 'success');
+    handleCancel();
+  };
+
+  const handleDelete = async (template: ResponseTemplate) => {
+    if (!window.confirm(`Delete "${template.name}" and its version history?`)) return;
+    const result = await trustCareAPI.deleteResponseTemplate(currentDoctor.id, template.id);
+    if (!result.success) {
+      showMessage(`Error: ${result.error}`, 'error');
+      return;
+    }
+    setTemplates(prev => prev.filter(existing => existing.id !== template.id));
+    if (editingId === template.id) handleCancel();
+    if (historyId === template.id) setHistoryId(null);
+  };
+
+  // Sharing, restoring and copying all go through the same versioned save
+  const saveAs = async (template: ResponseTemplate, input: ResponseTemplateInput, message: string) => {
+    const result = await trustCareAPI.updateResponseTemplate(currentDoctor.id, template.id, input);
+    if (!result.success || !result.data) {
+      showMessage(`Error: ${result.error}`, 'error');
+      return;
+    }
+    replaceTemplate(result.data);
+    showMessage(message, 'success');
+  };
+
+  const handleToggleShare = (template: ResponseTemplate) =>
+    saveAs(
+      template,
+      { name: template.name, content: template.content, category: template.category, shared: !template.shared },
+      template.shared ? `"${template.name}" is now private` : `"${template.name}" is now shared with all doctors`
+    );
+
+  const handleRestore = (template: ResponseTemplate, version: TemplateVersion) => {
+    if (!window.confirm(`Restore version ${version.version} of "${template.name}"? It is saved as a new version.`)) return;
+    saveAs(
+      template,
+      { name: version.name, content: version.content, category: version.category, shared: template.shared },
+      `Restored version ${version.version} of "${version.name}"`
+    );
+  };
+
+  const createAll = async (inputs: ResponseTemplateInput[]) => {
+    const created: ResponseTemplate[] = [];
+    for (let i = 0; i < inputs.length; i++) {
+      const result = await trustCareAPI.createResponseTemplate(currentDoctor.id, inputs[i]);
+      if (!result.success || !result.data) {
+        showMessage(`Error: ${result.error}`, 'error');
+        break;
+      }
+      created.push(result.data);
+    }
+    setTemplates(prev => prev.concat(created));
+    return created;
+  };
+
+  const handleCopy = async (template: ResponseTemplate) => {
+    const created = await createAll([{ name: template.name, content: template.content, category: template.category, shared: false }]);
+    if (created.length > 0) {
+      showMessage(`Copied "${template.name}" to your templates`, 'success');
+      setView('mine');
+    }
+  };
+
+  const handleAddStarters = async () => {
+    const created = await createAll(STARTER_TEMPLATES);
+    if (created.length > 0) showMessage(`Added ${created.length} starter templates`, 'success');
+  };
+
+  // Inserts at the cursor so placeholders land where the doctor is typing
+  const insertPlaceholder = (token: string) => {
+    const placeholder = `{{${token}}}`;
+    const textarea = contentRef.current;
+    const start = textarea ? textarea.selectionStart : form.content.length;
+    const end = textarea ? textarea.selectionEnd : form.content.length;
+    setForm({ ...form, content: form.content.slice(0, start) + placeholder + form.content.slice(end) });
+    if (textarea) {
+      setTimeout(() => {
+        textarea.focus();
+        textarea.setSelectionRange(start + placeholder.length, start + placeholder.length);
+      }, 0);
+    }
+  };
+
+  if (!loaded) {
+    return <LoadingSpinner message="Loading templates..." />;
+  }
+
+  const summary = templateUsageSummary(templates, currentDoctor.id);
+  const needle = filter.trim().toLowerCase();
+  const visible = templates
+    .filter(template => (view === 'mine') === (template.ownerId === currentDoctor.id))
+    .filter(template => !needle ||
+      template.name.toLowerCase().indexOf(needle) !== -1 ||
+      template.content.toLowerCase().indexOf(needle) !== -1
+    );
+  const historyTemplate = templates.find(template => template.id === historyId);
+  const unknownPlaceholders = templatePlaceholders(form.content).filter(path =>
+    !AVAILABLE_PLACEHOLDERS.some(option => option.token === path)
+  );
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <div className="flex flex-wrap justify-between items-start gap-4 mb-4">
+          <div>
+            <h3 className="text-lg font-medium text-gray-900">📝 Response Templates</h3>
+            <p className="text-sm text-gray-500">
+              Placeholders such as {'{{patient.firstName}}'} are filled from the patient's record when you insert a template.
+            </p>
+          </div>
+          {summary.ownCount === 0 && !loadError && (
+            <Button size="small" variant="secondary" onClick={handleAddStarters}>
+              Add starter templates
+            </Button>
+          )}
+        </div>
+
+        {loadError && <p className="text-sm text-red-600 mb-4">{loadError}</p>}
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4">
+          <div className="bg-gray-50 rounded p-3">
+            <p className="text-xs text-gray-500">Your templates</p>
+            <p className="text-xl font-semibold text-gray-900">{summary.ownCount}</p>
+          </div>
+          <div className="bg-gray-50 rounded p-3">
+            <p className="text-xs text-gray-500">Shared with you</p>
+            <p className="text-xl font-semibold text-gray-900">{summary.sharedCount}</p>
+          </div>
+          <div className="bg-gray-50 rounded p-3">
+            <p className="text-xs text-gray-500">Uses of your templates</p>
+            <p className="text-xl font-semibold text-gray-900">{summary.totalUses}</p>
+          </div>
+          <div className="bg-gray-50 rounded p-3">
+            <p className="text-xs text-gray-500">Most used</p>
+            <p className="text-sm font-medium text-gray-900 truncate">{summary.mostUsed ? summary.mostUsed.name : '-'}</p>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-3 items-center mb-4">
+          {(['mine', 'shared'] as LibraryView[]).map(option => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setView(option)}
+              className={`px-3 py-1 rounded-md text-sm font-medium border ${
+                view === option
+                  ? 'bg-blue-50 text-blue-700 border-blue-300'
+                  : 'bg-gray-50 text-gray-600 border-gray-300 hover:bg-gray-100'
+              }`}
+            >
+              {option === 'mine' ? 'My templates' : 'Shared by colleagues'}
+            </button>
+          ))}
+          <input
+            type="search"
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            placeholder="Filter templates..."
+            className={`${inputClass} md:w-64`}
+          />
+        </div>
+
+        <ul className="divide-y divide-gray-100">
+          {visible.map(template => {
+            const own = template.ownerId === currentDoctor.id;
+            return (
+              <li key={template.id} className="py-3">
+                <div className="flex flex-wrap justify-between gap-2">
+                  <div>
+                    <p className="font-medium text-gray-900">
+                      {template.name}
+                      {template.category && (
+                        <span className="ml-2 px-2 py-0.5 rounded text-xs bg-gray-100 text-gray-700">
+                          {queryCategoryLabel(template.category)}
+                        </span>
+                      )}
+                      {own && template.shared && (
+                        <span className="ml-2 px-2 py-0.5 rounded text-xs bg-green-100 text-green-800">Shared</span>
+                      )}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {own ? '' : `By Dr. ${template.ownerName} · `}
+                      v{template.version} · Used {template.usageCount} {template.usageCount === 1 ? 'time' : 'times'}
+                      {template.lastUsedAt ? ` · Last used ${new Date(template.lastUsedAt).toLocaleDateString()}` : ''}
+                    </p>
+                  </div>
+                  <div className="flex gap-3 text-xs whitespace-nowrap">
+                    {own ? (
+                      <>
+                        <button type="button" onClick={() => handleEdit(template)} className="text-blue-600 hover:text-blue-800">
+                          Edit
+                        </button>
+                        <button type="button" onClick={() => handleToggleShare(template)} className="text-blue-600 hover:text-blue-800">
+                          {template.shared ? 'Stop sharing' : 'Share'}
+                        </button>
+                        {template.previousVersions.length > 0 && (
+                          <button
+                            type="button"
+                            onClick={() => setHistoryId(historyId === template.id ? null : template.id)}
+                            className="text-blue-600 hover:text-blue-800"
+                          >
+                            History ({template.previousVersions.length})
+                          </button>
+                        )}
+                        <button type="button" onClick={() => handleDelete(template)} className="text-red-600 hover:text-red-800">
+                          Delete
+                        </button>
+                      </>
+                    ) : (
+                      <button type="button" onClick={() => handleCopy(template)} className="text-blue-600 hover:text-blue-800">
+                        Copy to my templates
+                      </button>
+                    )}
+                  </div>
+                </div>
+                <p className="text-sm text-gray-600 mt-1 whitespace-pre-wrap max-h-20 overflow-hidden">{template.content}</p>
+
+                {historyTemplate && historyTemplate.id === template.id && (
+                  <div className="mt-3 bg-gray-50 border rounded p-3 space-y-3">
+                    {[...template.previousVersions].reverse().map(version => (
+                      <div key={version.version} className="text-sm">
+                        <div className="flex justify-between text-xs text-gray-500">
+                          <span>
+                            v{version.version} · {version.name} · {new Date(version.editedAt).toLocaleString()}
+                          </span>
+                          <button
+                            type="button"
+                            onClick={() => handleRestore(template, version)}
+                            className="text-blue-600 hover:text-blue-800 font-medium"
+                          >
+                            Restore
+                          </button>
+                        </div>
+                        <p className="text-gray-700 whitespace-pre-wrap">{version.content}</p>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+        {visible.length === 0 && (
+          <p className="text-sm text-gray-500 py-4 text-center">
+            {view === 'mine' ? 'You have no templates yet.' : 'No colleague has shared a template yet.'}
+          </p>
+        )}
+      </div>
+
+      <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-md p-6 space-y-3">
+        <h4 className="font-medium text-gray-900">{editingId ? `Edit "${form.name}"` : 'New template'}</h4>
+        <div className="grid md:grid-cols-3 gap-3">
+          <input
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            placeholder="Template name"
+            className={inputClass}
+          />
+          <select
+            value={form.categoryKind}
+            onChange={(e) => setForm({ ...form, categoryKind: e.target.value as TemplateForm['categoryKind'] })}
+            className={inputClass}
+          >
+            <option value="">Any category</option>
+            {QUERY_CATEGORIES.map(kind => (
+              <option key={kind} value={kind}>{queryCategoryLabel({ kind })}</option>
+            ))}
+            <option value="other">Other...</option>
+          </select>
+          {form.categoryKind === 'other' && (
+            <input
+              value={form.otherLabel}
+              onChange={(e) => setForm({ ...form, otherLabel: e.target.value })}
+              placeholder="Category name"
+              className={inputClass}
+            />
+          )}
+        </div>
+
+        <div className="flex flex-wrap gap-1">
+          {AVAILABLE_PLACEHOLDERS.map(option => (
+            <button
+              key={option.token}
+              type="button"
+              onClick={() => insertPlaceholder(option.token)}
+              className="px-2 py-0.5 rounded border border-gray-300 bg-gray-50 text-xs text-gray-700 hover:bg-gray-100"
+              title={`{{${option.token}}}`}
+            >
+              + {option.label}
+            </button>
+          ))}
+        </div>
+        <textarea
+          ref={contentRef}
+          value={form.content}
+          onChange={(e) => setForm({ ...form, content: e.target.value })}
+          placeholder="Dear {{patient.firstName}}, ..."
+          rows={8}
+          className={`${inputClass} font-mono`}
+        />
+        <div className="flex justify-between text-xs text-gray-500">
+          <span>
+            {unknownPlaceholders.length > 0 &&
+              `Not a standard placeholder: ${unknownPlaceholders.map(path => `{{${path}}}`).join(', ')}`}
+          </span>
+          <span className={form.content.length > MAX_TEMPLATE_CHARS ? 'text-red-600' : ''}>
+            {form.content.length}/{MAX_TEMPLATE_CHARS}
+          </span>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={form.shared}
+            onChange={(e) => setForm({ ...form, shared: e.target.checked })}
+          />
+          Share with all doctors
+        </label>
+        {formError && <p className="text-sm text-red-600">{formError}</p>}
+        <div className="flex justify-end gap-2">
+          {editingId && (
+            <Button type="button" size="small" variant="secondary" onClick={handleCancel}>
+              Cancel
+            </Button>
+          )}
+          <Button type="submit" size="small" loading={saving} disabled={saving}>
+            {editingId ? 'Save New Version' : 'Create Template'}
+          </Button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default TemplateLibrary;
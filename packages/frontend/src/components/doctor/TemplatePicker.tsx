@@ -0,0 +1,105 @@
+// Template Picker - Insert a response template with placeholders filled from the patient and query
+import React, { useEffect, useState } from 'react';
+import { Doctor, MedicalQuery, ResponseTemplate } from '../../types';
+import trustCareAPI from '../../api/trustcare';
+import { useTemplateContext } from '../../hooks/useTemplateContext';
+import { fillTemplate, queryCategoryLabel, suggestTemplates } from '../../utils/responseTemplates';
+
+interface TemplatePickerProps {
+  query: MedicalQuery;
+  doctor: Doctor;
+  onInsert: (text: string) => void;
+}
+
+const TemplatePicker: React.FC<TemplatePickerProps> = ({ query, doctor, onInsert }) => {
+  const context = useTemplateContext(query, doctor);
+  const [templates, setTemplates] = useState<ResponseTemplate[]>([]);
+  // Placeholders the last inserted template could not fill
+  const [unresolved, setUnresolved] = useState<string[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    trustCareAPI.getResponseTemplates(doctor.id)
+      .then(result => {
+        if (!cancelled && result.success && result.data) {
+          setTemplates(result.data);
+        }
+      })
+      .catch(error => console.error('Error loading templates:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [doctor.id]);
+
+  const category = context.query ? context.query.category : undefined;
+  const suggestions = suggestTemplates(templates, category);
+
+  const handleInsert = (templateId: string) => {
+    const template = templates.find(t => t.id === templateId);
+    if (!template) return;
+
+    const filled = fillTemplate(template.content, context);
+    onInsert(filled.text);
+    setUnresolved(filled.unresolved);
+
+    // Usage only feeds the statistics; a failure here shouldn't interrupt the response
+    trustCareAPI.recordTemplateUse(doctor.id, template.id).then(result => {
+      if (result.success) {
+        setTemplates(prev => prev.map(t => (t.id === template.id ? { ...t, usageCount: t.usageCount + 1, lastUsedAt: Date.now() } : t)));
+      }
+    });
+  };
+
+  const optionLabel = (template: ResponseTemplate) => {
+    const parts = [template.name];
+    if (template.category) parts.push(`(${queryCategoryLabel(template.category)})`);
+    if (template.ownerId !== doctor.id) parts.push(`- shared by Dr. ${template.ownerName}`);
+    return parts.join(' ');
+  };
+
+  return (
+    <div className="space-y-2">
+      {suggestions.length > 0 && category && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-xs text-gray-500">Suggested for {queryCategoryLabel(category)}:</span>
+          {suggestions.map(template => (
+            <button
+              key={template.id}
+              type="button"
+              onClick={() => handleInsert(template.id)}
+              className="px-2 py-1 rounded-md text-xs font-medium border bg-blue-50 text-blue-700 border-blue-200 hover:bg-blue-100"
+              title={`Used ${template.usageCount} times`}
+            >
+              {template.name}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center space-x-4">
+        <label className="text-sm font-medium text-gray-700">Use Template:</label>
+        <select
+          value=""
+          onChange={(e) => handleInsert(e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="">{templates.length > 0 ? 'Select a template' : 'No templates yet'}</option>
+          {templates.map(template => (
+            <option key={template.id} value={template.id}>
+              {optionLabel(template)}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {unresolved.length > 0 && (
+        <p className="text-xs text-yellow-800 bg-yellow-50 border border-yellow-200 rounded p-2">
+          No value on record for {unresolved.map(path => `{{${path}}}`).join(', ')}. Fill these in before sending.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default TemplatePicker;
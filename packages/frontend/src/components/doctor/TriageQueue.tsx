@@ -0,0 +1,196 @@
+// Triage Queue Component - Pending queries ranked by clinical risk and SLA, with a one-key claim
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { TriageAssessment, TriageUrgency } from '../../types';
+import Button from '../common/Button';
+import { useDoctorDashboard } from './DoctorDashboard';
+import trustCareAPI from '../../api/trustcare';
+import { formatQueryStatus } from '../../utils/formatters';
+import { buildTriageQueue, formatCountdown, formatWaiting, SlaStatus, TriageItem } from '../../utils/triage';
+
+const SLA_BADGE_CLASSES: Record<SlaStatus, string> = {
+  on_track: 'bg-green-100 text-green-800',
+  at_risk: 'bg-orange-100 text-orange-800',
+  breached: 'bg-red-100 text-red-800'
+};
+
+const URGENCY_BADGE_CLASSES: Record<TriageUrgency, string> = {
+  HIGH: 'bg-red-100 text-red-800',
+  MEDIUM: 'bg-yellow-100 text-yellow-800',
+  LOW: 'bg-gray-100 text-gray-700'
+};
+
+const CLAIM_KEY = 'c';
+
+// Keystrokes meant for a form field never claim a query
+const isTypingTarget = (target: EventTarget | null): boolean => {
+  const element = target as HTMLElement | null;
+  if (!element || !element.tagName) return false;
+  return element.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].indexOf(element.tagName) !== -1;
+};
+
+const TriageQueue: React.FC = () => {
+  const {
+    myQueries,
+    currentDoctor,
+    patientNameMap,
+    showMessage,
+    loading,
+    setLoading,
+    refreshQueries
+  } = useDoctorDashboard();
+  const navigate = useNavigate();
+  const [assessments, setAssessments] = useState<TriageAssessment[]>([]);
+  const [now, setNow] = useState(Date.now());
+  const [claimingId, setClaimingId] = useState<string | null>(null);
+
+  const queue = useMemo(
+    () => buildTriageQueue(myQueries.filter(q => formatQueryStatus(q.status) === 'Pending'), assessments, now),
+    [myQueries, assessments, now]
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    trustCareAPI.getTriageAssessments(currentDoctor.id).then(result => {
+      if (!cancelled && result.success) setAssessments(result.data || []);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [currentDoctor.id, myQueries]);
+
+  // Keep the countdown badges moving
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const handleClaim = useCallback(async (item: TriageItem) => {
+    if (claimingId) return;
+
+    setClaimingId(item.query.id);
+    setLoading(true);
+    try {
+      const result = await trustCareAPI.takeQuery(item.query.id, currentDoctor.id);
+      if (result.success) {
+        showMessage(`Claimed "${item.query.title}" - it's now under your review`, 'success');
+        await refreshQueries();
+        navigate(`/doctor/queries/${item.query.id}`);
+      } else {
+        showMessage(`Error: ${result.error}`, 'error');
+      }
+    } catch (error) {
+      showMessage('Failed to claim query. Please try again.', 'error');
+    } finally {
+      setClaimingId(null);
+      setLoading(false);
+    }
+  }, [claimingId, currentDoctor.id, navigate, refreshQueries, setLoading, showMessage]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key.toLowerCase() !== CLAIM_KEY || event.ctrlKey || event.metaKey || event.altKey) return;
+      if (isTypingTarget(event.target) || queue.length === 0) return;
+
+      event.preventDefault();
+      handleClaim(queue[0]);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [queue, handleClaim]);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-semibold text-gray-900">
+          🔔 Triage Queue ({queue.length})
+        </h3>
+        {queue.length > 0 && (
+          <p className="text-sm text-gray-600">
+            Press <kbd className="px-1.5 py-0.5 border border-gray-300 rounded bg-gray-50 font-mono text-xs">C</kbd> to claim the top query
+          </p>
+        )}
+      </div>
+
+      {queue.length === 0 ? (
+        <div className="text-center py-12">
+          <div className="text-4xl mb-4">🎉</div>
+          <p className="text-lg font-medium text-gray-900 mb-2">All caught up!</p>
+          <p className="text-gray-500">No pending queries at the moment.</p>
+        </div>
+      ) : (
+        <ol className="space-y-3">
+          {queue.map((item, index) => {
+            const { query, assessment } = item;
+            const isTop = index === 0;
+
+            return (
+              <li
+                key={query.id}
+                className={`border rounded-lg p-4 flex justify-between items-start gap-4 ${
+                  isTop ? 'border-blue-400 bg-blue-50' : 'border-gray-200 bg-white'
+                }`}
+              >
+                <div className="flex items-start gap-3 flex-1 min-w-0">
+                  <span className="text-sm font-bold text-gray-400 w-6 text-right">#{index + 1}</span>
+                  <div className="min-w-0">
+                    <Link
+                      to={`/doctor/queries/${query.id}`}
+                      className="font-semibold text-gray-900 hover:text-blue-600"
+                    >
+                      {query.title}
+                    </Link>
+                    <p className="text-sm text-gray-600">
+                      Patient: {patientNameMap[query.patientId] || query.patientId} · Waiting {formatWaiting(item.waitingMinutes)}
+                    </p>
+                    <div className="flex flex-wrap gap-2 mt-2 text-xs font-medium">
+                      <span className={`px-2 py-1 rounded-full ${SLA_BADGE_CLASSES[item.slaStatus]}`}>
+                        ⏱ {formatCountdown(item.slaDeadline, now)}
+                      </span>
+                      {assessment ? (
+                        <>
+                          <span className={`px-2 py-1 rounded-full ${URGENCY_BADGE_CLASSES[assessment.urgency]}`}>
+                            {assessment.urgency} urgency
+                          </span>
+                          <span className="px-2 py-1 rounded-full bg-gray-100 text-gray-700">
+                            Safety {assessment.safetyScore}/100
+                          </span>
+                          {assessment.priority !== 'normal' && (
+                            <span className="px-2 py-1 rounded-full bg-purple-100 text-purple-800 capitalize">
+                              {assessment.priority} priority
+                            </span>
+                          )}
+                          {assessment.escalationLevel > 0 && (
+                            <span className="px-2 py-1 rounded-full bg-red-100 text-red-800">
+                              Escalation level {assessment.escalationLevel}
+                            </span>
+                          )}
+                          {assessment.requiresHumanReview && (
+                            <span className="px-2 py-1 rounded-full bg-blue-100 text-blue-800">Needs review</span>
+                          )}
+                        </>
+                      ) : (
+                        <span className="px-2 py-1 rounded-full bg-gray-100 text-gray-500">Not scored yet</span>
+                      )}
+                    </div>
+                  </div>
+                </div>
+                <Button
+                  size="small"
+                  variant={isTop ? 'primary' : 'secondary'}
+                  onClick={() => handleClaim(item)}
+                  disabled={loading || claimingId !== null}
+                >
+                  {claimingId === query.id ? 'Claiming...' : isTop ? 'Claim (C)' : 'Claim'}
+                </Button>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default TriageQueue;
@@ -0,0 +1,149 @@
+// Access History Component - Who viewed the patient's data, when and why, from the canister's PHI audit trail
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { AuditEvent } from '../../types';
+import Button from '../common/Button';
+import LoadingSpinner from '../common/LoadingSpinner';
+import icpService from '../../services/icpService';
+import { formatters } from '../../utils/formatters';
+import {
+  AUDIT_ACTION_LABELS,
+  AUDIT_RESOURCE_LABELS,
+  actorRoleLabel,
+  isThirdPartyAccess,
+  summarizeAccessors
+} from '../../utils/audit';
+
+interface AccessHistoryProps {
+  patientId: string;
+}
+
+const PAGE_SIZE = 25;
+
+const AccessHistory: React.FC<AccessHistoryProps> = ({ patientId }) => {
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [includeOwn, setIncludeOwn] = useState(false);
+  const [shown, setShown] = useState(PAGE_SIZE);
+
+  useEffect(() => {
+    let cancelled = false;
+    icpService.getPatientAuditTrail(patientId).then(result => {
+      if (cancelled) return;
+      if (result.success) {
+        setEvents(result.data || []);
+        setLoadError(null);
+      } else {
+        setLoadError(result.error || 'Failed to load your access history');
+      }
+      setLoaded(true);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [patientId]);
+
+  if (!loaded) {
+    return (
+      <div className="flex justify-center py-8">
+        <LoadingSpinner message="Loading access history..." />
+      </div>
+    );
+  }
+
+  const accessors = summarizeAccessors(events);
+  const timeline = includeOwn ? events : events.filter(isThirdPartyAccess);
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <h3 className="text-lg font-medium text-gray-900 mb-1">🔍 Who Viewed My Data</h3>
+        <p className="text-sm text-gray-500">
+          Every time someone opens your health record or one of your queries, or your information is shared with the
+          AI assistant, it is recorded here with the reason access was allowed.
+        </p>
+        {loadError && (
+          <div className="mt-4 bg-red-50 border border-red-200 rounded-lg p-4 text-sm text-red-700">{loadError}</div>
+        )}
+      </div>
+
+      {/* One row per person */}
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <h3 className="text-lg font-medium text-gray-900 mb-4">People with access</h3>
+        {accessors.length === 0 ? (
+          <p className="text-sm text-gray-500">Nobody else has accessed your data yet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead>
+                <tr className="text-left text-gray-600">
+                  <th className="py-2 pr-4 font-medium">Who</th>
+                  <th className="py-2 pr-4 font-medium">Role</th>
+                  <th className="py-2 pr-4 font-medium">Reason</th>
+                  <th className="py-2 pr-4 font-medium text-right">Times</th>
+                  <th className="py-2 font-medium">Last access</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {accessors.map(accessor => (
+                  <tr key={accessor.key}>
+                    <td className="py-2 pr-4 text-gray-900">{accessor.name}</td>
+                    <td className="py-2 pr-4 text-gray-700">{accessor.roleLabel}</td>
+                    <td className="py-2 pr-4 text-gray-700">{accessor.reasons.join('; ')}</td>
+                    <td className="py-2 pr-4 text-gray-700 text-right">{accessor.accessCount}</td>
+                    <td className="py-2 text-gray-500">{formatters.formatDate(new Date(accessor.lastAccessAt))}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Full timeline */}
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <div className="flex flex-wrap justify-between items-center gap-4 mb-4">
+          <h3 className="text-lg font-medium text-gray-900">Access timeline</h3>
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            <input type="checkbox" checked={includeOwn} onChange={(e) => setIncludeOwn(e.target.checked)} />
+            Include my own access
+          </label>
+        </div>
+        {timeline.length === 0 ? (
+          <p className="text-sm text-gray-500">No access recorded.</p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {timeline.slice(0, shown).map(event => (
+              <li key={event.id} className="py-3 text-sm">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-medium text-gray-900">{event.accessedBy.name}</span>
+                  <span className="text-xs px-2 py-0.5 rounded-full bg-gray-100 text-gray-600">{actorRoleLabel(event)}</span>
+                  <span className="text-gray-700">
+                    {AUDIT_ACTION_LABELS[event.action].toLowerCase()} your {AUDIT_RESOURCE_LABELS[event.resourceKind].toLowerCase()}
+                  </span>
+                  {event.resourceKind === 'medical_query' && (
+                    <Link to={`/patient/queries/${event.resourceId}`} className="text-blue-600 hover:text-blue-800">
+                      View query
+                    </Link>
+                  )}
+                  <span className="text-xs text-gray-500 ml-auto">{formatters.formatDate(new Date(event.timestamp))}</span>
+                </div>
+                <p className="text-xs text-gray-500 mt-1">{event.reason}</p>
+              </li>
+            ))}
+          </ul>
+        )}
+        {timeline.length > shown && (
+          <div className="mt-4 text-center">
+            <Button size="small" variant="secondary" onClick={() => setShown(shown + PAGE_SIZE)}>
+              Show more
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AccessHistory;
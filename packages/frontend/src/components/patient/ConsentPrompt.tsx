@@ -0,0 +1,83 @@
+// Consent Prompt Component - Asks the patient to decide on new or updated consent documents
+import React, { useState } from 'react';
+import { ConsentDecision, ConsentRecord, ConsentStatus } from '../../types';
+import Button from '../common/Button';
+import icpService from '../../services/icpService';
+
+interface ConsentPromptProps {
+  patientId: string;
+  pending: ConsentStatus[];
+  onRecorded: (record: ConsentRecord) => void;
+  showMessage: (message: string, type?: 'success' | 'error' | 'info' | 'warning') => void;
+}
+
+const ConsentPrompt: React.FC<ConsentPromptProps> = ({ patientId, pending, onRecorded, showMessage }) => {
+  const [savingKind, setSavingKind] = useState<string | null>(null);
+
+  if (pending.length === 0) return null;
+
+  const decide = async (status: ConsentStatus, decision: ConsentDecision) => {
+    setSavingKind(status.document.kind);
+    const result = await icpService.recordConsent(patientId, status.document.kind, status.document.version, decision);
+    setSavingKind(null);
+    if (!result.success || !result.data) {
+      showMessage(result.error || 'Failed to save your decision', 'error');
+      return;
+    }
+    onRecorded(result.data);
+    showMessage(
+      decision === 'accepted' ? `Thank you for accepting ${status.document.title}` : `${status.document.title} declined`,
+      'success'
+    );
+  };
+
+  return (
+    <div className="bg-amber-50 border border-amber-200 rounded-lg p-6 mb-6">
+      <h3 className="text-lg font-medium text-amber-900 mb-1">📄 Please review our updated terms</h3>
+      <p className="text-sm text-amber-800 mb-4">
+        Your decisions are signed with your Internet Identity and you can change optional ones at any time under Consents.
+      </p>
+      <div className="space-y-4">
+        {pending.map(status => (
+          <div key={status.document.kind} className="bg-white border border-amber-200 rounded-lg p-4">
+            <div className="flex flex-wrap items-center gap-2 mb-2">
+              <h4 className="font-medium text-gray-900">{status.document.title}</h4>
+              <span className="text-xs text-gray-500">Version {status.document.version}</span>
+              {status.document.required && (
+                <span className="text-xs px-2 py-0.5 rounded-full bg-red-100 text-red-700">Required</span>
+              )}
+            </div>
+            {status.latest && (
+              <p className="text-xs text-amber-700 mb-2">
+                Updated since you accepted version {status.latest.documentVersion}.
+              </p>
+            )}
+            <p className="text-sm text-gray-700 whitespace-pre-wrap max-h-40 overflow-y-auto">{status.document.body}</p>
+            <div className="flex gap-2 mt-3">
+              <Button
+                size="small"
+                loading={savingKind === status.document.kind}
+                disabled={savingKind !== null}
+                onClick={() => decide(status, 'accepted')}
+              >
+                Accept
+              </Button>
+              {!status.document.required && (
+                <Button
+                  size="small"
+                  variant="secondary"
+                  disabled={savingKind !== null}
+                  onClick={() => decide(status, 'revoked')}
+                >
+                  Decline
+                </Button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ConsentPrompt;
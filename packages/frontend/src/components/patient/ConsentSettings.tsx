@@ -0,0 +1,165 @@
+// Consent Settings Component - The patient's consent decisions, revocation of optional consents and signed history
+import React, { useEffect, useState } from 'react';
+import { ConsentDecision, ConsentRecord, ConsentStatus } from '../../types';
+import Button from '../common/Button';
+import LoadingSpinner from '../common/LoadingSpinner';
+import { usePatientDashboard } from './PatientDashboard';
+import icpService from '../../services/icpService';
+import { formatters } from '../../utils/formatters';
+import { CONSENT_STANDING_LABELS, ConsentStanding, consentStanding } from '../../utils/consent';
+
+const STANDING_STYLES: Record<ConsentStanding, string> = {
+  accepted: 'bg-green-100 text-green-700',
+  outdated: 'bg-amber-100 text-amber-700',
+  revoked: 'bg-gray-100 text-gray-600',
+  undecided: 'bg-gray-100 text-gray-600'
+};
+
+const ConsentSettings: React.FC = () => {
+  const { patient, consentStatuses, consentsLoaded, recordConsentDecision, showMessage } = usePatientDashboard();
+  const [history, setHistory] = useState<ConsentRecord[]>([]);
+  const [historyError, setHistoryError] = useState<string | null>(null);
+  const [savingKind, setSavingKind] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    icpService.getConsentHistory(patient.id).then(result => {
+      if (cancelled) return;
+      if (result.success) {
+        setHistory(result.data || []);
+        setHistoryError(null);
+      } else {
+        setHistoryError(result.error || 'Failed to load your consent history');
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [patient.id]);
+
+  const decide = async (status: ConsentStatus, decision: ConsentDecision) => {
+    setSavingKind(status.document.kind);
+    const result = await icpService.recordConsent(patient.id, status.document.kind, status.document.version, decision);
+    setSavingKind(null);
+    if (!result.success || !result.data) {
+      showMessage(result.error || 'Failed to save your decision', 'error');
+      return;
+    }
+    const record = result.data;
+    recordConsentDecision(record);
+    setHistory(prev => [record].concat(prev));
+    showMessage(
+      decision === 'accepted' ? `${status.document.title} accepted` : `${status.document.title} revoked`,
+      'success'
+    );
+  };
+
+  if (!consentsLoaded) {
+    return (
+      <div className="flex justify-center py-8">
+        <LoadingSpinner message="Loading your consents..." />
+      </div>
+    );
+  }
+
+  const titleOf = (record: ConsentRecord) => {
+    const status = consentStatuses.find(item => item.document.kind === record.kind);
+    return status ? status.document.title : record.kind;
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <h3 className="text-lg font-medium text-gray-900 mb-1">📄 Consents</h3>
+        <p className="text-sm text-gray-500 mb-4">
+          Required consents cover using TrustCareConnect at all; contact support if you want to withdraw them.
+          Optional ones can be revoked here and take effect immediately.
+        </p>
+        <div className="space-y-4">
+          {consentStatuses.map(status => {
+            const standing = consentStanding(status);
+            const saving = savingKind === status.document.kind;
+            return (
+              <div key={status.document.kind} className="border border-gray-200 rounded-lg p-4">
+                <div className="flex flex-wrap items-center gap-2">
+                  <h4 className="font-medium text-gray-900">{status.document.title}</h4>
+                  <span className="text-xs text-gray-500">Version {status.document.version}</span>
+                  <span className={`text-xs px-2 py-0.5 rounded-full ${STANDING_STYLES[standing]}`}>
+                    {CONSENT_STANDING_LABELS[standing]}
+                  </span>
+                  {status.document.required && <span className="text-xs text-gray-500">Required</span>}
+                </div>
+                {status.latest && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    {status.latest.decision === 'accepted' ? 'Accepted' : 'Revoked'} version {status.latest.documentVersion} by{' '}
+                    {status.latest.signerName} on {formatters.formatDate(new Date(status.latest.recordedAt))}
+                  </p>
+                )}
+                <details className="mt-2 text-sm">
+                  <summary className="cursor-pointer text-gray-600">Read document</summary>
+                  <p className="mt-2 text-gray-700 whitespace-pre-wrap">{status.document.body}</p>
+                </details>
+                <div className="flex gap-2 mt-3">
+                  {standing !== 'accepted' && (
+                    <Button size="small" loading={saving} disabled={savingKind !== null} onClick={() => decide(status, 'accepted')}>
+                      {standing === 'outdated' ? 'Accept New Version' : 'Give Consent'}
+                    </Button>
+                  )}
+                  {!status.document.required && standing !== 'revoked' && (
+                    <Button
+                      size="small"
+                      variant="secondary"
+                      loading={saving}
+                      disabled={savingKind !== null}
+                      onClick={() => decide(status, 'revoked')}
+                    >
+                      Revoke
+                    </Button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <h3 className="text-lg font-medium text-gray-900 mb-4">Signed history</h3>
+        {historyError && <p className="text-sm text-red-600 mb-2">{historyError}</p>}
+        {history.length === 0 ? (
+          <p className="text-sm text-gray-500">No consent decisions recorded yet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead>
+                <tr className="text-left text-gray-600">
+                  <th className="py-2 pr-4 font-medium">When</th>
+                  <th className="py-2 pr-4 font-medium">Document</th>
+                  <th className="py-2 pr-4 font-medium">Decision</th>
+                  <th className="py-2 font-medium">Signed by</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {history.map(record => (
+                  <tr key={record.id}>
+                    <td className="py-2 pr-4 text-gray-500 whitespace-nowrap">{formatters.formatDate(new Date(record.recordedAt))}</td>
+                    <td className="py-2 pr-4 text-gray-900">
+                      {titleOf(record)} <span className="text-xs text-gray-500">v{record.documentVersion}</span>
+                    </td>
+                    <td className="py-2 pr-4 text-gray-700">{record.decision === 'accepted' ? 'Accepted' : 'Revoked'}</td>
+                    <td className="py-2 text-gray-700">
+                      {record.signerName}
+                      <span className="block text-xs text-gray-500 font-mono">{record.signedBy}</span>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ConsentSettings;
@@ -0,0 +1,361 @@
+// Glucose Log Component - Record glucose readings, insulin doses and HbA1c results and review time in range
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { GlucoseEntryKind, GlucoseLogEntry, MealContext } from '../../types';
+import Button from '../common/Button';
+import FormField from '../common/FormField';
+import LoadingSpinner from '../common/LoadingSpinner';
+import icpService from '../../services/icpService';
+import {
+  GLUCOSE_ENTRY_UNITS,
+  GlucoseBand,
+  MEAL_CONTEXT_LABELS,
+  createGlucoseEntryId,
+  glucoseBand,
+  summarizeGlucoseLog
+} from '../../utils/glucoseStats';
+
+interface GlucoseLogProps {
+  patientId: string;
+  showMessage: (message: string, type?: 'success' | 'error' | 'info' | 'warning') => void;
+}
+
+const PERIODS = [7, 14, 30, 90];
+
+const ENTRY_KINDS: { kind: GlucoseEntryKind; label: string; icon: string; min: number; max: number }[] = [
+  { kind: 'glucose', label: 'Blood Glucose', icon: '🩸', min: 20, max: 600 },
+  { kind: 'insulin', label: 'Insulin Dose', icon: '💉', min: 0.5, max: 200 },
+  { kind: 'hba1c', label: 'HbA1c Result', icon: '🧪', min: 3, max: 20 }
+];
+
+const BAND_STYLES: Record<GlucoseBand, { label: string; bar: string; text: string }> = {
+  very_low: { label: 'Very low (<54)', bar: 'bg-red-700', text: 'text-red-700' },
+  low: { label: 'Low (54-69)', bar: 'bg-red-400', text: 'text-red-600' },
+  in_range: { label: 'In range (70-180)', bar: 'bg-green-500', text: 'text-green-700' },
+  high: { label: 'High (181-250)', bar: 'bg-yellow-400', text: 'text-yellow-700' },
+  very_high: { label: 'Very high (>250)', bar: 'bg-orange-500', text: 'text-orange-700' }
+};
+
+// Value for a datetime-local input in the browser's time zone
+const toLocalInputValue = (time: number) => {
+  const date = new Date(time);
+  return new Date(time - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const emptyForm = () => ({
+  value: '',
+  mealContext: 'fasting' as MealContext,
+  insulinType: '',
+  notes: '',
+  recordedAt: toLocalInputValue(Date.now())
+});
+
+const GlucoseLog: React.FC<GlucoseLogProps> = ({ patientId, showMessage }) => {
+  const [entries, setEntries] = useState<GlucoseLogEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [period, setPeriod] = useState(14);
+  const [kind, setKind] = useState<GlucoseEntryKind>('glucose');
+  const [form, setForm] = useState(emptyForm);
+
+  const loadLog = useCallback(async () => {
+    setLoading(true);
+    try {
+      const result = await icpService.getGlucoseLog(patientId);
+      if (result.success) {
+        setEntries(result.data || []);
+      } else {
+        showMessage(result.error || 'Failed to load glucose log', 'error');
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, [patientId, showMessage]);
+
+  useEffect(() => {
+    loadLog();
+  }, [loadLog]);
+
+  const summary = useMemo(() => summarizeGlucoseLog(entries, period), [entries, period]);
+
+  const periodEntries = useMemo(() => {
+    const since = Date.now() - period * 24 * 60 * 60 * 1000;
+    return entries.filter(entry => entry.recordedAt >= since).reverse();
+  }, [entries, period]);
+
+  const handleSubmit = async () => {
+    const config = ENTRY_KINDS.find(option => option.kind === kind)!;
+    const value = Number(form.value);
+    if (!form.value || isNaN(value) || value < config.min || value > config.max) {
+      showMessage(`${config.label} must be between ${config.min} and ${config.max} ${GLUCOSE_ENTRY_UNITS[kind]}`, 'error');
+      return;
+    }
+
+    const recordedAt = form.recordedAt ? new Date(form.recordedAt).getTime() : Date.now();
+    if (isNaN(recordedAt) || recordedAt > Date.now() + 60000) {
+      showMessage('Please choose a time that is not in the future', 'error');
+      return;
+    }
+
+    const entry: GlucoseLogEntry = {
+      id: createGlucoseEntryId(),
+      kind,
+      value,
+      mealContext: kind === 'glucose' ? form.mealContext : undefined,
+      insulinType: kind === 'insulin' && form.insulinType.trim() ? form.insulinType.trim() : undefined,
+      notes: form.notes.trim() || undefined,
+      recordedAt
+    };
+
+    setSaving(true);
+    try {
+      const result = await icpService.addGlucoseLogEntry(patientId, entry);
+      if (result.success) {
+        setEntries(prev => [...prev, entry].sort((a, b) => a.recordedAt - b.recordedAt));
+        setForm(prev => ({ ...emptyForm(), mealContext: prev.mealContext, insulinType: prev.insulinType }));
+        showMessage(`${config.label} saved`, 'success');
+
+        if (kind === 'glucose' && glucoseBand(value) === 'very_low') {
+          showMessage('This reading is very low. Treat the low now and contact your doctor if it does not come up.', 'warning');
+        }
+      } else {
+        showMessage(result.error || 'Failed to save log entry', 'error');
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (entry: GlucoseLogEntry) => {
+    if (!window.confirm('Delete this log entry?')) return;
+
+    const result = await icpService.deleteGlucoseLogEntry(patientId, entry.id);
+    if (result.success) {
+      setEntries(prev => prev.filter(existing => existing.id !== entry.id));
+    } else {
+      showMessage(result.error || 'Failed to delete log entry', 'error');
+    }
+  };
+
+  const describeEntry = (entry: GlucoseLogEntry) => {
+    const config = ENTRY_KINDS.find(option => option.kind === entry.kind)!;
+    const details = [
+      entry.mealContext && MEAL_CONTEXT_LABELS[entry.mealContext],
+      entry.insulinType,
+      entry.notes
+    ].filter(Boolean);
+
+    return (
+      <li key={entry.id} className="px-6 py-3 flex justify-between items-center">
+        <div className="flex items-center space-x-3">
+          <span className="text-lg">{config.icon}</span>
+          <div>
+            <p className={`text-sm font-medium ${entry.kind === 'glucose' ? BAND_STYLES[glucoseBand(entry.value)].text : 'text-gray-900'}`}>
+              {entry.value} {GLUCOSE_ENTRY_UNITS[entry.kind]}
+              {entry.kind === 'hba1c' && ' HbA1c'}
+            </p>
+            <p className="text-xs text-gray-500">
+              {new Date(entry.recordedAt).toLocaleString()}
+              {details.length > 0 && ` · ${details.join(' · ')}`}
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={() => handleDelete(entry)}
+          className="text-gray-400 hover:text-gray-600 text-sm"
+          title="Delete this entry"
+        >
+          ×
+        </button>
+      </li>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Summary */}
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-medium text-gray-900">🩸 Glucose Summary</h3>
+          <div className="flex space-x-1">
+            {PERIODS.map(days => (
+              <button
+                key={days}
+                onClick={() => setPeriod(days)}
+                className={`px-2 py-1 rounded text-xs font-medium ${
+                  period === days ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                {days} days
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {loading ? (
+          <LoadingSpinner message="Loading glucose log..." className="py-6" />
+        ) : summary.readingCount === 0 ? (
+          <p className="text-sm text-gray-500">No glucose readings in the last {period} days.</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div>
+                <p className="text-sm text-gray-600">Average glucose</p>
+                <p className="text-2xl font-bold text-gray-900">{summary.averageGlucose} <span className="text-sm font-normal">mg/dL</span></p>
+              </div>
+              <div>
+                <p className="text-sm text-gray-600">Estimated HbA1c</p>
+                <p className="text-2xl font-bold text-gray-900">{summary.estimatedHbA1c?.toFixed(1)}%</p>
+                {summary.latestHbA1c && (
+                  <p className="text-xs text-gray-500">
+                    Lab: {summary.latestHbA1c.value}% on {new Date(summary.latestHbA1c.recordedAt).toLocaleDateString()}
+                  </p>
+                )}
+              </div>
+              <div>
+                <p className="text-sm text-gray-600">Time in range</p>
+                <p className="text-2xl font-bold text-green-600">{summary.timeInRange?.in_range}%</p>
+              </div>
+              <div>
+                <p className="text-sm text-gray-600">Readings</p>
+                <p className="text-2xl font-bold text-gray-900">{summary.readingCount}</p>
+                {summary.insulinUnitsPerDay !== undefined && (
+                  <p className="text-xs text-gray-500">Insulin: {summary.insulinUnitsPerDay} units/day</p>
+                )}
+              </div>
+            </div>
+
+            {summary.timeInRange && (
+              <div>
+                <div className="flex h-3 rounded-full overflow-hidden bg-gray-100">
+                  {(Object.keys(BAND_STYLES) as GlucoseBand[]).map(band => summary.timeInRange![band] > 0 && (
+                    <div
+                      key={band}
+                      className={BAND_STYLES[band].bar}
+                      style={{ width: `${summary.timeInRange![band]}%` }}
+                      title={`${BAND_STYLES[band].label}: ${summary.timeInRange![band]}%`}
+                    />
+                  ))}
+                </div>
+                <div className="flex flex-wrap gap-x-4 gap-y-1 mt-2 text-xs">
+                  {(Object.keys(BAND_STYLES) as GlucoseBand[]).map(band => (
+                    <span key={band} className={BAND_STYLES[band].text}>
+                      {BAND_STYLES[band].label}: {summary.timeInRange![band]}%
+                    </span>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="flex flex-wrap gap-2 text-xs">
+              {(Object.keys(summary.byMealContext) as MealContext[]).map(context => (
+                <span key={context} className="px-2 py-1 rounded-full bg-gray-100 text-gray-700">
+                  {MEAL_CONTEXT_LABELS[context]}: avg {Math.round(summary.byMealContext[context]!.average)} mg/dL
+                  ({summary.byMealContext[context]!.count})
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* New entry */}
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <h3 className="text-lg font-medium text-gray-900 mb-4">Add to Log</h3>
+        <div className="flex space-x-2 mb-4">
+          {ENTRY_KINDS.map(option => (
+            <button
+              key={option.kind}
+              onClick={() => setKind(option.kind)}
+              className={`px-3 py-2 rounded-md text-sm font-medium ${
+                kind === option.kind ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {option.icon} {option.label}
+            </button>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <FormField
+            label={`${ENTRY_KINDS.find(option => option.kind === kind)!.label} (${GLUCOSE_ENTRY_UNITS[kind]})`}
+            name="glucoseValue"
+            type="number"
+            value={form.value}
+            onChange={(e) => setForm(prev => ({ ...prev, value: e.target.value }))}
+            placeholder={kind === 'glucose' ? 'e.g., 120' : kind === 'insulin' ? 'e.g., 10' : 'e.g., 7.2'}
+            required
+          />
+          <div>
+            <label htmlFor="glucoseRecordedAt" className="block text-sm font-medium text-gray-700 mb-1">Time</label>
+            <input
+              id="glucoseRecordedAt"
+              type="datetime-local"
+              value={form.recordedAt}
+              max={toLocalInputValue(Date.now())}
+              onChange={(e) => setForm(prev => ({ ...prev, recordedAt: e.target.value }))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+        </div>
+
+        {kind === 'glucose' && (
+          <div className="mt-4">
+            <p className="text-sm font-medium text-gray-700 mb-2">When was this taken?</p>
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(MEAL_CONTEXT_LABELS) as MealContext[]).map(context => (
+                <button
+                  key={context}
+                  onClick={() => setForm(prev => ({ ...prev, mealContext: context }))}
+                  className={`px-3 py-1 rounded-full text-sm ${
+                    form.mealContext === context ? 'bg-green-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                  }`}
+                >
+                  {MEAL_CONTEXT_LABELS[context]}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {kind === 'insulin' && (
+          <FormField
+            label="Insulin type"
+            name="insulinType"
+            value={form.insulinType}
+            onChange={(e) => setForm(prev => ({ ...prev, insulinType: e.target.value }))}
+            placeholder="e.g., Glargine, Actrapid"
+            className="mt-4"
+          />
+        )}
+
+        <FormField
+          label="Notes"
+          name="glucoseNotes"
+          value={form.notes}
+          onChange={(e) => setForm(prev => ({ ...prev, notes: e.target.value }))}
+          placeholder="Optional, e.g. after a long walk"
+          maxLength={200}
+          className="mt-4"
+        />
+
+        <Button onClick={handleSubmit} loading={saving} disabled={saving} className="mt-4">
+          Save Entry
+        </Button>
+      </div>
+
+      {/* Entries */}
+      <div className="bg-white rounded-lg shadow-md">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h3 className="text-lg font-medium text-gray-900">Log Entries (last {period} days)</h3>
+        </div>
+        {periodEntries.length === 0 ? (
+          <p className="px-6 py-4 text-sm text-gray-500">Nothing logged in this period.</p>
+        ) : (
+          <ul className="divide-y divide-gray-200">{periodEntries.map(describeEntry)}</ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default GlucoseLog;
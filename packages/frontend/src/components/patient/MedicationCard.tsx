@@ -0,0 +1,143 @@
+// Medication Card Component - Patient's current medications from signed prescriptions, with refill requests
+import React, { useEffect, useState } from 'react';
+import { Prescription } from '../../types';
+import Button from '../common/Button';
+import LoadingSpinner from '../common/LoadingSpinner';
+import PrescriptionView from '../common/PrescriptionView';
+import icpService from '../../services/icpService';
+import { formatters } from '../../utils/formatters';
+import { currentMedications } from '../../utils/prescription';
+
+interface MedicationCardProps {
+  patientId: string;
+  patientName: string;
+  showMessage: (message: string, type?: 'success' | 'error' | 'info' | 'warning') => void;
+  onRefillRequested: (queryId: string) => void;
+}
+
+const MedicationCard: React.FC<MedicationCardProps> = ({ patientId, patientName, showMessage, onRefillRequested }) => {
+  const [prescriptions, setPrescriptions] = useState<Prescription[] | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [requesting, setRequesting] = useState<string | null>(null);
+  const [openPrescription, setOpenPrescription] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoadError(null);
+    icpService.getPatientPrescriptions(patientId).then(result => {
+      if (cancelled) return;
+      if (result.success) {
+        setPrescriptions(result.data || []);
+      } else {
+        setLoadError(result.error || 'Unknown error');
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [patientId]);
+
+  const handleRefill = async (prescription: Prescription) => {
+    setRequesting(prescription.id);
+    try {
+      const result = await icpService.requestPrescriptionRefill(prescription.id, patientId);
+      if (result.success && result.data) {
+        showMessage('Refill requested - a doctor will review it like any other query', 'success');
+        onRefillRequested(result.data);
+      } else {
+        showMessage(`Error: ${result.error}`, 'error');
+      }
+    } finally {
+      setRequesting(null);
+    }
+  };
+
+  if (loadError) {
+    return <p className="text-sm text-red-600">Could not load your prescriptions: {loadError}</p>;
+  }
+
+  if (!prescriptions) {
+    return (
+      <div className="flex justify-center py-8">
+        <LoadingSpinner message="Loading medications..." />
+      </div>
+    );
+  }
+
+  if (prescriptions.length === 0) {
+    return (
+      <div className="bg-white rounded-lg shadow-md p-8 text-center text-gray-500">
+        <div className="text-4xl mb-4">💊</div>
+        <p className="text-lg font-medium text-gray-700 mb-2">No prescriptions yet</p>
+        <p className="text-sm">Medications your doctor prescribes in a response will appear here.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <h3 className="text-lg font-medium text-gray-900 mb-4">💊 Current Medications</h3>
+        <div className="grid gap-3 md:grid-cols-2">
+          {currentMedications(prescriptions).map(({ medication, prescription }) => (
+            <div key={`${prescription.id}_${medication.name}`} className="border border-gray-200 rounded-lg p-4">
+              <p className="font-semibold text-gray-900">{medication.name}</p>
+              <p className="text-sm text-gray-700">
+                {medication.dosage} | {medication.frequency}
+                {medication.duration && <> | {medication.duration}</>}
+              </p>
+              {medication.instructions && <p className="text-sm text-gray-600 mt-1">{medication.instructions}</p>}
+              <p className="text-xs text-gray-500 mt-2">
+                Dr. {prescription.doctorName} | {formatters.formatDate(new Date(prescription.issuedAt))}
+              </p>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <h3 className="text-lg font-medium text-gray-900 mb-4">Prescriptions</h3>
+        <div className="space-y-3">
+          {prescriptions.map(prescription => (
+            <div key={prescription.id} className="border border-gray-200 rounded-lg p-4">
+              <div className="flex flex-wrap justify-between items-center gap-2">
+                <div>
+                  <p className="font-medium text-gray-900">
+                    {prescription.id} - {prescription.medications.map(medication => medication.name).join(', ')}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    Dr. {prescription.doctorName} | {formatters.formatDate(new Date(prescription.issuedAt))}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    size="small"
+                    variant="secondary"
+                    onClick={() => setOpenPrescription(openPrescription === prescription.id ? null : prescription.id)}
+                  >
+                    {openPrescription === prescription.id ? 'Hide' : 'View'}
+                  </Button>
+                  <Button
+                    size="small"
+                    onClick={() => handleRefill(prescription)}
+                    loading={requesting === prescription.id}
+                    disabled={requesting !== null}
+                  >
+                    Request refill
+                  </Button>
+                </div>
+              </div>
+              {openPrescription === prescription.id && (
+                <div className="mt-3">
+                  <PrescriptionView prescription={prescription} patientName={patientName} />
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MedicationCard;
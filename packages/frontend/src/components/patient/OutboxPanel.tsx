@@ -0,0 +1,100 @@
+// Outbox Panel Component - Sync status of queries saved on this device while offline
+import React, { useEffect, useRef } from 'react';
+import Button from '../common/Button';
+import { OutboxItem, OutboxItemStatus, useQueryOutbox } from '../../services/queryOutbox';
+import { formatters } from '../../utils/formatters';
+
+interface OutboxPanelProps {
+  patientId: string;
+  onDelivered?: (queryId: string) => void;
+}
+
+const STATUS_STYLES: Record<OutboxItemStatus, { label: string; className: string }> = {
+  pending: { label: '⏳ Waiting to send', className: 'text-yellow-700 bg-yellow-100' },
+  sending: { label: '📤 Sending...', className: 'text-blue-700 bg-blue-100' },
+  failed: { label: '⚠️ Not sent', className: 'text-red-700 bg-red-100' },
+  sent: { label: '✅ Sent to your doctor', className: 'text-green-700 bg-green-100' }
+};
+
+const describeRetry = (item: OutboxItem): string | null => {
+  if (item.status !== 'pending' || item.attempts === 0) return null;
+  const seconds = Math.max(Math.ceil((item.nextAttemptAt - Date.now()) / 1000), 0);
+  return seconds > 0
+    ? `Attempt ${item.attempts} failed - retrying in about ${seconds < 60 ? `${seconds}s` : `${Math.ceil(seconds / 60)} min`}`
+    : `Attempt ${item.attempts} failed - retrying now`;
+};
+
+const OutboxPanel: React.FC<OutboxPanelProps> = ({ patientId, onDelivered }) => {
+  const { items, retry, discard } = useQueryOutbox(patientId);
+  const previousStatuses = useRef<Record<string, OutboxItemStatus>>({});
+
+  // Let the dashboard reload its query list when something goes through
+  useEffect(() => {
+    items.forEach(item => {
+      const previous = previousStatuses.current[item.id];
+      if (item.status === 'sent' && previous && previous !== 'sent') {
+        onDelivered?.(item.queryId || '');
+      }
+    });
+    previousStatuses.current = Object.fromEntries(items.map(item => [item.id, item.status]));
+  }, [items, onDelivered]);
+
+  if (items.length === 0) return null;
+
+  const unsentCount = items.filter(item => item.status !== 'sent').length;
+
+  return (
+    <div className="bg-white rounded-lg shadow-md mb-6">
+      <div className="px-6 py-4 border-b border-gray-200">
+        <h3 className="text-lg font-medium text-gray-900">📤 Outbox</h3>
+        <p className="text-sm text-gray-600">
+          {unsentCount > 0
+            ? `${unsentCount} ${unsentCount === 1 ? 'query is' : 'queries are'} saved on this device and will be sent automatically when you are online.`
+            : 'All saved queries have been sent.'}
+        </p>
+      </div>
+
+      <ul className="divide-y divide-gray-200">
+        {items.map(item => {
+          const status = STATUS_STYLES[item.status];
+          const retryNote = describeRetry(item);
+
+          return (
+            <li key={item.id} className="px-6 py-4 flex justify-between items-start gap-4">
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-gray-900 truncate">{item.title}</p>
+                <p className="text-xs text-gray-500">Saved {formatters.formatDate(new Date(item.createdAt))}</p>
+                {retryNote && <p className="text-xs text-gray-500 mt-1">{retryNote}</p>}
+                {item.status === 'failed' && item.lastError && (
+                  <p className="text-xs text-red-600 mt-1">{item.lastError}</p>
+                )}
+              </div>
+
+              <div className="flex items-center space-x-2 flex-shrink-0">
+                <span className={`px-2 py-1 rounded-full text-xs font-medium ${status.className}`}>
+                  {status.label}
+                </span>
+                {item.status === 'failed' && (
+                  <Button onClick={() => retry(item.id)} size="small" variant="secondary">
+                    Retry
+                  </Button>
+                )}
+                {item.status !== 'sending' && (
+                  <button
+                    onClick={() => discard(item.id)}
+                    className="text-gray-400 hover:text-gray-600 text-sm"
+                    title={item.status === 'sent' ? 'Dismiss' : 'Discard this query'}
+                  >
+                    ×
+                  </button>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default OutboxPanel;
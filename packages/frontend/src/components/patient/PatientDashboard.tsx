@@ -1,11 +1,14 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { Patient, MedicalQuery, QueryStatus } from '../../types';
+import { NavLink, Outlet, useOutletContext } from 'react-router-dom';
+import { Patient, MedicalQuery, QueryFeedback, ConsentRecord, ConsentStatus } from '../../types';
 import Button from '../common/Button';
-import LoadingSpinner from '../common/LoadingSpinner';
-import QuerySubmission from './QuerySubmission';
 import QueryStatusNotification from './QueryStatusNotification';
+import OutboxPanel from './OutboxPanel';
+import ConsentPrompt from './ConsentPrompt';
 import icpService from '../../services/icpService';
-import { formatters } from '../../utils/formatters';
+import { useWebSocket } from '../../services/websocket';
+import { useTranslation } from '../../contexts/LanguageContext';
+import { pendingConsents } from '../../utils/consent';
 
 interface PatientDashboardProps {
   patient: Patient;
@@ -15,11 +18,31 @@ interface PatientDashboardProps {
   setLoading?: (loading: boolean) => void;
 }
 
-interface QueryWithEstimate extends MedicalQuery {
+export interface QueryWithEstimate extends MedicalQuery {
   estimatedResponseTime?: string;
   timeRemaining?: string;
 }
 
+// Shared with the routed views rendered inside the dashboard
+export interface PatientDashboardContext {
+  patient: Patient;
+  queries: QueryWithEstimate[];
+  pendingQueries: QueryWithEstimate[];
+  completedQueries: QueryWithEstimate[];
+  loading: boolean;
+  loadPatientQueries: () => Promise<void>;
+  showMessage: (message: string, type?: 'success' | 'error' | 'info' | 'warning') => void;
+  parentLoading: boolean;
+  setParentLoading: (loading: boolean) => void;
+  feedback: QueryFeedback[];
+  recordFeedback: (feedback: QueryFeedback) => void;
+  consentStatuses: ConsentStatus[];
+  consentsLoaded: boolean;
+  recordConsentDecision: (record: ConsentRecord) => void;
+}
+
+export const usePatientDashboard = () => useOutletContext<PatientDashboardContext>();
+
 const PatientDashboard: React.FC<PatientDashboardProps> = ({
   patient,
   onLogout,
@@ -27,17 +50,23 @@ const PatientDashboard: React.FC<PatientDashboardProps> = ({
   loading: parentLoading = false,
   setLoading: setParentLoading = () => {}
 }) => {
-  const [activeTab, setActiveTab] = useState<'overview' | 'queries' | 'new-query'>('overview');
+  const { language, t } = useTranslation();
   const [queries, setQueries] = useState<QueryWithEstimate[]>([]);
   const [loading, setLoading] = useState(false);
   const [notifications, setNotifications] = useState<string[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [lastRefresh, setLastRefresh] = useState<Date | null>(null);
   const [realtimeUpdates, setRealtimeUpdates] = useState(0);
+  const [feedback, setFeedback] = useState<QueryFeedback[]>([]);
+  const [consentStatuses, setConsentStatuses] = useState<ConsentStatus[]>([]);
+  const [consentsLoaded, setConsentsLoaded] = useState(false);
   
-  const [wsConnected] = useState(false);
-  const [connectionStatus] = useState({ reconnecting: false });
-
+  // WebSocket integration for real-time updates
+  const {
+    isConnected: wsConnected,
+    connectionStatus,
+    subscribe
+  } = useWebSocket(patient.id, 'patient');
 
   useEffect(() => {
     loadPatientQueries();
@@ -47,15 +76,61 @@ const PatientDashboard: React.FC<PatientDashboardProps> = ({
     return () => clearInterval(timeUpdateInterval);
   }, [patient.id]);
 
+  // Ratings the patient has already given, so answers are only rated once
+  useEffect(() => {
+    let cancelled = false;
+    icpService.getPatientFeedback(patient.id).then(result => {
+      if (!cancelled && result.success) setFeedback(result.data || []);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [patient.id]);
+
+  const recordFeedback = (item: QueryFeedback) => {
+    setFeedback(prev => [item].concat(prev.filter(existing => existing.queryId !== item.queryId)));
+  };
+
+  // Where the patient stands on each current consent document; new or updated ones are prompted for below
+  useEffect(() => {
+    let cancelled = false;
+    icpService.getConsentStatus(patient.id).then(result => {
+      if (cancelled) return;
+      if (result.success) setConsentStatuses(result.data || []);
+      setConsentsLoaded(true);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [patient.id]);
+
+  // The patient's record carries the language they read in, so doctors and AI drafts can answer in it
+  useEffect(() => {
+    let cancelled = false;
+    icpService.getPreferredLanguage(patient.id).then(async result => {
+      if (cancelled || !result.success || result.data === language) return;
+      const saved = await icpService.setPreferredLanguage(patient.id, language);
+      if (!cancelled && !saved.success) {
+        showMessage(t('language.syncFailed', { error: saved.error }), 'warning');
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [patient.id, language]);
+
+  // The canister only accepts decisions on the current version, so a recorded decision settles the document
+  const recordConsentDecision = (record: ConsentRecord) => {
+    setConsentStatuses(prev => prev.map(status =>
+      status.document.kind === record.kind ? { ...status, latest: record, needsReconsent: false } : status
+    ));
+  };
+
   // WebSocket event handlers
+  // Updates carry ids and status only; query details are read from the canister
   const handleQueryCreated = useCallback((data: any) => {
     if (data.query && data.query.patientId === patient.id) {
-      const queryWithEstimate = {
-        ...data.query,
-        estimatedResponseTime: calculateEstimatedResponseTime(data.query),
-        timeRemaining: calculateTimeRemaining(data.query)
-      };
-      setQueries(prev => [queryWithEstimate, ...prev]);
+      loadPatientQueries();
       showMessage('Your query has been submitted and is being processed', 'success');
       setRealtimeUpdates(prev => prev + 1);
     }
@@ -63,13 +138,16 @@ const PatientDashboard: React.FC<PatientDashboardProps> = ({
 
   const handleQueryUpdated = useCallback((data: any) => {
     if (data.query && data.query.patientId === patient.id) {
-      setQueries(prev => prev.map(query => 
-        query.id === data.query.id ? {
-          ...data.query,
-          estimatedResponseTime: calculateEstimatedResponseTime(data.query),
-          timeRemaining: calculateTimeRemaining(data.query)
-        } : query
-      ));
+      // Updates carry the changed fields only
+      setQueries(prev => prev.map(query => {
+        if (query.id !== data.query.id) return query;
+        const updated = { ...query, ...data.query };
+        return {
+          ...updated,
+          estimatedResponseTime: calculateEstimatedResponseTime(updated),
+          timeRemaining: calculateTimeRemaining(updated)
+        };
+      }));
       setRealtimeUpdates(prev => prev + 1);
       
       // Show notification for status changes
@@ -89,19 +167,21 @@ const PatientDashboard: React.FC<PatientDashboardProps> = ({
 
   const handleResponseReceived = useCallback((data: any) => {
     if (data.query && data.query.patientId === patient.id) {
+      const title = queries.find(query => query.id === data.query.id)?.title || 'your query';
       setQueries(prev => prev.map(query => 
         query.id === data.query.id ? {
+          ...query,
           ...data.query,
           estimatedResponseTime: 'Completed',
           timeRemaining: 'Completed'
         } : query
       ));
       
-      showMessage(`You have received a response for "${data.query.title}"!`, 'success');
-      setNotifications(prev => [`✅ New response received for "${data.query.title}"`, ...prev].slice(0, 10));
+      showMessage(`You have received a response for "${title}"!`, 'success');
+      setNotifications(prev => [`✅ New response received for "${title}"`, ...prev].slice(0, 10));
       setRealtimeUpdates(prev => prev + 1);
     }
-  }, [patient.id, showMessage]);
+  }, [patient.id, queries, showMessage]);
 
   const handleNotification = useCallback((data: any) => {
     if (data.targetUser === patient.id || data.targetUserType === 'patient') {
@@ -110,6 +190,22 @@ const PatientDashboard: React.FC<PatientDashboardProps> = ({
     }
   }, [patient.id, showMessage]);
 
+  // WebSocket event listeners
+  useEffect(() => {
+    if (!wsConnected) return;
+
+    const unsubscribeFunctions = [
+      subscribe('query_created', handleQueryCreated),
+      subscribe('query_updated', handleQueryUpdated),
+      subscribe('response_received', handleResponseReceived),
+      subscribe('notification', handleNotification)
+    ];
+
+    return () => {
+      unsubscribeFunctions.forEach(unsub => unsub());
+    };
+  }, [wsConnected, subscribe, handleQueryCreated, handleQueryUpdated, handleResponseReceived, handleNotification]);
+
   const loadPatientQueries = async () => {
     setLoading(true);
     setError(null);
@@ -229,36 +325,26 @@ const PatientDashboard: React.FC<PatientDashboardProps> = ({
     setNotifications(prev => prev.filter((_, i) => i !== index));
   };
 
-  const getStatusIcon = (status: QueryStatus) => {
-    switch (status) {
-      case 'pending': return '⏳';
-      case 'doctor_review': return '👨‍⚕️';
-      case 'completed': return '✅';
-      default: return '📋';
-    }
-  };
-
-  const getStatusText = (status: QueryStatus) => {
-    switch (status) {
-      case 'pending': return '🤖 AI Analyzed - Awaiting Doctor Review';
-      case 'doctor_review': return '👨‍⚕️ Under Doctor Review';
-      case 'completed': return '✅ Doctor Response Received';
-      default: return 'Processing';
-    }
-  };
-
-  const getStatusColor = (status: QueryStatus) => {
-    switch (status) {
-      case 'pending': return 'text-yellow-600 bg-yellow-100';
-      case 'doctor_review': return 'text-blue-600 bg-blue-100';
-      case 'completed': return 'text-green-600 bg-green-100';
-      default: return 'text-gray-600 bg-gray-100';
-    }
-  };
-
   const pendingQueries = queries.filter(q => q.status === 'pending' || q.status === 'doctor_review');
   const completedQueries = queries.filter(q => q.status === 'completed');
 
+  const outletContext: PatientDashboardContext = {
+    patient,
+    queries,
+    pendingQueries,
+    completedQueries,
+    loading,
+    loadPatientQueries,
+    showMessage,
+    parentLoading,
+    setParentLoading,
+    feedback,
+    recordFeedback,
+    consentStatuses,
+    consentsLoaded,
+    recordConsentDecision
+  };
+
   return (
     <div className="max-w-6xl mx-auto p-6">
       {/* Header */}
@@ -266,18 +352,18 @@ const PatientDashboard: React.FC<PatientDashboardProps> = ({
         <div className="flex justify-between items-start">
           <div>
             <h1 className="text-2xl font-bold text-gray-900 mb-2">
-              Welcome back, {patient.name}
+              {t('patientDashboard.welcome', { name: patient.name })}
             </h1>
             <div className="text-sm text-gray-600 space-y-1">
-              <p>Patient ID: {patient.id}</p>
-              <p>Condition: {patient.condition}</p>
-              <p>Status: {patient.isActive ? 'Active' : 'Inactive'}</p>
+              <p>{t('patientDashboard.patientId', { id: patient.id })}</p>
+              <p>{t('patientDashboard.condition', { condition: patient.condition })}</p>
+              <p>{t('patientDashboard.status', { status: t(patient.isActive ? 'common.active' : 'common.inactive') })}</p>
               {patient.assignedDoctorId && (
-                <p>Assigned Doctor: {patient.assignedDoctorId}</p>
+                <p>{t('patientDashboard.assignedDoctor', { doctorId: patient.assignedDoctorId })}</p>
               )}
               {lastRefresh && (
                 <p className="text-xs text-gray-400">
-                  Last updated: {lastRefresh.toLocaleTimeString()}
+                  {t('common.lastUpdated', { time: lastRefresh })}
                 </p>
               )}
               {/* Connection Status */}
@@ -292,13 +378,13 @@ const PatientDashboard: React.FC<PatientDashboardProps> = ({
                   connectionStatus.reconnecting ? 'text-yellow-600' : 
                   'text-red-600'
                 }>
-                  {wsConnected ? 'Live updates' : 
-                   connectionStatus.reconnecting ? 'Reconnecting...' : 
-                   'Offline mode'}
+                  {wsConnected ? t('common.liveUpdates') : 
+                   connectionStatus.reconnecting ? t('common.reconnecting') : 
+                   t('common.offlineMode')}
                 </span>
                 {realtimeUpdates > 0 && (
                   <span className="text-blue-600">
-                    ({realtimeUpdates} updates)
+                    {t('patientDashboard.updates', { count: realtimeUpdates })}
                   </span>
                 )}
               </div>
@@ -312,14 +398,14 @@ const PatientDashboard: React.FC<PatientDashboardProps> = ({
               disabled={loading}
               className="text-sm"
             >
-              {loading ? 'Refreshing...' : 'Refresh'}
+              {loading ? t('common.refreshing') : t('common.refresh')}
             </Button>
             <Button
               onClick={onLogout}
               variant="secondary"
               className="text-sm"
             >
-              Logout
+              {t('common.logout')}
             </Button>
           </div>
         </div>
@@ -333,7 +419,7 @@ const PatientDashboard: React.FC<PatientDashboardProps> = ({
               <span className="text-red-500 text-lg">⚠️</span>
             </div>
             <div className="ml-3 flex-1">
-              <h3 className="text-sm font-medium text-red-800">Unable to Load Data</h3>
+              <h3 className="text-sm font-medium text-red-800">{t('patientDashboard.loadFailed')}</h3>
               <p className="text-sm text-red-700 mt-1">{error}</p>
             </div>
             <Button
@@ -342,7 +428,7 @@ const PatientDashboard: React.FC<PatientDashboardProps> = ({
               variant="secondary"
               className="ml-3 text-red-700 border-red-300 hover:bg-red-100"
             >
-              Try Again
+              {t('common.tryAgain')}
             </Button>
           </div>
         </div>
@@ -368,29 +454,49 @@ const PatientDashboard: React.FC<PatientDashboardProps> = ({
         </div>
       )}
 
+      {/* New or updated consent documents */}
+      <ConsentPrompt
+        patientId={patient.id}
+        pending={pendingConsents(consentStatuses)}
+        onRecorded={recordConsentDecision}
+        showMessage={showMessage}
+      />
+
       {/* Query Status Notifications */}
       <QueryStatusNotification 
         queries={queries}
         showMessage={showMessage}
+        patientId={patient.id}
+        feedback={feedback}
+        onFeedbackSubmitted={recordFeedback}
         onDismiss={(queryId, type) => {
           console.log(`Dismissed ${type} notification for query ${queryId}`);
         }}
       />
 
+      {/* Queries saved offline */}
+      <OutboxPanel patientId={patient.id} onDelivered={loadPatientQueries} />
+
       {/* Navigation Tabs */}
       <div className="mb-6">
         <div className="border-b border-gray-200">
           <nav className="-mb-px flex space-x-8">
             {[
-              { id: 'overview', label: 'Overview', count: queries.length },
-              { id: 'queries', label: 'Query History', count: null },
-              { id: 'new-query', label: 'Submit New Query', count: null }
+              { path: '/patient', label: t('patientDashboard.tab.overview'), count: queries.length },
+              { path: '/patient/queries', label: t('patientDashboard.tab.queryHistory'), count: null },
+              { path: '/patient/new-query', label: t('patientDashboard.tab.newQuery'), count: null },
+              { path: '/patient/glucose', label: t('patientDashboard.tab.glucoseLog'), count: null },
+              { path: '/patient/medications', label: t('patientDashboard.tab.medications'), count: null },
+              { path: '/patient/profile', label: t('patientDashboard.tab.profile'), count: null },
+              { path: '/patient/consents', label: t('patientDashboard.tab.consents'), count: null },
+              { path: '/patient/access-history', label: t('patientDashboard.tab.accessHistory'), count: null }
             ].map((tab) => (
-              <button
-                key={tab.id}
-                onClick={() => setActiveTab(tab.id as any)}
-                className={`py-2 px-1 border-b-2 font-medium text-sm whitespace-nowrap ${
-                  activeTab === tab.id
+              <NavLink
+                key={tab.path}
+                to={tab.path}
+                end={tab.path === '/patient'}
+                className={({ isActive }) => `py-2 px-1 border-b-2 font-medium text-sm whitespace-nowrap ${
+                  isActive
                     ? 'border-blue-500 text-blue-600'
                     : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
                 }`}
@@ -401,229 +507,14 @@ const PatientDashboard: React.FC<PatientDashboardProps> = ({
                     {tab.count}
                   </span>
                 )}
-              </button>
+              </NavLink>
             ))}
           </nav>
         </div>
       </div>
 
-      {/* Tab Content */}
-      {activeTab === 'overview' && (
-        <div className="space-y-6">
-          {/* Stats Cards */}
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-            <div className="bg-white rounded-lg shadow-md p-6">
-              <div className="flex items-center">
-                <div className="flex-shrink-0">
-                  <span className="text-2xl">📋</span>
-                </div>
-                <div className="ml-4">
-                  <p className="text-sm font-medium text-gray-600">Total Queries</p>
-                  <p className="text-2xl font-bold text-gray-900">{queries.length}</p>
-                </div>
-              </div>
-            </div>
-            
-            <div className="bg-white rounded-lg shadow-md p-6">
-              <div className="flex items-center">
-                <div className="flex-shrink-0">
-                  <span className="text-2xl">⏳</span>
-                </div>
-                <div className="ml-4">
-                  <p className="text-sm font-medium text-gray-600">Pending</p>
-                  <p className="text-2xl font-bold text-yellow-600">{pendingQueries.length}</p>
-                </div>
-              </div>
-            </div>
-            
-            <div className="bg-white rounded-lg shadow-md p-6">
-              <div className="flex items-center">
-                <div className="flex-shrink-0">
-                  <span className="text-2xl">✅</span>
-                </div>
-                <div className="ml-4">
-                  <p className="text-sm font-medium text-gray-600">Completed</p>
-                  <p className="text-2xl font-bold text-green-600">{completedQueries.length}</p>
-                </div>
-              </div>
-            </div>
-          </div>
-
-          {/* Recent Queries */}
-          <div className="bg-white rounded-lg shadow-md">
-            <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center">
-              <h3 className="text-lg font-medium text-gray-900">Recent Queries</h3>
-              <Button
-                onClick={() => setActiveTab('new-query')}
-                size="small"
-              >
-                Submit New Query
-              </Button>
-            </div>
-            <div className="divide-y divide-gray-200">
-              {loading ? (
-                <div className="p-8 text-center">
-                  <LoadingSpinner />
-                </div>
-              ) : queries.length === 0 ? (
-                <div className="p-8 text-center text-gray-500">
-                  <div className="text-4xl mb-4">📋</div>
-                  <p className="text-lg font-medium text-gray-700 mb-2">No queries yet</p>
-                  <p className="text-sm text-gray-500 mb-4">Submit your first medical query to get started!</p>
-                  {!patient.assignedDoctorId && (
-                    <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 mt-4">
-                      <p className="text-yellow-800 text-sm">
-                        ⚠️ You need to be assigned to a doctor before you can submit queries.
-                      </p>
-                    </div>
-                  )}
-                </div>
-              ) : (
-                queries.slice(0, 5).map((query) => (
-                  <div key={query.id} id={`query-${query.id}`} className="p-6 transition-all duration-300">
-                    <div className="flex items-start justify-between">
-                      <div className="flex-1">
-                        <div className="flex items-center mb-2">
-                          <span className="text-lg mr-2">{getStatusIcon(query.status)}</span>
-                          <h4 className="text-lg font-medium text-gray-900">{query.title}</h4>
-                        </div>
-                        <p className="text-gray-600 mb-3">{query.description}</p>
-                        <div className="flex items-center space-x-4 text-sm text-gray-500">
-                          <span>Submitted: {formatters.formatDate(new Date(Number(query.createdAt) / 1000000))}</span>
-                          <span className={`px-2 py-1 rounded-full text-xs ${getStatusColor(query.status)}`}>
-                            {getStatusText(query.status)}
-                          </span>
-                          {query.status !== 'completed' && (
-                            <span className="text-blue-600 font-medium">
-                              {query.timeRemaining}
-                            </span>
-                          )}
-                        </div>
-                        {/* AI responses are only visible to doctors */}
-                        {query.response && (
-                          <div className="mt-3 p-4 bg-green-50 rounded-md">
-                            <p className="text-sm font-medium text-green-800 mb-2">Doctor's Response:</p>
-                            <p className="text-sm text-green-700">{query.response}</p>
-                          </div>
-                        )}
-                      </div>
-                    </div>
-                  </div>
-                ))
-              )}
-            </div>
-          </div>
-        </div>
-      )}
-
-      {activeTab === 'queries' && (
-        <div className="space-y-6">
-          {/* Pending Queries */}
-          {pendingQueries.length > 0 && (
-            <div className="bg-white rounded-lg shadow-md">
-              <div className="px-6 py-4 border-b border-gray-200">
-                <h3 className="text-lg font-medium text-gray-900">
-                  Pending Queries ({pendingQueries.length})
-                </h3>
-              </div>
-              <div className="divide-y divide-gray-200">
-                {pendingQueries.map((query) => (
-                  <div key={query.id} id={`query-${query.id}`} className="p-6 transition-all duration-300">
-                    <div className="flex items-start justify-between">
-                      <div className="flex-1">
-                        <div className="flex items-center mb-2">
-                          <span className="text-lg mr-2">{getStatusIcon(query.status)}</span>
-                          <h4 className="text-lg font-medium text-gray-900">{query.title}</h4>
-                          <span className={`ml-3 px-2 py-1 rounded-full text-xs ${getStatusColor(query.status)}`}>
-                            {getStatusText(query.status)}
-                          </span>
-                        </div>
-                        <p className="text-gray-600 mb-3">{query.description}</p>
-                        <div className="flex items-center space-x-4 text-sm text-gray-500 mb-3">
-                          <span>Submitted: {formatters.formatDate(new Date(Number(query.createdAt) / 1000000))}</span>
-                          <span className="text-blue-600 font-medium">
-                            Est. Response: {query.estimatedResponseTime}
-                          </span>
-                          <span className="text-orange-600 font-medium">
-                            {query.timeRemaining}
-                          </span>
-                        </div>
-                        {query.aiDraftResponse && (
-                          <div className="p-3 bg-blue-50 rounded-md">
-                            <p className="text-sm text-blue-800">
-                              <strong>AI Analysis:</strong> {query.aiDraftResponse}
-                            </p>
-                          </div>
-                        )}
-                      </div>
-                    </div>
-                  </div>
-                ))}
-              </div>
-            </div>
-          )}
-
-          {/* Completed Queries */}
-          <div className="bg-white rounded-lg shadow-md">
-            <div className="px-6 py-4 border-b border-gray-200">
-              <h3 className="text-lg font-medium text-gray-900">
-                Completed Queries ({completedQueries.length})
-              </h3>
-            </div>
-            <div className="divide-y divide-gray-200">
-              {completedQueries.length === 0 ? (
-                <div className="p-8 text-center text-gray-500">
-                  <p>No completed queries yet.</p>
-                </div>
-              ) : (
-                completedQueries.map((query) => (
-                  <div key={query.id} id={`query-${query.id}`} className="p-6 transition-all duration-300">
-                    <div className="flex items-start justify-between">
-                      <div className="flex-1">
-                        <div className="flex items-center mb-2">
-                          <span className="text-lg mr-2">{getStatusIcon(query.status)}</span>
-                          <h4 className="text-lg font-medium text-gray-900">{query.title}</h4>
-                          <span className={`ml-3 px-2 py-1 rounded-full text-xs ${getStatusColor(query.status)}`}>
-                            Completed
-                          </span>
-                        </div>
-                        <p className="text-gray-600 mb-3">{query.description}</p>
-                        <div className="flex items-center space-x-4 text-sm text-gray-500 mb-3">
-                          <span>Submitted: {formatters.formatDate(new Date(Number(query.createdAt) / 1000000))}</span>
-                          <span>Completed: {formatters.formatDate(new Date(Number(query.updatedAt) / 1000000))}</span>
-                        </div>
-                        {query.response && (
-                          <div className="p-4 bg-green-50 rounded-md">
-                            <p className="text-sm font-medium text-green-800 mb-2">Doctor's Response:</p>
-                            <p className="text-sm text-green-700">{query.response}</p>
-                          </div>
-                        )}
-                      </div>
-                    </div>
-                  </div>
-                ))
-              )}
-            </div>
-          </div>
-        </div>
-      )}
-
-      {activeTab === 'new-query' && (
-        <div className="bg-white rounded-lg shadow-md p-6">
-          <h3 className="text-lg font-medium text-gray-900 mb-4">Submit New Medical Query</h3>
-          <QuerySubmission
-            patient={patient}
-            onQuerySubmitted={() => {
-              loadPatientQueries();
-              setActiveTab('overview');
-              showMessage('Query submitted successfully! You will receive updates as it progresses.', 'success');
-            }}
-            showMessage={showMessage}
-            loading={parentLoading}
-            setLoading={setParentLoading}
-          />
-        </div>
-      )}
+      {/* Active view, addressed by the URL */}
+      <Outlet context={outletContext} />
     </div>
   );
 };
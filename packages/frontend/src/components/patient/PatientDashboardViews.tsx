@@ -0,0 +1,453 @@
+// Patient Dashboard Views - Routed views rendered inside the patient dashboard layout
+import React, { useEffect, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { EscalationEvent, MedicalQuery, Prescription, QueryStatus } from '../../types';
+import Button from '../common/Button';
+import LoadingSpinner from '../common/LoadingSpinner';
+import PrescriptionView from '../common/PrescriptionView';
+import QuerySubmission from './QuerySubmission';
+import PatientQueryConversation from './PatientQueryConversation';
+import PatientQueryAttachments from './PatientQueryAttachments';
+import MedicationCard from './MedicationCard';
+import QueryRatingPrompt, { RatingStars } from './QueryRatingPrompt';
+import QueryManagement from '../QueryManagement';
+import { QueryWithEstimate, usePatientDashboard } from './PatientDashboard';
+import icpService from '../../services/icpService';
+import { formatters } from '../../utils/formatters';
+import { patientGuidance } from '../../utils/escalation';
+import { RATING_LABELS, unratedQueries } from '../../utils/feedback';
+
+const getStatusIcon = (status: QueryStatus) => {
+  switch (status) {
+    case 'pending': return '⏳';
+    case 'doctor_review': return '👨‍⚕️';
+    case 'completed': return '✅';
+    default: return '📋';
+  }
+};
+
+const getStatusText = (status: QueryStatus) => {
+  switch (status) {
+    case 'pending': return '🤖 AI Analyzed - Awaiting Doctor Review';
+    case 'doctor_review': return '👨‍⚕️ Under Doctor Review';
+    case 'completed': return '✅ Doctor Response Received';
+    default: return 'Processing';
+  }
+};
+
+const getStatusColor = (status: QueryStatus) => {
+  switch (status) {
+    case 'pending': return 'text-yellow-600 bg-yellow-100';
+    case 'doctor_review': return 'text-blue-600 bg-blue-100';
+    case 'completed': return 'text-green-600 bg-green-100';
+    default: return 'text-gray-600 bg-gray-100';
+  }
+};
+
+const QueryTitleLink: React.FC<{ query: MedicalQuery }> = ({ query }) => (
+  <Link to={`/patient/queries/${query.id}`} className="text-lg font-medium text-gray-900 hover:text-blue-600">
+    {query.title}
+  </Link>
+);
+
+export const PatientOverview: React.FC = () => {
+  const {
+    patient,
+    queries,
+    pendingQueries,
+    completedQueries,
+    loading,
+    showMessage,
+    feedback,
+    recordFeedback
+  } = usePatientDashboard();
+  const navigate = useNavigate();
+  const toRate = unratedQueries(completedQueries, feedback).slice(0, 3);
+
+  return (
+    <div className="space-y-6">
+      {/* Stats Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <div className="flex items-center">
+            <div className="flex-shrink-0">
+              <span className="text-2xl">📋</span>
+            </div>
+            <div className="ml-4">
+              <p className="text-sm font-medium text-gray-600">Total Queries</p>
+              <p className="text-2xl font-bold text-gray-900">{queries.length}</p>
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <div className="flex items-center">
+            <div className="flex-shrink-0">
+              <span className="text-2xl">⏳</span>
+            </div>
+            <div className="ml-4">
+              <p className="text-sm font-medium text-gray-600">Pending</p>
+              <p className="text-2xl font-bold text-yellow-600">{pendingQueries.length}</p>
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <div className="flex items-center">
+            <div className="flex-shrink-0">
+              <span className="text-2xl">✅</span>
+            </div>
+            <div className="ml-4">
+              <p className="text-sm font-medium text-gray-600">Completed</p>
+              <p className="text-2xl font-bold text-green-600">{completedQueries.length}</p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Answers waiting for a rating */}
+      {toRate.length > 0 && (
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <h3 className="text-lg font-medium text-gray-900 mb-1">⭐ Rate your answers</h3>
+          <p className="text-sm text-gray-500 mb-4">Your ratings help your care team improve their responses.</p>
+          <div className="divide-y divide-gray-200">
+            {toRate.map(query => (
+              <div key={query.id} className="py-3">
+                <QueryTitleLink query={query} />
+                <div className="mt-2">
+                  <QueryRatingPrompt
+                    query={query}
+                    patientId={patient.id}
+                    onSubmitted={recordFeedback}
+                    showMessage={showMessage}
+                    compact
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Recent Queries */}
+      <div className="bg-white rounded-lg shadow-md">
+        <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+          <h3 className="text-lg font-medium text-gray-900">Recent Queries</h3>
+          <Button
+            onClick={() => navigate('/patient/new-query')}
+            size="small"
+          >
+            Submit New Query
+          </Button>
+        </div>
+        <div className="divide-y divide-gray-200">
+          {loading ? (
+            <div className="p-8 text-center">
+              <LoadingSpinner />
+            </div>
+          ) : queries.length === 0 ? (
+            <div className="p-8 text-center text-gray-500">
+              <div className="text-4xl mb-4">📋</div>
+              <p className="text-lg font-medium text-gray-700 mb-2">No queries yet</p>
+              <p className="text-sm text-gray-500 mb-4">Submit your first medical query to get started!</p>
+              {!patient.assignedDoctorId && (
+                <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 mt-4">
+                  <p className="text-yellow-800 text-sm">
+                    ⚠️ You need to be assigned to a doctor before you can submit queries.
+                  </p>
+                </div>
+              )}
+            </div>
+          ) : (
+            queries.slice(0, 5).map((query) => (
+              <div key={query.id} id={`query-${query.id}`} className="p-6 transition-all duration-300">
+                <div className="flex items-start justify-between">
+                  <div className="flex-1">
+                    <div className="flex items-center mb-2">
+                      <span className="text-lg mr-2">{getStatusIcon(query.status)}</span>
+                      <QueryTitleLink query={query} />
+                    </div>
+                    <p className="text-gray-600 mb-3">{query.description}</p>
+                    <div className="flex items-center space-x-4 text-sm text-gray-500">
+                      <span>Submitted: {formatters.formatDate(new Date(Number(query.createdAt) / 1000000))}</span>
+                      <span className={`px-2 py-1 rounded-full text-xs ${getStatusColor(query.status)}`}>
+                        {getStatusText(query.status)}
+                      </span>
+                      {query.status !== 'completed' && (
+                        <span className="text-blue-600 font-medium">
+                          {query.timeRemaining}
+                        </span>
+                      )}
+                    </div>
+                    {/* AI responses are only visible to doctors */}
+                    {query.response && (
+                      <div className="mt-3 p-4 bg-green-50 rounded-md">
+                        <p className="text-sm font-medium text-green-800 mb-2">Doctor's Response:</p>
+                        <p className="text-sm text-green-700">{query.response}</p>
+                      </div>
+                    )}
+                  </div>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export const PatientQueryHistory: React.FC = () => {
+  const { patient, pendingQueries, showMessage, parentLoading, setParentLoading } = usePatientDashboard();
+  const navigate = useNavigate();
+
+  return (
+    <div className="space-y-6">
+      {/* Pending Queries */}
+      {pendingQueries.length > 0 && (
+        <div className="bg-white rounded-lg shadow-md">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h3 className="text-lg font-medium text-gray-900">
+              Pending Queries ({pendingQueries.length})
+            </h3>
+          </div>
+          <div className="divide-y divide-gray-200">
+            {pendingQueries.map((query) => (
+              <div key={query.id} id={`query-${query.id}`} className="p-6 transition-all duration-300">
+                <div className="flex items-start justify-between">
+                  <div className="flex-1">
+                    <div className="flex items-center mb-2">
+                      <span className="text-lg mr-2">{getStatusIcon(query.status)}</span>
+                      <QueryTitleLink query={query} />
+                      <span className={`ml-3 px-2 py-1 rounded-full text-xs ${getStatusColor(query.status)}`}>
+                        {getStatusText(query.status)}
+                      </span>
+                    </div>
+                    <p className="text-gray-600 mb-3">{query.description}</p>
+                    <div className="flex items-center space-x-4 text-sm text-gray-500 mb-3">
+                      <span>Submitted: {formatters.formatDate(new Date(Number(query.createdAt) / 1000000))}</span>
+                      <span className="text-blue-600 font-medium">
+                        Est. Response: {query.estimatedResponseTime}
+                      </span>
+                      <span className="text-orange-600 font-medium">
+                        {query.timeRemaining}
+                      </span>
+                    </div>
+                    {query.aiDraftResponse && (
+                      <div className="p-3 bg-blue-50 rounded-md">
+                        <p className="text-sm text-blue-800">
+                          <strong>AI Analysis:</strong> {query.aiDraftResponse}
+                        </p>
+                      </div>
+                    )}
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* All queries, searched, filtered and paged by the canister */}
+      <QueryManagement
+        patientId={patient.id}
+        onQuerySelect={(query) => navigate(`/patient/queries/${query.id}`)}
+        showMessage={showMessage}
+        loading={parentLoading}
+        setLoading={setParentLoading}
+      />
+    </div>
+  );
+};
+
+export const PatientQueryDetail: React.FC = () => {
+  const { queryId = '' } = useParams<{ queryId: string }>();
+  const { patient, queries, loading, showMessage, feedback, recordFeedback } = usePatientDashboard();
+  const [fetched, setFetched] = useState<MedicalQuery | null>(null);
+  const [lookupDone, setLookupDone] = useState(false);
+  const [guidance, setGuidance] = useState<EscalationEvent | undefined>(undefined);
+  const [prescription, setPrescription] = useState<Prescription | null>(null);
+
+  const listed = queries.find(q => q.id === queryId);
+
+  // A link can point at a query the dashboard list doesn't hold yet
+  useEffect(() => {
+    if (listed || loading) return;
+
+    let cancelled = false;
+    setLookupDone(false);
+    icpService.getQuery(queryId).then(result => {
+      if (cancelled) return;
+      const found = result.success && result.data && result.data.patientId === patient.id ? result.data : null;
+      setFetched(found);
+      setLookupDone(true);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [queryId, listed, loading, patient.id]);
+
+  const query: QueryWithEstimate | null = listed || fetched;
+  const awaitingResponse = query !== null && !query.response;
+  const responded = query !== null && !!query.response;
+  const rating = feedback.find(item => item.queryId === queryId);
+
+  // Emergency guidance is sent when an urgent query has waited too long for a doctor
+  useEffect(() => {
+    if (!awaitingResponse) return;
+
+    let cancelled = false;
+    icpService.getEscalationTimeline(queryId).then(result => {
+      if (!cancelled && result.success) setGuidance(patientGuidance(result.data || []));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [queryId, awaitingResponse]);
+
+  // A response may come with a prescription
+  useEffect(() => {
+    if (!responded) return;
+
+    let cancelled = false;
+    icpService.getQueryPrescription(queryId).then(result => {
+      if (!cancelled && result.success) setPrescription(result.data || null);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [queryId, responded]);
+
+  return (
+    <div className="space-y-4">
+      <Link to="/patient/queries" className="text-sm text-blue-600 hover:text-blue-800">
+        ← Back to Query History
+      </Link>
+
+      {!query ? (
+        loading || !lookupDone ? (
+          <div className="flex justify-center py-8">
+            <LoadingSpinner message="Loading query..." />
+          </div>
+        ) : (
+          <div className="bg-white rounded-lg shadow-md p-8 text-center text-gray-500">
+            <div className="text-4xl mb-4">🔍</div>
+            <p className="text-lg font-medium text-gray-700 mb-2">Query not found</p>
+            <p className="text-sm">It may have been removed, or it belongs to another account.</p>
+          </div>
+        )
+      ) : (
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <div className="flex items-center mb-2">
+            <span className="text-lg mr-2">{getStatusIcon(query.status)}</span>
+            <h3 className="text-xl font-semibold text-gray-900">{query.title}</h3>
+            <span className={`ml-3 px-2 py-1 rounded-full text-xs ${getStatusColor(query.status)}`}>
+              {getStatusText(query.status)}
+            </span>
+          </div>
+          <div className="flex flex-wrap items-center gap-4 text-sm text-gray-500 mb-4">
+            <span>Submitted: {formatters.formatDate(new Date(Number(query.createdAt) / 1000000))}</span>
+            <span>Last updated: {formatters.formatDate(new Date(Number(query.updatedAt) / 1000000))}</span>
+            {query.status !== 'completed' && query.estimatedResponseTime && (
+              <span className="text-blue-600 font-medium">Est. Response: {query.estimatedResponseTime}</span>
+            )}
+          </div>
+          <p className="text-gray-700 whitespace-pre-wrap mb-4">{query.description}</p>
+
+          {query.response ? (
+            <div className="p-4 bg-green-50 rounded-md">
+              <p className="text-sm font-medium text-green-800 mb-2">Doctor's Response:</p>
+              <p className="text-sm text-green-700 whitespace-pre-wrap">{query.response}</p>
+              {prescription && (
+                <div className="mt-4">
+                  <PrescriptionView prescription={prescription} patientName={patient.name} />
+                </div>
+              )}
+              {query.status === 'completed' && (
+                <div className="mt-4 pt-3 border-t border-green-200">
+                  {rating ? (
+                    <div className="text-sm text-gray-700">
+                      <span className="mr-2">Your rating:</span>
+                      <RatingStars rating={rating.rating} />
+                      <span className="ml-2 text-xs text-gray-500">{RATING_LABELS[rating.rating]}</span>
+                      {rating.comment && <p className="text-xs text-gray-600 mt-1 italic">"{rating.comment}"</p>}
+                    </div>
+                  ) : (
+                    <QueryRatingPrompt
+                      query={query}
+                      patientId={patient.id}
+                      onSubmitted={recordFeedback}
+                      showMessage={showMessage}
+                    />
+                  )}
+                </div>
+              )}
+            </div>
+          ) : (
+            <>
+              {guidance && (
+                <div className="p-4 mb-4 bg-red-50 border border-red-200 rounded-md" role="alert">
+                  <p className="text-sm font-semibold text-red-800 mb-2">🚑 Important: please read while you wait</p>
+                  <p className="text-sm text-red-700 whitespace-pre-wrap">{guidance.message}</p>
+                  <p className="text-xs text-red-600 mt-2">Sent {formatters.formatDate(new Date(guidance.timestamp))}</p>
+                </div>
+              )}
+              <div className="p-4 bg-gray-50 rounded-md text-sm text-gray-600">
+                Your doctor hasn't responded yet. You'll be notified here as soon as they do.
+              </div>
+            </>
+          )}
+
+          <div className="mt-6 border-t border-gray-200 pt-4">
+            <h4 className="text-md font-semibold text-gray-900 mb-3">📎 Attachments</h4>
+            <PatientQueryAttachments queryId={query.id} canUpload={awaitingResponse} showMessage={showMessage} />
+          </div>
+
+          <div className="mt-6 border-t border-gray-200 pt-4">
+            <h4 className="text-md font-semibold text-gray-900 mb-3">💬 Conversation with your doctor</h4>
+            <PatientQueryConversation queryId={query.id} patientId={patient.id} showMessage={showMessage} />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const PatientMedications: React.FC = () => {
+  const { patient, loadPatientQueries, showMessage } = usePatientDashboard();
+  const navigate = useNavigate();
+
+  return (
+    <MedicationCard
+      patientId={patient.id}
+      patientName={patient.name}
+      showMessage={showMessage}
+      onRefillRequested={(queryId) => {
+        loadPatientQueries();
+        navigate(`/patient/queries/${queryId}`);
+      }}
+    />
+  );
+};
+
+export const PatientNewQuery: React.FC = () => {
+  const { patient, loadPatientQueries, showMessage, parentLoading, setParentLoading } = usePatientDashboard();
+  const navigate = useNavigate();
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <h3 className="text-lg font-medium text-gray-900 mb-4">Submit New Medical Query</h3>
+      <QuerySubmission
+        patient={patient}
+        onQuerySubmitted={() => {
+          loadPatientQueries();
+          navigate('/patient');
+          showMessage('Query submitted successfully! You will receive updates as it progresses.', 'success');
+        }}
+        showMessage={showMessage}
+        loading={parentLoading}
+        setLoading={setParentLoading}
+      />
+    </div>
+  );
+};
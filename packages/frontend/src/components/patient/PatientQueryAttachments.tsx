@@ -0,0 +1,228 @@
+// Patient Query Attachments Component - Encrypted photo and lab report uploads on the patient's own query
+import React, { useEffect, useState } from 'react';
+import { AttachmentType, QueryAttachment } from '../../types';
+import Button from '../common/Button';
+import AttachmentList from '../common/AttachmentList';
+import LoadingSpinner from '../common/LoadingSpinner';
+import icpService from '../../services/icpService';
+import {
+  ATTACHMENT_TYPE_LABELS,
+  previewKind,
+  suggestAttachmentType,
+  uploadAttachment,
+  validateAttachmentFile
+} from '../../utils/attachments';
+
+interface PatientQueryAttachmentsProps {
+  queryId: string;
+  canUpload: boolean; // Closed once the doctor has responded
+  showMessage: (message: string, type?: 'success' | 'error' | 'info' | 'warning') => void;
+}
+
+interface PendingFile {
+  file: File;
+  fileType: AttachmentType;
+}
+
+const THUMBNAIL_SIZE = 160;
+
+const readFile = (file: File): Promise<Uint8Array> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(file);
+  });
+
+// Small JPEG preview drawn in the browser, so doctors can scan photos without downloading each one
+const createThumbnail = (file: File): Promise<Uint8Array | undefined> =>
+  new Promise(resolve => {
+    if (previewKind(file.type) !== 'image') {
+      resolve(undefined);
+      return;
+    }
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(image.width, image.height));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(image.width * scale);
+      canvas.height = Math.round(image.height * scale);
+      const context = canvas.getContext('2d');
+      if (!context) {
+        URL.revokeObjectURL(url);
+        resolve(undefined);
+        return;
+      }
+      context.drawImage(image, 0, 0, canvas.width, canvas.height);
+      URL.revokeObjectURL(url);
+      canvas.toBlob(blob => {
+        if (!blob) {
+          resolve(undefined);
+          return;
+        }
+        readFile(new File([blob], 'thumbnail.jpg')).then(resolve, () => resolve(undefined));
+      }, 'image/jpeg', 0.7);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      resolve(undefined);
+    };
+    image.src = url;
+  });
+
+const PatientQueryAttachments: React.FC<PatientQueryAttachmentsProps> = ({ queryId, canUpload, showMessage }) => {
+  const [attachments, setAttachments] = useState<QueryAttachment[] | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [pending, setPending] = useState<PendingFile[]>([]);
+  const [uploading, setUploading] = useState(false);
+  const [progress, setProgress] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoadError(null);
+    icpService.getQueryAttachments(queryId).then(result => {
+      if (cancelled) return;
+      if (result.success) {
+        setAttachments(result.data || []);
+      } else {
+        setLoadError(result.error || 'Unknown error');
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [queryId]);
+
+  const handleFilesChosen = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const chosen = Array.prototype.slice.call(e.target.files || []) as File[];
+    e.target.value = '';
+
+    const accepted: PendingFile[] = [];
+    chosen.forEach(file => {
+      const problem = validateAttachmentFile(file);
+      if (problem) {
+        showMessage(problem, 'error');
+      } else {
+        accepted.push({ file, fileType: suggestAttachmentType(file.type) });
+      }
+    });
+    setPending(previous => [...previous, ...accepted]);
+  };
+
+  const setPendingType = (index: number, fileType: AttachmentType) => {
+    setPending(previous => previous.map((item, i) => (i === index ? { ...item, fileType } : item)));
+  };
+
+  const handleUpload = async () => {
+    setUploading(true);
+    const remaining: PendingFile[] = [];
+    try {
+      for (let i = 0; i < pending.length; i++) {
+        const { file, fileType } = pending[i];
+        try {
+          setProgress(`Encrypting and uploading ${file.name}...`);
+          const uploaded = await uploadAttachment(icpService, {
+            queryId,
+            fileName: file.name,
+            fileType,
+            mimeType: file.type,
+            bytes: await readFile(file),
+            thumbnail: await createThumbnail(file)
+          }, fraction => setProgress(`Uploading ${file.name}: ${Math.round(fraction * 100)}%`));
+          setAttachments(previous => [...(previous || []), uploaded]);
+        } catch (error) {
+          remaining.push(pending[i]);
+          showMessage(`${file.name}: ${error instanceof Error ? error.message : 'upload failed'}`, 'error');
+        }
+      }
+      if (remaining.length === 0) {
+        showMessage('Files attached. Only you and your assigned doctor can open them.', 'success');
+      }
+    } finally {
+      setPending(remaining);
+      setProgress(null);
+      setUploading(false);
+    }
+  };
+
+  if (loadError) {
+    return <p className="text-sm text-red-600">Could not load attachments: {loadError}</p>;
+  }
+
+  if (!attachments) {
+    return (
+      <div className="flex justify-center py-4">
+        <LoadingSpinner message="Loading attachments..." />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <AttachmentList
+        attachments={attachments}
+        source={icpService}
+        emptyMessage={canUpload ? 'No files yet. Add photos or lab results to help your doctor.' : 'No files were attached.'}
+      />
+
+      {canUpload && (
+        <div className="border border-dashed border-gray-300 rounded-lg p-4 space-y-3">
+          <label className="block text-sm font-medium text-gray-700">
+            Add photos or PDF lab results (up to 10 MB each)
+            <input
+              type="file"
+              multiple
+              accept="image/jpeg,image/png,image/webp,image/gif,application/pdf"
+              onChange={handleFilesChosen}
+              disabled={uploading}
+              className="block mt-2 text-sm"
+            />
+          </label>
+
+          {pending.length > 0 && (
+            <ul className="space-y-2">
+              {pending.map((item, index) => (
+                <li key={`${item.file.name}-${index}`} className="flex items-center gap-2 text-sm">
+                  <span className="flex-1 truncate">{item.file.name}</span>
+                  <select
+                    value={item.fileType}
+                    onChange={(e) => setPendingType(index, e.target.value as AttachmentType)}
+                    disabled={uploading}
+                    className="border border-gray-300 rounded px-2 py-1 text-sm"
+                  >
+                    {(Object.keys(ATTACHMENT_TYPE_LABELS) as AttachmentType[]).map(type => (
+                      <option key={type} value={type}>{ATTACHMENT_TYPE_LABELS[type]}</option>
+                    ))}
+                  </select>
+                  <button
+                    type="button"
+                    onClick={() => setPending(previous => previous.filter((_, i) => i !== index))}
+                    disabled={uploading}
+                    className="text-gray-400 hover:text-red-600"
+                    aria-label={`Remove ${item.file.name}`}
+                  >
+                    ✕
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {progress && <p className="text-xs text-blue-600">{progress}</p>}
+
+          <div className="flex justify-end">
+            <Button size="small" onClick={handleUpload} loading={uploading} disabled={uploading || pending.length === 0}>
+              Upload {pending.length > 0 ? `${pending.length} file${pending.length === 1 ? '' : 's'}` : 'files'}
+            </Button>
+          </div>
+          <p className="text-xs text-gray-500">
+            🔒 Files are encrypted on this device before upload. Only you and the doctor assigned to this query can open them.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PatientQueryAttachments;
@@ -0,0 +1,111 @@
+// Patient Query Conversation Component - Patient's side of a query thread: doctor messages and replies
+import React, { useEffect, useState } from 'react';
+import { QueryThread } from '../../types';
+import Button from '../common/Button';
+import ConversationThread from '../common/ConversationThread';
+import LoadingSpinner from '../common/LoadingSpinner';
+import icpService from '../../services/icpService';
+import { canPatientReply, threadEntries, unreadDoctorMessages } from '../../utils/queryThread';
+
+interface PatientQueryConversationProps {
+  queryId: string;
+  patientId: string;
+  showMessage: (message: string, type?: 'success' | 'error' | 'info' | 'warning') => void;
+}
+
+const PatientQueryConversation: React.FC<PatientQueryConversationProps> = ({ queryId, patientId, showMessage }) => {
+  const [thread, setThread] = useState<QueryThread | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [reply, setReply] = useState('');
+  const [sending, setSending] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoadError(null);
+    icpService.getPatientThread(queryId, patientId).then(result => {
+      if (cancelled) return;
+      if (result.success && result.data) {
+        setThread(result.data);
+        // Opening the conversation is what sends the doctor their read receipts
+        if (unreadDoctorMessages(result.data) > 0) {
+          icpService.markThreadRead(queryId, patientId);
+        }
+      } else {
+        setLoadError(result.error || 'Unknown error');
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [queryId, patientId]);
+
+  if (loadError) {
+    return <p className="text-sm text-red-600">Could not load the conversation: {loadError}</p>;
+  }
+
+  if (!thread) {
+    return (
+      <div className="flex justify-center py-4">
+        <LoadingSpinner message="Loading conversation..." />
+      </div>
+    );
+  }
+
+  const handleReply = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = reply.trim();
+    if (!trimmed) return;
+
+    setSending(true);
+    try {
+      const result = await icpService.sendPatientMessage(queryId, patientId, trimmed);
+      if (result.success && result.data) {
+        setThread(result.data);
+        setReply('');
+        showMessage('Reply sent to your doctor', 'success');
+      } else {
+        showMessage(`Error: ${result.error}`, 'error');
+      }
+    } catch (error) {
+      showMessage('Failed to send your reply. Please try again.', 'error');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {thread.status === 'awaiting_patient_response' && (
+        <div className="text-sm text-orange-800 bg-orange-50 border border-orange-200 rounded p-3">
+          ❓ Your doctor asked you a question. Reply below so they can continue reviewing your query.
+        </div>
+      )}
+
+      <ConversationThread
+        entries={threadEntries(thread)}
+        viewer="patient"
+        emptyMessage="No messages yet. Your doctor may ask you questions here while reviewing your query."
+      />
+
+      {canPatientReply(thread.status) && (
+        <form onSubmit={handleReply} className="space-y-2">
+          <textarea
+            value={reply}
+            onChange={(e) => setReply(e.target.value)}
+            placeholder="Write a message to your doctor..."
+            rows={3}
+            maxLength={2000}
+            className="w-full border border-gray-300 rounded-md p-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <div className="flex justify-end">
+            <Button type="submit" size="small" loading={sending} disabled={sending || !reply.trim()}>
+              Send
+            </Button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default PatientQueryConversation;
@@ -6,6 +6,7 @@ import { Patient, ComponentProps } from '../../types';
 import { MEDICAL_CONDITIONS, FORM_VALIDATION, UI_MESSAGES } from '../../constants';
 import { validateEmail, sanitizeInput } from '../../utils/formatters';
 import icpService from '../../services/icpService';
+import { useTranslation } from '../../contexts/LanguageContext';
 
 interface PatientRegistrationProps extends ComponentProps {
   onRegistrationSuccess: (patient: Patient) => void;
@@ -17,6 +18,7 @@ const PatientRegistration: React.FC<PatientRegistrationProps> = ({
   loading,
   setLoading
 }) => {
+  const { t } = useTranslation();
   const [formData, setFormData] = useState({
     name: '',
     condition: '',
@@ -44,17 +46,17 @@ const PatientRegistration: React.FC<PatientRegistrationProps> = ({
     const newErrors: Record<string, string> = {};
 
     if (!formData.name.trim()) {
-      newErrors.name = 'Name is required';
+      newErrors.name = t('patientRegistration.nameRequired');
     }
 
     if (!formData.condition) {
-      newErrors.condition = 'Medical condition is required';
+      newErrors.condition = t('patientRegistration.conditionRequired');
     }
 
     if (!formData.email.trim()) {
-      newErrors.email = 'Email is required';
+      newErrors.email = t('patientRegistration.emailRequired');
     } else if (!validateEmail(formData.email)) {
-      newErrors.email = 'Please enter a valid email address';
+      newErrors.email = t('patientRegistration.emailInvalid');
     }
 
     setErrors(newErrors);
@@ -81,15 +83,15 @@ const PatientRegistration: React.FC<PatientRegistrationProps> = ({
         const patientResult = await icpService.getPatient(result.data);
         if (patientResult.success && patientResult.data) {
           onRegistrationSuccess(patientResult.data);
-          showMessage?.(UI_MESSAGES.SUCCESS.PATIENT_REGISTERED);
+          showMessage?.(t(UI_MESSAGES.SUCCESS.PATIENT_REGISTERED));
           // Reset form
           setFormData({ name: '', condition: '', email: '' });
         }
       } else {
-        showMessage?.(`Error: ${result.error}`);
+        showMessage?.(t('patientRegistration.error', { error: result.error }));
       }
     } catch (error) {
-      showMessage?.('Registration failed. Please try again.');
+      showMessage?.(t('patientRegistration.failed'));
     } finally {
       setLoading?.(false);
     }
@@ -97,14 +99,14 @@ const PatientRegistration: React.FC<PatientRegistrationProps> = ({
 
   return (
     <div className="patient-registration max-w-md mx-auto">
-      <h2 className="text-2xl font-bold text-gray-900 mb-6">Patient Registration</h2>
+      <h2 className="text-2xl font-bold text-gray-900 mb-6">{t('patientRegistration.title')}</h2>
       
       <form onSubmit={handleSubmit} className="space-y-4">
         <FormField
-          label="Full Name"
+          label={t('patientRegistration.fullName')}
           name="name"
           value={formData.name}
-          placeholder="Enter your full name"
+          placeholder={t('patientRegistration.fullNamePlaceholder')}
           required
           maxLength={FORM_VALIDATION.MAX_NAME_LENGTH}
           onChange={handleInputChange}
@@ -112,11 +114,11 @@ const PatientRegistration: React.FC<PatientRegistrationProps> = ({
         />
 
         <FormField
-          label="Medical Condition"
+          label={t('patientRegistration.condition')}
           type="select"
           name="condition"
           value={formData.condition}
-          placeholder="Select your primary condition"
+          placeholder={t('patientRegistration.conditionPlaceholder')}
           required
           options={[...MEDICAL_CONDITIONS]}
           onChange={handleInputChange}
@@ -124,11 +126,11 @@ const PatientRegistration: React.FC<PatientRegistrationProps> = ({
         />
 
         <FormField
-          label="Email Address"
+          label={t('patientRegistration.email')}
           type="email"
           name="email"
           value={formData.email}
-          placeholder="Enter your email address"
+          placeholder={t('patientRegistration.emailPlaceholder')}
           required
           maxLength={FORM_VALIDATION.MAX_EMAIL_LENGTH}
           onChange={handleInputChange}
@@ -142,7 +144,7 @@ const PatientRegistration: React.FC<PatientRegistrationProps> = ({
           fullWidth
           className="mt-6"
         >
-          {loading ? UI_MESSAGES.LOADING.REGISTERING : 'Register as Patient'}
+          {loading ? t(UI_MESSAGES.LOADING.REGISTERING) : t('patientRegistration.submit')}
         </Button>
       </form>
     </div>
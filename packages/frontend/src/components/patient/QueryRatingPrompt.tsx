@@ -0,0 +1,105 @@
+// Query Rating Prompt Component - Star rating and comment on a doctor's answer
+import React, { useState } from 'react';
+import { MedicalQuery, QueryFeedback } from '../../types';
+import Button from '../common/Button';
+import icpService from '../../services/icpService';
+import { MAX_FEEDBACK_COMMENT_CHARS, RATING_LABELS, isLowRating } from '../../utils/feedback';
+
+interface QueryRatingPromptProps {
+  query: MedicalQuery;
+  patientId: string;
+  onSubmitted: (feedback: QueryFeedback) => void;
+  showMessage?: (message: string, type?: 'success' | 'error' | 'info' | 'warning') => void;
+  compact?: boolean; // Only the stars until one is picked
+}
+
+const STARS = [1, 2, 3, 4, 5];
+
+export const RatingStars: React.FC<{ rating: number }> = ({ rating }) => (
+  <span className="text-yellow-500" aria-label={`${rating} out of 5 stars`}>
+    {STARS.map(star => (star <= rating ? '★' : '☆')).join('')}
+  </span>
+);
+
+const QueryRatingPrompt: React.FC<QueryRatingPromptProps> = ({
+  query,
+  patientId,
+  onSubmitted,
+  showMessage,
+  compact = false
+}) => {
+  const [rating, setRating] = useState(0);
+  const [hovered, setHovered] = useState(0);
+  const [comment, setComment] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (rating === 0) return;
+
+    setSubmitting(true);
+    setError(null);
+    const result = await icpService.submitQueryFeedback(query.id, patientId, rating, comment.trim());
+    setSubmitting(false);
+
+    if (!result.success || !result.data) {
+      setError(result.error || 'Failed to send your rating');
+      return;
+    }
+    showMessage?.(
+      isLowRating(rating)
+        ? 'Thank you. Your doctor will follow up with you about this answer.'
+        : 'Thank you for rating your doctor\'s answer.',
+      'success'
+    );
+    onSubmitted(result.data);
+  };
+
+  const shown = hovered || rating;
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <div className="flex items-center gap-2">
+        <span className="text-sm text-gray-700">How helpful was this answer?</span>
+        <div className="flex" onMouseLeave={() => setHovered(0)}>
+          {STARS.map(star => (
+            <button
+              key={star}
+              type="button"
+              onClick={() => setRating(star)}
+              onMouseEnter={() => setHovered(star)}
+              className={`text-2xl leading-none px-0.5 ${star <= shown ? 'text-yellow-500' : 'text-gray-300'}`}
+              aria-label={`${star} star${star === 1 ? '' : 's'}: ${RATING_LABELS[star]}`}
+              aria-pressed={star === rating}
+            >
+              ★
+            </button>
+          ))}
+        </div>
+        {shown > 0 && <span className="text-xs text-gray-500">{RATING_LABELS[shown]}</span>}
+      </div>
+
+      {(!compact || rating > 0) && (
+        <>
+          <textarea
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            placeholder={isLowRating(rating) && rating > 0
+              ? 'What went wrong? Your doctor will follow up.'
+              : 'Anything you would like to add? (optional)'}
+            maxLength={MAX_FEEDBACK_COMMENT_CHARS}
+            rows={2}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <Button type="submit" size="small" loading={submitting} disabled={submitting || rating === 0}>
+            Send Rating
+          </Button>
+        </>
+      )}
+    </form>
+  );
+};
+
+export default QueryRatingPrompt;
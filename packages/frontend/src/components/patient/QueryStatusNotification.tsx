@@ -1,21 +1,33 @@
 // Query Status Notification Component - Patient Query Confirmation Messages
 import React, { useState, useEffect } from 'react';
-import { MedicalQuery, QueryStatus } from '../../types';
+import { useNavigate } from 'react-router-dom';
+import { MedicalQuery, QueryFeedback, QueryStatus } from '../../types';
+import QueryRatingPrompt from './QueryRatingPrompt';
+import { useTranslation } from '../../contexts/LanguageContext';
 
 interface QueryStatusNotificationProps {
   queries: MedicalQuery[];
   onDismiss?: (queryId: string, type: 'pending' | 'completed') => void;
   showMessage?: (message: string, type?: 'success' | 'error' | 'info' | 'warning') => void;
+  // With these, completed notifications ask the patient to rate the answer
+  patientId?: string;
+  feedback?: QueryFeedback[];
+  onFeedbackSubmitted?: (feedback: QueryFeedback) => void;
 }
 
 const QueryStatusNotification: React.FC<QueryStatusNotificationProps> = ({
   queries,
   onDismiss,
-  showMessage
+  showMessage,
+  patientId,
+  feedback = [],
+  onFeedbackSubmitted
 }) => {
   const [dismissedPending, setDismissedPending] = useState<Set<string>>(new Set());
   const [dismissedCompleted, setDismissedCompleted] = useState<Set<string>>(new Set());
   const [newlyCompleted, setNewlyCompleted] = useState<Set<string>>(new Set());
+  const navigate = useNavigate();
+  const { t } = useTranslation();
 
   // Track newly completed queries
   useEffect(() => {
@@ -34,11 +46,11 @@ const QueryStatusNotification: React.FC<QueryStatusNotificationProps> = ({
       newCompletions.forEach(queryId => {
         const query = queries.find(q => q.id === queryId);
         if (query) {
-          showMessage?.(`✅ Your doctor has responded to "${query.title}"! View the response in your query history.`, 'success');
+          showMessage?.(t('queryStatus.doctorResponded', { title: query.title }), 'success');
         }
       });
     }
-  }, [queries, newlyCompleted, showMessage]);
+  }, [queries, newlyCompleted, showMessage, t]);
 
   const handleDismiss = (queryId: string, type: 'pending' | 'completed') => {
     if (type === 'pending') {
@@ -61,6 +73,8 @@ const QueryStatusNotification: React.FC<QueryStatusNotificationProps> = ({
     !dismissedCompleted.has(q.id)
   );
 
+  const isRated = (queryId: string) => feedback.some(item => item.queryId === queryId);
+
   if (pendingQueries.length === 0 && completedQueries.length === 0) {
     return null;
   }
@@ -77,21 +91,21 @@ const QueryStatusNotification: React.FC<QueryStatusNotificationProps> = ({
               </div>
               <div className="flex-1">
                 <h4 className="text-sm font-semibold text-blue-800 mb-1">
-                  Query in Progress: "{query.title}"
+                  {t('queryStatus.inProgress', { title: query.title })}
                 </h4>
                 <div className="text-sm text-blue-700 space-y-1">
                   <p>
-                    ✅ <strong>Submitted successfully!</strong> Your query has been processed by our AI system and sent to your doctor.
+                    ✅ <strong>{t('queryStatus.submitted')}</strong> {t('queryStatus.submittedDetail')}
                   </p>
                   <p>
                     {query.status === 'pending' 
-                      ? '⏳ Awaiting doctor review - typically responds within 2-4 hours'
-                      : '👨‍⚕️ Currently under doctor review - response expected within 1-2 hours'
+                      ? t('queryStatus.awaitingReview')
+                      : t('queryStatus.underReview')
                     }
                   </p>
                   <div className="flex items-center space-x-4 text-xs text-blue-600 mt-2">
-                    <span>📅 Submitted: {new Date(Number(query.createdAt) / 1000000).toLocaleString()}</span>
-                    <span>🔔 You'll be notified when your doctor responds</span>
+                    <span>{t('queryStatus.submittedAt', { at: Number(query.createdAt) / 1000000 })}</span>
+                    <span>{t('queryStatus.willNotify')}</span>
                   </div>
                 </div>
               </div>
@@ -99,7 +113,7 @@ const QueryStatusNotification: React.FC<QueryStatusNotificationProps> = ({
             <button
               onClick={() => handleDismiss(query.id, 'pending')}
               className="flex-shrink-0 text-blue-400 hover:text-blue-600 text-lg leading-none"
-              title="Dismiss this notification"
+              title={t('common.dismiss')}
             >
               ×
             </button>
@@ -117,44 +131,45 @@ const QueryStatusNotification: React.FC<QueryStatusNotificationProps> = ({
               </div>
               <div className="flex-1">
                 <h4 className="text-sm font-semibold text-green-800 mb-1">
-                  Response Ready: "{query.title}"
+                  {t('queryStatus.responseReady', { title: query.title })}
                 </h4>
                 <div className="text-sm text-green-700 space-y-1">
                   <p>
-                    🎉 <strong>Great news!</strong> Your doctor has reviewed and approved a response to your query.
+                    🎉 <strong>{t('queryStatus.greatNews')}</strong> {t('queryStatus.greatNewsDetail')}
                   </p>
                   <p>
-                    📋 The response has been verified by your healthcare provider and is ready to view in your query history.
+                    📋 {t('queryStatus.verifiedDetail')}
                   </p>
                   <div className="flex items-center space-x-4 text-xs text-green-600 mt-2">
-                    <span>📅 Responded: {new Date(Number(query.updatedAt) / 1000000).toLocaleString()}</span>
-                    <span>👨‍⚕️ Verified and approved by your doctor</span>
+                    <span>{t('queryStatus.respondedAt', { at: Number(query.updatedAt) / 1000000 })}</span>
+                    <span>{t('queryStatus.approvedByDoctor')}</span>
                   </div>
                 </div>
                 <div className="mt-3">
                   <button
-                    onClick={() => {
-                      // Scroll to or highlight the completed query
-                      const element = document.getElementById(`query-${query.id}`);
-                      if (element) {
-                        element.scrollIntoView({ behavior: 'smooth', block: 'center' });
-                        element.classList.add('ring-2', 'ring-green-300', 'ring-opacity-75');
-                        setTimeout(() => {
-                          element.classList.remove('ring-2', 'ring-green-300', 'ring-opacity-75');
-                        }, 3000);
-                      }
-                    }}
+                    onClick={() => navigate(`/patient/queries/${query.id}`)}
                     className="inline-flex items-center px-3 py-1 border border-transparent text-xs font-medium rounded-md text-green-700 bg-green-100 hover:bg-green-200 transition-colors"
                   >
-                    📖 View Response
+                    {t('queryStatus.viewResponse')}
                   </button>
                 </div>
+                {patientId && onFeedbackSubmitted && !isRated(query.id) && (
+                  <div className="mt-3 pt-3 border-t border-green-200">
+                    <QueryRatingPrompt
+                      query={query}
+                      patientId={patientId}
+                      onSubmitted={onFeedbackSubmitted}
+                      showMessage={showMessage}
+                      compact
+                    />
+                  </div>
+                )}
               </div>
             </div>
             <button
               onClick={() => handleDismiss(query.id, 'completed')}
               className="flex-shrink-0 text-green-400 hover:text-green-600 text-lg leading-none"
-              title="Dismiss this notification"
+              title={t('common.dismiss')}
             >
               ×
             </button>
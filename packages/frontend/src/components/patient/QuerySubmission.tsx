@@ -4,6 +4,8 @@ import FormField from '../common/FormField';
 import Button from '../common/Button';
 import { Patient, ComponentProps } from '../../types';
 import icpService from '../../services/icpService';
+import queryOutbox from '../../services/queryOutbox';
+import { formatters } from '../../utils/formatters';
 
 interface QuerySubmissionProps extends ComponentProps {
   patient: Patient;
@@ -29,6 +31,20 @@ const QuerySubmission: React.FC<QuerySubmissionProps> = ({
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [response, setResponse] = useState<any>(null);
 
+  // Keeps the patient's text in the outbox so a dropped connection doesn't lose it
+  const saveToOutbox = async (vitalSigns: Record<string, any>) => {
+    const queryText = formData.query.trim();
+    const title = formatters.truncateText(queryText, 60);
+    const vitalLines = Object.entries(vitalSigns).map(([name, value]) => `- ${name}: ${value}`);
+    const description = vitalLines.length > 0
+      ? `${queryText}\n\nVital signs:\n${vitalLines.join('\n')}`
+      : queryText;
+
+    await queryOutbox.enqueue(patient.id, title, description);
+    setFormData({ query: '', bloodGlucose: '', bloodPressure: '', heartRate: '', temperature: '' });
+    showMessage?.('📤 We could not reach the server, so your query was saved to your outbox on this device. It will be sent to your doctor automatically when your connection returns.', 'warning');
+  };
+
   const handleInputChange = (field: string, value: string) => {
     const maxLength = field === 'query' ? 1000 : 50;
     
@@ -76,21 +92,21 @@ const QuerySubmission: React.FC<QuerySubmissionProps> = ({
 
     setLoading?.(true);
     setResponse(null);
-    
-    try {
-      // Prepare vital signs data
-      const vitalSigns = {
-        bloodGlucose: formData.bloodGlucose ? parseFloat(formData.bloodGlucose) : null,
-        bloodPressure: formData.bloodPressure || null,
-        heartRate: formData.heartRate ? parseInt(formData.heartRate) : null,
-        temperature: formData.temperature ? parseFloat(formData.temperature) : null,
-      };
-
-      // Remove null values
-      const cleanVitalSigns = Object.fromEntries(
-        Object.entries(vitalSigns).filter(([_, value]) => value !== null)
-      );
 
+    // Prepare vital signs data
+    const vitalSigns = {
+      bloodGlucose: formData.bloodGlucose ? parseFloat(formData.bloodGlucose) : null,
+      bloodPressure: formData.bloodPressure || null,
+      heartRate: formData.heartRate ? parseInt(formData.heartRate) : null,
+      temperature: formData.temperature ? parseFloat(formData.temperature) : null,
+    };
+
+    // Remove null values
+    const cleanVitalSigns = Object.fromEntries(
+      Object.entries(vitalSigns).filter(([_, value]) => value !== null)
+    );
+
+    try {
       const result = await icpService.processMedicalQuery(
         patient.id,
         formData.query.trim(),
@@ -102,11 +118,11 @@ const QuerySubmission: React.FC<QuerySubmissionProps> = ({
         showMessage?.('🎉 Query processed successfully! AI analysis completed.', 'success');
         onQuerySubmitted();
       } else {
-        showMessage?.(result.error || 'Failed to process query');
+        await saveToOutbox(cleanVitalSigns);
       }
     } catch (error) {
       console.error('Query processing error:', error);
-      showMessage?.('An error occurred while processing your query');
+      await saveToOutbox(cleanVitalSigns);
     } finally {
       setLoading?.(false);
     }
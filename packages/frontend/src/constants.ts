@@ -1,36 +1,37 @@
 // Application Constants
 
+// Message catalogue keys (see locales/); render them with useTranslation().t
 export const UI_MESSAGES = {
   ERROR: {
-    BACKEND_CONNECTION_FAILED: 'Failed to connect to backend. Please check your connection.',
-    INVALID_INPUT: 'Please check your input and try again.',
-    AUTHENTICATION_FAILED: 'Authentication failed. Please try again.',
-    PERMISSION_DENIED: 'You do not have permission to access this resource.',
-    UNKNOWN_ERROR: 'An unknown error occurred. Please try again.',
+    BACKEND_CONNECTION_FAILED: 'messages.error.backendConnectionFailed',
+    INVALID_INPUT: 'messages.error.invalidInput',
+    AUTHENTICATION_FAILED: 'messages.error.authenticationFailed',
+    PERMISSION_DENIED: 'messages.error.permissionDenied',
+    UNKNOWN_ERROR: 'messages.error.unknown',
   },
   SUCCESS: {
-    LOGIN_SUCCESS: 'Login successful!',
-    LOGOUT_SUCCESS: 'Logged out successfully.',
-    REGISTRATION_SUCCESS: 'Registration completed successfully!',
-    PATIENT_REGISTERED: 'Patient registered successfully!',
-    QUERY_SUBMITTED: 'Your query has been submitted successfully.',
-    QUERY_TAKEN: 'Query has been assigned to you.',
-    RESPONSE_SENT: 'Your response has been sent to the patient.',
-    RESPONSE_SUBMITTED: 'Your response has been submitted successfully.',
+    LOGIN_SUCCESS: 'messages.success.loggedIn',
+    LOGOUT_SUCCESS: 'messages.success.loggedOut',
+    REGISTRATION_SUCCESS: 'messages.success.registrationComplete',
+    PATIENT_REGISTERED: 'messages.success.patientRegistered',
+    QUERY_SUBMITTED: 'messages.success.querySubmitted',
+    QUERY_TAKEN: 'messages.success.queryTaken',
+    RESPONSE_SENT: 'messages.success.responseSent',
+    RESPONSE_SUBMITTED: 'messages.success.responseSubmitted',
   },
   LOADING: {
-    SIGNING_IN: 'Signing in...',
-    REGISTERING: 'Creating account...',
-    LOADING_DATA: 'Loading data...',
-    SUBMITTING: 'Submitting...',
-    SAVING: 'Saving...',
+    SIGNING_IN: 'messages.loading.signingIn',
+    REGISTERING: 'messages.loading.registering',
+    LOADING_DATA: 'messages.loading.data',
+    SUBMITTING: 'messages.loading.submitting',
+    SAVING: 'messages.loading.saving',
   },
   INFO: {
-    WELCOME: 'Welcome to TrustCareConnect',
-    NO_DATA: 'No data available.',
-    PROCESSING: 'Processing your request...',
+    WELCOME: 'messages.info.welcome',
+    NO_DATA: 'messages.info.noData',
+    PROCESSING: 'messages.info.processing',
   }
-};
+} as const;
 
 export const MEDICAL_SPECIALIZATIONS = [
   'General Medicine',
@@ -70,7 +71,8 @@ export const QUERY_STATUSES = {
 export const USER_ROLES = {
   PATIENT: 'patient',
   DOCTOR: 'doctor',
-  ADMIN: 'admin'
+  ADMIN: 'admin',
+  COMPLIANCE_OFFICER: 'compliance_officer'
 } as const;
 
 export const FORM_VALIDATION = {
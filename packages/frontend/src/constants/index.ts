@@ -5,7 +5,7 @@ export const API_ENDPOINTS = {
   STATS: '/stats',
   REGISTER_PATIENT: '/registerPatient',
   REGISTER_DOCTOR: '/registerDoctor',
-  SUBMIT_QUERY: '/submitQuery',
+  SUBMIT_QUERY: '/submitQueryIdempotent',
   GET_PATIENT: '/getPatient',
   GET_DOCTOR: '/getDoctor',
   GET_PATIENT_QUERIES: '/getPatientQueries',
@@ -41,27 +41,28 @@ export const FORM_VALIDATION = {
   MAX_RESPONSE_LENGTH: 2000
 } as const;
 
+// Message catalogue keys (see locales/); render them with useTranslation().t
 export const UI_MESSAGES = {
   LOADING: {
-    REGISTERING: 'Registering...',
-    SUBMITTING: 'Submitting...',
-    LOADING: 'Loading...',
-    SIGNING_IN: 'Signing in...'
+    REGISTERING: 'messages.loading.registering',
+    SUBMITTING: 'messages.loading.submitting',
+    LOADING: 'messages.loading.generic',
+    SIGNING_IN: 'messages.loading.signingIn'
   },
   SUCCESS: {
-    PATIENT_REGISTERED: 'Patient registered successfully!',
-    DOCTOR_REGISTERED: 'Doctor registered successfully!',
-    QUERY_SUBMITTED: 'Query submitted successfully!',
-    QUERY_TAKEN: 'Query taken successfully!',
-    RESPONSE_SUBMITTED: 'Response submitted successfully!',
-    PATIENT_ASSIGNED: 'Patient assigned successfully!',
-    PATIENT_UNASSIGNED: 'Patient unassigned successfully!'
+    PATIENT_REGISTERED: 'messages.success.patientRegistered',
+    DOCTOR_REGISTERED: 'messages.success.doctorRegistered',
+    QUERY_SUBMITTED: 'messages.success.querySubmitted',
+    QUERY_TAKEN: 'messages.success.queryTaken',
+    RESPONSE_SUBMITTED: 'messages.success.responseSubmitted',
+    PATIENT_ASSIGNED: 'messages.success.patientAssigned',
+    PATIENT_UNASSIGNED: 'messages.success.patientUnassigned'
   },
   ERROR: {
-    BACKEND_CONNECTION_FAILED: 'Backend connection failed',
-    REGISTRATION_FAILED: 'Registration failed',
-    SUBMISSION_FAILED: 'Submission failed',
-    LOADING_FAILED: 'Failed to load data'
+    BACKEND_CONNECTION_FAILED: 'messages.error.backendConnectionFailed',
+    REGISTRATION_FAILED: 'messages.error.registrationFailed',
+    SUBMISSION_FAILED: 'messages.error.submissionFailed',
+    LOADING_FAILED: 'messages.error.loadingFailed'
   }
 } as const;
 
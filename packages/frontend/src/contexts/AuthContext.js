@@ -3,9 +3,13 @@
  * Manages user authentication state and roles across the application
  */
 
-import React, { createContext, useContext, useReducer, useEffect, useCallback } from 'react';
+import React, { createContext, useContext, useReducer, useEffect, useCallback, useRef } from 'react';
 import internetIdentityAuth from '../auth/InternetIdentity';
 import trustCareAPI from '../api/trustcare';
+import icpService from '../services/icpService';
+import queryOutbox from '../services/queryOutbox';
+import { cacheSession } from '../utils/cache';
+import { legacyPatientToPatientData } from '../utils/patientImport';
 
 // Authentication states
 const AUTH_STATES = {
@@ -19,7 +23,8 @@ const AUTH_STATES = {
 const USER_ROLES = {
   PATIENT: 'patient',
   DOCTOR: 'doctor',
-  ADMIN: 'admin'
+  ADMIN: 'admin',
+  COMPLIANCE_OFFICER: 'compliance_officer'
 };
 
 // Initial state
@@ -29,6 +34,9 @@ const initialState = {
   userRole: null,
   userProfile: null,
   principal: null,
+  sessionExpiresAt: null,
+  sessionExpired: false,
+  unsentQueries: 0, // Queries kept on the device after sign-out, sent once the patient signs in again
   isLoading: false,
   error: null
 };
@@ -38,6 +46,7 @@ const actionTypes = {
   SET_LOADING: 'SET_LOADING',
   SET_AUTHENTICATED: 'SET_AUTHENTICATED',
   SET_UNAUTHENTICATED: 'SET_UNAUTHENTICATED',
+  SET_SESSION_EXPIRED: 'SET_SESSION_EXPIRED',
   SET_ERROR: 'SET_ERROR',
   SET_USER_PROFILE: 'SET_USER_PROFILE',
   CLEAR_ERROR: 'CLEAR_ERROR',
@@ -62,6 +71,8 @@ const authReducer = (state, action) => {
         userRole: action.payload.userRole,
         userProfile: action.payload.userProfile,
         principal: action.payload.principal,
+        sessionExpiresAt: action.payload.sessionExpiresAt,
+        sessionExpired: false,
         isLoading: false,
         error: null
       };
@@ -70,6 +81,16 @@ const authReducer = (state, action) => {
       return {
         ...initialState,
         authState: AUTH_STATES.UNAUTHENTICATED,
+        unsentQueries: action.payload?.unsentQueries || 0,
+        isLoading: false
+      };
+
+    case actionTypes.SET_SESSION_EXPIRED:
+      return {
+        ...initialState,
+        authState: AUTH_STATES.UNAUTHENTICATED,
+        sessionExpired: true,
+        unsentQueries: action.payload?.unsentQueries || 0,
         isLoading: false
       };
 
@@ -108,8 +129,17 @@ const authReducer = (state, action) => {
   }
 };
 
+// Tries once more to deliver a patient's outbox and returns how many queries are still unsent
+const flushUnsentQueries = async (user, userRole) => {
+  if (userRole !== USER_ROLES.PATIENT || !user) return 0;
+
+  const items = await queryOutbox.flush(user.id, true).catch(() => queryOutbox.list(user.id)).catch(() => []);
+  return items.filter(item => item.status !== 'sent').length;
+};
+
 // Create context
-const AuthContext = createContext();
+/** @type {React.Context<any>} */
+const AuthContext = createContext(undefined);
 
 // Custom hook to use auth context
 export const useAuth = () => {
@@ -124,11 +154,28 @@ export const useAuth = () => {
 export const AuthProvider = ({ children }) => {
   const [state, dispatch] = useReducer(authReducer, initialState);
 
+  // The session-expiry listener is registered once, so it reads the signed-in user from here
+  const signedInRef = useRef({ user: null, userRole: null });
+  signedInRef.current = { user: state.user, userRole: state.userRole };
+
   // Initialize authentication on mount
   useEffect(() => {
     checkAuthStatus();
   }, []);
 
+  // Drop back to signed-out when the delegation expires or the user goes idle. Unsent queries
+  // and drafts stay encrypted on the device and are delivered after the next sign-in.
+  useEffect(() => {
+    return internetIdentityAuth.onSessionExpired(async (reason) => {
+      console.warn(`Internet Identity session ended (${reason})`);
+      const { user, userRole } = signedInRef.current;
+      const unsentQueries = await flushUnsentQueries(user, userRole);
+      await cacheSession.suspend();
+      await icpService.setIdentity(null);
+      dispatch({ type: actionTypes.SET_SESSION_EXPIRED, payload: { unsentQueries } });
+    });
+  }, []);
+
   /**
    * Check current authentication status
    */
@@ -142,11 +189,17 @@ export const AuthProvider = ({ children }) => {
       if (isAuthenticated) {
         const principal = internetIdentityAuth.getPrincipal();
         if (principal) {
+          // Same tab after a reload keeps its cache key
+          await cacheSession.start(principal);
+          await icpService.setIdentity(internetIdentityAuth.getIdentity());
           await loadUserProfile(principal);
         } else {
           dispatch({ type: actionTypes.SET_UNAUTHENTICATED });
         }
       } else {
+        // Whatever ended the last session, keep its unsent queries for the next sign-in
+        await cacheSession.suspend();
+        await icpService.setIdentity(null);
         dispatch({ type: actionTypes.SET_UNAUTHENTICATED });
       }
     } catch (error) {
@@ -159,50 +212,84 @@ export const AuthProvider = ({ children }) => {
   }, []);
 
   /**
-   * Load user profile and determine role
+   * Load user profile and determine role from the account linked to the principal
    */
   const loadUserProfile = useCallback(async (principal) => {
+    const sessionExpiresAt = internetIdentityAuth.getSessionExpiry();
+
     try {
-      // First, try to get user as a patient
-      const patientResult = await trustCareAPI.getPatient(principal);
-      
-      if (patientResult.success && patientResult.data) {
-        dispatch({
-          type: actionTypes.SET_AUTHENTICATED,
-          payload: {
-            user: patientResult.data,
-            userRole: USER_ROLES.PATIENT,
-            userProfile: patientResult.data,
-            principal
-          }
-        });
-        return;
+      const linkResult = await icpService.whoami();
+      if (!linkResult.success) {
+        throw new Error(linkResult.error || 'Failed to look up linked account');
       }
 
-      // If not a patient, try to get user as a doctor
-      const doctorResult = await trustCareAPI.getDoctor(principal);
-      
-      if (doctorResult.success && doctorResult.data) {
+      const link = linkResult.data;
+
+      if (link && link.role === USER_ROLES.PATIENT) {
+        const patientResult = await icpService.getPatient(link.userId);
+
+        if (patientResult.success && patientResult.data) {
+          dispatch({
+            type: actionTypes.SET_AUTHENTICATED,
+            payload: {
+              user: patientResult.data,
+              userRole: USER_ROLES.PATIENT,
+              userProfile: patientResult.data,
+              principal,
+              sessionExpiresAt
+            }
+          });
+          return;
+        }
+      }
+
+      if (link && link.role === USER_ROLES.DOCTOR) {
+        const doctorResult = await icpService.getDoctor(link.userId);
+
+        if (doctorResult.success && doctorResult.data) {
+          dispatch({
+            type: actionTypes.SET_AUTHENTICATED,
+            payload: {
+              user: doctorResult.data,
+              userRole: USER_ROLES.DOCTOR,
+              userProfile: doctorResult.data,
+              principal,
+              sessionExpiresAt
+            }
+          });
+          return;
+        }
+      }
+
+      // Staff access is granted to the principal itself: admins by a canister controller,
+      // compliance officers by a controller or an admin
+      if (link && (link.role === USER_ROLES.ADMIN || link.role === USER_ROLES.COMPLIANCE_OFFICER)) {
+        const staff = {
+          id: link.userId,
+          name: link.role === USER_ROLES.ADMIN ? 'Administrator' : 'Compliance Officer'
+        };
         dispatch({
           type: actionTypes.SET_AUTHENTICATED,
           payload: {
-            user: doctorResult.data,
-            userRole: USER_ROLES.DOCTOR,
-            userProfile: doctorResult.data,
-            principal
+            user: staff,
+            userRole: link.role,
+            userProfile: staff,
+            principal,
+            sessionExpiresAt
           }
         });
         return;
       }
 
-      // If neither patient nor doctor, user might need to register
+      // Principal not linked yet - user must link an existing account or register
       dispatch({
         type: actionTypes.SET_AUTHENTICATED,
         payload: {
           user: { id: principal, name: 'Unregistered User' },
           userRole: null, // No role assigned yet
           userProfile: null,
-          principal
+          principal,
+          sessionExpiresAt
         }
       });
       
@@ -227,12 +314,16 @@ export const AuthProvider = ({ children }) => {
       if (success) {
         const principal = internetIdentityAuth.getPrincipal();
         if (principal) {
+          // A fresh sign-in gets a new session key; the same principal keeps its unsent queries and drafts
+          await cacheSession.start(principal, true);
+          await icpService.setIdentity(internetIdentityAuth.getIdentity());
           await loadUserProfile(principal);
         } else {
           throw new Error('Failed to get principal after login');
         }
       } else {
-        throw new Error('Login was not successful');
+        // User closed the Internet Identity window
+        dispatch({ type: actionTypes.SET_UNAUTHENTICATED });
       }
     } catch (error) {
       console.error('Login failed:', error);
@@ -250,8 +341,17 @@ export const AuthProvider = ({ children }) => {
     dispatch({ type: actionTypes.SET_LOADING, payload: true });
     
     try {
+      // Give unsent queries one last try; any left over are kept for the patient's next sign-in
+      const unsentQueries = await flushUnsentQueries(state.user, state.userRole);
+      if (unsentQueries > 0) {
+        await cacheSession.suspend();
+      } else {
+        await cacheSession.end();
+      }
+
       await internetIdentityAuth.logout();
-      dispatch({ type: actionTypes.SET_UNAUTHENTICATED });
+      await icpService.setIdentity(null);
+      dispatch({ type: actionTypes.SET_UNAUTHENTICATED, payload: { unsentQueries } });
     } catch (error) {
       console.error('Logout failed:', error);
       dispatch({ 
@@ -259,10 +359,36 @@ export const AuthProvider = ({ children }) => {
         payload: `Logout failed: ${error.message}` 
       });
     }
-  }, []);
+  }, [state.userRole, state.user]);
+
+  /**
+   * Link the signed-in principal to an existing patient or doctor account,
+   * proving ownership with the one-time code an administrator issued for it
+   */
+  const linkAccount = useCallback(async (role, userId, linkCode) => {
+    dispatch({ type: actionTypes.SET_LOADING, payload: true });
+
+    try {
+      const result = await icpService.linkPrincipal(role, userId, linkCode);
+
+      if (result.success) {
+        await loadUserProfile(state.principal);
+        return { success: true };
+      }
+
+      // Linking failures are recoverable: keep the session and let the user retry
+      dispatch({ type: actionTypes.SET_LOADING, payload: false });
+      return { success: false, error: result.error || 'Failed to link account' };
+    } catch (error) {
+      console.error('Account linking failed:', error);
+      dispatch({ type: actionTypes.SET_LOADING, payload: false });
+      return { success: false, error: error.message };
+    }
+  }, [state.principal, loadUserProfile]);
 
   /**
-   * Register new user with role
+   * Register new user with role. The canister links the caller's principal to new patient
+   * accounts; doctors are linked once an administrator has verified them and issued a link code.
    */
   const registerUser = useCallback(async (userData, role) => {
     dispatch({ type: actionTypes.SET_LOADING, payload: true });
@@ -271,15 +397,9 @@ export const AuthProvider = ({ children }) => {
       let result;
       
       if (role === USER_ROLES.PATIENT) {
-        result = await trustCareAPI.registerPatient({
-          id: state.principal,
-          ...userData
-        });
+        result = await icpService.registerPatient(userData.name, userData.condition, userData.email);
       } else if (role === USER_ROLES.DOCTOR) {
-        result = await trustCareAPI.registerDoctor({
-          id: state.principal,
-          ...userData
-        });
+        result = await icpService.registerDoctor(userData.name, userData.specialization);
       } else {
         throw new Error('Invalid user role');
       }
@@ -287,7 +407,7 @@ export const AuthProvider = ({ children }) => {
       if (result.success) {
         // Reload user profile after registration
         await loadUserProfile(state.principal);
-        return { success: true };
+        return { success: true, userId: result.data };
       } else {
         throw new Error(result.error || 'Registration failed');
       }
@@ -311,7 +431,14 @@ export const AuthProvider = ({ children }) => {
       let result;
       
       if (state.userRole === USER_ROLES.PATIENT) {
-        result = await trustCareAPI.updatePatient(state.principal, updates);
+        // updatePatient replaces the whole record, so merge the changes into the stored one
+        const current = await trustCareAPI.getEnhancedPatient(state.user.id);
+        if (!current.success) {
+          throw new Error(current.error || 'Patient record could not be loaded');
+        }
+        result = current.data
+          ? await trustCareAPI.updatePatient(state.user.id, { ...current.data, ...updates })
+          : await trustCareAPI.createEnhancedPatient({ ...legacyPatientToPatientData(state.user), ...updates });
       } else if (state.userRole === USER_ROLES.DOCTOR) {
         result = await trustCareAPI.updateDoctor(state.principal, updates);
       } else {
@@ -335,7 +462,7 @@ export const AuthProvider = ({ children }) => {
       });
       return { success: false, error: error.message };
     }
-  }, [state.userRole, state.principal]);
+  }, [state.userRole, state.principal, state.user]);
 
   /**
    * Refresh authentication state
@@ -343,17 +470,21 @@ export const AuthProvider = ({ children }) => {
   const refreshAuth = useCallback(async () => {
     const isValid = await internetIdentityAuth.refresh();
     if (!isValid) {
-      dispatch({ type: actionTypes.SET_UNAUTHENTICATED });
+      const unsentQueries = await flushUnsentQueries(state.user, state.userRole);
+      await cacheSession.suspend();
+      dispatch({ type: actionTypes.SET_UNAUTHENTICATED, payload: { unsentQueries } });
       return false;
     }
     
     const principal = internetIdentityAuth.getPrincipal();
     if (principal && principal !== state.principal) {
+      await cacheSession.start(principal, true);
+      await icpService.setIdentity(internetIdentityAuth.getIdentity());
       await loadUserProfile(principal);
     }
     
     return true;
-  }, [state.principal, loadUserProfile]);
+  }, [state.principal, state.user, state.userRole, loadUserProfile]);
 
   /**
    * Clear authentication error
@@ -367,6 +498,7 @@ export const AuthProvider = ({ children }) => {
   const isPatient = state.userRole === USER_ROLES.PATIENT;
   const isDoctor = state.userRole === USER_ROLES.DOCTOR;
   const isAdmin = state.userRole === USER_ROLES.ADMIN;
+  const isComplianceOfficer = state.userRole === USER_ROLES.COMPLIANCE_OFFICER;
   const hasRole = state.userRole !== null;
   const needsRegistration = isAuthenticated && !hasRole;
 
@@ -379,12 +511,14 @@ export const AuthProvider = ({ children }) => {
     isPatient,
     isDoctor,
     isAdmin,
+    isComplianceOfficer,
     hasRole,
     needsRegistration,
     
     // Actions
     login,
     logout,
+    linkAccount,
     registerUser,
     updateUserProfile,
     refreshAuth,
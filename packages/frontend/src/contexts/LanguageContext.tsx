@@ -0,0 +1,84 @@
+// Language Context - The UI language, kept in this device's user preferences
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { Language } from '../types';
+import { cacheOperations } from '../utils/cache';
+import {
+  DEFAULT_LANGUAGE,
+  DateStyle,
+  MessageKey,
+  MessageValues,
+  TimeStyle,
+  formatDate,
+  formatNumber,
+  formatTime,
+  isLanguage,
+  translate
+} from '../utils/i18n';
+
+interface LanguageContextType {
+  language: Language;
+  setLanguage: (language: Language) => void;
+  t: (key: MessageKey, values?: MessageValues) => string;
+  formatDate: (value: Date | number | string, style?: DateStyle) => string;
+  formatTime: (value: Date | number | string, style?: TimeStyle) => string;
+  formatNumber: (value: number) => string;
+}
+
+const LanguageContext = createContext<LanguageContextType | undefined>(undefined);
+
+export const useTranslation = () => {
+  const context = useContext(LanguageContext);
+  if (context === undefined) {
+    throw new Error('useTranslation must be used within a LanguageProvider');
+  }
+  return context;
+};
+
+const PREFERENCE_NAME = 'language';
+
+// A saved choice wins; otherwise a Swahili browser starts in Swahili
+const initialLanguage = (defaultLanguage: Language): Language => {
+  const stored = cacheOperations.userPreferences.get<Language>(PREFERENCE_NAME);
+  if (isLanguage(stored)) {
+    return stored;
+  }
+  const browserLanguage = typeof navigator !== 'undefined' ? (navigator.language || '').slice(0, 2) : '';
+  return isLanguage(browserLanguage) ? browserLanguage : defaultLanguage;
+};
+
+interface LanguageProviderProps {
+  children: React.ReactNode;
+  defaultLanguage?: Language;
+}
+
+export const LanguageProvider: React.FC<LanguageProviderProps> = ({
+  children,
+  defaultLanguage = DEFAULT_LANGUAGE
+}) => {
+  const [language, setLanguageState] = useState<Language>(() => initialLanguage(defaultLanguage));
+
+  // Screen readers and the browser's own UI follow the document language
+  useEffect(() => {
+    document.documentElement.lang = language;
+  }, [language]);
+
+  const setLanguage = useCallback((newLanguage: Language) => {
+    cacheOperations.userPreferences.set(PREFERENCE_NAME, newLanguage);
+    setLanguageState(newLanguage);
+  }, []);
+
+  const value = useMemo<LanguageContextType>(() => ({
+    language,
+    setLanguage,
+    t: (key, values) => translate(language, key, values),
+    formatDate: (date, style) => formatDate(date, language, style),
+    formatTime: (date, style) => formatTime(date, language, style),
+    formatNumber: (number) => formatNumber(number, language)
+  }), [language, setLanguage]);
+
+  return (
+    <LanguageContext.Provider value={value}>
+      {children}
+    </LanguageContext.Provider>
+  );
+};
@@ -0,0 +1,41 @@
+import { useEffect, useState } from 'react';
+import trustCareAPI from '../api/trustcare';
+import { InteractionContext } from '../utils/drugInteractions';
+import { currentMedications } from '../utils/prescription';
+
+/**
+ * The patient's medications and allergies for interaction checks: their
+ * medical history plus anything prescribed on the platform. Null while
+ * loading, or when patientId is null.
+ */
+export function useInteractionContext(patientId: string | null): InteractionContext | null {
+  const [context, setContext] = useState<InteractionContext | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setContext(null);
+    if (!patientId) return;
+
+    Promise.all([
+      trustCareAPI.getEnhancedPatient(patientId),
+      trustCareAPI.getPatientPrescriptions(patientId)
+    ]).then(([patientResult, prescriptionsResult]) => {
+      if (cancelled) return;
+      // Legacy patients have no enhanced record; their prescriptions are still worth checking
+      const history = patientResult.success && patientResult.data ? patientResult.data.medicalHistory : undefined;
+      const prescribed = prescriptionsResult.success
+        ? currentMedications(prescriptionsResult.data || []).map(item => item.medication.name)
+        : [];
+      setContext({
+        currentMedications: (history ? history.medications : []).concat(prescribed),
+        allergies: history ? history.allergies : []
+      });
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [patientId]);
+
+  return context;
+}
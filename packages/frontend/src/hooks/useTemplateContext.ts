@@ -0,0 +1,44 @@
+import { useEffect, useState } from 'react';
+import trustCareAPI from '../api/trustcare';
+import { Doctor, MedicalQuery, PatientData, QueryData } from '../types';
+import { TemplateContext } from '../utils/responseTemplates';
+
+/**
+ * Values for response template placeholders. Starts from the query and
+ * doctor at hand and adds the patient record, latest vitals and query
+ * category once they load; legacy records simply leave those unset.
+ */
+export function useTemplateContext(query: MedicalQuery, doctor: Doctor): TemplateContext {
+  const [patient, setPatient] = useState<PatientData | undefined>(undefined);
+  const [enhancedQuery, setEnhancedQuery] = useState<QueryData | undefined>(undefined);
+
+  useEffect(() => {
+    let cancelled = false;
+    setPatient(undefined);
+    setEnhancedQuery(undefined);
+
+    Promise.all([
+      trustCareAPI.getEnhancedPatient(query.patientId),
+      trustCareAPI.getEnhancedQuery(query.id)
+    ]).then(([patientResult, queryResult]) => {
+      if (cancelled) return;
+      if (patientResult.success && patientResult.data) setPatient(patientResult.data);
+      if (queryResult.success && queryResult.data) setEnhancedQuery(queryResult.data);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [query.id, query.patientId]);
+
+  return {
+    patient,
+    query: {
+      title: query.title,
+      description: query.description,
+      category: enhancedQuery ? enhancedQuery.category : undefined
+    },
+    lastVitals: patient ? patient.currentVitals : undefined,
+    doctor: { name: doctor.name }
+  };
+}
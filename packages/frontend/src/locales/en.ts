@@ -0,0 +1,202 @@
+// English message catalogue - the source every other catalogue translates, in ICU MessageFormat (see utils/i18n)
+const en = {
+  // Shared actions and states
+  'common.refresh': 'Refresh',
+  'common.refreshing': 'Refreshing...',
+  'common.retry': 'Retry',
+  'common.tryAgain': 'Try Again',
+  'common.signIn': 'Sign In',
+  'common.signOut': 'Sign Out',
+  'common.logout': 'Logout',
+  'common.settings': 'Settings',
+  'common.dismiss': 'Dismiss this notification',
+  'common.live': 'Live',
+  'common.liveUpdates': 'Live updates',
+  'common.reconnecting': 'Reconnecting...',
+  'common.offline': 'Offline',
+  'common.offlineMode': 'Offline mode',
+  'common.lastUpdated': 'Last updated: {time, time}',
+  'common.active': 'Active',
+  'common.inactive': 'Inactive',
+
+  // Toasts and button states shared across the portals (constants UI_MESSAGES)
+  'messages.error.backendConnectionFailed': 'Failed to connect to backend. Please check your connection.',
+  'messages.error.invalidInput': 'Please check your input and try again.',
+  'messages.error.authenticationFailed': 'Authentication failed. Please try again.',
+  'messages.error.permissionDenied': 'You do not have permission to access this resource.',
+  'messages.error.unknown': 'An unknown error occurred. Please try again.',
+  'messages.error.registrationFailed': 'Registration failed',
+  'messages.error.submissionFailed': 'Submission failed',
+  'messages.error.loadingFailed': 'Failed to load data',
+  'messages.success.loggedIn': 'Login successful!',
+  'messages.success.loggedOut': 'Logged out successfully.',
+  'messages.success.registrationComplete': 'Registration completed successfully!',
+  'messages.success.patientRegistered': 'Patient registered successfully!',
+  'messages.success.doctorRegistered': 'Doctor registered successfully!',
+  'messages.success.patientAssigned': 'Patient assigned successfully!',
+  'messages.success.patientUnassigned': 'Patient unassigned successfully!',
+  'messages.success.querySubmitted': 'Your query has been submitted successfully.',
+  'messages.success.queryTaken': 'Query has been assigned to you.',
+  'messages.success.responseSent': 'Your response has been sent to the patient.',
+  'messages.success.responseSubmitted': 'Your response has been submitted successfully.',
+  'messages.loading.generic': 'Loading...',
+  'messages.loading.signingIn': 'Signing in...',
+  'messages.loading.registering': 'Creating account...',
+  'messages.loading.data': 'Loading data...',
+  'messages.loading.submitting': 'Submitting...',
+  'messages.loading.saving': 'Saving...',
+  'messages.info.welcome': 'Welcome to TrustCareConnect',
+  'messages.info.noData': 'No data available.',
+  'messages.info.processing': 'Processing your request...',
+  'app.backendConnected': 'Backend connected: {status}',
+
+  // Site navigation
+  'nav.home': 'Home',
+  'nav.about': 'About',
+  'nav.patientPortal': 'Patient Portal',
+  'nav.doctorPortal': 'Doctor Portal',
+  'nav.analytics': 'Analytics',
+  'nav.audit': 'Audit',
+  'nav.dashboard': 'Dashboard',
+  'nav.newQuery': 'New Query',
+  'nav.myQueries': 'My Queries',
+  'nav.profile': 'Profile',
+  'nav.myPatients': 'My Patients',
+  'nav.incomingQueries': 'Incoming Queries',
+  'nav.patientAssignments': 'Patient Assignments',
+  'nav.patientLogin': 'Patient Login',
+  'nav.doctorLogin': 'Doctor Login',
+  'nav.openMenu': 'Open menu',
+
+  // Language switcher
+  'language.label': 'Language',
+  'language.description': 'Used for the app on this device. For patients it is also the language your doctor and the AI assistant reply in.',
+  'language.changed': 'The app is now in {language}.',
+  'language.syncFailed': 'Your language was changed on this device but could not be saved to your record: {error}',
+
+  // Settings page
+  'settings.title': 'Settings',
+  'settings.name': 'Name',
+  'settings.accountType': 'Account type',
+  'settings.notLinked': 'Not linked yet',
+  'settings.accountId': 'Account ID',
+  'settings.internetIdentity': 'Internet Identity',
+  'settings.shortcuts': 'Shortcuts',
+  'settings.signOutDescription': 'Ends this session and clears data cached on this device.',
+  'settings.link.dashboard': 'Dashboard',
+  'settings.link.medicalProfile': 'Medical profile',
+  'settings.link.glucoseLog': 'Glucose log',
+  'settings.link.consents': 'Consents',
+  'settings.link.accessHistory': 'Who viewed my data',
+  'settings.link.incomingQueries': 'Incoming queries',
+  'settings.link.myPatients': 'My patients',
+  'settings.link.platformAnalytics': 'Platform analytics',
+  'settings.link.consentDocuments': 'Consent documents',
+  'settings.link.accountLinks': 'Account links',
+  'settings.link.auditExplorer': 'Audit explorer',
+
+  // Patient dashboard
+  'patientDashboard.welcome': 'Welcome back, {name}',
+  'patientDashboard.patientId': 'Patient ID: {id}',
+  'patientDashboard.condition': 'Condition: {condition}',
+  'patientDashboard.status': 'Status: {status}',
+  'patientDashboard.assignedDoctor': 'Assigned Doctor: {doctorId}',
+  'patientDashboard.updates': '({count, plural, one {# update} other {# updates}})',
+  'patientDashboard.loadFailed': 'Unable to Load Data',
+  'patientDashboard.tab.overview': 'Overview',
+  'patientDashboard.tab.queryHistory': 'Query History',
+  'patientDashboard.tab.newQuery': 'Submit New Query',
+  'patientDashboard.tab.glucoseLog': 'Glucose Log',
+  'patientDashboard.tab.medications': 'Medications',
+  'patientDashboard.tab.profile': 'Profile',
+  'patientDashboard.tab.consents': 'Consents',
+  'patientDashboard.tab.accessHistory': 'Access History',
+
+  // Patient query notifications
+  'queryStatus.doctorResponded': '✅ Your doctor has responded to "{title}"! View the response in your query history.',
+  'queryStatus.inProgress': 'Query in Progress: "{title}"',
+  'queryStatus.submitted': 'Submitted successfully!',
+  'queryStatus.submittedDetail': 'Your query has been processed by our AI system and sent to your doctor.',
+  'queryStatus.awaitingReview': '⏳ Awaiting doctor review - typically responds within 2-4 hours',
+  'queryStatus.underReview': '👨‍⚕️ Currently under doctor review - response expected within 1-2 hours',
+  'queryStatus.submittedAt': '📅 Submitted: {at, date, medium} {at, time}',
+  'queryStatus.willNotify': "🔔 You'll be notified when your doctor responds",
+  'queryStatus.responseReady': 'Response Ready: "{title}"',
+  'queryStatus.greatNews': 'Great news!',
+  'queryStatus.greatNewsDetail': 'Your doctor has reviewed and approved a response to your query.',
+  'queryStatus.verifiedDetail': 'The response has been verified by your healthcare provider and is ready to view in your query history.',
+  'queryStatus.respondedAt': '📅 Responded: {at, date, medium} {at, time}',
+  'queryStatus.approvedByDoctor': '👨‍⚕️ Verified and approved by your doctor',
+  'queryStatus.viewResponse': '📖 View Response',
+
+  // Patient registration (quick form)
+  'patientRegistration.title': 'Patient Registration',
+  'patientRegistration.fullName': 'Full Name',
+  'patientRegistration.fullNamePlaceholder': 'Enter your full name',
+  'patientRegistration.condition': 'Medical Condition',
+  'patientRegistration.conditionPlaceholder': 'Select your primary condition',
+  'patientRegistration.email': 'Email Address',
+  'patientRegistration.emailPlaceholder': 'Enter your email address',
+  'patientRegistration.submit': 'Register as Patient',
+  'patientRegistration.nameRequired': 'Name is required',
+  'patientRegistration.conditionRequired': 'Medical condition is required',
+  'patientRegistration.emailRequired': 'Email is required',
+  'patientRegistration.emailInvalid': 'Please enter a valid email address',
+  'patientRegistration.error': 'Error: {error}',
+  'patientRegistration.failed': 'Registration failed. Please try again.',
+
+  // Doctor dashboard
+  'doctorDashboard.title': '👨‍⚕️ Dr. {name}',
+  'doctorDashboard.pending': '🔔 {count, plural, other {# Pending}}',
+  'doctorDashboard.specialization': 'Specialization:',
+  'doctorDashboard.doctorId': 'Doctor ID:',
+  'doctorDashboard.realtimeUpdates': '{count, plural, one {# real-time update} other {# real-time updates}}',
+  'doctorDashboard.switchAccount': 'Switch Account',
+  'doctorDashboard.error': 'Dashboard Error',
+  'doctorDashboard.errorHint': 'Some features may not work properly. Please try refreshing the dashboard.',
+  'doctorDashboard.loading': 'Loading dashboard data...',
+  'doctorDashboard.tab.overview': '📊 Overview',
+  'doctorDashboard.tab.incoming': '📥 Incoming Queries',
+  'doctorDashboard.tab.patients': '👥 My Patients',
+  'doctorDashboard.tab.queries': '💬 All Queries',
+  'doctorDashboard.tab.assignments': '📋 Assignments',
+  'doctorDashboard.tab.interactionRules': '💊 Interaction Rules',
+  'doctorDashboard.tab.templates': '📝 Templates',
+  'doctorDashboard.tab.feedback': '⭐ Feedback',
+
+  // Doctor sign-in and registration
+  'doctorLogin.title': '🩺 Doctor Portal',
+  'doctorLogin.subtitle': 'Access your patient dashboard and medical queries',
+  'doctorLogin.signIn': 'Sign in with Internet Identity',
+  'doctorLogin.passwordless': '🔐 Secure, passwordless sign-in',
+  'doctorLogin.passwordlessDetail': 'Link your Internet Identity to your Doctor ID once, with the link code an administrator gives you.',
+  'doctorLogin.principal': 'Principal: {principal}',
+  'doctorLogin.linkTab': 'Link Doctor ID',
+  'doctorLogin.registerTab': 'Register',
+  'doctorLogin.doctorId': 'Doctor ID',
+  'doctorLogin.doctorIdPlaceholder': 'Enter your doctor ID (e.g., doctor_1)',
+  'doctorLogin.singleIdentity': '💡 Each Doctor ID can be linked to a single Internet Identity.',
+  'doctorLogin.linkCode': 'Link Code',
+  'doctorLogin.linkCodePlaceholder': 'Enter the code from your administrator (e.g., K7QM-2XWD)',
+  'doctorLogin.link': 'Link Account',
+  'doctorLogin.fullName': 'Full Name',
+  'doctorLogin.fullNamePlaceholder': 'Enter your full name',
+  'doctorLogin.specialization': 'Medical Specialization',
+  'doctorLogin.specializationPlaceholder': 'Select your specialization',
+  'doctorLogin.register': 'Register as Doctor',
+  'doctorLogin.differentIdentity': 'Use a different identity',
+  'doctorLogin.help': 'Need Help?',
+  'doctorLogin.helpExisting': '• Existing doctors: Sign in, then link your Doctor ID with your link code',
+  'doctorLogin.helpNew': '• New doctors: Register, then link your account once an administrator has verified you',
+  'doctorLogin.enterDoctorId': 'Please enter your Doctor ID',
+  'doctorLogin.enterLinkCode': 'Please enter the link code from your administrator',
+  'doctorLogin.linked': 'Your Internet Identity is now linked to your doctor account.',
+  'doctorLogin.linkFailed': 'Could not link your doctor account. Please try again.',
+  'doctorLogin.fillAllFields': 'Please fill in all fields',
+  'doctorLogin.registered': 'Registration received, Dr. {name}. Your Doctor ID is {doctorId}. An administrator will verify you and send a link code to finish setting up your account.',
+  'doctorLogin.registrationFailed': 'Registration failed: {error}'
+};
+
+export type MessageKey = keyof typeof en;
+
+export default en;
@@ -0,0 +1,202 @@
+// Kiswahili message catalogue - every key in locales/en, same ICU placeholders
+import { MessageKey } from './en';
+
+const sw: Record<MessageKey, string> = {
+  // Shared actions and states
+  'common.refresh': 'Onyesha upya',
+  'common.refreshing': 'Inaonyesha upya...',
+  'common.retry': 'Jaribu tena',
+  'common.tryAgain': 'Jaribu Tena',
+  'common.signIn': 'Ingia',
+  'common.signOut': 'Toka',
+  'common.logout': 'Toka',
+  'common.settings': 'Mipangilio',
+  'common.dismiss': 'Ondoa arifa hii',
+  'common.live': 'Moja kwa moja',
+  'common.liveUpdates': 'Taarifa za moja kwa moja',
+  'common.reconnecting': 'Inaunganisha upya...',
+  'common.offline': 'Nje ya mtandao',
+  'common.offlineMode': 'Hali ya nje ya mtandao',
+  'common.lastUpdated': 'Ilisasishwa: {time, time}',
+  'common.active': 'Hai',
+  'common.inactive': 'Haitumiki',
+
+  // Toasts and button states shared across the portals (constants UI_MESSAGES)
+  'messages.error.backendConnectionFailed': 'Imeshindwa kuunganisha na seva. Tafadhali angalia muunganisho wako.',
+  'messages.error.invalidInput': 'Tafadhali angalia ulichoandika kisha ujaribu tena.',
+  'messages.error.authenticationFailed': 'Uthibitishaji umeshindwa. Tafadhali jaribu tena.',
+  'messages.error.permissionDenied': 'Huna ruhusa ya kufikia ukurasa huu.',
+  'messages.error.unknown': 'Hitilafu isiyojulikana imetokea. Tafadhali jaribu tena.',
+  'messages.error.registrationFailed': 'Usajili umeshindwa',
+  'messages.error.submissionFailed': 'Kutuma kumeshindwa',
+  'messages.error.loadingFailed': 'Imeshindwa kupakia data',
+  'messages.success.loggedIn': 'Umeingia kikamilifu!',
+  'messages.success.loggedOut': 'Umetoka kikamilifu.',
+  'messages.success.registrationComplete': 'Usajili umekamilika!',
+  'messages.success.patientRegistered': 'Mgonjwa amesajiliwa kikamilifu!',
+  'messages.success.doctorRegistered': 'Daktari amesajiliwa kikamilifu!',
+  'messages.success.patientAssigned': 'Mgonjwa amekabidhiwa kikamilifu!',
+  'messages.success.patientUnassigned': 'Mgonjwa ameondolewa kikamilifu!',
+  'messages.success.querySubmitted': 'Swali lako limetumwa kikamilifu.',
+  'messages.success.queryTaken': 'Swali limekabidhiwa kwako.',
+  'messages.success.responseSent': 'Jibu lako limetumwa kwa mgonjwa.',
+  'messages.success.responseSubmitted': 'Jibu lako limewasilishwa kikamilifu.',
+  'messages.loading.generic': 'Inapakia...',
+  'messages.loading.signingIn': 'Inaingia...',
+  'messages.loading.registering': 'Inafungua akaunti...',
+  'messages.loading.data': 'Inapakia data...',
+  'messages.loading.submitting': 'Inatuma...',
+  'messages.loading.saving': 'Inahifadhi...',
+  'messages.info.welcome': 'Karibu TrustCareConnect',
+  'messages.info.noData': 'Hakuna data.',
+  'messages.info.processing': 'Ombi lako linashughulikiwa...',
+  'app.backendConnected': 'Seva imeunganishwa: {status}',
+
+  // Site navigation
+  'nav.home': 'Nyumbani',
+  'nav.about': 'Kuhusu',
+  'nav.patientPortal': 'Lango la Mgonjwa',
+  'nav.doctorPortal': 'Lango la Daktari',
+  'nav.analytics': 'Takwimu',
+  'nav.audit': 'Ukaguzi',
+  'nav.dashboard': 'Dashibodi',
+  'nav.newQuery': 'Swali Jipya',
+  'nav.myQueries': 'Maswali Yangu',
+  'nav.profile': 'Wasifu',
+  'nav.myPatients': 'Wagonjwa Wangu',
+  'nav.incomingQueries': 'Maswali Yanayoingia',
+  'nav.patientAssignments': 'Ugawaji wa Wagonjwa',
+  'nav.patientLogin': 'Mgonjwa Kuingia',
+  'nav.doctorLogin': 'Daktari Kuingia',
+  'nav.openMenu': 'Fungua menyu',
+
+  // Language switcher
+  'language.label': 'Lugha',
+  'language.description': 'Inatumika kwa programu kwenye kifaa hiki. Kwa wagonjwa, pia ni lugha ambayo daktari wako na msaidizi wa AI watakujibu.',
+  'language.changed': 'Programu sasa iko kwa {language}.',
+  'language.syncFailed': 'Lugha imebadilishwa kwenye kifaa hiki lakini haikuweza kuhifadhiwa kwenye rekodi yako: {error}',
+
+  // Settings page
+  'settings.title': 'Mipangilio',
+  'settings.name': 'Jina',
+  'settings.accountType': 'Aina ya akaunti',
+  'settings.notLinked': 'Bado haijaunganishwa',
+  'settings.accountId': 'Nambari ya akaunti',
+  'settings.internetIdentity': 'Internet Identity',
+  'settings.shortcuts': 'Njia za mkato',
+  'settings.signOutDescription': 'Inamaliza kipindi hiki na kufuta data iliyohifadhiwa kwenye kifaa hiki.',
+  'settings.link.dashboard': 'Dashibodi',
+  'settings.link.medicalProfile': 'Wasifu wa matibabu',
+  'settings.link.glucoseLog': 'Kumbukumbu ya sukari',
+  'settings.link.consents': 'Idhini',
+  'settings.link.accessHistory': 'Walioona data yangu',
+  'settings.link.incomingQueries': 'Maswali yanayoingia',
+  'settings.link.myPatients': 'Wagonjwa wangu',
+  'settings.link.platformAnalytics': 'Takwimu za jukwaa',
+  'settings.link.consentDocuments': 'Nyaraka za idhini',
+  'settings.link.accountLinks': 'Viungo vya akaunti',
+  'settings.link.auditExplorer': 'Kichunguzi cha ukaguzi',
+
+  // Patient dashboard
+  'patientDashboard.welcome': 'Karibu tena, {name}',
+  'patientDashboard.patientId': 'Nambari ya mgonjwa: {id}',
+  'patientDashboard.condition': 'Hali ya kiafya: {condition}',
+  'patientDashboard.status': 'Hali: {status}',
+  'patientDashboard.assignedDoctor': 'Daktari wako: {doctorId}',
+  'patientDashboard.updates': '({count, plural, one {taarifa #} other {taarifa #}})',
+  'patientDashboard.loadFailed': 'Imeshindwa Kupakia Data',
+  'patientDashboard.tab.overview': 'Muhtasari',
+  'patientDashboard.tab.queryHistory': 'Historia ya Maswali',
+  'patientDashboard.tab.newQuery': 'Uliza Swali Jipya',
+  'patientDashboard.tab.glucoseLog': 'Kumbukumbu ya Sukari',
+  'patientDashboard.tab.medications': 'Dawa',
+  'patientDashboard.tab.profile': 'Wasifu',
+  'patientDashboard.tab.consents': 'Idhini',
+  'patientDashboard.tab.accessHistory': 'Historia ya Ufikiaji',
+
+  // Patient query notifications
+  'queryStatus.doctorResponded': '✅ Daktari wako amejibu "{title}"! Tazama jibu katika historia ya maswali yako.',
+  'queryStatus.inProgress': 'Swali Linashughulikiwa: "{title}"',
+  'queryStatus.submitted': 'Limetumwa kikamilifu!',
+  'queryStatus.submittedDetail': 'Swali lako limechambuliwa na mfumo wetu wa AI na kutumwa kwa daktari wako.',
+  'queryStatus.awaitingReview': '⏳ Linasubiri ukaguzi wa daktari - kwa kawaida hujibiwa ndani ya saa 2-4',
+  'queryStatus.underReview': '👨‍⚕️ Daktari analikagua sasa - jibu linatarajiwa ndani ya saa 1-2',
+  'queryStatus.submittedAt': '📅 Lilitumwa: {at, date, medium} {at, time}',
+  'queryStatus.willNotify': '🔔 Utaarifiwa daktari wako atakapojibu',
+  'queryStatus.responseReady': 'Jibu Liko Tayari: "{title}"',
+  'queryStatus.greatNews': 'Habari njema!',
+  'queryStatus.greatNewsDetail': 'Daktari wako amekagua na kuidhinisha jibu la swali lako.',
+  'queryStatus.verifiedDetail': 'Jibu limethibitishwa na mhudumu wako wa afya na liko tayari kusomwa katika historia ya maswali yako.',
+  'queryStatus.respondedAt': '📅 Lilijibiwa: {at, date, medium} {at, time}',
+  'queryStatus.approvedByDoctor': '👨‍⚕️ Limethibitishwa na kuidhinishwa na daktari wako',
+  'queryStatus.viewResponse': '📖 Tazama Jibu',
+
+  // Patient registration (quick form)
+  'patientRegistration.title': 'Usajili wa Mgonjwa',
+  'patientRegistration.fullName': 'Jina Kamili',
+  'patientRegistration.fullNamePlaceholder': 'Andika jina lako kamili',
+  'patientRegistration.condition': 'Hali ya Kiafya',
+  'patientRegistration.conditionPlaceholder': 'Chagua hali yako kuu ya kiafya',
+  'patientRegistration.email': 'Barua Pepe',
+  'patientRegistration.emailPlaceholder': 'Andika anwani yako ya barua pepe',
+  'patientRegistration.submit': 'Jisajili kama Mgonjwa',
+  'patientRegistration.nameRequired': 'Jina linahitajika',
+  'patientRegistration.conditionRequired': 'Hali ya kiafya inahitajika',
+  'patientRegistration.emailRequired': 'Barua pepe inahitajika',
+  'patientRegistration.emailInvalid': 'Tafadhali andika anwani sahihi ya barua pepe',
+  'patientRegistration.error': 'Hitilafu: {error}',
+  'patientRegistration.failed': 'Usajili umeshindwa. Tafadhali jaribu tena.',
+
+  // Doctor dashboard
+  'doctorDashboard.title': '👨‍⚕️ Dkt. {name}',
+  'doctorDashboard.pending': '🔔 {count, plural, other {# Yanasubiri}}',
+  'doctorDashboard.specialization': 'Utaalamu:',
+  'doctorDashboard.doctorId': 'Nambari ya daktari:',
+  'doctorDashboard.realtimeUpdates': '{count, plural, one {taarifa # ya moja kwa moja} other {taarifa # za moja kwa moja}}',
+  'doctorDashboard.switchAccount': 'Badilisha Akaunti',
+  'doctorDashboard.error': 'Hitilafu ya Dashibodi',
+  'doctorDashboard.errorHint': 'Baadhi ya huduma huenda zisifanye kazi vizuri. Tafadhali onyesha dashibodi upya.',
+  'doctorDashboard.loading': 'Inapakia data ya dashibodi...',
+  'doctorDashboard.tab.overview': '📊 Muhtasari',
+  'doctorDashboard.tab.incoming': '📥 Maswali Yanayoingia',
+  'doctorDashboard.tab.patients': '👥 Wagonjwa Wangu',
+  'doctorDashboard.tab.queries': '💬 Maswali Yote',
+  'doctorDashboard.tab.assignments': '📋 Ugawaji',
+  'doctorDashboard.tab.interactionRules': '💊 Kanuni za Mwingiliano wa Dawa',
+  'doctorDashboard.tab.templates': '📝 Violezo',
+  'doctorDashboard.tab.feedback': '⭐ Maoni',
+
+  // Doctor sign-in and registration
+  'doctorLogin.title': '🩺 Lango la Daktari',
+  'doctorLogin.subtitle': 'Fikia dashibodi ya wagonjwa wako na maswali ya matibabu',
+  'doctorLogin.signIn': 'Ingia kwa Internet Identity',
+  'doctorLogin.passwordless': '🔐 Kuingia salama bila nenosiri',
+  'doctorLogin.passwordlessDetail': 'Unganisha Internet Identity yako na nambari yako ya daktari mara moja, kwa msimbo wa kuunganisha utakaopewa na msimamizi.',
+  'doctorLogin.principal': 'Principal: {principal}',
+  'doctorLogin.linkTab': 'Unganisha Nambari ya Daktari',
+  'doctorLogin.registerTab': 'Jisajili',
+  'doctorLogin.doctorId': 'Nambari ya Daktari',
+  'doctorLogin.doctorIdPlaceholder': 'Andika nambari yako ya daktari (k.m., doctor_1)',
+  'doctorLogin.singleIdentity': '💡 Kila nambari ya daktari inaweza kuunganishwa na Internet Identity moja tu.',
+  'doctorLogin.linkCode': 'Msimbo wa Kuunganisha',
+  'doctorLogin.linkCodePlaceholder': 'Andika msimbo kutoka kwa msimamizi wako (k.m., K7QM-2XWD)',
+  'doctorLogin.link': 'Unganisha Akaunti',
+  'doctorLogin.fullName': 'Jina Kamili',
+  'doctorLogin.fullNamePlaceholder': 'Andika jina lako kamili',
+  'doctorLogin.specialization': 'Utaalamu wa Matibabu',
+  'doctorLogin.specializationPlaceholder': 'Chagua utaalamu wako',
+  'doctorLogin.register': 'Jisajili kama Daktari',
+  'doctorLogin.differentIdentity': 'Tumia utambulisho mwingine',
+  'doctorLogin.help': 'Unahitaji Msaada?',
+  'doctorLogin.helpExisting': '• Madaktari waliopo: Ingia, kisha unganisha nambari yako ya daktari kwa msimbo wako wa kuunganisha',
+  'doctorLogin.helpNew': '• Madaktari wapya: Jisajili, kisha unganisha akaunti yako baada ya msimamizi kukuthibitisha',
+  'doctorLogin.enterDoctorId': 'Tafadhali andika nambari yako ya daktari',
+  'doctorLogin.enterLinkCode': 'Tafadhali andika msimbo wa kuunganisha kutoka kwa msimamizi wako',
+  'doctorLogin.linked': 'Internet Identity yako sasa imeunganishwa na akaunti yako ya daktari.',
+  'doctorLogin.linkFailed': 'Imeshindwa kuunganisha akaunti yako ya daktari. Tafadhali jaribu tena.',
+  'doctorLogin.fillAllFields': 'Tafadhali jaza sehemu zote',
+  'doctorLogin.registered': 'Usajili umepokelewa, Dkt. {name}. Nambari yako ya daktari ni {doctorId}. Msimamizi atakuthibitisha na kukutumia msimbo wa kuunganisha ili kukamilisha akaunti yako.',
+  'doctorLogin.registrationFailed': 'Usajili umeshindwa: {error}'
+};
+
+export default sw;
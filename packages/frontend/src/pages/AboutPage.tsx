@@ -0,0 +1,67 @@
+// About Page Component - What the platform does and how a query is handled
+import React from 'react';
+import { Link } from 'react-router-dom';
+
+const STEPS = [
+  {
+    icon: '📝',
+    title: 'You ask',
+    text: 'Patients describe a symptom or question from the patient portal, along with any recent readings.'
+  },
+  {
+    icon: '🤖',
+    title: 'AI prepares a draft',
+    text: 'The query is analysed against your medical history and a draft response is prepared for your doctor.'
+  },
+  {
+    icon: '👨‍⚕️',
+    title: 'Your doctor answers',
+    text: 'A licensed doctor reviews, edits and approves every response. Nothing reaches you without their sign-off.'
+  }
+];
+
+const AboutPage: React.FC = () => {
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">About TrustCareConnect</h1>
+        <p className="text-gray-600">
+          TrustCareConnect connects patients living with chronic conditions such as diabetes to their doctors
+          between visits. Records are stored on the Internet Computer and you sign in with Internet Identity,
+          so there are no passwords to manage.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {STEPS.map((step) => (
+          <div key={step.title} className="bg-white rounded-lg shadow-md p-6">
+            <div className="text-3xl mb-3">{step.icon}</div>
+            <h2 className="text-lg font-semibold text-gray-900 mb-1">{step.title}</h2>
+            <p className="text-sm text-gray-600">{step.text}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-sm text-red-800">
+        ⚠️ TrustCareConnect is not an emergency service. If you need urgent care, call your local emergency number.
+      </div>
+
+      <div className="flex space-x-3">
+        <Link
+          to="/login?role=patient"
+          className="px-4 py-2 rounded-md text-sm font-medium bg-blue-600 text-white hover:bg-blue-700"
+        >
+          Patient Sign In
+        </Link>
+        <Link
+          to="/login?role=doctor"
+          className="px-4 py-2 rounded-md text-sm font-medium bg-gray-100 text-gray-800 hover:bg-gray-200"
+        >
+          Doctor Sign In
+        </Link>
+      </div>
+    </div>
+  );
+};
+
+export default AboutPage;
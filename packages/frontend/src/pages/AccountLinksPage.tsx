@@ -0,0 +1,91 @@
+// Account Links Page Component - Admin issuing of the one-time codes patients and doctors use to link their identity
+import React, { useState } from 'react';
+import { LinkCode, UserType } from '../types';
+import Button from '../components/common/Button';
+import icpService from '../services/icpService';
+import { formatters } from '../utils/formatters';
+
+interface AccountLinksPageProps {
+  showMessage?: (message: string, type?: 'success' | 'error' | 'info' | 'warning') => void;
+}
+
+// Rendered behind AdminRoute; the canister also rejects non-admin callers
+const AccountLinksPage: React.FC<AccountLinksPageProps> = ({ showMessage = () => {} }) => {
+  const [role, setRole] = useState<UserType>('doctor');
+  const [userId, setUserId] = useState('');
+  const [issuing, setIssuing] = useState(false);
+  const [issued, setIssued] = useState<LinkCode | null>(null);
+
+  const issue = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!userId.trim()) {
+      showMessage('Enter the patient or doctor ID to issue a link code for', 'warning');
+      return;
+    }
+
+    setIssuing(true);
+    const result = await icpService.issueLinkCode(role, userId.trim());
+    setIssuing(false);
+    if (!result.success || !result.data) {
+      showMessage(result.error || 'Failed to issue a link code', 'error');
+      return;
+    }
+    setIssued(result.data);
+    setUserId('');
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <h1 className="text-2xl font-bold text-gray-900">🔗 Account Links</h1>
+        <p className="text-sm text-gray-500">
+          Patients and doctors link their Internet Identity to an existing account with a one-time code.
+          Verify who you are talking to before issuing one, and share it with them privately. A new code replaces any
+          earlier code for the same account.
+        </p>
+      </div>
+
+      <form onSubmit={issue} className="bg-white rounded-lg shadow-md p-6 space-y-4">
+        <div className="flex gap-2">
+          {(['doctor', 'patient'] as UserType[]).map(option => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setRole(option)}
+              className={`px-4 py-2 text-sm font-medium rounded-md border ${
+                role === option
+                  ? 'bg-blue-50 text-blue-700 border-blue-300'
+                  : 'bg-gray-50 text-gray-500 border-gray-300 hover:bg-gray-100'
+              }`}
+            >
+              {option === 'doctor' ? 'Doctor' : 'Patient'}
+            </button>
+          ))}
+        </div>
+        <input
+          value={userId}
+          onChange={(e) => setUserId(e.target.value)}
+          placeholder={role === 'doctor' ? 'Doctor ID (e.g., doctor_1)' : 'Patient ID (e.g., patient_1)'}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <Button type="submit" size="small" loading={issuing}>
+          Issue Link Code
+        </Button>
+      </form>
+
+      {issued && (
+        <div className="bg-green-50 border border-green-200 rounded-lg p-6">
+          <p className="text-sm text-green-800">
+            Link code for {issued.role} {issued.userId}
+          </p>
+          <p className="mt-2 text-3xl font-mono font-bold tracking-widest text-green-900">{issued.code}</p>
+          <p className="mt-2 text-xs text-green-700">
+            Works once, until {formatters.formatDate(new Date(issued.expiresAt))}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AccountLinksPage;
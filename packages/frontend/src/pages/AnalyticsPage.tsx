@@ -0,0 +1,304 @@
+// Analytics Page Component - Admin view of platform volume, resolution times, specialty load and engagement
+import React, { useCallback, useEffect, useState } from 'react';
+import { PlatformAnalytics } from '../types';
+import Button from '../components/common/Button';
+import LoadingSpinner from '../components/common/LoadingSpinner';
+import VitalTrendChart from '../components/common/VitalTrendChart';
+import icpService from '../services/icpService';
+import { formatters } from '../utils/formatters';
+import {
+  WEEKDAY_LABELS,
+  dailyVolume,
+  dailyVolumeCsv,
+  downloadCsv,
+  engagementCsv,
+  engagementRates,
+  medianResolutionHours,
+  resolutionCsv,
+  resolutionDistribution,
+  specialtyLoad,
+  specialtyLoadCsv,
+  usageHeatmap,
+  usageHeatmapCsv
+} from '../utils/analytics';
+
+interface AnalyticsPageProps {
+  showMessage?: (message: string, type?: 'success' | 'error' | 'info' | 'warning') => void;
+}
+
+const VOLUME_WINDOWS = [7, 30, 90];
+
+// The canister reports peak hours in UTC
+const localHourLabel = (utcHour: number) => {
+  const date = new Date();
+  date.setUTCHours(utcHour, 0, 0, 0);
+  return `${date.getHours()}:00`;
+};
+
+const formatHours = (hours: number | null) => {
+  if (hours === null) return '—';
+  return hours < 48 ? `${Math.round(hours * 10) / 10} h` : `${Math.round((hours / 24) * 10) / 10} days`;
+};
+
+const CsvButton: React.FC<{ onClick: () => void }> = ({ onClick }) => (
+  <button type="button" onClick={onClick} className="text-xs text-blue-600 hover:text-blue-800">
+    ⬇ CSV
+  </button>
+);
+
+// Rendered behind AdminRoute; the canister also rejects non-admin callers
+const AnalyticsPage: React.FC<AnalyticsPageProps> = ({ showMessage = () => {} }) => {
+  const [analytics, setAnalytics] = useState<PlatformAnalytics | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [windowDays, setWindowDays] = useState(30);
+
+  const loadAnalytics = useCallback(async () => {
+    setLoading(true);
+    const result = await icpService.getPlatformAnalytics();
+    if (result.success && result.data) {
+      setAnalytics(result.data);
+      setError(null);
+    } else {
+      setError(result.error || 'Failed to load platform analytics');
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadAnalytics();
+  }, [loadAnalytics]);
+
+  if (!analytics) {
+    return loading ? (
+      <div className="flex justify-center py-8">
+        <LoadingSpinner message="Loading analytics..." />
+      </div>
+    ) : (
+      <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-sm text-red-700">{error}</div>
+    );
+  }
+
+  const { stats, activity, engagement } = analytics;
+  const volume = dailyVolume(activity, windowDays);
+  const resolution = resolutionDistribution(activity);
+  const largestResolutionBucket = Math.max(1, ...resolution.map(bucket => bucket.count));
+  const load = specialtyLoad(activity, analytics.doctorsBySpecialty);
+  const busiestSpecialty = Math.max(1, ...load.map(row => row.queries));
+  const heatmap = usageHeatmap(activity);
+  const busiestHour = Math.max(1, ...heatmap.map(row => Math.max(...row)));
+  const rates = engagementRates(engagement);
+  const exportName = (dataset: string) => `trustcare-${dataset}-${new Date().toISOString().slice(0, 10)}.csv`;
+  const exportCsv = (dataset: string, csv: string) => {
+    downloadCsv(exportName(dataset), csv);
+    showMessage(`Exported ${dataset.replace(/-/g, ' ')}`, 'success');
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow-md p-6 flex flex-wrap justify-between items-start gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">📈 Platform Analytics</h1>
+          <p className="text-sm text-gray-500">Updated {formatters.formatDate(new Date(stats.lastUpdated))}</p>
+        </div>
+        <Button size="small" variant="secondary" onClick={loadAnalytics} loading={loading}>
+          Refresh
+        </Button>
+      </div>
+
+      {error && <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-sm text-red-700">{error}</div>}
+
+      {/* Headline figures */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {[
+          { label: 'Total queries', value: String(stats.totalQueries), detail: `${stats.queriesLastWeek} in the last week` },
+          { label: 'Resolution rate', value: `${Math.round(stats.queryResolutionRate)}%`, detail: `Median ${formatHours(medianResolutionHours(activity))}` },
+          { label: 'Patients', value: String(stats.totalPatients), detail: `${stats.newPatientsThisMonth} new this month` },
+          {
+            label: 'Patient satisfaction',
+            value: stats.patientSatisfactionAverage > 0 ? `${stats.patientSatisfactionAverage.toFixed(2)} / 5` : '—',
+            detail: `${engagement.ratedAnswers} rated answers`
+          }
+        ].map(card => (
+          <div key={card.label} className="bg-white rounded-lg shadow-md p-4">
+            <p className="text-sm font-medium text-gray-600">{card.label}</p>
+            <p className="text-2xl font-bold text-gray-900">{card.value}</p>
+            <p className="text-xs text-gray-500">{card.detail}</p>
+          </div>
+        ))}
+      </div>
+
+      {/* Volume over time */}
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <div className="flex flex-wrap justify-between items-center gap-4 mb-4">
+          <h3 className="text-lg font-medium text-gray-900">Query Volume</h3>
+          <div className="flex items-center gap-2">
+            {VOLUME_WINDOWS.map(days => (
+              <Button
+                key={days}
+                size="small"
+                variant={windowDays === days ? 'primary' : 'secondary'}
+                onClick={() => setWindowDays(days)}
+              >
+                {days} days
+              </Button>
+            ))}
+            <CsvButton onClick={() => exportCsv('query-volume', dailyVolumeCsv(volume))} />
+          </div>
+        </div>
+        <VitalTrendChart
+          series={[
+            {
+              label: 'Submitted',
+              color: '#2563eb',
+              points: volume.map(day => ({ recordedAt: day.dayStart, value: day.submitted, outOfRange: false }))
+            },
+            {
+              label: 'Resolved',
+              color: '#16a34a',
+              points: volume.map(day => ({ recordedAt: day.dayStart, value: day.resolved, outOfRange: false }))
+            }
+          ]}
+          unit="queries"
+          height={180}
+        />
+        <div className="flex gap-4 text-xs text-gray-600 mt-2">
+          <span><span className="text-blue-600">●</span> Submitted</span>
+          <span><span className="text-green-600">●</span> Resolved</span>
+        </div>
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-6">
+        {/* Resolution times */}
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <div className="flex justify-between items-center mb-4">
+            <h3 className="text-lg font-medium text-gray-900">Time to Resolution</h3>
+            <CsvButton onClick={() => exportCsv('resolution-times', resolutionCsv(resolution))} />
+          </div>
+          <div className="space-y-2">
+            {resolution.map(bucket => (
+              <div key={bucket.label} className="flex items-center gap-2 text-sm">
+                <span className="w-28 text-gray-600">{bucket.label}</span>
+                <div className="flex-1 bg-gray-100 rounded h-3">
+                  <div className="h-3 rounded bg-blue-500" style={{ width: `${(bucket.count / largestResolutionBucket) * 100}%` }} />
+                </div>
+                <span className="w-8 text-right text-gray-700">{bucket.count}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Patient engagement */}
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <div className="flex justify-between items-center mb-4">
+            <h3 className="text-lg font-medium text-gray-900">Patient Engagement</h3>
+            <CsvButton onClick={() => exportCsv('patient-engagement', engagementCsv(engagement))} />
+          </div>
+          <dl className="grid grid-cols-2 gap-4 text-sm">
+            {[
+              { label: 'Asked at least one question', count: engagement.patientsWithQueries, percent: rates.withQueries },
+              { label: 'Came back with another', count: engagement.returningPatients, percent: rates.returning },
+              { label: 'Active in the last 30 days', count: engagement.activeLast30Days, percent: rates.activeLast30Days },
+              { label: 'Rated their answer', count: engagement.ratedAnswers, percent: rates.rated }
+            ].map(item => (
+              <div key={item.label}>
+                <dt className="text-gray-500">{item.label}</dt>
+                <dd className="text-xl font-semibold text-gray-900">
+                  {item.percent}%
+                  <span className="text-xs font-normal text-gray-500"> ({item.count})</span>
+                </dd>
+              </div>
+            ))}
+          </dl>
+          <p className="text-xs text-gray-500 mt-4">
+            Of {engagement.registeredPatients} registered patients; ratings are out of {engagement.answeredQueries} answered queries.
+          </p>
+        </div>
+      </div>
+
+      {/* Specialty load */}
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-medium text-gray-900">Specialty Load</h3>
+          <CsvButton onClick={() => exportCsv('specialty-load', specialtyLoadCsv(load))} />
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500 uppercase border-b">
+                <th className="px-3 py-2">Specialty</th>
+                <th className="px-3 py-2">Queries</th>
+                <th className="px-3 py-2">Open</th>
+                <th className="px-3 py-2">Doctors</th>
+                <th className="px-3 py-2">Per doctor</th>
+                <th className="px-3 py-2">Median resolution</th>
+              </tr>
+            </thead>
+            <tbody>
+              {load.map(row => (
+                <tr key={row.specialty} className="border-b border-gray-100">
+                  <td className="px-3 py-2 text-gray-900">{row.specialty}</td>
+                  <td className="px-3 py-2">
+                    <div className="flex items-center gap-2">
+                      <div className="w-24 bg-gray-100 rounded h-2">
+                        <div className="h-2 rounded bg-indigo-500" style={{ width: `${(row.queries / busiestSpecialty) * 100}%` }} />
+                      </div>
+                      {row.queries}
+                    </div>
+                  </td>
+                  <td className="px-3 py-2 text-gray-700">{row.open}</td>
+                  <td className="px-3 py-2 text-gray-700">{row.doctors}</td>
+                  <td className="px-3 py-2 text-gray-700">{row.queriesPerDoctor === null ? '—' : row.queriesPerDoctor}</td>
+                  <td className="px-3 py-2 text-gray-700">{formatHours(row.medianResolutionHours)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {load.length === 0 && <p className="text-sm text-gray-500 py-4 text-center">No queries yet.</p>}
+        </div>
+      </div>
+
+      {/* Peak hours heatmap */}
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <div className="flex justify-between items-center mb-1">
+          <h3 className="text-lg font-medium text-gray-900">Peak Hours</h3>
+          <CsvButton onClick={() => exportCsv('peak-hours', usageHeatmapCsv(heatmap))} />
+        </div>
+        <p className="text-sm text-gray-500 mb-4">
+          Queries submitted by weekday and hour, in your time zone.
+          {stats.peakUsageHours.length > 0 && ` Busiest: ${stats.peakUsageHours.slice(0, 3).map(localHourLabel).join(', ')}.`}
+        </p>
+        <div className="overflow-x-auto">
+          <table className="text-xs">
+            <thead>
+              <tr>
+                <th />
+                {heatmap[0].map((_, hour) => (
+                  <th key={hour} className="px-0.5 font-normal text-gray-500">{hour % 3 === 0 ? hour : ''}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {heatmap.map((row, day) => (
+                <tr key={WEEKDAY_LABELS[day]}>
+                  <th className="pr-2 font-normal text-gray-500 text-left">{WEEKDAY_LABELS[day]}</th>
+                  {row.map((count, hour) => (
+                    <td key={hour} className="p-0.5">
+                      <div
+                        className="w-5 h-5 rounded-sm bg-blue-600"
+                        style={{ opacity: count === 0 ? 0.06 : 0.2 + 0.8 * (count / busiestHour) }}
+                        title={`${WEEKDAY_LABELS[day]} ${hour}:00 - ${count} ${count === 1 ? 'query' : 'queries'}`}
+                      />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AnalyticsPage;
@@ -0,0 +1,237 @@
+// Audit Explorer Page Component - Compliance view of PHI access events with filters and CSV export
+import React, { useCallback, useEffect, useState } from 'react';
+import { AuditAction, AuditEvent, AuditFilter, AuditResourceKind } from '../types';
+import Button from '../components/common/Button';
+import LoadingSpinner from '../components/common/LoadingSpinner';
+import icpService from '../services/icpService';
+import { AUDIT_ACTIONS, AUDIT_RESOURCE_KINDS } from '../services/candidAdapter';
+import { formatters } from '../utils/formatters';
+import { downloadCsv } from '../utils/analytics';
+import {
+  AUDIT_ACTION_LABELS,
+  AUDIT_RESOURCE_LABELS,
+  actorRoleLabel,
+  auditEventsCsv,
+  matchesAuditSearch
+} from '../utils/audit';
+
+interface AuditExplorerPageProps {
+  showMessage?: (message: string, type?: 'success' | 'error' | 'info' | 'warning') => void;
+}
+
+// Mirrors the canister's cap on a single search
+const MAX_RESULTS = 500;
+
+interface FilterForm {
+  patientId: string;
+  actorId: string;
+  action: AuditAction | '';
+  resourceKind: AuditResourceKind | '';
+  fromDate: string;
+  toDate: string;
+}
+
+const EMPTY_FORM: FilterForm = { patientId: '', actorId: '', action: '', resourceKind: '', fromDate: '', toDate: '' };
+
+// Date inputs are local calendar days; the end date is inclusive
+const toAuditFilter = (form: FilterForm): AuditFilter => {
+  const dayStart = (value: string) => {
+    const [year, month, day] = value.split('-').map(Number);
+    return new Date(year, month - 1, day).getTime();
+  };
+  return {
+    patientId: form.patientId.trim() || undefined,
+    actorId: form.actorId.trim() || undefined,
+    action: form.action || undefined,
+    resourceKind: form.resourceKind || undefined,
+    fromTime: form.fromDate ? dayStart(form.fromDate) : undefined,
+    toTime: form.toDate ? dayStart(form.toDate) + 24 * 60 * 60 * 1000 - 1 : undefined,
+    limit: MAX_RESULTS
+  };
+};
+
+const inputClasses = 'w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+// Rendered behind ComplianceRoute; the canister also rejects callers who are not admins or compliance officers
+const AuditExplorerPage: React.FC<AuditExplorerPageProps> = ({ showMessage = () => {} }) => {
+  const [form, setForm] = useState<FilterForm>(EMPTY_FORM);
+  const [appliedFilter, setAppliedFilter] = useState<AuditFilter>(() => toAuditFilter(EMPTY_FORM));
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [search, setSearch] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadEvents = useCallback(async (filter: AuditFilter) => {
+    setLoading(true);
+    const result = await icpService.searchAuditEvents(filter);
+    if (result.success) {
+      setEvents(result.data || []);
+      setError(null);
+    } else {
+      setError(result.error || 'Failed to load audit events');
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadEvents(appliedFilter);
+  }, [loadEvents, appliedFilter]);
+
+  const updateForm = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) =>
+    setForm({ ...form, [e.target.name]: e.target.value });
+
+  const applyFilters = (e: React.FormEvent) => {
+    e.preventDefault();
+    setAppliedFilter(toAuditFilter(form));
+  };
+
+  const resetFilters = () => {
+    setForm(EMPTY_FORM);
+    setSearch('');
+    setAppliedFilter(toAuditFilter(EMPTY_FORM));
+  };
+
+  const visible = events.filter(event => matchesAuditSearch(event, search));
+
+  const exportCsv = () => {
+    downloadCsv(`trustcare-audit-trail-${new Date().toISOString().slice(0, 10)}.csv`, auditEventsCsv(visible));
+    showMessage(`Exported ${visible.length} audit events`, 'success');
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow-md p-6 flex flex-wrap justify-between items-start gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">🛡️ Audit Explorer</h1>
+          <p className="text-sm text-gray-500">
+            Every read of a patient record or query, and every hand-off to the AI assistant, newest first.
+          </p>
+        </div>
+        <Button size="small" variant="secondary" onClick={exportCsv} disabled={visible.length === 0}>
+          ⬇ Export CSV
+        </Button>
+      </div>
+
+      {/* Filters */}
+      <form onSubmit={applyFilters} className="bg-white rounded-lg shadow-md p-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <label className="text-sm text-gray-700">
+            Patient ID
+            <input name="patientId" value={form.patientId} onChange={updateForm} placeholder="patient_1" className={inputClasses} />
+          </label>
+          <label className="text-sm text-gray-700">
+            Accessed by (user ID or principal)
+            <input name="actorId" value={form.actorId} onChange={updateForm} placeholder="doctor_1" className={inputClasses} />
+          </label>
+          <label className="text-sm text-gray-700">
+            Action
+            <select name="action" value={form.action} onChange={updateForm} className={inputClasses}>
+              <option value="">Any action</option>
+              {AUDIT_ACTIONS.map(action => (
+                <option key={action} value={action}>{AUDIT_ACTION_LABELS[action]}</option>
+              ))}
+            </select>
+          </label>
+          <label className="text-sm text-gray-700">
+            Resource
+            <select name="resourceKind" value={form.resourceKind} onChange={updateForm} className={inputClasses}>
+              <option value="">Any resource</option>
+              {AUDIT_RESOURCE_KINDS.map(kind => (
+                <option key={kind} value={kind}>{AUDIT_RESOURCE_LABELS[kind]}</option>
+              ))}
+            </select>
+          </label>
+          <label className="text-sm text-gray-700">
+            From
+            <input type="date" name="fromDate" value={form.fromDate} onChange={updateForm} className={inputClasses} />
+          </label>
+          <label className="text-sm text-gray-700">
+            To
+            <input type="date" name="toDate" value={form.toDate} onChange={updateForm} className={inputClasses} />
+          </label>
+        </div>
+        <div className="flex gap-2 mt-4">
+          <Button type="submit" size="small" loading={loading}>
+            Apply Filters
+          </Button>
+          <Button size="small" variant="secondary" onClick={resetFilters}>
+            Reset
+          </Button>
+        </div>
+      </form>
+
+      {error && <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-sm text-red-700">{error}</div>}
+
+      {/* Results */}
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <div className="flex flex-wrap justify-between items-center gap-4 mb-4">
+          <p className="text-sm text-gray-600">
+            {visible.length} of {events.length} events
+            {events.length >= MAX_RESULTS && ' (showing the newest; narrow the filters to see older events)'}
+          </p>
+          <input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search names, IDs and reasons"
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        {loading && events.length === 0 ? (
+          <div className="flex justify-center py-8">
+            <LoadingSpinner message="Loading audit events..." />
+          </div>
+        ) : visible.length === 0 ? (
+          <p className="text-sm text-gray-500">No audit events match these filters.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead>
+                <tr className="text-left text-gray-600">
+                  <th className="py-2 pr-4 font-medium">When</th>
+                  <th className="py-2 pr-4 font-medium">Accessed by</th>
+                  <th className="py-2 pr-4 font-medium">Action</th>
+                  <th className="py-2 pr-4 font-medium">Patient</th>
+                  <th className="py-2 pr-4 font-medium">Resource</th>
+                  <th className="py-2 font-medium">Reason</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {visible.map(event => (
+                  <tr key={event.id} className="align-top">
+                    <td className="py-2 pr-4 text-gray-500 whitespace-nowrap">{formatters.formatDate(new Date(event.timestamp))}</td>
+                    <td className="py-2 pr-4">
+                      <p className="text-gray-900">{event.accessedBy.name}</p>
+                      <p className="text-xs text-gray-500">
+                        {actorRoleLabel(event)} · {event.accessedBy.userId || event.accessedBy.principal}
+                      </p>
+                    </td>
+                    <td className="py-2 pr-4 text-gray-700">{AUDIT_ACTION_LABELS[event.action]}</td>
+                    <td className="py-2 pr-4">
+                      <button
+                        type="button"
+                        onClick={() => {
+                          setForm({ ...form, patientId: event.patientId });
+                          setAppliedFilter({ ...appliedFilter, patientId: event.patientId });
+                        }}
+                        className="text-blue-600 hover:text-blue-800"
+                      >
+                        {event.patientId}
+                      </button>
+                    </td>
+                    <td className="py-2 pr-4 text-gray-700">
+                      {AUDIT_RESOURCE_LABELS[event.resourceKind]}
+                      <span className="text-xs text-gray-500"> {event.resourceId}</span>
+                    </td>
+                    <td className="py-2 text-gray-700">{event.reason}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AuditExplorerPage;
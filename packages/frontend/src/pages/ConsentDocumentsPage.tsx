@@ -0,0 +1,150 @@
+// Consent Documents Page Component - Admin view of the current consent documents and publishing of new versions
+import React, { useEffect, useState } from 'react';
+import { ConsentDocument, ConsentKind } from '../types';
+import Button from '../components/common/Button';
+import LoadingSpinner from '../components/common/LoadingSpinner';
+import icpService from '../services/icpService';
+import { formatters } from '../utils/formatters';
+
+interface ConsentDocumentsPageProps {
+  showMessage?: (message: string, type?: 'success' | 'error' | 'info' | 'warning') => void;
+}
+
+interface DraftForm {
+  title: string;
+  body: string;
+  required: boolean;
+}
+
+const draftFrom = (document: ConsentDocument): DraftForm => ({
+  title: document.title,
+  body: document.body,
+  required: document.required
+});
+
+// Rendered behind AdminRoute; the canister also rejects non-admin callers
+const ConsentDocumentsPage: React.FC<ConsentDocumentsPageProps> = ({ showMessage = () => {} }) => {
+  const [documents, setDocuments] = useState<ConsentDocument[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [editingKind, setEditingKind] = useState<ConsentKind | null>(null);
+  const [draft, setDraft] = useState<DraftForm>({ title: '', body: '', required: false });
+  const [publishing, setPublishing] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    icpService.getConsentDocuments().then(result => {
+      if (cancelled) return;
+      if (result.success) {
+        setDocuments(result.data || []);
+      } else {
+        setError(result.error || 'Failed to load consent documents');
+      }
+      setLoaded(true);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const startEditing = (document: ConsentDocument) => {
+    setEditingKind(document.kind);
+    setDraft(draftFrom(document));
+  };
+
+  const publish = async (document: ConsentDocument) => {
+    if (!draft.title.trim() || !draft.body.trim()) {
+      showMessage('A consent document needs a title and body', 'warning');
+      return;
+    }
+
+    setPublishing(true);
+    const result = await icpService.publishConsentDocument(document.kind, draft.title.trim(), draft.body.trim(), draft.required);
+    setPublishing(false);
+    if (!result.success || !result.data) {
+      showMessage(result.error || 'Failed to publish the consent document', 'error');
+      return;
+    }
+    const published = result.data;
+    setDocuments(prev => prev.map(existing => (existing.kind === published.kind ? published : existing)));
+    setEditingKind(null);
+    showMessage(`Published ${published.title} version ${published.version}`, 'success');
+  };
+
+  if (!loaded) {
+    return (
+      <div className="flex justify-center py-8">
+        <LoadingSpinner message="Loading consent documents..." />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <h1 className="text-2xl font-bold text-gray-900">📄 Consent Documents</h1>
+        <p className="text-sm text-gray-500">
+          Publishing a new version asks every patient who accepted an earlier one to review and accept it again.
+          Patients can revoke optional consents at any time.
+        </p>
+      </div>
+
+      {error && <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-sm text-red-700">{error}</div>}
+
+      {documents.map(document => (
+        <div key={document.kind} className="bg-white rounded-lg shadow-md p-6">
+          <div className="flex flex-wrap justify-between items-start gap-4">
+            <div>
+              <h3 className="text-lg font-medium text-gray-900">{document.title}</h3>
+              <p className="text-xs text-gray-500">
+                Version {document.version} · {document.required ? 'Required' : 'Optional'}
+                {document.publishedAt > 0 && ` · Published ${formatters.formatDate(new Date(document.publishedAt))}`}
+              </p>
+            </div>
+            {editingKind !== document.kind && (
+              <Button size="small" variant="secondary" onClick={() => startEditing(document)}>
+                New Version
+              </Button>
+            )}
+          </div>
+
+          {editingKind === document.kind ? (
+            <div className="mt-4 space-y-3">
+              <input
+                value={draft.title}
+                onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <textarea
+                value={draft.body}
+                onChange={(e) => setDraft({ ...draft, body: e.target.value })}
+                rows={8}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={draft.required}
+                  onChange={(e) => setDraft({ ...draft, required: e.target.checked })}
+                />
+                Required to use TrustCareConnect (patients cannot revoke it in the app)
+              </label>
+              <div className="flex gap-2">
+                <Button size="small" loading={publishing} onClick={() => publish(document)}>
+                  Publish Version {document.version + 1}
+                </Button>
+                <Button size="small" variant="secondary" disabled={publishing} onClick={() => setEditingKind(null)}>
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <p className="mt-3 text-sm text-gray-700 whitespace-pre-wrap">{document.body}</p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ConsentDocumentsPage;
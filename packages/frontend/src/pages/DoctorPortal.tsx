@@ -1,56 +1,70 @@
 // Doctor Portal Page Component
 import React from 'react';
+import { Navigate, Route, Routes } from 'react-router-dom';
 import { Doctor } from '../types';
-import DoctorLogin from '../components/doctor/DoctorLogin';
 import DoctorDashboard from '../components/doctor/DoctorDashboard';
+import TriageQueue from '../components/doctor/TriageQueue';
+import InteractionRulesEditor from '../components/doctor/InteractionRulesEditor';
+import TemplateLibrary from '../components/doctor/TemplateLibrary';
+import FeedbackPanel from '../components/doctor/FeedbackPanel';
+import {
+  DoctorAssignments,
+  DoctorOverview,
+  DoctorPatients,
+  DoctorQueries,
+  DoctorQueryDetail
+} from '../components/doctor/DoctorDashboardViews';
+import { UI_MESSAGES } from '../constants';
+import { useAuth } from '../contexts/AuthContext';
+import { useTranslation } from '../contexts/LanguageContext';
 
 interface DoctorPortalProps {
-  currentUser: Doctor | null;
-  setCurrentUser?: (user: Doctor | null) => void;
   showMessage?: (message: string, type?: 'success' | 'error' | 'info' | 'warning') => void;
   loading?: boolean;
   setLoading?: (loading: boolean) => void;
 }
 
+// Rendered behind DoctorRoute, so the signed-in user is a linked doctor
 const DoctorPortal: React.FC<DoctorPortalProps> = ({
-  currentUser,
-  setCurrentUser,
   showMessage = () => {},
   loading = false,
   setLoading = () => {}
 }) => {
-  const handleLogin = (doctor: Doctor) => {
-    setCurrentUser?.(doctor);
-  };
+  const { user, logout } = useAuth();
+  const { t } = useTranslation();
 
-  const handleLogout = () => {
-    setCurrentUser?.(null);
+  const handleLogout = async () => {
+    await logout();
+    showMessage(t(UI_MESSAGES.SUCCESS.LOGOUT_SUCCESS), 'info');
   };
 
-  if (!currentUser) {
-    return (
-      <div className="min-h-screen flex items-center justify-center bg-gray-50">
-        <div className="max-w-md w-full space-y-8">
-          <DoctorLogin
-            onLogin={handleLogin}
+  // Paths are relative to /doctor; the dashboard stays mounted while the view changes
+  return (
+    <Routes>
+      <Route
+        element={
+          <DoctorDashboard
+            currentDoctor={user as Doctor}
+            onLogout={handleLogout}
             showMessage={showMessage}
             loading={loading}
             setLoading={setLoading}
           />
-        </div>
-      </div>
-    );
-  }
-
-  return (
-    <DoctorDashboard
-      currentDoctor={currentUser}
-      onLogout={handleLogout}
-      showMessage={showMessage}
-      loading={loading}
-      setLoading={setLoading}
-    />
+        }
+      >
+        <Route index element={<DoctorOverview />} />
+        <Route path="incoming" element={<TriageQueue />} />
+        <Route path="patients" element={<DoctorPatients />} />
+        <Route path="queries" element={<DoctorQueries />} />
+        <Route path="queries/:queryId" element={<DoctorQueryDetail />} />
+        <Route path="assignments" element={<DoctorAssignments />} />
+        <Route path="interaction-rules" element={<InteractionRulesEditor />} />
+        <Route path="templates" element={<TemplateLibrary />} />
+        <Route path="feedback" element={<FeedbackPanel />} />
+        <Route path="*" element={<Navigate to="/doctor" replace />} />
+      </Route>
+    </Routes>
   );
 };
 
-export default DoctorPortal;
\ No newline at end of file
+export default DoctorPortal;
@@ -0,0 +1,99 @@
+// Login Page Component - Internet Identity sign-in and account linking
+import React, { useState } from 'react';
+import { Navigate, useLocation, useSearchParams } from 'react-router-dom';
+import { UserType } from '../types';
+import PatientLogin from '../components/patient/PatientLogin';
+import DoctorLogin from '../components/doctor/DoctorLogin';
+import LoadingSpinner from '../components/common/LoadingSpinner';
+import { useAuth } from '../contexts/AuthContext';
+
+interface LoginPageProps {
+  showMessage?: (message: string, type?: 'success' | 'error' | 'info' | 'warning') => void;
+}
+
+const ROLE_HOME: Record<UserType, string> = {
+  patient: '/patient',
+  doctor: '/doctor'
+};
+
+const LoginPage: React.FC<LoginPageProps> = ({ showMessage = () => {} }) => {
+  const { authState, userRole, hasRole, sessionExpired, unsentQueries, error, clearError, AUTH_STATES } = useAuth();
+  const location = useLocation();
+  const [searchParams] = useSearchParams();
+
+  // ProtectedRoute passes the page the user was trying to open
+  const fromLocation = (location.state as { from?: { pathname: string; search?: string } } | null)?.from;
+  const from: string | undefined = fromLocation?.pathname;
+  const requestedRole: UserType =
+    searchParams.get('role') === 'doctor' || from?.startsWith('/doctor') ? 'doctor' : 'patient';
+  const [role, setRole] = useState<UserType>(requestedRole);
+
+  if (authState === AUTH_STATES.CHECKING) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <LoadingSpinner size="large" message="Checking authentication..." />
+      </div>
+    );
+  }
+
+  // Linked accounts go straight to where they were heading
+  if (hasRole && (userRole === 'patient' || userRole === 'doctor')) {
+    const target = from && from.startsWith(ROLE_HOME[userRole as UserType])
+      ? `${from}${fromLocation?.search || ''}`
+      : ROLE_HOME[userRole as UserType];
+    return <Navigate to={target} replace />;
+  }
+
+  return (
+    <div className="max-w-2xl mx-auto">
+      {sessionExpired && (
+        <div className="mb-4 p-3 rounded-md bg-yellow-50 border border-yellow-200 text-sm text-yellow-800">
+          Your session has expired. Please sign in again.
+        </div>
+      )}
+
+      {unsentQueries > 0 && (
+        <div className="mb-4 p-3 rounded-md bg-blue-50 border border-blue-200 text-sm text-blue-800">
+          {unsentQueries} unsent {unsentQueries === 1 ? 'query is' : 'queries are'} saved on this device and will be
+          sent when you sign in again with the same Internet Identity.
+        </div>
+      )}
+
+      {error && (
+        <div className="mb-4 p-3 rounded-md bg-red-50 border border-red-200 text-sm text-red-800 flex justify-between">
+          <span>{error}</span>
+          <button onClick={clearError} className="ml-4 text-red-600 hover:text-red-800">✕</button>
+        </div>
+      )}
+
+      <div className="flex justify-center mb-6">
+        <div className="flex bg-gray-100 rounded-lg p-1">
+          <button
+            onClick={() => setRole('patient')}
+            className={`py-2 px-4 rounded-md text-sm font-medium transition-colors ${
+              role === 'patient' ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+            }`}
+          >
+            I'm a Patient
+          </button>
+          <button
+            onClick={() => setRole('doctor')}
+            className={`py-2 px-4 rounded-md text-sm font-medium transition-colors ${
+              role === 'doctor' ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+            }`}
+          >
+            I'm a Doctor
+          </button>
+        </div>
+      </div>
+
+      {role === 'patient' ? (
+        <PatientLogin showMessage={showMessage} />
+      ) : (
+        <DoctorLogin showMessage={showMessage} />
+      )}
+    </div>
+  );
+};
+
+export default LoginPage;
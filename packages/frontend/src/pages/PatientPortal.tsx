@@ -1,107 +1,86 @@
 // Patient Portal Page Component
-import React, { useState } from 'react';
-import { Patient, ComponentProps } from '../types';
-import PatientLogin from '../components/patient/PatientLogin';
+import React from 'react';
+import { Navigate, Route, Routes } from 'react-router-dom';
+import { Patient } from '../types';
 import PatientDashboard from '../components/patient/PatientDashboard';
-import PatientRegistration from '../components/PatientRegistration';
+import {
+  PatientMedications,
+  PatientNewQuery,
+  PatientOverview,
+  PatientQueryDetail,
+  PatientQueryHistory
+} from '../components/patient/PatientDashboardViews';
+import GlucoseLog from '../components/patient/GlucoseLog';
+import AccessHistory from '../components/patient/AccessHistory';
+import ConsentSettings from '../components/patient/ConsentSettings';
+import PatientProfile from '../components/PatientProfile';
+import { UI_MESSAGES } from '../constants';
+import { useAuth } from '../contexts/AuthContext';
+import { useTranslation } from '../contexts/LanguageContext';
 
 interface PatientPortalProps {
-  currentUser: Patient | null;
-  setCurrentUser?: (user: Patient | null) => void;
   showMessage?: (message: string, type?: 'success' | 'error' | 'info' | 'warning') => void;
   loading?: boolean;
   setLoading?: (loading: boolean) => void;
 }
 
+// Rendered behind PatientRoute, so the signed-in user is a linked patient
 const PatientPortal: React.FC<PatientPortalProps> = ({
-  currentUser,
-  setCurrentUser,
   showMessage,
   loading,
   setLoading
 }) => {
-  const [showRegistration, setShowRegistration] = useState(false);
+  const { user, logout } = useAuth();
+  const { t } = useTranslation();
+  const patient = user as Patient;
 
-  const handleLoginSuccess = (patient: Patient) => {
-    setCurrentUser?.(patient);
+  const handleLogout = async () => {
+    await logout();
+    showMessage?.(t(UI_MESSAGES.SUCCESS.LOGOUT_SUCCESS), 'info');
   };
 
-  const handleRegistrationComplete = async (patientId: string) => {
-    // Fetch the complete patient data using the ID
-    try {
-      // For now, we'll create a mock patient - in real implementation, 
-      // you'd fetch from the backend using the patientId
-      const mockPatient: Patient = {
-        id: patientId,
-        name: 'New Patient', // This would come from the registration form
-        condition: 'General', // This would come from the registration form
-        email: '', // This would come from the registration form
-        isActive: true
-      };
-      setCurrentUser?.(mockPatient);
-      setShowRegistration(false);
-      showMessage?.('Registration successful! You can now submit queries once assigned to a doctor.', 'success');
-    } catch (error) {
-      showMessage?.('Registration completed but there was an issue loading your profile. Please try logging in.', 'warning');
-    }
-  };
-
-  const handleLogout = () => {
-    setCurrentUser?.(null);
-    setShowRegistration(false);
-  };
-
-  if (currentUser) {
-    return (
-      <PatientDashboard
-        patient={currentUser}
-        onLogout={handleLogout}
-        showMessage={showMessage || (() => {})}
-        loading={loading ?? false}
-        setLoading={setLoading || (() => {})}
-      />
-    );
-  }
-
-  if (showRegistration) {
-    return (
-      <div className="max-w-2xl mx-auto">
-        <div className="mb-6 text-center">
-          <button
-            onClick={() => setShowRegistration(false)}
-            className="text-blue-600 hover:text-blue-800 text-sm font-medium"
-          >
-            ← Back to Login
-          </button>
-        </div>
-        <PatientRegistration
-          onRegistrationComplete={handleRegistrationComplete}
-          showMessage={showMessage || (() => {})}
-          loading={loading}
-          setLoading={setLoading || (() => {})}
-        />
-      </div>
-    );
-  }
-
+  // Paths are relative to /patient; the dashboard stays mounted while the view changes
   return (
-    <div className="max-w-2xl mx-auto">
-      <PatientLogin
-        onLoginSuccess={handleLoginSuccess}
-        showMessage={showMessage || (() => {})}
-        loading={loading ?? false}
-        setLoading={setLoading || (() => {})}
-      />
-      <div className="mt-6 text-center">
-        <button
-          onClick={() => setShowRegistration(true)}
-          className="text-blue-600 hover:text-blue-800 text-sm font-medium"
-        >
-          New patient? Register here →
-        </button>
-      </div>
-    </div>
+    <Routes>
+      <Route
+        element={
+          <PatientDashboard
+            patient={patient}
+            onLogout={handleLogout}
+            showMessage={showMessage || (() => {})}
+            loading={loading ?? false}
+            setLoading={setLoading || (() => {})}
+          />
+        }
+      >
+        <Route index element={<PatientOverview />} />
+        <Route path="queries" element={<PatientQueryHistory />} />
+        <Route path="queries/:queryId" element={<PatientQueryDetail />} />
+        <Route path="new-query" element={<PatientNewQuery />} />
+        <Route path="medications" element={<PatientMedications />} />
+        <Route
+          path="glucose"
+          element={<GlucoseLog patientId={patient.id} showMessage={showMessage || (() => {})} />}
+        />
+        <Route path="consents" element={<ConsentSettings />} />
+        <Route path="access-history" element={<AccessHistory patientId={patient.id} />} />
+        <Route
+          path="profile"
+          element={
+            <PatientProfile
+              patient={patient}
+              // The profile keeps its own copy of the saved fields
+              onUpdate={() => {}}
+              showMessage={showMessage}
+              loading={loading}
+              setLoading={setLoading}
+            />
+          }
+        />
+        <Route path="*" element={<Navigate to="/patient" replace />} />
+      </Route>
+    </Routes>
   );
 };
 
-export default PatientPortal;
\ No newline at end of file
+export default PatientPortal;
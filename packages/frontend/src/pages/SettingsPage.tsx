@@ -0,0 +1,120 @@
+// Settings Page Component - Signed-in account details and session controls
+import React from 'react';
+import { Link } from 'react-router-dom';
+import Button from '../components/common/Button';
+import LanguageSwitcher from '../components/common/LanguageSwitcher';
+import { UI_MESSAGES } from '../constants';
+import { useAuth } from '../contexts/AuthContext';
+import { useTranslation } from '../contexts/LanguageContext';
+import { Language } from '../types';
+import { LANGUAGES, MessageKey } from '../utils/i18n';
+
+interface SettingsPageProps {
+  showMessage?: (message: string, type?: 'success' | 'error' | 'info' | 'warning') => void;
+}
+
+interface PortalLink {
+  path: string;
+  label: MessageKey;
+}
+
+const PORTAL_LINKS: Record<string, PortalLink[]> = {
+  patient: [
+    { path: '/patient', label: 'settings.link.dashboard' },
+    { path: '/patient/profile', label: 'settings.link.medicalProfile' },
+    { path: '/patient/glucose', label: 'settings.link.glucoseLog' },
+    { path: '/patient/consents', label: 'settings.link.consents' },
+    { path: '/patient/access-history', label: 'settings.link.accessHistory' }
+  ],
+  doctor: [
+    { path: '/doctor', label: 'settings.link.dashboard' },
+    { path: '/doctor/incoming', label: 'settings.link.incomingQueries' },
+    { path: '/doctor/patients', label: 'settings.link.myPatients' }
+  ],
+  admin: [
+    { path: '/admin/analytics', label: 'settings.link.platformAnalytics' },
+    { path: '/admin/consents', label: 'settings.link.consentDocuments' },
+    { path: '/admin/account-links', label: 'settings.link.accountLinks' },
+    { path: '/compliance/audit', label: 'settings.link.auditExplorer' }
+  ],
+  compliance_officer: [
+    { path: '/compliance/audit', label: 'settings.link.auditExplorer' }
+  ]
+};
+
+// Rendered behind AuthenticatedRoute, so a principal is always present
+const SettingsPage: React.FC<SettingsPageProps> = ({ showMessage = () => {} }) => {
+  const { user, userRole, principal, logout } = useAuth();
+  const { t } = useTranslation();
+  const links: PortalLink[] = (userRole && PORTAL_LINKS[userRole]) || [];
+
+  const handleLogout = async () => {
+    await logout();
+    showMessage(t(UI_MESSAGES.SUCCESS.LOGOUT_SUCCESS), 'info');
+  };
+
+  // Announced in the language just chosen
+  const handleLanguageChange = (language: Language) => {
+    const option = LANGUAGES.find((candidate) => candidate.code === language);
+    showMessage(t('language.changed', { language: option ? option.label : language }), 'success');
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-6">
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <h1 className="text-2xl font-bold text-gray-900 mb-4">{t('settings.title')}</h1>
+        <dl className="grid grid-cols-1 sm:grid-cols-3 gap-y-3 text-sm">
+          <dt className="text-gray-500">{t('settings.name')}</dt>
+          <dd className="sm:col-span-2 text-gray-900">{user?.name || '—'}</dd>
+          <dt className="text-gray-500">{t('settings.accountType')}</dt>
+          <dd className="sm:col-span-2 text-gray-900 capitalize">{userRole || t('settings.notLinked')}</dd>
+          {userRole && user?.id && (
+            <>
+              <dt className="text-gray-500">{t('settings.accountId')}</dt>
+              <dd className="sm:col-span-2 text-gray-900 font-mono break-all">{user.id}</dd>
+            </>
+          )}
+          <dt className="text-gray-500">{t('settings.internetIdentity')}</dt>
+          <dd className="sm:col-span-2 text-gray-900 font-mono break-all">{principal}</dd>
+        </dl>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-md p-6 flex justify-between items-center gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">{t('language.label')}</h2>
+          <p className="text-sm text-gray-500">{t('language.description')}</p>
+        </div>
+        <LanguageSwitcher onChange={handleLanguageChange} />
+      </div>
+
+      {links.length > 0 && (
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-3">{t('settings.shortcuts')}</h2>
+          <div className="flex flex-wrap gap-3">
+            {links.map((link) => (
+              <Link
+                key={link.path}
+                to={link.path}
+                className="px-3 py-2 rounded-md text-sm font-medium bg-gray-100 text-gray-800 hover:bg-gray-200"
+              >
+                {t(link.label)}
+              </Link>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow-md p-6 flex justify-between items-center">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">{t('common.signOut')}</h2>
+          <p className="text-sm text-gray-500">{t('settings.signOutDescription')}</p>
+        </div>
+        <Button variant="secondary" onClick={handleLogout}>
+          {t('common.signOut')}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPage;
@@ -0,0 +1,631 @@
+// Tests for Candid <-> frontend domain type conversion
+import type {
+  PatientData as CandidPatientData,
+  QueryData as CandidQueryData,
+  SearchResult as CandidSearchResult
+} from 'declarations/backend/backend.did';
+import {
+  fromOpt,
+  toOpt,
+  nsToMs,
+  msToNs,
+  queryStatusFromCandid,
+  queryCategoryFromCandid,
+  queryCategoryToCandid,
+  doctorSpecialtyFromCandid,
+  queryDataFromCandid,
+  queryDataToCandid,
+  patientDataFromCandid,
+  patientDataToCandid,
+  searchCriteriaToCandid,
+  searchResultFromCandid,
+  glucoseLogEntryFromCandid,
+  glucoseLogEntryToCandid,
+  triageAssessmentFromCandid,
+  escalationEventFromCandid,
+  escalationPolicyFromCandid,
+  escalationPolicyToCandid,
+  queryThreadFromCandid,
+  queryAttachmentFromCandid,
+  attachmentUploadRequestToCandid,
+  prescriptionFromCandid,
+  interactionOverrideToCandid,
+  responseTemplateFromCandid,
+  responseTemplateInputToCandid,
+  feedbackTaskFromCandid,
+  ratingRollupFromCandid,
+  auditEventFromCandid,
+  auditFilterToCandid,
+  consentStatusFromCandid,
+  linkCodeFromCandid
+} from './candidAdapter';
+
+// 2024-01-15T10:30:00.000Z in canister nanoseconds
+const CREATED_MS = Date.UTC(2024, 0, 15, 10, 30);
+const CREATED_NS = BigInt(CREATED_MS) * BigInt(1000000);
+
+const candidQuery = (): CandidQueryData => ({
+  id: 'query_7',
+  patientId: 'patient_1',
+  assignedDoctorId: ['doctor_2'],
+  title: 'Morning glucose readings',
+  description: 'Readings have been above 180 for a week',
+  category: { medication_question: null },
+  priority: { high: null },
+  status: { in_review: null },
+  aiAnalysis: [{
+    confidence: 0.82,
+    riskAssessment: 'MEDIUM',
+    recommendedActions: ['Review insulin dose'],
+    flaggedSymptoms: ['hyperglycemia'],
+    suggestedSpecialty: [{ endocrinology: null }],
+    analysisTimestamp: CREATED_NS,
+    modelVersion: 'baichuan-m2'
+  }],
+  aiDraftResponse: ['Consider adjusting your evening dose.'],
+  requiresHumanReview: true,
+  responses: [{
+    id: 'response_1',
+    responderId: 'doctor_2',
+    responseText: 'Please log readings before meals.',
+    timestamp: CREATED_NS + BigInt(60000) * BigInt(1000000),
+    isOfficial: true,
+    attachments: [{
+      id: 'att_1',
+      fileName: 'log.pdf',
+      fileType: { lab_result: null },
+      fileSizeBytes: BigInt(2048),
+      uploadedAt: CREATED_NS,
+      uploadedBy: 'doctor_2',
+      isEncrypted: true,
+      accessPermissions: ['patient_1', 'doctor_2']
+    }],
+    readByPatient: false,
+    readTimestamp: []
+  }],
+  internalNotes: [],
+  patientMessages: [],
+  attachments: [],
+  createdAt: CREATED_NS,
+  updatedAt: CREATED_NS,
+  assignedAt: [CREATED_NS],
+  resolvedAt: [],
+  followUpRequired: false,
+  followUpDate: [],
+  relatedQueryIds: ['query_3'],
+  escalationLevel: BigInt(1),
+  departmentId: [],
+  responseTimeMinutes: [BigInt(42)],
+  patientSatisfactionRating: [],
+  resolutionComplexity: [],
+  hipaaCompliant: true,
+  auditTrail: ['created'],
+  dataClassification: 'PHI'
+});
+
+const candidPatient = (): CandidPatientData => ({
+  id: 'patient_1',
+  firstName: 'Sarah',
+  lastName: 'Johnson',
+  email: 'sarah.johnson@email.com',
+  phoneNumber: '+1-555-0101',
+  dateOfBirth: '1979-03-12',
+  gender: { female: null },
+  bloodType: { O_positive: null },
+  address: '12 Elm St',
+  city: 'Springfield',
+  state: 'IL',
+  zipCode: '62701',
+  country: 'US',
+  emergencyContact: {
+    name: 'Mark Johnson',
+    relationship: 'Spouse',
+    phoneNumber: '+1-555-0102',
+    email: [],
+    address: ['12 Elm St']
+  },
+  medicalHistory: {
+    conditions: ['Type 2 Diabetes'],
+    medications: ['Metformin 500mg'],
+    allergies: ['Penicillin'],
+    surgeries: [],
+    familyHistory: [],
+    lastUpdated: CREATED_NS
+  },
+  currentVitals: [{
+    bloodPressureSystolic: [BigInt(128)],
+    bloodPressureDiastolic: [BigInt(82)],
+    heartRate: [],
+    temperature: [36.8],
+    weight: [72.5],
+    height: [],
+    oxygenSaturation: [BigInt(98)],
+    recordedAt: CREATED_NS,
+    recordedBy: []
+  }],
+  insuranceInfo: [],
+  primaryDoctorId: ['doctor_2'],
+  assignedDoctorIds: ['doctor_2'],
+  medicalRecordNumber: 'MRN-001',
+  isActive: true,
+  createdAt: CREATED_NS,
+  updatedAt: CREATED_NS,
+  lastVisit: [],
+  consentToTreatment: true,
+  hipaaAcknowledged: true,
+  dataProcessingConsent: true,
+  communicationPreferences: { email: true, sms: false, phone: false, portal: true }
+});
+
+describe('candid primitives', () => {
+  test('unwraps and wraps option arrays', () => {
+    expect(fromOpt([])).toBeUndefined();
+    expect(fromOpt(['x'])).toBe('x');
+    expect(toOpt(undefined)).toEqual([]);
+    expect(toOpt(null)).toEqual([]);
+    expect(toOpt(0)).toEqual([0]);
+  });
+
+  test('converts nanosecond timestamps to milliseconds and back', () => {
+    expect(nsToMs(CREATED_NS)).toBe(CREATED_MS);
+    expect(msToNs(CREATED_MS)).toBe(CREATED_NS);
+  });
+});
+
+describe('variants', () => {
+  test('maps variant objects to string literals', () => {
+    expect(queryStatusFromCandid({ awaiting_patient_response: null })).toBe('awaiting_patient_response');
+  });
+
+  test('keeps the label of "other" categories and specialties', () => {
+    expect(queryCategoryFromCandid({ other: 'Travel vaccines' })).toEqual({ kind: 'other', label: 'Travel vaccines' });
+    expect(queryCategoryFromCandid({ follow_up: null })).toEqual({ kind: 'follow_up' });
+    expect(queryCategoryToCandid({ kind: 'other', label: 'Travel vaccines' })).toEqual({ other: 'Travel vaccines' });
+    expect(doctorSpecialtyFromCandid({ other: 'Nephrology' })).toEqual({ kind: 'other', label: 'Nephrology' });
+  });
+
+  test('rejects unknown variant tags', () => {
+    expect(() => queryStatusFromCandid({ archived: null } as any)).toThrow('Unknown QueryStatus variant: archived');
+  });
+});
+
+describe('queryDataFromCandid', () => {
+  test('produces a typed QueryData', () => {
+    const query = queryDataFromCandid(candidQuery());
+
+    expect(query).toMatchObject({
+      id: 'query_7',
+      assignedDoctorId: 'doctor_2',
+      status: 'in_review',
+      priority: 'high',
+      category: { kind: 'medication_question' },
+      aiDraftResponse: 'Consider adjusting your evening dose.',
+      createdAt: CREATED_MS,
+      assignedAt: CREATED_MS,
+      escalationLevel: 1,
+      responseTimeMinutes: 42
+    });
+    expect(query.resolvedAt).toBeUndefined();
+    expect(query.aiAnalysis?.suggestedSpecialty).toEqual({ kind: 'endocrinology' });
+    expect(query.responses[0]).toMatchObject({ timestamp: CREATED_MS + 60000, readTimestamp: undefined });
+    expect(query.responses[0].attachments[0]).toMatchObject({ fileType: 'lab_result', fileSizeBytes: 2048 });
+  });
+
+  test('round-trips back to the Candid shape', () => {
+    const original = candidQuery();
+    expect(queryDataToCandid(queryDataFromCandid(original))).toEqual(original);
+  });
+});
+
+describe('patientDataFromCandid', () => {
+  test('produces a typed PatientData', () => {
+    const patient = patientDataFromCandid(candidPatient());
+
+    expect(patient).toMatchObject({
+      gender: 'female',
+      bloodType: 'O_positive',
+      primaryDoctorId: 'doctor_2',
+      insuranceInfo: undefined,
+      lastVisit: undefined
+    });
+    expect(patient.emergencyContact).toEqual({
+      name: 'Mark Johnson',
+      relationship: 'Spouse',
+      phoneNumber: '+1-555-0102',
+      email: undefined,
+      address: '12 Elm St'
+    });
+    expect(patient.currentVitals).toMatchObject({
+      bloodPressureSystolic: 128,
+      heartRate: undefined,
+      temperature: 36.8,
+      oxygenSaturation: 98,
+      recordedAt: CREATED_MS
+    });
+  });
+
+  test('round-trips back to the Candid shape', () => {
+    const original = candidPatient();
+    expect(patientDataToCandid(patientDataFromCandid(original))).toEqual(original);
+  });
+});
+
+describe('search', () => {
+  test('encodes only the criteria that are set', () => {
+    const criteria = searchCriteriaToCandid({ status: 'pending', dateFrom: CREATED_MS, limit: 20 });
+
+    expect(criteria.status).toEqual([{ pending: null }]);
+    expect(criteria.dateFrom).toEqual([CREATED_NS]);
+    expect(criteria.limit).toEqual([BigInt(20)]);
+    expect(criteria.priority).toEqual([]);
+    expect(criteria.searchQuery).toEqual([]);
+  });
+
+  test('decodes search results with paging info', () => {
+    const result: CandidSearchResult = {
+      results: [candidQuery()],
+      totalCount: BigInt(31),
+      hasMore: true,
+      offset: BigInt(20),
+      searchQuery: searchCriteriaToCandid({ limit: 10, offset: 20 })
+    };
+
+    const decoded = searchResultFromCandid(result);
+    expect(decoded.totalCount).toBe(31);
+    expect(decoded.offset).toBe(20);
+    expect(decoded.hasMore).toBe(true);
+    expect(decoded.results[0].status).toBe('in_review');
+    expect(decoded.criteria).toMatchObject({ limit: 10, offset: 20 });
+  });
+});
+
+describe('glucose log', () => {
+  test('round-trips entries with meal context and optional fields', () => {
+    const entry = {
+      id: 'glucose_1',
+      kind: 'glucose' as const,
+      value: 142,
+      mealContext: 'post_meal' as const,
+      recordedAt: CREATED_MS
+    };
+
+    const candid = glucoseLogEntryToCandid(entry);
+    expect(candid.kind).toEqual({ glucose: null });
+    expect(candid.mealContext).toEqual([{ post_meal: null }]);
+    expect(candid.insulinType).toEqual([]);
+    expect(candid.recordedAt).toBe(CREATED_NS);
+
+    expect(glucoseLogEntryFromCandid(candid)).toEqual({ ...entry, insulinType: undefined, notes: undefined });
+  });
+
+  test('rejects unknown entry kinds', () => {
+    const candid = glucoseLogEntryToCandid({ id: 'x', kind: 'hba1c', value: 7.2, recordedAt: CREATED_MS });
+    expect(() => glucoseLogEntryFromCandid({ ...candid, kind: { ketones: null } as any })).toThrow('GlucoseEntryKind');
+  });
+});
+
+describe('triage assessments', () => {
+  test('decodes canister signals and ranks unknown urgency as medium', () => {
+    const candid = {
+      queryId: 'query_7',
+      safetyScore: BigInt(35),
+      urgency: 'HIGH',
+      priority: { urgent: null },
+      escalationLevel: BigInt(1),
+      requiresHumanReview: true,
+      source: 'bridge'
+    };
+
+    expect(triageAssessmentFromCandid(candid)).toEqual({
+      queryId: 'query_7',
+      safetyScore: 35,
+      urgency: 'HIGH',
+      priority: 'urgent',
+      escalationLevel: 1,
+      requiresHumanReview: true,
+      source: 'bridge'
+    });
+    expect(triageAssessmentFromCandid({ ...candid, urgency: 'CRITICAL', source: 'other' })).toMatchObject({
+      urgency: 'MEDIUM',
+      source: 'rules'
+    });
+  });
+});
+
+describe('escalation', () => {
+  test('decodes timeline events with millisecond timestamps', () => {
+    expect(escalationEventFromCandid({
+      queryId: 'query_7',
+      step: { on_call_notified: null },
+      level: BigInt(2),
+      message: 'Escalated to level 2: 1 on-call endocrinology doctors notified after 60 minutes',
+      notifiedDoctorIds: ['doctor_2'],
+      timestamp: CREATED_NS
+    })).toEqual({
+      queryId: 'query_7',
+      step: 'on_call_notified',
+      level: 2,
+      message: 'Escalated to level 2: 1 on-call endocrinology doctors notified after 60 minutes',
+      notifiedDoctorIds: ['doctor_2'],
+      timestamp: CREATED_MS
+    });
+  });
+
+  test('round-trips the policy and drops urgencies triage does not know', () => {
+    const candid = {
+      enabled: true,
+      urgencies: ['HIGH', 'CRITICAL'],
+      raiseLevelAfterMinutes: BigInt(30),
+      notifyOnCallAfterMinutes: BigInt(60),
+      patientGuidanceAfterMinutes: BigInt(120),
+      patientGuidance: 'Call emergency services if symptoms worsen.'
+    };
+
+    const policy = escalationPolicyFromCandid(candid);
+    expect(policy.urgencies).toEqual(['HIGH']);
+    expect(policy.notifyOnCallAfterMinutes).toBe(60);
+    expect(escalationPolicyToCandid(policy)).toEqual({ ...candid, urgencies: ['HIGH'] });
+  });
+});
+
+describe('query threads', () => {
+  test('decodes the status and each message list', () => {
+    const query = candidQuery();
+    const thread = queryThreadFromCandid({
+      queryId: query.id,
+      status: { awaiting_patient_response: null },
+      responses: query.responses,
+      patientMessages: [],
+      internalNotes: query.responses
+    });
+
+    expect(thread.status).toBe('awaiting_patient_response');
+    expect(thread.responses[0].timestamp).toBe(CREATED_MS + 60000);
+    expect(thread.internalNotes).toHaveLength(1);
+    expect(thread.patientMessages).toEqual([]);
+  });
+});
+
+describe('attachments', () => {
+  test('decodes a stored attachment and normalises blob arrays', () => {
+    const attachment = queryAttachmentFromCandid({
+      attachment: {
+        id: 'attachment_1',
+        fileName: 'hba1c.pdf',
+        fileType: { lab_result: null },
+        fileSizeBytes: BigInt(2048),
+        uploadedAt: CREATED_NS,
+        uploadedBy: 'patient_1',
+        isEncrypted: true,
+        accessPermissions: ['patient_1', 'doctor_1']
+      },
+      queryId: 'query_1',
+      mimeType: 'application/pdf',
+      chunkCount: BigInt(1),
+      thumbnail: [[1, 2, 3]],
+      complete: true
+    });
+
+    expect(attachment.attachment.fileType).toBe('lab_result');
+    expect(attachment.attachment.uploadedAt).toBe(CREATED_MS);
+    expect(attachment.chunkCount).toBe(1);
+    expect(attachment.thumbnail).toEqual(new Uint8Array([1, 2, 3]));
+  });
+
+  test('encodes an upload request without a thumbnail', () => {
+    const request = attachmentUploadRequestToCandid({
+      queryId: 'query_1',
+      fileName: 'rash.jpg',
+      fileType: 'image',
+      mimeType: 'image/jpeg',
+      fileSizeBytes: 1500000,
+      chunkCount: 2,
+      fileKey: new Uint8Array(32)
+    });
+
+    expect(request.fileType).toEqual({ image: null });
+    expect(request.fileSizeBytes).toBe(BigInt(1500000));
+    expect(request.thumbnail).toEqual([]);
+  });
+});
+
+describe('prescriptions', () => {
+  test('decodes a refill prescription', () => {
+    const prescription = prescriptionFromCandid({
+      id: 'rx_2',
+      queryId: 'query_3',
+      patientId: 'patient_1',
+      doctorId: 'doctor_1',
+      doctorName: 'Amina Wanjiru',
+      medications: [{
+        name: 'Metformin',
+        dosage: '500 mg',
+        frequency: 'Twice daily',
+        duration: '30 days',
+        instructions: 'Take with meals'
+      }],
+      notes: '',
+      refillOf: ['rx_1'],
+      issuedAt: CREATED_NS,
+      signedBy: 'aaaaa-aa',
+      interactionOverride: []
+    });
+
+    expect(prescription.refillOf).toBe('rx_1');
+    expect(prescription.issuedAt).toBe(CREATED_MS);
+    expect(prescription.medications[0].dosage).toBe('500 mg');
+    expect(prescription.interactionOverride).toBeUndefined();
+  });
+
+  test('encodes an interaction override with variant severities', () => {
+    const override = interactionOverrideToCandid({
+      flags: [{ ruleId: 'warfarin_nsaid', severity: 'major', summary: 'Warfarin + Ibuprofen: bleeding risk' }],
+      justification: 'Short course, INR checked on day 3'
+    });
+
+    expect(override.flags[0].severity).toEqual({ major: null });
+    expect(override.justification).toBe('Short course, INR checked on day 3');
+  });
+});
+
+describe('response templates', () => {
+  test('decodes a shared template with its version history', () => {
+    const template = responseTemplateFromCandid({
+      id: 'template_4',
+      ownerId: 'doctor_1',
+      ownerName: 'Amina Wanjiru',
+      name: 'Glucose follow-up',
+      content: 'Hello {{patient.firstName}}',
+      category: [{ follow_up: null }],
+      isShared: true,
+      version: BigInt(2),
+      previousVersions: [{
+        version: BigInt(1),
+        name: 'Glucose',
+        content: 'Hello',
+        category: [],
+        editedAt: CREATED_NS
+      }],
+      usageCount: BigInt(12),
+      lastUsedAt: [],
+      createdAt: CREATED_NS,
+      updatedAt: CREATED_NS
+    });
+
+    expect(template.category).toEqual({ kind: 'follow_up' });
+    expect(template.shared).toBe(true);
+    expect(template.version).toBe(2);
+    expect(template.usageCount).toBe(12);
+    expect(template.lastUsedAt).toBeUndefined();
+    expect(template.previousVersions[0]).toEqual({
+      version: 1,
+      name: 'Glucose',
+      content: 'Hello',
+      category: undefined,
+      editedAt: CREATED_MS
+    });
+  });
+
+  test('encodes an uncategorised template input', () => {
+    expect(responseTemplateInputToCandid({ name: 'Thanks', content: 'Thank you', shared: false })).toEqual({
+      name: 'Thanks',
+      content: 'Thank you',
+      category: [],
+      isShared: false
+    });
+  });
+});
+
+describe('patient feedback', () => {
+  test('decodes an open follow-up task', () => {
+    const task = feedbackTaskFromCandid({
+      id: 'feedback_task_1',
+      queryId: 'query_3',
+      patientId: 'patient_1',
+      doctorId: 'doctor_1',
+      rating: BigInt(1),
+      comment: 'The advice did not address my question',
+      status: { open: null },
+      createdAt: CREATED_NS,
+      resolvedAt: [],
+      resolutionNote: ''
+    });
+
+    expect(task.status).toBe('open');
+    expect(task.rating).toBe(1);
+    expect(task.createdAt).toBe(CREATED_MS);
+    expect(task.resolvedAt).toBeUndefined();
+  });
+
+  test('decodes rating summaries with their display names', () => {
+    const summary = { key: 'doctor_1', name: 'Amina Wanjiru', ratingCount: BigInt(4), averageRating: 4.5, lowRatingCount: BigInt(0) };
+    const rollup = ratingRollupFromCandid({ overall: summary, byDoctor: [summary], bySpecialty: [] });
+
+    expect(rollup.byDoctor[0]).toEqual({ key: 'doctor_1', label: 'Amina Wanjiru', ratingCount: 4, averageRating: 4.5, lowRatingCount: 0 });
+    expect(rollup.bySpecialty).toEqual([]);
+  });
+});
+
+describe('audit trail', () => {
+  test('decodes an event by an unlinked principal', () => {
+    const event = auditEventFromCandid({
+      id: 'audit_4',
+      patientId: 'patient_1',
+      accessedBy: { principal: '2vxsx-fae', role: [], userId: [], name: 'Anonymous caller' },
+      action: { view: null },
+      resourceKind: { patient_record: null },
+      resourceId: 'patient_1',
+      reason: 'Identity not linked to an account',
+      timestamp: CREATED_NS
+    });
+
+    expect(event.accessedBy.role).toBeUndefined();
+    expect(event.accessedBy.userId).toBeUndefined();
+    expect(event.action).toBe('view');
+    expect(event.resourceKind).toBe('patient_record');
+    expect(event.timestamp).toBe(CREATED_MS);
+  });
+
+  test('encodes a filter with only some criteria set', () => {
+    expect(auditFilterToCandid({ action: 'ai_processing', fromTime: CREATED_MS, limit: 50 })).toEqual({
+      patientId: [],
+      actorId: [],
+      action: [{ ai_processing: null }],
+      resourceKind: [],
+      fromTime: [CREATED_NS],
+      toTime: [],
+      limit: [BigInt(50)]
+    });
+  });
+});
+
+describe('consent', () => {
+  test('decodes a status whose accepted version is out of date', () => {
+    const status = consentStatusFromCandid({
+      document: {
+        kind: { ai_processing: null },
+        version: BigInt(2),
+        title: 'AI-Assisted Responses',
+        body: 'My queries may be shared with an AI model.',
+        required: false,
+        publishedAt: CREATED_NS
+      },
+      latest: [{
+        id: 'consent_1',
+        patientId: 'patient_1',
+        kind: { ai_processing: null },
+        documentVersion: BigInt(1),
+        decision: { accepted: null },
+        signedBy: 'aaaaa-aa',
+        signerName: 'Sarah Wanjiku',
+        recordedAt: CREATED_NS
+      }],
+      needsReconsent: true
+    });
+
+    expect(status.document.kind).toBe('ai_processing');
+    expect(status.document.version).toBe(2);
+    expect(status.latest && status.latest.documentVersion).toBe(1);
+    expect(status.latest && status.latest.decision).toBe('accepted');
+    expect(status.latest && status.latest.recordedAt).toBe(CREATED_MS);
+    expect(status.needsReconsent).toBe(true);
+  });
+});
+
+describe('identity', () => {
+  test('decodes an issued link code', () => {
+    const linkCode = linkCodeFromCandid({
+      role: { doctor: null },
+      userId: 'doctor_3',
+      code: 'K7QM-2XWD',
+      issuedBy: 'aaaaa-aa',
+      issuedAt: CREATED_NS,
+      expiresAt: CREATED_NS + BigInt(7 * 24 * 60 * 60 * 1000) * BigInt(1000000)
+    });
+
+    expect(linkCode.role).toBe('doctor');
+    expect(linkCode.code).toBe('K7QM-2XWD');
+    expect(linkCode.issuedAt).toBe(CREATED_MS);
+    expect(linkCode.expiresAt - linkCode.issuedAt).toBe(7 * 24 * 60 * 60 * 1000);
+  });
+});
@@ -0,0 +1,947 @@
+// Candid Adapter - converts canister records to frontend domain types and back
+// Option arrays become optional fields, bigint nanoseconds become epoch
+// milliseconds, Nat counters become numbers and variants become string literals
+import type {
+  AIAnalysis as CandidAIAnalysis,
+  Attachment as CandidAttachment,
+  AttachmentType as CandidAttachmentType,
+  AttachmentUploadRequest as CandidAttachmentUploadRequest,
+  AuditAction as CandidAuditAction,
+  AuditFilter as CandidAuditFilter,
+  AuditResourceKind as CandidAuditResourceKind,
+  BloodType as CandidBloodType,
+  ConsentDocument as CandidConsentDocument,
+  ConsentRecord as CandidConsentRecord,
+  ConsentStatus as CandidConsentStatus,
+  ConsentKind as CandidConsentKind,
+  ConsentDecision as CandidConsentDecision,
+  DoctorSpecialty as CandidDoctorSpecialty,
+  EmergencyContact as CandidEmergencyContact,
+  EscalationEvent as CandidEscalationEvent,
+  EscalationPolicy as CandidEscalationPolicy,
+  FeedbackTask as CandidFeedbackTask,
+  Gender as CandidGender,
+  GlucoseEntryKind as CandidGlucoseEntryKind,
+  GlucoseLogEntry as CandidGlucoseLogEntry,
+  InteractionOverride as CandidInteractionOverride,
+  LinkCode as CandidLinkCode,
+  InteractionSeverity as CandidInteractionSeverity,
+  InsuranceInfo as CandidInsuranceInfo,
+  InteractionFlag as CandidInteractionFlag,
+  MealContext as CandidMealContext,
+  MedicalHistory as CandidMedicalHistory,
+  PatientData as CandidPatientData,
+  PatientEngagement as CandidPatientEngagement,
+  PhiAuditEvent as CandidAuditEvent,
+  PlatformAnalytics as CandidPlatformAnalytics,
+  PlatformStats as CandidPlatformStats,
+  PrescribedMedication as CandidPrescribedMedication,
+  Prescription as CandidPrescription,
+  PrincipalLink as CandidPrincipalLink,
+  QueryActivity as CandidQueryActivity,
+  QueryAttachment as CandidQueryAttachment,
+  QueryCategory as CandidQueryCategory,
+  QueryData as CandidQueryData,
+  QueryFeedback as CandidQueryFeedback,
+  QueryPriority as CandidQueryPriority,
+  QueryResponse as CandidQueryResponse,
+  QueryStatus as CandidQueryStatus,
+  QueryThread as CandidQueryThread,
+  RatingRollup as CandidRatingRollup,
+  RatingSummary as CandidRatingSummary,
+  ResponseTemplate as CandidResponseTemplate,
+  ResponseTemplateInput as CandidResponseTemplateInput,
+  SearchCriteria as CandidSearchCriteria,
+  SearchResult as CandidSearchResult,
+  TemplateVersion as CandidTemplateVersion,
+  TriageAssessment as CandidTriageAssessment,
+  UserRole as CandidUserRole,
+  VitalSigns as CandidVitalSigns
+} from 'declarations/backend/backend.did';
+import {
+  AccountRole,
+  AIAnalysis,
+  Attachment,
+  AttachmentType,
+  AttachmentUploadRequest,
+  AuditAction,
+  AuditEvent,
+  AuditFilter,
+  AuditResourceKind,
+  BloodType,
+  ConsentDecision,
+  ConsentDocument,
+  ConsentKind,
+  ConsentRecord,
+  ConsentStatus,
+  DoctorSpecialty,
+  DoctorSpecialtyKind,
+  EmergencyContact,
+  EnhancedQueryStatus,
+  EscalationEvent,
+  EscalationPolicy,
+  EscalationStep,
+  FeedbackTask,
+  FeedbackTaskStatus,
+  Gender,
+  GlucoseEntryKind,
+  GlucoseLogEntry,
+  InsuranceInfo,
+  InteractionFlag,
+  InteractionOverride,
+  InteractionSeverity,
+  LinkCode,
+  MealContext,
+  MedicalHistory,
+  PatientData,
+  PatientEngagement,
+  PlatformAnalytics,
+  PlatformStats,
+  PrescribedMedication,
+  Prescription,
+  PrincipalLink,
+  QueryActivity,
+  QueryAttachment,
+  QueryCategory,
+  QueryCategoryKind,
+  QueryData,
+  QueryFeedback,
+  QueryPriority,
+  QueryResponse,
+  QuerySearchCriteria,
+  QuerySearchResult,
+  QueryThread,
+  RatingRollup,
+  RatingSummary,
+  ResponseTemplate,
+  ResponseTemplateInput,
+  TemplateVersion,
+  TriageAssessment,
+  TriageUrgency,
+  VitalSigns
+} from '../types';
+
+const NANOS_PER_MILLI = BigInt(1000000);
+
+export const QUERY_STATUSES: EnhancedQueryStatus[] = [
+  'submitted', 'pending', 'assigned', 'in_review', 'awaiting_patient_response', 'resolved', 'closed', 'escalated'
+];
+
+export const QUERY_PRIORITIES: QueryPriority[] = ['low', 'normal', 'high', 'urgent', 'emergency'];
+
+export const QUERY_CATEGORIES: QueryCategoryKind[] = [
+  'general_inquiry', 'symptom_assessment', 'medication_question', 'test_results', 'appointment_request',
+  'prescription_refill', 'follow_up', 'emergency_consultation', 'second_opinion'
+];
+
+export const DOCTOR_SPECIALTIES: DoctorSpecialtyKind[] = [
+  'general_practice', 'internal_medicine', 'pediatrics', 'cardiology', 'dermatology', 'endocrinology',
+  'gastroenterology', 'neurology', 'oncology', 'orthopedics', 'psychiatry', 'radiology', 'surgery',
+  'emergency_medicine'
+];
+
+const ATTACHMENT_TYPES: AttachmentType[] = ['image', 'document', 'lab_result', 'prescription', 'medical_record'];
+
+const BLOOD_TYPES: BloodType[] = [
+  'A_positive', 'A_negative', 'B_positive', 'B_negative', 'AB_positive', 'AB_negative', 'O_positive', 'O_negative', 'unknown'
+];
+
+const GENDERS: Gender[] = ['male', 'female', 'other', 'prefer_not_to_say'];
+
+const ACCOUNT_ROLES: AccountRole[] = ['patient', 'doctor', 'admin', 'compliance_officer'];
+
+const GLUCOSE_ENTRY_KINDS: GlucoseEntryKind[] = ['glucose', 'insulin', 'hba1c'];
+
+export const MEAL_CONTEXTS: MealContext[] = ['fasting', 'pre_meal', 'post_meal', 'bedtime', 'other'];
+
+const TRIAGE_URGENCIES: TriageUrgency[] = ['LOW', 'MEDIUM', 'HIGH'];
+
+const ESCALATION_STEPS: EscalationStep[] = ['level_raised', 'on_call_notified', 'patient_guidance_sent', 'claimed'];
+
+// Mildest first
+export const INTERACTION_SEVERITIES: InteractionSeverity[] = ['minor', 'moderate', 'major', 'contraindicated'];
+
+const FEEDBACK_TASK_STATUSES: FeedbackTaskStatus[] = ['open', 'resolved'];
+
+export const AUDIT_ACTIONS: AuditAction[] = ['view', 'update', 'export', 'ai_processing'];
+
+export const AUDIT_RESOURCE_KINDS: AuditResourceKind[] = ['patient_record', 'medical_query', 'attachment', 'prescription'];
+
+export const CONSENT_KINDS: ConsentKind[] = ['hipaa_notice', 'treatment', 'data_processing', 'ai_processing'];
+
+const CONSENT_DECISIONS: ConsentDecision[] = ['accepted', 'revoked'];
+
+// =======================
+// PRIMITIVES
+// =======================
+
+// Candid encodes `?T` as `[] | [T]`
+export const fromOpt = <T>(opt: [] | [T]): T | undefined => (opt.length > 0 ? opt[0] : undefined);
+
+export const toOpt = <T>(value: T | null | undefined): [] | [T] =>
+  value === undefined || value === null ? [] : [value];
+
+// Canister timestamps are Time.now() nanoseconds
+export const nsToMs = (ns: bigint): number => Number(ns / NANOS_PER_MILLI);
+
+export const msToNs = (ms: number): bigint => BigInt(Math.round(ms)) * NANOS_PER_MILLI;
+
+const natToNumber = (value: bigint): number => Number(value);
+
+const numberToNat = (value: number): bigint => BigInt(Math.max(0, Math.round(value)));
+
+const mapOpt = <T, R>(opt: [] | [T], map: (value: T) => R): R | undefined => {
+  const value = fromOpt(opt);
+  return value === undefined ? undefined : map(value);
+};
+
+const mapToOpt = <T, R>(value: T | undefined, map: (value: T) => R): [] | [R] =>
+  value === undefined ? [] : [map(value)];
+
+// Candid `blob` may decode as a plain number array
+export const blobToBytes = (blob: Uint8Array | number[]): Uint8Array =>
+  blob instanceof Uint8Array ? blob : Uint8Array.from(blob);
+
+// Reads the tag of a Candid variant such as { in_review: null }
+const decodeVariant = <K extends string>(variant: object, allowed: K[], typeName: string): K => {
+  const keys = Object.keys(variant);
+  const key = keys[0] as K;
+  if (keys.length !== 1 || allowed.indexOf(key) === -1) {
+    throw new Error(`Unknown ${typeName} variant: ${keys.join(', ') || '(empty)'}`);
+  }
+  return key;
+};
+
+const encodeVariant = <V>(key: string): V => ({ [key]: null } as unknown as V);
+
+// =======================
+// VARIANTS
+// =======================
+
+export const queryStatusFromCandid = (status: CandidQueryStatus): EnhancedQueryStatus =>
+  decodeVariant(status, QUERY_STATUSES, 'QueryStatus');
+
+export const queryStatusToCandid = (status: EnhancedQueryStatus): CandidQueryStatus =>
+  encodeVariant<CandidQueryStatus>(status);
+
+export const queryPriorityFromCandid = (priority: CandidQueryPriority): QueryPriority =>
+  decodeVariant(priority, QUERY_PRIORITIES, 'QueryPriority');
+
+export const queryPriorityToCandid = (priority: QueryPriority): CandidQueryPriority =>
+  encodeVariant<CandidQueryPriority>(priority);
+
+export const queryCategoryFromCandid = (category: CandidQueryCategory): QueryCategory =>
+  'other' in category
+    ? { kind: 'other', label: category.other }
+    : { kind: decodeVariant(category, QUERY_CATEGORIES, 'QueryCategory') };
+
+export const queryCategoryToCandid = (category: QueryCategory): CandidQueryCategory =>
+  category.kind === 'other' ? { other: category.label } : encodeVariant<CandidQueryCategory>(category.kind);
+
+export const doctorSpecialtyFromCandid = (specialty: CandidDoctorSpecialty): DoctorSpecialty =>
+  'other' in specialty
+    ? { kind: 'other', label: specialty.other }
+    : { kind: decodeVariant(specialty, DOCTOR_SPECIALTIES, 'DoctorSpecialty') };
+
+export const doctorSpecialtyToCandid = (specialty: DoctorSpecialty): CandidDoctorSpecialty =>
+  specialty.kind === 'other' ? { other: specialty.label } : encodeVariant<CandidDoctorSpecialty>(specialty.kind);
+
+const attachmentTypeFromCandid = (type: CandidAttachmentType): AttachmentType =>
+  decodeVariant(type, ATTACHMENT_TYPES, 'AttachmentType');
+
+const bloodTypeFromCandid = (bloodType: CandidBloodType): BloodType =>
+  decodeVariant(bloodType, BLOOD_TYPES, 'BloodType');
+
+const genderFromCandid = (gender: CandidGender): Gender => decodeVariant(gender, GENDERS, 'Gender');
+
+// =======================
+// QUERY RECORDS
+// =======================
+
+export const aiAnalysisFromCandid = (analysis: CandidAIAnalysis): AIAnalysis => ({
+  confidence: analysis.confidence,
+  riskAssessment: analysis.riskAssessment,
+  recommendedActions: analysis.recommendedActions,
+  flaggedSymptoms: analysis.flaggedSymptoms,
+  suggestedSpecialty: mapOpt(analysis.suggestedSpecialty, doctorSpecialtyFromCandid),
+  analysisTimestamp: nsToMs(analysis.analysisTimestamp),
+  modelVersion: analysis.modelVersion
+});
+
+export const aiAnalysisToCandid = (analysis: AIAnalysis): CandidAIAnalysis => ({
+  confidence: analysis.confidence,
+  riskAssessment: analysis.riskAssessment,
+  recommendedActions: analysis.recommendedActions,
+  flaggedSymptoms: analysis.flaggedSymptoms,
+  suggestedSpecialty: mapToOpt(analysis.suggestedSpecialty, doctorSpecialtyToCandid),
+  analysisTimestamp: msToNs(analysis.analysisTimestamp),
+  modelVersion: analysis.modelVersion
+});
+
+export const attachmentFromCandid = (attachment: CandidAttachment): Attachment => ({
+  id: attachment.id,
+  fileName: attachment.fileName,
+  fileType: attachmentTypeFromCandid(attachment.fileType),
+  fileSizeBytes: natToNumber(attachment.fileSizeBytes),
+  uploadedAt: nsToMs(attachment.uploadedAt),
+  uploadedBy: attachment.uploadedBy,
+  isEncrypted: attachment.isEncrypted,
+  accessPermissions: attachment.accessPermissions
+});
+
+export const attachmentToCandid = (attachment: Attachment): CandidAttachment => ({
+  id: attachment.id,
+  fileName: attachment.fileName,
+  fileType: encodeVariant<CandidAttachmentType>(attachment.fileType),
+  fileSizeBytes: numberToNat(attachment.fileSizeBytes),
+  uploadedAt: msToNs(attachment.uploadedAt),
+  uploadedBy: attachment.uploadedBy,
+  isEncrypted: attachment.isEncrypted,
+  accessPermissions: attachment.accessPermissions
+});
+
+export const queryResponseFromCandid = (response: CandidQueryResponse): QueryResponse => ({
+  id: response.id,
+  responderId: response.responderId,
+  responseText: response.responseText,
+  timestamp: nsToMs(response.timestamp),
+  isOfficial: response.isOfficial,
+  attachments: response.attachments.map(attachmentFromCandid),
+  readByPatient: response.readByPatient,
+  readTimestamp: mapOpt(response.readTimestamp, nsToMs)
+});
+
+export const queryResponseToCandid = (response: QueryResponse): CandidQueryResponse => ({
+  id: response.id,
+  responderId: response.responderId,
+  responseText: response.responseText,
+  timestamp: msToNs(response.timestamp),
+  isOfficial: response.isOfficial,
+  attachments: response.attachments.map(attachmentToCandid),
+  readByPatient: response.readByPatient,
+  readTimestamp: mapToOpt(response.readTimestamp, msToNs)
+});
+
+export const queryDataFromCandid = (query: CandidQueryData): QueryData => ({
+  id: query.id,
+  patientId: query.patientId,
+  assignedDoctorId: fromOpt(query.assignedDoctorId),
+  title: query.title,
+  description: query.description,
+  category: queryCategoryFromCandid(query.category),
+  priority: queryPriorityFromCandid(query.priority),
+  status: queryStatusFromCandid(query.status),
+  aiAnalysis: mapOpt(query.aiAnalysis, aiAnalysisFromCandid),
+  aiDraftResponse: fromOpt(query.aiDraftResponse),
+  requiresHumanReview: query.requiresHumanReview,
+  responses: query.responses.map(queryResponseFromCandid),
+  internalNotes: query.internalNotes.map(queryResponseFromCandid),
+  patientMessages: query.patientMessages.map(queryResponseFromCandid),
+  attachments: query.attachments.map(attachmentFromCandid),
+  createdAt: nsToMs(query.createdAt),
+  updatedAt: nsToMs(query.updatedAt),
+  assignedAt: mapOpt(query.assignedAt, nsToMs),
+  resolvedAt: mapOpt(query.resolvedAt, nsToMs),
+  followUpRequired: query.followUpRequired,
+  followUpDate: mapOpt(query.followUpDate, nsToMs),
+  relatedQueryIds: query.relatedQueryIds,
+  escalationLevel: natToNumber(query.escalationLevel),
+  departmentId: fromOpt(query.departmentId),
+  responseTimeMinutes: mapOpt(query.responseTimeMinutes, natToNumber),
+  patientSatisfactionRating: mapOpt(query.patientSatisfactionRating, natToNumber),
+  resolutionComplexity: fromOpt(query.resolutionComplexity),
+  hipaaCompliant: query.hipaaCompliant,
+  auditTrail: query.auditTrail,
+  dataClassification: query.dataClassification
+});
+
+export const queryDataToCandid = (query: QueryData): CandidQueryData => ({
+  id: query.id,
+  patientId: query.patientId,
+  assignedDoctorId: toOpt(query.assignedDoctorId),
+  title: query.title,
+  description: query.description,
+  category: queryCategoryToCandid(query.category),
+  priority: queryPriorityToCandid(query.priority),
+  status: queryStatusToCandid(query.status),
+  aiAnalysis: mapToOpt(query.aiAnalysis, aiAnalysisToCandid),
+  aiDraftResponse: toOpt(query.aiDraftResponse),
+  requiresHumanReview: query.requiresHumanReview,
+  responses: query.responses.map(queryResponseToCandid),
+  internalNotes: query.internalNotes.map(queryResponseToCandid),
+  patientMessages: query.patientMessages.map(queryResponseToCandid),
+  attachments: query.attachments.map(attachmentToCandid),
+  createdAt: msToNs(query.createdAt),
+  updatedAt: msToNs(query.updatedAt),
+  assignedAt: mapToOpt(query.assignedAt, msToNs),
+  resolvedAt: mapToOpt(query.resolvedAt, msToNs),
+  followUpRequired: query.followUpRequired,
+  followUpDate: mapToOpt(query.followUpDate, msToNs),
+  relatedQueryIds: query.relatedQueryIds,
+  escalationLevel: numberToNat(query.escalationLevel),
+  departmentId: toOpt(query.departmentId),
+  responseTimeMinutes: mapToOpt(query.responseTimeMinutes, numberToNat),
+  patientSatisfactionRating: mapToOpt(query.patientSatisfactionRating, numberToNat),
+  resolutionComplexity: toOpt(query.resolutionComplexity),
+  hipaaCompliant: query.hipaaCompliant,
+  auditTrail: query.auditTrail,
+  dataClassification: query.dataClassification
+});
+
+// =======================
+// PATIENT RECORDS
+// =======================
+
+export const vitalSignsFromCandid = (vitals: CandidVitalSigns): VitalSigns => ({
+  bloodPressureSystolic: mapOpt(vitals.bloodPressureSystolic, natToNumber),
+  bloodPressureDiastolic: mapOpt(vitals.bloodPressureDiastolic, natToNumber),
+  heartRate: mapOpt(vitals.heartRate, natToNumber),
+  temperature: fromOpt(vitals.temperature),
+  weight: fromOpt(vitals.weight),
+  height: fromOpt(vitals.height),
+  oxygenSaturation: mapOpt(vitals.oxygenSaturation, natToNumber),
+  recordedAt: nsToMs(vitals.recordedAt),
+  recordedBy: fromOpt(vitals.recordedBy)
+});
+
+export const vitalSignsToCandid = (vitals: VitalSigns): CandidVitalSigns => ({
+  bloodPressureSystolic: mapToOpt(vitals.bloodPressureSystolic, numberToNat),
+  bloodPressureDiastolic: mapToOpt(vitals.bloodPressureDiastolic, numberToNat),
+  heartRate: mapToOpt(vitals.heartRate, numberToNat),
+  temperature: toOpt(vitals.temperature),
+  weight: toOpt(vitals.weight),
+  height: toOpt(vitals.height),
+  oxygenSaturation: mapToOpt(vitals.oxygenSaturation, numberToNat),
+  recordedAt: msToNs(vitals.recordedAt),
+  recordedBy: toOpt(vitals.recordedBy)
+});
+
+const medicalHistoryFromCandid = (history: CandidMedicalHistory): MedicalHistory => ({
+  conditions: history.conditions,
+  medications: history.medications,
+  allergies: history.allergies,
+  surgeries: history.surgeries,
+  familyHistory: history.familyHistory,
+  lastUpdated: nsToMs(history.lastUpdated)
+});
+
+const medicalHistoryToCandid = (history: MedicalHistory): CandidMedicalHistory => ({
+  conditions: history.conditions,
+  medications: history.medications,
+  allergies: history.allergies,
+  surgeries: history.surgeries,
+  familyHistory: history.familyHistory,
+  lastUpdated: msToNs(history.lastUpdated)
+});
+
+const emergencyContactFromCandid = (contact: CandidEmergencyContact): EmergencyContact => ({
+  name: contact.name,
+  relationship: contact.relationship,
+  phoneNumber: contact.phoneNumber,
+  email: fromOpt(contact.email),
+  address: fromOpt(contact.address)
+});
+
+const emergencyContactToCandid = (contact: EmergencyContact): CandidEmergencyContact => ({
+  name: contact.name,
+  relationship: contact.relationship,
+  phoneNumber: contact.phoneNumber,
+  email: toOpt(contact.email),
+  address: toOpt(contact.address)
+});
+
+const insuranceInfoFromCandid = (insurance: CandidInsuranceInfo): InsuranceInfo => ({
+  id: insurance.id,
+  provider: insurance.provider,
+  policyNumber: insurance.policyNumber,
+  groupNumber: fromOpt(insurance.groupNumber),
+  memberId: insurance.memberId,
+  effectiveDate: nsToMs(insurance.effectiveDate),
+  expirationDate: mapOpt(insurance.expirationDate, nsToMs),
+  copayAmount: fromOpt(insurance.copayAmount),
+  deductibleAmount: fromOpt(insurance.deductibleAmount),
+  isActive: insurance.isActive
+});
+
+const insuranceInfoToCandid = (insurance: InsuranceInfo): CandidInsuranceInfo => ({
+  id: insurance.id,
+  provider: insurance.provider,
+  policyNumber: insurance.policyNumber,
+  groupNumber: toOpt(insurance.groupNumber),
+  memberId: insurance.memberId,
+  effectiveDate: msToNs(insurance.effectiveDate),
+  expirationDate: mapToOpt(insurance.expirationDate, msToNs),
+  copayAmount: toOpt(insurance.copayAmount),
+  deductibleAmount: toOpt(insurance.deductibleAmount),
+  isActive: insurance.isActive
+});
+
+export const patientDataFromCandid = (patient: CandidPatientData): PatientData => ({
+  id: patient.id,
+  firstName: patient.firstName,
+  lastName: patient.lastName,
+  email: patient.email,
+  phoneNumber: patient.phoneNumber,
+  dateOfBirth: patient.dateOfBirth,
+  gender: genderFromCandid(patient.gender),
+  bloodType: bloodTypeFromCandid(patient.bloodType),
+  address: patient.address,
+  city: patient.city,
+  state: patient.state,
+  zipCode: patient.zipCode,
+  country: patient.country,
+  emergencyContact: emergencyContactFromCandid(patient.emergencyContact),
+  medicalHistory: medicalHistoryFromCandid(patient.medicalHistory),
+  currentVitals: mapOpt(patient.currentVitals, vitalSignsFromCandid),
+  insuranceInfo: mapOpt(patient.insuranceInfo, insuranceInfoFromCandid),
+  primaryDoctorId: fromOpt(patient.primaryDoctorId),
+  assignedDoctorIds: patient.assignedDoctorIds,
+  medicalRecordNumber: patient.medicalRecordNumber,
+  isActive: patient.isActive,
+  createdAt: nsToMs(patient.createdAt),
+  updatedAt: nsToMs(patient.updatedAt),
+  lastVisit: mapOpt(patient.lastVisit, nsToMs),
+  consentToTreatment: patient.consentToTreatment,
+  hipaaAcknowledged: patient.hipaaAcknowledged,
+  dataProcessingConsent: patient.dataProcessingConsent,
+  communicationPreferences: { ...patient.communicationPreferences }
+});
+
+export const patientDataToCandid = (patient: PatientData): CandidPatientData => ({
+  id: patient.id,
+  firstName: patient.firstName,
+  lastName: patient.lastName,
+  email: patient.email,
+  phoneNumber: patient.phoneNumber,
+  dateOfBirth: patient.dateOfBirth,
+  gender: encodeVariant<CandidGender>(patient.gender),
+  bloodType: encodeVariant<CandidBloodType>(patient.bloodType),
+  address: patient.address,
+  city: patient.city,
+  state: patient.state,
+  zipCode: patient.zipCode,
+  country: patient.country,
+  emergencyContact: emergencyContactToCandid(patient.emergencyContact),
+  medicalHistory: medicalHistoryToCandid(patient.medicalHistory),
+  currentVitals: mapToOpt(patient.currentVitals, vitalSignsToCandid),
+  insuranceInfo: mapToOpt(patient.insuranceInfo, insuranceInfoToCandid),
+  primaryDoctorId: toOpt(patient.primaryDoctorId),
+  assignedDoctorIds: patient.assignedDoctorIds,
+  medicalRecordNumber: patient.medicalRecordNumber,
+  isActive: patient.isActive,
+  createdAt: msToNs(patient.createdAt),
+  updatedAt: msToNs(patient.updatedAt),
+  lastVisit: mapToOpt(patient.lastVisit, msToNs),
+  consentToTreatment: patient.consentToTreatment,
+  hipaaAcknowledged: patient.hipaaAcknowledged,
+  dataProcessingConsent: patient.dataProcessingConsent,
+  communicationPreferences: { ...patient.communicationPreferences }
+});
+
+// =======================
+// IDENTITY
+// =======================
+
+export const accountRoleToCandid = (role: AccountRole): CandidUserRole => encodeVariant<CandidUserRole>(role);
+
+export const principalLinkFromCandid = (link: CandidPrincipalLink): PrincipalLink => ({
+  role: decodeVariant(link.role, ACCOUNT_ROLES, 'UserRole'),
+  userId: link.userId,
+  linkedAt: nsToMs(link.linkedAt)
+});
+
+export const linkCodeFromCandid = (linkCode: CandidLinkCode): LinkCode => ({
+  role: decodeVariant(linkCode.role, ACCOUNT_ROLES, 'UserRole'),
+  userId: linkCode.userId,
+  code: linkCode.code,
+  issuedBy: linkCode.issuedBy,
+  issuedAt: nsToMs(linkCode.issuedAt),
+  expiresAt: nsToMs(linkCode.expiresAt)
+});
+
+// =======================
+// SEARCH
+// =======================
+
+export const searchCriteriaToCandid = (criteria: QuerySearchCriteria = {}): CandidSearchCriteria => ({
+  patientId: toOpt(criteria.patientId),
+  doctorId: toOpt(criteria.doctorId),
+  status: mapToOpt(criteria.status, queryStatusToCandid),
+  priority: mapToOpt(criteria.priority, queryPriorityToCandid),
+  category: mapToOpt(criteria.category, queryCategoryToCandid),
+  specialty: mapToOpt(criteria.specialty, doctorSpecialtyToCandid),
+  department: toOpt(criteria.department),
+  dateFrom: mapToOpt(criteria.dateFrom, msToNs),
+  dateTo: mapToOpt(criteria.dateTo, msToNs),
+  searchQuery: toOpt(criteria.searchQuery),
+  limit: mapToOpt(criteria.limit, numberToNat),
+  offset: mapToOpt(criteria.offset, numberToNat)
+});
+
+export const searchCriteriaFromCandid = (criteria: CandidSearchCriteria): QuerySearchCriteria => ({
+  patientId: fromOpt(criteria.patientId),
+  doctorId: fromOpt(criteria.doctorId),
+  status: mapOpt(criteria.status, queryStatusFromCandid),
+  priority: mapOpt(criteria.priority, queryPriorityFromCandid),
+  category: mapOpt(criteria.category, queryCategoryFromCandid),
+  specialty: mapOpt(criteria.specialty, doctorSpecialtyFromCandid),
+  department: fromOpt(criteria.department),
+  dateFrom: mapOpt(criteria.dateFrom, nsToMs),
+  dateTo: mapOpt(criteria.dateTo, nsToMs),
+  searchQuery: fromOpt(criteria.searchQuery),
+  limit: mapOpt(criteria.limit, natToNumber),
+  offset: mapOpt(criteria.offset, natToNumber)
+});
+
+export const searchResultFromCandid = (result: CandidSearchResult): QuerySearchResult => ({
+  results: result.results.map(queryDataFromCandid),
+  totalCount: natToNumber(result.totalCount),
+  hasMore: result.hasMore,
+  offset: natToNumber(result.offset),
+  criteria: searchCriteriaFromCandid(result.searchQuery)
+});
+
+// =======================
+// GLUCOSE LOG
+// =======================
+
+export const glucoseLogEntryFromCandid = (entry: CandidGlucoseLogEntry): GlucoseLogEntry => ({
+  id: entry.id,
+  kind: decodeVariant(entry.kind, GLUCOSE_ENTRY_KINDS, 'GlucoseEntryKind'),
+  value: entry.value,
+  mealContext: mapOpt(entry.mealContext, (context: CandidMealContext) => decodeVariant(context, MEAL_CONTEXTS, 'MealContext')),
+  insulinType: fromOpt(entry.insulinType),
+  notes: fromOpt(entry.notes),
+  recordedAt: nsToMs(entry.recordedAt)
+});
+
+export const glucoseLogEntryToCandid = (entry: GlucoseLogEntry): CandidGlucoseLogEntry => ({
+  id: entry.id,
+  kind: encodeVariant<CandidGlucoseEntryKind>(entry.kind),
+  value: entry.value,
+  mealContext: mapToOpt(entry.mealContext, context => encodeVariant<CandidMealContext>(context)),
+  insulinType: toOpt(entry.insulinType),
+  notes: toOpt(entry.notes),
+  recordedAt: msToNs(entry.recordedAt)
+});
+
+// =======================
+// TRIAGE
+// =======================
+
+export const triageAssessmentFromCandid = (assessment: CandidTriageAssessment): TriageAssessment => ({
+  queryId: assessment.queryId,
+  safetyScore: natToNumber(assessment.safetyScore),
+  // Urgency is free text on the canister; anything unexpected is ranked as medium rather than dropped to the bottom
+  urgency: (TRIAGE_URGENCIES as string[]).indexOf(assessment.urgency) !== -1
+    ? (assessment.urgency as TriageUrgency)
+    : 'MEDIUM',
+  priority: queryPriorityFromCandid(assessment.priority),
+  escalationLevel: natToNumber(assessment.escalationLevel),
+  requiresHumanReview: assessment.requiresHumanReview,
+  source: assessment.source === 'bridge' ? 'bridge' : 'rules'
+});
+
+// =======================
+// ESCALATION
+// =======================
+
+export const escalationPolicyFromCandid = (policy: CandidEscalationPolicy): EscalationPolicy => ({
+  enabled: policy.enabled,
+  // Free text on the canister; urgencies the triage queue doesn't know can never match
+  urgencies: policy.urgencies.filter((urgency: string): urgency is TriageUrgency =>
+    (TRIAGE_URGENCIES as string[]).indexOf(urgency) !== -1
+  ),
+  raiseLevelAfterMinutes: natToNumber(policy.raiseLevelAfterMinutes),
+  notifyOnCallAfterMinutes: natToNumber(policy.notifyOnCallAfterMinutes),
+  patientGuidanceAfterMinutes: natToNumber(policy.patientGuidanceAfterMinutes),
+  patientGuidance: policy.patientGuidance
+});
+
+export const escalationPolicyToCandid = (policy: EscalationPolicy): CandidEscalationPolicy => ({
+  enabled: policy.enabled,
+  urgencies: policy.urgencies,
+  raiseLevelAfterMinutes: numberToNat(policy.raiseLevelAfterMinutes),
+  notifyOnCallAfterMinutes: numberToNat(policy.notifyOnCallAfterMinutes),
+  patientGuidanceAfterMinutes: numberToNat(policy.patientGuidanceAfterMinutes),
+  patientGuidance: policy.patientGuidance
+});
+
+export const escalationEventFromCandid = (event: CandidEscalationEvent): EscalationEvent => ({
+  queryId: event.queryId,
+  step: decodeVariant(event.step, ESCALATION_STEPS, 'EscalationStep'),
+  level: natToNumber(event.level),
+  message: event.message,
+  notifiedDoctorIds: event.notifiedDoctorIds,
+  timestamp: nsToMs(event.timestamp)
+});
+
+// =======================
+// CONVERSATION
+// =======================
+
+export const queryThreadFromCandid = (thread: CandidQueryThread): QueryThread => ({
+  queryId: thread.queryId,
+  status: queryStatusFromCandid(thread.status),
+  responses: thread.responses.map(queryResponseFromCandid),
+  patientMessages: thread.patientMessages.map(queryResponseFromCandid),
+  internalNotes: thread.internalNotes.map(queryResponseFromCandid)
+});
+
+// =======================
+// ATTACHMENTS
+// =======================
+
+export const queryAttachmentFromCandid = (attachment: CandidQueryAttachment): QueryAttachment => ({
+  attachment: attachmentFromCandid(attachment.attachment),
+  queryId: attachment.queryId,
+  mimeType: attachment.mimeType,
+  chunkCount: natToNumber(attachment.chunkCount),
+  thumbnail: mapOpt(attachment.thumbnail, blobToBytes),
+  complete: attachment.complete
+});
+
+export const attachmentUploadRequestToCandid = (request: AttachmentUploadRequest): CandidAttachmentUploadRequest => ({
+  queryId: request.queryId,
+  fileName: request.fileName,
+  fileType: encodeVariant<CandidAttachmentType>(request.fileType),
+  mimeType: request.mimeType,
+  fileSizeBytes: numberToNat(request.fileSizeBytes),
+  chunkCount: numberToNat(request.chunkCount),
+  fileKey: request.fileKey,
+  thumbnail: toOpt(request.thumbnail)
+});
+
+// =======================
+// PRESCRIPTIONS
+// =======================
+
+const interactionFlagFromCandid = (flag: CandidInteractionFlag): InteractionFlag => ({
+  ruleId: flag.ruleId,
+  severity: decodeVariant(flag.severity, INTERACTION_SEVERITIES, 'InteractionSeverity'),
+  summary: flag.summary
+});
+
+const interactionFlagToCandid = (flag: InteractionFlag): CandidInteractionFlag => ({
+  ruleId: flag.ruleId,
+  severity: encodeVariant<CandidInteractionSeverity>(flag.severity),
+  summary: flag.summary
+});
+
+export const interactionOverrideFromCandid = (override: CandidInteractionOverride): InteractionOverride => ({
+  flags: override.flags.map(interactionFlagFromCandid),
+  justification: override.justification
+});
+
+export const interactionOverrideToCandid = (override: InteractionOverride): CandidInteractionOverride => ({
+  flags: override.flags.map(interactionFlagToCandid),
+  justification: override.justification
+});
+
+// Medication records are plain text on both sides; only the envelope needs converting
+export const prescriptionFromCandid = (prescription: CandidPrescription): Prescription => ({
+  id: prescription.id,
+  queryId: prescription.queryId,
+  patientId: prescription.patientId,
+  doctorId: prescription.doctorId,
+  doctorName: prescription.doctorName,
+  medications: prescription.medications.map((medication: CandidPrescribedMedication): PrescribedMedication => ({ ...medication })),
+  notes: prescription.notes,
+  refillOf: fromOpt(prescription.refillOf),
+  issuedAt: nsToMs(prescription.issuedAt),
+  signedBy: prescription.signedBy,
+  interactionOverride: mapOpt(prescription.interactionOverride, interactionOverrideFromCandid)
+});
+
+// =======================
+// RESPONSE TEMPLATES
+// =======================
+
+const templateVersionFromCandid = (previous: CandidTemplateVersion): TemplateVersion => ({
+  version: natToNumber(previous.version),
+  name: previous.name,
+  content: previous.content,
+  category: mapOpt(previous.category, queryCategoryFromCandid),
+  editedAt: nsToMs(previous.editedAt)
+});
+
+export const responseTemplateFromCandid = (template: CandidResponseTemplate): ResponseTemplate => ({
+  id: template.id,
+  ownerId: template.ownerId,
+  ownerName: template.ownerName,
+  name: template.name,
+  content: template.content,
+  category: mapOpt(template.category, queryCategoryFromCandid),
+  shared: template.isShared,
+  version: natToNumber(template.version),
+  previousVersions: template.previousVersions.map(templateVersionFromCandid),
+  usageCount: natToNumber(template.usageCount),
+  lastUsedAt: mapOpt(template.lastUsedAt, nsToMs),
+  createdAt: nsToMs(template.createdAt),
+  updatedAt: nsToMs(template.updatedAt)
+});
+
+export const responseTemplateInputToCandid = (input: ResponseTemplateInput): CandidResponseTemplateInput => ({
+  name: input.name,
+  content: input.content,
+  category: mapToOpt(input.category, queryCategoryToCandid),
+  isShared: input.shared
+});
+
+// =======================
+// PATIENT FEEDBACK
+// =======================
+
+export const queryFeedbackFromCandid = (feedback: CandidQueryFeedback): QueryFeedback => ({
+  queryId: feedback.queryId,
+  patientId: feedback.patientId,
+  doctorId: feedback.doctorId,
+  specialty: feedback.specialty,
+  rating: natToNumber(feedback.rating),
+  comment: feedback.comment,
+  submittedAt: nsToMs(feedback.submittedAt)
+});
+
+export const feedbackTaskFromCandid = (task: CandidFeedbackTask): FeedbackTask => ({
+  id: task.id,
+  queryId: task.queryId,
+  patientId: task.patientId,
+  doctorId: task.doctorId,
+  rating: natToNumber(task.rating),
+  comment: task.comment,
+  status: decodeVariant(task.status, FEEDBACK_TASK_STATUSES, 'FeedbackTaskStatus'),
+  createdAt: nsToMs(task.createdAt),
+  resolvedAt: mapOpt(task.resolvedAt, nsToMs),
+  resolutionNote: task.resolutionNote
+});
+
+const ratingSummaryFromCandid = (summary: CandidRatingSummary): RatingSummary => ({
+  key: summary.key,
+  label: summary.name,
+  ratingCount: natToNumber(summary.ratingCount),
+  averageRating: summary.averageRating,
+  lowRatingCount: natToNumber(summary.lowRatingCount)
+});
+
+export const ratingRollupFromCandid = (rollup: CandidRatingRollup): RatingRollup => ({
+  overall: ratingSummaryFromCandid(rollup.overall),
+  byDoctor: rollup.byDoctor.map(ratingSummaryFromCandid),
+  bySpecialty: rollup.bySpecialty.map(ratingSummaryFromCandid)
+});
+
+// =======================
+// PLATFORM ANALYTICS
+// =======================
+
+const countsFromCandid = (counts: Array<[string, bigint]>): Array<[string, number]> =>
+  counts.map(([label, count]) => [label, natToNumber(count)] as [string, number]);
+
+export const platformStatsFromCandid = (stats: CandidPlatformStats): PlatformStats => ({
+  totalPatients: natToNumber(stats.totalPatients),
+  activePatients: natToNumber(stats.activePatients),
+  newPatientsThisMonth: natToNumber(stats.newPatientsThisMonth),
+  totalDoctors: natToNumber(stats.totalDoctors),
+  activeDoctors: natToNumber(stats.activeDoctors),
+  totalQueries: natToNumber(stats.totalQueries),
+  pendingQueries: natToNumber(stats.pendingQueries),
+  inReviewQueries: natToNumber(stats.inReviewQueries),
+  resolvedQueries: natToNumber(stats.resolvedQueries),
+  emergencyQueries: natToNumber(stats.emergencyQueries),
+  queriesByDepartment: countsFromCandid(stats.queriesByDepartment),
+  peakUsageHours: stats.peakUsageHours.map(natToNumber),
+  queriesLast24Hours: natToNumber(stats.queriesLast24Hours),
+  queriesLastWeek: natToNumber(stats.queriesLastWeek),
+  queriesLastMonth: natToNumber(stats.queriesLastMonth),
+  patientSatisfactionAverage: stats.patientSatisfactionAverage,
+  queryResolutionRate: stats.healthcareMetrics.queryResolutionRate,
+  patientEngagementRate: stats.healthcareMetrics.patientEngagementRate,
+  lastUpdated: nsToMs(stats.lastUpdated),
+  reportingPeriod: stats.reportingPeriod
+});
+
+const patientEngagementFromCandid = (engagement: CandidPatientEngagement): PatientEngagement => ({
+  registeredPatients: natToNumber(engagement.registeredPatients),
+  patientsWithQueries: natToNumber(engagement.patientsWithQueries),
+  returningPatients: natToNumber(engagement.returningPatients),
+  activeLast30Days: natToNumber(engagement.activeLast30Days),
+  answeredQueries: natToNumber(engagement.answeredQueries),
+  ratedAnswers: natToNumber(engagement.ratedAnswers)
+});
+
+const queryActivityFromCandid = (item: CandidQueryActivity): QueryActivity => ({
+  createdAt: nsToMs(item.createdAt),
+  resolvedAt: mapOpt(item.resolvedAt, nsToMs),
+  specialty: item.specialty
+});
+
+export const platformAnalyticsFromCandid = (analytics: CandidPlatformAnalytics): PlatformAnalytics => ({
+  stats: platformStatsFromCandid(analytics.stats),
+  activity: analytics.activity.map(queryActivityFromCandid),
+  doctorsBySpecialty: countsFromCandid(analytics.doctorsBySpecialty),
+  engagement: patientEngagementFromCandid(analytics.engagement)
+});
+
+// =======================
+// AUDIT TRAIL
+// =======================
+
+export const auditEventFromCandid = (event: CandidAuditEvent): AuditEvent => ({
+  id: event.id,
+  patientId: event.patientId,
+  accessedBy: {
+    principal: event.accessedBy.principal,
+    role: mapOpt(event.accessedBy.role, (role: CandidUserRole) => decodeVariant(role, ACCOUNT_ROLES, 'UserRole')),
+    userId: fromOpt(event.accessedBy.userId),
+    name: event.accessedBy.name
+  },
+  action: decodeVariant(event.action, AUDIT_ACTIONS, 'AuditAction'),
+  resourceKind: decodeVariant(event.resourceKind, AUDIT_RESOURCE_KINDS, 'AuditResourceKind'),
+  resourceId: event.resourceId,
+  reason: event.reason,
+  timestamp: nsToMs(event.timestamp)
+});
+
+export const auditFilterToCandid = (filter: AuditFilter): CandidAuditFilter => ({
+  patientId: toOpt(filter.patientId),
+  actorId: toOpt(filter.actorId),
+  action: mapToOpt(filter.action, action => encodeVariant<CandidAuditAction>(action)),
+  resourceKind: mapToOpt(filter.resourceKind, kind => encodeVariant<CandidAuditResourceKind>(kind)),
+  fromTime: mapToOpt(filter.fromTime, msToNs),
+  toTime: mapToOpt(filter.toTime, msToNs),
+  limit: mapToOpt(filter.limit, numberToNat)
+});
+
+// =======================
+// CONSENT
+// =======================
+
+export const consentDocumentFromCandid = (document: CandidConsentDocument): ConsentDocument => ({
+  kind: decodeVariant(document.kind, CONSENT_KINDS, 'ConsentKind'),
+  version: natToNumber(document.version),
+  title: document.title,
+  body: document.body,
+  required: document.required,
+  publishedAt: nsToMs(document.publishedAt)
+});
+
+export const consentRecordFromCandid = (record: CandidConsentRecord): ConsentRecord => ({
+  id: record.id,
+  patientId: record.patientId,
+  kind: decodeVariant(record.kind, CONSENT_KINDS, 'ConsentKind'),
+  documentVersion: natToNumber(record.documentVersion),
+  decision: decodeVariant(record.decision, CONSENT_DECISIONS, 'ConsentDecision'),
+  signedBy: record.signedBy,
+  signerName: record.signerName,
+  recordedAt: nsToMs(record.recordedAt)
+});
+
+export const consentStatusFromCandid = (status: CandidConsentStatus): ConsentStatus => ({
+  document: consentDocumentFromCandid(status.document),
+  latest: mapOpt(status.latest, consentRecordFromCandid),
+  needsReconsent: status.needsReconsent
+});
+
+export const consentKindToCandid = (kind: ConsentKind): CandidConsentKind => encodeVariant<CandidConsentKind>(kind);
+
+export const consentDecisionToCandid = (decision: ConsentDecision): CandidConsentDecision =>
+  encodeVariant<CandidConsentDecision>(decision);
@@ -1,8 +1,71 @@
 // ICP Service - Refactored with TypeScript and better structure
 // @ts-ignore
-import { HttpAgent, Actor } from '@dfinity/agent';
-import { idlFactory } from '../declarations/backend';
-import { Patient, Doctor, MedicalQuery, SystemStats, ApiResponse } from '../types';
+import { HttpAgent, Actor, Identity } from '@dfinity/agent';
+import { idlFactory } from 'declarations/backend';
+import {
+  Patient,
+  Doctor,
+  MedicalQuery,
+  SystemStats,
+  ApiResponse,
+  AccountRole,
+  LinkCode,
+  PrincipalLink,
+  PatientData,
+  QueryData,
+  QuerySearchCriteria,
+  QuerySearchResult,
+  VitalSigns,
+  GlucoseLogEntry,
+  EscalationEvent,
+  QueryThread,
+  QueryAttachment,
+  AttachmentUploadRequest,
+  Prescription,
+  QueryFeedback,
+  PlatformAnalytics,
+  AuditEvent,
+  AuditFilter,
+  ConsentDecision,
+  ConsentDocument,
+  ConsentKind,
+  ConsentRecord,
+  ConsentStatus,
+  Language
+} from '../types';
+import {
+  accountRoleToCandid,
+  principalLinkFromCandid,
+  linkCodeFromCandid,
+  patientDataFromCandid,
+  patientDataToCandid,
+  queryDataFromCandid,
+  queryDataToCandid,
+  searchCriteriaToCandid,
+  searchResultFromCandid,
+  msToNs,
+  toOpt,
+  vitalSignsFromCandid,
+  vitalSignsToCandid,
+  glucoseLogEntryFromCandid,
+  glucoseLogEntryToCandid,
+  escalationEventFromCandid,
+  queryThreadFromCandid,
+  queryAttachmentFromCandid,
+  attachmentUploadRequestToCandid,
+  blobToBytes,
+  prescriptionFromCandid,
+  queryFeedbackFromCandid,
+  platformAnalyticsFromCandid,
+  auditEventFromCandid,
+  auditFilterToCandid,
+  consentDocumentFromCandid,
+  consentRecordFromCandid,
+  consentStatusFromCandid,
+  consentKindToCandid,
+  consentDecisionToCandid
+} from './candidAdapter';
+import { DEFAULT_LANGUAGE, isLanguage } from '../utils/i18n';
 
 // Backend canister ID (will be set after deployment)
 const BACKEND_CANISTER_ID = process.env.REACT_APP_BACKEND_CANISTER_ID || 'uxrrr-q7777-77774-qaaaq-cai';
@@ -10,16 +73,19 @@ const BACKEND_CANISTER_ID = process.env.REACT_APP_BACKEND_CANISTER_ID || 'uxrrr-
 class ICPService {
   private actor: any = null;
   private agent: any = null;
+  private identity: Identity | null = null;
+  private initPromise: Promise<void> | null = null;
 
   constructor() {
-    this.init();
+    this.initPromise = this.init();
   }
 
   private async init(): Promise<void> {
     try {
-      // Create HTTP agent
+      // Create HTTP agent, signed by the Internet Identity session when there is one
       this.agent = new HttpAgent({
-        host: process.env.NODE_ENV === 'development' ? 'http://localhost:4943' : 'https://icp-api.io'
+        host: process.env.NODE_ENV === 'development' ? 'http://localhost:4943' : 'https://icp-api.io',
+        ...(this.identity ? { identity: this.identity } : {})
       });
 
       // Fetch root key for local development
@@ -40,12 +106,31 @@ class ICPService {
 
   // Ensure actor is initialized
   private async ensureActor(): Promise<any> {
+    if (this.initPromise) {
+      await this.initPromise;
+    }
     if (!this.actor) {
-      await this.init();
+      this.initPromise = this.init();
+      await this.initPromise;
     }
     return this.actor;
   }
 
+  // Swap the identity used for canister calls (null falls back to anonymous)
+  async setIdentity(identity: Identity | null): Promise<void> {
+    if (identity === this.identity && this.actor) return;
+
+    this.identity = identity;
+    this.actor = null;
+    this.agent = null;
+    this.initPromise = this.init();
+    await this.initPromise;
+  }
+
+  getPrincipal(): string | null {
+    return this.identity ? this.identity.getPrincipal().toText() : null;
+  }
+
   // Generic error handler
   private handleError(error: any, operation: string): ApiResponse<never> {
     console.error(`Error ${operation}:`, error);
@@ -55,6 +140,68 @@ class ICPService {
     };
   }
 
+  // =======================
+  // IDENTITY METHODS
+  // =======================
+
+  async whoami(): Promise<ApiResponse<PrincipalLink | null>> {
+    try {
+      const actor = await this.ensureActor();
+      const result = await actor.whoami();
+      // ICP returns Option type as array - check if array has elements
+      return { success: true, data: result.length > 0 ? principalLinkFromCandid(result[0]) : null };
+    } catch (error) {
+      return this.handleError(error, 'get linked account');
+    }
+  }
+
+  async linkPrincipal(role: AccountRole, userId: string, linkCode: string): Promise<ApiResponse<PrincipalLink>> {
+    try {
+      const actor = await this.ensureActor();
+      const result = await actor.linkPrincipal(accountRoleToCandid(role), userId, linkCode);
+
+      if ('ok' in result) {
+        return { success: true, data: principalLinkFromCandid(result.ok) };
+      } else {
+        return { success: false, error: result.err };
+      }
+    } catch (error) {
+      return this.handleError(error, 'link account');
+    }
+  }
+
+  // Admins only: the code lets the account's owner link their identity once
+  async issueLinkCode(role: AccountRole, userId: string): Promise<ApiResponse<LinkCode>> {
+    try {
+      const actor = await this.ensureActor();
+      const result = await actor.issueLinkCode(accountRoleToCandid(role), userId);
+
+      if ('ok' in result) {
+        return { success: true, data: linkCodeFromCandid(result.ok) };
+      } else {
+        return { success: false, error: result.err };
+      }
+    } catch (error) {
+      return this.handleError(error, 'issue link code');
+    }
+  }
+
+  // Vouches for the bridge socket that issued the ticket; the bridge redeems it once
+  async claimBridgeTicket(ticket: string): Promise<ApiResponse<void>> {
+    try {
+      const actor = await this.ensureActor();
+      const result = await actor.claimBridgeTicket(ticket);
+
+      if ('ok' in result) {
+        return { success: true };
+      } else {
+        return { success: false, error: result.err };
+      }
+    } catch (error) {
+      return this.handleError(error, 'claim bridge ticket');
+    }
+  }
+
   // =======================
   // PATIENT METHODS
   // =======================
@@ -80,17 +227,122 @@ class ICPService {
     }
   }
 
-  async getEnhancedPatient(patientId: string): Promise<ApiResponse<any | null>> {
+  async getEnhancedPatient(patientId: string): Promise<ApiResponse<PatientData | null>> {
     try {
       const actor = await this.ensureActor();
       const result = await actor.getEnhancedPatient(patientId);
       // ICP returns Option type as array - check if array has elements
-      return { success: true, data: result.length > 0 ? result[0] : null };
+      return { success: true, data: result.length > 0 ? patientDataFromCandid(result[0]) : null };
     } catch (error) {
       return this.handleError(error, 'get enhanced patient');
     }
   }
 
+  async createEnhancedPatient(patient: PatientData): Promise<ApiResponse<string>> {
+    try {
+      const actor = await this.ensureActor();
+      const result = await actor.createEnhancedPatient(patientDataToCandid(patient));
+
+      if ('ok' in result) {
+        return { success: true, data: result.ok };
+      } else {
+        return { success: false, error: result.err.message };
+      }
+    } catch (error) {
+      return this.handleError(error, 'create enhanced patient');
+    }
+  }
+
+  async updatePatient(patientId: string, patient: PatientData): Promise<ApiResponse<void>> {
+    try {
+      const actor = await this.ensureActor();
+      const result = await actor.updatePatient(patientId, patientDataToCandid(patient));
+
+      if ('ok' in result) {
+        return { success: true };
+      } else {
+        return { success: false, error: result.err.message };
+      }
+    } catch (error) {
+      return this.handleError(error, 'update patient');
+    }
+  }
+
+  async recordVitalSigns(patientId: string, vitals: VitalSigns): Promise<ApiResponse<void>> {
+    try {
+      const actor = await this.ensureActor();
+      const result = await actor.recordVitalSigns(patientId, vitalSignsToCandid(vitals));
+
+      if ('ok' in result) {
+        return { success: true };
+      } else {
+        return { success: false, error: result.err };
+      }
+    } catch (error) {
+      return this.handleError(error, 'record vital signs');
+    }
+  }
+
+  // Readings come back oldest first; from/to are epoch milliseconds
+  async getVitalSignsHistory(patientId: string, from?: number, to?: number): Promise<ApiResponse<VitalSigns[]>> {
+    try {
+      const actor = await this.ensureActor();
+      const readings = await actor.getVitalSignsHistory(
+        patientId,
+        toOpt(from === undefined ? undefined : msToNs(from)),
+        toOpt(to === undefined ? undefined : msToNs(to))
+      );
+      return { success: true, data: readings.map(vitalSignsFromCandid) };
+    } catch (error) {
+      return this.handleError(error, 'get vital signs history');
+    }
+  }
+
+  async addGlucoseLogEntry(patientId: string, entry: GlucoseLogEntry): Promise<ApiResponse<void>> {
+    try {
+      const actor = await this.ensureActor();
+      const result = await actor.addGlucoseLogEntry(patientId, glucoseLogEntryToCandid(entry));
+
+      if ('ok' in result) {
+        return { success: true };
+      } else {
+        return { success: false, error: result.err };
+      }
+    } catch (error) {
+      return this.handleError(error, 'add glucose log entry');
+    }
+  }
+
+  async deleteGlucoseLogEntry(patientId: string, entryId: string): Promise<ApiResponse<void>> {
+    try {
+      const actor = await this.ensureActor();
+      const result = await actor.deleteGlucoseLogEntry(patientId, entryId);
+
+      if ('ok' in result) {
+        return { success: true };
+      } else {
+        return { success: false, error: result.err };
+      }
+    } catch (error) {
+      return this.handleError(error, 'delete glucose log entry');
+    }
+  }
+
+  // Entries come back oldest first; from/to are epoch milliseconds
+  async getGlucoseLog(patientId: string, from?: number, to?: number): Promise<ApiResponse<GlucoseLogEntry[]>> {
+    try {
+      const actor = await this.ensureActor();
+      const entries = await actor.getGlucoseLog(
+        patientId,
+        toOpt(from === undefined ? undefined : msToNs(from)),
+        toOpt(to === undefined ? undefined : msToNs(to))
+      );
+      return { success: true, data: entries.map(glucoseLogEntryFromCandid) };
+    } catch (error) {
+      return this.handleError(error, 'get glucose log');
+    }
+  }
+
   async findPatientByEmail(email: string): Promise<ApiResponse<Patient | null>> {
     try {
       const actor = await this.ensureActor();
@@ -207,11 +459,17 @@ class ICPService {
     }
   }
 
-  async submitQuery(patientId: string, title: string, description: string): Promise<ApiResponse<string>> {
+  // Resubmitting with the same key returns the query created the first time
+  async submitQueryIdempotent(
+    patientId: string,
+    title: string,
+    description: string,
+    idempotencyKey: string
+  ): Promise<ApiResponse<string>> {
     try {
       const actor = await this.ensureActor();
-      const result = await actor.submitQuery(patientId, title, description);
-      
+      const result = await actor.submitQueryIdempotent(patientId, title, description, idempotencyKey);
+
       if ('ok' in result) {
         return { success: true, data: result.ok };
       } else {
@@ -232,6 +490,269 @@ class ICPService {
     }
   }
 
+  async getQuery(queryId: string): Promise<ApiResponse<MedicalQuery | null>> {
+    try {
+      const actor = await this.ensureActor();
+      const result = await actor.getQuery(queryId);
+      // ICP returns Option type as array - check if array has elements
+      return { success: true, data: result.length > 0 ? result[0] : null };
+    } catch (error) {
+      return this.handleError(error, 'get query');
+    }
+  }
+
+  async getEscalationTimeline(queryId: string): Promise<ApiResponse<EscalationEvent[]>> {
+    try {
+      const actor = await this.ensureActor();
+      const events = await actor.getEscalationTimeline(queryId);
+      return { success: true, data: events.map(escalationEventFromCandid) };
+    } catch (error) {
+      return this.handleError(error, 'get escalation timeline');
+    }
+  }
+
+  async getPatientThread(queryId: string, patientId: string): Promise<ApiResponse<QueryThread>> {
+    try {
+      const actor = await this.ensureActor();
+      const result = await actor.getPatientThread(queryId, patientId);
+
+      if ('ok' in result) {
+        return { success: true, data: queryThreadFromCandid(result.ok) };
+      } else {
+        return { success: false, error: result.err };
+      }
+    } catch (error) {
+      return this.handleError(error, 'get conversation');
+    }
+  }
+
+  async sendPatientMessage(queryId: string, patientId: string, text: string): Promise<ApiResponse<QueryThread>> {
+    try {
+      const actor = await this.ensureActor();
+      const result = await actor.sendPatientMessage(queryId, patientId, text);
+
+      if ('ok' in result) {
+        return { success: true, data: queryThreadFromCandid(result.ok) };
+      } else {
+        return { success: false, error: result.err };
+      }
+    } catch (error) {
+      return this.handleError(error, 'send message');
+    }
+  }
+
+  // Read receipts for every doctor message the patient has now seen
+  async markThreadRead(queryId: string, patientId: string): Promise<ApiResponse<void>> {
+    try {
+      const actor = await this.ensureActor();
+      const result = await actor.markThreadRead(queryId, patientId);
+
+      if ('ok' in result) {
+        return { success: true };
+      } else {
+        return { success: false, error: result.err };
+      }
+    } catch (error) {
+      return this.handleError(error, 'mark conversation read');
+    }
+  }
+
+  // Attachment calls are authorised by the caller's linked principal, not by an ID argument
+  async beginAttachmentUpload(request: AttachmentUploadRequest): Promise<ApiResponse<QueryAttachment>> {
+    try {
+      const actor = await this.ensureActor();
+      const result = await actor.beginAttachmentUpload(attachmentUploadRequestToCandid(request));
+
+      if ('ok' in result) {
+        return { success: true, data: queryAttachmentFromCandid(result.ok) };
+      } else {
+        return { success: false, error: result.err };
+      }
+    } catch (error) {
+      return this.handleError(error, 'start upload');
+    }
+  }
+
+  async uploadAttachmentChunk(attachmentId: string, index: number, data: Uint8Array): Promise<ApiResponse<void>> {
+    try {
+      const actor = await this.ensureActor();
+      const result = await actor.uploadAttachmentChunk(attachmentId, BigInt(index), data);
+
+      if ('ok' in result) {
+        return { success: true };
+      } else {
+        return { success: false, error: result.err };
+      }
+    } catch (error) {
+      return this.handleError(error, 'upload file');
+    }
+  }
+
+  async finishAttachmentUpload(attachmentId: string): Promise<ApiResponse<QueryAttachment>> {
+    try {
+      const actor = await this.ensureActor();
+      const result = await actor.finishAttachmentUpload(attachmentId);
+
+      if ('ok' in result) {
+        return { success: true, data: queryAttachmentFromCandid(result.ok) };
+      } else {
+        return { success: false, error: result.err };
+      }
+    } catch (error) {
+      return this.handleError(error, 'finish upload');
+    }
+  }
+
+  async getQueryAttachments(queryId: string): Promise<ApiResponse<QueryAttachment[]>> {
+    try {
+      const actor = await this.ensureActor();
+      const result = await actor.getQueryAttachments(queryId);
+
+      if ('ok' in result) {
+        return { success: true, data: result.ok.map(queryAttachmentFromCandid) };
+      } else {
+        return { success: false, error: result.err };
+      }
+    } catch (error) {
+      return this.handleError(error, 'get attachments');
+    }
+  }
+
+  async getAttachmentKey(attachmentId: string): Promise<ApiResponse<Uint8Array>> {
+    try {
+      const actor = await this.ensureActor();
+      const result = await actor.getAttachmentKey(attachmentId);
+
+      if ('ok' in result) {
+        return { success: true, data: blobToBytes(result.ok) };
+      } else {
+        return { success: false, error: result.err };
+      }
+    } catch (error) {
+      return this.handleError(error, 'get file key');
+    }
+  }
+
+  async getAttachmentChunk(attachmentId: string, index: number): Promise<ApiResponse<Uint8Array>> {
+    try {
+      const actor = await this.ensureActor();
+      const result = await actor.getAttachmentChunk(attachmentId, BigInt(index));
+
+      if ('ok' in result) {
+        return { success: true, data: blobToBytes(result.ok) };
+      } else {
+        return { success: false, error: result.err };
+      }
+    } catch (error) {
+      return this.handleError(error, 'download file');
+    }
+  }
+
+  async getPatientPrescriptions(patientId: string): Promise<ApiResponse<Prescription[]>> {
+    try {
+      const actor = await this.ensureActor();
+      const prescriptions = await actor.getPatientPrescriptions(patientId);
+      return { success: true, data: prescriptions.map(prescriptionFromCandid) };
+    } catch (error) {
+      return this.handleError(error, 'get prescriptions');
+    }
+  }
+
+  async getQueryPrescription(queryId: string): Promise<ApiResponse<Prescription | null>> {
+    try {
+      const actor = await this.ensureActor();
+      const result = await actor.getQueryPrescription(queryId);
+      return { success: true, data: result.length > 0 ? prescriptionFromCandid(result[0]) : null };
+    } catch (error) {
+      return this.handleError(error, 'get prescription');
+    }
+  }
+
+  // Opens a new query asking a doctor to renew the prescription; returns the query ID
+  async requestPrescriptionRefill(prescriptionId: string, patientId: string): Promise<ApiResponse<string>> {
+    try {
+      const actor = await this.ensureActor();
+      const result = await actor.requestPrescriptionRefill(prescriptionId, patientId);
+
+      if ('ok' in result) {
+        return { success: true, data: result.ok };
+      } else {
+        return { success: false, error: result.err };
+      }
+    } catch (error) {
+      return this.handleError(error, 'request refill');
+    }
+  }
+
+  // Rating is 1-5 stars; each answered query can be rated once
+  async submitQueryFeedback(queryId: string, patientId: string, rating: number, comment: string): Promise<ApiResponse<QueryFeedback>> {
+    try {
+      const actor = await this.ensureActor();
+      const result = await actor.submitQueryFeedback(queryId, patientId, BigInt(rating), comment);
+
+      if ('ok' in result) {
+        return { success: true, data: queryFeedbackFromCandid(result.ok) };
+      } else {
+        return { success: false, error: result.err };
+      }
+    } catch (error) {
+      return this.handleError(error, 'submit feedback');
+    }
+  }
+
+  async getPatientFeedback(patientId: string): Promise<ApiResponse<QueryFeedback[]>> {
+    try {
+      const actor = await this.ensureActor();
+      const feedback = await actor.getPatientFeedback(patientId);
+      return { success: true, data: feedback.map(queryFeedbackFromCandid) };
+    } catch (error) {
+      return this.handleError(error, 'get feedback');
+    }
+  }
+
+  // Resubmitting with the same key returns the query created the first time
+  async submitQueryEnhanced(query: QueryData, idempotencyKey: string): Promise<ApiResponse<string>> {
+    try {
+      const actor = await this.ensureActor();
+      const result = await actor.submitQueryEnhanced(queryDataToCandid(query), idempotencyKey);
+
+      if ('ok' in result) {
+        return { success: true, data: result.ok };
+      } else {
+        return { success: false, error: result.err.message };
+      }
+    } catch (error) {
+      return this.handleError(error, 'submit enhanced query');
+    }
+  }
+
+  async getPatientQueriesEnhanced(
+    patientId: string,
+    criteria?: QuerySearchCriteria
+  ): Promise<ApiResponse<QuerySearchResult>> {
+    try {
+      const actor = await this.ensureActor();
+      const result = await actor.getPatientQueriesEnhanced(
+        patientId,
+        criteria ? [searchCriteriaToCandid(criteria)] : []
+      );
+      return { success: true, data: searchResultFromCandid(result) };
+    } catch (error) {
+      return this.handleError(error, 'get enhanced patient queries');
+    }
+  }
+
+  async getEnhancedQuery(queryId: string): Promise<ApiResponse<QueryData | null>> {
+    try {
+      const actor = await this.ensureActor();
+      const result = await actor.getEnhancedQuery(queryId);
+      // ICP returns Option type as array - check if array has elements
+      return { success: true, data: result.length > 0 ? queryDataFromCandid(result[0]) : null };
+    } catch (error) {
+      return this.handleError(error, 'get enhanced query');
+    }
+  }
+
   async getPendingQueries(): Promise<ApiResponse<MedicalQuery[]>> {
     try {
       const actor = await this.ensureActor();
@@ -323,6 +844,169 @@ class ICPService {
     }
   }
 
+  // Admins only; the canister rejects other callers
+  async getPlatformAnalytics(): Promise<ApiResponse<PlatformAnalytics>> {
+    try {
+      const actor = await this.ensureActor();
+      const result = await actor.getPlatformAnalytics();
+
+      if ('ok' in result) {
+        return { success: true, data: platformAnalyticsFromCandid(result.ok) };
+      } else {
+        return { success: false, error: result.err };
+      }
+    } catch (error) {
+      return this.handleError(error, 'get platform analytics');
+    }
+  }
+
+  // Who accessed the patient's data; the patient themself or an admin/compliance officer
+  async getPatientAuditTrail(patientId: string): Promise<ApiResponse<AuditEvent[]>> {
+    try {
+      const actor = await this.ensureActor();
+      const result = await actor.getPatientAuditTrail(patientId);
+
+      if ('ok' in result) {
+        return { success: true, data: result.ok.map(auditEventFromCandid) };
+      } else {
+        return { success: false, error: result.err };
+      }
+    } catch (error) {
+      return this.handleError(error, 'get audit trail');
+    }
+  }
+
+  async searchAuditEvents(filter: AuditFilter): Promise<ApiResponse<AuditEvent[]>> {
+    try {
+      const actor = await this.ensureActor();
+      const result = await actor.searchAuditEvents(auditFilterToCandid(filter));
+
+      if ('ok' in result) {
+        return { success: true, data: result.ok.map(auditEventFromCandid) };
+      } else {
+        return { success: false, error: result.err };
+      }
+    } catch (error) {
+      return this.handleError(error, 'search audit events');
+    }
+  }
+
+  // =======================
+  // CONSENT METHODS
+  // =======================
+
+  async getConsentDocuments(): Promise<ApiResponse<ConsentDocument[]>> {
+    try {
+      const actor = await this.ensureActor();
+      const documents = await actor.getConsentDocuments();
+      return { success: true, data: documents.map(consentDocumentFromCandid) };
+    } catch (error) {
+      return this.handleError(error, 'get consent documents');
+    }
+  }
+
+  async getConsentStatus(patientId: string): Promise<ApiResponse<ConsentStatus[]>> {
+    try {
+      const actor = await this.ensureActor();
+      const result = await actor.getConsentStatus(patientId);
+
+      if ('ok' in result) {
+        return { success: true, data: result.ok.map(consentStatusFromCandid) };
+      } else {
+        return { success: false, error: result.err };
+      }
+    } catch (error) {
+      return this.handleError(error, 'get consent status');
+    }
+  }
+
+  async getConsentHistory(patientId: string): Promise<ApiResponse<ConsentRecord[]>> {
+    try {
+      const actor = await this.ensureActor();
+      const result = await actor.getConsentHistory(patientId);
+
+      if ('ok' in result) {
+        return { success: true, data: result.ok.map(consentRecordFromCandid) };
+      } else {
+        return { success: false, error: result.err };
+      }
+    } catch (error) {
+      return this.handleError(error, 'get consent history');
+    }
+  }
+
+  // Signed by the caller's identity; the version must be the document's current one
+  async recordConsent(
+    patientId: string,
+    kind: ConsentKind,
+    documentVersion: number,
+    decision: ConsentDecision
+  ): Promise<ApiResponse<ConsentRecord>> {
+    try {
+      const actor = await this.ensureActor();
+      const result = await actor.recordConsent(
+        patientId,
+        consentKindToCandid(kind),
+        BigInt(documentVersion),
+        consentDecisionToCandid(decision)
+      );
+
+      if ('ok' in result) {
+        return { success: true, data: consentRecordFromCandid(result.ok) };
+      } else {
+        return { success: false, error: result.err };
+      }
+    } catch (error) {
+      return this.handleError(error, 'record consent');
+    }
+  }
+
+  async publishConsentDocument(
+    kind: ConsentKind,
+    title: string,
+    body: string,
+    required: boolean
+  ): Promise<ApiResponse<ConsentDocument>> {
+    try {
+      const actor = await this.ensureActor();
+      const result = await actor.publishConsentDocument(consentKindToCandid(kind), title, body, required);
+
+      if ('ok' in result) {
+        return { success: true, data: consentDocumentFromCandid(result.ok) };
+      } else {
+        return { success: false, error: result.err };
+      }
+    } catch (error) {
+      return this.handleError(error, 'publish consent document');
+    }
+  }
+
+  // The language the patient's AI drafts and responses are written in; 'en' until they choose
+  async getPreferredLanguage(patientId: string): Promise<ApiResponse<Language>> {
+    try {
+      const actor = await this.ensureActor();
+      const language = await actor.getPreferredLanguage(patientId);
+      return { success: true, data: isLanguage(language) ? language : DEFAULT_LANGUAGE };
+    } catch (error) {
+      return this.handleError(error, 'get preferred language');
+    }
+  }
+
+  async setPreferredLanguage(patientId: string, language: Language): Promise<ApiResponse<void>> {
+    try {
+      const actor = await this.ensureActor();
+      const result = await actor.setPreferredLanguage(patientId, language);
+
+      if ('ok' in result) {
+        return { success: true };
+      } else {
+        return { success: false, error: result.err };
+      }
+    } catch (error) {
+      return this.handleError(error, 'set preferred language');
+    }
+  }
+
   async healthCheck(): Promise<ApiResponse<string>> {
     try {
       const actor = await this.ensureActor();
@@ -0,0 +1,109 @@
+/**
+ * @jest-environment node
+ */
+// Tests for the offline query outbox with an in-memory store and a scripted canister
+import { OutboxItem, OutboxStore, QueryOutbox, nextRetryDelay } from './queryOutbox';
+import { ApiResponse } from '../types';
+
+// The real singletons need a browser and a deployed canister
+jest.mock('../api/trustcare', () => ({ __esModule: true, default: {} }));
+jest.mock('../utils/cache', () => ({ cacheOperations: {} }));
+
+const createMemoryStore = (): OutboxStore & { data: Map<string, OutboxItem[]> } => {
+  const data = new Map<string, OutboxItem[]>();
+  return {
+    data,
+    load: async (patientId) => (data.get(patientId) || []).map(item => ({ ...item })),
+    save: async (patientId, items) => {
+      data.set(patientId, items.map(item => ({ ...item })));
+    }
+  };
+};
+
+describe('nextRetryDelay', () => {
+  it('doubles from the base delay up to the cap', () => {
+    expect([1, 2, 3, 4].map(attempts => nextRetryDelay(attempts, 1000, 5000))).toEqual([1000, 2000, 4000, 5000]);
+  });
+});
+
+describe('QueryOutbox', () => {
+  let store: ReturnType<typeof createMemoryStore>;
+  let responses: ApiResponse<string>[];
+  let submitted: OutboxItem[];
+  let online: boolean;
+  let outbox: QueryOutbox;
+
+  beforeEach(() => {
+    store = createMemoryStore();
+    responses = [];
+    submitted = [];
+    online = true;
+    outbox = new QueryOutbox({
+      store,
+      submit: async (item) => {
+        submitted.push(item);
+        return responses.shift() || { success: true, data: `query_${submitted.length}` };
+      },
+      baseRetryDelay: 1000,
+      maxRetryDelay: 60000,
+      maxAttempts: 2,
+      isOnline: () => online
+    });
+  });
+
+  it('keeps unsent queries while offline and delivers them once online', async () => {
+    online = false;
+    const item = await outbox.enqueue('patient_1', 'Dizziness', 'Dizzy every morning since Monday');
+
+    await outbox.flush('patient_1');
+    expect(submitted).toHaveLength(0);
+    expect((await outbox.list('patient_1'))[0]).toMatchObject({ id: item.id, status: 'pending' });
+
+    online = true;
+    const items = await outbox.flush('patient_1');
+    expect(submitted.map(sent => sent.id)).toEqual([item.id]);
+    expect(items[0]).toMatchObject({ status: 'sent', queryId: 'query_1' });
+  });
+
+  it('backs off after a failure and marks the item failed after the last attempt', async () => {
+    responses = [{ success: false, error: 'Network error' }, { success: false, error: 'Network error' }];
+    await outbox.enqueue('patient_1', 'Dizziness', 'Dizzy every morning since Monday');
+
+    let [item] = await outbox.flush('patient_1');
+    expect(item).toMatchObject({ status: 'pending', attempts: 1, lastError: 'Network error' });
+    expect(item.nextAttemptAt).toBeGreaterThan(Date.now());
+
+    // Not due yet, so a normal flush leaves it alone
+    await outbox.flush('patient_1');
+    expect(submitted).toHaveLength(1);
+
+    [item] = await outbox.flush('patient_1', true);
+    expect(item).toMatchObject({ status: 'failed', attempts: 2 });
+
+    [item] = await outbox.retry('patient_1', item.id);
+    expect(item).toMatchObject({ status: 'sent', queryId: 'query_3' });
+  });
+
+  it('retries with the same idempotency key and resumes sends interrupted by a reload', async () => {
+    responses = [{ success: false, error: 'Timeout' }];
+    const item = await outbox.enqueue('patient_1', 'Dizziness', 'Dizzy every morning since Monday');
+    await outbox.flush('patient_1');
+
+    store.data.set('patient_1', store.data.get('patient_1')!.map(stored => ({ ...stored, status: 'sending' as const })));
+    expect((await outbox.list('patient_1'))[0].status).toBe('pending');
+
+    await outbox.flush('patient_1', true);
+    expect(submitted.map(sent => sent.id)).toEqual([item.id, item.id]);
+  });
+
+  it('notifies subscribers with each status change', async () => {
+    const statuses: string[] = [];
+    outbox.subscribe((patientId, items) => statuses.push(`${patientId}:${items.map(i => i.status).join(',')}`));
+
+    const item = await outbox.enqueue('patient_1', 'Dizziness', 'Dizzy every morning since Monday');
+    await outbox.flush('patient_1');
+    await outbox.discard('patient_1', item.id);
+
+    expect(statuses).toEqual(['patient_1:pending', 'patient_1:sending', 'patient_1:sent', 'patient_1:']);
+  });
+});
@@ -0,0 +1,341 @@
+// Query Outbox - Keeps unsent patient queries on the device and delivers them when connectivity returns
+// Each item carries a client-generated idempotency key so retries never create duplicate queries
+import { useCallback, useEffect, useState } from 'react';
+import trustCareAPI from '../api/trustcare';
+import { cacheOperations } from '../utils/cache';
+import { ApiResponse } from '../types';
+
+export type OutboxItemStatus = 'pending' | 'sending' | 'failed' | 'sent';
+
+export interface OutboxItem {
+  id: string; // Idempotency key, stable across retries
+  patientId: string;
+  title: string;
+  description: string;
+  createdAt: number;
+  status: OutboxItemStatus;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+  queryId?: string;
+  sentAt?: number;
+}
+
+export interface OutboxStore {
+  load: (patientId: string) => Promise<OutboxItem[]>;
+  save: (patientId: string, items: OutboxItem[]) => Promise<void>;
+}
+
+export type OutboxSubmitter = (item: OutboxItem) => Promise<ApiResponse<string>>;
+
+export interface QueryOutboxOptions {
+  store?: OutboxStore;
+  submit?: OutboxSubmitter;
+  baseRetryDelay?: number;
+  maxRetryDelay?: number;
+  maxAttempts?: number;
+  isOnline?: () => boolean;
+}
+
+type OutboxListener = (patientId: string, items: OutboxItem[]) => void;
+
+// Delivered items stay visible for a day so patients can see they went through
+const SENT_RETENTION = 24 * 60 * 60 * 1000;
+
+export const nextRetryDelay = (attempts: number, baseDelay: number, maxDelay: number): number =>
+  Math.min(baseDelay * Math.pow(2, Math.max(attempts - 1, 0)), maxDelay);
+
+// Encrypted at rest by the cache, so unsent queries survive reloads and expired sessions until delivered
+const defaultStore: OutboxStore = {
+  load: async (patientId) => (await cacheOperations.outbox.get<OutboxItem>(patientId)) || [],
+  save: async (patientId, items) => {
+    if (items.length > 0) {
+      await cacheOperations.outbox.set(patientId, items);
+    } else {
+      cacheOperations.outbox.remove(patientId);
+    }
+  }
+};
+
+const defaultSubmit: OutboxSubmitter = (item) =>
+  trustCareAPI.submitQueryIdempotent(item.patientId, item.title, item.description, item.id);
+
+const browserIsOnline = (): boolean => typeof navigator === 'undefined' || navigator.onLine !== false;
+
+export class QueryOutbox {
+  private store: OutboxStore;
+  private submit: OutboxSubmitter;
+  private baseRetryDelay: number;
+  private maxRetryDelay: number;
+  private maxAttempts: number;
+  private isOnline: () => boolean;
+
+  private listeners = new Set<OutboxListener>();
+  private flushing = new Map<string, Promise<void>>();
+  private updates = new Map<string, Promise<OutboxItem[]>>();
+  private watched = new Map<string, number>();
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(options: QueryOutboxOptions = {}) {
+    this.store = options.store || defaultStore;
+    this.submit = options.submit || defaultSubmit;
+    this.baseRetryDelay = options.baseRetryDelay ?? 5000;
+    this.maxRetryDelay = options.maxRetryDelay ?? 5 * 60 * 1000;
+    this.maxAttempts = options.maxAttempts ?? 8;
+    this.isOnline = options.isOnline || browserIsOnline;
+  }
+
+  // =======================
+  // ITEMS
+  // =======================
+
+  async list(patientId: string): Promise<OutboxItem[]> {
+    const pendingUpdate = this.updates.get(patientId);
+    if (pendingUpdate) {
+      await pendingUpdate.catch(() => undefined);
+    }
+    return this.visibleItems(patientId, await this.store.load(patientId));
+  }
+
+  async enqueue(patientId: string, title: string, description: string): Promise<OutboxItem> {
+    const now = Date.now();
+    const item: OutboxItem = {
+      id: `outbox-${now}-${Math.random().toString(36).substr(2, 9)}`,
+      patientId,
+      title,
+      description,
+      createdAt: now,
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: now
+    };
+
+    await this.update(patientId, items => [...items, item]);
+    this.scheduleRetry();
+    return item;
+  }
+
+  async discard(patientId: string, itemId: string): Promise<void> {
+    await this.update(patientId, items => items.filter(item => item.id !== itemId));
+  }
+
+  async retry(patientId: string, itemId: string): Promise<OutboxItem[]> {
+    await this.update(patientId, items => items.map(item =>
+      item.id === itemId && item.status === 'failed'
+        ? { ...item, status: 'pending', attempts: 0, nextAttemptAt: Date.now() }
+        : item
+    ));
+    return this.flush(patientId);
+  }
+
+  // =======================
+  // DELIVERY
+  // =======================
+
+  // Sends every item that is due; pass force to ignore the backoff schedule
+  async flush(patientId: string, force: boolean = false): Promise<OutboxItem[]> {
+    // Items queued while a flush is running get their own pass once it finishes
+    const inFlight = this.flushing.get(patientId);
+    if (inFlight) {
+      await inFlight;
+      return this.flush(patientId, force);
+    }
+
+    if (!this.isOnline()) {
+      return this.list(patientId);
+    }
+
+    const run = this.sendDueItems(patientId, force);
+    this.flushing.set(patientId, run);
+    try {
+      await run;
+    } finally {
+      this.flushing.delete(patientId);
+    }
+
+    this.scheduleRetry();
+    return this.list(patientId);
+  }
+
+  // Keeps delivering a patient's outbox while the returned stop function has not been called
+  watch(patientId: string): () => void {
+    this.watched.set(patientId, (this.watched.get(patientId) || 0) + 1);
+    if (this.watched.size === 1 && typeof window !== 'undefined') {
+      window.addEventListener('online', this.handleOnline);
+    }
+
+    this.flush(patientId);
+
+    return () => {
+      const count = (this.watched.get(patientId) || 1) - 1;
+      if (count > 0) {
+        this.watched.set(patientId, count);
+        return;
+      }
+
+      this.watched.delete(patientId);
+      if (this.watched.size === 0) {
+        if (typeof window !== 'undefined') {
+          window.removeEventListener('online', this.handleOnline);
+        }
+        this.clearRetryTimer();
+      }
+    };
+  }
+
+  // =======================
+  // SUBSCRIPTIONS
+  // =======================
+
+  subscribe(listener: OutboxListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // =======================
+  // INTERNALS
+  // =======================
+
+  private async sendDueItems(patientId: string, force: boolean): Promise<void> {
+    // Let the caller register this flush before the first item is marked as sending
+    await Promise.resolve();
+
+    // Only one flush runs per patient, so anything still marked as sending was cut off by a reload
+    const due = (await this.list(patientId)).filter(
+      item => (item.status === 'pending' || item.status === 'sending') && (force || item.nextAttemptAt <= Date.now())
+    );
+
+    for (const dueItem of due) {
+      await this.updateItem(patientId, dueItem.id, { status: 'sending' });
+
+      let result: ApiResponse<string>;
+      try {
+        result = await this.submit(dueItem);
+      } catch (error) {
+        result = { success: false, error: error instanceof Error ? error.message : 'Network error' };
+      }
+
+      if (result.success) {
+        await this.updateItem(patientId, dueItem.id, {
+          status: 'sent',
+          queryId: result.data,
+          sentAt: Date.now(),
+          lastError: undefined
+        });
+      } else {
+        const attempts = dueItem.attempts + 1;
+        await this.updateItem(patientId, dueItem.id, {
+          status: attempts >= this.maxAttempts ? 'failed' : 'pending',
+          attempts,
+          nextAttemptAt: Date.now() + nextRetryDelay(attempts, this.baseRetryDelay, this.maxRetryDelay),
+          lastError: result.error || 'Failed to send query'
+        });
+      }
+    }
+  }
+
+  private handleOnline = () => {
+    this.watched.forEach((_, patientId) => {
+      this.flush(patientId, true);
+    });
+  };
+
+  private async scheduleRetry(): Promise<void> {
+    let nextAttemptAt = Infinity;
+    for (const patientId of Array.from(this.watched.keys())) {
+      (await this.list(patientId))
+        .filter(item => item.status === 'pending')
+        .forEach(item => {
+          nextAttemptAt = Math.min(nextAttemptAt, item.nextAttemptAt);
+        });
+    }
+
+    this.clearRetryTimer();
+    if (nextAttemptAt === Infinity || this.watched.size === 0) return;
+
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.watched.forEach((_, patientId) => {
+        this.flush(patientId);
+      });
+    }, Math.max(nextAttemptAt - Date.now(), 0));
+  }
+
+  private clearRetryTimer(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  private visibleItems(patientId: string, items: OutboxItem[]): OutboxItem[] {
+    const now = Date.now();
+    return items
+      .filter(item => item.status !== 'sent' || now - (item.sentAt || 0) < SENT_RETENTION)
+      // A send interrupted by a reload is safe to repeat thanks to the idempotency key
+      .map(item => (item.status === 'sending' && !this.flushing.has(patientId) ? { ...item, status: 'pending' } : item));
+  }
+
+  private updateItem(patientId: string, itemId: string, changes: Partial<OutboxItem>): Promise<OutboxItem[]> {
+    return this.update(patientId, items => items.map(item =>
+      item.id === itemId ? { ...item, ...changes } : item
+    ));
+  }
+
+  // Read-modify-write cycles run one at a time per patient so concurrent changes aren't lost
+  private update(patientId: string, change: (items: OutboxItem[]) => OutboxItem[]): Promise<OutboxItem[]> {
+    const previous = this.updates.get(patientId) || Promise.resolve([]);
+
+    const next = previous.catch(() => []).then(async () => {
+      const items = this.visibleItems(patientId, change(await this.store.load(patientId)));
+      await this.store.save(patientId, items);
+      this.listeners.forEach(listener => listener(patientId, items));
+      return items;
+    });
+
+    this.updates.set(patientId, next);
+    next.catch(() => undefined).then(() => {
+      if (this.updates.get(patientId) === next) {
+        this.updates.delete(patientId);
+      }
+    });
+    return next;
+  }
+}
+
+// Shared outbox used by the patient query forms and dashboard
+const queryOutbox = new QueryOutbox();
+
+export const useQueryOutbox = (patientId: string) => {
+  const [items, setItems] = useState<OutboxItem[]>([]);
+
+  useEffect(() => {
+    if (!patientId) return;
+
+    let active = true;
+    queryOutbox.list(patientId).then(loaded => {
+      if (active) setItems(loaded);
+    });
+    const unsubscribe = queryOutbox.subscribe((changedPatientId, changedItems) => {
+      if (active && changedPatientId === patientId) {
+        setItems(changedItems);
+      }
+    });
+    const stopWatching = queryOutbox.watch(patientId);
+
+    return () => {
+      active = false;
+      unsubscribe();
+      stopWatching();
+    };
+  }, [patientId]);
+
+  const retry = useCallback((itemId: string) => queryOutbox.retry(patientId, itemId), [patientId]);
+  const discard = useCallback((itemId: string) => queryOutbox.discard(patientId, itemId), [patientId]);
+
+  return { items, retry, discard };
+};
+
+export default queryOutbox;
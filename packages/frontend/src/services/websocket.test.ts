@@ -0,0 +1,216 @@
+/**
+ * @jest-environment node
+ */
+// Tests for the bridge WebSocket client against a local mock WebSocket server
+import WebSocket, { WebSocketServer } from 'ws';
+import { AddressInfo } from 'net';
+import { WebSocketService } from './websocket';
+
+// Tests pass their own ticket claim instead of calling the canister
+jest.mock('./icpService', () => ({ __esModule: true, default: {} }));
+
+// The client talks to the browser WebSocket API, which `ws` implements
+(global as any).WebSocket = WebSocket;
+
+const waitFor = async (condition: () => boolean, timeout = 3000) => {
+  const start = Date.now();
+  while (!condition()) {
+    if (Date.now() - start > timeout) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+};
+
+describe('WebSocketService', () => {
+  let server: WebSocketServer;
+  let url: string;
+  let sockets: WebSocket[];
+  let received: any[];
+  let rejectConnections: boolean;
+  let claimTicket: jest.Mock;
+  let service: WebSocketService;
+
+  beforeEach(async () => {
+    sockets = [];
+    received = [];
+    rejectConnections = false;
+    server = new WebSocketServer({ port: 0, verifyClient: () => !rejectConnections });
+    server.on('connection', (socket) => {
+      sockets.push(socket);
+      const authTicket = `ticket-${sockets.length}`;
+      socket.on('message', (data) => {
+        const message = JSON.parse(data.toString());
+        received.push(message);
+        if (message.type === 'authenticate') {
+          socket.send(JSON.stringify({ type: 'authenticated', payload: { authTicket }, requestId: message.requestId }));
+        }
+      });
+      socket.send(JSON.stringify({ type: 'connection_established', payload: { connectionId: 'test', authTicket } }));
+    });
+    await new Promise(resolve => server.once('listening', resolve));
+    url = `ws://localhost:${(server.address() as AddressInfo).port}`;
+
+    claimTicket = jest.fn().mockResolvedValue(undefined);
+    service = new WebSocketService({ url, reconnectDelay: 20, maxReconnectDelay: 100, maxReconnectAttempts: 5, claimTicket });
+  });
+
+  afterEach(async () => {
+    await service.disconnect();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  const broadcast = (message: object) => {
+    sockets.forEach(socket => socket.send(JSON.stringify(message)));
+  };
+
+  test('sends subscribe_updates for a patient on connect', async () => {
+    await service.connect('P001', 'patient');
+
+    expect(service.isConnected()).toBe(true);
+    await waitFor(() => received.some(m => m.type === 'subscribe_updates'));
+
+    const subscribeMessage = received.find(m => m.type === 'subscribe_updates');
+    expect(subscribeMessage.payload).toEqual({ patientId: 'P001' });
+  });
+
+  test('claims the socket ticket and authenticates before subscribing', async () => {
+    await service.connect('P001', 'patient');
+
+    await waitFor(() => received.some(m => m.type === 'subscribe_updates'));
+    expect(claimTicket).toHaveBeenCalledWith('ticket-1');
+    expect(received.map(m => m.type)).toEqual(['authenticate', 'subscribe_updates']);
+  });
+
+  test('does not subscribe when the ticket cannot be claimed', async () => {
+    claimTicket.mockRejectedValue(new Error('Sign in with Internet Identity to receive live updates'));
+    await service.connect('P001', 'patient');
+
+    await waitFor(() => service.getConnectionStatus().lastError !== null);
+    expect(service.getConnectionStatus().lastError).toBe('Sign in with Internet Identity to receive live updates');
+    expect(received).toEqual([]);
+  });
+
+  test('subscribes doctors by doctorId and includes system stats', async () => {
+    await service.connect('D001', 'doctor');
+    await waitFor(() => received.some(m => m.type === 'subscribe_updates'));
+    service.subscribeToSystemStats();
+
+    await waitFor(() => received.filter(m => m.type === 'subscribe_updates').length === 2);
+    const payloads = received.filter(m => m.type === 'subscribe_updates').map(m => m.payload);
+    expect(payloads).toEqual([{ doctorId: 'D001' }, { systemStats: true }]);
+  });
+
+  test('routes direct and real_time_update events to subscribers', async () => {
+    const created = jest.fn();
+    const stats = jest.fn();
+    service.subscribe('query_created', created);
+    service.subscribe('system_stats_updated', stats);
+
+    await service.connect('D001', 'doctor');
+
+    broadcast({ type: 'query_created', payload: { query: { id: 'Q1' } } });
+    broadcast({
+      type: 'real_time_update',
+      payload: { subscription: 'system_stats', type: 'system_stats_updated', stats: { unassignedPatients: 3 } }
+    });
+
+    await waitFor(() => created.mock.calls.length === 1 && stats.mock.calls.length === 1);
+    expect(created).toHaveBeenCalledWith({ query: { id: 'Q1' } });
+    expect(stats.mock.calls[0][0].stats).toEqual({ unassignedPatients: 3 });
+  });
+
+  test('stops delivering events after unsubscribe', async () => {
+    const listener = jest.fn();
+    const unsubscribe = service.subscribe('query_updated', listener);
+
+    await service.connect('P001', 'patient');
+    unsubscribe();
+    broadcast({ type: 'query_updated', payload: { query: { id: 'Q1' } } });
+    broadcast({ type: 'query_created', payload: {} });
+
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  test('resolves requests with the matching reply and passes progress updates through', async () => {
+    const progress = jest.fn();
+    service.subscribe('query_status', progress);
+    await service.connect('D001', 'doctor');
+
+    const pending = service.request('regenerate_response', { queryId: 'Q1' }, { responseType: 'regenerated_response' });
+
+    await waitFor(() => received.some(m => m.type === 'regenerate_response'));
+    const { requestId } = received.find(m => m.type === 'regenerate_response');
+    broadcast({ type: 'query_status', payload: { status: 'processing' }, requestId });
+    broadcast({ type: 'regenerated_response', payload: { content: 'New draft' }, requestId });
+
+    await expect(pending).resolves.toEqual({ content: 'New draft' });
+    expect(progress).toHaveBeenCalledWith({ status: 'processing' });
+  });
+
+  test('rejects requests on bridge errors and when not connected', async () => {
+    await expect(
+      service.request('regenerate_response', {}, { responseType: 'regenerated_response' })
+    ).rejects.toThrow('Not connected');
+
+    await service.connect('D001', 'doctor');
+    const pending = service.request('regenerate_response', {}, { responseType: 'regenerated_response' });
+
+    await waitFor(() => received.some(m => m.type === 'regenerate_response'));
+    const { requestId } = received.find(m => m.type === 'regenerate_response');
+    broadcast({ type: 'error', payload: { code: 'INVALID_PAYLOAD', message: 'instructions are required' }, requestId });
+
+    await expect(pending).rejects.toThrow('instructions are required');
+  });
+
+  test('reconnects with backoff and restores subscriptions', async () => {
+    const statuses: boolean[] = [];
+    service.onStatusChange((connected, status) => statuses.push(status.reconnecting));
+
+    await service.connect('P001', 'patient');
+    await waitFor(() => received.some(m => m.type === 'subscribe_updates'));
+
+    sockets[0].terminate();
+
+    await waitFor(() => sockets.length === 2 && service.isConnected());
+    await waitFor(() => received.filter(m => m.type === 'subscribe_updates').length === 2);
+    expect(claimTicket).toHaveBeenLastCalledWith('ticket-2');
+
+    expect(statuses).toContain(true);
+    expect(service.getConnectionStatus()).toMatchObject({ reconnecting: false, reconnectAttempts: 0 });
+  });
+
+  test('does not reconnect after disconnect', async () => {
+    await service.connect('P001', 'patient');
+    await service.disconnect();
+
+    await new Promise(resolve => setTimeout(resolve, 150));
+    expect(sockets).toHaveLength(1);
+    expect(service.isConnected()).toBe(false);
+    expect(service.getConnectionStatus().reconnecting).toBe(false);
+  });
+
+  test('keeps a retained connection open until the last holder releases it', async () => {
+    await service.retain('D001', 'doctor');
+    await service.retain('D001', 'doctor');
+
+    service.release();
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(service.isConnected()).toBe(true);
+    expect(sockets).toHaveLength(1);
+
+    service.release();
+    await waitFor(() => !service.isConnected());
+    expect(service.getConnectionStatus().reconnecting).toBe(false);
+  });
+
+  test('gives up after the maximum number of reconnect attempts', async () => {
+    await service.connect('P001', 'patient');
+    rejectConnections = true;
+    sockets[0].terminate();
+
+    await waitFor(() => service.getConnectionStatus().lastError === 'Max reconnection attempts reached');
+    expect(service.getConnectionStatus()).toMatchObject({ reconnecting: false, reconnectAttempts: 5 });
+  });
+});
@@ -1,42 +1,580 @@
 // WebSocket Service for Real-time Updates
-// Stub implementation - can be enhanced for production use
+// Connects to the TrustCare bridge, subscribes to updates and fans events out to listeners
+import { useState, useEffect, useCallback } from 'react';
+import { Language } from '../types';
+import icpService from './icpService';
+
+// Bridge WebSocket endpoint (see trustcare-bridge WS_PORT)
+const BRIDGE_WS_URL = process.env.REACT_APP_BRIDGE_WS_URL || 'ws://localhost:8080';
+
+export type UserType = 'patient' | 'doctor';
+
+export type WebSocketEventCallback = (data: any) => void;
+
+export interface ConnectionStatus {
+  reconnecting: boolean;
+  reconnectAttempts: number;
+  lastConnectedAt: Date | null;
+  lastError: string | null;
+}
+
+export interface WebSocketServiceOptions {
+  url?: string;
+  maxReconnectAttempts?: number;
+  reconnectDelay?: number; // Base delay for exponential backoff
+  maxReconnectDelay?: number;
+  heartbeatInterval?: number;
+  claimTicket?: (ticket: string) => Promise<void>; // Binds the bridge's socket ticket to the signed-in account
+}
 
 export interface WebSocketHook {
   isConnected: boolean;
-  connectionStatus: {
-    reconnecting: boolean;
-  };
-  subscribe: (event: string, callback: (data: any) => void) => () => void;
+  connectionStatus: ConnectionStatus;
+  subscribe: (event: string, callback: WebSocketEventCallback) => () => void;
   subscribeToSystemStats: () => void;
   setUserStatus: (status: string) => void;
 }
 
-export const useWebSocket = (userId: string, userType: 'patient' | 'doctor'): WebSocketHook => {
-  // Stub implementation for now
-  return {
-    isConnected: false,
-    connectionStatus: { reconnecting: false },
-    subscribe: (event: string, callback: (data: any) => void) => {
-      console.log(`WebSocket stub: Subscribed to ${event} for ${userType} ${userId}`);
-      // Return unsubscribe function
-      return () => {
-        console.log(`WebSocket stub: Unsubscribed from ${event}`);
+export interface BridgeRequestOptions {
+  responseType: string; // Message type that completes the request
+  timeout?: number;
+}
+
+export interface RegenerateResponseRequest {
+  queryId: string;
+  patientId: string;
+  query: string;
+  instructions: string;
+  previousDraft?: string;
+  context?: { language?: Language }; // Merged into the patient context the bridge prompts with
+}
+
+export interface RegeneratedResponse {
+  queryId: string;
+  instructions: string;
+  content: string;
+  safetyScore: number;
+  urgency: string;
+  requiresReview: boolean;
+  timestamp: number;
+}
+
+interface BridgeMessage {
+  type: string;
+  payload?: any;
+  timestamp?: number;
+  requestId?: string | null;
+}
+
+type StatusListener = (connected: boolean, status: ConnectionStatus) => void;
+
+interface PendingRequest {
+  responseType: string;
+  resolve: (payload: any) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+// Events the bridge sends back for our own requests rather than as updates
+const CONTROL_MESSAGES = new Set(['pong', 'subscription_confirmed', 'user_status_updated', 'authenticated']);
+
+// The bridge only trusts an account the canister vouches for, so the signed-in identity claims the ticket there
+const claimTicketOnCanister = async (ticket: string): Promise<void> => {
+  const result = await icpService.claimBridgeTicket(ticket);
+  if (!result.success) {
+    throw new Error(result.error || 'Failed to claim bridge ticket');
+  }
+};
+
+export class WebSocketService {
+  private ws: WebSocket | null = null;
+  private url: string;
+  private maxReconnectAttempts: number;
+  private reconnectDelay: number;
+  private maxReconnectDelay: number;
+  private heartbeatInterval: number;
+  private claimTicket: (ticket: string) => Promise<void>;
+
+  private userId: string | null = null;
+  private userType: UserType | null = null;
+  private connected = false;
+  private authenticated = false;
+  private manuallyClosed = false;
+  private systemStatsSubscribed = false;
+  private userStatus: string | null = null;
+  private retainCount = 0;
+
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+
+  private listeners = new Map<string, Set<WebSocketEventCallback>>();
+  private statusListeners = new Set<StatusListener>();
+  private pendingRequests = new Map<string, PendingRequest>();
+  private status: ConnectionStatus = {
+    reconnecting: false,
+    reconnectAttempts: 0,
+    lastConnectedAt: null,
+    lastError: null
+  };
+
+  constructor(options: WebSocketServiceOptions = {}) {
+    this.url = options.url || BRIDGE_WS_URL;
+    this.maxReconnectAttempts = options.maxReconnectAttempts ?? 10;
+    this.reconnectDelay = options.reconnectDelay ?? 1000;
+    this.maxReconnectDelay = options.maxReconnectDelay ?? 30000;
+    this.heartbeatInterval = options.heartbeatInterval ?? 30000;
+    this.claimTicket = options.claimTicket || claimTicketOnCanister;
+  }
+
+  // =======================
+  // CONNECTION LIFECYCLE
+  // =======================
+
+  connect(userId: string, userType: UserType): Promise<void> {
+    const sameUser = this.userId === userId && this.userType === userType;
+    if (sameUser && this.ws && (this.ws.readyState === WebSocket.OPEN || this.ws.readyState === WebSocket.CONNECTING)) {
+      return Promise.resolve();
+    }
+
+    if (!sameUser) {
+      this.closeSocket();
+      this.systemStatsSubscribed = false;
+      this.userStatus = null;
+    }
+
+    this.userId = userId;
+    this.userType = userType;
+    this.manuallyClosed = false;
+    this.clearReconnectTimer();
+
+    return this.open();
+  }
+
+  disconnect(): Promise<void> {
+    this.manuallyClosed = true;
+    this.clearReconnectTimer();
+    this.closeSocket();
+    this.updateStatus({ reconnecting: false, reconnectAttempts: 0 });
+    return Promise.resolve();
+  }
+
+  // Components sharing the connection retain it while mounted; the last release closes it
+  retain(userId: string, userType: UserType): Promise<void> {
+    this.retainCount++;
+    return this.connect(userId, userType);
+  }
+
+  release(): void {
+    if (this.retainCount === 0) return;
+    this.retainCount--;
+    if (this.retainCount === 0) {
+      this.disconnect();
+    }
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  getConnectionStatus(): ConnectionStatus {
+    return { ...this.status };
+  }
+
+  private open(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      let settled = false;
+      let ws: WebSocket;
+
+      try {
+        ws = new WebSocket(this.url);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to create WebSocket';
+        this.updateStatus({ lastError: message });
+        this.scheduleReconnect();
+        reject(error);
+        return;
+      }
+
+      this.ws = ws;
+      this.authenticated = false;
+
+      ws.onopen = () => {
+        if (this.ws !== ws) return;
+
+        this.connected = true;
+        this.updateStatus({
+          reconnecting: false,
+          reconnectAttempts: 0,
+          lastConnectedAt: new Date(),
+          lastError: null
+        });
+
+        // Subscriptions follow once the bridge's welcome ticket is authenticated
+        this.startHeartbeat();
+
+        settled = true;
+        resolve();
+      };
+
+      ws.onmessage = (event: MessageEvent) => {
+        if (this.ws !== ws) return;
+        this.handleMessage(event.data);
+      };
+
+      ws.onerror = () => {
+        if (this.ws !== ws) return;
+        this.updateStatus({ lastError: `WebSocket error connecting to ${this.url}` });
       };
-    },
-    subscribeToSystemStats: () => {
-      console.log('WebSocket stub: Subscribed to system stats');
-    },
-    setUserStatus: (status: string) => {
-      console.log(`WebSocket stub: Set user status to ${status}`);
+
+      ws.onclose = (event: CloseEvent) => {
+        if (this.ws !== ws) return;
+
+        this.ws = null;
+        this.connected = false;
+        this.authenticated = false;
+        this.stopHeartbeat();
+        this.rejectPendingRequests('WebSocket connection closed');
+
+        if (event.reason) {
+          this.updateStatus({ lastError: event.reason });
+        } else {
+          this.notifyStatusListeners();
+        }
+
+        if (!settled) {
+          settled = true;
+          reject(new Error(this.status.lastError || 'WebSocket connection closed'));
+        }
+
+        if (!this.manuallyClosed) {
+          this.scheduleReconnect();
+        }
+      };
+    });
+  }
+
+  private closeSocket(): void {
+    this.stopHeartbeat();
+    this.rejectPendingRequests('WebSocket connection closed');
+
+    this.authenticated = false;
+    if (this.ws) {
+      const ws = this.ws;
+      this.ws = null;
+      if (ws.readyState === WebSocket.OPEN || ws.readyState === WebSocket.CONNECTING) {
+        ws.close(1000, 'Client disconnect');
+      }
     }
-  };
-};
 
-// Default export
-const webSocketService = {
-  connect: () => Promise.resolve(),
-  disconnect: () => Promise.resolve(),
-  isConnected: () => false
+    if (this.connected) {
+      this.connected = false;
+      this.notifyStatusListeners();
+    }
+  }
+
+  // Schedule reconnection with exponential backoff
+  private scheduleReconnect(): void {
+    if (this.manuallyClosed || this.reconnectTimer) return;
+
+    if (this.status.reconnectAttempts >= this.maxReconnectAttempts) {
+      this.updateStatus({
+        reconnecting: false,
+        lastError: 'Max reconnection attempts reached'
+      });
+      return;
+    }
+
+    const attempt = this.status.reconnectAttempts + 1;
+    const delay = Math.min(this.reconnectDelay * Math.pow(2, attempt - 1), this.maxReconnectDelay);
+
+    this.updateStatus({ reconnecting: true, reconnectAttempts: attempt });
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.open().catch(() => {
+        // onclose schedules the next attempt
+      });
+    }, delay);
+  }
+
+  private clearReconnectTimer(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
+  private startHeartbeat(): void {
+    this.stopHeartbeat();
+    this.heartbeatTimer = setInterval(() => {
+      this.send('ping', { timestamp: Date.now() });
+    }, this.heartbeatInterval);
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  // =======================
+  // MESSAGING
+  // =======================
+
+  send(type: string, payload: Record<string, any> = {}): boolean {
+    return this.sendWithId(type, payload, this.createRequestId(type));
+  }
+
+  // Send a message and resolve with the payload of the bridge's reply to it
+  request<T = any>(type: string, payload: Record<string, any>, options: BridgeRequestOptions): Promise<T> {
+    const requestId = this.createRequestId(type);
+
+    return new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pendingRequests.delete(requestId);
+        reject(new Error(`Timed out waiting for ${options.responseType}`));
+      }, options.timeout ?? 60000);
+
+      this.pendingRequests.set(requestId, { responseType: options.responseType, resolve, reject, timer });
+
+      if (!this.sendWithId(type, payload, requestId)) {
+        clearTimeout(timer);
+        this.pendingRequests.delete(requestId);
+        reject(new Error('Not connected to the TrustCare bridge'));
+      }
+    });
+  }
+
+  private sendWithId(type: string, payload: Record<string, any>, requestId: string): boolean {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+      return false;
+    }
+
+    this.ws.send(JSON.stringify({ type, payload, requestId }));
+    return true;
+  }
+
+  private createRequestId(type: string): string {
+    return `${type}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  // Returns true when the message completed a pending request
+  private settleRequest(message: BridgeMessage): boolean {
+    const pending = message.requestId ? this.pendingRequests.get(message.requestId) : undefined;
+    if (!pending) return false;
+
+    if (message.type === 'error') {
+      pending.reject(new Error(message.payload?.message || 'Bridge error'));
+    } else if (message.type === pending.responseType) {
+      pending.resolve(message.payload);
+    } else {
+      // Progress updates (e.g. query_status) flow to subscribers as usual
+      return false;
+    }
+
+    clearTimeout(pending.timer);
+    this.pendingRequests.delete(message.requestId!);
+    return true;
+  }
+
+  private rejectPendingRequests(reason: string): void {
+    this.pendingRequests.forEach(pending => {
+      clearTimeout(pending.timer);
+      pending.reject(new Error(reason));
+    });
+    this.pendingRequests.clear();
+  }
+
+  // Each socket gets a fresh ticket; the bridge only serves our own updates once it is redeemed
+  private async authenticate(ticket: string | undefined): Promise<void> {
+    const ws = this.ws;
+    if (!ticket || !this.userId) return;
+
+    try {
+      await this.claimTicket(ticket);
+      if (this.ws !== ws) return;
+
+      await this.request('authenticate', {}, { responseType: 'authenticated', timeout: 30000 });
+      if (this.ws !== ws) return;
+
+      this.authenticated = true;
+      this.sendSubscriptions();
+    } catch (error) {
+      if (this.ws !== ws) return;
+      this.updateStatus({ lastError: error instanceof Error ? error.message : 'Bridge authentication failed' });
+    }
+  }
+
+  // Re-sent on every (re)connect so the bridge restores our subscriptions
+  private sendSubscriptions(): void {
+    if (!this.userId) return;
+
+    this.send('subscribe_updates', {
+      ...(this.userType === 'doctor' ? { doctorId: this.userId } : { patientId: this.userId }),
+      ...(this.systemStatsSubscribed ? { systemStats: true } : {})
+    });
+
+    if (this.userStatus) {
+      this.send('user_status', { status: this.userStatus });
+    }
+  }
+
+  private handleMessage(raw: any): void {
+    let message: BridgeMessage;
+    try {
+      message = JSON.parse(typeof raw === 'string' ? raw : raw.toString());
+    } catch (error) {
+      console.warn('WebSocket: ignoring malformed message', raw);
+      return;
+    }
+
+    if (!message || typeof message.type !== 'string') return;
+
+    if (this.settleRequest(message)) return;
+
+    if (message.type === 'error') {
+      this.updateStatus({ lastError: message.payload?.message || 'Bridge error' });
+      this.emit('error', message.payload);
+      return;
+    }
+
+    // Broadcasts arrive wrapped: { type: 'real_time_update', payload: { type, subscription, ... } }
+    if (message.type === 'real_time_update' && message.payload?.type) {
+      this.emit(message.payload.type, message.payload);
+      return;
+    }
+
+    if (message.type === 'connection_established') {
+      this.authenticate(message.payload?.authTicket);
+      return;
+    }
+
+    if (CONTROL_MESSAGES.has(message.type)) return;
+
+    this.emit(message.type, message.payload);
+  }
+
+  private emit(event: string, data: any): void {
+    const callbacks = this.listeners.get(event);
+    if (!callbacks) return;
+
+    callbacks.forEach(callback => {
+      try {
+        callback(data);
+      } catch (error) {
+        console.error(`WebSocket: listener for ${event} failed:`, error);
+      }
+    });
+  }
+
+  // =======================
+  // BRIDGE REQUESTS
+  // =======================
+
+  // Ask the bridge for a fresh AI draft following the reviewing doctor's instructions
+  regenerateResponse(request: RegenerateResponseRequest): Promise<RegeneratedResponse> {
+    return this.request<RegeneratedResponse>('regenerate_response', { ...request }, {
+      responseType: 'regenerated_response',
+      timeout: 120000
+    });
+  }
+
+  // =======================
+  // SUBSCRIPTIONS
+  // =======================
+
+  subscribe(event: string, callback: WebSocketEventCallback): () => void {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, new Set());
+    }
+    this.listeners.get(event)!.add(callback);
+
+    return () => {
+      const callbacks = this.listeners.get(event);
+      if (callbacks) {
+        callbacks.delete(callback);
+        if (callbacks.size === 0) {
+          this.listeners.delete(event);
+        }
+      }
+    };
+  }
+
+  subscribeToSystemStats(): void {
+    if (this.systemStatsSubscribed) return;
+    this.systemStatsSubscribed = true;
+    if (this.authenticated) {
+      this.send('subscribe_updates', { systemStats: true });
+    }
+  }
+
+  setUserStatus(status: string): void {
+    this.userStatus = status;
+    this.send('user_status', { status });
+  }
+
+  onStatusChange(listener: StatusListener): () => void {
+    this.statusListeners.add(listener);
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  }
+
+  private updateStatus(changes: Partial<ConnectionStatus>): void {
+    this.status = { ...this.status, ...changes };
+    this.notifyStatusListeners();
+  }
+
+  private notifyStatusListeners(): void {
+    const status = this.getConnectionStatus();
+    this.statusListeners.forEach(listener => listener(this.connected, status));
+  }
+}
+
+// Shared connection used by the dashboards
+const webSocketService = new WebSocketService();
+
+export const useWebSocket = (userId: string, userType: UserType): WebSocketHook => {
+  const [isConnected, setIsConnected] = useState(webSocketService.isConnected());
+  const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>(webSocketService.getConnectionStatus());
+
+  useEffect(() => {
+    const unsubscribe = webSocketService.onStatusChange((connected, status) => {
+      setIsConnected(connected);
+      setConnectionStatus(status);
+    });
+
+    if (userId) {
+      webSocketService.retain(userId, userType).catch(() => {
+        // Reconnection is handled by the service; polling covers the gap
+      });
+    }
+
+    return () => {
+      unsubscribe();
+      if (userId) {
+        webSocketService.release();
+      }
+    };
+  }, [userId, userType]);
+
+  const subscribe = useCallback(
+    (event: string, callback: WebSocketEventCallback) => webSocketService.subscribe(event, callback),
+    []
+  );
+
+  const subscribeToSystemStats = useCallback(() => webSocketService.subscribeToSystemStats(), []);
+
+  const setUserStatus = useCallback((status: string) => webSocketService.setUserStatus(status), []);
+
+  return {
+    isConnected,
+    connectionStatus,
+    subscribe,
+    subscribeToSystemStats,
+    setUserStatus
+  };
 };
 
-export default webSocketService;
\ No newline at end of file
+export default webSocketService;
@@ -30,6 +30,542 @@ export interface MedicalQuery {
   updatedAt: number;
 }
 
+// =======================
+// ENHANCED CANISTER TYPES
+// =======================
+// Domain shapes for the canister's enhanced records (QueryData, PatientData).
+// Convert with services/candidAdapter: optionals are undefined rather than
+// Candid `[] | [T]`, timestamps are epoch milliseconds rather than bigint
+// nanoseconds, and variants are string literals or `kind`-tagged objects.
+
+export type EnhancedQueryStatus =
+  | 'submitted'
+  | 'pending'
+  | 'assigned'
+  | 'in_review'
+  | 'awaiting_patient_response'
+  | 'resolved'
+  | 'closed'
+  | 'escalated';
+
+export type QueryPriority = 'low' | 'normal' | 'high' | 'urgent' | 'emergency';
+
+export type QueryCategoryKind =
+  | 'general_inquiry'
+  | 'symptom_assessment'
+  | 'medication_question'
+  | 'test_results'
+  | 'appointment_request'
+  | 'prescription_refill'
+  | 'follow_up'
+  | 'emergency_consultation'
+  | 'second_opinion';
+
+export type QueryCategory =
+  | { kind: QueryCategoryKind }
+  | { kind: 'other'; label: string };
+
+export type DoctorSpecialtyKind =
+  | 'general_practice'
+  | 'internal_medicine'
+  | 'pediatrics'
+  | 'cardiology'
+  | 'dermatology'
+  | 'endocrinology'
+  | 'gastroenterology'
+  | 'neurology'
+  | 'oncology'
+  | 'orthopedics'
+  | 'psychiatry'
+  | 'radiology'
+  | 'surgery'
+  | 'emergency_medicine';
+
+export type DoctorSpecialty =
+  | { kind: DoctorSpecialtyKind }
+  | { kind: 'other'; label: string };
+
+export type AttachmentType = 'image' | 'document' | 'lab_result' | 'prescription' | 'medical_record';
+
+export type BloodType =
+  | 'A_positive'
+  | 'A_negative'
+  | 'B_positive'
+  | 'B_negative'
+  | 'AB_positive'
+  | 'AB_negative'
+  | 'O_positive'
+  | 'O_negative'
+  | 'unknown';
+
+export type Gender = 'male' | 'female' | 'other' | 'prefer_not_to_say';
+
+export interface AIAnalysis {
+  confidence: number;
+  riskAssessment: string;
+  recommendedActions: string[];
+  flaggedSymptoms: string[];
+  suggestedSpecialty?: DoctorSpecialty;
+  analysisTimestamp: number;
+  modelVersion: string;
+}
+
+export interface Attachment {
+  id: string;
+  fileName: string;
+  fileType: AttachmentType;
+  fileSizeBytes: number;
+  uploadedAt: number;
+  uploadedBy: string;
+  isEncrypted: boolean;
+  accessPermissions: string[];
+}
+
+export interface QueryResponse {
+  id: string;
+  responderId: string;
+  responseText: string;
+  timestamp: number;
+  isOfficial: boolean;
+  attachments: Attachment[];
+  readByPatient: boolean;
+  readTimestamp?: number;
+}
+
+export interface QueryData {
+  id: string;
+  patientId: string;
+  assignedDoctorId?: string;
+  title: string;
+  description: string;
+  category: QueryCategory;
+  priority: QueryPriority;
+  status: EnhancedQueryStatus;
+  aiAnalysis?: AIAnalysis;
+  aiDraftResponse?: string;
+  requiresHumanReview: boolean;
+  responses: QueryResponse[];
+  internalNotes: QueryResponse[];
+  patientMessages: QueryResponse[];
+  attachments: Attachment[];
+  createdAt: number;
+  updatedAt: number;
+  assignedAt?: number;
+  resolvedAt?: number;
+  followUpRequired: boolean;
+  followUpDate?: number;
+  relatedQueryIds: string[];
+  escalationLevel: number;
+  departmentId?: string;
+  responseTimeMinutes?: number;
+  patientSatisfactionRating?: number;
+  resolutionComplexity?: string;
+  hipaaCompliant: boolean;
+  auditTrail: string[];
+  dataClassification: string;
+}
+
+export type TriageUrgency = 'LOW' | 'MEDIUM' | 'HIGH';
+
+// Clinical signals for a pending query; the dashboard ranks its triage queue by these
+export interface TriageAssessment {
+  queryId: string;
+  safetyScore: number; // 0-100, lower is less safe
+  urgency: TriageUrgency;
+  priority: QueryPriority;
+  escalationLevel: number;
+  requiresHumanReview: boolean;
+  source: 'bridge' | 'rules';
+}
+
+// Waiting-time thresholds (minutes from submission) for escalating unclaimed queries
+export interface EscalationPolicy {
+  enabled: boolean;
+  urgencies: TriageUrgency[];
+  raiseLevelAfterMinutes: number;
+  notifyOnCallAfterMinutes: number;
+  patientGuidanceAfterMinutes: number;
+  patientGuidance: string;
+}
+
+export type EscalationStep = 'level_raised' | 'on_call_notified' | 'patient_guidance_sent' | 'claimed';
+
+export interface EscalationEvent {
+  queryId: string;
+  step: EscalationStep;
+  level: number;
+  message: string; // Audit note, or the guidance itself for patient_guidance_sent
+  notifiedDoctorIds: string[];
+  timestamp: number;
+}
+
+// Messages exchanged on a query; internalNotes is always empty in the patient's view
+export interface QueryThread {
+  queryId: string;
+  status: EnhancedQueryStatus;
+  responses: QueryResponse[];
+  patientMessages: QueryResponse[];
+  internalNotes: QueryResponse[];
+}
+
+// An encrypted file on a query. Chunks and the thumbnail are iv || AES-GCM ciphertext under the file's key.
+export interface QueryAttachment {
+  attachment: Attachment;
+  queryId: string;
+  mimeType: string;
+  chunkCount: number;
+  thumbnail?: Uint8Array;
+  complete: boolean;
+}
+
+export interface AttachmentUploadRequest {
+  queryId: string;
+  fileName: string;
+  fileType: AttachmentType;
+  mimeType: string;
+  fileSizeBytes: number;
+  chunkCount: number;
+  fileKey: Uint8Array;
+  thumbnail?: Uint8Array;
+}
+
+export interface PrescribedMedication {
+  name: string;
+  dosage: string;
+  frequency: string;
+  duration: string;
+  instructions: string;
+}
+
+export type InteractionSeverity = 'minor' | 'moderate' | 'major' | 'contraindicated';
+
+// A warning raised by the interaction ruleset, as stored with an overridden prescription
+export interface InteractionFlag {
+  ruleId: string;
+  severity: InteractionSeverity;
+  summary: string;
+}
+
+export interface InteractionOverride {
+  flags: InteractionFlag[];
+  justification: string;
+}
+
+// Issued with a doctor's response; signedBy is the principal of the doctor's Internet Identity
+export interface Prescription {
+  id: string;
+  queryId: string;
+  patientId: string;
+  doctorId: string;
+  doctorName: string;
+  medications: PrescribedMedication[];
+  notes: string;
+  refillOf?: string; // Prescription this one renews
+  issuedAt: number;
+  signedBy: string;
+  interactionOverride?: InteractionOverride;
+}
+
+// Reply templates written by doctors; shared ones are visible to every doctor
+export interface ResponseTemplateInput {
+  name: string;
+  content: string;
+  category?: QueryCategory;
+  shared: boolean;
+}
+
+export interface TemplateVersion {
+  version: number;
+  name: string;
+  content: string;
+  category?: QueryCategory;
+  editedAt: number;
+}
+
+export interface ResponseTemplate extends ResponseTemplateInput {
+  id: string;
+  ownerId: string;
+  ownerName: string;
+  version: number;
+  previousVersions: TemplateVersion[]; // Oldest first
+  usageCount: number;
+  lastUsedAt?: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// A patient's 1-5 star rating of the answer to one of their queries
+export interface QueryFeedback {
+  queryId: string;
+  patientId: string;
+  doctorId: string;
+  specialty: string; // The answering doctor's specialization when rated
+  rating: number;
+  comment: string;
+  submittedAt: number;
+}
+
+export type FeedbackTaskStatus = 'open' | 'resolved';
+
+// Opened for the answering doctor by a low rating
+export interface FeedbackTask {
+  id: string;
+  queryId: string;
+  patientId: string;
+  doctorId: string;
+  rating: number;
+  comment: string;
+  status: FeedbackTaskStatus;
+  createdAt: number;
+  resolvedAt?: number;
+  resolutionNote: string;
+}
+
+export interface RatingSummary {
+  key: string; // Doctor ID or specialty
+  label: string;
+  ratingCount: number;
+  averageRating: number;
+  lowRatingCount: number;
+}
+
+export interface RatingRollup {
+  overall: RatingSummary;
+  byDoctor: RatingSummary[];
+  bySpecialty: RatingSummary[];
+}
+
+// Admin analytics. The canister's placeholder performance and compliance figures are not mapped.
+export interface PlatformStats {
+  totalPatients: number;
+  activePatients: number;
+  newPatientsThisMonth: number;
+  totalDoctors: number;
+  activeDoctors: number;
+  totalQueries: number;
+  pendingQueries: number;
+  inReviewQueries: number;
+  resolvedQueries: number;
+  emergencyQueries: number;
+  queriesByDepartment: Array<[string, number]>; // By the assigned doctor's specialty
+  peakUsageHours: number[]; // UTC hours, busiest first
+  queriesLast24Hours: number;
+  queriesLastWeek: number;
+  queriesLastMonth: number;
+  patientSatisfactionAverage: number;
+  queryResolutionRate: number; // Percent
+  patientEngagementRate: number; // Percent
+  lastUpdated: number;
+  reportingPeriod: string;
+}
+
+export interface QueryActivity {
+  createdAt: number;
+  resolvedAt?: number;
+  specialty: string;
+}
+
+export interface PatientEngagement {
+  registeredPatients: number;
+  patientsWithQueries: number;
+  returningPatients: number; // Two or more queries
+  activeLast30Days: number;
+  answeredQueries: number;
+  ratedAnswers: number;
+}
+
+export interface PlatformAnalytics {
+  stats: PlatformStats;
+  activity: QueryActivity[];
+  doctorsBySpecialty: Array<[string, number]>;
+  engagement: PatientEngagement;
+}
+
+// PHI access audit trail. The canister records one event per read or AI hand-off of a patient's data.
+export type AuditAction = 'view' | 'update' | 'export' | 'ai_processing';
+
+export type AuditResourceKind = 'patient_record' | 'medical_query' | 'attachment' | 'prescription';
+
+export interface AuditActor {
+  principal: string;
+  role?: AccountRole; // Undefined for principals not linked to an account
+  userId?: string;
+  name: string;
+}
+
+export interface AuditEvent {
+  id: string;
+  patientId: string;
+  accessedBy: AuditActor;
+  action: AuditAction;
+  resourceKind: AuditResourceKind;
+  resourceId: string;
+  reason: string;
+  timestamp: number;
+}
+
+export interface AuditFilter {
+  patientId?: string;
+  actorId?: string; // Principal or linked user ID
+  action?: AuditAction;
+  resourceKind?: AuditResourceKind;
+  fromTime?: number;
+  toTime?: number;
+  limit?: number;
+}
+
+// Versioned consent documents and each patient's signed decisions
+export type ConsentKind = 'hipaa_notice' | 'treatment' | 'data_processing' | 'ai_processing';
+
+export interface ConsentDocument {
+  kind: ConsentKind;
+  version: number;
+  title: string;
+  body: string;
+  required: boolean; // Required consents cannot be revoked in the app
+  publishedAt: number;
+}
+
+export type ConsentDecision = 'accepted' | 'revoked';
+
+export interface ConsentRecord {
+  id: string;
+  patientId: string;
+  kind: ConsentKind;
+  documentVersion: number;
+  decision: ConsentDecision;
+  signedBy: string; // Principal of the signer
+  signerName: string;
+  recordedAt: number;
+}
+
+export interface ConsentStatus {
+  document: ConsentDocument; // Current version
+  latest?: ConsentRecord;
+  needsReconsent: boolean; // No decision yet, or the accepted version is out of date
+}
+
+// UI and AI response language; each code has a message catalogue in locales/
+export type Language = 'en' | 'sw';
+
+export interface VitalSigns {
+  bloodPressureSystolic?: number;
+  bloodPressureDiastolic?: number;
+  heartRate?: number;
+  temperature?: number;
+  weight?: number;
+  height?: number;
+  oxygenSaturation?: number;
+  recordedAt: number;
+  recordedBy?: string;
+}
+
+// Diabetes self-monitoring log: glucose in mg/dL, insulin in units, HbA1c in %
+export type GlucoseEntryKind = 'glucose' | 'insulin' | 'hba1c';
+
+export type MealContext = 'fasting' | 'pre_meal' | 'post_meal' | 'bedtime' | 'other';
+
+export interface GlucoseLogEntry {
+  id: string;
+  kind: GlucoseEntryKind;
+  value: number;
+  mealContext?: MealContext; // Glucose readings only
+  insulinType?: string; // Insulin doses only
+  notes?: string;
+  recordedAt: number;
+}
+
+export interface MedicalHistory {
+  conditions: string[];
+  medications: string[];
+  allergies: string[];
+  surgeries: string[];
+  familyHistory: string[];
+  lastUpdated: number;
+}
+
+export interface EmergencyContact {
+  name: string;
+  relationship: string;
+  phoneNumber: string;
+  email?: string;
+  address?: string;
+}
+
+export interface InsuranceInfo {
+  id: string;
+  provider: string;
+  policyNumber: string;
+  groupNumber?: string;
+  memberId: string;
+  effectiveDate: number;
+  expirationDate?: number;
+  copayAmount?: number;
+  deductibleAmount?: number;
+  isActive: boolean;
+}
+
+export interface CommunicationPreferences {
+  email: boolean;
+  sms: boolean;
+  phone: boolean;
+  portal: boolean;
+}
+
+export interface PatientData {
+  id: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+  phoneNumber: string;
+  dateOfBirth: string;
+  gender: Gender;
+  bloodType: BloodType;
+  address: string;
+  city: string;
+  state: string;
+  zipCode: string;
+  country: string;
+  emergencyContact: EmergencyContact;
+  medicalHistory: MedicalHistory;
+  currentVitals?: VitalSigns;
+  insuranceInfo?: InsuranceInfo;
+  primaryDoctorId?: string;
+  assignedDoctorIds: string[];
+  medicalRecordNumber: string;
+  isActive: boolean;
+  createdAt: number;
+  updatedAt: number;
+  lastVisit?: number;
+  consentToTreatment: boolean;
+  hipaaAcknowledged: boolean;
+  dataProcessingConsent: boolean;
+  communicationPreferences: CommunicationPreferences;
+}
+
+export interface QuerySearchCriteria {
+  patientId?: string;
+  doctorId?: string;
+  status?: EnhancedQueryStatus;
+  priority?: QueryPriority;
+  category?: QueryCategory;
+  specialty?: DoctorSpecialty;
+  department?: string;
+  dateFrom?: number;
+  dateTo?: number;
+  searchQuery?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface QuerySearchResult {
+  results: QueryData[];
+  totalCount: number;
+  hasMore: boolean;
+  offset: number;
+  criteria: QuerySearchCriteria;
+}
+
 export interface SystemStats {
   totalPatients: number;
   totalDoctors: number;
@@ -61,6 +597,66 @@ export interface ViewState {
 
 export type UserType = 'patient' | 'doctor';
 
+export type AccountRole = UserType | 'admin' | 'compliance_officer';
+
+// Internet Identity principal linked to a patient or doctor account
+export interface PrincipalLink {
+  role: AccountRole;
+  userId: string;
+  linkedAt: number;
+}
+
+// One-time code an administrator issues so an account's owner can link their identity
+export interface LinkCode {
+  role: AccountRole;
+  userId: string;
+  code: string;
+  issuedBy: string;
+  issuedAt: number;
+  expiresAt: number;
+}
+
+// Saved versions of a doctor's draft reply to a query
+export type DraftSource = 'doctor' | 'ai_regenerated';
+
+export interface DraftVersion {
+  version: number;
+  text: string;
+  source: DraftSource;
+  savedAt: number;
+  instructions?: string; // Regeneration instructions given to the AI
+}
+
+export interface DraftHistory {
+  queryId: string;
+  doctorId: string;
+  versions: DraftVersion[];
+}
+
+// Vital sign metrics charted over time; BMI is derived from weight and height
+export type VitalMetric =
+  | 'bloodPressureSystolic'
+  | 'bloodPressureDiastolic'
+  | 'heartRate'
+  | 'oxygenSaturation'
+  | 'temperature'
+  | 'weight'
+  | 'bmi';
+
+// Either bound may be left open, e.g. SpO2 has no upper limit of concern
+export interface NormalRange {
+  min?: number;
+  max?: number;
+}
+
+export type NormalRanges = Record<VitalMetric, NormalRange>;
+
+export interface VitalTrendPoint {
+  recordedAt: number;
+  value: number;
+  outOfRange: boolean;
+}
+
 // Base component props interface for consistent prop handling
 export interface BaseComponentProps {
   showMessage?: (message: string, type?: 'success' | 'error' | 'info' | 'warning') => void;
@@ -0,0 +1,77 @@
+// Tests for the admin analytics aggregations
+import { QueryActivity } from '../types';
+import {
+  dailyVolume,
+  engagementRates,
+  resolutionDistribution,
+  specialtyLoad,
+  toCsv,
+  usageHeatmap
+} from './analytics';
+
+const HOUR_MS = 60 * 60 * 1000;
+// Wednesday 17 January 2024, 10:30 local time
+const NOW = new Date(2024, 0, 17, 10, 30).getTime();
+
+const activity = (hoursAgo: number, resolvedAfterHours: number | null, specialty = 'Endocrinology'): QueryActivity => ({
+  createdAt: NOW - hoursAgo * HOUR_MS,
+  resolvedAt: resolvedAfterHours === null ? undefined : NOW - hoursAgo * HOUR_MS + resolvedAfterHours * HOUR_MS,
+  specialty
+});
+
+describe('analytics', () => {
+  it('counts submitted and resolved queries per day, including empty days', () => {
+    const volume = dailyVolume([activity(1, null), activity(26, 2), activity(27, 30), activity(24 * 10, 1)], 3, NOW);
+
+    expect(volume.map(day => new Date(day.dayStart).getDate())).toEqual([15, 16, 17]);
+    expect(volume.map(day => day.submitted)).toEqual([0, 2, 1]);
+    expect(volume.map(day => day.resolved)).toEqual([0, 1, 1]);
+  });
+
+  it('buckets resolution times and skips open queries', () => {
+    const counts = resolutionDistribution([activity(5, 0.5), activity(5, 3), activity(80, 80), activity(1, null)])
+      .map(bucket => bucket.count);
+    expect(counts).toEqual([1, 1, 0, 0, 0, 1]);
+  });
+
+  it('reports load per specialty, including specialties without queries', () => {
+    const load = specialtyLoad(
+      [activity(1, null), activity(2, 1), activity(3, 3), activity(4, null, 'Unassigned')],
+      [['Endocrinology', 2], ['Cardiology', 1]]
+    );
+
+    expect(load.map(row => row.specialty)).toEqual(['Endocrinology', 'Unassigned', 'Cardiology']);
+    expect(load[0]).toEqual({
+      specialty: 'Endocrinology',
+      queries: 3,
+      open: 1,
+      doctors: 2,
+      queriesPerDoctor: 1.5,
+      medianResolutionHours: 2
+    });
+    expect(load[1].queriesPerDoctor).toBeNull();
+    expect(load[2].queries).toBe(0);
+  });
+
+  it('places queries on a Monday-first weekday by hour grid', () => {
+    const grid = usageHeatmap([activity(0, null), activity(0, null), activity(48, null)]);
+    expect(grid[2][10]).toBe(2);
+    expect(grid[0][10]).toBe(1);
+  });
+
+  it('rates engagement against registered patients and answered queries', () => {
+    expect(engagementRates({
+      registeredPatients: 8,
+      patientsWithQueries: 6,
+      returningPatients: 3,
+      activeLast30Days: 0,
+      answeredQueries: 0,
+      ratedAnswers: 0
+    })).toEqual({ withQueries: 75, returning: 37.5, activeLast30Days: 0, rated: 0 });
+  });
+
+  it('quotes CSV cells that need it', () => {
+    expect(toCsv(['name', 'count'], [['Ear, nose "and" throat', 2], ['General', null]]))
+      .toBe('name,count\r\n"Ear, nose ""and"" throat",2\r\nGeneral,');
+  });
+});
@@ -0,0 +1,215 @@
+// Admin analytics: query volume, resolution times, specialty load and usage heatmap from the canister's query activity
+import { PatientEngagement, QueryActivity } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+export const WEEKDAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+const localMidnight = (time: number): number => {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+export interface DailyVolume {
+  dayStart: number;
+  submitted: number;
+  resolved: number;
+}
+
+// Queries submitted and resolved per local day over the last `days` days, oldest first, including empty days
+export const dailyVolume = (activity: QueryActivity[], days: number, now: number = Date.now()): DailyVolume[] => {
+  const today = localMidnight(now);
+  const volume: DailyVolume[] = [];
+  for (let offset = days - 1; offset >= 0; offset--) {
+    // Step back through calendar days so DST changes don't shift the buckets
+    const day = new Date(today);
+    day.setDate(day.getDate() - offset);
+    volume.push({ dayStart: day.getTime(), submitted: 0, resolved: 0 });
+  }
+
+  const indexOf = (time: number) => {
+    const start = localMidnight(time);
+    for (let i = 0; i < volume.length; i++) {
+      if (volume[i].dayStart === start) return i;
+    }
+    return -1;
+  };
+  activity.forEach(item => {
+    const created = indexOf(item.createdAt);
+    if (created !== -1) volume[created].submitted += 1;
+    if (item.resolvedAt !== undefined) {
+      const resolved = indexOf(item.resolvedAt);
+      if (resolved !== -1) volume[resolved].resolved += 1;
+    }
+  });
+  return volume;
+};
+
+export const resolutionHours = (item: QueryActivity): number | undefined =>
+  item.resolvedAt === undefined ? undefined : Math.max(0, item.resolvedAt - item.createdAt) / HOUR_MS;
+
+export const RESOLUTION_BUCKETS: Array<{ label: string; maxHours: number }> = [
+  { label: 'Under 1 hour', maxHours: 1 },
+  { label: '1-4 hours', maxHours: 4 },
+  { label: '4-12 hours', maxHours: 12 },
+  { label: '12-24 hours', maxHours: 24 },
+  { label: '1-3 days', maxHours: 72 },
+  { label: 'Over 3 days', maxHours: Infinity }
+];
+
+export interface ResolutionBucket {
+  label: string;
+  count: number;
+}
+
+export const resolutionDistribution = (activity: QueryActivity[]): ResolutionBucket[] => {
+  const buckets = RESOLUTION_BUCKETS.map(bucket => ({ label: bucket.label, count: 0 }));
+  activity.forEach(item => {
+    const hours = resolutionHours(item);
+    if (hours === undefined) return;
+    for (let i = 0; i < RESOLUTION_BUCKETS.length; i++) {
+      if (hours < RESOLUTION_BUCKETS[i].maxHours) {
+        buckets[i].count += 1;
+        return;
+      }
+    }
+  });
+  return buckets;
+};
+
+export const medianResolutionHours = (activity: QueryActivity[]): number | null => {
+  const hours = activity
+    .map(resolutionHours)
+    .filter((value): value is number => value !== undefined)
+    .sort((a, b) => a - b);
+  if (hours.length === 0) return null;
+  const middle = Math.floor(hours.length / 2);
+  return hours.length % 2 === 1 ? hours[middle] : (hours[middle - 1] + hours[middle]) / 2;
+};
+
+export interface SpecialtyLoad {
+  specialty: string;
+  queries: number;
+  open: number;
+  doctors: number;
+  queriesPerDoctor: number | null; // Null for specialties without doctors, such as "Unassigned"
+  medianResolutionHours: number | null;
+}
+
+// Busiest specialty first
+export const specialtyLoad = (activity: QueryActivity[], doctorsBySpecialty: Array<[string, number]>): SpecialtyLoad[] => {
+  const bySpecialty: { [specialty: string]: QueryActivity[] } = {};
+  activity.forEach(item => {
+    (bySpecialty[item.specialty] = bySpecialty[item.specialty] || []).push(item);
+  });
+  const doctorCounts: { [specialty: string]: number } = {};
+  doctorsBySpecialty.forEach(([specialty, count]) => {
+    doctorCounts[specialty] = count;
+    bySpecialty[specialty] = bySpecialty[specialty] || [];
+  });
+
+  return Object.keys(bySpecialty)
+    .map(specialty => {
+      const items = bySpecialty[specialty];
+      const doctors = doctorCounts[specialty] || 0;
+      return {
+        specialty,
+        queries: items.length,
+        open: items.filter(item => item.resolvedAt === undefined).length,
+        doctors,
+        queriesPerDoctor: doctors > 0 ? Math.round((items.length / doctors) * 10) / 10 : null,
+        medianResolutionHours: medianResolutionHours(items)
+      };
+    })
+    .sort((a, b) => b.queries - a.queries || a.specialty.localeCompare(b.specialty));
+};
+
+// Queries submitted per local weekday (Monday first) and hour of day
+export const usageHeatmap = (activity: QueryActivity[]): number[][] => {
+  const grid = WEEKDAY_LABELS.map(() => new Array<number>(24).fill(0));
+  activity.forEach(item => {
+    const date = new Date(item.createdAt);
+    grid[(date.getDay() + 6) % 7][date.getHours()] += 1;
+  });
+  return grid;
+};
+
+export const percentage = (part: number, whole: number): number =>
+  whole === 0 ? 0 : Math.round((part / whole) * 1000) / 10;
+
+export interface EngagementRates {
+  withQueries: number;
+  returning: number;
+  activeLast30Days: number;
+  rated: number;
+}
+
+// Patients as a share of registered patients; rated answers as a share of answered queries
+export const engagementRates = (engagement: PatientEngagement): EngagementRates => ({
+  withQueries: percentage(engagement.patientsWithQueries, engagement.registeredPatients),
+  returning: percentage(engagement.returningPatients, engagement.registeredPatients),
+  activeLast30Days: percentage(engagement.activeLast30Days, engagement.registeredPatients),
+  rated: percentage(engagement.ratedAnswers, engagement.answeredQueries)
+});
+
+const csvCell = (value: string | number | null): string => {
+  const text = value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (header: string[], rows: Array<Array<string | number | null>>): string =>
+  [header].concat(rows as string[][]).map(row => row.map(csvCell).join(',')).join('\r\n');
+
+export const downloadCsv = (fileName: string, csv: string) => {
+  const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const isoDay = (time: number): string => {
+  const date = new Date(time);
+  const pad = (n: number) => (n < 10 ? `0${n}` : String(n));
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+export const dailyVolumeCsv = (volume: DailyVolume[]): string =>
+  toCsv(['date', 'submitted', 'resolved'], volume.map(day => [isoDay(day.dayStart), day.submitted, day.resolved]));
+
+export const resolutionCsv = (buckets: ResolutionBucket[]): string =>
+  toCsv(['resolution_time', 'queries'], buckets.map(bucket => [bucket.label, bucket.count]));
+
+export const specialtyLoadCsv = (load: SpecialtyLoad[]): string =>
+  toCsv(
+    ['specialty', 'queries', 'open', 'doctors', 'queries_per_doctor', 'median_resolution_hours'],
+    load.map(row => [
+      row.specialty,
+      row.queries,
+      row.open,
+      row.doctors,
+      row.queriesPerDoctor,
+      row.medianResolutionHours === null ? null : Math.round(row.medianResolutionHours * 10) / 10
+    ])
+  );
+
+export const usageHeatmapCsv = (grid: number[][]): string =>
+  toCsv(
+    ['weekday'].concat(grid[0].map((_, hour) => `${hour}:00`)),
+    grid.map((row, day) => [WEEKDAY_LABELS[day] as string | number].concat(row))
+  );
+
+export const engagementCsv = (engagement: PatientEngagement): string => {
+  const rates = engagementRates(engagement);
+  return toCsv(['metric', 'count', 'percent'], [
+    ['Registered patients', engagement.registeredPatients, null],
+    ['Patients with queries', engagement.patientsWithQueries, rates.withQueries],
+    ['Returning patients', engagement.returningPatients, rates.returning],
+    ['Active in the last 30 days', engagement.activeLast30Days, rates.activeLast30Days],
+    ['Answered queries', engagement.answeredQueries, null],
+    ['Rated answers', engagement.ratedAnswers, rates.rated]
+  ]);
+};
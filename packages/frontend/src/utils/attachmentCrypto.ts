@@ -0,0 +1,63 @@
+/**
+ * TrustCare Connect - Attachment Encryption
+ * Files are encrypted in the browser with their own AES-GCM key before upload
+ */
+
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+
+const getSubtle = (): SubtleCrypto => {
+  if (typeof crypto === 'undefined' || !crypto.subtle) {
+    throw new Error('WebCrypto is not available in this environment');
+  }
+  return crypto.subtle;
+};
+
+/**
+ * Random raw key for one file; the canister keeps it for the file's readers
+ */
+export const generateFileKey = () => crypto.getRandomValues(new Uint8Array(KEY_BYTES));
+
+// WebCrypto takes ArrayBuffer-backed views only; slice() copies a view into one
+export const importFileKey = (raw: Uint8Array): Promise<CryptoKey> =>
+  getSubtle().importKey('raw', raw.slice(), 'AES-GCM', false, ['encrypt', 'decrypt']);
+
+/**
+ * Additional data for a chunk, so chunks of one file cannot be reordered
+ */
+export const chunkAssociatedData = (index: number) => `chunk:${index}`;
+
+export const THUMBNAIL_ASSOCIATED_DATA = 'thumbnail';
+
+/**
+ * Encrypt bytes into iv || ciphertext, the layout the canister stores
+ */
+export const encryptBytes = async (key: CryptoKey, plaintext: Uint8Array, associatedData: string): Promise<Uint8Array> => {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const ciphertext = new Uint8Array(await getSubtle().encrypt(
+    { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(associatedData) },
+    key,
+    plaintext.slice()
+  ));
+
+  const sealed = new Uint8Array(IV_BYTES + ciphertext.length);
+  sealed.set(iv);
+  sealed.set(ciphertext, IV_BYTES);
+  return sealed;
+};
+
+/**
+ * Decrypt bytes produced by encryptBytes. Rejects if the key, associated
+ * data or ciphertext do not match.
+ */
+export const decryptBytes = async (key: CryptoKey, sealed: Uint8Array, associatedData: string): Promise<ArrayBuffer> => {
+  if (sealed.length <= IV_BYTES) {
+    throw new Error('Malformed encrypted chunk');
+  }
+
+  return getSubtle().decrypt(
+    { name: 'AES-GCM', iv: sealed.slice(0, IV_BYTES), additionalData: new TextEncoder().encode(associatedData) },
+    key,
+    sealed.slice(IV_BYTES)
+  );
+};
@@ -0,0 +1,158 @@
+// Tests for encrypted chunked attachments, using Node's WebCrypto in place of the browser's
+import { webcrypto } from 'crypto';
+import { TextDecoder, TextEncoder } from 'util';
+import { ApiResponse, AttachmentUploadRequest, QueryAttachment } from '../types';
+import {
+  ATTACHMENT_CHUNK_BYTES,
+  AttachmentSource,
+  AttachmentUploadTarget,
+  chunkCountFor,
+  downloadAttachment,
+  splitIntoChunks,
+  suggestAttachmentType,
+  uploadAttachment,
+  validateAttachmentFile
+} from './attachments';
+
+// jsdom has neither crypto.subtle nor TextEncoder
+Object.defineProperty(globalThis, 'crypto', { value: webcrypto, configurable: true });
+Object.assign(globalThis, { TextEncoder, TextDecoder });
+
+const readBlob = (blob: Blob): Promise<Uint8Array> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+
+// In-memory stand-in for the canister, enforcing accessPermissions like the real one
+class FakeCanister implements AttachmentUploadTarget, AttachmentSource {
+  stored: { info: QueryAttachment; key: Uint8Array; chunks: Uint8Array[] } | undefined;
+  failNextChunk = false;
+
+  constructor(private caller: string) {}
+
+  actAs(caller: string) {
+    this.caller = caller;
+  }
+
+  async beginAttachmentUpload(request: AttachmentUploadRequest): Promise<ApiResponse<QueryAttachment>> {
+    const info: QueryAttachment = {
+      attachment: {
+        id: 'attachment_1',
+        fileName: request.fileName,
+        fileType: request.fileType,
+        fileSizeBytes: request.fileSizeBytes,
+        uploadedAt: 0,
+        uploadedBy: this.caller,
+        isEncrypted: true,
+        accessPermissions: [this.caller, 'doctor_1']
+      },
+      queryId: request.queryId,
+      mimeType: request.mimeType,
+      chunkCount: request.chunkCount,
+      thumbnail: request.thumbnail,
+      complete: false
+    };
+    this.stored = { info, key: request.fileKey, chunks: [] };
+    return { success: true, data: info };
+  }
+
+  async uploadAttachmentChunk(_attachmentId: string, index: number, data: Uint8Array): Promise<ApiResponse<void>> {
+    if (this.failNextChunk) {
+      this.failNextChunk = false;
+      return { success: false, error: 'Network error' };
+    }
+    if (this.stored && index === this.stored.chunks.length) {
+      this.stored.chunks.push(data);
+    }
+    return { success: true };
+  }
+
+  async finishAttachmentUpload(): Promise<ApiResponse<QueryAttachment>> {
+    if (!this.stored) return { success: false, error: 'Attachment not found' };
+    this.stored.info = { ...this.stored.info, complete: true };
+    return { success: true, data: this.stored.info };
+  }
+
+  private readable() {
+    return this.stored && this.stored.info.attachment.accessPermissions.indexOf(this.caller) !== -1;
+  }
+
+  async getAttachmentKey(): Promise<ApiResponse<Uint8Array>> {
+    return this.readable() && this.stored
+      ? { success: true, data: this.stored.key }
+      : { success: false, error: 'You do not have access to this attachment' };
+  }
+
+  async getAttachmentChunk(_attachmentId: string, index: number): Promise<ApiResponse<Uint8Array>> {
+    return this.readable() && this.stored
+      ? { success: true, data: this.stored.chunks[index] }
+      : { success: false, error: 'You do not have access to this attachment' };
+  }
+}
+
+const fileBytes = (size: number) => {
+  const bytes = new Uint8Array(size);
+  for (let i = 0; i < size; i++) bytes[i] = i % 251;
+  return bytes;
+};
+
+describe('attachments', () => {
+  it('splits files into chunks the canister accepts', () => {
+    const chunks = splitIntoChunks(fileBytes(10), 4);
+    expect(chunks.map(chunk => chunk.length)).toEqual([4, 4, 2]);
+    expect(chunkCountFor(ATTACHMENT_CHUNK_BYTES + 1)).toBe(2);
+  });
+
+  it('accepts photos and PDFs up to 10 MB', () => {
+    expect(validateAttachmentFile({ name: 'foot.jpg', size: 2000, type: 'image/jpeg' })).toBeUndefined();
+    expect(validateAttachmentFile({ name: 'notes.docx', size: 2000, type: 'application/msword' })).toContain('only photos');
+    expect(validateAttachmentFile({ name: 'scan.pdf', size: 11 * 1024 * 1024, type: 'application/pdf' })).toContain('10 MB');
+    expect(suggestAttachmentType('application/pdf')).toBe('lab_result');
+  });
+
+  it('uploads encrypted chunks and decrypts them for a permitted reader', async () => {
+    const canister = new FakeCanister('patient_1');
+    const original = fileBytes(ATTACHMENT_CHUNK_BYTES + 500);
+    const progress: number[] = [];
+    canister.failNextChunk = true;
+
+    const uploaded = await uploadAttachment(canister, {
+      queryId: 'query_1',
+      fileName: 'hba1c.pdf',
+      fileType: 'lab_result',
+      mimeType: 'application/pdf',
+      bytes: original
+    }, fraction => progress.push(fraction));
+
+    expect(uploaded.complete).toBe(true);
+    expect(uploaded.chunkCount).toBe(2);
+    expect(progress).toEqual([0.5, 1]);
+    // Nothing stored on the canister is plaintext
+    expect(canister.stored?.chunks[1].slice(12, 62)).not.toEqual(original.slice(ATTACHMENT_CHUNK_BYTES, ATTACHMENT_CHUNK_BYTES + 50));
+
+    canister.actAs('doctor_1');
+    const downloaded = await readBlob(await downloadAttachment(canister, uploaded));
+    expect(downloaded).toEqual(original);
+  });
+
+  it('refuses readers outside accessPermissions and rejects reordered chunks', async () => {
+    const canister = new FakeCanister('patient_1');
+    const uploaded = await uploadAttachment(canister, {
+      queryId: 'query_1',
+      fileName: 'rash.png',
+      fileType: 'image',
+      mimeType: 'image/png',
+      bytes: fileBytes(ATTACHMENT_CHUNK_BYTES * 2)
+    });
+
+    canister.actAs('doctor_2');
+    await expect(downloadAttachment(canister, uploaded)).rejects.toThrow('do not have access');
+
+    canister.actAs('patient_1');
+    canister.stored?.chunks.reverse();
+    await expect(downloadAttachment(canister, uploaded)).rejects.toThrow();
+  });
+});
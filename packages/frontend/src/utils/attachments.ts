@@ -0,0 +1,162 @@
+// Query attachment helpers: file rules, chunking, and the encrypted upload and download flows
+import { ApiResponse, AttachmentType, AttachmentUploadRequest, QueryAttachment } from '../types';
+import {
+  chunkAssociatedData,
+  decryptBytes,
+  encryptBytes,
+  generateFileKey,
+  importFileKey,
+  THUMBNAIL_ASSOCIATED_DATA
+} from './attachmentCrypto';
+
+// Must match the canister: one plaintext chunk plus its IV and GCM tag fits a single ingress message
+export const ATTACHMENT_CHUNK_BYTES = 1024 * 1024;
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+const ALLOWED_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif', 'application/pdf'];
+const CHUNK_ATTEMPTS = 3;
+
+export const ATTACHMENT_TYPE_LABELS: Record<AttachmentType, string> = {
+  image: 'Photo',
+  document: 'Document',
+  lab_result: 'Lab result',
+  prescription: 'Prescription',
+  medical_record: 'Medical record'
+};
+
+export type PreviewKind = 'image' | 'pdf';
+
+export const previewKind = (mimeType: string): PreviewKind | undefined => {
+  if (mimeType.indexOf('image/') === 0) return 'image';
+  if (mimeType === 'application/pdf') return 'pdf';
+  return undefined;
+};
+
+// PDFs from patients with diabetes are mostly lab reports; the patient can change the type before uploading
+export const suggestAttachmentType = (mimeType: string): AttachmentType =>
+  previewKind(mimeType) === 'image' ? 'image' : previewKind(mimeType) === 'pdf' ? 'lab_result' : 'document';
+
+export const validateAttachmentFile = (file: { name: string; size: number; type: string }): string | undefined => {
+  if (ALLOWED_MIME_TYPES.indexOf(file.type) === -1) {
+    return `${file.name}: only photos (JPEG, PNG, WebP, GIF) and PDF files can be attached`;
+  }
+  if (file.size === 0) {
+    return `${file.name} is empty`;
+  }
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    return `${file.name} is larger than 10 MB`;
+  }
+  return undefined;
+};
+
+export const chunkCountFor = (sizeBytes: number): number => Math.ceil(sizeBytes / ATTACHMENT_CHUNK_BYTES);
+
+export const splitIntoChunks = (bytes: Uint8Array, chunkBytes: number = ATTACHMENT_CHUNK_BYTES): Uint8Array[] => {
+  const chunks: Uint8Array[] = [];
+  for (let offset = 0; offset < bytes.length; offset += chunkBytes) {
+    chunks.push(bytes.subarray(offset, offset + chunkBytes));
+  }
+  return chunks;
+};
+
+export const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// =======================
+// TRANSFER
+// =======================
+
+// Satisfied by icpService for patients and trustCareAPI for doctors
+export interface AttachmentSource {
+  getAttachmentKey(attachmentId: string): Promise<ApiResponse<Uint8Array>>;
+  getAttachmentChunk(attachmentId: string, index: number): Promise<ApiResponse<Uint8Array>>;
+}
+
+export interface AttachmentUploadTarget {
+  beginAttachmentUpload(request: AttachmentUploadRequest): Promise<ApiResponse<QueryAttachment>>;
+  uploadAttachmentChunk(attachmentId: string, index: number, data: Uint8Array): Promise<ApiResponse<void>>;
+  finishAttachmentUpload(attachmentId: string): Promise<ApiResponse<QueryAttachment>>;
+}
+
+export interface AttachmentFile {
+  queryId: string;
+  fileName: string;
+  fileType: AttachmentType;
+  mimeType: string;
+  bytes: Uint8Array;
+  thumbnail?: Uint8Array; // Plaintext preview, encrypted here with the file
+}
+
+const unwrap = <T>(response: ApiResponse<T>, operation: string): T => {
+  if (!response.success || response.data === undefined) {
+    throw new Error(response.error || `Failed to ${operation}`);
+  }
+  return response.data;
+};
+
+/**
+ * Encrypt a file and upload it chunk by chunk. onProgress receives the
+ * fraction of chunks stored so far.
+ */
+export const uploadAttachment = async (
+  target: AttachmentUploadTarget,
+  file: AttachmentFile,
+  onProgress?: (fraction: number) => void
+): Promise<QueryAttachment> => {
+  const rawKey = generateFileKey();
+  const key = await importFileKey(rawKey);
+  const chunks = splitIntoChunks(file.bytes);
+
+  const started = unwrap(await target.beginAttachmentUpload({
+    queryId: file.queryId,
+    fileName: file.fileName,
+    fileType: file.fileType,
+    mimeType: file.mimeType,
+    fileSizeBytes: file.bytes.length,
+    chunkCount: chunks.length,
+    fileKey: rawKey,
+    thumbnail: file.thumbnail ? await encryptBytes(key, file.thumbnail, THUMBNAIL_ASSOCIATED_DATA) : undefined
+  }), 'start upload');
+  const attachmentId = started.attachment.id;
+
+  for (let index = 0; index < chunks.length; index++) {
+    const sealed = await encryptBytes(key, chunks[index], chunkAssociatedData(index));
+    // The canister ignores a chunk it already has, so a failed call is safe to repeat
+    let result: ApiResponse<void> = { success: false };
+    for (let attempt = 0; attempt < CHUNK_ATTEMPTS && !result.success; attempt++) {
+      result = await target.uploadAttachmentChunk(attachmentId, index, sealed);
+    }
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to upload file');
+    }
+    onProgress?.((index + 1) / chunks.length);
+  }
+
+  return unwrap(await target.finishAttachmentUpload(attachmentId), 'finish upload');
+};
+
+/**
+ * Fetch and decrypt every chunk. Rejects if the caller is not in the
+ * attachment's accessPermissions.
+ */
+export const downloadAttachment = async (source: AttachmentSource, attachment: QueryAttachment): Promise<Blob> => {
+  const attachmentId = attachment.attachment.id;
+  const key = await importFileKey(unwrap(await source.getAttachmentKey(attachmentId), 'get file key'));
+
+  const parts: ArrayBuffer[] = [];
+  for (let index = 0; index < attachment.chunkCount; index++) {
+    const sealed = unwrap(await source.getAttachmentChunk(attachmentId, index), 'download file');
+    parts.push(await decryptBytes(key, sealed, chunkAssociatedData(index)));
+  }
+
+  return new Blob(parts, { type: attachment.mimeType });
+};
+
+export const decryptThumbnail = async (source: AttachmentSource, attachment: QueryAttachment): Promise<Blob | undefined> => {
+  if (!attachment.thumbnail) return undefined;
+  const key = await importFileKey(unwrap(await source.getAttachmentKey(attachment.attachment.id), 'get file key'));
+  return new Blob([await decryptBytes(key, attachment.thumbnail, THUMBNAIL_ASSOCIATED_DATA)], { type: 'image/jpeg' });
+};
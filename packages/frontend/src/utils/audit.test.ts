@@ -0,0 +1,64 @@
+// Tests for the PHI audit trail helpers
+import { AuditEvent } from '../types';
+import { auditEventsCsv, matchesAuditSearch, summarizeAccessors } from './audit';
+
+const AT = Date.UTC(2024, 0, 15, 10, 30);
+
+const event = (overrides: Partial<AuditEvent> = {}, minutesLater = 0): AuditEvent => ({
+  id: `audit_${minutesLater}`,
+  patientId: 'patient_1',
+  accessedBy: { principal: 'aaaaa-aa', role: 'doctor', userId: 'doctor_1', name: 'Dr. Amina Otieno' },
+  action: 'view',
+  resourceKind: 'medical_query',
+  resourceId: 'query_1',
+  reason: 'Treating doctor',
+  timestamp: AT + minutesLater * 60 * 1000,
+  ...overrides
+});
+
+describe('audit', () => {
+  it('summarizes third-party access per person, most recent first', () => {
+    const own = event({
+      accessedBy: { principal: 'bbbbb-bb', role: 'patient', userId: 'patient_1', name: 'Sarah Wanjiku' },
+      reason: "Patient's own access"
+    }, 90);
+    const admin = event({
+      accessedBy: { principal: 'ccccc-cc', role: 'admin', userId: 'admin_1', name: 'Administrator' },
+      reason: 'Platform administration'
+    }, 30);
+
+    const summary = summarizeAccessors([event({}, 0), own, admin, event({ reason: 'Doctor outside the care relationship' }, 60)]);
+
+    expect(summary.map(row => row.key)).toEqual(['doctor_1', 'admin_1']);
+    expect(summary[0]).toEqual({
+      key: 'doctor_1',
+      name: 'Dr. Amina Otieno',
+      roleLabel: 'Doctor',
+      accessCount: 2,
+      lastAccessAt: AT + 60 * 60 * 1000,
+      reasons: ['Treating doctor', 'Doctor outside the care relationship']
+    });
+  });
+
+  it('keys unlinked identities by principal', () => {
+    const summary = summarizeAccessors([
+      event({ accessedBy: { principal: '2vxsx-fae', name: 'Anonymous caller' }, reason: 'Identity not linked to an account' })
+    ]);
+    expect(summary[0].key).toBe('2vxsx-fae');
+    expect(summary[0].roleLabel).toBe('Unlinked identity');
+  });
+
+  it('searches actor, patient, resource and reason text', () => {
+    expect(matchesAuditSearch(event(), 'otieno')).toBe(true);
+    expect(matchesAuditSearch(event(), 'QUERY_1')).toBe(true);
+    expect(matchesAuditSearch(event(), 'cardiology')).toBe(false);
+    expect(matchesAuditSearch(event(), '  ')).toBe(true);
+  });
+
+  it('exports one CSV row per event', () => {
+    expect(auditEventsCsv([event()]).split('\r\n')).toEqual([
+      'timestamp,patient_id,actor_name,actor_role,actor_user_id,actor_principal,action,resource_kind,resource_id,reason',
+      '2024-01-15T10:30:00.000Z,patient_1,Dr. Amina Otieno,doctor,doctor_1,aaaaa-aa,view,medical_query,query_1,Treating doctor'
+    ]);
+  });
+});
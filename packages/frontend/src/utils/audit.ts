@@ -0,0 +1,93 @@
+// PHI audit trail helpers: labels, the patient's "who viewed my data" summary and the compliance explorer's CSV export
+import { AccountRole, AuditAction, AuditEvent, AuditResourceKind } from '../types';
+import { toCsv } from './analytics';
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  view: 'Viewed',
+  update: 'Updated',
+  export: 'Exported',
+  ai_processing: 'Shared with AI assistant'
+};
+
+export const AUDIT_RESOURCE_LABELS: Record<AuditResourceKind, string> = {
+  patient_record: 'Health record',
+  medical_query: 'Medical query',
+  attachment: 'Attachment',
+  prescription: 'Prescription'
+};
+
+export const ACCOUNT_ROLE_LABELS: Record<AccountRole, string> = {
+  patient: 'Patient',
+  doctor: 'Doctor',
+  admin: 'Administrator',
+  compliance_officer: 'Compliance officer'
+};
+
+export const actorRoleLabel = (event: AuditEvent): string =>
+  event.accessedBy.role ? ACCOUNT_ROLE_LABELS[event.accessedBy.role] : 'Unlinked identity';
+
+// Anyone other than the patient themself
+export const isThirdPartyAccess = (event: AuditEvent): boolean =>
+  !(event.accessedBy.role === 'patient' && event.accessedBy.userId === event.patientId);
+
+export interface AccessorSummary {
+  key: string; // Linked user ID, or the principal for unlinked identities
+  name: string;
+  roleLabel: string;
+  accessCount: number;
+  lastAccessAt: number;
+  reasons: string[];
+}
+
+// One row per person who accessed the patient's data, most recent first; the patient's own access is left out
+export const summarizeAccessors = (events: AuditEvent[]): AccessorSummary[] => {
+  const byKey: { [key: string]: AccessorSummary } = {};
+  events.filter(isThirdPartyAccess).forEach(event => {
+    const key = event.accessedBy.userId || event.accessedBy.principal;
+    const summary = byKey[key] || (byKey[key] = {
+      key,
+      name: event.accessedBy.name,
+      roleLabel: actorRoleLabel(event),
+      accessCount: 0,
+      lastAccessAt: 0,
+      reasons: []
+    });
+    summary.accessCount += 1;
+    summary.lastAccessAt = Math.max(summary.lastAccessAt, event.timestamp);
+    if (summary.reasons.indexOf(event.reason) === -1) summary.reasons.push(event.reason);
+  });
+  return Object.keys(byKey)
+    .map(key => byKey[key])
+    .sort((a, b) => b.lastAccessAt - a.lastAccessAt);
+};
+
+// Case-insensitive match on the actor, patient, resource and reason; the canister filters everything else
+export const matchesAuditSearch = (event: AuditEvent, search: string): boolean => {
+  const needle = search.trim().toLowerCase();
+  if (!needle) return true;
+  return [
+    event.accessedBy.name,
+    event.accessedBy.principal,
+    event.accessedBy.userId || '',
+    event.patientId,
+    event.resourceId,
+    event.reason
+  ].some(value => value.toLowerCase().indexOf(needle) !== -1);
+};
+
+export const auditEventsCsv = (events: AuditEvent[]): string =>
+  toCsv(
+    ['timestamp', 'patient_id', 'actor_name', 'actor_role', 'actor_user_id', 'actor_principal', 'action', 'resource_kind', 'resource_id', 'reason'],
+    events.map(event => [
+      new Date(event.timestamp).toISOString(),
+      event.patientId,
+      event.accessedBy.name,
+      event.accessedBy.role || '',
+      event.accessedBy.userId || '',
+      event.accessedBy.principal,
+      event.action,
+      event.resourceKind,
+      event.resourceId,
+      event.reason
+    ])
+  );
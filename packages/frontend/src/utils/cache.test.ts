@@ -0,0 +1,156 @@
+// Tests for encrypted persistence in DataCache, using Node's WebCrypto in place of the browser's
+import { webcrypto } from 'crypto';
+import { TextDecoder, TextEncoder } from 'util';
+
+// jsdom has neither crypto.subtle nor TextEncoder
+Object.defineProperty(globalThis, 'crypto', { value: webcrypto, configurable: true });
+Object.assign(globalThis, { TextEncoder, TextDecoder });
+
+// jsdom has no IndexedDB; this stand-in keeps the durable key across simulated reloads
+let mockStoredKey: { principal: string; key: CryptoKey } | null = null;
+jest.mock('./cacheKeyStore', () => ({
+  cacheKeyStore: {
+    load: async () => mockStoredKey,
+    save: async (stored: { principal: string; key: CryptoKey }) => { mockStoredKey = stored; },
+    clear: async () => { mockStoredKey = null; }
+  }
+}));
+
+type CacheModule = typeof import('./cache');
+
+// A fresh module instance behaves like a page reload: empty memory, same browser storage
+const loadCache = (): CacheModule => {
+  let cacheModule: CacheModule | undefined;
+  jest.isolateModules(() => {
+    cacheModule = require('./cache');
+  });
+  return cacheModule!;
+};
+
+const outboxItem = { patientId: 'patient_1', title: 'Dizziness', description: 'Dizzy every morning since Monday' };
+
+describe('DataCache encryption', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    sessionStorage.clear();
+    mockStoredKey = null;
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('writes only ciphertext to localStorage and reads it back after a reload', async () => {
+    const { cacheSession, cacheOperations } = loadCache();
+    await cacheSession.start('principal-a', true);
+    await cacheOperations.outbox.set('patient_1', [outboxItem]);
+
+    const stored = localStorage.getItem('outbox_patient_1')!;
+    expect(stored).toBeTruthy();
+    expect(stored).not.toContain('Dizz');
+    expect(JSON.parse(stored).encrypted).toBe(true);
+
+    const reloaded = loadCache();
+    await reloaded.cacheSession.start('principal-a');
+    expect(await reloaded.cacheOperations.outbox.get('patient_1')).toEqual([outboxItem]);
+  });
+
+  it('keeps encrypted types in memory only until a session key exists', async () => {
+    const { cacheOperations } = loadCache();
+    await cacheOperations.outbox.set('patient_1', [outboxItem]);
+
+    expect(localStorage.getItem('outbox_patient_1')).toBeNull();
+    expect(await cacheOperations.outbox.get('patient_1')).toEqual([outboxItem]);
+  });
+
+  it('wipes both keys and every encrypted entry on logout', async () => {
+    const { cacheSession, cacheOperations } = loadCache();
+    await cacheSession.start('principal-a', true);
+    await cacheOperations.outbox.set('patient_1', [outboxItem]);
+
+    await cacheSession.end();
+
+    expect(sessionStorage.length).toBe(0);
+    expect(mockStoredKey).toBeNull();
+    expect(localStorage.getItem('outbox_patient_1')).toBeNull();
+    expect(await cacheOperations.outbox.get('patient_1')).toBeNull();
+  });
+
+  it('stores doctors\' drafts encrypted and keeps them across a reload', async () => {
+    const draft = { queryId: 'query_1', doctorId: 'doctor_1', versions: [
+      { version: 1, text: 'Reduce your evening insulin dose', source: 'doctor' as const, savedAt: 1000 }
+    ] };
+    const first = loadCache();
+    await first.cacheSession.start('principal-d', true);
+    await first.cacheOperations.drafts.set('query_1', 'doctor_1', draft);
+
+    expect(localStorage.getItem('drafts_query_1_doctor_1')).not.toContain('insulin');
+
+    // Closing the tab loses the session secret but not the durable key
+    sessionStorage.clear();
+    const reopened = loadCache();
+    await reopened.cacheSession.start('principal-d');
+    expect(await reopened.cacheOperations.drafts.get('query_1', 'doctor_1')).toEqual(draft);
+  });
+
+  it('rotates the session key on a fresh sign-in but keeps the same principal\'s unsent queries', async () => {
+    const first = loadCache();
+    await first.cacheSession.start('principal-a', true);
+    const secretBefore = sessionStorage.getItem('trustcare_cache_secret');
+    const durableBefore = mockStoredKey!.key;
+    await first.cacheOperations.outbox.set('patient_1', [outboxItem]);
+
+    // Reload followed by a fresh Internet Identity sign-in
+    const relogin = loadCache();
+    await relogin.cacheSession.start('principal-a', true);
+
+    expect(sessionStorage.getItem('trustcare_cache_secret')).not.toBe(secretBefore);
+    expect(mockStoredKey!.key).toBe(durableBefore);
+    expect(await relogin.cacheOperations.outbox.get('patient_1')).toEqual([outboxItem]);
+  });
+
+  it('keeps durable entries encrypted through an expired session until the principal signs in again', async () => {
+    const { cacheSession, cacheOperations } = loadCache();
+    await cacheSession.start('principal-a', true);
+    await cacheOperations.outbox.set('patient_1', [outboxItem]);
+
+    await cacheSession.suspend();
+
+    expect(sessionStorage.length).toBe(0);
+    expect(mockStoredKey!.principal).toBe('principal-a');
+    expect(localStorage.getItem('outbox_patient_1')).not.toContain('Dizz');
+    expect(await cacheOperations.outbox.get('patient_1')).toBeNull();
+
+    await cacheSession.start('principal-a', true);
+    expect(await cacheOperations.outbox.get('patient_1')).toEqual([outboxItem]);
+  });
+
+  it('never hands one principal\'s durable key to another', async () => {
+    const first = loadCache();
+    await first.cacheSession.start('principal-a', true);
+    await first.cacheOperations.outbox.set('patient_1', [outboxItem]);
+
+    const other = loadCache();
+    await other.cacheSession.start('principal-b');
+
+    expect(mockStoredKey!.principal).toBe('principal-b');
+    expect(localStorage.getItem('outbox_patient_1')).toBeNull();
+    expect(await other.cacheOperations.outbox.get('patient_1')).toBeNull();
+  });
+
+  it('drops entries that cannot be decrypted instead of throwing', async () => {
+    const { cacheSession, cacheOperations } = loadCache();
+    await cacheSession.start('principal-a', true);
+
+    const entry = { timestamp: Date.now(), ttl: 60000, encrypted: true, accessCount: 1, lastAccessed: Date.now() };
+    localStorage.setItem('outbox_patient_1', JSON.stringify({ ...entry, data: { iv: 'AAAAAAAAAAAAAAAA', ciphertext: 'AAAA' } }));
+    // Base64-obfuscated entry written by earlier versions of the cache
+    localStorage.setItem('outbox_patient_2', JSON.stringify({ ...entry, data: btoa(JSON.stringify([outboxItem])) }));
+
+    await expect(cacheOperations.outbox.get('patient_1')).resolves.toBeNull();
+    await expect(cacheOperations.outbox.get('patient_2')).resolves.toBeNull();
+    expect(localStorage.getItem('outbox_patient_1')).toBeNull();
+    expect(localStorage.getItem('outbox_patient_2')).toBeNull();
+  });
+});
@@ -1,19 +1,37 @@
 /**
  * TrustCare Connect - Data Caching Utility
  * Provides intelligent caching for frequently accessed medical data with HIPAA considerations
+ *
+ * Entries of `encrypt` types are only written to localStorage as AES-GCM ciphertext
+ * under the current session key; the in-memory copy stays in plaintext. `durable`
+ * types are encrypted under a key held in IndexedDB instead, so they survive closing
+ * the tab, an expired session and the same principal signing in again; both keys and
+ * every encrypted entry are dropped on logout and when another principal signs in.
  */
 
-import { Patient, Doctor, MedicalQuery } from '../types';
+import { Patient, Doctor, MedicalQuery, DraftHistory } from '../types';
+import {
+  EncryptedPayload,
+  decryptJson,
+  deriveCacheKey,
+  encryptJson,
+  fromBase64,
+  generateCacheKey,
+  generateSessionSecret,
+  toBase64
+} from './cacheCrypto';
+import { cacheKeyStore } from './cacheKeyStore';
 
 // Cache configuration
 interface CacheConfig {
   ttl: number; // Time to live in milliseconds
   maxSize: number; // Maximum number of items
-  encrypt?: boolean; // Whether to encrypt sensitive data
+  encrypt?: boolean; // Whether to encrypt data at rest
+  durable?: boolean; // Encrypt under the stored durable key so entries outlive the tab
 }
 
 interface CacheItem<T> {
-  data: T;
+  data: T; // An EncryptedPayload when read back from storage with `encrypted` set
   timestamp: number;
   ttl: number;
   encrypted?: boolean;
@@ -37,20 +55,29 @@ const CACHE_CONFIGS: Record<string, CacheConfig> = {
   patients: { ttl: 5 * 60 * 1000, maxSize: 50, encrypt: true },  // 5 minutes
   queries: { ttl: 3 * 60 * 1000, maxSize: 100, encrypt: true },   // 3 minutes
   doctors: { ttl: 10 * 60 * 1000, maxSize: 20, encrypt: true },   // 10 minutes
+
+  // Unsent patient queries - kept across reloads and expired sessions until delivered
+  outbox: { ttl: 7 * 24 * 60 * 60 * 1000, maxSize: 20, encrypt: true, durable: true }, // 7 days
+
+  // Doctors' draft responses - kept across reloads until the response is sent or the doctor logs out
+  drafts: { ttl: 14 * 24 * 60 * 60 * 1000, maxSize: 50, encrypt: true, durable: true }, // 14 days
   
   // System data - longer TTL
   templates: { ttl: 30 * 60 * 1000, maxSize: 50 },               // 30 minutes
   systemStats: { ttl: 2 * 60 * 1000, maxSize: 10 },              // 2 minutes
   notifications: { ttl: 5 * 60 * 1000, maxSize: 50 },            // 5 minutes
   
-  // User preferences - longest TTL
-  userPreferences: { ttl: 60 * 60 * 1000, maxSize: 10 },         // 1 hour
+  // User preferences - longest TTL, unencrypted so they outlive the session (e.g. language)
+  userPreferences: { ttl: 365 * 24 * 60 * 60 * 1000, maxSize: 10 }, // 1 year
   settings: { ttl: 60 * 60 * 1000, maxSize: 10 }                 // 1 hour
 };
 
 class DataCache {
   private storage: Storage | null;
   private memoryCache: Map<string, CacheItem<any>> = new Map();
+  private encryptionKey: CryptoKey | null = null;
+  private durableKey: CryptoKey | null = null;
+  private pendingWrites: Map<string, Promise<void>> = new Map();
   private stats: CacheStats = {
     hitRate: 0,
     missRate: 0,
@@ -93,16 +120,18 @@ class DataCache {
         memoryItem.lastAccessed = Date.now();
         this.stats.totalHits++;
         this.updateHitRate();
-        return this.decryptData<T>(memoryItem.data, memoryItem.encrypted);
+        return memoryItem.data;
       }
 
-      // Check persistent storage
+      // Check persistent storage (encrypted entries need getAsync)
       if (this.storage) {
         const storageItem = this.storage.getItem(key);
         if (storageItem) {
           const parsedItem: CacheItem<T> = JSON.parse(storageItem);
           
-          if (this.isValidItem(parsedItem)) {
+          if (parsedItem.encrypted && this.isValidItem(parsedItem)) {
+            // Fall through to a miss
+          } else if (this.isValidItem(parsedItem)) {
             // Move to memory cache for faster access
             parsedItem.accessCount++;
             parsedItem.lastAccessed = Date.now();
@@ -110,7 +139,7 @@ class DataCache {
             
             this.stats.totalHits++;
             this.updateHitRate();
-            return this.decryptData<T>(parsedItem.data, parsedItem.encrypted);
+            return parsedItem.data;
           } else {
             // Remove expired item
             this.storage.removeItem(key);
@@ -126,16 +155,126 @@ class DataCache {
     return null;
   }
 
+  /**
+   * Get data from cache, decrypting persisted entries with the session or durable key.
+   * Entries that fail to decrypt (e.g. written under an earlier session) are dropped.
+   */
+  async getAsync<T>(key: string, cacheType: string = 'default'): Promise<T | null> {
+    const pendingWrite = this.pendingWrites.get(key);
+    if (pendingWrite) {
+      await pendingWrite;
+    }
+
+    const cached = this.get<T>(key, cacheType);
+    const encryptionKey = this.keyFor(cacheType);
+    if (cached !== null || !this.storage || !encryptionKey) {
+      return cached;
+    }
+
+    const storageItem = this.storage.getItem(key);
+    if (!storageItem) return null;
+
+    try {
+      const parsedItem: CacheItem<EncryptedPayload> = JSON.parse(storageItem);
+      if (!parsedItem.encrypted || !this.isValidItem(parsedItem)) return null;
+
+      const data = await decryptJson<T>(encryptionKey, parsedItem.data, key);
+      this.memoryCache.set(key, {
+        ...parsedItem,
+        data,
+        accessCount: parsedItem.accessCount + 1,
+        lastAccessed: Date.now()
+      });
+      this.stats.totalHits++;
+      this.stats.totalMisses--;
+      this.updateHitRate();
+      return data;
+    } catch (error) {
+      if (this.keyFor(cacheType) === encryptionKey) {
+        console.warn(`Dropping cache entry ${key} that could not be decrypted`);
+        this.storage.removeItem(key);
+      }
+      return null;
+    }
+  }
+
   /**
    * Set data in cache
    */
   set<T>(key: string, data: T, cacheType: string = 'default'): boolean {
+    return this.store(key, data, cacheType) !== null;
+  }
+
+  /**
+   * Set data in cache and wait until it has been written to storage
+   */
+  async setAsync<T>(key: string, data: T, cacheType: string = 'default'): Promise<boolean> {
+    const persisted = this.store(key, data, cacheType);
+    if (!persisted) return false;
+    await persisted;
+    return true;
+  }
+
+  /**
+   * Remove item from cache
+   */
+  remove(key: string): boolean {
+    try {
+      this.memoryCache.delete(key);
+      this.pendingWrites.delete(key);
+      if (this.storage) {
+        this.storage.removeItem(key);
+      }
+      this.updateCacheStats();
+      return true;
+    } catch (error) {
+      console.error('Cache remove error:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Use a new session key for encrypted entries, and the stored durable key for durable ones
+   */
+  setEncryptionKey(encryptionKey: CryptoKey, durableKey: CryptoKey | null = null): void {
+    const durableChanged = !!this.durableKey && this.durableKey !== durableKey;
+    if (durableChanged || (this.encryptionKey && this.encryptionKey !== encryptionKey)) {
+      this.clearEncryptedEntries(!durableChanged);
+    }
+    this.encryptionKey = encryptionKey;
+    this.durableKey = durableKey;
+  }
+
+  /**
+   * Forget both keys along with every encrypted entry, which could no longer be read.
+   * With keepDurable, durable entries stay in storage for when the durable key is loaded again.
+   */
+  clearEncryptionKey(keepDurable: boolean = false): void {
+    this.encryptionKey = null;
+    this.durableKey = null;
+    this.clearEncryptedEntries(keepDurable);
+  }
+
+  /**
+   * Wait for encrypted writes that are still in progress
+   */
+  async settleWrites(): Promise<void> {
+    await Promise.all(Array.from(this.pendingWrites.values()));
+  }
+
+  private keyFor(cacheType: string): CryptoKey | null {
+    const config = CACHE_CONFIGS[cacheType];
+    return config && config.durable ? this.durableKey : this.encryptionKey;
+  }
+
+  // Returns null on failure, otherwise a promise that settles once storage is written
+  private store<T>(key: string, data: T, cacheType: string): Promise<void> | null {
     try {
       const config = CACHE_CONFIGS[cacheType] || CACHE_CONFIGS.default || { ttl: 5 * 60 * 1000, maxSize: 100 };
-      const encrypted = config.encrypt && this.isSensitiveData(data);
+      const encrypted = !!config.encrypt;
       
       const cacheItem: CacheItem<T> = {
-        data: encrypted ? this.encryptData(data) : data,
+        data,
         timestamp: Date.now(),
         ttl: config.ttl,
         encrypted,
@@ -149,47 +288,99 @@ class DataCache {
       // Enforce memory cache size limit
       this.enforceMemoryCacheLimit(config.maxSize);
 
+      this.updateCacheStats();
+
       // Store in persistent storage if available and appropriate
-      if (this.storage && this.shouldPersist(cacheType)) {
-        try {
-          this.storage.setItem(key, JSON.stringify(cacheItem));
-        } catch (storageError) {
-          // Handle storage quota exceeded
-          console.warn('Storage quota exceeded, clearing old cache entries');
-          this.clearOldEntries();
-          try {
-            this.storage.setItem(key, JSON.stringify(cacheItem));
-          } catch (retryError) {
-            console.error('Failed to store in cache even after cleanup:', retryError);
-          }
-        }
+      if (!this.storage || !this.shouldPersist(cacheType)) {
+        this.pendingWrites.delete(key);
+        return Promise.resolve();
       }
 
-      this.updateCacheStats();
-      return true;
+      if (!encrypted) {
+        this.pendingWrites.delete(key);
+        this.writeToStorage(key, cacheItem);
+        return Promise.resolve();
+      }
+
+      // Without a session key, data to be encrypted stays in memory only
+      const encryptionKey = this.keyFor(cacheType);
+      if (!encryptionKey) {
+        this.pendingWrites.delete(key);
+        return Promise.resolve();
+      }
+
+      const write: Promise<void> = encryptJson(encryptionKey, data, key)
+        .then(payload => {
+          // Skip writes superseded by a later set/remove or a key change
+          if (this.pendingWrites.get(key) === write && this.keyFor(cacheType) === encryptionKey) {
+            this.writeToStorage(key, { ...cacheItem, data: payload });
+          }
+        })
+        .catch(error => {
+          console.error('Cache encryption failed, keeping entry in memory only:', error);
+        })
+        .then(() => {
+          if (this.pendingWrites.get(key) === write) {
+            this.pendingWrites.delete(key);
+          }
+        });
+      this.pendingWrites.set(key, write);
+      return write;
     } catch (error) {
       console.error('Cache set error:', error);
-      return false;
+      return null;
     }
   }
 
-  /**
-   * Remove item from cache
-   */
-  remove(key: string): boolean {
+  private writeToStorage(key: string, item: CacheItem<any>): void {
+    if (!this.storage) return;
+
     try {
-      this.memoryCache.delete(key);
-      if (this.storage) {
-        this.storage.removeItem(key);
+      this.storage.setItem(key, JSON.stringify(item));
+    } catch (storageError) {
+      // Handle storage quota exceeded
+      console.warn('Storage quota exceeded, clearing old cache entries');
+      this.clearOldEntries();
+      try {
+        this.storage.setItem(key, JSON.stringify(item));
+      } catch (retryError) {
+        console.error('Failed to store in cache even after cleanup:', retryError);
       }
-      this.updateCacheStats();
-      return true;
-    } catch (error) {
-      console.error('Cache remove error:', error);
-      return false;
     }
   }
 
+  // Plaintext copies always leave memory; keepDurable only spares the ciphertext in storage
+  private clearEncryptedEntries(keepDurable: boolean = false): void {
+    this.pendingWrites.clear();
+
+    Array.from(this.memoryCache.entries()).forEach(([key, item]) => {
+      if (item.encrypted) {
+        this.memoryCache.delete(key);
+      }
+    });
+
+    if (this.storage) {
+      const keysToRemove: string[] = [];
+      for (let i = 0; i < this.storage.length; i++) {
+        const key = this.storage.key(i);
+        if (key && this.isCacheKey(key) && !(keepDurable && this.isDurableKey(key))) {
+          try {
+            const itemData = this.storage.getItem(key);
+            const item = itemData ? JSON.parse(itemData) : null;
+            if (item && item.encrypted) {
+              keysToRemove.push(key);
+            }
+          } catch (error) {
+            keysToRemove.push(key);
+          }
+        }
+      }
+      keysToRemove.forEach(key => this.storage!.removeItem(key));
+    }
+
+    this.updateCacheStats();
+  }
+
   /**
    * Clear all cache entries of a specific type
    */
@@ -309,43 +500,6 @@ class DataCache {
     return (now - item.timestamp) < item.ttl;
   }
 
-  private isSensitiveData(data: any): boolean {
-    // Check if data contains sensitive medical information
-    if (typeof data !== 'object' || !data) return false;
-    
-    const sensitiveFields = [
-      'patientId', 'doctorId', 'condition', 'diagnosis', 'symptoms',
-      'medication', 'treatment', 'response', 'medicalHistory'
-    ];
-    
-    return sensitiveFields.some(field => 
-      field in data || JSON.stringify(data).toLowerCase().includes(field.toLowerCase())
-    );
-  }
-
-  private encryptData(data: any): any {
-    // Simple encryption for demo - in production, use proper encryption
-    try {
-      const jsonString = JSON.stringify(data);
-      return btoa(jsonString); // Base64 encoding as simple encryption
-    } catch (error) {
-      console.warn('Encryption failed, storing unencrypted:', error);
-      return data;
-    }
-  }
-
-  private decryptData<T>(data: any, encrypted?: boolean): T {
-    if (!encrypted) return data;
-    
-    try {
-      const jsonString = atob(data);
-      return JSON.parse(jsonString);
-    } catch (error) {
-      console.warn('Decryption failed, returning raw data:', error);
-      return data;
-    }
-  }
-
   private shouldPersist(cacheType: string): boolean {
     // Don't persist highly sensitive medical data in localStorage
     const nonPersistentTypes = ['queries', 'patients', 'doctors'];
@@ -395,6 +549,10 @@ class DataCache {
     return cacheTypes.some(type => key.startsWith(`${type}_`));
   }
 
+  private isDurableKey(key: string): boolean {
+    return Object.keys(CACHE_CONFIGS).some(type => CACHE_CONFIGS[type].durable && key.startsWith(`${type}_`));
+  }
+
   private updateHitRate(): void {
     if (this.stats.totalRequests > 0) {
       this.stats.hitRate = (this.stats.totalHits / this.stats.totalRequests) * 100;
@@ -419,6 +577,77 @@ class DataCache {
 // Create singleton instance
 const dataCache = new DataCache();
 
+// Session secret for the current tab; survives reloads but not sign-out or a closed tab
+const SESSION_SECRET_KEY = 'trustcare_cache_secret';
+
+const readSessionSecret = () => {
+  try {
+    const stored = sessionStorage.getItem(SESSION_SECRET_KEY);
+    return stored ? fromBase64(stored) : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+const writeSessionSecret = (secret: Uint8Array | null): void => {
+  try {
+    if (secret) {
+      sessionStorage.setItem(SESSION_SECRET_KEY, toBase64(secret));
+    } else {
+      sessionStorage.removeItem(SESSION_SECRET_KEY);
+    }
+  } catch (error) {
+    // Without sessionStorage the key only lives until the page is reloaded
+  }
+};
+
+/**
+ * Encryption key lifecycle, driven by the authenticated session
+ */
+export const cacheSession = {
+  // Pass rotate on a fresh sign-in so data cached under earlier sessions is dropped. The durable
+  // key only changes with the principal, so the query outbox and drafts outlive both reloads and re-sign-ins.
+  start: async (principal: string, rotate: boolean = false): Promise<void> => {
+    try {
+      let secret = rotate ? null : readSessionSecret();
+      if (!secret) {
+        secret = generateSessionSecret();
+        writeSessionSecret(secret);
+      }
+
+      let durable = await cacheKeyStore.load();
+      if (!durable || durable.principal !== principal) {
+        dataCache.clearEncryptionKey();
+        durable = { principal, key: await generateCacheKey() };
+        await cacheKeyStore.save(durable);
+      }
+
+      dataCache.setEncryptionKey(await deriveCacheKey(secret, principal), durable.key);
+    } catch (error) {
+      console.warn('Cache encryption unavailable, sensitive data will not be persisted:', error);
+      dataCache.clearEncryptionKey();
+    }
+  },
+
+  // The session ended without the user signing out: forget both keys but keep the durable key
+  // and its entries, so unsent queries and drafts are still there after the same principal signs in
+  suspend: async (): Promise<void> => {
+    await dataCache.settleWrites();
+    writeSessionSecret(null);
+    dataCache.clearEncryptionKey(true);
+  },
+
+  end: async (): Promise<void> => {
+    writeSessionSecret(null);
+    dataCache.clearEncryptionKey();
+    try {
+      await cacheKeyStore.clear();
+    } catch (error) {
+      console.warn('Could not delete the durable cache key:', error);
+    }
+  }
+};
+
 /**
  * High-level cache operations for specific data types
  */
@@ -474,6 +703,39 @@ export const cacheOperations = {
       dataCache.clearByType('doctors')
   },
 
+  // Outbox operations - unsent queries, one list per patient
+  outbox: {
+    get: <T>(patientId: string): Promise<T[] | null> =>
+      dataCache.getAsync<T[]>(`outbox_${patientId}`, 'outbox'),
+
+    set: <T>(patientId: string, items: T[]): Promise<boolean> =>
+      dataCache.setAsync(`outbox_${patientId}`, items, 'outbox'),
+
+    remove: (patientId: string): boolean =>
+      dataCache.remove(`outbox_${patientId}`)
+  },
+
+  // Draft operations - version history per query and doctor
+  drafts: {
+    get: (queryId: string, doctorId: string): Promise<DraftHistory | null> =>
+      dataCache.getAsync<DraftHistory>(`drafts_${queryId}_${doctorId}`, 'drafts'),
+
+    set: (queryId: string, doctorId: string, history: DraftHistory): Promise<boolean> =>
+      dataCache.setAsync(`drafts_${queryId}_${doctorId}`, history, 'drafts'),
+
+    remove: (queryId: string, doctorId: string): boolean =>
+      dataCache.remove(`drafts_${queryId}_${doctorId}`)
+  },
+
+  // User preference operations - per device, kept across sign-outs
+  userPreferences: {
+    get: <T>(name: string): T | null =>
+      dataCache.get<T>(`userPreferences_${name}`, 'userPreferences'),
+
+    set: <T>(name: string, value: T): boolean =>
+      dataCache.set(`userPreferences_${name}`, value, 'userPreferences')
+  },
+
   // System operations
   system: {
     getStats: (): any => 
@@ -0,0 +1,50 @@
+// Tests for AES-GCM cache encryption, using Node's WebCrypto in place of the browser's
+import { webcrypto } from 'crypto';
+import { TextDecoder, TextEncoder } from 'util';
+import { decryptJson, deriveCacheKey, encryptJson, fromBase64, generateSessionSecret, toBase64 } from './cacheCrypto';
+
+// jsdom has neither crypto.subtle nor TextEncoder
+Object.defineProperty(globalThis, 'crypto', { value: webcrypto, configurable: true });
+Object.assign(globalThis, { TextEncoder, TextDecoder });
+
+describe('cacheCrypto', () => {
+  const record = { patientId: 'patient_1', medications: ['Metformin 500mg'] };
+
+  it('round-trips JSON and never stores the plaintext', async () => {
+    const key = await deriveCacheKey(generateSessionSecret(), 'principal-a');
+    const payload = await encryptJson(key, record, 'patients_patient_1');
+
+    expect(JSON.stringify(payload)).not.toContain('Metformin');
+    expect(await decryptJson(key, payload, 'patients_patient_1')).toEqual(record);
+  });
+
+  it('uses a fresh IV for every encryption', async () => {
+    const key = await deriveCacheKey(generateSessionSecret(), 'principal-a');
+    const first = await encryptJson(key, record, 'patients_patient_1');
+    const second = await encryptJson(key, record, 'patients_patient_1');
+
+    expect(first.iv).not.toBe(second.iv);
+    expect(first.ciphertext).not.toBe(second.ciphertext);
+  });
+
+  it('derives different keys for another principal or a rotated secret', async () => {
+    const secret = generateSessionSecret();
+    const payload = await encryptJson(await deriveCacheKey(secret, 'principal-a'), record, 'k');
+
+    await expect(decryptJson(await deriveCacheKey(secret, 'principal-b'), payload, 'k')).rejects.toBeDefined();
+    await expect(decryptJson(await deriveCacheKey(generateSessionSecret(), 'principal-a'), payload, 'k')).rejects.toBeDefined();
+    await expect(decryptJson(await deriveCacheKey(secret, 'principal-a'), payload, 'k')).resolves.toEqual(record);
+  });
+
+  it('rejects ciphertext moved to another cache key or tampered with', async () => {
+    const key = await deriveCacheKey(generateSessionSecret(), 'principal-a');
+    const payload = await encryptJson(key, record, 'patients_patient_1');
+    const bytes = fromBase64(payload.ciphertext);
+    bytes[0] ^= 0xff;
+    const tampered = { ...payload, ciphertext: toBase64(bytes) };
+
+    await expect(decryptJson(key, payload, 'patients_patient_2')).rejects.toBeDefined();
+    await expect(decryptJson(key, tampered, 'patients_patient_1')).rejects.toBeDefined();
+    await expect(decryptJson(key, { iv: 5 } as any, 'patients_patient_1')).rejects.toThrow('Malformed');
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * TrustCare Connect - Cache Encryption
+ * AES-GCM encryption for cached data at rest, keyed to the signed-in session
+ */
+
+export interface EncryptedPayload {
+  iv: string; // Base64, 12 random bytes per encryption
+  ciphertext: string; // Base64, includes the GCM authentication tag
+}
+
+const KEY_INFO = 'trustcare-cache-v1';
+const SECRET_BYTES = 32;
+const IV_BYTES = 12;
+
+const getSubtle = (): SubtleCrypto => {
+  if (typeof crypto === 'undefined' || !crypto.subtle) {
+    throw new Error('WebCrypto is not available in this environment');
+  }
+  return crypto.subtle;
+};
+
+export const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+};
+
+export const fromBase64 = (base64: string) => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+/**
+ * Random per-session secret; a new one is generated on every sign-in
+ */
+export const generateSessionSecret = () => crypto.getRandomValues(new Uint8Array(SECRET_BYTES));
+
+/**
+ * Derive the non-extractable AES-GCM key for a session secret and principal
+ */
+export const deriveCacheKey = async (secret: BufferSource, principal: string): Promise<CryptoKey> => {
+  const subtle = getSubtle();
+  const encoder = new TextEncoder();
+  const material = await subtle.importKey('raw', secret, 'HKDF', false, ['deriveKey']);
+
+  return subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt: encoder.encode(principal), info: encoder.encode(KEY_INFO) },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+/**
+ * Random non-extractable AES-GCM key; it can be stored in IndexedDB but its bytes never read back
+ */
+export const generateCacheKey = (): Promise<CryptoKey> =>
+  getSubtle().generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+
+/**
+ * Encrypt a JSON-serialisable value. The cache key is bound as additional data,
+ * so a ciphertext copied under another key fails to decrypt.
+ */
+export const encryptJson = async (key: CryptoKey, data: unknown, associatedData: string): Promise<EncryptedPayload> => {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const plaintext = new TextEncoder().encode(JSON.stringify(data));
+  const ciphertext = await getSubtle().encrypt(
+    { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(associatedData) },
+    key,
+    plaintext
+  );
+
+  return { iv: toBase64(iv), ciphertext: toBase64(new Uint8Array(ciphertext)) };
+};
+
+/**
+ * Decrypt a payload produced by encryptJson. Rejects if the key, associated
+ * data or ciphertext do not match.
+ */
+export const decryptJson = async <T>(key: CryptoKey, payload: EncryptedPayload, associatedData: string): Promise<T> => {
+  if (!payload || typeof payload.iv !== 'string' || typeof payload.ciphertext !== 'string') {
+    throw new Error('Malformed encrypted payload');
+  }
+
+  const plaintext = await getSubtle().decrypt(
+    { name: 'AES-GCM', iv: fromBase64(payload.iv), additionalData: new TextEncoder().encode(associatedData) },
+    key,
+    fromBase64(payload.ciphertext)
+  );
+
+  return JSON.parse(new TextDecoder().decode(plaintext));
+};
@@ -0,0 +1,73 @@
+/**
+ * TrustCare Connect - Cache Key Store
+ * Keeps the key for durable cache entries in IndexedDB as a non-extractable CryptoKey,
+ * so it outlives a reload without its bytes ever being readable by page scripts.
+ * Without IndexedDB the key only lives in memory until the page is reloaded.
+ */
+
+export interface StoredCacheKey {
+  principal: string;
+  key: CryptoKey;
+}
+
+const DB_NAME = 'trustcare-cache-keys';
+const STORE_NAME = 'keys';
+const DURABLE_KEY_ID = 'durable';
+
+let memoryKey: StoredCacheKey | null = null;
+
+// Operations run one at a time so a logout's delete never lands after the next sign-in's save
+let queue: Promise<unknown> = Promise.resolve();
+
+const enqueue = <T>(operation: () => Promise<T>): Promise<T> => {
+  const next = queue.catch(() => undefined).then(operation);
+  queue = next;
+  return next;
+};
+
+const openDatabase = (): Promise<IDBDatabase | null> => new Promise(resolve => {
+  if (typeof indexedDB === 'undefined') {
+    resolve(null);
+    return;
+  }
+
+  try {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => resolve(null);
+  } catch (error) {
+    resolve(null);
+  }
+});
+
+const runRequest = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T | undefined> => {
+  const db = await openDatabase();
+  if (!db) return undefined;
+
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+export const cacheKeyStore = {
+  load: (): Promise<StoredCacheKey | null> => enqueue(async () =>
+    memoryKey || (await runRequest<StoredCacheKey>('readonly', store => store.get(DURABLE_KEY_ID))) || null
+  ),
+
+  save: (stored: StoredCacheKey): Promise<void> => enqueue(async () => {
+    memoryKey = stored;
+    await runRequest('readwrite', store => store.put(stored, DURABLE_KEY_ID));
+  }),
+
+  clear: (): Promise<void> => enqueue(async () => {
+    memoryKey = null;
+    await runRequest('readwrite', store => store.delete(DURABLE_KEY_ID));
+  })
+};
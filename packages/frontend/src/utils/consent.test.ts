@@ -0,0 +1,56 @@
+// Tests for the consent helpers
+import { ConsentDocument, ConsentStatus } from '../types';
+import { consentStanding, pendingConsents, registrationConsentChoices } from './consent';
+
+const document = (kind: ConsentDocument['kind'], version: number, required: boolean): ConsentDocument => ({
+  kind,
+  version,
+  title: kind,
+  body: '',
+  required,
+  publishedAt: 0
+});
+
+const status = (doc: ConsentDocument, decidedVersion?: number, decision: 'accepted' | 'revoked' = 'accepted'): ConsentStatus => ({
+  document: doc,
+  latest: decidedVersion === undefined ? undefined : {
+    id: `consent_${doc.kind}`,
+    patientId: 'patient_1',
+    kind: doc.kind,
+    documentVersion: decidedVersion,
+    decision,
+    signedBy: 'aaaaa-aa',
+    signerName: 'Sarah Wanjiku',
+    recordedAt: 0
+  },
+  needsReconsent: decidedVersion === undefined || (decision === 'accepted' && decidedVersion < doc.version)
+});
+
+describe('consent', () => {
+  it('tells accepted, outdated, revoked and undecided documents apart', () => {
+    expect(consentStanding(status(document('treatment', 2, true), 2))).toBe('accepted');
+    expect(consentStanding(status(document('treatment', 2, true), 1))).toBe('outdated');
+    expect(consentStanding(status(document('ai_processing', 2, false), 1, 'revoked'))).toBe('revoked');
+    expect(consentStanding(status(document('ai_processing', 1, false)))).toBe('undecided');
+  });
+
+  it('lists documents needing a decision, required ones first', () => {
+    const pending = pendingConsents([
+      status(document('ai_processing', 1, false)),
+      status(document('hipaa_notice', 1, true), 1),
+      status(document('treatment', 3, true), 2)
+    ]);
+    expect(pending.map(item => item.document.kind)).toEqual(['treatment', 'ai_processing']);
+  });
+
+  it('accepts ticked documents and revokes unticked optional ones at registration', () => {
+    const choices = registrationConsentChoices(
+      [document('hipaa_notice', 2, true), document('data_processing', 1, true), document('ai_processing', 1, false)],
+      { hipaa_notice: true }
+    );
+    expect(choices).toEqual([
+      { kind: 'hipaa_notice', version: 2, decision: 'accepted' },
+      { kind: 'ai_processing', version: 1, decision: 'revoked' }
+    ]);
+  });
+});
@@ -0,0 +1,50 @@
+// Consent helpers: where a patient stands on each document, what needs a decision and the registration step's decisions
+import { ConsentDecision, ConsentDocument, ConsentKind, ConsentStatus } from '../types';
+
+// Used for the registration checkboxes when the canister's documents could not be loaded
+export const CONSENT_KIND_LABELS: Record<ConsentKind, string> = {
+  hipaa_notice: 'Notice of Privacy Practices',
+  treatment: 'Consent to Treatment',
+  data_processing: 'Health Data Processing',
+  ai_processing: 'AI-Assisted Responses'
+};
+
+export type ConsentStanding = 'accepted' | 'outdated' | 'revoked' | 'undecided';
+
+export const CONSENT_STANDING_LABELS: Record<ConsentStanding, string> = {
+  accepted: 'Accepted',
+  outdated: 'Updated - please review',
+  revoked: 'Revoked',
+  undecided: 'Not yet decided'
+};
+
+export const consentStanding = (status: ConsentStatus): ConsentStanding => {
+  if (!status.latest) return 'undecided';
+  if (status.latest.decision === 'revoked') return 'revoked';
+  return status.latest.documentVersion < status.document.version ? 'outdated' : 'accepted';
+};
+
+// Required documents first, so the prompt leads with what blocks the patient
+export const pendingConsents = (statuses: ConsentStatus[]): ConsentStatus[] =>
+  statuses
+    .filter(status => status.needsReconsent)
+    .sort((a, b) => Number(b.document.required) - Number(a.document.required));
+
+export interface ConsentChoice {
+  kind: ConsentKind;
+  version: number;
+  decision: ConsentDecision;
+}
+
+// Ticked documents are accepted and unticked optional ones revoked; required documents are never revoked
+export const registrationConsentChoices = (
+  documents: ConsentDocument[],
+  ticked: Partial<Record<ConsentKind, boolean>>
+): ConsentChoice[] =>
+  documents
+    .filter(document => ticked[document.kind] || !document.required)
+    .map(document => ({
+      kind: document.kind,
+      version: document.version,
+      decision: ticked[document.kind] ? 'accepted' : 'revoked'
+    }));
@@ -0,0 +1,57 @@
+import {
+  MAX_DRAFT_VERSIONS,
+  appendDraftVersion,
+  emptyDraftHistory,
+  latestDraft,
+  parseDraftHistory
+} from './draftHistory';
+
+describe('draftHistory', () => {
+  it('numbers versions and records regeneration instructions', () => {
+    let history = emptyDraftHistory('Q1', 'D1');
+    history = appendDraftVersion(history, 'First draft', 'doctor', undefined, 1000);
+    history = appendDraftVersion(history, 'Simpler draft', 'ai_regenerated', 'simpler language', 2000);
+
+    expect(history.versions).toEqual([
+      { version: 1, text: 'First draft', source: 'doctor', savedAt: 1000 },
+      { version: 2, text: 'Simpler draft', source: 'ai_regenerated', savedAt: 2000, instructions: 'simpler language' }
+    ]);
+  });
+
+  it('does not add a version when the text is unchanged', () => {
+    const history = appendDraftVersion(emptyDraftHistory('Q1', 'D1'), 'Same');
+    expect(appendDraftVersion(history, 'Same')).toBe(history);
+  });
+
+  it('keeps only the most recent versions', () => {
+    let history = emptyDraftHistory('Q1', 'D1');
+    for (let i = 1; i <= MAX_DRAFT_VERSIONS + 5; i++) {
+      history = appendDraftVersion(history, `Draft ${i}`);
+    }
+
+    expect(history.versions).toHaveLength(MAX_DRAFT_VERSIONS);
+    expect(history.versions[0].version).toBe(6);
+    expect(latestDraft(history)?.version).toBe(MAX_DRAFT_VERSIONS + 5);
+  });
+
+  it('round-trips stored history and migrates single legacy drafts', () => {
+    const history = appendDraftVersion(emptyDraftHistory('Q1', 'D1'), 'Stored', 'doctor', undefined, 5000);
+    expect(parseDraftHistory(JSON.stringify(history), 'Q1', 'D1')).toEqual(history);
+
+    const legacy = JSON.stringify({
+      queryId: 'Q1',
+      doctorId: 'D1',
+      draftText: 'Old draft',
+      savedAt: '2024-01-02T03:04:05.000Z'
+    });
+    expect(parseDraftHistory(legacy, 'Q1', 'D1').versions).toEqual([
+      { version: 1, text: 'Old draft', source: 'doctor', savedAt: Date.parse('2024-01-02T03:04:05.000Z') }
+    ]);
+  });
+
+  it('treats missing or unreadable storage as empty', () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(parseDraftHistory(null, 'Q1', 'D1').versions).toEqual([]);
+    expect(parseDraftHistory('{not json', 'Q1', 'D1').versions).toEqual([]);
+  });
+});
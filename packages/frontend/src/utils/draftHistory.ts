@@ -0,0 +1,89 @@
+// Version history for doctors' draft responses
+import { DraftHistory, DraftSource, DraftVersion } from '../types';
+
+// Oldest versions are dropped beyond this
+export const MAX_DRAFT_VERSIONS = 20;
+
+// Plaintext localStorage key used before drafts moved to the encrypted cache
+export const legacyDraftStorageKey = (queryId: string, doctorId: string): string => `draft_${queryId}_${doctorId}`;
+
+export const emptyDraftHistory = (queryId: string, doctorId: string): DraftHistory => ({
+  queryId,
+  doctorId,
+  versions: []
+});
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+const isDraftVersion = (value: unknown): value is DraftVersion =>
+  isRecord(value) && typeof value.text === 'string' && typeof value.version === 'number';
+
+// Reads stored history, including single drafts saved before versioning existed
+export const toDraftHistory = (stored: unknown, queryId: string, doctorId: string): DraftHistory => {
+  if (!isRecord(stored)) return emptyDraftHistory(queryId, doctorId);
+
+  if (Array.isArray(stored.versions)) {
+    return {
+      queryId,
+      doctorId,
+      versions: stored.versions.filter(isDraftVersion)
+    };
+  }
+
+  if (typeof stored.draftText === 'string') {
+    const savedAt = typeof stored.savedAt === 'string' ? Date.parse(stored.savedAt) : NaN;
+    return {
+      queryId,
+      doctorId,
+      versions: [{
+        version: 1,
+        text: stored.draftText,
+        source: 'doctor',
+        savedAt: isNaN(savedAt) ? Date.now() : savedAt
+      }]
+    };
+  }
+
+  return emptyDraftHistory(queryId, doctorId);
+};
+
+export const parseDraftHistory = (raw: string | null, queryId: string, doctorId: string): DraftHistory => {
+  if (!raw) return emptyDraftHistory(queryId, doctorId);
+
+  try {
+    return toDraftHistory(JSON.parse(raw), queryId, doctorId);
+  } catch (error) {
+    console.warn(`Ignoring unreadable draft history for query ${queryId}`);
+  }
+
+  return emptyDraftHistory(queryId, doctorId);
+};
+
+export const latestDraft = (history: DraftHistory): DraftVersion | undefined =>
+  history.versions[history.versions.length - 1];
+
+// Saving unchanged text returns the history as-is
+export const appendDraftVersion = (
+  history: DraftHistory,
+  text: string,
+  source: DraftSource = 'doctor',
+  instructions?: string,
+  now: number = Date.now()
+): DraftHistory => {
+  const latest = latestDraft(history);
+  if (latest && latest.text === text) return history;
+
+  const version: DraftVersion = {
+    version: latest ? latest.version + 1 : 1,
+    text,
+    source,
+    savedAt: now,
+    ...(instructions ? { instructions } : {})
+  };
+
+  return {
+    ...history,
+    versions: [...history.versions, version].slice(-MAX_DRAFT_VERSIONS)
+  };
+};
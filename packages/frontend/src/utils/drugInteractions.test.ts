@@ -0,0 +1,76 @@
+import {
+  DEFAULT_INTERACTION_RULES,
+  INTERACTION_RULES_STORAGE_KEY,
+  InteractionRule,
+  checkDraftText,
+  checkPrescription,
+  loadInteractionRules,
+  mentionsTerm,
+  requiresOverride,
+  saveInteractionRules,
+  validateInteractionRule,
+  warningToFlag
+} from './drugInteractions';
+
+const patient = {
+  currentMedications: ['Warfarin 5mg once daily', 'Metformin 500mg twice daily'],
+  allergies: ['Penicillin (rash)', 'None']
+};
+
+describe('drugInteractions', () => {
+  afterEach(() => localStorage.clear());
+
+  it('matches whole drug names only', () => {
+    expect(mentionsTerm('Insulin glargine 20 units', 'insulin')).toBe(true);
+    expect(mentionsTerm('Co-amoxiclav 625mg', 'co-amoxiclav')).toBe(true);
+    expect(mentionsTerm('Metformin', 'form')).toBe(false);
+  });
+
+  it('warns about drug-drug and drug-allergy interactions, worst first', () => {
+    const warnings = checkPrescription(['Ibuprofen 400mg', 'Amoxicillin'], patient, DEFAULT_INTERACTION_RULES);
+
+    expect(warnings.map(warning => `${warning.ruleId}:${warning.severity}`)).toEqual([
+      'penicillin_allergy:contraindicated',
+      'warfarin_nsaid:major'
+    ]);
+    expect(warnings[1].conflictsWith).toBe('Warfarin 5mg once daily');
+    expect(requiresOverride(warnings)).toBe(true);
+  });
+
+  it('checks new medications against each other and reports direct allergies once', () => {
+    const warnings = checkPrescription(['Simvastatin', 'Clarithromycin', 'Penicillin V'], patient, DEFAULT_INTERACTION_RULES);
+
+    expect(warnings.map(warning => warning.ruleId)).toEqual(['statin_macrolide', 'direct_allergy']);
+    expect(warningToFlag(warnings[0]).summary).toContain('Simvastatin + Clarithromycin');
+  });
+
+  it('flags AI drafts that suggest contraindicated drugs', () => {
+    const draft = 'For the headache you can take ibuprofen. Continue metformin as before.';
+    const warnings = checkDraftText(draft, patient, DEFAULT_INTERACTION_RULES);
+
+    expect(warnings.map(warning => `${warning.drug}+${warning.conflictsWith}`)).toEqual(['ibuprofen+Warfarin 5mg once daily']);
+    expect(checkDraftText('Avoid naproxen and ibuprofen together.', { currentMedications: [], allergies: [] }, DEFAULT_INTERACTION_RULES)).toEqual([]);
+  });
+
+  it('keeps the doctor’s edited ruleset and ignores malformed stored rules', () => {
+    const custom: InteractionRule = {
+      id: 'metformin_alcohol',
+      kind: 'drug_drug',
+      severity: 'minor',
+      drugs: ['metformin'],
+      interactsWith: ['alcohol'],
+      description: 'Limit alcohol.'
+    };
+    expect(validateInteractionRule(custom, DEFAULT_INTERACTION_RULES)).toBeUndefined();
+    expect(validateInteractionRule({ ...custom, id: 'warfarin_nsaid' }, DEFAULT_INTERACTION_RULES)).toContain('already exists');
+
+    saveInteractionRules([custom]);
+    expect(loadInteractionRules()).toEqual([custom]);
+
+    localStorage.setItem(INTERACTION_RULES_STORAGE_KEY, JSON.stringify([custom, { id: 'broken' }]));
+    expect(loadInteractionRules()).toEqual([custom]);
+
+    localStorage.setItem(INTERACTION_RULES_STORAGE_KEY, 'not json');
+    expect(loadInteractionRules()).toBe(DEFAULT_INTERACTION_RULES);
+  });
+});
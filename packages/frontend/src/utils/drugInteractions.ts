@@ -0,0 +1,348 @@
+// Drug interaction checks: the bundled ruleset, the doctor's edits to it, and warnings for prescriptions and AI drafts
+import { InteractionFlag, InteractionSeverity } from '../types';
+import { INTERACTION_SEVERITIES } from '../services/candidAdapter';
+
+export type InteractionRuleKind = 'drug_drug' | 'drug_allergy';
+
+export interface InteractionRule {
+  id: string;
+  kind: InteractionRuleKind;
+  severity: InteractionSeverity;
+  drugs: string[]; // Generic and brand names that trigger the rule
+  interactsWith: string[]; // Other drugs for drug_drug, allergy terms for drug_allergy
+  description: string;
+}
+
+export interface InteractionWarning {
+  ruleId: string;
+  kind: InteractionRuleKind;
+  severity: InteractionSeverity;
+  drug: string;
+  conflictsWith: string; // The other drug, or the allergy as the patient recorded it
+  description: string;
+}
+
+// What the patient already takes and reacts to
+export interface InteractionContext {
+  currentMedications: string[];
+  allergies: string[];
+}
+
+// Must match the canister's minimum
+export const MIN_OVERRIDE_JUSTIFICATION = 10;
+
+export const DIRECT_ALLERGY_RULE_ID = 'direct_allergy';
+
+export const INTERACTION_SEVERITY_LABELS: Record<InteractionSeverity, string> = {
+  minor: 'Minor',
+  moderate: 'Moderate',
+  major: 'Major',
+  contraindicated: 'Contraindicated'
+};
+
+const NSAIDS = ['ibuprofen', 'diclofenac', 'naproxen', 'aspirin', 'indomethacin', 'meloxicam', 'celecoxib'];
+const SULFONYLUREAS = ['glibenclamide', 'glyburide', 'glipizide', 'gliclazide', 'glimepiride'];
+const ACE_INHIBITORS = ['lisinopril', 'enalapril', 'ramipril', 'captopril', 'perindopril'];
+const PENICILLINS = ['penicillin', 'amoxicillin', 'ampicillin', 'flucloxacillin', 'co-amoxiclav', 'augmentin'];
+
+// Common interactions in diabetes care. Doctors can extend or adjust these; see saveInteractionRules.
+export const DEFAULT_INTERACTION_RULES: InteractionRule[] = [
+  {
+    id: 'warfarin_nsaid',
+    kind: 'drug_drug',
+    severity: 'major',
+    drugs: ['warfarin'],
+    interactsWith: NSAIDS,
+    description: 'Raised bleeding risk. Prefer paracetamol; if unavoidable, monitor INR closely.'
+  },
+  {
+    id: 'sulfonylurea_fluconazole',
+    kind: 'drug_drug',
+    severity: 'major',
+    drugs: SULFONYLUREAS,
+    interactsWith: ['fluconazole', 'miconazole'],
+    description: 'Azole antifungals raise sulfonylurea levels and can cause severe hypoglycaemia.'
+  },
+  {
+    id: 'hypoglycaemic_beta_blocker',
+    kind: 'drug_drug',
+    severity: 'moderate',
+    drugs: ['insulin'].concat(SULFONYLUREAS),
+    interactsWith: ['propranolol', 'atenolol', 'metoprolol', 'bisoprolol', 'carvedilol'],
+    description: 'Beta-blockers can mask the warning signs of hypoglycaemia.'
+  },
+  {
+    id: 'ace_inhibitor_potassium',
+    kind: 'drug_drug',
+    severity: 'major',
+    drugs: ACE_INHIBITORS.concat(['losartan', 'valsartan']),
+    interactsWith: ['spironolactone', 'eplerenone', 'amiloride', 'potassium chloride'],
+    description: 'Risk of hyperkalaemia. Check potassium and renal function.'
+  },
+  {
+    id: 'ace_inhibitor_nsaid',
+    kind: 'drug_drug',
+    severity: 'moderate',
+    drugs: ACE_INHIBITORS.concat(['losartan', 'valsartan']),
+    interactsWith: NSAIDS.filter(drug => drug !== 'aspirin'),
+    description: 'NSAIDs blunt the antihypertensive effect and can cause acute kidney injury in diabetic kidney disease.'
+  },
+  {
+    id: 'statin_macrolide',
+    kind: 'drug_drug',
+    severity: 'contraindicated',
+    drugs: ['simvastatin', 'lovastatin'],
+    interactsWith: ['clarithromycin', 'erythromycin'],
+    description: 'Sharply raised statin levels with risk of rhabdomyolysis. Pause the statin or choose another antibiotic.'
+  },
+  {
+    id: 'nitrate_pde5',
+    kind: 'drug_drug',
+    severity: 'contraindicated',
+    drugs: ['sildenafil', 'tadalafil', 'vardenafil'],
+    interactsWith: ['nitroglycerin', 'glyceryl trinitrate', 'isosorbide mononitrate', 'isosorbide dinitrate'],
+    description: 'Profound hypotension.'
+  },
+  {
+    id: 'pioglitazone_insulin',
+    kind: 'drug_drug',
+    severity: 'moderate',
+    drugs: ['pioglitazone'],
+    interactsWith: ['insulin'],
+    description: 'Fluid retention and heart failure risk. Watch for oedema and weight gain.'
+  },
+  {
+    id: 'metformin_contrast',
+    kind: 'drug_drug',
+    severity: 'moderate',
+    drugs: ['metformin'],
+    interactsWith: ['iodinated contrast', 'contrast media'],
+    description: 'Hold metformin around iodinated contrast when renal function is reduced (lactic acidosis risk).'
+  },
+  {
+    id: 'penicillin_allergy',
+    kind: 'drug_allergy',
+    severity: 'contraindicated',
+    drugs: PENICILLINS,
+    interactsWith: ['penicillin', 'amoxicillin', 'beta-lactam'],
+    description: 'Penicillin allergy recorded.'
+  },
+  {
+    id: 'cephalosporin_penicillin_allergy',
+    kind: 'drug_allergy',
+    severity: 'moderate',
+    drugs: ['cefalexin', 'cephalexin', 'cefuroxime', 'ceftriaxone', 'cefixime'],
+    interactsWith: ['penicillin', 'beta-lactam'],
+    description: 'Possible cross-reactivity with a penicillin allergy. Avoid if the reaction was anaphylaxis.'
+  },
+  {
+    id: 'sulfonamide_allergy',
+    kind: 'drug_allergy',
+    severity: 'contraindicated',
+    drugs: ['sulfamethoxazole', 'co-trimoxazole', 'septrin', 'bactrim', 'sulfasalazine'],
+    interactsWith: ['sulfa', 'sulfonamide', 'sulphonamide', 'co-trimoxazole'],
+    description: 'Sulfonamide allergy recorded.'
+  },
+  {
+    id: 'nsaid_allergy',
+    kind: 'drug_allergy',
+    severity: 'contraindicated',
+    drugs: NSAIDS,
+    interactsWith: ['nsaid', 'aspirin', 'ibuprofen', 'diclofenac'],
+    description: 'NSAID or aspirin hypersensitivity; cross-reactions across the class are common.'
+  },
+  {
+    id: 'opioid_allergy',
+    kind: 'drug_allergy',
+    severity: 'major',
+    drugs: ['codeine', 'morphine', 'tramadol', 'oxycodone'],
+    interactsWith: ['codeine', 'morphine', 'opioid', 'opiate'],
+    description: 'Opioid allergy recorded. Confirm whether the reaction was true allergy or intolerance.'
+  }
+];
+
+// Entries patients use to say they have no allergies
+const NO_ALLERGY = /^(none|nil|nkda|no known( drug)? allergies|n\/a)$/i;
+
+// "Penicillin (rash)" and "Penicillin - rash" both name penicillin
+const allergenName = (allergy: string) => allergy.replace(/\(.*?\)/g, '').split(/\s[-:]\s|:/)[0].trim();
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole-word match, so "insulin glargine" matches insulin but "metformin" does not match "form"
+export const mentionsTerm = (text: string, term: string): boolean => {
+  const trimmed = term.trim();
+  return trimmed.length > 0 && new RegExp(`(^|[^a-z0-9])${escapeRegExp(trimmed.toLowerCase())}($|[^a-z0-9])`).test(text.toLowerCase());
+};
+
+const matchesAny = (text: string, terms: string[]) => terms.some(term => mentionsTerm(text, term));
+
+const severityRank = (severity: InteractionSeverity) => INTERACTION_SEVERITIES.indexOf(severity);
+
+const findInteractions = (
+  candidates: string[],
+  others: (candidate: string, index: number) => string[],
+  allergies: string[],
+  rules: InteractionRule[]
+): InteractionWarning[] => {
+  const warnings: InteractionWarning[] = [];
+  const seen: { [key: string]: boolean } = {};
+  const add = (warning: InteractionWarning) => {
+    const pair = [warning.drug.toLowerCase(), warning.conflictsWith.toLowerCase()].sort().join('|');
+    const key = `${warning.ruleId}|${pair}`;
+    if (seen[key]) return;
+    seen[key] = true;
+    warnings.push(warning);
+  };
+  const recordedAllergies = allergies.filter(allergy => allergy.trim() && !NO_ALLERGY.test(allergy.trim()));
+
+  const namesDrug = (allergy: string, drug: string) => {
+    const allergen = allergenName(allergy);
+    return mentionsTerm(allergen, drug) || mentionsTerm(drug, allergen);
+  };
+
+  candidates.forEach((drug, index) => {
+    recordedAllergies.forEach(allergy => {
+      if (namesDrug(allergy, drug)) {
+        add({
+          ruleId: DIRECT_ALLERGY_RULE_ID,
+          kind: 'drug_allergy',
+          severity: 'contraindicated',
+          drug,
+          conflictsWith: allergy,
+          description: 'The patient has a recorded allergy to this medication.'
+        });
+      }
+    });
+
+    rules.forEach(rule => {
+      if (rule.kind === 'drug_allergy') {
+        if (!matchesAny(drug, rule.drugs)) return;
+        recordedAllergies
+          // An allergy naming the drug itself is already reported as a direct allergy
+          .filter(allergy => matchesAny(allergy, rule.interactsWith) && !namesDrug(allergy, drug))
+          .forEach(allergy => add({ ruleId: rule.id, kind: rule.kind, severity: rule.severity, drug, conflictsWith: allergy, description: rule.description }));
+        return;
+      }
+
+      others(drug, index).forEach(other => {
+        const forward = matchesAny(drug, rule.drugs) && matchesAny(other, rule.interactsWith);
+        const reverse = matchesAny(drug, rule.interactsWith) && matchesAny(other, rule.drugs);
+        if (forward || reverse) {
+          add({ ruleId: rule.id, kind: rule.kind, severity: rule.severity, drug, conflictsWith: other, description: rule.description });
+        }
+      });
+    });
+  });
+
+  return warnings.sort((a, b) => severityRank(b.severity) - severityRank(a.severity));
+};
+
+/**
+ * Warnings for medications about to be prescribed, against each other and
+ * against what the patient already takes and is allergic to
+ */
+export const checkPrescription = (
+  medicationNames: string[],
+  context: InteractionContext,
+  rules: InteractionRule[]
+): InteractionWarning[] => {
+  const names = medicationNames.filter(name => name.trim());
+  return findInteractions(
+    names,
+    (_drug, index) => context.currentMedications.concat(names.filter((_, other) => other !== index)),
+    context.allergies,
+    rules
+  );
+};
+
+// Every drug name from the ruleset that the text mentions
+export const mentionedDrugs = (text: string, rules: InteractionRule[]): string[] => {
+  const found: string[] = [];
+  rules.forEach(rule => {
+    const names = rule.kind === 'drug_drug' ? rule.drugs.concat(rule.interactsWith) : rule.drugs;
+    names.forEach(name => {
+      if (mentionsTerm(text, name) && !found.some(existing => existing.toLowerCase() === name.toLowerCase())) {
+        found.push(name);
+      }
+    });
+  });
+  return found;
+};
+
+/**
+ * Flags for an AI draft that suggests drugs the patient should not take.
+ * Drugs the draft names are only checked against the patient, not each other,
+ * since a draft often names a drug to warn against combining it.
+ */
+export const checkDraftText = (
+  text: string,
+  context: InteractionContext,
+  rules: InteractionRule[]
+): InteractionWarning[] =>
+  findInteractions(mentionedDrugs(text, rules), () => context.currentMedications, context.allergies, rules);
+
+// Moderate and worse block submission until the doctor justifies them
+export const requiresOverride = (warnings: InteractionWarning[]): boolean =>
+  warnings.some(warning => warning.severity !== 'minor');
+
+export const warningSummary = (warning: InteractionWarning): string =>
+  warning.kind === 'drug_allergy'
+    ? `${warning.drug} with recorded allergy "${warning.conflictsWith}"`
+    : `${warning.drug} + ${warning.conflictsWith}`;
+
+export const warningToFlag = (warning: InteractionWarning): InteractionFlag => ({
+  ruleId: warning.ruleId,
+  severity: warning.severity,
+  summary: `${warningSummary(warning)}: ${warning.description}`
+});
+
+// =======================
+// EDITABLE RULESET
+// =======================
+
+export const INTERACTION_RULES_STORAGE_KEY = 'trustcare_interaction_rules';
+
+export const validateInteractionRule = (rule: InteractionRule, rules: InteractionRule[]): string | undefined => {
+  if (!/^[a-z0-9_]+$/.test(rule.id)) return 'Rule ID may only contain lowercase letters, digits and underscores';
+  if (rule.id === DIRECT_ALLERGY_RULE_ID) return `${DIRECT_ALLERGY_RULE_ID} is reserved`;
+  if (rules.some(existing => existing !== rule && existing.id === rule.id)) return `A rule with ID ${rule.id} already exists`;
+  if (rule.drugs.filter(drug => drug.trim()).length === 0) return 'List at least one drug';
+  if (rule.interactsWith.filter(term => term.trim()).length === 0) {
+    return rule.kind === 'drug_allergy' ? 'List at least one allergy term' : 'List at least one interacting drug';
+  }
+  if (!rule.description.trim()) return 'Describe the risk for the prescriber';
+  return undefined;
+};
+
+// Stored rules that fail validation are dropped rather than breaking the checker
+export const parseInteractionRules = (raw: string | null): InteractionRule[] => {
+  if (!raw) return DEFAULT_INTERACTION_RULES;
+  try {
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return DEFAULT_INTERACTION_RULES;
+    return parsed.filter((rule: InteractionRule) =>
+      rule &&
+      typeof rule.id === 'string' &&
+      (rule.kind === 'drug_drug' || rule.kind === 'drug_allergy') &&
+      INTERACTION_SEVERITIES.indexOf(rule.severity) !== -1 &&
+      Array.isArray(rule.drugs) &&
+      Array.isArray(rule.interactsWith) &&
+      typeof rule.description === 'string'
+    );
+  } catch (error) {
+    return DEFAULT_INTERACTION_RULES;
+  }
+};
+
+export const loadInteractionRules = (): InteractionRule[] =>
+  parseInteractionRules(localStorage.getItem(INTERACTION_RULES_STORAGE_KEY));
+
+export const saveInteractionRules = (rules: InteractionRule[]): void => {
+  localStorage.setItem(INTERACTION_RULES_STORAGE_KEY, JSON.stringify(rules));
+};
+
+export const resetInteractionRules = (): InteractionRule[] => {
+  localStorage.removeItem(INTERACTION_RULES_STORAGE_KEY);
+  return DEFAULT_INTERACTION_RULES;
+};
@@ -0,0 +1,53 @@
+import { EscalationEvent, EscalationPolicy } from '../types';
+import { currentEscalationLevel, patientGuidance, upcomingEscalations } from './escalation';
+
+const MINUTE = 60 * 1000;
+const CREATED = Date.UTC(2024, 0, 15, 12, 0);
+
+const policy: EscalationPolicy = {
+  enabled: true,
+  urgencies: ['HIGH'],
+  raiseLevelAfterMinutes: 30,
+  notifyOnCallAfterMinutes: 60,
+  patientGuidanceAfterMinutes: 120,
+  patientGuidance: 'Call emergency services if symptoms worsen.'
+};
+
+const event = (step: EscalationEvent['step'], level: number, minutesAfter: number): EscalationEvent => ({
+  queryId: 'query_1',
+  step,
+  level,
+  message: step,
+  notifiedDoctorIds: [],
+  timestamp: CREATED + minutesAfter * MINUTE
+});
+
+describe('escalation', () => {
+  it('plans every step for an urgent query that has not escalated yet', () => {
+    const planned = upcomingEscalations(policy, [], CREATED, 'HIGH');
+
+    expect(planned.map(step => step.step)).toEqual(['level_raised', 'on_call_notified', 'patient_guidance_sent']);
+    expect(planned[1].dueAt).toBe(CREATED + 60 * MINUTE);
+  });
+
+  it('plans nothing for urgencies the policy does not cover', () => {
+    expect(upcomingEscalations(policy, [], CREATED, 'MEDIUM')).toEqual([]);
+    expect(upcomingEscalations(policy, [], CREATED)).toEqual([]);
+    expect(upcomingEscalations({ ...policy, enabled: false }, [], CREATED, 'HIGH')).toEqual([]);
+  });
+
+  it('keeps planning an escalated query and stops once a doctor takes it', () => {
+    const escalated = [event('level_raised', 1, 30)];
+    expect(currentEscalationLevel(escalated)).toBe(1);
+    expect(upcomingEscalations(policy, escalated, CREATED).map(step => step.level)).toEqual([2, 3]);
+
+    const claimed = [...escalated, event('claimed', 1, 45)];
+    expect(upcomingEscalations(policy, claimed, CREATED, 'HIGH')).toEqual([]);
+  });
+
+  it('finds the guidance the patient was sent', () => {
+    const events = [event('level_raised', 1, 30), event('on_call_notified', 2, 60), event('patient_guidance_sent', 3, 120)];
+    expect(patientGuidance(events)?.timestamp).toBe(CREATED + 120 * MINUTE);
+    expect(patientGuidance(events.slice(0, 2))).toBeUndefined();
+  });
+});
@@ -0,0 +1,45 @@
+// Escalation timeline helpers: labels, current level and the policy steps still ahead of a waiting query
+import { EscalationEvent, EscalationPolicy, EscalationStep, TriageUrgency } from '../types';
+
+const MINUTE = 60 * 1000;
+
+export const ESCALATION_STEP_LABELS: Record<EscalationStep, string> = {
+  level_raised: 'Marked as escalated',
+  on_call_notified: 'On-call doctors notified',
+  patient_guidance_sent: 'Emergency guidance sent to patient',
+  claimed: 'Taken by a doctor'
+};
+
+export interface PlannedEscalation {
+  step: EscalationStep;
+  level: number;
+  dueAt: number;
+}
+
+export const currentEscalationLevel = (events: EscalationEvent[]): number =>
+  events.reduce((level, event) => Math.max(level, event.level), 0);
+
+// The guidance a patient was sent, if escalation got that far
+export const patientGuidance = (events: EscalationEvent[]): EscalationEvent | undefined =>
+  events.filter(event => event.step === 'patient_guidance_sent').pop();
+
+// Steps the canister will still take if nobody claims the query. A query that has not escalated yet
+// only has steps ahead of it when its urgency is one the policy covers.
+export const upcomingEscalations = (
+  policy: EscalationPolicy,
+  events: EscalationEvent[],
+  createdAt: number,
+  urgency?: TriageUrgency
+): PlannedEscalation[] => {
+  if (!policy.enabled || events.some(event => event.step === 'claimed')) return [];
+
+  const level = currentEscalationLevel(events);
+  if (level === 0 && (!urgency || policy.urgencies.indexOf(urgency) === -1)) return [];
+
+  const schedule: PlannedEscalation[] = [
+    { step: 'level_raised', level: 1, dueAt: createdAt + policy.raiseLevelAfterMinutes * MINUTE },
+    { step: 'on_call_notified', level: 2, dueAt: createdAt + policy.notifyOnCallAfterMinutes * MINUTE },
+    { step: 'patient_guidance_sent', level: 3, dueAt: createdAt + policy.patientGuidanceAfterMinutes * MINUTE }
+  ];
+  return schedule.filter(planned => planned.level > level);
+};
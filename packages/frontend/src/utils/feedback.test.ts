@@ -0,0 +1,57 @@
+import { MedicalQuery, QueryFeedback } from '../types';
+import { periodStart, ratingDistribution, ratingTrend, trendChartPoints, unratedQueries } from './feedback';
+
+const feedback = (queryId: string, rating: number, submittedAt: number): QueryFeedback => ({
+  queryId,
+  patientId: 'patient_1',
+  doctorId: 'doctor_1',
+  specialty: 'Endocrinology',
+  rating,
+  comment: '',
+  submittedAt
+});
+
+const query = (id: string, status: MedicalQuery['status'], updatedAt: number, response?: string): MedicalQuery => ({
+  id,
+  patientId: 'patient_1',
+  title: id,
+  description: '',
+  status,
+  response,
+  createdAt: 0,
+  updatedAt
+});
+
+describe('feedback', () => {
+  it('prompts only for answered queries without a rating', () => {
+    const queries = [
+      query('query_1', 'completed', 1, 'Rest and fluids'),
+      query('query_2', 'completed', 3, 'Reduce the dose'),
+      query('query_3', 'completed', 2, 'Book a review'),
+      query('query_4', 'pending', 4)
+    ];
+
+    expect(unratedQueries(queries, [feedback('query_2', 5, 0)]).map(q => q.id)).toEqual(['query_3', 'query_1']);
+  });
+
+  it('averages ratings per week, starting on Monday', () => {
+    // Wednesday 10 and Sunday 14 January 2024 share a week; Monday 15 starts the next
+    const wednesday = new Date(2024, 0, 10, 15).getTime();
+    const sunday = new Date(2024, 0, 14, 20).getTime();
+    const monday = new Date(2024, 0, 15, 9).getTime();
+
+    expect(periodStart(sunday, 'week')).toBe(new Date(2024, 0, 8).getTime());
+    expect(periodStart(sunday, 'month')).toBe(new Date(2024, 0, 1).getTime());
+
+    const trend = ratingTrend([feedback('a', 5, monday), feedback('b', 4, wednesday), feedback('c', 1, sunday)], 'week');
+    expect(trend).toEqual([
+      { periodStart: new Date(2024, 0, 8).getTime(), averageRating: 2.5, count: 2 },
+      { periodStart: new Date(2024, 0, 15).getTime(), averageRating: 5, count: 1 }
+    ]);
+    expect(trendChartPoints([{ periodStart: 0, averageRating: 2, count: 3 }])[0].outOfRange).toBe(true);
+  });
+
+  it('counts ratings by stars', () => {
+    expect(ratingDistribution([feedback('a', 5, 0), feedback('b', 5, 0), feedback('c', 1, 0)])).toEqual([1, 0, 0, 0, 2]);
+  });
+});
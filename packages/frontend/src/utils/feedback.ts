@@ -0,0 +1,82 @@
+// Patient feedback helpers: which answers still need a rating, and rating trends for the doctor's feedback panel
+import { MedicalQuery, QueryFeedback, VitalTrendPoint } from '../types';
+
+// Mirror the canister: ratings at or below the threshold open a follow-up task
+export const LOW_RATING_THRESHOLD = 2;
+export const MAX_FEEDBACK_COMMENT_CHARS = 2000;
+
+export const RATING_LABELS: Record<number, string> = {
+  1: 'Very poor',
+  2: 'Poor',
+  3: 'Okay',
+  4: 'Good',
+  5: 'Excellent'
+};
+
+export const isLowRating = (rating: number): boolean => rating <= LOW_RATING_THRESHOLD;
+
+// Answered queries the patient has not rated yet, most recently answered first
+export const unratedQueries = <Q extends MedicalQuery>(queries: Q[], feedback: QueryFeedback[]): Q[] => {
+  const rated: { [queryId: string]: boolean } = {};
+  feedback.forEach(item => {
+    rated[item.queryId] = true;
+  });
+  return queries
+    .filter(query => query.status === 'completed' && !!query.response && !rated[query.id])
+    .sort((a, b) => Number(b.updatedAt) - Number(a.updatedAt));
+};
+
+export type TrendPeriod = 'week' | 'month';
+
+// Local midnight on the Monday of the week, or on the first of the month
+export const periodStart = (time: number, period: TrendPeriod): number => {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+  if (period === 'month') {
+    date.setDate(1);
+  } else {
+    date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+  }
+  return date.getTime();
+};
+
+export interface RatingTrendPoint {
+  periodStart: number;
+  averageRating: number;
+  count: number;
+}
+
+// Average rating per week or month, oldest first; periods without ratings are skipped
+export const ratingTrend = (feedback: QueryFeedback[], period: TrendPeriod): RatingTrendPoint[] => {
+  const buckets: { [start: string]: { total: number; count: number } } = {};
+  feedback.forEach(item => {
+    const key = String(periodStart(item.submittedAt, period));
+    const bucket = buckets[key] || (buckets[key] = { total: 0, count: 0 });
+    bucket.total += item.rating;
+    bucket.count += 1;
+  });
+  return Object.keys(buckets)
+    .map(key => ({
+      periodStart: Number(key),
+      averageRating: Math.round((buckets[key].total / buckets[key].count) * 100) / 100,
+      count: buckets[key].count
+    }))
+    .sort((a, b) => a.periodStart - b.periodStart);
+};
+
+// For the shared trend chart; low periods are drawn as out of range
+export const trendChartPoints = (trend: RatingTrendPoint[]): VitalTrendPoint[] =>
+  trend.map(point => ({
+    recordedAt: point.periodStart,
+    value: point.averageRating,
+    outOfRange: isLowRating(point.averageRating)
+  }));
+
+// Number of 1- to 5-star ratings, indexed from one star
+export const ratingDistribution = (feedback: QueryFeedback[]): number[] => {
+  const counts = [0, 0, 0, 0, 0];
+  feedback.forEach(item => {
+    if (item.rating >= 1 && item.rating <= 5) counts[item.rating - 1] += 1;
+  });
+  return counts;
+};
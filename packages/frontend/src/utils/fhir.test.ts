@@ -0,0 +1,106 @@
+// Tests for the FHIR R4 export mapping and its structural validation
+import { PatientData, QueryData } from '../types';
+import { FhirBundle, FhirCoverage, FhirObservation, buildPatientBundle } from './fhir';
+import { validateFhirBundle } from './fhirValidation';
+
+const RECORDED_MS = Date.UTC(2024, 0, 15, 10, 30);
+
+const patient = (): PatientData => ({
+  id: 'patient_1',
+  firstName: 'Amina',
+  lastName: 'Otieno',
+  email: 'amina@example.com',
+  phoneNumber: '+254700000001',
+  dateOfBirth: '1985-03-12',
+  gender: 'female',
+  bloodType: 'O_positive',
+  address: '12 Moi Avenue',
+  city: 'Nairobi',
+  state: '',
+  zipCode: '00100',
+  country: 'Kenya',
+  emergencyContact: { name: 'Peter Otieno', relationship: 'Spouse', phoneNumber: '+254700000002' },
+  medicalHistory: {
+    conditions: ['Type 2 diabetes'],
+    medications: ['Metformin 500mg twice daily'],
+    allergies: ['Penicillin'],
+    surgeries: [],
+    familyHistory: [],
+    lastUpdated: RECORDED_MS
+  },
+  currentVitals: { bloodPressureSystolic: 132, bloodPressureDiastolic: 85, heartRate: 78, recordedAt: RECORDED_MS },
+  insuranceInfo: {
+    id: 'ins_1',
+    provider: 'NHIF',
+    policyNumber: 'POL-9',
+    memberId: 'M-44',
+    effectiveDate: RECORDED_MS,
+    isActive: true
+  },
+  assignedDoctorIds: ['doctor_1'],
+  medicalRecordNumber: 'MRN-001',
+  isActive: true,
+  createdAt: RECORDED_MS,
+  updatedAt: RECORDED_MS,
+  consentToTreatment: true,
+  hipaaAcknowledged: true,
+  dataProcessingConsent: true,
+  communicationPreferences: { email: true, sms: false, phone: false, portal: true }
+});
+
+const answeredQuery = { id: 'query_7', title: 'Morning readings', responses: [
+  {
+    id: 'r1',
+    responderId: 'doctor_1',
+    responseText: 'Keep logging fasting readings.',
+    timestamp: RECORDED_MS,
+    isOfficial: true,
+    attachments: [],
+    readByPatient: false
+  }
+] } as unknown as QueryData;
+
+const exportBundle = (): FhirBundle =>
+  buildPatientBundle({ patient: patient(), vitals: [], queries: [answeredQuery] }, RECORDED_MS);
+
+describe('fhir', () => {
+  it('maps the record onto one resource per fact, all referencing the Patient', () => {
+    const bundle = exportBundle();
+    const types = bundle.entry.map(entry => entry.resource.resourceType);
+
+    expect(types).toEqual([
+      'Patient', 'Condition', 'MedicationStatement', 'AllergyIntolerance',
+      'Observation', 'Observation', 'RelatedPerson', 'Coverage', 'Communication'
+    ]);
+    expect(bundle.entry[0].fullUrl).toBe('https://trustcareconnect.com/fhir/Patient/patient-1');
+    expect(bundle.entry[0].resource).toMatchObject({ gender: 'female', birthDate: '1985-03-12' });
+    expect((bundle.entry[7].resource as FhirCoverage).beneficiary.reference).toBe('Patient/patient-1');
+  });
+
+  it('codes vitals with LOINC and UCUM, blood pressure as a two-component panel', () => {
+    const [pressure, heartRate] = exportBundle().entry.slice(4, 6).map(entry => entry.resource as FhirObservation);
+
+    expect(pressure.code.coding![0].code).toBe('85354-9');
+    expect(pressure.component!.map(component => component.valueQuantity!.value)).toEqual([132, 85]);
+    expect(heartRate.valueQuantity).toEqual({ value: 78, unit: 'beats/minute', system: 'http://unitsofmeasure.org', code: '/min' });
+    expect(heartRate.effectiveDateTime).toBe('2024-01-15T10:30:00.000Z');
+  });
+
+  it('passes structural validation', () => {
+    expect(validateFhirBundle(exportBundle())).toEqual([]);
+  });
+
+  it('reports missing required elements, bad codes and dangling references', () => {
+    const bundle = exportBundle();
+    const observation = bundle.entry[5].resource as FhirObservation;
+    delete observation.valueQuantity;
+    (bundle.entry[7].resource as FhirCoverage).status = 'lapsed' as FhirCoverage['status'];
+    (bundle.entry[1].resource as { subject: { reference: string } }).subject.reference = 'Patient/someone-else';
+
+    expect(validateFhirBundle(bundle).map(issue => issue.path)).toEqual([
+      'Bundle.entry[1].resource.subject',
+      'Bundle.entry[5].resource',
+      'Bundle.entry[7].resource.status'
+    ]);
+  });
+});
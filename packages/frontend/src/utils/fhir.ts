@@ -0,0 +1,459 @@
+// FHIR R4 export: maps a patient's record, vital signs and doctors' answers onto a FHIR collection bundle
+import { EmergencyContact, Gender, InsuranceInfo, PatientData, QueryData, VitalSigns } from '../types';
+
+export const FHIR_BASE_URL = 'https://trustcareconnect.com/fhir';
+
+const SYSTEMS = {
+  patientId: `${FHIR_BASE_URL}/sid/patient-id`,
+  medicalRecordNumber: `${FHIR_BASE_URL}/sid/mrn`,
+  doctorId: `${FHIR_BASE_URL}/sid/doctor-id`,
+  policyNumber: `${FHIR_BASE_URL}/sid/policy-number`,
+  loinc: 'http://loinc.org',
+  ucum: 'http://unitsofmeasure.org',
+  observationCategory: 'http://terminology.hl7.org/CodeSystem/observation-category',
+  conditionClinical: 'http://terminology.hl7.org/CodeSystem/condition-clinical',
+  allergyClinical: 'http://terminology.hl7.org/CodeSystem/allergyintolerance-clinical'
+};
+
+// =======================
+// FHIR R4 DATATYPES
+// =======================
+
+export interface FhirCoding {
+  system?: string;
+  code?: string;
+  display?: string;
+}
+
+export interface FhirCodeableConcept {
+  coding?: FhirCoding[];
+  text?: string;
+}
+
+export interface FhirIdentifier {
+  system?: string;
+  value?: string;
+}
+
+export interface FhirReference {
+  reference?: string;
+  type?: string;
+  identifier?: FhirIdentifier;
+  display?: string;
+}
+
+export interface FhirHumanName {
+  use?: 'official' | 'usual';
+  text?: string;
+  family?: string;
+  given?: string[];
+}
+
+export interface FhirContactPoint {
+  system: 'phone' | 'email';
+  value: string;
+}
+
+export interface FhirAddress {
+  text?: string;
+  line?: string[];
+  city?: string;
+  state?: string;
+  postalCode?: string;
+  country?: string;
+}
+
+export interface FhirPeriod {
+  start?: string;
+  end?: string;
+}
+
+export interface FhirQuantity {
+  value: number;
+  unit: string;
+  system: string;
+  code: string;
+}
+
+// =======================
+// FHIR R4 RESOURCES
+// =======================
+
+export interface FhirPatient {
+  resourceType: 'Patient';
+  id: string;
+  identifier?: FhirIdentifier[];
+  active?: boolean;
+  name?: FhirHumanName[];
+  telecom?: FhirContactPoint[];
+  gender?: 'male' | 'female' | 'other' | 'unknown';
+  birthDate?: string;
+  address?: FhirAddress[];
+}
+
+export interface FhirCondition {
+  resourceType: 'Condition';
+  id: string;
+  clinicalStatus?: FhirCodeableConcept;
+  code?: FhirCodeableConcept;
+  subject: FhirReference;
+  recordedDate?: string;
+}
+
+export interface FhirMedicationStatement {
+  resourceType: 'MedicationStatement';
+  id: string;
+  status: 'active' | 'completed' | 'entered-in-error' | 'intended' | 'stopped' | 'on-hold' | 'unknown' | 'not-taken';
+  medicationCodeableConcept: FhirCodeableConcept;
+  subject: FhirReference;
+  dateAsserted?: string;
+}
+
+export interface FhirAllergyIntolerance {
+  resourceType: 'AllergyIntolerance';
+  id: string;
+  clinicalStatus?: FhirCodeableConcept;
+  code?: FhirCodeableConcept;
+  patient: FhirReference;
+  recordedDate?: string;
+}
+
+export interface FhirObservationComponent {
+  code: FhirCodeableConcept;
+  valueQuantity?: FhirQuantity;
+}
+
+export interface FhirObservation {
+  resourceType: 'Observation';
+  id: string;
+  status: 'registered' | 'preliminary' | 'final' | 'amended';
+  category?: FhirCodeableConcept[];
+  code: FhirCodeableConcept;
+  subject: FhirReference;
+  effectiveDateTime?: string;
+  performer?: FhirReference[];
+  valueQuantity?: FhirQuantity;
+  component?: FhirObservationComponent[];
+}
+
+export interface FhirRelatedPerson {
+  resourceType: 'RelatedPerson';
+  id: string;
+  patient: FhirReference;
+  relationship?: FhirCodeableConcept[];
+  name?: FhirHumanName[];
+  telecom?: FhirContactPoint[];
+  address?: FhirAddress[];
+}
+
+export interface FhirCoverage {
+  resourceType: 'Coverage';
+  id: string;
+  identifier?: FhirIdentifier[];
+  status: 'active' | 'cancelled' | 'draft' | 'entered-in-error';
+  subscriberId?: string;
+  beneficiary: FhirReference;
+  period?: FhirPeriod;
+  payor: FhirReference[];
+  class?: Array<{ type: FhirCodeableConcept; value: string }>;
+}
+
+export interface FhirCommunication {
+  resourceType: 'Communication';
+  id: string;
+  status: 'preparation' | 'in-progress' | 'not-done' | 'on-hold' | 'stopped' | 'completed' | 'entered-in-error' | 'unknown';
+  subject?: FhirReference;
+  topic?: FhirCodeableConcept;
+  sent?: string;
+  received?: string;
+  recipient?: FhirReference[];
+  sender?: FhirReference;
+  payload?: Array<{ contentString: string }>;
+}
+
+export type FhirResource =
+  | FhirPatient
+  | FhirCondition
+  | FhirMedicationStatement
+  | FhirAllergyIntolerance
+  | FhirObservation
+  | FhirRelatedPerson
+  | FhirCoverage
+  | FhirCommunication;
+
+export type FhirResourceType = FhirResource['resourceType'];
+
+export interface FhirBundleEntry {
+  fullUrl: string;
+  resource: FhirResource;
+}
+
+export interface FhirBundle {
+  resourceType: 'Bundle';
+  type: 'collection';
+  timestamp: string;
+  entry: FhirBundleEntry[];
+}
+
+// =======================
+// MAPPING
+// =======================
+
+// FHIR ids allow letters, digits, '-' and '.', up to 64 characters
+export const fhirId = (value: string): string => value.replace(/[^A-Za-z0-9\-.]/g, '-').slice(0, 64);
+
+export const fhirInstant = (time: number): string => new Date(time).toISOString();
+
+const patientReference = (patient: PatientData): FhirReference => ({
+  reference: `Patient/${fhirId(patient.id)}`,
+  display: `${patient.firstName} ${patient.lastName}`.trim()
+});
+
+const doctorReference = (doctorId: string): FhirReference => ({
+  type: 'Practitioner',
+  identifier: { system: SYSTEMS.doctorId, value: doctorId }
+});
+
+const concept = (system: string, code: string, display: string): FhirCodeableConcept => ({
+  coding: [{ system, code, display }],
+  text: display
+});
+
+const contactPoints = (phone?: string, email?: string): FhirContactPoint[] | undefined => {
+  const points: FhirContactPoint[] = [];
+  if (phone) points.push({ system: 'phone', value: phone });
+  if (email) points.push({ system: 'email', value: email });
+  return points.length > 0 ? points : undefined;
+};
+
+const FHIR_GENDERS: Record<Gender, FhirPatient['gender']> = {
+  male: 'male',
+  female: 'female',
+  other: 'other',
+  prefer_not_to_say: 'unknown'
+};
+
+export const patientToFhir = (patient: PatientData): FhirPatient => {
+  const identifier: FhirIdentifier[] = [{ system: SYSTEMS.patientId, value: patient.id }];
+  if (patient.medicalRecordNumber) {
+    identifier.push({ system: SYSTEMS.medicalRecordNumber, value: patient.medicalRecordNumber });
+  }
+  const hasAddress = patient.address || patient.city || patient.state || patient.zipCode || patient.country;
+  return {
+    resourceType: 'Patient',
+    id: fhirId(patient.id),
+    identifier,
+    active: patient.isActive,
+    name: [{
+      use: 'official',
+      family: patient.lastName || undefined,
+      given: patient.firstName ? [patient.firstName] : undefined,
+      text: `${patient.firstName} ${patient.lastName}`.trim()
+    }],
+    telecom: contactPoints(patient.phoneNumber, patient.email),
+    gender: FHIR_GENDERS[patient.gender],
+    birthDate: /^\d{4}-\d{2}-\d{2}$/.test(patient.dateOfBirth) ? patient.dateOfBirth : undefined,
+    address: hasAddress
+      ? [{
+        line: patient.address ? [patient.address] : undefined,
+        city: patient.city || undefined,
+        state: patient.state || undefined,
+        postalCode: patient.zipCode || undefined,
+        country: patient.country || undefined
+      }]
+      : undefined
+  };
+};
+
+// Free-text history entries carry no coding, so each maps to a concept with text only
+export const conditionsToFhir = (patient: PatientData): FhirCondition[] =>
+  patient.medicalHistory.conditions.filter(Boolean).map((condition, index) => ({
+    resourceType: 'Condition',
+    id: fhirId(`${patient.id}-condition-${index + 1}`),
+    clinicalStatus: concept(SYSTEMS.conditionClinical, 'active', 'Active'),
+    code: { text: condition },
+    subject: patientReference(patient),
+    recordedDate: fhirInstant(patient.medicalHistory.lastUpdated)
+  }));
+
+export const medicationStatementsToFhir = (patient: PatientData): FhirMedicationStatement[] =>
+  patient.medicalHistory.medications.filter(Boolean).map((medication, index) => ({
+    resourceType: 'MedicationStatement',
+    id: fhirId(`${patient.id}-medication-${index + 1}`),
+    status: 'active',
+    medicationCodeableConcept: { text: medication },
+    subject: patientReference(patient),
+    dateAsserted: fhirInstant(patient.medicalHistory.lastUpdated)
+  }));
+
+export const allergiesToFhir = (patient: PatientData): FhirAllergyIntolerance[] =>
+  patient.medicalHistory.allergies.filter(Boolean).map((allergy, index) => ({
+    resourceType: 'AllergyIntolerance',
+    id: fhirId(`${patient.id}-allergy-${index + 1}`),
+    clinicalStatus: concept(SYSTEMS.allergyClinical, 'active', 'Active'),
+    code: { text: allergy },
+    patient: patientReference(patient),
+    recordedDate: fhirInstant(patient.medicalHistory.lastUpdated)
+  }));
+
+const quantity = (value: number, unit: string, code: string): FhirQuantity => ({
+  value,
+  unit,
+  system: SYSTEMS.ucum,
+  code
+});
+
+// LOINC codes and UCUM units from the FHIR R4 vital signs profile
+const VITAL_OBSERVATIONS: Array<{
+  field: 'heartRate' | 'temperature' | 'weight' | 'height' | 'oxygenSaturation';
+  key: string;
+  loinc: string;
+  display: string;
+  unit: string;
+  ucum: string;
+}> = [
+  { field: 'heartRate', key: 'heart-rate', loinc: '8867-4', display: 'Heart rate', unit: 'beats/minute', ucum: '/min' },
+  { field: 'temperature', key: 'body-temperature', loinc: '8310-5', display: 'Body temperature', unit: 'C', ucum: 'Cel' },
+  { field: 'weight', key: 'body-weight', loinc: '29463-7', display: 'Body weight', unit: 'kg', ucum: 'kg' },
+  { field: 'height', key: 'body-height', loinc: '8302-2', display: 'Body height', unit: 'cm', ucum: 'cm' },
+  { field: 'oxygenSaturation', key: 'oxygen-saturation', loinc: '59408-5', display: 'Oxygen saturation', unit: '%', ucum: '%' }
+];
+
+// One Observation per measured vital; blood pressure is a single panel with systolic and diastolic components
+export const vitalSignsToFhir = (patient: PatientData, vitals: VitalSigns): FhirObservation[] => {
+  const base = (key: string, code: FhirCodeableConcept): FhirObservation => ({
+    resourceType: 'Observation',
+    id: fhirId(`${patient.id}-${key}-${vitals.recordedAt}`),
+    status: 'final',
+    category: [concept(SYSTEMS.observationCategory, 'vital-signs', 'Vital Signs')],
+    code,
+    subject: patientReference(patient),
+    effectiveDateTime: fhirInstant(vitals.recordedAt),
+    performer: vitals.recordedBy ? [{ display: vitals.recordedBy }] : undefined
+  });
+
+  const observations: FhirObservation[] = [];
+  const { bloodPressureSystolic: systolic, bloodPressureDiastolic: diastolic } = vitals;
+  if (systolic !== undefined || diastolic !== undefined) {
+    const component: FhirObservationComponent[] = [];
+    if (systolic !== undefined) {
+      component.push({
+        code: concept(SYSTEMS.loinc, '8480-6', 'Systolic blood pressure'),
+        valueQuantity: quantity(systolic, 'mmHg', 'mm[Hg]')
+      });
+    }
+    if (diastolic !== undefined) {
+      component.push({
+        code: concept(SYSTEMS.loinc, '8462-4', 'Diastolic blood pressure'),
+        valueQuantity: quantity(diastolic, 'mmHg', 'mm[Hg]')
+      });
+    }
+    observations.push({
+      ...base('blood-pressure', concept(SYSTEMS.loinc, '85354-9', 'Blood pressure panel')),
+      component
+    });
+  }
+
+  VITAL_OBSERVATIONS.forEach(vital => {
+    const value = vitals[vital.field];
+    if (value === undefined) return;
+    observations.push({
+      ...base(vital.key, concept(SYSTEMS.loinc, vital.loinc, vital.display)),
+      valueQuantity: quantity(value, vital.unit, vital.ucum)
+    });
+  });
+  return observations;
+};
+
+export const emergencyContactToFhir = (patient: PatientData, contact: EmergencyContact): FhirRelatedPerson => ({
+  resourceType: 'RelatedPerson',
+  id: fhirId(`${patient.id}-emergency-contact`),
+  patient: patientReference(patient),
+  relationship: contact.relationship ? [{ text: contact.relationship }] : undefined,
+  name: contact.name ? [{ text: contact.name }] : undefined,
+  telecom: contactPoints(contact.phoneNumber, contact.email),
+  address: contact.address ? [{ text: contact.address }] : undefined
+});
+
+export const insuranceToFhir = (patient: PatientData, insurance: InsuranceInfo): FhirCoverage => ({
+  resourceType: 'Coverage',
+  id: fhirId(`${patient.id}-coverage-${insurance.id}`),
+  identifier: insurance.policyNumber ? [{ system: SYSTEMS.policyNumber, value: insurance.policyNumber }] : undefined,
+  status: insurance.isActive ? 'active' : 'cancelled',
+  subscriberId: insurance.memberId || undefined,
+  beneficiary: patientReference(patient),
+  period: {
+    start: fhirInstant(insurance.effectiveDate),
+    end: insurance.expirationDate !== undefined ? fhirInstant(insurance.expirationDate) : undefined
+  },
+  payor: [{ display: insurance.provider }],
+  class: insurance.groupNumber
+    ? [{ type: concept('http://terminology.hl7.org/CodeSystem/coverage-class', 'group', 'Group'), value: insurance.groupNumber }]
+    : undefined
+});
+
+// Doctors' answers to the patient's queries; internal notes stay out of the export
+export const queryResponsesToFhir = (patient: PatientData, query: QueryData): FhirCommunication[] =>
+  query.responses.map((response, index) => ({
+    resourceType: 'Communication',
+    id: fhirId(`${query.id}-response-${index + 1}`),
+    status: 'completed',
+    subject: patientReference(patient),
+    topic: { text: query.title },
+    sent: fhirInstant(response.timestamp),
+    received: response.readTimestamp !== undefined ? fhirInstant(response.readTimestamp) : undefined,
+    recipient: [patientReference(patient)],
+    sender: doctorReference(response.responderId),
+    payload: [{ contentString: response.responseText }]
+  }));
+
+export interface PatientExport {
+  patient: PatientData;
+  vitals: VitalSigns[]; // Vital signs history; the current vitals are added when missing from it
+  queries: QueryData[];
+}
+
+// Drops keys whose value is undefined so the bundle serializes without empty elements
+const compact = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+export const buildPatientBundle = ({ patient, vitals, queries }: PatientExport, now: number = Date.now()): FhirBundle => {
+  const readings = vitals.slice();
+  const current = patient.currentVitals;
+  if (current && !readings.some(reading => reading.recordedAt === current.recordedAt)) {
+    readings.push(current);
+  }
+
+  const resources: FhirResource[] = [
+    patientToFhir(patient),
+    ...conditionsToFhir(patient),
+    ...medicationStatementsToFhir(patient),
+    ...allergiesToFhir(patient)
+  ];
+  readings.forEach(reading => resources.push(...vitalSignsToFhir(patient, reading)));
+  if (patient.emergencyContact && patient.emergencyContact.name) {
+    resources.push(emergencyContactToFhir(patient, patient.emergencyContact));
+  }
+  if (patient.insuranceInfo) {
+    resources.push(insuranceToFhir(patient, patient.insuranceInfo));
+  }
+  queries.forEach(query => resources.push(...queryResponsesToFhir(patient, query)));
+
+  return compact({
+    resourceType: 'Bundle',
+    type: 'collection',
+    timestamp: fhirInstant(now),
+    entry: resources.map(resource => ({
+      fullUrl: `${FHIR_BASE_URL}/${resource.resourceType}/${resource.id}`,
+      resource
+    }))
+  });
+};
+
+export const downloadFhirBundle = (fileName: string, bundle: FhirBundle) => {
+  const url = URL.createObjectURL(new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/fhir+json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
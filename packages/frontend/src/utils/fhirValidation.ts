@@ -0,0 +1,213 @@
+// Structural validation of exported FHIR bundles against a bundled subset of the FHIR R4 profile rules
+import { FhirBundle, FhirResourceType } from './fhir';
+
+export interface FhirIssue {
+  path: string;
+  message: string;
+}
+
+// Paths are dotted and step through arrays; a required path must be present on every instance of its parent
+interface ProfileRules {
+  required: string[];
+  anyOf?: string[]; // At least one of these must be present
+  codes?: { [path: string]: string[] };
+  dateTimes?: string[];
+  dates?: string[];
+  references?: string[]; // Must point at a Patient in the same bundle
+}
+
+const QUANTITY_PATHS = ['system', 'code', 'value'];
+const TELECOM_SYSTEMS = ['phone', 'fax', 'email', 'pager', 'url', 'sms', 'other'];
+
+export const FHIR_R4_PROFILES: Record<FhirResourceType, ProfileRules> = {
+  Patient: {
+    required: ['id'],
+    codes: { gender: ['male', 'female', 'other', 'unknown'], 'telecom.system': TELECOM_SYSTEMS },
+    dates: ['birthDate']
+  },
+  Condition: {
+    required: ['id', 'subject', 'subject.reference', 'code'],
+    codes: { 'clinicalStatus.coding.code': ['active', 'recurrence', 'relapse', 'inactive', 'remission', 'resolved'] },
+    dateTimes: ['recordedDate'],
+    references: ['subject']
+  },
+  MedicationStatement: {
+    required: ['id', 'status', 'medicationCodeableConcept', 'subject', 'subject.reference'],
+    codes: {
+      status: ['active', 'completed', 'entered-in-error', 'intended', 'stopped', 'on-hold', 'unknown', 'not-taken']
+    },
+    dateTimes: ['dateAsserted'],
+    references: ['subject']
+  },
+  AllergyIntolerance: {
+    required: ['id', 'patient', 'patient.reference', 'code'],
+    codes: { 'clinicalStatus.coding.code': ['active', 'inactive', 'resolved'] },
+    dateTimes: ['recordedDate'],
+    references: ['patient']
+  },
+  // Vital signs profile: category, LOINC code, subject, effective time and a UCUM quantity or components
+  Observation: {
+    required: [
+      'id', 'status', 'category', 'code', 'code.coding', 'subject', 'subject.reference', 'effectiveDateTime',
+      'component.code'
+    ].concat(QUANTITY_PATHS.map(path => `valueQuantity.${path}`), QUANTITY_PATHS.map(path => `component.valueQuantity.${path}`)),
+    anyOf: ['valueQuantity', 'component'],
+    codes: {
+      status: ['registered', 'preliminary', 'final', 'amended', 'corrected', 'cancelled', 'entered-in-error', 'unknown'],
+      'category.coding.code': ['vital-signs'],
+      'code.coding.system': ['http://loinc.org'],
+      'valueQuantity.system': ['http://unitsofmeasure.org'],
+      'component.valueQuantity.system': ['http://unitsofmeasure.org']
+    },
+    dateTimes: ['effectiveDateTime'],
+    references: ['subject']
+  },
+  RelatedPerson: {
+    required: ['id', 'patient', 'patient.reference'],
+    codes: { 'telecom.system': TELECOM_SYSTEMS },
+    references: ['patient']
+  },
+  Coverage: {
+    required: ['id', 'status', 'beneficiary', 'beneficiary.reference', 'payor', 'class.type', 'class.value'],
+    codes: { status: ['active', 'cancelled', 'draft', 'entered-in-error'] },
+    dateTimes: ['period.start', 'period.end'],
+    references: ['beneficiary']
+  },
+  Communication: {
+    required: ['id', 'status', 'payload.contentString'],
+    codes: {
+      status: ['preparation', 'in-progress', 'not-done', 'on-hold', 'stopped', 'completed', 'entered-in-error', 'unknown']
+    },
+    dateTimes: ['sent', 'received'],
+    references: ['subject', 'recipient']
+  }
+};
+
+const ID_PATTERN = /^[A-Za-z0-9\-.]{1,64}$/;
+const DATE_PATTERN = /^\d{4}(-(0[1-9]|1[0-2])(-(0[1-9]|[12]\d|3[01]))?)?$/;
+// FHIR dateTime: a date, or a full time with a timezone
+const DATE_TIME_PATTERN = /^\d{4}(-(0[1-9]|1[0-2])(-(0[1-9]|[12]\d|3[01])(T([01]\d|2[0-3]):[0-5]\d:([0-5]\d|60)(\.\d+)?(Z|[+-]((0\d|1[0-3]):[0-5]\d|14:00)))?)?)?$/;
+
+const isEmpty = (value: unknown): boolean =>
+  value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+// Every value at the path, flattening arrays along the way
+const valuesAt = (node: unknown, path: string): unknown[] => {
+  if (path === '') return [node];
+  let current: unknown[] = [node];
+  path.split('.').forEach(step => {
+    const next: unknown[] = [];
+    current.forEach(item => {
+      const value = item && typeof item === 'object' ? (item as { [key: string]: unknown })[step] : undefined;
+      if (Array.isArray(value)) {
+        next.push(...value);
+      } else if (!isEmpty(value)) {
+        next.push(value);
+      }
+    });
+    current = next;
+  });
+  return current;
+};
+
+const validateResource = (resource: { [key: string]: unknown }, at: string, patientRefs: string[]): FhirIssue[] => {
+  const issues: FhirIssue[] = [];
+  const type = resource.resourceType as FhirResourceType;
+  const rules = FHIR_R4_PROFILES[type];
+  if (!rules) {
+    return [{ path: `${at}.resourceType`, message: `Resource type ${String(resource.resourceType)} is not part of the export profile` }];
+  }
+
+  if (typeof resource.id === 'string' && !ID_PATTERN.test(resource.id)) {
+    issues.push({ path: `${at}.id`, message: `"${resource.id}" is not a valid FHIR id` });
+  }
+
+  rules.required.forEach(path => {
+    const split = path.lastIndexOf('.');
+    const parentPath = split === -1 ? '' : path.slice(0, split);
+    const leaf = path.slice(split + 1);
+    valuesAt(resource, parentPath).forEach(parent => {
+      if (isEmpty((parent as { [key: string]: unknown })[leaf])) {
+        issues.push({ path: `${at}.${path}`, message: `${type}.${path} is required` });
+      }
+    });
+  });
+
+  if (rules.anyOf && rules.anyOf.every(path => valuesAt(resource, path).length === 0)) {
+    issues.push({ path: at, message: `${type} needs one of ${rules.anyOf.join(', ')}` });
+  }
+
+  Object.keys(rules.codes || {}).forEach(path => {
+    const allowed = (rules.codes || {})[path];
+    valuesAt(resource, path).forEach(value => {
+      if (allowed.indexOf(String(value)) === -1) {
+        issues.push({ path: `${at}.${path}`, message: `"${String(value)}" is not an allowed ${type}.${path} code` });
+      }
+    });
+  });
+
+  const checkFormat = (paths: string[] | undefined, pattern: RegExp, kind: string) =>
+    (paths || []).forEach(path => {
+      valuesAt(resource, path).forEach(value => {
+        if (typeof value !== 'string' || !pattern.test(value)) {
+          issues.push({ path: `${at}.${path}`, message: `"${String(value)}" is not a valid FHIR ${kind}` });
+        }
+      });
+    });
+  checkFormat(rules.dates, DATE_PATTERN, 'date');
+  checkFormat(rules.dateTimes, DATE_TIME_PATTERN, 'dateTime');
+
+  (rules.references || []).forEach(path => {
+    valuesAt(resource, `${path}.reference`).forEach(reference => {
+      if (patientRefs.indexOf(String(reference)) === -1) {
+        issues.push({ path: `${at}.${path}`, message: `${String(reference)} does not resolve to a Patient in the bundle` });
+      }
+    });
+  });
+
+  return issues;
+};
+
+// An empty list means the bundle is structurally valid
+export const validateFhirBundle = (bundle: FhirBundle): FhirIssue[] => {
+  const issues: FhirIssue[] = [];
+  if (bundle.resourceType !== 'Bundle') {
+    issues.push({ path: 'Bundle.resourceType', message: 'Expected a Bundle' });
+  }
+  if (bundle.type !== 'collection') {
+    issues.push({ path: 'Bundle.type', message: 'Exports are collection bundles' });
+  }
+  if (!DATE_TIME_PATTERN.test(bundle.timestamp || '') || (bundle.timestamp || '').indexOf('T') === -1) {
+    issues.push({ path: 'Bundle.timestamp', message: 'Bundle.timestamp must be an instant' });
+  }
+
+  const entries = bundle.entry || [];
+  const patientRefs = entries
+    .filter(entry => entry.resource && entry.resource.resourceType === 'Patient')
+    .map(entry => `Patient/${entry.resource.id}`);
+  const fullUrls: { [url: string]: boolean } = {};
+
+  entries.forEach((entry, index) => {
+    const at = `Bundle.entry[${index}]`;
+    if (!entry.resource) {
+      issues.push({ path: `${at}.resource`, message: 'Bundle entries in a collection must have a resource' });
+      return;
+    }
+    const fullUrl = entry.fullUrl || '';
+    const tail = `/${entry.resource.resourceType}/${entry.resource.id}`;
+    if (!/^https?:\/\//.test(fullUrl)) {
+      issues.push({ path: `${at}.fullUrl`, message: 'fullUrl must be an absolute URL' });
+    } else if (fullUrls[fullUrl]) {
+      issues.push({ path: `${at}.fullUrl`, message: `Duplicate fullUrl ${fullUrl}` });
+    } else if (fullUrl.slice(-tail.length) !== tail) {
+      issues.push({ path: `${at}.fullUrl`, message: 'fullUrl must end with the resource type and id' });
+    }
+    fullUrls[fullUrl] = true;
+    issues.push(...validateResource(entry.resource as unknown as { [key: string]: unknown }, `${at}.resource`, patientRefs));
+  });
+
+  if (patientRefs.length !== 1) {
+    issues.push({ path: 'Bundle.entry', message: 'A patient export holds exactly one Patient' });
+  }
+  return issues;
+};
@@ -0,0 +1,64 @@
+import { GlucoseLogEntry } from '../types';
+import { estimateHbA1c, glucoseBand, summarizeGlucoseLog, timeInRange } from './glucoseStats';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = 100 * DAY;
+
+const glucose = (value: number, daysAgo: number, mealContext?: GlucoseLogEntry['mealContext']): GlucoseLogEntry => ({
+  id: `g-${value}-${daysAgo}`,
+  kind: 'glucose',
+  value,
+  mealContext,
+  recordedAt: NOW - daysAgo * DAY
+});
+
+describe('glucoseStats', () => {
+  it('classifies readings against the time-in-range thresholds', () => {
+    expect([50, 65, 70, 180, 181, 251].map(glucoseBand)).toEqual([
+      'very_low', 'low', 'in_range', 'in_range', 'high', 'very_high'
+    ]);
+    expect(timeInRange([100, 120, 200, 60])).toEqual({ very_low: 0, low: 25, in_range: 50, high: 25, very_high: 0 });
+    expect(timeInRange([])).toBeNull();
+  });
+
+  it('estimates HbA1c from average glucose', () => {
+    expect(estimateHbA1c(154)).toBe(7);
+    expect(estimateHbA1c(126)).toBe(6);
+  });
+
+  it('summarises the recent log by meal context', () => {
+    const entries: GlucoseLogEntry[] = [
+      glucose(110, 1, 'fasting'),
+      glucose(130, 2, 'fasting'),
+      glucose(220, 3, 'post_meal'),
+      glucose(300, 30, 'post_meal'), // Outside the 14-day window
+      { id: 'i1', kind: 'insulin', value: 10, insulinType: 'Glargine', recordedAt: NOW - DAY },
+      { id: 'i2', kind: 'insulin', value: 18, insulinType: 'Glargine', recordedAt: NOW - 2 * DAY },
+      { id: 'a1', kind: 'hba1c', value: 7.4, recordedAt: NOW - 60 * DAY }
+    ];
+
+    const summary = summarizeGlucoseLog(entries, 14, NOW);
+
+    expect(summary.readingCount).toBe(3);
+    expect(summary.averageGlucose).toBe(153);
+    expect(summary.estimatedHbA1c).toBe(7);
+    expect(summary.timeInRange).toMatchObject({ in_range: 67, high: 33 });
+    expect(summary.byMealContext).toEqual({
+      fasting: { count: 2, average: 120 },
+      post_meal: { count: 1, average: 220 }
+    });
+    expect(summary.insulinUnitsPerDay).toBe(2);
+    expect(summary.latestReading?.value).toBe(110);
+    expect(summary.latestHbA1c?.value).toBe(7.4);
+  });
+
+  it('handles an empty log', () => {
+    expect(summarizeGlucoseLog([], 14, NOW)).toMatchObject({
+      readingCount: 0,
+      averageGlucose: undefined,
+      estimatedHbA1c: undefined,
+      timeInRange: undefined,
+      latestReading: undefined
+    });
+  });
+});
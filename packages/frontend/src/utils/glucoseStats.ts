@@ -0,0 +1,110 @@
+// Time in range, averages and HbA1c estimates for a patient's glucose log
+import { GlucoseEntryKind, GlucoseLogEntry, MealContext } from '../types';
+
+// Consensus time-in-range thresholds for diabetes, in mg/dL
+export const GLUCOSE_THRESHOLDS = {
+  veryLow: 54,
+  low: 70,
+  high: 180,
+  veryHigh: 250
+};
+
+export const MEAL_CONTEXT_LABELS: Record<MealContext, string> = {
+  fasting: 'Fasting',
+  pre_meal: 'Before meal',
+  post_meal: 'After meal',
+  bedtime: 'Bedtime',
+  other: 'Other'
+};
+
+export const GLUCOSE_ENTRY_UNITS: Record<GlucoseEntryKind, string> = {
+  glucose: 'mg/dL',
+  insulin: 'units',
+  hba1c: '%'
+};
+
+export type GlucoseBand = 'very_low' | 'low' | 'in_range' | 'high' | 'very_high';
+
+export const glucoseBand = (mgdl: number): GlucoseBand => {
+  if (mgdl < GLUCOSE_THRESHOLDS.veryLow) return 'very_low';
+  if (mgdl < GLUCOSE_THRESHOLDS.low) return 'low';
+  if (mgdl <= GLUCOSE_THRESHOLDS.high) return 'in_range';
+  if (mgdl <= GLUCOSE_THRESHOLDS.veryHigh) return 'high';
+  return 'very_high';
+};
+
+// Percentage of readings in each band
+export type TimeInRange = Record<GlucoseBand, number>;
+
+export const timeInRange = (values: number[]): TimeInRange | null => {
+  if (values.length === 0) return null;
+
+  const counts: TimeInRange = { very_low: 0, low: 0, in_range: 0, high: 0, very_high: 0 };
+  values.forEach(value => {
+    counts[glucoseBand(value)] += 1;
+  });
+
+  (Object.keys(counts) as GlucoseBand[]).forEach(band => {
+    counts[band] = Math.round((counts[band] / values.length) * 100);
+  });
+  return counts;
+};
+
+// ADAG study: average glucose (mg/dL) = 28.7 × HbA1c (%) − 46.7
+export const estimateHbA1c = (averageGlucose: number): number =>
+  Math.round(((averageGlucose + 46.7) / 28.7) * 10) / 10;
+
+const average = (values: number[]): number => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+export interface GlucoseSummary {
+  days: number;
+  readingCount: number;
+  averageGlucose?: number;
+  estimatedHbA1c?: number;
+  timeInRange?: TimeInRange;
+  byMealContext: Partial<Record<MealContext, { count: number; average: number }>>;
+  insulinUnitsPerDay?: number;
+  latestReading?: GlucoseLogEntry;
+  latestHbA1c?: GlucoseLogEntry; // Lab results are infrequent, so this looks at the whole log
+}
+
+export const summarizeGlucoseLog = (
+  entries: GlucoseLogEntry[],
+  days: number = 14,
+  now: number = Date.now()
+): GlucoseSummary => {
+  const since = now - days * 24 * 60 * 60 * 1000;
+  const sorted = [...entries].sort((a, b) => a.recordedAt - b.recordedAt);
+  const recent = sorted.filter(entry => entry.recordedAt >= since && entry.recordedAt <= now);
+  const readings = recent.filter(entry => entry.kind === 'glucose');
+  const values = readings.map(entry => entry.value);
+  const insulin = recent.filter(entry => entry.kind === 'insulin');
+
+  const byMealContext: GlucoseSummary['byMealContext'] = {};
+  readings.forEach(entry => {
+    const context = entry.mealContext || 'other';
+    const group = byMealContext[context] || { count: 0, average: 0 };
+    group.average = (group.average * group.count + entry.value) / (group.count + 1);
+    group.count += 1;
+    byMealContext[context] = group;
+  });
+
+  const averageGlucose = values.length > 0 ? Math.round(average(values)) : undefined;
+
+  return {
+    days,
+    readingCount: readings.length,
+    averageGlucose,
+    estimatedHbA1c: averageGlucose !== undefined ? estimateHbA1c(average(values)) : undefined,
+    timeInRange: timeInRange(values) || undefined,
+    byMealContext,
+    insulinUnitsPerDay: insulin.length > 0
+      ? Math.round((insulin.reduce((sum, entry) => sum + entry.value, 0) / days) * 10) / 10
+      : undefined,
+    latestReading: readings[readings.length - 1],
+    latestHbA1c: sorted.filter(entry => entry.kind === 'hba1c' && entry.recordedAt <= now).pop()
+  };
+};
+
+export const createGlucoseEntryId = (now: number = Date.now()): string =>
+  `glucose-${now}-${Math.random().toString(36).substr(2, 9)}`;
@@ -0,0 +1,99 @@
+// Tests for the message catalogues and ICU message formatting
+import en from '../locales/en';
+import sw from '../locales/sw';
+import { MessageKey, formatDate, formatMessage, formatTime, isLanguage, parseMessage, translate } from './i18n';
+
+// 00:30 on 6 March in Nairobi, still 5 March in UTC
+const LATE_EVENING_UTC = Date.UTC(2024, 2, 5, 21, 30);
+
+const argumentNames = (message: string): string[] => {
+  const names: string[] = [];
+  const pattern = /\{\s*(\w+)\s*[,}]/g;
+  let match = pattern.exec(message);
+  while (match) {
+    if (names.indexOf(match[1]) === -1) names.push(match[1]);
+    match = pattern.exec(message);
+  }
+  return names.sort();
+};
+
+describe('i18n', () => {
+  describe('formatMessage', () => {
+    it('substitutes simple arguments and leaves missing ones visible', () => {
+      expect(formatMessage('Welcome back, {name}', { name: 'Wanjiku' }, 'en')).toBe('Welcome back, Wanjiku');
+      expect(formatMessage('Welcome back, {name}', {}, 'en')).toBe('Welcome back, {name}');
+    });
+
+    it('picks plural forms, with exact matches before the language rules', () => {
+      const message = '{count, plural, =0 {No updates} one {# update} other {# updates}}';
+      expect(formatMessage(message, { count: 0 }, 'en')).toBe('No updates');
+      expect(formatMessage(message, { count: 1 }, 'en')).toBe('1 update');
+      expect(formatMessage(message, { count: 1200 }, 'en')).toBe('1,200 updates');
+      expect(formatMessage('{count, plural, one {ombi #} other {maombi #}}', { count: 3 }, 'sw')).toBe('maombi 3');
+    });
+
+    it('chooses select branches and falls back to other', () => {
+      const message = '{role, select, doctor {Daktari} patient {Mgonjwa} other {Mtumiaji}}';
+      expect(formatMessage(message, { role: 'doctor' }, 'sw')).toBe('Daktari');
+      expect(formatMessage(message, { role: 'admin' }, 'sw')).toBe('Mtumiaji');
+    });
+
+    it('treats quoted braces and doubled apostrophes as text', () => {
+      expect(formatMessage("You''ll see '{name}' here, {name}", { name: 'Amina' }, 'en')).toBe("You'll see {name} here, Amina");
+      expect(formatMessage("Doctor's note", {}, 'en')).toBe("Doctor's note");
+    });
+
+    it('rejects malformed messages', () => {
+      expect(() => parseMessage('Hello {name')).toThrow('Malformed message');
+      expect(() => parseMessage('{count, plural, one {#}}')).toThrow('"other"');
+      expect(() => parseMessage('Hello }')).toThrow('unbalanced');
+    });
+  });
+
+  describe('dates', () => {
+    it('formats in East Africa Time whatever the device time zone', () => {
+      expect(formatDate(LATE_EVENING_UTC, 'en')).toBe('6 Mar 2024');
+      expect(formatDate(LATE_EVENING_UTC, 'sw', 'long')).toBe('6 Machi 2024');
+      expect(formatTime(LATE_EVENING_UTC, 'sw')).toBe('00:30');
+    });
+
+    it('formats date arguments inside messages', () => {
+      expect(formatMessage('{at, date, medium} {at, time}', { at: LATE_EVENING_UTC }, 'sw')).toBe('6 Mac 2024 00:30');
+      expect(formatDate('not a date', 'en')).toBe('');
+    });
+  });
+
+  describe('catalogues', () => {
+    const keys = Object.keys(en) as MessageKey[];
+
+    it('translates every English message into Kiswahili with the same arguments', () => {
+      keys.forEach(key => {
+        expect([key, sw[key] !== undefined && sw[key] !== '']).toEqual([key, true]);
+        expect([key, argumentNames(sw[key])]).toEqual([key, argumentNames(en[key])]);
+      });
+    });
+
+    it('only contains messages that parse', () => {
+      keys.forEach(key => {
+        expect(() => parseMessage(en[key])).not.toThrow();
+        expect(() => parseMessage(sw[key])).not.toThrow();
+      });
+    });
+
+    it('translates keys and formats their arguments', () => {
+      expect(translate('en', 'doctorDashboard.realtimeUpdates', { count: 1 })).toBe('1 real-time update');
+      expect(translate('sw', 'doctorDashboard.realtimeUpdates', { count: 2 })).toBe('taarifa 2 za moja kwa moja');
+      expect(translate('sw', 'common.lastUpdated', { time: LATE_EVENING_UTC })).toBe('Ilisasishwa: 00:30');
+    });
+
+    it('shows the key itself for a message no catalogue has', () => {
+      expect(translate('sw', 'common.unknown' as MessageKey)).toBe('common.unknown');
+    });
+
+    it('recognises only the supported languages', () => {
+      expect(isLanguage('sw')).toBe(true);
+      expect(isLanguage('fr')).toBe(false);
+      expect(isLanguage(undefined)).toBe(false);
+    });
+  });
+});
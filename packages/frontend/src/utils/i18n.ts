@@ -0,0 +1,249 @@
+// Localized UI text: catalogue lookup, a subset of ICU MessageFormat, and East Africa Time date formatting
+import { Language } from '../types';
+import en, { MessageKey } from '../locales/en';
+import sw from '../locales/sw';
+
+export type { MessageKey };
+
+export type MessageValue = string | number | Date | undefined;
+export type MessageValues = { [name: string]: MessageValue };
+
+export interface LanguageOption {
+  code: Language;
+  label: string; // In the language itself, so a reader can always find their own
+  locale: string;
+}
+
+export const LANGUAGES: LanguageOption[] = [
+  { code: 'en', label: 'English', locale: 'en-KE' },
+  { code: 'sw', label: 'Kiswahili', locale: 'sw-KE' }
+];
+
+export const DEFAULT_LANGUAGE: Language = 'en';
+
+// Clinics and their patients are in Kenya, so times read the same whatever the device clock says
+export const TIME_ZONE = 'Africa/Nairobi';
+
+const CATALOGUES: Record<Language, Record<MessageKey, string>> = { en, sw };
+
+export const isLanguage = (value: unknown): value is Language =>
+  LANGUAGES.some(option => option.code === value);
+
+export const localeFor = (language: Language): string =>
+  (LANGUAGES.find(option => option.code === language) || LANGUAGES[0]).locale;
+
+// =======================
+// NUMBERS AND DATES
+// =======================
+
+export type DateStyle = 'short' | 'medium' | 'long' | 'full';
+export type TimeStyle = 'short' | 'medium';
+
+const DATE_STYLES: Record<DateStyle, Intl.DateTimeFormatOptions> = {
+  short: { day: 'numeric', month: 'numeric', year: 'numeric' },
+  medium: { day: 'numeric', month: 'short', year: 'numeric' },
+  long: { day: 'numeric', month: 'long', year: 'numeric' },
+  full: { weekday: 'long', day: 'numeric', month: 'long', year: 'numeric' }
+};
+
+const TIME_STYLES: Record<TimeStyle, Intl.DateTimeFormatOptions> = {
+  short: { hour: '2-digit', minute: '2-digit' },
+  medium: { hour: '2-digit', minute: '2-digit', second: '2-digit' }
+};
+
+const toDate = (value: Date | number | string): Date | null => {
+  const date = value instanceof Date ? value : new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+// Epoch milliseconds, ISO strings and Dates; anything unparseable formats as ''
+export const formatDate = (value: Date | number | string, language: Language, style: DateStyle = 'medium'): string => {
+  const date = toDate(value);
+  return date
+    ? new Intl.DateTimeFormat(localeFor(language), { ...DATE_STYLES[style], timeZone: TIME_ZONE }).format(date)
+    : '';
+};
+
+export const formatTime = (value: Date | number | string, language: Language, style: TimeStyle = 'short'): string => {
+  const date = toDate(value);
+  return date
+    ? new Intl.DateTimeFormat(localeFor(language), { ...TIME_STYLES[style], timeZone: TIME_ZONE }).format(date)
+    : '';
+};
+
+export const formatNumber = (value: number, language: Language, style?: string): string => {
+  const options: Intl.NumberFormatOptions =
+    style === 'percent' ? { style: 'percent' } : style === 'integer' ? { maximumFractionDigits: 0 } : {};
+  return new Intl.NumberFormat(localeFor(language), options).format(value);
+};
+
+// =======================
+// MESSAGE FORMAT
+// =======================
+// Supported: {name}, {n, number[, integer|percent]}, {d, date[, short|medium|long|full]},
+// {d, time[, short|medium]}, {n, plural, =0 {...} one {...} other {...}} with # for the count,
+// and {key, select, a {...} other {...}}. Apostrophes quote as in ICU: '' is one apostrophe and
+// '{...}' is literal text; any other apostrophe is kept as typed.
+
+interface ArgumentPart {
+  name: string;
+  type?: string;
+  style?: string;
+  options?: { [selector: string]: MessagePart[] };
+}
+
+type MessagePart = string | ArgumentPart | { count: true };
+
+interface Cursor {
+  text: string;
+  pos: number;
+}
+
+const malformed = (cursor: Cursor, reason: string): Error =>
+  new Error(`Malformed message at ${cursor.pos} (${reason}): ${cursor.text}`);
+
+const skipSpace = (cursor: Cursor) => {
+  while (cursor.pos < cursor.text.length && /\s/.test(cursor.text[cursor.pos])) cursor.pos++;
+};
+
+// Reads up to (not including) the next of the stop characters
+const readUntil = (cursor: Cursor, stops: string): string => {
+  const start = cursor.pos;
+  while (cursor.pos < cursor.text.length && stops.indexOf(cursor.text[cursor.pos]) === -1) cursor.pos++;
+  return cursor.text.slice(start, cursor.pos).trim();
+};
+
+const expect = (cursor: Cursor, char: string) => {
+  if (cursor.text[cursor.pos] !== char) throw malformed(cursor, `expected "${char}"`);
+  cursor.pos++;
+};
+
+const parseParts = (cursor: Cursor, inPlural: boolean): MessagePart[] => {
+  const parts: MessagePart[] = [];
+  let literal = '';
+  const flush = () => {
+    if (literal) parts.push(literal);
+    literal = '';
+  };
+
+  while (cursor.pos < cursor.text.length) {
+    const char = cursor.text[cursor.pos];
+    if (char === '}') break;
+    if (char === '{') {
+      flush();
+      parts.push(parseArgument(cursor, inPlural));
+    } else if (char === '#' && inPlural) {
+      flush();
+      parts.push({ count: true });
+      cursor.pos++;
+    } else if (char === "'") {
+      const next = cursor.text[cursor.pos + 1];
+      if (next === "'") {
+        literal += "'";
+        cursor.pos += 2;
+      } else if (next === '{' || next === '}' || (next === '#' && inPlural)) {
+        const end = cursor.text.indexOf("'", cursor.pos + 1);
+        if (end === -1) throw malformed(cursor, 'unterminated quote');
+        literal += cursor.text.slice(cursor.pos + 1, end);
+        cursor.pos = end + 1;
+      } else {
+        literal += char;
+        cursor.pos++;
+      }
+    } else {
+      literal += char;
+      cursor.pos++;
+    }
+  }
+  flush();
+  return parts;
+};
+
+const parseArgument = (cursor: Cursor, inPlural: boolean): ArgumentPart => {
+  expect(cursor, '{');
+  const name = readUntil(cursor, ',}');
+  if (!name) throw malformed(cursor, 'missing argument name');
+  if (cursor.text[cursor.pos] === '}') {
+    cursor.pos++;
+    return { name };
+  }
+
+  expect(cursor, ',');
+  const type = readUntil(cursor, ',}');
+  if (type !== 'plural' && type !== 'select') {
+    let style: string | undefined;
+    if (cursor.text[cursor.pos] === ',') {
+      cursor.pos++;
+      style = readUntil(cursor, '}');
+    }
+    expect(cursor, '}');
+    return { name, type, style };
+  }
+
+  expect(cursor, ',');
+  const options: { [selector: string]: MessagePart[] } = {};
+  skipSpace(cursor);
+  while (cursor.text[cursor.pos] !== '}') {
+    const selector = readUntil(cursor, '{}');
+    if (!selector || cursor.pos >= cursor.text.length) throw malformed(cursor, `bad ${type} option`);
+    expect(cursor, '{');
+    options[selector] = parseParts(cursor, type === 'plural' || inPlural);
+    expect(cursor, '}');
+    skipSpace(cursor);
+  }
+  if (!options.other) throw malformed(cursor, `${type} needs an "other" option`);
+  expect(cursor, '}');
+  return { name, type, options };
+};
+
+const compiled: { [message: string]: MessagePart[] } = {};
+
+// Throws on malformed messages; catalogue tests parse every message so this never fires at runtime
+export const parseMessage = (message: string): MessagePart[] => {
+  if (!compiled[message]) {
+    const cursor: Cursor = { text: message, pos: 0 };
+    const parts = parseParts(cursor, false);
+    if (cursor.pos < message.length) throw malformed(cursor, 'unbalanced "}"');
+    compiled[message] = parts;
+  }
+  return compiled[message];
+};
+
+const formatParts = (parts: MessagePart[], values: MessageValues, language: Language, count?: number): string =>
+  parts
+    .map(part => {
+      if (typeof part === 'string') return part;
+      if ('count' in part) return count === undefined ? '#' : formatNumber(count, language);
+
+      const value = values[part.name];
+      if (value === undefined) return `{${part.name}}`;
+      const options = part.options || {};
+
+      switch (part.type) {
+        case 'plural': {
+          const n = Number(value);
+          const chosen = options[`=${n}`] || options[new Intl.PluralRules(localeFor(language)).select(n)] || options.other;
+          return formatParts(chosen, values, language, n);
+        }
+        case 'select':
+          return formatParts(options[String(value)] || options.other, values, language, count);
+        case 'number':
+          return formatNumber(Number(value), language, part.style);
+        case 'date':
+          return formatDate(value, language, part.style && part.style in DATE_STYLES ? (part.style as DateStyle) : 'medium');
+        case 'time':
+          return formatTime(value, language, part.style === 'medium' ? 'medium' : 'short');
+        default:
+          if (typeof value === 'number') return formatNumber(value, language);
+          if (value instanceof Date) return formatDate(value, language);
+          return value;
+      }
+    })
+    .join('');
+
+export const formatMessage = (message: string, values: MessageValues, language: Language): string =>
+  formatParts(parseMessage(message), values, language);
+
+// Falls back to English for a message the catalogue has not translated
+export const translate = (language: Language, key: MessageKey, values: MessageValues = {}): string =>
+  formatMessage(CATALOGUES[language][key] || en[key] || key, values, language);
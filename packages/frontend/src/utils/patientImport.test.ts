@@ -0,0 +1,156 @@
+// Tests for importing FHIR bundles and clinic CSV rows into the registration form
+import { FhirBundle, buildPatientBundle } from './fhir';
+import {
+  PatientRegistrationValues,
+  applyImport,
+  legacyPatientToPatientData,
+  parseCsvImport,
+  parseFhirImport,
+  registrationToPatientData,
+  reviewImport
+} from './patientImport';
+
+const emptyForm = (): PatientRegistrationValues => ({
+  firstName: '',
+  lastName: '',
+  email: '',
+  phone: '',
+  dateOfBirth: '',
+  gender: '',
+  ssn: '',
+  street: '',
+  city: '',
+  state: '',
+  zipCode: '',
+  country: 'United States',
+  emergencyContacts: [{ name: '', relationship: '', phone: '', email: '' }],
+  insuranceProvider: '',
+  insurancePolicyNumber: '',
+  insuranceGroupNumber: '',
+  bloodType: '',
+  height: '',
+  weight: '',
+  allergies: [],
+  medicalConditions: [],
+  currentMedications: [],
+  surgicalHistory: '',
+  familyHistory: '',
+  smokingStatus: '',
+  alcoholConsumption: '',
+  exerciseFrequency: '',
+  dietaryRestrictions: '',
+  hipaaConsent: false,
+  treatmentConsent: false,
+  dataProcessingConsent: false,
+  aiProcessingConsent: false,
+  communicationPreferences: [],
+  marketingConsent: false
+});
+
+const fhirBundle = {
+  resourceType: 'Bundle',
+  type: 'collection',
+  entry: [
+    {
+      resource: {
+        resourceType: 'Patient',
+        identifier: [{ system: 'urn:clinic:mrn', value: 'MRN-77' }],
+        name: [{ use: 'official', family: 'Wanjiru', given: ['Grace', 'Njeri'] }],
+        telecom: [{ system: 'phone', value: '+254 700 123 456' }, { system: 'email', value: 'grace@example.com' }],
+        gender: 'female',
+        birthDate: '1990-06-01',
+        address: [{ line: ['4 Kenyatta Road'], city: 'Nakuru', country: 'Kenya' }]
+      }
+    },
+    {
+      resource: {
+        resourceType: 'Condition',
+        clinicalStatus: { coding: [{ code: 'resolved' }] },
+        code: { coding: [{ system: 'http://snomed.info/sct', code: '38341003', display: 'Hypertension' }] },
+        onsetDateTime: '2015-02-10T00:00:00Z'
+      }
+    },
+    { resource: { resourceType: 'Immunization', id: 'imm-1' } }
+  ]
+};
+
+describe('patientImport', () => {
+  it('maps a FHIR Patient and Condition bundle and lists what it could not place', () => {
+    const result = parseFhirImport(JSON.stringify(fhirBundle));
+
+    expect(result.values).toEqual({
+      firstName: 'Grace',
+      lastName: 'Wanjiru',
+      phone: '+254700123456',
+      email: 'grace@example.com',
+      gender: 'female',
+      dateOfBirth: '1990-06-01',
+      street: '4 Kenyatta Road',
+      city: 'Nakuru',
+      country: 'Kenya',
+      medicalConditions: [{ condition: 'Hypertension', diagnosedDate: '2015-02-10', status: 'resolved' }]
+    });
+    expect(result.unmapped).toEqual([
+      { source: 'Patient.identifier (urn:clinic:mrn)', value: 'MRN-77' },
+      { source: 'Immunization', value: 'imm-1' }
+    ]);
+    expect(() => parseFhirImport('{"resourceType":"Bundle","entry":[]}')).toThrow('no Patient resource');
+  });
+
+  it('reads back a bundle exported by the patient profile', () => {
+    const form = { ...emptyForm(), firstName: 'Amina', lastName: 'Otieno', weight: '154', height: '170cm', allergies: ['Penicillin'] };
+    const bundle: FhirBundle = buildPatientBundle({ patient: registrationToPatientData(form, 'patient_1', 0), vitals: [], queries: [] }, 0);
+    const { values } = parseFhirImport(JSON.stringify(bundle));
+
+    expect(values).toMatchObject({ firstName: 'Amina', lastName: 'Otieno', weight: '154', height: '170cm', allergies: ['Penicillin'] });
+  });
+
+  it('maps clinic CSV columns, quoted cells and list cells', () => {
+    const csv = [
+      'Patient Name,DOB,Sex,Phone,Blood Group,Allergies,Emergency Contact,Emergency Contact Phone,Ward',
+      '"Otieno, Amina",15/03/1985,F,0712 345 678,O positive,"Penicillin; Sulfa",Peter Otieno,0722000000,B4',
+      'Second Patient,01/01/1970,M,0700000000,A+,,,,'
+    ].join('\r\n');
+    const result = parseCsvImport(csv);
+
+    expect(result.values).toEqual({
+      firstName: 'Amina',
+      lastName: 'Otieno',
+      dateOfBirth: '1985-03-15',
+      gender: 'female',
+      phone: '0712345678',
+      bloodType: 'O+',
+      allergies: ['Penicillin', 'Sulfa'],
+      emergencyContacts: [{ name: 'Peter Otieno', relationship: '', phone: '0722000000', email: '' }]
+    });
+    expect(result.unmapped).toEqual([{ source: 'Ward', value: 'B4' }]);
+    expect(result.warnings).toEqual(['The CSV holds 2 rows; only the first patient was imported']);
+  });
+
+  it('flags conflicts with values already on the form and applies only accepted fields', () => {
+    const form = { ...emptyForm(), firstName: 'Grace', lastName: 'Kamau' };
+    const imported = parseFhirImport(JSON.stringify(fhirBundle)).values;
+    const review = reviewImport(form, imported);
+
+    expect(review.slice(0, 3).map(row => [row.field, row.status])).toEqual([
+      ['firstName', 'same'],
+      ['lastName', 'conflict'],
+      ['email', 'new']
+    ]);
+    const applied = applyImport(form, imported, ['email', 'medicalConditions']);
+    expect(applied.lastName).toBe('Kamau');
+    expect(applied.email).toBe('grace@example.com');
+    expect(applied.medicalConditions).toHaveLength(1);
+  });
+
+  it('builds a full record from a legacy account', () => {
+    const record = legacyPatientToPatientData(
+      { id: 'patient_3', name: 'Amina Wanjiru Otieno', condition: 'Type 2 diabetes, Hypertension', email: 'amina@example.com', assignedDoctorId: 'doctor_1', isActive: true },
+      0
+    );
+
+    expect(record).toMatchObject({ id: 'patient_3', firstName: 'Amina', lastName: 'Wanjiru Otieno', email: 'amina@example.com' });
+    expect(record.medicalHistory.conditions).toEqual(['Type 2 diabetes', 'Hypertension']);
+    expect(record.assignedDoctorIds).toEqual(['doctor_1']);
+  });
+});
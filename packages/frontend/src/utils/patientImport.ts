@@ -0,0 +1,784 @@
+// Registration import: maps a FHIR Patient/Condition bundle or a clinic CSV row onto the registration form
+import { BloodType, Gender, Patient, PatientData } from '../types';
+
+// =======================
+// REGISTRATION FORM VALUES
+// =======================
+
+export interface EmergencyContactValues {
+  name: string;
+  relationship: string;
+  phone: string;
+  email?: string;
+}
+
+export interface MedicalConditionValues {
+  condition: string;
+  diagnosedDate: string;
+  status: 'active' | 'resolved' | 'chronic';
+}
+
+export interface MedicationValues {
+  name: string;
+  dosage: string;
+  frequency: string;
+  prescribedBy: string;
+}
+
+export interface PatientRegistrationValues {
+  // Personal Information
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone: string;
+  dateOfBirth: string;
+  gender: string;
+  ssn: string;
+
+  // Address Information
+  street: string;
+  city: string;
+  state: string;
+  zipCode: string;
+  country: string;
+
+  // Emergency Contacts
+  emergencyContacts: EmergencyContactValues[];
+
+  // Insurance Information
+  insuranceProvider: string;
+  insurancePolicyNumber: string;
+  insuranceGroupNumber: string;
+
+  // Medical Information
+  bloodType: string;
+  height: string;
+  weight: string; // Pounds
+  allergies: string[];
+  medicalConditions: MedicalConditionValues[];
+  currentMedications: MedicationValues[];
+  surgicalHistory: string;
+  familyHistory: string;
+
+  // Lifestyle Information
+  smokingStatus: string;
+  alcoholConsumption: string;
+  exerciseFrequency: string;
+  dietaryRestrictions: string;
+
+  // Consent and Agreements
+  hipaaConsent: boolean;
+  treatmentConsent: boolean;
+  dataProcessingConsent: boolean;
+  aiProcessingConsent: boolean;
+  communicationPreferences: string[];
+  marketingConsent: boolean;
+}
+
+export type ImportableField =
+  | 'firstName'
+  | 'lastName'
+  | 'email'
+  | 'phone'
+  | 'dateOfBirth'
+  | 'gender'
+  | 'street'
+  | 'city'
+  | 'state'
+  | 'zipCode'
+  | 'country'
+  | 'emergencyContacts'
+  | 'insuranceProvider'
+  | 'insurancePolicyNumber'
+  | 'insuranceGroupNumber'
+  | 'bloodType'
+  | 'height'
+  | 'weight'
+  | 'allergies'
+  | 'medicalConditions'
+  | 'currentMedications';
+
+export const IMPORTABLE_FIELD_LABELS: Record<ImportableField, string> = {
+  firstName: 'First name',
+  lastName: 'Last name',
+  email: 'Email',
+  phone: 'Phone number',
+  dateOfBirth: 'Date of birth',
+  gender: 'Gender',
+  street: 'Street address',
+  city: 'City',
+  state: 'State / County',
+  zipCode: 'ZIP / Postal code',
+  country: 'Country',
+  emergencyContacts: 'Emergency contacts',
+  insuranceProvider: 'Insurance provider',
+  insurancePolicyNumber: 'Policy number',
+  insuranceGroupNumber: 'Group number',
+  bloodType: 'Blood type',
+  height: 'Height',
+  weight: 'Weight (lbs)',
+  allergies: 'Allergies',
+  medicalConditions: 'Medical conditions',
+  currentMedications: 'Current medications'
+};
+
+export type ImportedValues = Partial<Pick<PatientRegistrationValues, ImportableField>>;
+
+// Data in the source that has no place on the form
+export interface UnmappedItem {
+  source: string; // FHIR path or CSV column
+  value: string;
+}
+
+export interface RegistrationImport {
+  format: 'fhir' | 'csv';
+  values: ImportedValues;
+  unmapped: UnmappedItem[];
+  warnings: string[];
+}
+
+// =======================
+// NORMALIZATION
+// =======================
+
+const LBS_PER_KG = 2.20462;
+const CM_PER_INCH = 2.54;
+
+const round1 = (value: number): number => Math.round(value * 10) / 10;
+
+export const normalizeGender = (value: string): string | undefined => {
+  const key = value.trim().toLowerCase();
+  if (key === 'm' || key === 'male') return 'male';
+  if (key === 'f' || key === 'female') return 'female';
+  if (key === 'other' || key === 'o') return 'other';
+  if (key === 'unknown' || key === 'u' || key === 'prefer-not-to-say' || key === 'prefer not to say') {
+    return 'prefer-not-to-say';
+  }
+  return undefined;
+};
+
+// Accepts "O+", "O positive" or "O_positive" spellings
+export const normalizeBloodType = (value: string): string | undefined => {
+  const match = /^\s*(AB|A|B|O)\s*[_ -]?\s*(\+|-|pos(itive)?|neg(ative)?)\s*$/i.exec(value);
+  if (!match) return value.trim().toLowerCase() === 'unknown' ? 'unknown' : undefined;
+  const positive = match[2] === '+' || /^pos/i.test(match[2]);
+  return `${match[1].toUpperCase()}${positive ? '+' : '-'}`;
+};
+
+export const normalizePhone = (value: string): string => value.replace(/[\s().-]/g, '');
+
+// ISO dates pass through; slashed dates are read day first, as clinic records here write them
+export const normalizeDate = (value: string): string | undefined => {
+  const trimmed = value.trim();
+  const iso = /^(\d{4})-(\d{2})-(\d{2})/.exec(trimmed);
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
+  const slashed = /^(\d{1,2})[/.](\d{1,2})[/.](\d{4})$/.exec(trimmed);
+  if (!slashed) return undefined;
+  const pad = (n: string) => (n.length === 1 ? `0${n}` : n);
+  return `${slashed[3]}-${pad(slashed[2])}-${pad(slashed[1])}`;
+};
+
+// Splits a multi-value cell such as "Penicillin; Sulfa"
+const splitList = (value: string): string[] => value.split(/[;|]/).map(item => item.trim()).filter(Boolean);
+
+// =======================
+// FHIR
+// =======================
+
+type Json = { [key: string]: any };
+
+const conceptText = (concept: Json | undefined): string => {
+  if (!concept) return '';
+  if (concept.text) return String(concept.text);
+  const coding = Array.isArray(concept.coding) ? concept.coding.find((c: Json) => c.display || c.code) : undefined;
+  return coding ? String(coding.display || coding.code) : '';
+};
+
+const conditionStatus = (resource: Json): MedicalConditionValues['status'] => {
+  const code = resource.clinicalStatus && Array.isArray(resource.clinicalStatus.coding)
+    ? String((resource.clinicalStatus.coding[0] || {}).code || '')
+    : '';
+  return ['inactive', 'remission', 'resolved'].indexOf(code) !== -1 ? 'resolved' : 'active';
+};
+
+const humanNameText = (name: Json): string =>
+  name.text ? String(name.text) : ([] as string[]).concat(name.given || [], name.family || []).join(' ');
+
+const LOINC_BODY_WEIGHT = '29463-7';
+const LOINC_BODY_HEIGHT = '8302-2';
+
+const hasLoinc = (resource: Json, code: string): boolean =>
+  !!resource.code && Array.isArray(resource.code.coding) && resource.code.coding.some((c: Json) => c.code === code);
+
+const mapFhirPatient = (patient: Json, result: RegistrationImport) => {
+  const { values, unmapped } = result;
+  const names: Json[] = Array.isArray(patient.name) ? patient.name : [];
+  const name = names.find(n => n.use === 'official') || names[0];
+  if (name) {
+    if (Array.isArray(name.given) && name.given.length > 0) values.firstName = String(name.given[0]);
+    if (name.family) values.lastName = String(name.family);
+    if (!name.family && !name.given && name.text) {
+      const parts = String(name.text).trim().split(/\s+/);
+      values.firstName = parts[0];
+      if (parts.length > 1) values.lastName = parts.slice(1).join(' ');
+    }
+  }
+  names.filter(n => n !== name).forEach(n => unmapped.push({ source: 'Patient.name', value: humanNameText(n) }));
+
+  (Array.isArray(patient.telecom) ? patient.telecom : []).forEach((point: Json) => {
+    if (point.system === 'phone' && !values.phone) {
+      values.phone = normalizePhone(String(point.value));
+    } else if (point.system === 'email' && !values.email) {
+      values.email = String(point.value);
+    } else {
+      unmapped.push({ source: `Patient.telecom (${point.system})`, value: String(point.value) });
+    }
+  });
+
+  if (patient.birthDate) values.dateOfBirth = normalizeDate(String(patient.birthDate));
+  if (patient.gender) values.gender = normalizeGender(String(patient.gender));
+
+  const addresses: Json[] = Array.isArray(patient.address) ? patient.address : [];
+  if (addresses.length > 0) {
+    const address = addresses[0];
+    const line = Array.isArray(address.line) ? address.line.join(', ') : address.text;
+    if (line) values.street = String(line);
+    if (address.city) values.city = String(address.city);
+    if (address.state) values.state = String(address.state);
+    if (address.postalCode) values.zipCode = String(address.postalCode);
+    if (address.country) values.country = String(address.country);
+  }
+  addresses.slice(1).forEach(address => unmapped.push({
+    source: 'Patient.address',
+    value: address.text || ([] as string[]).concat(address.line || [], address.city || [], address.country || []).join(', ')
+  }));
+
+  (Array.isArray(patient.identifier) ? patient.identifier : []).forEach((identifier: Json) =>
+    unmapped.push({ source: `Patient.identifier${identifier.system ? ` (${identifier.system})` : ''}`, value: String(identifier.value) })
+  );
+};
+
+// Condition resources fill the conditions list; the other clinical resources this app exports are read back too
+const mapFhirResource = (resource: Json, result: RegistrationImport) => {
+  const { values, unmapped } = result;
+  switch (resource.resourceType) {
+    case 'Patient':
+      mapFhirPatient(resource, result);
+      return;
+    case 'Condition': {
+      const condition = conceptText(resource.code);
+      if (!condition) return;
+      const date = resource.onsetDateTime || resource.recordedDate;
+      values.medicalConditions = (values.medicalConditions || []).concat({
+        condition,
+        diagnosedDate: date ? normalizeDate(String(date)) || '' : '',
+        status: conditionStatus(resource)
+      });
+      return;
+    }
+    case 'MedicationStatement': {
+      const name = conceptText(resource.medicationCodeableConcept);
+      if (name) {
+        values.currentMedications = (values.currentMedications || []).concat({ name, dosage: '', frequency: '', prescribedBy: '' });
+      }
+      return;
+    }
+    case 'AllergyIntolerance': {
+      const allergy = conceptText(resource.code);
+      if (allergy) values.allergies = (values.allergies || []).concat(allergy);
+      return;
+    }
+    case 'RelatedPerson': {
+      const names: Json[] = Array.isArray(resource.name) ? resource.name : [];
+      const telecom: Json[] = Array.isArray(resource.telecom) ? resource.telecom : [];
+      const phone = telecom.find(point => point.system === 'phone');
+      const email = telecom.find(point => point.system === 'email');
+      values.emergencyContacts = (values.emergencyContacts || []).concat({
+        name: names[0] ? humanNameText(names[0]) : '',
+        relationship: Array.isArray(resource.relationship) ? conceptText(resource.relationship[0]) : '',
+        phone: phone ? normalizePhone(String(phone.value)) : '',
+        email: email ? String(email.value) : ''
+      });
+      return;
+    }
+    case 'Coverage': {
+      const payor = Array.isArray(resource.payor) ? resource.payor[0] : undefined;
+      if (payor && payor.display) values.insuranceProvider = String(payor.display);
+      const policy = Array.isArray(resource.identifier) ? resource.identifier[0] : undefined;
+      if (policy && policy.value) values.insurancePolicyNumber = String(policy.value);
+      const group = Array.isArray(resource.class) ? resource.class.find((c: Json) => conceptText(c.type).toLowerCase() === 'group') : undefined;
+      if (group && group.value) values.insuranceGroupNumber = String(group.value);
+      return;
+    }
+    case 'Observation': {
+      const quantity = resource.valueQuantity;
+      if (quantity && hasLoinc(resource, LOINC_BODY_WEIGHT)) {
+        const kg = quantity.code === '[lb_av]' ? Number(quantity.value) / LBS_PER_KG : Number(quantity.value);
+        values.weight = String(Math.round(kg * LBS_PER_KG));
+        return;
+      }
+      if (quantity && hasLoinc(resource, LOINC_BODY_HEIGHT)) {
+        const cm = quantity.code === '[in_i]' ? Number(quantity.value) * CM_PER_INCH : Number(quantity.value);
+        values.height = `${Math.round(cm)}cm`;
+        return;
+      }
+      unmapped.push({
+        source: 'Observation',
+        value: quantity ? `${conceptText(resource.code)}: ${[quantity.value, quantity.unit].filter(Boolean).join(' ')}` : conceptText(resource.code)
+      });
+      return;
+    }
+    default:
+      unmapped.push({ source: String(resource.resourceType || 'Unknown resource'), value: conceptText(resource.code) || String(resource.id || '') });
+  }
+};
+
+// Drops fields whose source value could not be normalized
+const withoutUnreadValues = (result: RegistrationImport): RegistrationImport => {
+  (Object.keys(result.values) as ImportableField[]).forEach(field => {
+    if (result.values[field] === undefined) delete result.values[field];
+  });
+  return result;
+};
+
+// Accepts a Bundle or a single resource; throws when the text is not FHIR JSON
+export const parseFhirImport = (text: string): RegistrationImport => {
+  let json: Json;
+  try {
+    json = JSON.parse(text);
+  } catch (error) {
+    throw new Error('The file is not valid JSON');
+  }
+  if (!json || typeof json.resourceType !== 'string') {
+    throw new Error('The file is not a FHIR resource or bundle');
+  }
+
+  const resources: Json[] = json.resourceType === 'Bundle'
+    ? (Array.isArray(json.entry) ? json.entry : []).map((entry: Json) => entry.resource).filter(Boolean)
+    : [json];
+  const patients = resources.filter(resource => resource.resourceType === 'Patient');
+  if (patients.length === 0) {
+    throw new Error('The FHIR data has no Patient resource');
+  }
+
+  const result: RegistrationImport = { format: 'fhir', values: {}, unmapped: [], warnings: [] };
+  if (patients.length > 1) {
+    result.warnings.push(`The bundle holds ${patients.length} patients; only the first was imported`);
+  }
+  resources
+    .filter(resource => resource.resourceType !== 'Patient' || resource === patients[0])
+    .forEach(resource => mapFhirResource(resource, result));
+  return withoutUnreadValues(result);
+};
+
+// =======================
+// CSV
+// =======================
+
+// RFC 4180 rows: quoted cells may hold commas, quotes ("") and line breaks
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter(cells => cells.some(value => value.trim()));
+};
+
+type CsvTarget =
+  | Exclude<ImportableField, 'emergencyContacts' | 'allergies' | 'medicalConditions' | 'currentMedications'>
+  | 'fullName'
+  | 'allergies'
+  | 'medicalConditions'
+  | 'currentMedications'
+  | 'contactName'
+  | 'contactRelationship'
+  | 'contactPhone'
+  | 'contactEmail';
+
+// Column headers clinics commonly use, compared lowercased with spaces and punctuation removed
+const CSV_COLUMNS: { [header: string]: CsvTarget } = {
+  firstname: 'firstName',
+  givenname: 'firstName',
+  lastname: 'lastName',
+  surname: 'lastName',
+  familyname: 'lastName',
+  name: 'fullName',
+  fullname: 'fullName',
+  patientname: 'fullName',
+  email: 'email',
+  emailaddress: 'email',
+  phone: 'phone',
+  phonenumber: 'phone',
+  mobile: 'phone',
+  telephone: 'phone',
+  dob: 'dateOfBirth',
+  dateofbirth: 'dateOfBirth',
+  birthdate: 'dateOfBirth',
+  gender: 'gender',
+  sex: 'gender',
+  address: 'street',
+  street: 'street',
+  streetaddress: 'street',
+  city: 'city',
+  town: 'city',
+  state: 'state',
+  county: 'state',
+  region: 'state',
+  zip: 'zipCode',
+  zipcode: 'zipCode',
+  postalcode: 'zipCode',
+  postcode: 'zipCode',
+  country: 'country',
+  bloodtype: 'bloodType',
+  bloodgroup: 'bloodType',
+  height: 'height',
+  heightcm: 'height',
+  weight: 'weight',
+  weightlbs: 'weight',
+  allergies: 'allergies',
+  conditions: 'medicalConditions',
+  diagnoses: 'medicalConditions',
+  medicalconditions: 'medicalConditions',
+  medications: 'currentMedications',
+  currentmedications: 'currentMedications',
+  emergencycontact: 'contactName',
+  emergencycontactname: 'contactName',
+  emergencycontactrelationship: 'contactRelationship',
+  emergencycontactphone: 'contactPhone',
+  emergencycontactemail: 'contactEmail',
+  insurance: 'insuranceProvider',
+  insuranceprovider: 'insuranceProvider',
+  policynumber: 'insurancePolicyNumber',
+  insurancepolicynumber: 'insurancePolicyNumber',
+  groupnumber: 'insuranceGroupNumber',
+  insurancegroupnumber: 'insuranceGroupNumber'
+};
+
+const headerKey = (header: string): string => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Heights without a unit are read as centimetres; "5'10"" style heights are kept as typed
+const normalizeHeight = (value: string): string | undefined => {
+  const trimmed = value.trim();
+  if (/^\d+'\s*\d+"?$|^\d+\s*(cm|in)$/.test(trimmed)) return trimmed;
+  return /^\d+(\.\d+)?$/.test(trimmed) ? `${Math.round(Number(trimmed))}cm` : undefined;
+};
+
+// The first data row after the header is imported
+export const parseCsvImport = (text: string): RegistrationImport => {
+  const rows = parseCsv(text);
+  if (rows.length < 2) {
+    throw new Error('The CSV needs a header row and a patient row');
+  }
+  const [header, row] = rows;
+  const result: RegistrationImport = { format: 'csv', values: {}, unmapped: [], warnings: [] };
+  if (rows.length > 2) {
+    result.warnings.push(`The CSV holds ${rows.length - 1} rows; only the first patient was imported`);
+  }
+
+  const { values, unmapped, warnings } = result;
+  const contact: EmergencyContactValues = { name: '', relationship: '', phone: '', email: '' };
+  header.forEach((column, index) => {
+    const raw = (row[index] || '').trim();
+    if (!raw) return;
+    const key = headerKey(column);
+    const target: CsvTarget | undefined = Object.prototype.hasOwnProperty.call(CSV_COLUMNS, key) ? CSV_COLUMNS[key] : undefined;
+    const reject = () => warnings.push(`"${raw}" in column ${column} could not be read`);
+
+    switch (target) {
+      case undefined:
+        unmapped.push({ source: column, value: raw });
+        break;
+      case 'fullName': {
+        // "Otieno, Amina" is surname first
+        const comma = raw.indexOf(',');
+        const parts = comma === -1 ? raw.split(/\s+/) : [raw.slice(comma + 1).trim(), raw.slice(0, comma).trim()];
+        values.firstName = values.firstName || parts[0];
+        if (parts.length > 1) values.lastName = values.lastName || parts.slice(1).join(' ');
+        break;
+      }
+      case 'phone':
+        values.phone = normalizePhone(raw);
+        break;
+      case 'dateOfBirth':
+        values.dateOfBirth = normalizeDate(raw);
+        if (!values.dateOfBirth) reject();
+        break;
+      case 'gender':
+        values.gender = normalizeGender(raw);
+        if (!values.gender) reject();
+        break;
+      case 'bloodType':
+        values.bloodType = normalizeBloodType(raw);
+        if (!values.bloodType) reject();
+        break;
+      case 'height':
+        values.height = normalizeHeight(raw);
+        if (!values.height) reject();
+        break;
+      case 'weight':
+        if (/^\d+(\.\d+)?$/.test(raw)) values.weight = raw; else reject();
+        break;
+      case 'allergies':
+        values.allergies = splitList(raw);
+        break;
+      case 'medicalConditions':
+        values.medicalConditions = splitList(raw).map(condition => ({ condition, diagnosedDate: '', status: 'active' as const }));
+        break;
+      case 'currentMedications':
+        values.currentMedications = splitList(raw).map(name => ({ name, dosage: '', frequency: '', prescribedBy: '' }));
+        break;
+      case 'contactName':
+        contact.name = raw;
+        break;
+      case 'contactRelationship':
+        contact.relationship = raw;
+        break;
+      case 'contactPhone':
+        contact.phone = normalizePhone(raw);
+        break;
+      case 'contactEmail':
+        contact.email = raw;
+        break;
+      default:
+        values[target] = raw;
+    }
+  });
+  if (contact.name || contact.phone) {
+    values.emergencyContacts = [contact];
+  }
+  return withoutUnreadValues(result);
+};
+
+export const parseRegistrationImport = (fileName: string, text: string): RegistrationImport =>
+  /\.csv$/i.test(fileName) || !/^\s*[{[]/.test(text) ? parseCsvImport(text) : parseFhirImport(text);
+
+// =======================
+// REVIEW
+// =======================
+
+export type ImportFieldStatus = 'new' | 'same' | 'conflict';
+
+export interface ImportFieldReview {
+  field: ImportableField;
+  label: string;
+  current: string;
+  imported: string;
+  status: ImportFieldStatus;
+}
+
+export const describeFieldValue = (field: ImportableField, value: ImportedValues[ImportableField]): string => {
+  switch (field) {
+    case 'emergencyContacts':
+      return ((value || []) as EmergencyContactValues[])
+        .filter(contact => contact.name || contact.phone)
+        .map(contact => [contact.name, contact.relationship && `(${contact.relationship})`, contact.phone].filter(Boolean).join(' '))
+        .join('; ');
+    case 'medicalConditions':
+      return ((value || []) as MedicalConditionValues[]).map(item => item.condition).filter(Boolean).join('; ');
+    case 'currentMedications':
+      return ((value || []) as MedicationValues[]).map(item => item.name).filter(Boolean).join('; ');
+    case 'allergies':
+      return ((value || []) as string[]).filter(Boolean).join('; ');
+    default:
+      return String(value || '');
+  }
+};
+
+// One row per imported field, in form order; a conflict is a different value the form already holds
+export const reviewImport = (current: PatientRegistrationValues, imported: ImportedValues): ImportFieldReview[] =>
+  (Object.keys(IMPORTABLE_FIELD_LABELS) as ImportableField[])
+    .filter(field => imported[field] !== undefined && describeFieldValue(field, imported[field]) !== '')
+    .map(field => {
+      const currentText = describeFieldValue(field, current[field]);
+      const importedText = describeFieldValue(field, imported[field]);
+      return {
+        field,
+        label: IMPORTABLE_FIELD_LABELS[field],
+        current: currentText,
+        imported: importedText,
+        status: currentText === '' ? 'new' : currentText.toLowerCase() === importedText.toLowerCase() ? 'same' : 'conflict'
+      };
+    });
+
+export const applyImport = (
+  current: PatientRegistrationValues,
+  imported: ImportedValues,
+  accepted: ImportableField[]
+): PatientRegistrationValues => {
+  const next = { ...current };
+  accepted.forEach(field => {
+    if (imported[field] !== undefined) {
+      (next as { [key: string]: unknown })[field] = imported[field];
+    }
+  });
+  return next;
+};
+
+// =======================
+// REGISTRATION RECORD
+// =======================
+
+const BLOOD_TYPES: { [label: string]: BloodType } = {
+  'A+': 'A_positive',
+  'A-': 'A_negative',
+  'B+': 'B_positive',
+  'B-': 'B_negative',
+  'AB+': 'AB_positive',
+  'AB-': 'AB_negative',
+  'O+': 'O_positive',
+  'O-': 'O_negative'
+};
+
+const heightCm = (height: string): number | undefined => {
+  const feet = /^(\d+)'\s*(\d+)"?$/.exec(height.trim());
+  if (feet) return round1((Number(feet[1]) * 12 + Number(feet[2])) * CM_PER_INCH);
+  const metric = /^(\d+)\s*(cm|in)$/.exec(height.trim());
+  if (!metric) return undefined;
+  return metric[2] === 'in' ? round1(Number(metric[1]) * CM_PER_INCH) : Number(metric[1]);
+};
+
+const lines = (text: string): string[] => text.split(/\n|;/).map(line => line.trim()).filter(Boolean);
+
+// The full patient record stored alongside the account once registration succeeds
+export const registrationToPatientData = (
+  values: PatientRegistrationValues,
+  patientId: string,
+  now: number = Date.now()
+): PatientData => {
+  const contact = values.emergencyContacts.find(item => item.name) || { name: '', relationship: '', phone: '' };
+  const weight = Number(values.weight);
+  const height = heightCm(values.height);
+  return {
+    id: patientId,
+    firstName: values.firstName,
+    lastName: values.lastName,
+    email: values.email,
+    phoneNumber: values.phone,
+    dateOfBirth: values.dateOfBirth,
+    gender: (values.gender === 'prefer-not-to-say' ? 'prefer_not_to_say' : values.gender || 'prefer_not_to_say') as Gender,
+    bloodType: BLOOD_TYPES[values.bloodType] || 'unknown',
+    address: values.street,
+    city: values.city,
+    state: values.state,
+    zipCode: values.zipCode,
+    country: values.country,
+    emergencyContact: {
+      name: contact.name,
+      relationship: contact.relationship,
+      phoneNumber: contact.phone,
+      email: contact.email || undefined
+    },
+    medicalHistory: {
+      conditions: values.medicalConditions.map(item => item.condition).filter(Boolean),
+      medications: values.currentMedications
+        .filter(item => item.name)
+        .map(item => [item.name, item.dosage, item.frequency].filter(Boolean).join(' ')),
+      allergies: values.allergies.filter(Boolean),
+      surgeries: lines(values.surgicalHistory),
+      familyHistory: lines(values.familyHistory),
+      lastUpdated: now
+    },
+    currentVitals: weight > 0 || height !== undefined
+      ? {
+        weight: weight > 0 ? round1(weight / LBS_PER_KG) : undefined,
+        height,
+        recordedAt: now,
+        recordedBy: 'Patient registration'
+      }
+      : undefined,
+    insuranceInfo: values.insuranceProvider
+      ? {
+        id: `${patientId}-insurance`,
+        provider: values.insuranceProvider,
+        policyNumber: values.insurancePolicyNumber,
+        groupNumber: values.insuranceGroupNumber || undefined,
+        memberId: values.insurancePolicyNumber,
+        effectiveDate: now,
+        isActive: true
+      }
+      : undefined,
+    assignedDoctorIds: [],
+    medicalRecordNumber: '',
+    isActive: true,
+    createdAt: now,
+    updatedAt: now,
+    consentToTreatment: values.treatmentConsent,
+    hipaaAcknowledged: values.hipaaConsent,
+    dataProcessingConsent: values.dataProcessingConsent,
+    communicationPreferences: {
+      email: values.communicationPreferences.indexOf('email') !== -1,
+      sms: values.communicationPreferences.indexOf('sms') !== -1,
+      phone: values.communicationPreferences.indexOf('phone') !== -1,
+      portal: values.communicationPreferences.indexOf('portal') !== -1
+    }
+  };
+};
+
+// Accounts made by registerPatient hold only a name, condition and email; the first profile save stores them as a full record
+export const legacyPatientToPatientData = (patient: Patient, now: number = Date.now()): PatientData => {
+  const [firstName = '', ...rest] = patient.name.trim().split(/\s+/);
+  return {
+    id: patient.id,
+    firstName,
+    lastName: rest.join(' '),
+    email: patient.email,
+    phoneNumber: '',
+    dateOfBirth: '',
+    gender: 'prefer_not_to_say',
+    bloodType: 'unknown',
+    address: '',
+    city: '',
+    state: '',
+    zipCode: '',
+    country: '',
+    emergencyContact: { name: '', relationship: '', phoneNumber: '' },
+    medicalHistory: {
+      conditions: lines(patient.condition.replace(/,/g, ';')),
+      medications: [],
+      allergies: [],
+      surgeries: [],
+      familyHistory: [],
+      lastUpdated: now
+    },
+    primaryDoctorId: patient.assignedDoctorId,
+    assignedDoctorIds: patient.assignedDoctorId ? [patient.assignedDoctorId] : [],
+    medicalRecordNumber: '',
+    isActive: patient.isActive,
+    createdAt: now,
+    updatedAt: now,
+    consentToTreatment: false,
+    hipaaAcknowledged: false,
+    dataProcessingConsent: false,
+    communicationPreferences: { email: true, sms: false, phone: false, portal: true }
+  };
+};
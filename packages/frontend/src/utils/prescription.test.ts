@@ -0,0 +1,77 @@
+// Tests for prescription helpers, using Node's WebCrypto for the fingerprint
+import { webcrypto } from 'crypto';
+import { TextEncoder } from 'util';
+import { Prescription } from '../types';
+import {
+  currentMedications,
+  formatFingerprint,
+  prescribedMedications,
+  prescriptionDocumentHtml,
+  prescriptionFingerprint
+} from './prescription';
+
+// jsdom has neither crypto.subtle nor TextEncoder
+Object.defineProperty(globalThis, 'crypto', { value: webcrypto, configurable: true });
+Object.assign(globalThis, { TextEncoder });
+
+const ISSUED = Date.UTC(2024, 0, 15, 9, 0);
+
+const prescription = (id: string, daysAfter: number, names: string[]): Prescription => ({
+  id,
+  queryId: `query_${id}`,
+  patientId: 'patient_1',
+  doctorId: 'doctor_1',
+  doctorName: 'Amina Wanjiru',
+  medications: names.map(name => ({
+    name,
+    dosage: `${daysAfter + 1} mg`,
+    frequency: 'Once daily',
+    duration: '30 days',
+    instructions: ''
+  })),
+  notes: '',
+  issuedAt: ISSUED + daysAfter * 24 * 60 * 60 * 1000,
+  signedBy: 'aaaaa-aa'
+});
+
+describe('prescription', () => {
+  it('drops blank builder rows and trims the rest', () => {
+    const medications = prescribedMedications([
+      { name: ' Metformin ', dosage: '500 mg', frequency: 'Twice daily', duration: '', instructions: ' With meals ' },
+      { name: '', dosage: '', frequency: '', duration: '', instructions: 'left over' }
+    ]);
+    expect(medications).toEqual([
+      { name: 'Metformin', dosage: '500 mg', frequency: 'Twice daily', duration: '', instructions: 'With meals' }
+    ]);
+  });
+
+  it('keeps the latest prescribed dose of each medication', () => {
+    const current = currentMedications([
+      prescription('rx_2', 30, ['metformin']),
+      prescription('rx_1', 0, ['Metformin', 'Atorvastatin'])
+    ]);
+    expect(current.map(item => `${item.medication.name}:${item.prescription.id}`)).toEqual([
+      'Atorvastatin:rx_1',
+      'metformin:rx_2'
+    ]);
+  });
+
+  it('fingerprints the signed content', async () => {
+    const original = await prescriptionFingerprint(prescription('rx_1', 0, ['Metformin']));
+    const altered = prescription('rx_1', 0, ['Metformin']);
+    altered.medications[0].dosage = '5000 mg';
+
+    expect(original).toMatch(/^[0-9a-f]{64}$/);
+    expect(await prescriptionFingerprint(prescription('rx_1', 0, ['Metformin']))).toBe(original);
+    expect(await prescriptionFingerprint(altered)).not.toBe(original);
+    expect(formatFingerprint('abcd1234ef')).toBe('ABCD 1234 EF');
+  });
+
+  it('escapes patient-supplied text in the printable document', () => {
+    const html = prescriptionDocumentHtml(prescription('rx_1', 0, ['<script>alert(1)</script>']), 'Jane & John', 'ab12');
+    expect(html).not.toContain('<script>');
+    expect(html).toContain('&lt;script&gt;');
+    expect(html).toContain('Jane &amp; John');
+    expect(html).toContain('AB12');
+  });
+});
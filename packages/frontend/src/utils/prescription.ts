@@ -0,0 +1,151 @@
+// Prescription helpers: builder validation, the patient's current medications, and the signed printable document
+import { PrescribedMedication, Prescription } from '../types';
+
+export const emptyMedication = (): PrescribedMedication => ({
+  name: '',
+  dosage: '',
+  frequency: '',
+  duration: '',
+  instructions: ''
+});
+
+// Mirrors the canister: name, dosage and frequency are required, the rest is optional
+export const isMedicationComplete = (medication: PrescribedMedication): boolean =>
+  !!(medication.name.trim() && medication.dosage.trim() && medication.frequency.trim());
+
+// Blank rows left in the builder are dropped rather than rejected
+export const prescribedMedications = (medications: PrescribedMedication[]): PrescribedMedication[] =>
+  medications
+    .filter(medication => medication.name.trim() || medication.dosage.trim() || medication.frequency.trim())
+    .map(medication => ({
+      name: medication.name.trim(),
+      dosage: medication.dosage.trim(),
+      frequency: medication.frequency.trim(),
+      duration: medication.duration.trim(),
+      instructions: medication.instructions.trim()
+    }));
+
+// Copies for the builder, so editing a refill never touches the prescription it renews
+export const medicationsForRefill = (prescription: Prescription): PrescribedMedication[] =>
+  prescription.medications.map(medication => ({ ...medication }));
+
+export interface CurrentMedication {
+  medication: PrescribedMedication;
+  prescription: Prescription;
+}
+
+/**
+ * The latest prescribed instance of each medication, by name. Expects
+ * prescriptions newest first, as the canister returns them.
+ */
+export const currentMedications = (prescriptions: Prescription[]): CurrentMedication[] => {
+  const seen: { [name: string]: boolean } = {};
+  const current: CurrentMedication[] = [];
+  prescriptions.forEach(prescription => {
+    prescription.medications.forEach(medication => {
+      const key = medication.name.trim().toLowerCase();
+      if (seen[key]) return;
+      seen[key] = true;
+      current.push({ medication, prescription });
+    });
+  });
+  return current.sort((a, b) => a.medication.name.localeCompare(b.medication.name));
+};
+
+// =======================
+// SIGNED DOCUMENT
+// =======================
+
+// Fixed field order, so the same prescription always hashes the same
+const canonicalPrescription = (prescription: Prescription): string =>
+  JSON.stringify([
+    prescription.id,
+    prescription.queryId,
+    prescription.patientId,
+    prescription.doctorId,
+    prescription.medications.map(m => [m.name, m.dosage, m.frequency, m.duration, m.instructions]),
+    prescription.notes,
+    prescription.refillOf || null,
+    prescription.issuedAt,
+    prescription.signedBy
+  ]);
+
+/**
+ * SHA-256 of the prescription's content, printed on the document so a
+ * pharmacist can compare it with the record held on the canister
+ */
+export const prescriptionFingerprint = async (prescription: Prescription): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(canonicalPrescription(prescription)));
+  return Array.prototype.map
+    .call(new Uint8Array(digest), (byte: number) => (byte < 16 ? '0' : '') + byte.toString(16))
+    .join('');
+};
+
+// Groups of four hex digits read aloud more easily over the phone
+export const formatFingerprint = (fingerprint: string): string =>
+  (fingerprint.toUpperCase().match(/.{1,4}/g) || []).join(' ');
+
+export const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+/**
+ * Standalone HTML for the print window; the browser's print dialog saves it as PDF
+ */
+export const prescriptionDocumentHtml = (prescription: Prescription, patientName: string, fingerprint: string): string => {
+  const rows = prescription.medications.map(medication => `
+      <tr>
+        <td><strong>${escapeHtml(medication.name)}</strong></td>
+        <td>${escapeHtml(medication.dosage)}</td>
+        <td>${escapeHtml(medication.frequency)}</td>
+        <td>${escapeHtml(medication.duration || '-')}</td>
+        <td>${escapeHtml(medication.instructions || '-')}</td>
+      </tr>`).join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>Prescription ${escapeHtml(prescription.id)}</title>
+  <style>
+    body { font-family: Arial, sans-serif; color: #111827; margin: 32px; }
+    h1 { font-size: 20px; margin: 0; }
+    .muted { color: #6b7280; font-size: 12px; }
+    .header { display: flex; justify-content: space-between; border-bottom: 2px solid #2563eb; padding-bottom: 12px; }
+    table { width: 100%; border-collapse: collapse; margin-top: 24px; font-size: 13px; }
+    th, td { border: 1px solid #d1d5db; padding: 8px; text-align: left; vertical-align: top; }
+    th { background: #f3f4f6; }
+    .signature { margin-top: 32px; border-top: 1px solid #d1d5db; padding-top: 12px; font-size: 12px; }
+    .fingerprint { font-family: monospace; font-size: 13px; letter-spacing: 1px; }
+  </style>
+</head>
+<body>
+  <div class="header">
+    <div>
+      <h1>TrustCare Connect - Prescription</h1>
+      <div class="muted">${escapeHtml(prescription.id)}${prescription.refillOf ? ` (renews ${escapeHtml(prescription.refillOf)})` : ''}</div>
+    </div>
+    <div class="muted">Issued ${escapeHtml(new Date(prescription.issuedAt).toLocaleString())}</div>
+  </div>
+  <p><strong>Patient:</strong> ${escapeHtml(patientName)} (${escapeHtml(prescription.patientId)})</p>
+  <p><strong>Prescriber:</strong> Dr. ${escapeHtml(prescription.doctorName)} (${escapeHtml(prescription.doctorId)})</p>
+  <table>
+    <thead>
+      <tr><th>Medication</th><th>Dosage</th><th>Frequency</th><th>Duration</th><th>Instructions</th></tr>
+    </thead>
+    <tbody>${rows}
+    </tbody>
+  </table>
+  ${prescription.notes ? `<p><strong>Notes:</strong> ${escapeHtml(prescription.notes)}</p>` : ''}
+  <div class="signature">
+    <div>Digitally signed by Internet Identity principal <span class="fingerprint">${escapeHtml(prescription.signedBy)}</span></div>
+    <div>Verification fingerprint (SHA-256): <span class="fingerprint">${escapeHtml(formatFingerprint(fingerprint))}</span></div>
+    <div class="muted">Valid only if the fingerprint matches prescription ${escapeHtml(prescription.id)} on TrustCare Connect.</div>
+  </div>
+</body>
+</html>`;
+};
@@ -0,0 +1,61 @@
+import {
+  DEFAULT_QUERY_FILTERS,
+  filtersFromSearchParams,
+  filtersToSearchParams,
+  filtersToCriteria,
+  hasActiveFilters
+} from './querySearchParams';
+
+describe('querySearchParams', () => {
+  it('parses known filters from the URL', () => {
+    const filters = filtersFromSearchParams(new URLSearchParams(
+      'q=insulin&status=in_review&priority=high&category=medication_question&from=2024-01-01&to=2024-02-01&page=3'
+    ));
+
+    expect(filters).toEqual({
+      searchQuery: 'insulin',
+      status: 'in_review',
+      priority: 'high',
+      category: 'medication_question',
+      dateFrom: '2024-01-01',
+      dateTo: '2024-02-01',
+      page: 3
+    });
+  });
+
+  it('falls back to defaults for unknown or malformed values', () => {
+    const filters = filtersFromSearchParams(new URLSearchParams(
+      'status=doctor_review&priority=meh&category=other&from=yesterday&to=2024-13-45&page=-2'
+    ));
+
+    expect(filters).toEqual(DEFAULT_QUERY_FILTERS);
+    expect(hasActiveFilters(filters)).toBe(false);
+  });
+
+  it('round-trips through search params and omits defaults', () => {
+    const filters = { ...DEFAULT_QUERY_FILTERS, searchQuery: ' chest pain ', status: 'escalated' as const, page: 2 };
+    const params = filtersToSearchParams(filters);
+
+    expect(params.toString()).toBe('q=chest+pain&status=escalated&page=2');
+    expect(filtersFromSearchParams(params)).toEqual({ ...filters, searchQuery: 'chest pain' });
+    expect(filtersToSearchParams(DEFAULT_QUERY_FILTERS).toString()).toBe('');
+  });
+
+  it('builds canister criteria with offset paging and an inclusive end date', () => {
+    const criteria = filtersToCriteria(
+      { ...DEFAULT_QUERY_FILTERS, category: 'follow_up', dateFrom: '2024-03-01', dateTo: '2024-03-01', page: 4 },
+      'patient_1',
+      25
+    );
+
+    expect(criteria).toMatchObject({
+      patientId: 'patient_1',
+      category: { kind: 'follow_up' },
+      limit: 25,
+      offset: 75
+    });
+    expect(criteria.status).toBeUndefined();
+    expect(criteria.searchQuery).toBeUndefined();
+    expect(criteria.dateTo! - criteria.dateFrom!).toBe(24 * 60 * 60 * 1000 - 1);
+  });
+});
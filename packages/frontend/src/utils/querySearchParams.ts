@@ -0,0 +1,93 @@
+// Query list filters <-> URL search params <-> canister SearchCriteria
+import { EnhancedQueryStatus, QueryPriority, QueryCategoryKind, QuerySearchCriteria } from '../types';
+import { QUERY_STATUSES, QUERY_PRIORITIES, QUERY_CATEGORIES } from '../services/candidAdapter';
+
+export const QUERY_PAGE_SIZE = 10;
+
+export interface QueryListFilters {
+  searchQuery: string;
+  status: EnhancedQueryStatus | 'all';
+  priority: QueryPriority | 'all';
+  category: QueryCategoryKind | 'all';
+  dateFrom: string; // YYYY-MM-DD, empty when unset
+  dateTo: string;
+  page: number; // 1-based
+}
+
+export const DEFAULT_QUERY_FILTERS: QueryListFilters = {
+  searchQuery: '',
+  status: 'all',
+  priority: 'all',
+  category: 'all',
+  dateFrom: '',
+  dateTo: '',
+  page: 1
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const pickOption = <T extends string>(value: string | null, options: readonly T[]): T | 'all' =>
+  value !== null && (options as readonly string[]).indexOf(value) !== -1 ? (value as T) : 'all';
+
+const pickDate = (value: string | null): string =>
+  value !== null && DATE_PATTERN.test(value) && !isNaN(new Date(`${value}T00:00:00`).getTime()) ? value : '';
+
+// Unknown or malformed params fall back to defaults so shared links never break the list
+export const filtersFromSearchParams = (params: URLSearchParams): QueryListFilters => {
+  const page = parseInt(params.get('page') || '', 10);
+
+  return {
+    searchQuery: (params.get('q') || '').trim(),
+    status: pickOption(params.get('status'), QUERY_STATUSES),
+    priority: pickOption(params.get('priority'), QUERY_PRIORITIES),
+    category: pickOption(params.get('category'), QUERY_CATEGORIES),
+    dateFrom: pickDate(params.get('from')),
+    dateTo: pickDate(params.get('to')),
+    page: isNaN(page) || page < 1 ? 1 : page
+  };
+};
+
+// Only non-default values are written, keeping URLs short
+export const filtersToSearchParams = (filters: QueryListFilters): URLSearchParams => {
+  const params = new URLSearchParams();
+  const searchQuery = filters.searchQuery.trim();
+
+  if (searchQuery) params.set('q', searchQuery);
+  if (filters.status !== 'all') params.set('status', filters.status);
+  if (filters.priority !== 'all') params.set('priority', filters.priority);
+  if (filters.category !== 'all') params.set('category', filters.category);
+  if (filters.dateFrom) params.set('from', filters.dateFrom);
+  if (filters.dateTo) params.set('to', filters.dateTo);
+  if (filters.page > 1) params.set('page', String(filters.page));
+
+  return params;
+};
+
+// Dates are interpreted in local time; the "to" day is inclusive
+export const filtersToCriteria = (
+  filters: QueryListFilters,
+  patientId: string,
+  pageSize: number = QUERY_PAGE_SIZE
+): QuerySearchCriteria => {
+  const searchQuery = filters.searchQuery.trim();
+
+  return {
+    patientId,
+    searchQuery: searchQuery || undefined,
+    status: filters.status !== 'all' ? filters.status : undefined,
+    priority: filters.priority !== 'all' ? filters.priority : undefined,
+    category: filters.category !== 'all' ? { kind: filters.category } : undefined,
+    dateFrom: filters.dateFrom ? new Date(`${filters.dateFrom}T00:00:00`).getTime() : undefined,
+    dateTo: filters.dateTo ? new Date(`${filters.dateTo}T23:59:59.999`).getTime() : undefined,
+    limit: pageSize,
+    offset: (filters.page - 1) * pageSize
+  };
+};
+
+export const hasActiveFilters = (filters: QueryListFilters): boolean =>
+  Boolean(filters.searchQuery.trim()) ||
+  filters.status !== 'all' ||
+  filters.priority !== 'all' ||
+  filters.category !== 'all' ||
+  Boolean(filters.dateFrom) ||
+  Boolean(filters.dateTo);
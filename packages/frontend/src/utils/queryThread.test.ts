@@ -0,0 +1,50 @@
+import { QueryResponse, QueryThread } from '../types';
+import { canDoctorMessage, canPatientReply, threadEntries, unreadDoctorMessages } from './queryThread';
+
+const SENT = Date.UTC(2024, 0, 15, 9, 0);
+
+const message = (id: string, minutesAfter: number, overrides: Partial<QueryResponse> = {}): QueryResponse => ({
+  id,
+  responderId: 'doctor_1',
+  responseText: id,
+  timestamp: SENT + minutesAfter * 60 * 1000,
+  isOfficial: false,
+  attachments: [],
+  readByPatient: false,
+  ...overrides
+});
+
+const thread: QueryThread = {
+  queryId: 'query_1',
+  status: 'awaiting_patient_response',
+  responses: [message('question', 0, { readByPatient: true, readTimestamp: SENT }), message('follow-up', 20)],
+  patientMessages: [message('reply', 10, { responderId: 'patient_1', readByPatient: true })],
+  internalNotes: [message('note', 5)]
+};
+
+describe('queryThread', () => {
+  it('interleaves doctor and patient messages oldest first', () => {
+    expect(threadEntries(thread).map(entry => `${entry.author}:${entry.message.id}`)).toEqual([
+      'doctor:question',
+      'patient:reply',
+      'doctor:follow-up'
+    ]);
+  });
+
+  it('includes internal notes only when asked', () => {
+    const entries = threadEntries(thread, true);
+    expect(entries.map(entry => entry.author)).toEqual(['doctor', 'internal', 'patient', 'doctor']);
+    expect(threadEntries(thread).some(entry => entry.author === 'internal')).toBe(false);
+  });
+
+  it('counts doctor messages the patient has not read', () => {
+    expect(unreadDoctorMessages(thread)).toBe(1);
+  });
+
+  it('opens the composer only for statuses that accept messages', () => {
+    expect(canDoctorMessage('in_review')).toBe(true);
+    expect(canDoctorMessage('pending')).toBe(false);
+    expect(canPatientReply('awaiting_patient_response')).toBe(true);
+    expect(canPatientReply('resolved')).toBe(false);
+  });
+});
@@ -0,0 +1,29 @@
+// Query conversation helpers: merge the thread's message lists into one timeline and track read receipts
+import { EnhancedQueryStatus, QueryResponse, QueryThread } from '../types';
+
+export type ThreadAuthor = 'doctor' | 'patient' | 'internal';
+
+export interface ThreadEntry {
+  author: ThreadAuthor;
+  message: QueryResponse;
+}
+
+// Oldest first. Internal notes are left out unless asked for, so a patient view can never render one.
+export const threadEntries = (thread: QueryThread, includeInternalNotes: boolean = false): ThreadEntry[] => {
+  const entries: ThreadEntry[] = [
+    ...thread.responses.map(message => ({ author: 'doctor' as ThreadAuthor, message })),
+    ...thread.patientMessages.map(message => ({ author: 'patient' as ThreadAuthor, message })),
+    ...(includeInternalNotes ? thread.internalNotes.map(message => ({ author: 'internal' as ThreadAuthor, message })) : [])
+  ];
+  return entries.sort((a, b) => a.message.timestamp - b.message.timestamp);
+};
+
+export const unreadDoctorMessages = (thread: QueryThread): number =>
+  thread.responses.filter(message => !message.readByPatient).length;
+
+// Doctors message the patient only while the query is under their review
+export const canDoctorMessage = (status: EnhancedQueryStatus): boolean =>
+  status === 'in_review' || status === 'awaiting_patient_response';
+
+export const canPatientReply = (status: EnhancedQueryStatus): boolean =>
+  status !== 'resolved' && status !== 'closed';
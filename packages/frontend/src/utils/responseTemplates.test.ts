@@ -0,0 +1,93 @@
+import { PatientData, ResponseTemplate } from '../types';
+import {
+  STARTER_TEMPLATES,
+  fillTemplate,
+  suggestTemplates,
+  templatePlaceholders,
+  templateTextToHtml,
+  templateUsageSummary,
+  validateTemplateInput
+} from './responseTemplates';
+
+const patient = {
+  firstName: 'Amina',
+  lastName: 'Otieno',
+  medicalHistory: { allergies: ['Penicillin', 'Latex'], medications: [] }
+} as unknown as PatientData;
+
+const template = (id: string, overrides: Partial<ResponseTemplate>): ResponseTemplate => ({
+  id,
+  ownerId: 'doctor_1',
+  ownerName: 'Amina Wanjiru',
+  name: id,
+  content: '',
+  shared: false,
+  version: 1,
+  previousVersions: [],
+  usageCount: 0,
+  createdAt: 0,
+  updatedAt: 0,
+  ...overrides
+});
+
+describe('responseTemplates', () => {
+  it('fills placeholders from the patient, query and latest vitals', () => {
+    const filled = fillTemplate(
+      'Dear {{patient.firstName}}, re "{{ query.title }}" ({{query.category}}): HR {{lastVitals.heartRate}}, BP {{lastVitals.bloodPressure}}. Allergies: {{patient.medicalHistory.allergies}}. {{doctor.name}}',
+      {
+        patient,
+        query: { title: 'Dizzy spells', description: '', category: { kind: 'symptom_assessment' } },
+        lastVitals: { heartRate: 72, bloodPressureSystolic: 128, bloodPressureDiastolic: 84, recordedAt: 0 },
+        doctor: { name: 'Amina Wanjiru' }
+      }
+    );
+
+    expect(filled.text).toBe(
+      'Dear Amina, re "Dizzy spells" (Symptom Assessment): HR 72, BP 128/84. Allergies: Penicillin, Latex. Dr. Amina Wanjiru'
+    );
+    expect(filled.unresolved).toEqual([]);
+  });
+
+  it('leaves placeholders it cannot fill for the doctor', () => {
+    const filled = fillTemplate('{{patient.firstName}}: {{lastVitals.heartRate}} {{patient.medicalHistory}} {{patient.medicalHistory.medications}}', { patient });
+
+    expect(filled.text).toBe('Amina: {{lastVitals.heartRate}} {{patient.medicalHistory}} {{patient.medicalHistory.medications}}');
+    expect(filled.unresolved).toEqual(['lastVitals.heartRate', 'patient.medicalHistory', 'patient.medicalHistory.medications']);
+    expect(templatePlaceholders('{{a.b}} {{ a.b }} {{c}}')).toEqual(['a.b', 'c']);
+  });
+
+  it('escapes filled text for the editor', () => {
+    expect(templateTextToHtml('Hi <b>\nthere\n\nBye')).toBe('<p>Hi &lt;b&gt;<br>there</p><p>Bye</p>');
+  });
+
+  it('suggests the most used templates for the query category', () => {
+    const templates = [
+      template('a', { category: { kind: 'follow_up' }, usageCount: 2 }),
+      template('b', { category: { kind: 'follow_up' }, usageCount: 9 }),
+      template('c', { category: { kind: 'test_results' }, usageCount: 50 }),
+      template('d', { category: { kind: 'other', label: 'Diet' }, usageCount: 1 }),
+      template('e', {})
+    ];
+
+    expect(suggestTemplates(templates, { kind: 'follow_up' }).map(t => t.id)).toEqual(['b', 'a']);
+    expect(suggestTemplates(templates, { kind: 'other', label: ' diet' }).map(t => t.id)).toEqual(['d']);
+    expect(suggestTemplates(templates, undefined)).toEqual([]);
+  });
+
+  it('summarises usage of the doctor\'s own templates', () => {
+    const summary = templateUsageSummary([
+      template('a', { usageCount: 3 }),
+      template('b', { usageCount: 7 }),
+      template('c', { ownerId: 'doctor_2', shared: true, usageCount: 40 })
+    ], 'doctor_1');
+
+    expect(summary).toEqual(expect.objectContaining({ ownCount: 2, sharedCount: 1, totalUses: 10 }));
+    expect(summary.mostUsed && summary.mostUsed.id).toBe('b');
+  });
+
+  it('validates templates like the canister', () => {
+    expect(STARTER_TEMPLATES.every(starter => validateTemplateInput(starter) === null)).toBe(true);
+    expect(validateTemplateInput({ name: ' ', content: 'x', shared: false })).toBe('Give the template a name');
+    expect(validateTemplateInput({ name: 'Long', content: 'x'.repeat(10001), shared: false })).toMatch(/10,000/);
+  });
+});
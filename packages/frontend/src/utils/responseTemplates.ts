@@ -0,0 +1,194 @@
+// Response template helpers: placeholder filling from patient and query context, validation and category suggestions
+import { PatientData, QueryCategory, ResponseTemplate, ResponseTemplateInput, VitalSigns } from '../types';
+import { escapeHtml } from './prescription';
+
+// Mirrors the canister's limit
+export const MAX_TEMPLATE_CHARS = 10000;
+
+/**
+ * What placeholders are filled from. query is whatever is known about the
+ * query being answered; patient and lastVitals are missing for legacy patients.
+ */
+export interface TemplateContext {
+  patient?: PatientData;
+  query?: { title: string; description: string; category?: QueryCategory };
+  lastVitals?: VitalSigns;
+  doctor?: { name: string };
+}
+
+export interface PlaceholderOption {
+  token: string;
+  label: string;
+}
+
+// Offered in the editor; any other dotted path into the context also resolves
+export const AVAILABLE_PLACEHOLDERS: PlaceholderOption[] = [
+  { token: 'patient.firstName', label: 'Patient first name' },
+  { token: 'patient.fullName', label: 'Patient full name' },
+  { token: 'patient.medicalRecordNumber', label: 'Medical record number' },
+  { token: 'patient.medicalHistory.allergies', label: 'Allergies' },
+  { token: 'patient.medicalHistory.medications', label: 'Current medications' },
+  { token: 'query.title', label: 'Query title' },
+  { token: 'query.category', label: 'Query category' },
+  { token: 'lastVitals.heartRate', label: 'Heart rate (bpm)' },
+  { token: 'lastVitals.bloodPressure', label: 'Blood pressure (mmHg)' },
+  { token: 'lastVitals.temperature', label: 'Temperature (°C)' },
+  { token: 'lastVitals.oxygenSaturation', label: 'Oxygen saturation (%)' },
+  { token: 'lastVitals.weight', label: 'Weight (kg)' },
+  { token: 'lastVitals.recordedAt', label: 'Date of last vitals' },
+  { token: 'doctor.name', label: 'Your name' }
+];
+
+// Offered to doctors who have no templates yet
+export const STARTER_TEMPLATES: ResponseTemplateInput[] = [
+  {
+    name: 'General Response',
+    content: 'Dear {{patient.firstName}},\n\nThank you for your query about "{{query.title}}". Based on your symptoms...',
+    category: { kind: 'general_inquiry' },
+    shared: false
+  },
+  {
+    name: 'Urgent Care',
+    content: 'Dear {{patient.firstName}},\n\nI recommend immediate medical attention for your symptoms...',
+    category: { kind: 'emergency_consultation' },
+    shared: false
+  },
+  {
+    name: 'Follow-up Required',
+    content: 'Dear {{patient.firstName}},\n\nYour last recorded heart rate was {{lastVitals.heartRate}} bpm. Please schedule a follow-up appointment to discuss...',
+    category: { kind: 'follow_up' },
+    shared: false
+  }
+];
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+// Timestamps in the context are epoch milliseconds
+const DATE_FIELDS = ['recordedAt', 'createdAt', 'updatedAt', 'lastVisit'];
+
+export const queryCategoryLabel = (category: QueryCategory): string =>
+  category.kind === 'other'
+    ? category.label
+    : category.kind.replace(/_/g, ' ').replace(/\b\w/g, letter => letter.toUpperCase());
+
+// Unique placeholder paths in the order they first appear
+export const templatePlaceholders = (content: string): string[] => {
+  const found: string[] = [];
+  content.replace(PLACEHOLDER_PATTERN, (match: string, path: string) => {
+    if (found.indexOf(path) === -1) found.push(path);
+    return match;
+  });
+  return found;
+};
+
+// The context plus the derived values templates commonly want
+const lookupRoot = (context: TemplateContext): { [key: string]: unknown } => {
+  const { patient, query, lastVitals, doctor } = context;
+  const bloodPressure = lastVitals && lastVitals.bloodPressureSystolic !== undefined && lastVitals.bloodPressureDiastolic !== undefined
+    ? `${lastVitals.bloodPressureSystolic}/${lastVitals.bloodPressureDiastolic}`
+    : undefined;
+  return {
+    patient: patient && { ...patient, fullName: `${patient.firstName} ${patient.lastName}`.trim() },
+    query: query && { ...query, category: query.category && queryCategoryLabel(query.category) },
+    lastVitals: lastVitals && { ...lastVitals, bloodPressure },
+    doctor: doctor && { name: `Dr. ${doctor.name}` }
+  };
+};
+
+const formatValue = (value: unknown, key: string): string | undefined => {
+  if (typeof value === 'string') return value.trim() ? value : undefined;
+  if (typeof value === 'number') {
+    return DATE_FIELDS.indexOf(key) !== -1 ? new Date(value).toLocaleDateString() : String(value);
+  }
+  if (typeof value === 'boolean') return value ? 'yes' : 'no';
+  if (Array.isArray(value)) {
+    const items = value.filter(item => typeof item === 'string' || typeof item === 'number');
+    return items.length > 0 ? items.join(', ') : undefined;
+  }
+  return undefined;
+};
+
+/**
+ * The text for one placeholder path, or undefined when the context has no
+ * value for it. Only strings, numbers and lists of them resolve; a path
+ * that stops at a record does not.
+ */
+export const resolvePlaceholder = (path: string, context: TemplateContext): string | undefined => {
+  const keys = path.split('.');
+  let value: unknown = lookupRoot(context);
+  for (let i = 0; i < keys.length; i++) {
+    if (value === null || typeof value !== 'object' || Array.isArray(value)) return undefined;
+    value = (value as { [key: string]: unknown })[keys[i]];
+  }
+  return formatValue(value, keys[keys.length - 1]);
+};
+
+export interface FilledTemplate {
+  text: string;
+  unresolved: string[]; // Left in the text as {{path}} for the doctor to fill in
+}
+
+export const fillTemplate = (content: string, context: TemplateContext): FilledTemplate => {
+  const unresolved: string[] = [];
+  const text = content.replace(PLACEHOLDER_PATTERN, (match: string, path: string) => {
+    const value = resolvePlaceholder(path, context);
+    if (value !== undefined) return value;
+    if (unresolved.indexOf(path) === -1) unresolved.push(path);
+    return match;
+  });
+  return { text, unresolved };
+};
+
+// Plain template text as paragraphs for the rich text editor
+export const templateTextToHtml = (text: string): string =>
+  text
+    .split(/\n\s*\n/)
+    .map(paragraph => `<p>${escapeHtml(paragraph).replace(/\n/g, '<br>')}</p>`)
+    .join('');
+
+// Mirrors the canister's checks so the editor can explain a rejection before saving
+export const validateTemplateInput = (input: ResponseTemplateInput): string | null => {
+  if (!input.name.trim()) return 'Give the template a name';
+  if (!input.content.trim()) return 'Template content is required';
+  if (input.content.length > MAX_TEMPLATE_CHARS) return 'Templates are limited to 10,000 characters';
+  return null;
+};
+
+export const sameCategory = (a?: QueryCategory, b?: QueryCategory): boolean => {
+  if (!a || !b || a.kind !== b.kind) return false;
+  return a.kind !== 'other' || (b.kind === 'other' && a.label.trim().toLowerCase() === b.label.trim().toLowerCase());
+};
+
+/**
+ * Templates written for the query's category, most used first and then most
+ * recently used. Empty when the category is unknown.
+ */
+export const suggestTemplates = (
+  templates: ResponseTemplate[],
+  category: QueryCategory | undefined,
+  limit = 3
+): ResponseTemplate[] =>
+  templates
+    .filter(template => sameCategory(template.category, category))
+    .sort((a, b) => b.usageCount - a.usageCount || (b.lastUsedAt || 0) - (a.lastUsedAt || 0))
+    .slice(0, limit);
+
+export interface TemplateUsageSummary {
+  ownCount: number;
+  sharedCount: number; // Colleagues' templates shared with this doctor
+  totalUses: number; // Of the doctor's own templates, by anyone
+  mostUsed?: ResponseTemplate;
+}
+
+export const templateUsageSummary = (templates: ResponseTemplate[], doctorId: string): TemplateUsageSummary => {
+  const own = templates.filter(template => template.ownerId === doctorId);
+  return {
+    ownCount: own.length,
+    sharedCount: templates.length - own.length,
+    totalUses: own.reduce((sum, template) => sum + template.usageCount, 0),
+    mostUsed: own.reduce<ResponseTemplate | undefined>(
+      (best, template) => (template.usageCount > 0 && (!best || template.usageCount > best.usageCount) ? template : best),
+      undefined
+    )
+  };
+};
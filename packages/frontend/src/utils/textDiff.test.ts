@@ -0,0 +1,34 @@
+import { diffWords } from './textDiff';
+
+const render = (before: string, after: string) =>
+  diffWords(before, after)
+    .map(segment => (segment.type === 'equal' ? segment.value : `[${segment.type === 'added' ? '+' : '-'}${segment.value}]`))
+    .join('');
+
+describe('diffWords', () => {
+  it('returns a single equal segment for identical text', () => {
+    expect(diffWords('Take metformin daily', 'Take metformin daily')).toEqual([
+      { type: 'equal', value: 'Take metformin daily' }
+    ]);
+  });
+
+  it('marks changed words', () => {
+    expect(render('Take metformin twice daily', 'Take metformin once daily with food')).toBe(
+      'Take metformin [-twice][+once] daily[+ with food]'
+    );
+  });
+
+  it('can rebuild both texts from the segments', () => {
+    const before = 'Monitor glucose.\nCall if readings exceed 250 mg/dL.';
+    const after = 'Monitor glucose twice a day.\nCall us if readings exceed 300 mg/dL.';
+    const segments = diffWords(before, after);
+
+    expect(segments.filter(s => s.type !== 'added').map(s => s.value).join('')).toBe(before);
+    expect(segments.filter(s => s.type !== 'removed').map(s => s.value).join('')).toBe(after);
+  });
+
+  it('handles empty inputs', () => {
+    expect(diffWords('', 'New draft')).toEqual([{ type: 'added', value: 'New draft' }]);
+    expect(diffWords('Old draft', '')).toEqual([{ type: 'removed', value: 'Old draft' }]);
+  });
+});
@@ -0,0 +1,86 @@
+// Word-level text diff used to compare draft responses
+export type DiffSegmentType = 'equal' | 'added' | 'removed';
+
+export interface DiffSegment {
+  type: DiffSegmentType;
+  value: string;
+}
+
+// Above this many LCS cells the diff degrades to a whole-text replacement
+const MAX_DIFF_CELLS = 1000000;
+
+// Words and the whitespace between them are separate tokens so joins stay lossless
+const tokenize = (text: string): string[] => text.split(/(\s+)/).filter(token => token.length > 0);
+
+const pushSegment = (segments: DiffSegment[], type: DiffSegmentType, value: string) => {
+  if (!value) return;
+  const last = segments[segments.length - 1];
+  if (last && last.type === type) {
+    last.value += value;
+  } else {
+    segments.push({ type, value });
+  }
+};
+
+export const diffWords = (before: string, after: string): DiffSegment[] => {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  // Common prefix and suffix never need the LCS table
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const segments: DiffSegment[] = [];
+  pushSegment(segments, 'equal', a.slice(0, start).join(''));
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+
+  if ((midA.length + 1) * (midB.length + 1) > MAX_DIFF_CELLS) {
+    pushSegment(segments, 'removed', midA.join(''));
+    pushSegment(segments, 'added', midB.join(''));
+  } else {
+    // lengths[i][j] = LCS length of midA[i..] and midB[j..]
+    const lengths: number[][] = [];
+    for (let i = midA.length; i >= 0; i--) {
+      lengths[i] = [];
+      for (let j = midB.length; j >= 0; j--) {
+        if (i === midA.length || j === midB.length) {
+          lengths[i][j] = 0;
+        } else if (midA[i] === midB[j]) {
+          lengths[i][j] = lengths[i + 1][j + 1] + 1;
+        } else {
+          lengths[i][j] = Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+        }
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < midA.length && j < midB.length) {
+      if (midA[i] === midB[j]) {
+        pushSegment(segments, 'equal', midA[i]);
+        i++;
+        j++;
+      } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+        pushSegment(segments, 'removed', midA[i]);
+        i++;
+      } else {
+        pushSegment(segments, 'added', midB[j]);
+        j++;
+      }
+    }
+    pushSegment(segments, 'removed', midA.slice(i).join(''));
+    pushSegment(segments, 'added', midB.slice(j).join(''));
+  }
+
+  pushSegment(segments, 'equal', a.slice(endA).join(''));
+  return segments;
+};
@@ -0,0 +1,74 @@
+import { MedicalQuery, TriageAssessment } from '../types';
+import { buildTriageQueue, formatCountdown, slaMinutes, slaStatus } from './triage';
+
+const MINUTE = 60 * 1000;
+const NOW = Date.UTC(2024, 0, 15, 12, 0);
+
+const query = (id: string, minutesAgo: number): MedicalQuery => ({
+  id,
+  patientId: `patient-${id}`,
+  title: `Query ${id}`,
+  description: 'Blood sugar question',
+  status: 'pending',
+  createdAt: (NOW - minutesAgo * MINUTE) * 1000000,
+  updatedAt: (NOW - minutesAgo * MINUTE) * 1000000
+});
+
+const assessment = (queryId: string, overrides: Partial<TriageAssessment> = {}): TriageAssessment => ({
+  queryId,
+  safetyScore: 100,
+  urgency: 'LOW',
+  priority: 'normal',
+  escalationLevel: 0,
+  requiresHumanReview: false,
+  source: 'rules',
+  ...overrides
+});
+
+describe('triage', () => {
+  it('uses the tighter of the urgency and priority targets', () => {
+    expect(slaMinutes(assessment('a', { urgency: 'HIGH', priority: 'normal' }))).toBe(60);
+    expect(slaMinutes(assessment('a', { urgency: 'LOW', priority: 'emergency' }))).toBe(15);
+    expect(slaMinutes(undefined)).toBe(24 * 60);
+  });
+
+  it('flags queries approaching and past their deadline', () => {
+    const createdAt = NOW - 50 * MINUTE;
+    expect(slaStatus(createdAt, createdAt + 60 * MINUTE, NOW)).toBe('at_risk');
+    expect(slaStatus(createdAt, createdAt + 240 * MINUTE, NOW)).toBe('on_track');
+    expect(slaStatus(createdAt, createdAt + 30 * MINUTE, NOW)).toBe('breached');
+  });
+
+  it('ranks urgent, unsafe queries ahead of older routine ones', () => {
+    const queue = buildTriageQueue(
+      [query('routine', 600), query('unsafe', 5), query('unscored', 30)],
+      [
+        assessment('routine'),
+        assessment('unsafe', { safetyScore: 30, urgency: 'HIGH', priority: 'urgent', requiresHumanReview: true })
+      ],
+      NOW
+    );
+
+    expect(queue.map(item => item.query.id)).toEqual(['unsafe', 'routine', 'unscored']);
+    expect(queue[0].slaDeadline).toBe(NOW + 55 * MINUTE);
+    expect(queue[2].assessment).toBeUndefined();
+  });
+
+  it('lets a breached low-urgency query overtake a fresh one of the same urgency', () => {
+    const queue = buildTriageQueue(
+      [query('fresh', 10), query('breached', 26 * 60)],
+      [assessment('fresh'), assessment('breached')],
+      NOW
+    );
+
+    expect(queue[0].query.id).toBe('breached');
+    expect(queue[0].slaStatus).toBe('breached');
+    expect(queue[1].slaStatus).toBe('on_track');
+  });
+
+  it('formats countdowns for badges', () => {
+    expect(formatCountdown(NOW + 45 * MINUTE, NOW)).toBe('45m left');
+    expect(formatCountdown(NOW + 135 * MINUTE, NOW)).toBe('2h 15m left');
+    expect(formatCountdown(NOW - 26 * 60 * MINUTE, NOW)).toBe('1d 2h overdue');
+  });
+});
@@ -0,0 +1,117 @@
+// Triage queue ranking by urgency, safety score, waiting time and SLA breach risk
+import { MedicalQuery, QueryPriority, TriageAssessment, TriageUrgency } from '../types';
+
+const MINUTE = 60 * 1000;
+
+// Response-time targets in minutes; a query gets the tighter of its urgency and priority targets
+export const URGENCY_SLA_MINUTES: Record<TriageUrgency, number> = {
+  HIGH: 60,
+  MEDIUM: 4 * 60,
+  LOW: 24 * 60
+};
+
+export const PRIORITY_SLA_MINUTES: Record<QueryPriority, number> = {
+  emergency: 15,
+  urgent: 60,
+  high: 4 * 60,
+  normal: 24 * 60,
+  low: 48 * 60
+};
+
+// Share of the SLA window after which a query is flagged as at risk of breaching
+export const SLA_AT_RISK_FRACTION = 0.75;
+
+const URGENCY_WEIGHT: Record<TriageUrgency, number> = { HIGH: 40, MEDIUM: 20, LOW: 0 };
+
+const PRIORITY_WEIGHT: Record<QueryPriority, number> = {
+  emergency: 30,
+  urgent: 20,
+  high: 10,
+  normal: 0,
+  low: -5
+};
+
+export type SlaStatus = 'on_track' | 'at_risk' | 'breached';
+
+export interface TriageItem {
+  query: MedicalQuery;
+  assessment?: TriageAssessment; // Missing until the canister has scored the query
+  score: number;
+  waitingMinutes: number;
+  slaDeadline: number;
+  slaStatus: SlaStatus;
+}
+
+// Legacy queries carry canister nanoseconds
+export const queryCreatedAtMs = (query: MedicalQuery): number => Number(query.createdAt) / 1000000;
+
+export const slaMinutes = (assessment?: TriageAssessment): number =>
+  assessment
+    ? Math.min(URGENCY_SLA_MINUTES[assessment.urgency], PRIORITY_SLA_MINUTES[assessment.priority])
+    : PRIORITY_SLA_MINUTES.normal;
+
+export const slaStatus = (createdAt: number, deadline: number, now: number): SlaStatus => {
+  if (now >= deadline) return 'breached';
+  return now - createdAt >= (deadline - createdAt) * SLA_AT_RISK_FRACTION ? 'at_risk' : 'on_track';
+};
+
+// Higher is seen first. An unscored query ranks as routine and safe, so only its wait moves it up.
+export const triageScore = (
+  assessment: TriageAssessment | undefined,
+  waitingMinutes: number,
+  slaWindowMinutes: number
+): number => {
+  const urgency = assessment ? URGENCY_WEIGHT[assessment.urgency] : 0;
+  const safety = assessment ? (100 - assessment.safetyScore) * 0.3 : 0;
+  const priority = assessment ? PRIORITY_WEIGHT[assessment.priority] : 0;
+  const escalation = assessment ? assessment.escalationLevel * 10 : 0;
+  const review = assessment && assessment.requiresHumanReview ? 5 : 0;
+  // SLA pressure reaches 30 at the deadline; waiting adds up to 10 more over two days
+  const slaPressure = Math.min(waitingMinutes / slaWindowMinutes, 1) * 30;
+  const waiting = Math.min(waitingMinutes / (48 * 60), 1) * 10;
+
+  return Math.round((urgency + safety + priority + escalation + review + slaPressure + waiting) * 10) / 10;
+};
+
+export const buildTriageQueue = (
+  queries: MedicalQuery[],
+  assessments: TriageAssessment[],
+  now: number = Date.now()
+): TriageItem[] => {
+  const byQueryId: Record<string, TriageAssessment> = {};
+  assessments.forEach(assessment => {
+    byQueryId[assessment.queryId] = assessment;
+  });
+
+  return queries
+    .map(query => {
+      const assessment = byQueryId[query.id];
+      const createdAt = queryCreatedAtMs(query);
+      const window = slaMinutes(assessment);
+      const waitingMinutes = Math.max(0, (now - createdAt) / MINUTE);
+      const slaDeadline = createdAt + window * MINUTE;
+
+      return {
+        query,
+        assessment,
+        score: triageScore(assessment, waitingMinutes, window),
+        waitingMinutes,
+        slaDeadline,
+        slaStatus: slaStatus(createdAt, slaDeadline, now)
+      };
+    })
+    .sort((a, b) => b.score - a.score || a.slaDeadline - b.slaDeadline);
+};
+
+const formatMinutes = (minutes: number): string => {
+  if (minutes >= 24 * 60) return `${Math.floor(minutes / (24 * 60))}d ${Math.floor((minutes % (24 * 60)) / 60)}h`;
+  if (minutes >= 60) return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+  return `${minutes}m`;
+};
+
+export const formatCountdown = (deadline: number, now: number = Date.now()): string => {
+  const minutes = Math.floor(Math.abs(deadline - now) / MINUTE);
+  return deadline > now ? `${formatMinutes(minutes)} left` : `${formatMinutes(minutes)} overdue`;
+};
+
+export const formatWaiting = (waitingMinutes: number): string => formatMinutes(Math.floor(waitingMinutes));
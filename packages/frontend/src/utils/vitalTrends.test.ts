@@ -0,0 +1,74 @@
+import { VitalSigns } from '../types';
+import {
+  DEFAULT_NORMAL_RANGES,
+  bmiCategory,
+  buildVitalSeries,
+  calculateBmi,
+  dateRangeFromPreset,
+  loadNormalRanges,
+  parseNormalRanges,
+  saveNormalRanges,
+  summarizeSeries
+} from './vitalTrends';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const readings: VitalSigns[] = [
+  { recordedAt: 3 * DAY, heartRate: 112, weight: 80 },
+  { recordedAt: 1 * DAY, heartRate: 72, weight: 82, height: 180 },
+  { recordedAt: 2 * DAY, heartRate: 58, oxygenSaturation: 97 }
+];
+
+describe('vitalTrends', () => {
+  it('derives BMI from weight and height', () => {
+    expect(calculateBmi(82, 180)).toBe(25.3);
+    expect(calculateBmi(82, undefined)).toBeUndefined();
+    expect(calculateBmi(0, 180)).toBeUndefined();
+    expect([17, 22, 27, 32].map(bmiCategory)).toEqual(['Underweight', 'Normal weight', 'Overweight', 'Obese']);
+  });
+
+  it('builds a time-ordered series and flags readings outside the normal range', () => {
+    expect(buildVitalSeries(readings, 'heartRate')).toEqual([
+      { recordedAt: 1 * DAY, value: 72, outOfRange: false },
+      { recordedAt: 2 * DAY, value: 58, outOfRange: true },
+      { recordedAt: 3 * DAY, value: 112, outOfRange: true }
+    ]);
+
+    const ranges = { ...DEFAULT_NORMAL_RANGES, heartRate: { min: 50, max: 120 } };
+    expect(buildVitalSeries(readings, 'heartRate', ranges).every(point => !point.outOfRange)).toBe(true);
+  });
+
+  it('carries the last known height forward for BMI and applies the date range', () => {
+    expect(buildVitalSeries(readings, 'bmi').map(point => point.value)).toEqual([25.3, 24.7]);
+    expect(buildVitalSeries(readings, 'bmi', DEFAULT_NORMAL_RANGES, { from: 2 * DAY })).toEqual([
+      { recordedAt: 3 * DAY, value: 24.7, outOfRange: false }
+    ]);
+  });
+
+  it('summarises a series', () => {
+    const summary = summarizeSeries(buildVitalSeries(readings, 'heartRate'));
+    expect(summary).toMatchObject({ min: 58, max: 112, average: 80.66666666666667, outOfRangeCount: 2, change: 40 });
+    expect(summary?.latest.value).toBe(112);
+    expect(summarizeSeries([])).toBeNull();
+  });
+
+  it('turns presets into date bounds', () => {
+    expect(dateRangeFromPreset('7d', 10 * DAY)).toEqual({ from: 3 * DAY, to: 10 * DAY });
+    expect(dateRangeFromPreset('all', 10 * DAY)).toEqual({});
+  });
+
+  it('stores normal ranges per patient and falls back to defaults', () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    localStorage.clear();
+
+    saveNormalRanges('patient_1', { ...DEFAULT_NORMAL_RANGES, heartRate: { min: 50, max: 110 } });
+    expect(loadNormalRanges('patient_1').heartRate).toEqual({ min: 50, max: 110 });
+    expect(loadNormalRanges('patient_2')).toEqual(DEFAULT_NORMAL_RANGES);
+
+    expect(parseNormalRanges('{not json')).toEqual(DEFAULT_NORMAL_RANGES);
+    expect(parseNormalRanges(JSON.stringify({ temperature: { min: 'low', max: 38 } })).temperature).toEqual({
+      min: undefined,
+      max: 38
+    });
+  });
+});
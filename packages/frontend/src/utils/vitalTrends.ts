@@ -0,0 +1,164 @@
+// Time series, normal ranges and BMI for a patient's vital signs history
+import { NormalRange, NormalRanges, VitalMetric, VitalSigns, VitalTrendPoint } from '../types';
+
+export interface VitalMetricInfo {
+  label: string;
+  unit: string;
+  decimals: number;
+}
+
+export const VITAL_METRICS: Record<VitalMetric, VitalMetricInfo> = {
+  bloodPressureSystolic: { label: 'Systolic BP', unit: 'mmHg', decimals: 0 },
+  bloodPressureDiastolic: { label: 'Diastolic BP', unit: 'mmHg', decimals: 0 },
+  heartRate: { label: 'Heart Rate', unit: 'bpm', decimals: 0 },
+  oxygenSaturation: { label: 'SpO2', unit: '%', decimals: 0 },
+  temperature: { label: 'Temperature', unit: '°C', decimals: 1 },
+  weight: { label: 'Weight', unit: 'kg', decimals: 1 },
+  bmi: { label: 'BMI', unit: 'kg/m²', decimals: 1 }
+};
+
+// Adult reference ranges; doctors can adjust them per patient
+export const DEFAULT_NORMAL_RANGES: NormalRanges = {
+  bloodPressureSystolic: { min: 90, max: 130 },
+  bloodPressureDiastolic: { min: 60, max: 85 },
+  heartRate: { min: 60, max: 100 },
+  oxygenSaturation: { min: 95 },
+  temperature: { min: 36.1, max: 37.5 },
+  weight: {},
+  bmi: { min: 18.5, max: 24.9 }
+};
+
+export type DateRangePreset = '7d' | '30d' | '90d' | '1y' | 'all';
+
+export const DATE_RANGE_PRESETS: { value: DateRangePreset; label: string }[] = [
+  { value: '7d', label: '7 days' },
+  { value: '30d', label: '30 days' },
+  { value: '90d', label: '3 months' },
+  { value: '1y', label: '1 year' },
+  { value: 'all', label: 'All time' }
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const PRESET_DAYS: Record<Exclude<DateRangePreset, 'all'>, number> = {
+  '7d': 7,
+  '30d': 30,
+  '90d': 90,
+  '1y': 365
+};
+
+export interface DateRange {
+  from?: number;
+  to?: number;
+}
+
+export const dateRangeFromPreset = (preset: DateRangePreset, now: number = Date.now()): DateRange =>
+  preset === 'all' ? {} : { from: now - PRESET_DAYS[preset] * DAY_MS, to: now };
+
+export const calculateBmi = (weightKg?: number, heightCm?: number): number | undefined => {
+  if (!weightKg || !heightCm || weightKg <= 0 || heightCm <= 0) return undefined;
+  const heightM = heightCm / 100;
+  return Math.round((weightKg / (heightM * heightM)) * 10) / 10;
+};
+
+export const bmiCategory = (bmi: number): string => {
+  if (bmi < 18.5) return 'Underweight';
+  if (bmi < 25) return 'Normal weight';
+  if (bmi < 30) return 'Overweight';
+  return 'Obese';
+};
+
+export const isOutOfRange = (value: number, range: NormalRange): boolean =>
+  (range.min !== undefined && value < range.min) || (range.max !== undefined && value > range.max);
+
+const inDateRange = (recordedAt: number, dateRange: DateRange): boolean =>
+  (dateRange.from === undefined || recordedAt >= dateRange.from) &&
+  (dateRange.to === undefined || recordedAt <= dateRange.to);
+
+// Height is rarely re-measured, so BMI uses the most recent height at or before each weight
+export const buildVitalSeries = (
+  readings: VitalSigns[],
+  metric: VitalMetric,
+  ranges: NormalRanges = DEFAULT_NORMAL_RANGES,
+  dateRange: DateRange = {}
+): VitalTrendPoint[] => {
+  const sorted = [...readings].sort((a, b) => a.recordedAt - b.recordedAt);
+  const points: VitalTrendPoint[] = [];
+  let lastHeight: number | undefined;
+
+  sorted.forEach(reading => {
+    if (reading.height) lastHeight = reading.height;
+
+    const value = metric === 'bmi' ? calculateBmi(reading.weight, lastHeight) : reading[metric];
+    if (value === undefined || value === null || isNaN(value)) return;
+    if (!inDateRange(reading.recordedAt, dateRange)) return;
+
+    points.push({ recordedAt: reading.recordedAt, value, outOfRange: isOutOfRange(value, ranges[metric]) });
+  });
+
+  return points;
+};
+
+export interface VitalSeriesSummary {
+  latest: VitalTrendPoint;
+  min: number;
+  max: number;
+  average: number;
+  outOfRangeCount: number;
+  change?: number; // Latest value minus the first in the range
+}
+
+export const summarizeSeries = (points: VitalTrendPoint[]): VitalSeriesSummary | null => {
+  if (points.length === 0) return null;
+
+  const values = points.map(point => point.value);
+  const latest = points[points.length - 1];
+
+  return {
+    latest,
+    min: Math.min(...values),
+    max: Math.max(...values),
+    average: values.reduce((sum, value) => sum + value, 0) / values.length,
+    outOfRangeCount: points.filter(point => point.outOfRange).length,
+    change: points.length > 1 ? latest.value - points[0].value : undefined
+  };
+};
+
+export const formatVitalValue = (metric: VitalMetric, value: number): string =>
+  `${value.toFixed(VITAL_METRICS[metric].decimals)} ${VITAL_METRICS[metric].unit}`;
+
+export const normalRangesStorageKey = (patientId: string): string => `vital_ranges_${patientId}`;
+
+const validBound = (value: unknown): number | undefined =>
+  typeof value === 'number' && isFinite(value) ? value : undefined;
+
+// Stored ranges are merged over the defaults so newly added metrics always have one
+export const parseNormalRanges = (raw: string | null): NormalRanges => {
+  const ranges = { ...DEFAULT_NORMAL_RANGES };
+  if (!raw) return ranges;
+
+  try {
+    const stored = JSON.parse(raw);
+    (Object.keys(DEFAULT_NORMAL_RANGES) as VitalMetric[]).forEach(metric => {
+      if (stored && typeof stored[metric] === 'object' && stored[metric] !== null) {
+        ranges[metric] = { min: validBound(stored[metric].min), max: validBound(stored[metric].max) };
+      }
+    });
+  } catch (error) {
+    console.warn('Ignoring unreadable vital sign normal ranges');
+  }
+
+  return ranges;
+};
+
+export const loadNormalRanges = (patientId: string): NormalRanges =>
+  parseNormalRanges(localStorage.getItem(normalRangesStorageKey(patientId)));
+
+export const saveNormalRanges = (patientId: string, ranges: NormalRanges): void => {
+  localStorage.setItem(normalRangesStorageKey(patientId), JSON.stringify(ranges));
+};
+
+export const resetNormalRanges = (patientId: string): NormalRanges => {
+  localStorage.removeItem(normalRangesStorageKey(patientId));
+  return { ...DEFAULT_NORMAL_RANGES };
+};
@@ -195,6 +195,44 @@ class ICPClient {
                 'err': IDL.Text
             });
 
+            // Platform account bound to a signed-in Internet Identity
+            const PrincipalLink = IDL.Record({
+                role: IDL.Variant({
+                    'patient': IDL.Null,
+                    'doctor': IDL.Null,
+                    'admin': IDL.Null,
+                    'compliance_officer': IDL.Null
+                }),
+                userId: IDL.Text,
+                linkedAt: IDL.Int
+            });
+
+            const PrincipalLinkResult = IDL.Variant({
+                'ok': PrincipalLink,
+                'err': IDL.Text
+            });
+
+            const BridgeQueryParticipants = IDL.Record({
+                patientId: IDL.Text,
+                doctorId: IDL.Opt(IDL.Text),
+                aiProcessingAllowed: IDL.Bool
+            });
+
+            const BridgeQueryParticipantsResult = IDL.Variant({
+                'ok': BridgeQueryParticipants,
+                'err': IDL.Text
+            });
+
+            const BridgePatientCare = IDL.Record({
+                doctorId: IDL.Opt(IDL.Text),
+                aiProcessingAllowed: IDL.Bool
+            });
+
+            const BridgePatientCareResult = IDL.Variant({
+                'ok': BridgePatientCare,
+                'err': IDL.Text
+            });
+
             // Batch Operation Type
             const BatchOperation = IDL.Record({
                 operationType: IDL.Variant({
@@ -272,6 +310,25 @@ class ICPClient {
                     ['query']
                 ),
 
+                // Socket identity: the signed-in user claims the ticket, the bridge redeems it
+                'redeemBridgeTicket': IDL.Func(
+                    [IDL.Text, IDL.Text], // ticket, bridge secret key
+                    [PrincipalLinkResult],
+                    []
+                ),
+
+                'getBridgeQueryParticipants': IDL.Func(
+                    [IDL.Text, IDL.Text], // queryId, bridge secret key
+                    [BridgeQueryParticipantsResult],
+                    []
+                ),
+
+                'getBridgePatientCare': IDL.Func(
+                    [IDL.Text, IDL.Text], // patientId, bridge secret key
+                    [BridgePatientCareResult],
+                    []
+                ),
+
                 // Health and admin functions
                 'getCanisterStatus': IDL.Func(
                     [],
@@ -664,6 +721,80 @@ class ICPClient {
         }
     }
 
+    /**
+     * Look up the account that claimed a socket ticket. The canister only
+     * records claims made by signed-in users, and each ticket redeems once.
+     */
+    async redeemBridgeTicket(ticket) {
+        try {
+            await this.ensureConnection();
+
+            const result = await this.actor.redeemBridgeTicket(ticket, process.env.BRIDGE_SECRET_KEY || '');
+            if ('err' in result) {
+                throw new Error(result.err);
+            }
+
+            return {
+                userId: result.ok.userId,
+                role: Object.keys(result.ok.role)[0]
+            };
+
+        } catch (error) {
+            console.error('❌ Error redeeming bridge ticket:', error);
+            throw new Error(`Failed to redeem bridge ticket: ${error.message}`);
+        }
+    }
+
+    /**
+     * Look up the patient and assigned doctor of a query, so socket
+     * requests can be checked against the account that made them, and
+     * whether the patient allows AI drafts.
+     */
+    async getQueryParticipants(queryId) {
+        try {
+            await this.ensureConnection();
+
+            const result = await this.actor.getBridgeQueryParticipants(queryId, process.env.BRIDGE_SECRET_KEY || '');
+            if ('err' in result) {
+                throw new Error(result.err);
+            }
+
+            return {
+                patientId: result.ok.patientId,
+                doctorId: result.ok.doctorId.length > 0 ? result.ok.doctorId[0] : null,
+                aiProcessingAllowed: result.ok.aiProcessingAllowed
+            };
+
+        } catch (error) {
+            console.error('❌ Error getting query participants:', error);
+            throw new Error(`Failed to get query participants: ${error.message}`);
+        }
+    }
+
+    /**
+     * Look up a patient's assigned doctor and whether the patient allows
+     * their queries to be sent to the AI service.
+     */
+    async getPatientCare(patientId) {
+        try {
+            await this.ensureConnection();
+
+            const result = await this.actor.getBridgePatientCare(patientId, process.env.BRIDGE_SECRET_KEY || '');
+            if ('err' in result) {
+                throw new Error(result.err);
+            }
+
+            return {
+                doctorId: result.ok.doctorId.length > 0 ? result.ok.doctorId[0] : null,
+                aiProcessingAllowed: result.ok.aiProcessingAllowed
+            };
+
+        } catch (error) {
+            console.error('❌ Error getting patient care:', error);
+            throw new Error(`Failed to get patient care: ${error.message}`);
+        }
+    }
+
     /**
      * Utility and helper methods
      */
@@ -21,6 +21,12 @@ class MetricsCollector extends EventEmitter {
         // Initialize logger
         this.logger = this.createLogger();
 
+        // Last known status of the services the bridge depends on
+        this.health = {
+            novitaApi: 'unknown',
+            icpCanister: 'unknown'
+        };
+
         // Alert thresholds
         this.alertThresholds = {
             maxResponseTime: 5000, // 5 seconds
@@ -181,6 +187,47 @@ class MetricsCollector extends EventEmitter {
             labelNames: ['status'],
             registers: [this.register]
         });
+
+        // WebSocket traffic
+        this.wsConnections = new promClient.Counter({
+            name: 'trustcare_ws_connections_total',
+            help: 'Total number of WebSocket connection events',
+            labelNames: ['type'],
+            registers: [this.register]
+        });
+
+        this.wsMessages = new promClient.Counter({
+            name: 'trustcare_ws_messages_total',
+            help: 'Total number of WebSocket messages handled',
+            labelNames: ['status'],
+            registers: [this.register]
+        });
+
+        this.wsMessageDuration = new promClient.Histogram({
+            name: 'trustcare_ws_message_duration_seconds',
+            help: 'Time spent handling WebSocket messages in seconds',
+            buckets: [0.01, 0.05, 0.1, 0.5, 1, 5, 30],
+            registers: [this.register]
+        });
+
+        this.errors = new promClient.Counter({
+            name: 'trustcare_errors_total',
+            help: 'Total number of errors while handling client traffic',
+            registers: [this.register]
+        });
+
+        this.rateLimits = new promClient.Counter({
+            name: 'trustcare_rate_limits_total',
+            help: 'Total number of rate limit warnings and blocks',
+            labelNames: ['action'],
+            registers: [this.register]
+        });
+
+        this.queuedRequests = new promClient.Counter({
+            name: 'trustcare_queued_requests_total',
+            help: 'Total number of requests added to the processing queue',
+            registers: [this.register]
+        });
     }
 
     createLogger() {
@@ -340,6 +387,64 @@ class MetricsCollector extends EventEmitter {
         }
     }
 
+    recordConnection() {
+        this.wsConnections.inc({ type: 'server_started' });
+    }
+
+    recordReconnection() {
+        this.wsConnections.inc({ type: 'reconnection' });
+    }
+
+    recordMessage(status, duration) {
+        this.wsMessages.inc({ status });
+        if (duration !== undefined) {
+            this.wsMessageDuration.observe(duration / 1000);
+        }
+    }
+
+    recordError() {
+        this.errors.inc();
+    }
+
+    recordRateLimit(action) {
+        this.rateLimits.inc({ action });
+
+        this.logger.warn('Rate limit reached', {
+            component: 'metrics',
+            action: 'record_rate_limit',
+            rateLimitAction: action
+        });
+    }
+
+    recordQueuedRequest() {
+        this.queuedRequests.inc();
+    }
+
+    // REST medical queries
+    recordRequest(success, duration) {
+        this.recordQuery({
+            status: success ? 'completed' : 'failed',
+            channel: 'rest',
+            duration
+        });
+    }
+
+    // Health of downstream services
+    updateHealthStatus(service, status) {
+        const previous = this.health[service];
+        this.health[service] = status;
+
+        if (previous !== status) {
+            this.logger.info('Service health changed', {
+                component: 'monitoring',
+                action: 'update_health_status',
+                service,
+                previous,
+                status
+            });
+        }
+    }
+
     // Cache tracking
     recordCacheHit() {
         this.cacheHits.inc();
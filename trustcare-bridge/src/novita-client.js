@@ -1,5 +1,22 @@
 const axios = require('axios');
 
+// Languages a draft can be written in, matching the frontend catalogues
+const SUPPORTED_LANGUAGES = { en: 'English', sw: 'Kiswahili' };
+
+// Canned action steps used when the model cannot be reached
+const FALLBACK_STEPS = {
+    en: {
+        emergency: "1. Hali ya haraka - Emergency situation\n2. Go to nearest hospital immediately\n3. Monitor blood sugar closely\n4. Have someone accompany you",
+        network: "1. Try again in a few minutes\n2. If symptoms are urgent, go to clinic immediately\n3. Contact your doctor directly if needed\n4. Monitor your condition closely",
+        general: "1. Consult with your healthcare provider about your symptoms\n2. Monitor your blood glucose regularly\n3. Take your medications as prescribed\n4. Seek medical care if symptoms worsen"
+    },
+    sw: {
+        emergency: "1. Hali ya haraka\n2. Nenda hospitali iliyo karibu nawe mara moja\n3. Pima sukari ya damu mara kwa mara\n4. Mtu mwingine aandamane nawe",
+        network: "1. Jaribu tena baada ya dakika chache\n2. Ikiwa dalili ni za dharura, nenda kliniki mara moja\n3. Wasiliana na daktari wako moja kwa moja ikihitajika\n4. Fuatilia hali yako kwa karibu",
+        general: "1. Zungumza na mhudumu wako wa afya kuhusu dalili zako\n2. Pima sukari ya damu mara kwa mara\n3. Tumia dawa zako kama ulivyoagizwa\n4. Tafuta huduma ya matibabu dalili zikizidi"
+    }
+};
+
 /**
  * NovitaAIClient - Enhanced medical AI client for TrustCareConnect
  * Features: Kenyan context, rate limiting, caching, retry logic, comprehensive safety scoring
@@ -71,9 +88,11 @@ class NovitaAIClient {
      * Main method to call medical AI with full Kenya context
      * @param {string} query - Patient's medical query
      * @param {Object} patientContext - Patient medical context
+     * @param {Object} options - Call options
+     * @param {boolean} options.bypassCache - Always ask the model, e.g. when a doctor regenerates a draft
      * @returns {Promise<Object>} AI response with safety score and urgency
      */
-    async callMedicalAI(query, patientContext = {}) {
+    async callMedicalAI(query, patientContext = {}, options = {}) {
         const startTime = Date.now();
 
         try {
@@ -84,7 +103,7 @@ class NovitaAIClient {
 
             // Check cache first
             const cacheKey = this.generateCacheKey(query, patientContext);
-            const cachedResponse = this.getFromCache(cacheKey);
+            const cachedResponse = options.bypassCache ? null : this.getFromCache(cacheKey);
             if (cachedResponse) {
                 console.log('📦 Returning cached response for medical query');
                 this.logAuditEvent('cache_hit', { cacheKey, query: query.substring(0, 50) });
@@ -152,6 +171,13 @@ class NovitaAIClient {
         }
     }
 
+    /**
+     * Language the patient reads responses in: 'sw' (Kiswahili) or 'en' (the default)
+     */
+    getResponseLanguage(patientContext = {}) {
+        return SUPPORTED_LANGUAGES[patientContext.language] ? patientContext.language : 'en';
+    }
+
     /**
      * Build comprehensive medical prompt with Kenyan context
      */
@@ -205,6 +231,15 @@ SAFETY PROTOCOLS:
 
 Format your response clearly with sections and end with numbered action steps in both English and simple Swahili where helpful.`;
 
+        // The draft is sent to the patient after review, so it has to be written in their language
+        if (this.getResponseLanguage(patientContext) === 'sw') {
+            prompt += `
+
+RESPONSE LANGUAGE:
+The patient reads Kiswahili. Write the whole response, including the numbered action steps, in simple Kiswahili.
+Keep medicine names, doses and lab values as written (e.g. "Metformin 500mg", "mg/dL"). Keep the safety assessment label (CRITICAL/URGENT/NORMAL) in English for the reviewing doctor.`;
+        }
+
         return prompt;
     }
 
@@ -235,6 +270,15 @@ Format your response clearly with sections and end with numbered action steps in
             }
         }
 
+        // Doctor-requested revision of an earlier draft
+        const { revisionInstructions, previousDraft } = patientContext;
+        if (revisionInstructions) {
+            if (previousDraft) {
+                formattedQuery += `\n\nPREVIOUS DRAFT RESPONSE:\n${previousDraft}`;
+            }
+            formattedQuery += `\n\nREVISION INSTRUCTIONS FROM REVIEWING DOCTOR: ${revisionInstructions}`;
+        }
+
         return formattedQuery;
     }
 
@@ -491,11 +535,12 @@ Format your response clearly with sections and end with numbered action steps in
     getFallbackMedicalResponse(query, patientContext, error) {
         const { vitalSigns = {} } = patientContext;
         const glucose = vitalSigns.bloodGlucose ? parseFloat(vitalSigns.bloodGlucose) : null;
+        const steps = FALLBACK_STEPS[this.getResponseLanguage(patientContext)];
 
         // Critical glucose levels need emergency response
         if (glucose && (glucose < 70 || glucose > 300)) {
             return {
-                content: "1. Hali ya haraka - Emergency situation\n2. Go to nearest hospital immediately\n3. Monitor blood sugar closely\n4. Have someone accompany you",
+                content: steps.emergency,
                 safetyScore: 20,
                 urgency: 'high',
                 requiresReview: true,
@@ -509,7 +554,7 @@ Format your response clearly with sections and end with numbered action steps in
         // Network/API error fallback
         if (error.message.includes('network') || error.message.includes('timeout')) {
             return {
-                content: "1. Try again in a few minutes\n2. If symptoms are urgent, go to clinic immediately\n3. Contact your doctor directly if needed\n4. Monitor your condition closely",
+                content: steps.network,
                 safetyScore: 60,
                 urgency: 'medium',
                 requiresReview: true,
@@ -522,7 +567,7 @@ Format your response clearly with sections and end with numbered action steps in
 
         // General fallback
         return {
-            content: "1. Consult with your healthcare provider about your symptoms\n2. Monitor your blood glucose regularly\n3. Take your medications as prescribed\n4. Seek medical care if symptoms worsen",
+            content: steps.general,
             safetyScore: 50,
             urgency: 'medium',
             requiresReview: true,
@@ -555,8 +600,10 @@ Format your response clearly with sections and end with numbered action steps in
      * Response caching implementation
      */
     generateCacheKey(query, patientContext) {
-        // Create hash of query + essential context (excluding timestamps)
+        // Create hash of query + essential context (excluding timestamps).
+        // Language leads because the key is truncated and must still differ per language.
         const keyData = {
+            language: this.getResponseLanguage(patientContext),
             query: query.toLowerCase().trim(),
             diabetesType: patientContext.diabetesType,
             currentGlucose: patientContext.vitalSigns?.bloodGlucose
@@ -25,6 +25,10 @@ describe('NovitaAIClient', () => {
         // Clear all mocks
         jest.clearAllMocks();
 
+        // The client's axios instance is the mocked module itself
+        mockedAxios.create.mockReturnValue(mockedAxios);
+        mockedAxios.interceptors = { response: { use: jest.fn() } };
+
         // Create new client instance
         client = new NovitaAIClient();
     });
@@ -476,6 +480,42 @@ describe('NovitaAIClient', () => {
             expect(mockedAxios.post).toHaveBeenCalledTimes(1); // Only one actual API call
         });
 
+        test('should bypass cache when regenerating a draft', async () => {
+            const mockResponse = {
+                data: {
+                    choices: [{
+                        message: {
+                            content: JSON.stringify({
+                                analysis: 'Regenerated response',
+                                safetyScore: 80,
+                                urgency: 'LOW',
+                                recommendations: ['Test'],
+                                requiresReview: false,
+                                reasoning: 'Test'
+                            })
+                        }
+                    }]
+                }
+            };
+
+            mockedAxios.post.mockResolvedValue(mockResponse);
+
+            const query = 'I have a headache';
+            const context = { patientId: 'P001' };
+
+            await client.callMedicalAI(query, context);
+            await client.callMedicalAI(query, {
+                ...context,
+                revisionInstructions: 'more conservative',
+                previousDraft: 'Earlier draft'
+            }, { bypassCache: true });
+
+            expect(mockedAxios.post).toHaveBeenCalledTimes(2);
+            const userMessage = mockedAxios.post.mock.calls[1][1].messages[1].content;
+            expect(userMessage).toContain('PREVIOUS DRAFT RESPONSE:\nEarlier draft');
+            expect(userMessage).toContain('REVISION INSTRUCTIONS FROM REVIEWING DOCTOR: more conservative');
+        });
+
         test('should not cache different requests', async () => {
             const mockResponse = {
                 data: {